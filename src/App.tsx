@@ -23,6 +23,7 @@ import {
   Share,
   Home,
   Prototypes,
+  Flows,
   Integrations,
 } from '@/pages';
 import { useAuthStore } from '@/store/authStore';
@@ -143,6 +144,10 @@ function App() {
                 {/* Prototypes list */}
                 <Route path="/prototypes" element={<Prototypes />} />
 
+                {/* Multi-screen flows */}
+                <Route path="/flows" element={<Flows />} />
+                <Route path="/flows/:flowId" element={<Flows />} />
+
                 {/* Repository */}
                 <Route path="/repository/screens" element={<Screens />} />
                 <Route path="/repository/components" element={<Components />} />
@@ -0,0 +1,468 @@
+/**
+ * FlowGraphEditor Component
+ * Lays out the screens of a flow on a canvas and links them with hotspots.
+ * A hotspot is made by picking an element in the screen's preview and
+ * choosing where it leads.
+ */
+
+import { useEffect, useMemo, useRef, useState } from 'react';
+import Box from '@mui/material/Box';
+import Typography from '@mui/material/Typography';
+import IconButton from '@mui/material/IconButton';
+import Tooltip from '@mui/material/Tooltip';
+import Select from '@mui/material/Select';
+import MenuItem from '@mui/material/MenuItem';
+import Menu from '@mui/material/Menu';
+import FormControl from '@mui/material/FormControl';
+import InputLabel from '@mui/material/InputLabel';
+import Alert from '@mui/material/Alert';
+import Divider from '@mui/material/Divider';
+import CircularProgress from '@mui/material/CircularProgress';
+import { Plus, Trash, FlagPennant, CursorClick, ArrowRight } from '@phosphor-icons/react';
+import { Button, Chip, TextField } from '@/components/ui';
+import { quickEnhance } from '@/services/injectionService';
+import { setFlowPickingInIframe, type FlowPickedPayload } from '@/services/injections';
+import {
+  FLOW_TRANSITIONS,
+  addFlowHotspot,
+  addFlowNode,
+  getHotspotsFrom,
+  loadFlowScreenHtml,
+  removeFlowHotspot,
+  removeFlowNode,
+  updateFlowHotspot,
+  updateFlowNode,
+  validateFlow,
+  variantLabel,
+  type FlowGraph,
+  type FlowScreen,
+  type FlowScreenSource,
+  type FlowTransition,
+} from '@/services/flowService';
+
+const NODE_WIDTH = 180;
+const NODE_HEIGHT = 64;
+
+interface FlowGraphEditorProps {
+  graph: FlowGraph;
+  onChange: (graph: FlowGraph) => void;
+  /** Variants that can be added as screens */
+  availableScreens: FlowScreen[];
+  /** HTML source per node id */
+  nodeScreens: Record<string, FlowScreenSource>;
+}
+
+export function FlowGraphEditor({ graph, onChange, availableScreens, nodeScreens }: FlowGraphEditorProps) {
+  const canvasRef = useRef<HTMLDivElement>(null);
+  const previewRef = useRef<HTMLIFrameElement>(null);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [drag, setDrag] = useState<{ id: string; dx: number; dy: number } | null>(null);
+  const [addAnchor, setAddAnchor] = useState<HTMLElement | null>(null);
+  const [preview, setPreview] = useState<{ nodeId: string; html: string | null } | null>(null);
+  const [picking, setPicking] = useState(false);
+  const [picked, setPicked] = useState<FlowPickedPayload | null>(null);
+  const [pickedTarget, setPickedTarget] = useState('');
+  const [pickedTransition, setPickedTransition] = useState<FlowTransition>('none');
+
+  const selected = graph.nodes.find((n) => n.id === selectedId) || null;
+  const selectedSource = selected ? nodeScreens[selected.id] : undefined;
+  const issues = useMemo(() => validateFlow(graph), [graph]);
+  const previewHtml = preview && preview.nodeId === selectedId ? preview.html : null;
+  const previewLoading = Boolean(selectedSource) && preview?.nodeId !== selectedId;
+
+  // Load the selected screen for picking hotspots
+  useEffect(() => {
+    if (!selectedId || !selectedSource) return;
+
+    let cancelled = false;
+    loadFlowScreenHtml(selectedSource).then((html) => {
+      if (!cancelled) setPreview({ nodeId: selectedId, html });
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [selectedId, selectedSource]);
+
+  // Only the pick runtime; the preview's own interactions stay off
+  const previewDoc = useMemo(() => {
+    if (!previewHtml || !selectedId) return null;
+    return quickEnhance(previewHtml, {
+      mockData: false,
+      flow: { nodeId: selectedId, hotspots: [], hotspotHints: false },
+    });
+  }, [previewHtml, selectedId]);
+
+  useEffect(() => {
+    const handleMessage = (event: MessageEvent) => {
+      if (event.source !== previewRef.current?.contentWindow) return;
+      const data = event.data;
+      if (!data || data.source !== 'voxel-prototype' || data.type !== 'flow-picked') return;
+
+      setPicked(data.payload as FlowPickedPayload);
+      setPicking(false);
+    };
+
+    window.addEventListener('message', handleMessage);
+    return () => window.removeEventListener('message', handleMessage);
+  }, []);
+
+  useEffect(() => {
+    if (previewRef.current) {
+      setFlowPickingInIframe(previewRef.current, picking);
+    }
+  }, [picking]);
+
+  const selectNode = (nodeId: string | null) => {
+    if (nodeId === selectedId) return;
+    setSelectedId(nodeId);
+    setPicked(null);
+    setPicking(false);
+  };
+
+  const handleAddScreen = (screen: FlowScreen) => {
+    const next = addFlowNode(graph, screen);
+    onChange(next);
+    selectNode(next.nodes[next.nodes.length - 1].id);
+    setAddAnchor(null);
+  };
+
+  const handleRemoveNode = (nodeId: string) => {
+    onChange(removeFlowNode(graph, nodeId));
+    selectNode(null);
+  };
+
+  const handleAddHotspot = () => {
+    if (!selected || !picked || !pickedTarget) return;
+    onChange(
+      addFlowHotspot(graph, {
+        source: selected.id,
+        target: pickedTarget,
+        selector: picked.selector,
+        label: picked.label,
+        transition: pickedTransition,
+      })
+    );
+    setPicked(null);
+    setPickedTarget('');
+  };
+
+  const toCanvasPoint = (e: React.PointerEvent) => {
+    const canvas = canvasRef.current!;
+    const rect = canvas.getBoundingClientRect();
+    return { x: e.clientX - rect.left + canvas.scrollLeft, y: e.clientY - rect.top + canvas.scrollTop };
+  };
+
+  const handlePointerDown = (e: React.PointerEvent, nodeId: string) => {
+    const node = graph.nodes.find((n) => n.id === nodeId)!;
+    const point = toCanvasPoint(e);
+    setDrag({ id: nodeId, dx: point.x - node.x, dy: point.y - node.y });
+    selectNode(nodeId);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    if (!drag) return;
+    const point = toCanvasPoint(e);
+    onChange(
+      updateFlowNode(graph, drag.id, {
+        x: Math.max(0, Math.round(point.x - drag.dx)),
+        y: Math.max(0, Math.round(point.y - drag.dy)),
+      })
+    );
+  };
+
+  const canvasWidth = Math.max(0, ...graph.nodes.map((n) => n.x)) + NODE_WIDTH + 80;
+  const canvasHeight = Math.max(0, ...graph.nodes.map((n) => n.y)) + NODE_HEIGHT + 80;
+  const nodeById = new Map(graph.nodes.map((n) => [n.id, n]));
+  const otherNodes = graph.nodes.filter((n) => n.id !== selectedId);
+
+  return (
+    <Box sx={{ display: 'flex', gap: 2, height: '100%', minHeight: 520 }}>
+      {/* Canvas */}
+      <Box sx={{ flex: 1, display: 'flex', flexDirection: 'column', gap: 1.5, minWidth: 0 }}>
+        <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+          <Button
+            size="small"
+            variant="outlined"
+            startIcon={<Plus size={16} />}
+            onClick={(e) => setAddAnchor(e.currentTarget)}
+          >
+            Add Screen
+          </Button>
+          <Typography variant="caption" color="text.secondary">
+            Drag screens to arrange them; select one to add hotspots
+          </Typography>
+        </Box>
+        <Menu anchorEl={addAnchor} open={Boolean(addAnchor)} onClose={() => setAddAnchor(null)}>
+          {availableScreens.length === 0 && <MenuItem disabled>No generated variants yet</MenuItem>}
+          {availableScreens.map((screen) => (
+            <MenuItem key={`${screen.sessionId}-${screen.variantIndex}`} onClick={() => handleAddScreen(screen)}>
+              {screen.sessionName} · {variantLabel(screen.variantIndex)}
+            </MenuItem>
+          ))}
+        </Menu>
+
+        <Box
+          ref={canvasRef}
+          onPointerMove={handlePointerMove}
+          onPointerUp={() => setDrag(null)}
+          onPointerLeave={() => setDrag(null)}
+          onClick={(e) => e.target === e.currentTarget && selectNode(null)}
+          sx={{
+            flex: 1,
+            position: 'relative',
+            overflow: 'auto',
+            borderRadius: 2,
+            border: 1,
+            borderColor: 'divider',
+            bgcolor: 'background.default',
+            backgroundImage: 'radial-gradient(rgba(0, 0, 0, 0.08) 1px, transparent 1px)',
+            backgroundSize: '16px 16px',
+            userSelect: 'none',
+          }}
+        >
+          <svg
+            width={canvasWidth}
+            height={canvasHeight}
+            style={{ position: 'absolute', top: 0, left: 0, pointerEvents: 'none' }}
+          >
+            <defs>
+              <marker id="flow-arrow" viewBox="0 0 10 10" refX="9" refY="5" markerWidth="7" markerHeight="7" orient="auto">
+                <path d="M0,0 L10,5 L0,10 z" fill="#764ba2" />
+              </marker>
+            </defs>
+            {graph.hotspots.map((hotspot) => {
+              const from = nodeById.get(hotspot.source);
+              const to = nodeById.get(hotspot.target);
+              if (!from || !to || from === to) return null;
+              const x1 = from.x + NODE_WIDTH;
+              const y1 = from.y + NODE_HEIGHT / 2;
+              const x2 = to.x;
+              const y2 = to.y + NODE_HEIGHT / 2;
+              const bend = Math.max(40, Math.abs(x2 - x1) / 2);
+              return (
+                <path
+                  key={hotspot.id}
+                  d={`M${x1},${y1} C${x1 + bend},${y1} ${x2 - bend},${y2} ${x2},${y2}`}
+                  fill="none"
+                  stroke="#764ba2"
+                  strokeWidth={hotspot.source === selectedId ? 2.5 : 1.5}
+                  opacity={hotspot.source === selectedId || !selectedId ? 1 : 0.4}
+                  markerEnd="url(#flow-arrow)"
+                />
+              );
+            })}
+          </svg>
+
+          {graph.nodes.map((node) => (
+            <Box
+              key={node.id}
+              onPointerDown={(e) => handlePointerDown(e, node.id)}
+              sx={{
+                position: 'absolute',
+                left: node.x,
+                top: node.y,
+                width: NODE_WIDTH,
+                height: NODE_HEIGHT,
+                p: 1.25,
+                borderRadius: 2,
+                bgcolor: 'background.paper',
+                border: 2,
+                borderColor: node.id === selectedId ? 'primary.main' : 'divider',
+                boxShadow: drag?.id === node.id ? 4 : 1,
+                cursor: drag?.id === node.id ? 'grabbing' : 'grab',
+              }}
+            >
+              <Typography variant="body2" fontWeight={600} noWrap>
+                {node.title}
+              </Typography>
+              <Box sx={{ display: 'flex', alignItems: 'center', gap: 0.5, mt: 0.5 }}>
+                {node.id === graph.start_node_id && (
+                  <Chip label="Start" size="small" color="primary" sx={{ height: 18, fontSize: 10 }} />
+                )}
+                <Typography variant="caption" color="text.secondary">
+                  {getHotspotsFrom(graph, node.id).length} hotspot(s)
+                </Typography>
+              </Box>
+            </Box>
+          ))}
+
+          {graph.nodes.length === 0 && (
+            <Box sx={{ position: 'absolute', inset: 0, display: 'flex', alignItems: 'center', justifyContent: 'center' }}>
+              <Typography color="text.secondary">Add screens to start building the flow</Typography>
+            </Box>
+          )}
+        </Box>
+
+        {issues.length > 0 && (
+          <Alert severity="warning" sx={{ py: 0.5 }}>
+            {issues.map((issue) => (
+              <Typography key={`${issue.type}-${issue.nodeId || ''}-${issue.message}`} variant="body2">
+                {issue.message}
+              </Typography>
+            ))}
+          </Alert>
+        )}
+      </Box>
+
+      {/* Inspector */}
+      <Box sx={{ width: 360, flexShrink: 0, display: 'flex', flexDirection: 'column', gap: 1.5, overflowY: 'auto' }}>
+        {!selected ? (
+          <Typography variant="body2" color="text.secondary" sx={{ mt: 5, textAlign: 'center' }}>
+            Select a screen to edit it
+          </Typography>
+        ) : (
+          <>
+            <TextField
+              size="small"
+              label="Screen name"
+              value={selected.title}
+              onChange={(e) => onChange(updateFlowNode(graph, selected.id, { title: e.target.value }))}
+            />
+            <Box sx={{ display: 'flex', gap: 1 }}>
+              <Button
+                size="small"
+                variant="outlined"
+                startIcon={<FlagPennant size={16} />}
+                disabled={selected.id === graph.start_node_id}
+                onClick={() => onChange({ ...graph, start_node_id: selected.id })}
+              >
+                Set as Start
+              </Button>
+              <Button
+                size="small"
+                color="error"
+                startIcon={<Trash size={16} />}
+                onClick={() => handleRemoveNode(selected.id)}
+              >
+                Remove
+              </Button>
+            </Box>
+
+            <Divider />
+
+            <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between' }}>
+              <Typography variant="subtitle2">Hotspots</Typography>
+              <Button
+                size="small"
+                variant={picking ? 'contained' : 'text'}
+                startIcon={<CursorClick size={16} />}
+                disabled={!previewDoc}
+                onClick={() => setPicking(!picking)}
+              >
+                {picking ? 'Click an element…' : 'Pick Element'}
+              </Button>
+            </Box>
+
+            <Box
+              sx={{
+                height: 240,
+                borderRadius: 1,
+                border: 1,
+                borderColor: picking ? 'primary.main' : 'divider',
+                overflow: 'hidden',
+                bgcolor: '#fff',
+              }}
+            >
+              {previewLoading ? (
+                <Box sx={{ height: '100%', display: 'flex', alignItems: 'center', justifyContent: 'center' }}>
+                  <CircularProgress size={24} />
+                </Box>
+              ) : previewDoc ? (
+                <iframe
+                  ref={previewRef}
+                  srcDoc={previewDoc}
+                  title={`${selected.title} preview`}
+                  onLoad={() => previewRef.current && setFlowPickingInIframe(previewRef.current, picking)}
+                  style={{ width: '100%', height: '100%', border: 'none' }}
+                />
+              ) : (
+                <Box sx={{ height: '100%', display: 'flex', alignItems: 'center', justifyContent: 'center' }}>
+                  <Typography variant="body2" color="text.secondary">
+                    Preview not available
+                  </Typography>
+                </Box>
+              )}
+            </Box>
+
+            {picked && (
+              <Box sx={{ p: 1.5, borderRadius: 1, border: 1, borderColor: 'primary.main', display: 'flex', flexDirection: 'column', gap: 1.5 }}>
+                <Typography variant="body2">
+                  When <strong>{picked.label || picked.selector}</strong> is clicked, go to
+                </Typography>
+                <FormControl fullWidth size="small">
+                  <InputLabel>Destination</InputLabel>
+                  <Select value={pickedTarget} label="Destination" onChange={(e) => setPickedTarget(e.target.value)}>
+                    {otherNodes.map((node) => (
+                      <MenuItem key={node.id} value={node.id}>
+                        {node.title}
+                      </MenuItem>
+                    ))}
+                  </Select>
+                </FormControl>
+                <FormControl fullWidth size="small">
+                  <InputLabel>Transition</InputLabel>
+                  <Select
+                    value={pickedTransition}
+                    label="Transition"
+                    onChange={(e) => setPickedTransition(e.target.value as FlowTransition)}
+                  >
+                    {FLOW_TRANSITIONS.map((t) => (
+                      <MenuItem key={t.value} value={t.value}>
+                        {t.label}
+                      </MenuItem>
+                    ))}
+                  </Select>
+                </FormControl>
+                <Box sx={{ display: 'flex', gap: 1, justifyContent: 'flex-end' }}>
+                  <Button size="small" onClick={() => setPicked(null)}>
+                    Cancel
+                  </Button>
+                  <Button size="small" variant="contained" disabled={!pickedTarget} onClick={handleAddHotspot}>
+                    Add Hotspot
+                  </Button>
+                </Box>
+              </Box>
+            )}
+
+            {getHotspotsFrom(graph, selected.id).map((hotspot) => (
+              <Box key={hotspot.id} sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+                <Box sx={{ flex: 1, minWidth: 0 }}>
+                  <Typography variant="body2" noWrap title={hotspot.selector}>
+                    {hotspot.label || hotspot.selector}
+                  </Typography>
+                  <Box sx={{ display: 'flex', alignItems: 'center', gap: 0.5, color: 'text.secondary' }}>
+                    <ArrowRight size={12} />
+                    <Typography variant="caption" noWrap>
+                      {nodeById.get(hotspot.target)?.title || 'Removed screen'}
+                    </Typography>
+                  </Box>
+                </Box>
+                <Select
+                  size="small"
+                  value={hotspot.transition}
+                  onChange={(e) =>
+                    onChange(updateFlowHotspot(graph, hotspot.id, { transition: e.target.value as FlowTransition }))
+                  }
+                  sx={{ width: 120, fontSize: 12 }}
+                >
+                  {FLOW_TRANSITIONS.map((t) => (
+                    <MenuItem key={t.value} value={t.value}>
+                      {t.label}
+                    </MenuItem>
+                  ))}
+                </Select>
+                <Tooltip title="Remove hotspot">
+                  <IconButton size="small" onClick={() => onChange(removeFlowHotspot(graph, hotspot.id))}>
+                    <Trash size={16} />
+                  </IconButton>
+                </Tooltip>
+              </Box>
+            ))}
+          </>
+        )}
+      </Box>
+    </Box>
+  );
+}
+
+export default FlowGraphEditor;
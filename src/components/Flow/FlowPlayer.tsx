@@ -0,0 +1,229 @@
+/**
+ * FlowPlayer Component
+ * Plays a multi-screen flow: shows one screen at a time and follows its
+ * hotspots to the next, carrying form values and mock data along.
+ */
+
+import { useEffect, useMemo, useRef, useState } from 'react';
+import Box from '@mui/material/Box';
+import Typography from '@mui/material/Typography';
+import IconButton from '@mui/material/IconButton';
+import Tooltip from '@mui/material/Tooltip';
+import CircularProgress from '@mui/material/CircularProgress';
+import { ArrowLeft, ArrowCounterClockwise } from '@phosphor-icons/react';
+import { quickEnhance } from '@/services/injectionService';
+import type { FlowNavigatePayload, FlowState } from '@/services/injections';
+import {
+  loadFlowScreenHtml,
+  type FlowGraph,
+  type FlowScreenSource,
+  type FlowTransition,
+} from '@/services/flowService';
+
+interface FlowPlayerProps {
+  /** Scopes the mock data the screens share */
+  flowId: string;
+  graph: FlowGraph;
+  /** HTML source per node id */
+  screens: Record<string, FlowScreenSource>;
+  /** Flash the hotspots when a click misses them */
+  hotspotHints?: boolean;
+  /** Hide the back/restart bar */
+  hideControls?: boolean;
+}
+
+interface HistoryEntry {
+  nodeId: string;
+  transition: FlowTransition;
+}
+
+const ANIMATIONS: Record<FlowTransition, string | undefined> = {
+  none: undefined,
+  fade: 'flowFade 250ms ease-out',
+  'slide-left': 'flowSlideLeft 300ms ease-out',
+  'slide-right': 'flowSlideRight 300ms ease-out',
+  'slide-up': 'flowSlideUp 300ms ease-out',
+  zoom: 'flowZoom 250ms ease-out',
+};
+
+// Going back plays the transition the other way
+const REVERSE: Record<FlowTransition, FlowTransition> = {
+  none: 'none',
+  fade: 'fade',
+  'slide-left': 'slide-right',
+  'slide-right': 'slide-left',
+  'slide-up': 'fade',
+  zoom: 'fade',
+};
+
+export function FlowPlayer({
+  flowId,
+  graph,
+  screens,
+  hotspotHints = true,
+  hideControls = false,
+}: FlowPlayerProps) {
+  const iframeRef = useRef<HTMLIFrameElement>(null);
+  const htmlCache = useRef(new Map<string, string | null>());
+  const startNodeId = graph.start_node_id;
+  const [history, setHistory] = useState<HistoryEntry[]>(() =>
+    startNodeId ? [{ nodeId: startNodeId, transition: 'none' }] : []
+  );
+  const [animation, setAnimation] = useState<FlowTransition>('none');
+  const [flowState, setFlowState] = useState<FlowState>({});
+  const [html, setHtml] = useState<{ nodeId: string; content: string | null } | null>(null);
+
+  const current = history[history.length - 1];
+  const currentNode = graph.nodes.find((n) => n.id === current?.nodeId);
+
+  useEffect(() => {
+    if (!current) return;
+    const nodeId = current.nodeId;
+    let cancelled = false;
+
+    const load = async () => {
+      if (!htmlCache.current.has(nodeId)) {
+        const source = screens[nodeId];
+        htmlCache.current.set(nodeId, source ? await loadFlowScreenHtml(source) : null);
+      }
+      if (!cancelled) {
+        setHtml({ nodeId, content: htmlCache.current.get(nodeId) ?? null });
+      }
+    };
+
+    load();
+    return () => {
+      cancelled = true;
+    };
+  }, [current, screens]);
+
+  useEffect(() => {
+    const handleMessage = (event: MessageEvent) => {
+      if (event.source !== iframeRef.current?.contentWindow) return;
+      const data = event.data;
+      if (!data || data.source !== 'voxel-prototype' || data.type !== 'flow-navigate') return;
+
+      const { target, transition, state } = data.payload as FlowNavigatePayload;
+      if (!graph.nodes.some((n) => n.id === target)) return;
+
+      setFlowState(state);
+      setAnimation(transition);
+      setHistory((prev) => [...prev, { nodeId: target, transition }]);
+    };
+
+    window.addEventListener('message', handleMessage);
+    return () => window.removeEventListener('message', handleMessage);
+  }, [graph.nodes]);
+
+  // Keyed on the hotspots, not the graph object, so parents can pass an inline graph
+  const hotspots = graph.hotspots;
+  const srcDoc = useMemo(() => {
+    if (!html?.content) return null;
+    return quickEnhance(html.content, {
+      mockStorageKey: `flow-${flowId}`,
+      flow: {
+        nodeId: html.nodeId,
+        hotspots: hotspots
+          .filter((h) => h.source === html.nodeId)
+          .map(({ selector, target, transition }) => ({ selector, target, transition })),
+        state: flowState,
+        hotspotHints,
+      },
+    });
+  }, [html, flowId, hotspots, flowState, hotspotHints]);
+
+  const handleBack = () => {
+    if (history.length < 2) return;
+    setAnimation(REVERSE[current.transition]);
+    setHistory((prev) => prev.slice(0, -1));
+  };
+
+  const handleRestart = () => {
+    if (!startNodeId) return;
+    setAnimation('none');
+    setFlowState({});
+    setHistory([{ nodeId: startNodeId, transition: 'none' }]);
+  };
+
+  if (!startNodeId || !currentNode) {
+    return (
+      <Box sx={{ height: '100%', display: 'flex', alignItems: 'center', justifyContent: 'center' }}>
+        <Typography color="text.secondary">This flow has no start screen yet</Typography>
+      </Box>
+    );
+  }
+
+  return (
+    <Box sx={{ position: 'relative', width: '100%', height: '100%', overflow: 'hidden', bgcolor: '#f5f5f5' }}>
+      {html?.nodeId !== currentNode.id ? (
+        <Box sx={{ height: '100%', display: 'flex', alignItems: 'center', justifyContent: 'center' }}>
+          <CircularProgress size={32} />
+        </Box>
+      ) : srcDoc ? (
+        <Box
+          key={`${history.length}-${currentNode.id}`}
+          sx={{
+            position: 'absolute',
+            inset: 0,
+            animation: ANIMATIONS[animation],
+            '@keyframes flowFade': { from: { opacity: 0 }, to: { opacity: 1 } },
+            '@keyframes flowSlideLeft': { from: { transform: 'translateX(100%)' }, to: { transform: 'translateX(0)' } },
+            '@keyframes flowSlideRight': { from: { transform: 'translateX(-100%)' }, to: { transform: 'translateX(0)' } },
+            '@keyframes flowSlideUp': { from: { transform: 'translateY(100%)' }, to: { transform: 'translateY(0)' } },
+            '@keyframes flowZoom': {
+              from: { opacity: 0, transform: 'scale(0.92)' },
+              to: { opacity: 1, transform: 'scale(1)' },
+            },
+          }}
+        >
+          <iframe
+            ref={iframeRef}
+            srcDoc={srcDoc}
+            title={currentNode.title}
+            style={{ width: '100%', height: '100%', border: 'none', background: '#fff' }}
+          />
+        </Box>
+      ) : (
+        <Box sx={{ height: '100%', display: 'flex', alignItems: 'center', justifyContent: 'center' }}>
+          <Typography color="text.secondary">{currentNode.title} could not be loaded</Typography>
+        </Box>
+      )}
+
+      {!hideControls && (
+        <Box
+          sx={{
+            position: 'absolute',
+            left: 12,
+            bottom: 12,
+            display: 'flex',
+            alignItems: 'center',
+            gap: 0.5,
+            px: 1,
+            py: 0.5,
+            borderRadius: 2,
+            bgcolor: 'rgba(0, 0, 0, 0.7)',
+            color: '#fff',
+          }}
+        >
+          <Tooltip title="Back">
+            <span>
+              <IconButton size="small" onClick={handleBack} disabled={history.length < 2} sx={{ color: 'inherit' }}>
+                <ArrowLeft size={16} />
+              </IconButton>
+            </span>
+          </Tooltip>
+          <Tooltip title="Restart flow">
+            <IconButton size="small" onClick={handleRestart} sx={{ color: 'inherit' }}>
+              <ArrowCounterClockwise size={16} />
+            </IconButton>
+          </Tooltip>
+          <Typography variant="caption" sx={{ px: 0.5 }}>
+            {currentNode.title}
+          </Typography>
+        </Box>
+      )}
+    </Box>
+  );
+}
+
+export default FlowPlayer;
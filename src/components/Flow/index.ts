@@ -0,0 +1,2 @@
+export { FlowPlayer } from './FlowPlayer';
+export { FlowGraphEditor } from './FlowGraphEditor';
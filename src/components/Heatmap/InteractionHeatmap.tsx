@@ -0,0 +1,181 @@
+/**
+ * InteractionHeatmap Component
+ * Renders a variant at its full page height and draws recorded interactions
+ * over it: click, movement or rage-click density, or how far down viewers
+ * scrolled.
+ */
+
+import { useEffect, useRef, useState } from 'react';
+import Box from '@mui/material/Box';
+import type { HeatmapPoint, ScrollDepthSummary } from '@/services/interactionAnalyticsService';
+
+export type HeatmapMode = 'clicks' | 'moves' | 'rage' | 'scroll';
+
+interface InteractionHeatmapProps {
+  /** The variant's HTML; rendered without scripts so it holds still */
+  html: string;
+  mode: HeatmapMode;
+  points: HeatmapPoint[];
+  scroll: ScrollDepthSummary;
+  /** Rendered width of the page, before scaling to fit */
+  pageWidth?: number;
+}
+
+// Radius of one interaction's blob, in page pixels
+const BLOB_RADIUS: Record<Exclude<HeatmapMode, 'scroll'>, number> = {
+  clicks: 28,
+  moves: 36,
+  rage: 40,
+};
+
+// Blobs share the scale of the busiest cell, but faint cells stay visible
+const MIN_INTENSITY = 0.15;
+
+let palette: Uint8ClampedArray | null = null;
+
+// Cold to hot: transparent blue through green and yellow to red
+function getPalette(): Uint8ClampedArray | null {
+  if (palette) return palette;
+  const canvas = document.createElement('canvas');
+  canvas.width = 256;
+  canvas.height = 1;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return null;
+
+  const gradient = ctx.createLinearGradient(0, 0, 256, 0);
+  gradient.addColorStop(0.15, 'rgba(0, 0, 255, 0.6)');
+  gradient.addColorStop(0.45, 'rgba(0, 255, 255, 0.7)');
+  gradient.addColorStop(0.65, 'rgba(0, 255, 0, 0.75)');
+  gradient.addColorStop(0.85, 'rgba(255, 255, 0, 0.8)');
+  gradient.addColorStop(1, 'rgba(255, 0, 0, 0.85)');
+  ctx.fillStyle = gradient;
+  ctx.fillRect(0, 0, 256, 1);
+
+  palette = ctx.getImageData(0, 0, 256, 1).data;
+  return palette;
+}
+
+function drawDensity(ctx: CanvasRenderingContext2D, points: HeatmapPoint[], radius: number) {
+  const { width, height } = ctx.canvas;
+  const max = Math.max(...points.map((p) => p.value));
+
+  // Accumulate intensity in the alpha channel, then map it onto the palette
+  for (const point of points) {
+    const x = point.x * width;
+    const y = point.y * height;
+    const gradient = ctx.createRadialGradient(x, y, 0, x, y, radius);
+    gradient.addColorStop(0, `rgba(0, 0, 0, ${Math.max(MIN_INTENSITY, point.value / max)})`);
+    gradient.addColorStop(1, 'rgba(0, 0, 0, 0)');
+    ctx.fillStyle = gradient;
+    ctx.fillRect(x - radius, y - radius, radius * 2, radius * 2);
+  }
+
+  const colors = getPalette();
+  if (!colors) return;
+  const image = ctx.getImageData(0, 0, width, height);
+  const pixels = image.data;
+  for (let i = 0; i < pixels.length; i += 4) {
+    const alpha = pixels[i + 3];
+    if (alpha === 0) continue;
+    pixels[i] = colors[alpha * 4];
+    pixels[i + 1] = colors[alpha * 4 + 1];
+    pixels[i + 2] = colors[alpha * 4 + 2];
+    pixels[i + 3] = colors[alpha * 4 + 3];
+  }
+  ctx.putImageData(image, 0, 0);
+}
+
+function drawScrollDepth(ctx: CanvasRenderingContext2D, scroll: ScrollDepthSummary) {
+  const { width, height } = ctx.canvas;
+  const bandHeight = height / scroll.reach.length;
+
+  scroll.reach.forEach((reach, band) => {
+    // Red where everyone looked, fading to blue where nobody did
+    const hue = Math.round(240 * (1 - reach));
+    ctx.fillStyle = `hsla(${hue}, 85%, 50%, 0.35)`;
+    ctx.fillRect(0, band * bandHeight, width, bandHeight);
+  });
+
+  ctx.font = '600 13px system-ui, sans-serif';
+  ctx.textBaseline = 'top';
+  const labelEvery = Math.max(1, Math.round(scroll.reach.length / 10));
+  scroll.reach.forEach((reach, band) => {
+    if (band % labelEvery !== 0) return;
+    const label = `${Math.round(reach * 100)}% reached`;
+    const y = band * bandHeight + 4;
+    ctx.fillStyle = 'rgba(0, 0, 0, 0.7)';
+    ctx.fillRect(4, y - 2, ctx.measureText(label).width + 12, 20);
+    ctx.fillStyle = '#fff';
+    ctx.fillText(label, 10, y + 1);
+  });
+}
+
+export function InteractionHeatmap({ html, mode, points, scroll, pageWidth = 1280 }: InteractionHeatmapProps) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [pageHeight, setPageHeight] = useState(800);
+  const [scale, setScale] = useState(1);
+
+  // Fit the page's width to the panel
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    const observer = new ResizeObserver(([entry]) => {
+      setScale(Math.min(1, entry.contentRect.width / pageWidth));
+    });
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, [pageWidth]);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d', { willReadFrequently: true });
+    if (!canvas || !ctx) return;
+
+    canvas.width = pageWidth;
+    canvas.height = pageHeight;
+    ctx.clearRect(0, 0, canvas.width, canvas.height);
+
+    if (mode === 'scroll') {
+      if (scroll.participants > 0) drawScrollDepth(ctx, scroll);
+    } else if (points.length > 0) {
+      drawDensity(ctx, points, BLOB_RADIUS[mode]);
+    }
+  }, [mode, points, scroll, pageWidth, pageHeight]);
+
+  const handleLoad = (e: React.SyntheticEvent<HTMLIFrameElement>) => {
+    const doc = e.currentTarget.contentDocument;
+    if (doc) setPageHeight(Math.max(doc.documentElement.scrollHeight, doc.body?.scrollHeight ?? 0, 200));
+  };
+
+  return (
+    <Box ref={containerRef} sx={{ width: '100%', overflow: 'auto', maxHeight: 720, bgcolor: 'grey.100' }}>
+      <Box sx={{ width: pageWidth * scale, height: pageHeight * scale, position: 'relative' }}>
+        <Box
+          sx={{
+            width: pageWidth,
+            height: pageHeight,
+            transform: `scale(${scale})`,
+            transformOrigin: 'top left',
+            position: 'absolute',
+            top: 0,
+            left: 0,
+          }}
+        >
+          <iframe
+            srcDoc={html}
+            sandbox="allow-same-origin"
+            onLoad={handleLoad}
+            title="Variant heatmap"
+            scrolling="no"
+            style={{ width: '100%', height: '100%', border: 'none', background: 'white', pointerEvents: 'none' }}
+          />
+          <canvas
+            ref={canvasRef}
+            style={{ position: 'absolute', inset: 0, width: '100%', height: '100%', pointerEvents: 'none' }}
+          />
+        </Box>
+      </Box>
+    </Box>
+  );
+}
@@ -0,0 +1 @@
+export { InteractionHeatmap, type HeatmapMode } from './InteractionHeatmap';
@@ -0,0 +1,119 @@
+/**
+ * UsabilityTaskEditor Component
+ * Lets a share link's owner write usability tasks and say how each one is
+ * judged a success.
+ */
+
+import Box from '@mui/material/Box';
+import Typography from '@mui/material/Typography';
+import IconButton from '@mui/material/IconButton';
+import Select from '@mui/material/Select';
+import MenuItem from '@mui/material/MenuItem';
+import { Plus, Trash } from '@phosphor-icons/react';
+import { Button, TextField } from '@/components/ui';
+import type { UsabilityCriterion, UsabilityTask } from '@/services/injections';
+import { createUsabilityTask } from '@/services/usabilityTestService';
+
+interface UsabilityTaskEditorProps {
+  tasks: UsabilityTask[];
+  onChange: (tasks: UsabilityTask[]) => void;
+}
+
+const CRITERIA: Record<UsabilityCriterion['type'], { label: string; empty: UsabilityCriterion }> = {
+  click: { label: 'Clicks an element', empty: { type: 'click', selector: '' } },
+  url: { label: 'Reaches a URL', empty: { type: 'url', contains: '' } },
+  state: { label: 'Reaches a state', empty: { type: 'state', key: '', value: '' } },
+};
+
+export function UsabilityTaskEditor({ tasks, onChange }: UsabilityTaskEditorProps) {
+  const update = (id: string, changes: Partial<UsabilityTask>) => {
+    onChange(tasks.map((task) => (task.id === id ? { ...task, ...changes } : task)));
+  };
+
+  const addTask = () => {
+    onChange([...tasks, createUsabilityTask('', CRITERIA.click.empty)]);
+  };
+
+  return (
+    <Box sx={{ display: 'flex', flexDirection: 'column', gap: 1.5 }}>
+      {tasks.map((task, index) => {
+        const { criterion } = task;
+        return (
+          <Box key={task.id} sx={{ border: 1, borderColor: 'divider', borderRadius: 1.5, p: 1.5 }}>
+            <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, mb: 1 }}>
+              <Typography variant="caption" fontWeight={600} color="text.secondary" sx={{ flex: 1 }}>
+                Task {index + 1}
+              </Typography>
+              <IconButton size="small" onClick={() => onChange(tasks.filter((t) => t.id !== task.id))}>
+                <Trash size={14} />
+              </IconButton>
+            </Box>
+            <TextField
+              fullWidth
+              size="small"
+              placeholder="Find the refund button"
+              value={task.prompt}
+              onChange={(e) => update(task.id, { prompt: e.target.value })}
+              sx={{ mb: 1 }}
+            />
+            <Box sx={{ display: 'flex', gap: 1 }}>
+              <Select
+                size="small"
+                value={criterion.type}
+                onChange={(e) =>
+                  update(task.id, { criterion: CRITERIA[e.target.value as UsabilityCriterion['type']].empty })
+                }
+                sx={{ minWidth: 170 }}
+              >
+                {Object.entries(CRITERIA).map(([type, { label }]) => (
+                  <MenuItem key={type} value={type}>
+                    {label}
+                  </MenuItem>
+                ))}
+              </Select>
+              {criterion.type === 'click' && (
+                <TextField
+                  fullWidth
+                  size="small"
+                  placeholder='#refund or [data-vx-id="vx-12"]'
+                  value={criterion.selector}
+                  onChange={(e) => update(task.id, { criterion: { ...criterion, selector: e.target.value } })}
+                />
+              )}
+              {criterion.type === 'url' && (
+                <TextField
+                  fullWidth
+                  size="small"
+                  placeholder="#/refunds"
+                  value={criterion.contains}
+                  onChange={(e) => update(task.id, { criterion: { ...criterion, contains: e.target.value } })}
+                />
+              )}
+              {criterion.type === 'state' && (
+                <>
+                  <TextField
+                    fullWidth
+                    size="small"
+                    placeholder="Key, e.g. refundRequested"
+                    value={criterion.key}
+                    onChange={(e) => update(task.id, { criterion: { ...criterion, key: e.target.value } })}
+                  />
+                  <TextField
+                    fullWidth
+                    size="small"
+                    placeholder="Value (any)"
+                    value={criterion.value ?? ''}
+                    onChange={(e) => update(task.id, { criterion: { ...criterion, value: e.target.value } })}
+                  />
+                </>
+              )}
+            </Box>
+          </Box>
+        );
+      })}
+      <Button size="small" variant="outlined" startIcon={<Plus size={14} />} onClick={addTask} sx={{ alignSelf: 'flex-start' }}>
+        Add task
+      </Button>
+    </Box>
+  );
+}
@@ -0,0 +1,239 @@
+/**
+ * UsabilityTaskRunner Component
+ * Walks a participant through a share link's usability tasks one at a time,
+ * over the prototype they are testing. The prototype's runtime reports
+ * clicks and success; each attempt ends with an ease rating and is recorded.
+ */
+
+import { useEffect, useRef, useState } from 'react';
+import Box from '@mui/material/Box';
+import Paper from '@mui/material/Paper';
+import Typography from '@mui/material/Typography';
+import Button from '@mui/material/Button';
+import LinearProgress from '@mui/material/LinearProgress';
+import { CheckCircle, Flag, ListChecks } from '@phosphor-icons/react';
+import {
+  createUsabilityTaskTracker,
+  startUsabilityTaskInIframe,
+  stopUsabilityTaskInIframe,
+  type UsabilityOutcome,
+  type UsabilityTask,
+} from '@/services/injections';
+import { recordUsabilityResult } from '@/services/usabilityTestService';
+
+interface UsabilityTaskRunnerProps {
+  token: string;
+  variantIndex: number;
+  /** Identifies the participant's attempts, one per task */
+  participantId: string;
+  tasks: UsabilityTask[];
+  /** The prototype frame, loaded with the usability runtime */
+  frame: HTMLIFrameElement | null;
+}
+
+type Stage = 'intro' | 'task' | 'rate' | 'done';
+
+const RATINGS = [
+  { value: 1, label: 'Very hard' },
+  { value: 2, label: 'Hard' },
+  { value: 3, label: 'OK' },
+  { value: 4, label: 'Easy' },
+  { value: 5, label: 'Very easy' },
+];
+
+const OUTCOME_MESSAGES: Record<UsabilityOutcome, string> = {
+  success: 'Task complete',
+  fail: 'Thanks, noted',
+  abandoned: 'No problem, moving on',
+};
+
+export function UsabilityTaskRunner({ token, variantIndex, participantId, tasks, frame }: UsabilityTaskRunnerProps) {
+  const [stage, setStage] = useState<Stage>('intro');
+  const [taskIndex, setTaskIndex] = useState(0);
+  const [outcome, setOutcome] = useState<UsabilityOutcome | null>(null);
+  const [minimized, setMinimized] = useState(false);
+  const trackerRef = useRef<ReturnType<typeof createUsabilityTaskTracker> | null>(null);
+
+  const task = tasks[taskIndex];
+
+  // Follow the runtime while a task is under way
+  useEffect(() => {
+    if (stage !== 'task' || !frame || !task) return;
+
+    const handleMessage = (event: MessageEvent) => {
+      if (event.source !== frame.contentWindow) return;
+
+      // The prototype reloaded itself; pick the task back up
+      if (event.data?.source === 'voxel-prototype' && event.data.type === 'ready') {
+        startUsabilityTaskInIframe(frame, task);
+        return;
+      }
+
+      if (trackerRef.current?.handleMessage(event.data)) {
+        setOutcome('success');
+        setStage('rate');
+      }
+    };
+
+    window.addEventListener('message', handleMessage);
+    return () => window.removeEventListener('message', handleMessage);
+  }, [stage, frame, task]);
+
+  const startTask = (index: number) => {
+    const next = tasks[index];
+    if (!next || !frame) return;
+
+    trackerRef.current = createUsabilityTaskTracker(next);
+    startUsabilityTaskInIframe(frame, next);
+    setTaskIndex(index);
+    setOutcome(null);
+    setMinimized(false);
+    setStage('task');
+  };
+
+  const endTask = (result: 'fail' | 'abandoned') => {
+    if (frame) stopUsabilityTaskInIframe(frame);
+    trackerRef.current?.finish(result);
+    setOutcome(result);
+    setStage('rate');
+  };
+
+  const submitRating = async (rating?: number) => {
+    const result = trackerRef.current?.getResult(rating);
+    trackerRef.current = null;
+    if (result) {
+      await recordUsabilityResult(token, variantIndex, participantId, result);
+    }
+
+    if (taskIndex + 1 < tasks.length) {
+      startTask(taskIndex + 1);
+    } else {
+      setStage('done');
+    }
+  };
+
+  if (tasks.length === 0) return null;
+
+  return (
+    <Paper
+      elevation={6}
+      sx={{
+        position: 'absolute',
+        left: 16,
+        bottom: 16,
+        width: minimized ? 'auto' : 320,
+        p: 2,
+        borderRadius: 2,
+        zIndex: 30,
+      }}
+    >
+      {stage === 'intro' && (
+        <>
+          <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, mb: 1 }}>
+            <ListChecks size={20} color="#764ba2" />
+            <Typography variant="subtitle2" fontWeight={600}>
+              Usability test · {tasks.length} {tasks.length === 1 ? 'task' : 'tasks'}
+            </Typography>
+          </Box>
+          <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+            You'll get one task at a time. Use the prototype as you normally would; we're testing
+            the design, not you.
+          </Typography>
+          <Button fullWidth variant="contained" onClick={() => startTask(0)} disabled={!frame}>
+            Start
+          </Button>
+        </>
+      )}
+
+      {stage === 'task' && task && (
+        minimized ? (
+          <Button size="small" onClick={() => setMinimized(false)} startIcon={<ListChecks size={16} />}>
+            Task {taskIndex + 1} of {tasks.length}
+          </Button>
+        ) : (
+          <>
+            <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', mb: 1 }}>
+              <Typography variant="caption" color="text.secondary" fontWeight={600}>
+                Task {taskIndex + 1} of {tasks.length}
+              </Typography>
+              <Button size="small" onClick={() => setMinimized(true)} sx={{ minWidth: 0, py: 0 }}>
+                Hide
+              </Button>
+            </Box>
+            <LinearProgress
+              variant="determinate"
+              value={(taskIndex / tasks.length) * 100}
+              sx={{ mb: 1.5, borderRadius: 1 }}
+            />
+            <Typography variant="body1" fontWeight={500} sx={{ mb: 2 }}>
+              {task.prompt}
+            </Typography>
+            <Box sx={{ display: 'flex', gap: 1 }}>
+              <Button size="small" variant="outlined" onClick={() => endTask('fail')} startIcon={<Flag size={14} />}>
+                I'm done
+              </Button>
+              <Button size="small" color="inherit" onClick={() => endTask('abandoned')}>
+                I'm stuck
+              </Button>
+            </Box>
+          </>
+        )
+      )}
+
+      {stage === 'rate' && (
+        <>
+          {outcome && (
+            <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, mb: 1 }}>
+              {outcome === 'success' && <CheckCircle size={18} color="#2e7d32" weight="fill" />}
+              <Typography variant="subtitle2" fontWeight={600}>
+                {OUTCOME_MESSAGES[outcome]}
+              </Typography>
+            </Box>
+          )}
+          <Typography variant="body2" color="text.secondary" sx={{ mb: 1.5 }}>
+            How easy was this task?
+          </Typography>
+          <Box sx={{ display: 'flex', gap: 0.5, mb: 1 }}>
+            {RATINGS.map((rating) => (
+              <Button
+                key={rating.value}
+                size="small"
+                variant="outlined"
+                onClick={() => submitRating(rating.value)}
+                title={rating.label}
+                sx={{ minWidth: 0, flex: 1 }}
+              >
+                {rating.value}
+              </Button>
+            ))}
+          </Box>
+          <Box sx={{ display: 'flex', justifyContent: 'space-between' }}>
+            <Typography variant="caption" color="text.secondary">
+              Very hard
+            </Typography>
+            <Typography variant="caption" color="text.secondary">
+              Very easy
+            </Typography>
+          </Box>
+          <Button size="small" onClick={() => submitRating()} sx={{ mt: 1 }}>
+            Skip
+          </Button>
+        </>
+      )}
+
+      {stage === 'done' && (
+        <>
+          <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, mb: 1 }}>
+            <CheckCircle size={20} color="#2e7d32" weight="fill" />
+            <Typography variant="subtitle2" fontWeight={600}>
+              All done - thank you!
+            </Typography>
+          </Box>
+          <Typography variant="body2" color="text.secondary">
+            Your results have been recorded. Feel free to keep exploring.
+          </Typography>
+        </>
+      )}
+    </Paper>
+  );
+}
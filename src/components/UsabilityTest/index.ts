@@ -0,0 +1,2 @@
+export { UsabilityTaskRunner } from './UsabilityTaskRunner';
+export { UsabilityTaskEditor } from './UsabilityTaskEditor';
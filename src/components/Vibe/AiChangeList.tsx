@@ -0,0 +1,82 @@
+/**
+ * AiChangeList - The AI edit operations a variant was generated with, each
+ * with a control to reject it (or restore it once rejected)
+ */
+
+import React from 'react';
+import Box from '@mui/material/Box';
+import Typography from '@mui/material/Typography';
+import Chip from '@mui/material/Chip';
+import Button from '@mui/material/Button';
+import Tooltip from '@mui/material/Tooltip';
+import { ArrowCounterClockwise, ArrowClockwise } from '@phosphor-icons/react';
+import type { VariantAiChange } from '@/services/variantEditsService';
+
+interface AiChangeListProps {
+  changes: VariantAiChange[];
+  onToggle: (index: number) => void;
+  disabled?: boolean;
+}
+
+export const AiChangeList: React.FC<AiChangeListProps> = ({ changes, onToggle, disabled = false }) => {
+  if (changes.length === 0) {
+    return (
+      <Typography variant="body2" color="text.secondary">
+        No AI changes were recorded for this variant.
+      </Typography>
+    );
+  }
+
+  return (
+    <Box sx={{ border: 1, borderColor: 'divider', borderRadius: 1 }}>
+      {changes.map((change, index) => {
+        const canReject = change.rejected || !!change.inverse;
+
+        return (
+          <Box
+            key={index}
+            sx={{
+              display: 'flex',
+              alignItems: 'center',
+              gap: 1,
+              px: 1.5,
+              py: 0.75,
+              borderBottom: index < changes.length - 1 ? 1 : 0,
+              borderColor: 'divider',
+              opacity: change.rejected ? 0.6 : 1,
+            }}
+          >
+            <Chip label={change.operation.type} size="small" variant="outlined" sx={{ fontSize: 11 }} />
+            <Typography
+              variant="caption"
+              noWrap
+              sx={{ flex: 1, textDecoration: change.rejected ? 'line-through' : 'none' }}
+            >
+              {change.operation.description || change.operation.selector}
+            </Typography>
+            <Tooltip
+              title={
+                canReject
+                  ? change.rejected ? 'Restore this change' : 'Reject this change'
+                  : 'This change was overridden by a later change or edit and cannot be rejected on its own'
+              }
+            >
+              <span>
+                <Button
+                  size="small"
+                  color={change.rejected ? 'primary' : 'error'}
+                  startIcon={change.rejected ? <ArrowClockwise size={14} /> : <ArrowCounterClockwise size={14} />}
+                  disabled={disabled || !canReject}
+                  onClick={() => onToggle(index)}
+                  sx={{ minWidth: 'auto' }}
+                >
+                  {change.rejected ? 'Restore' : 'Reject'}
+                </Button>
+              </span>
+            </Tooltip>
+          </Box>
+        );
+      })}
+    </Box>
+  );
+};
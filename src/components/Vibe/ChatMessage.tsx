@@ -12,6 +12,8 @@ import SmartToyIcon from '@mui/icons-material/SmartToy';
 import InfoIcon from '@mui/icons-material/Info';
 import CheckCircleIcon from '@mui/icons-material/CheckCircle';
 import ErrorIcon from '@mui/icons-material/Error';
+import type { ContextCitation } from '@/services/contextIndexService';
+import { ContextCitations } from './ContextCitations';
 
 export interface ChatMessageData {
   id: string;
@@ -22,6 +24,7 @@ export interface ChatMessageData {
   metadata?: {
     variantIndex?: number;
     stage?: string;
+    citations?: ContextCitation[];
   };
 }
 
@@ -149,6 +152,7 @@ export const ChatMessage: React.FC<ChatMessageProps> = ({ message }) => {
               sx={{ mt: 1 }}
             />
           )}
+          {message.metadata?.citations && <ContextCitations citations={message.metadata.citations} />}
         </Box>
 
         <Typography
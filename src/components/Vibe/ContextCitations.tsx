@@ -0,0 +1,67 @@
+/**
+ * ContextCitations - Product context sources a response drew on
+ */
+
+import React from 'react';
+import Box from '@mui/material/Box';
+import Typography from '@mui/material/Typography';
+import Chip from '@mui/material/Chip';
+import Tooltip from '@mui/material/Tooltip';
+import { Brain } from '@phosphor-icons/react';
+import { CONTEXT_CATEGORY_LABELS, type ContextCitation } from '@/services/contextIndexService';
+
+interface ContextCitationsProps {
+  citations: ContextCitation[];
+  label?: string;
+}
+
+export const ContextCitations: React.FC<ContextCitationsProps> = ({
+  citations,
+  label = 'Shaped by product context',
+}) => {
+  if (citations.length === 0) return null;
+
+  return (
+    <Box sx={{ mt: 1.5 }}>
+      <Typography
+        variant="caption"
+        color="text.secondary"
+        sx={{ display: 'flex', alignItems: 'center', gap: 0.5, mb: 0.5, fontWeight: 600 }}
+      >
+        <Brain size={12} />
+        {label}
+      </Typography>
+      <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 0.5 }}>
+        {citations.map((citation) => (
+          <Tooltip
+            key={`${citation.index}-${citation.fileId}`}
+            title={
+              <Box>
+                <Typography variant="caption" sx={{ fontWeight: 600, display: 'block' }}>
+                  {CONTEXT_CATEGORY_LABELS[citation.category]} · {citation.fileTitle}
+                </Typography>
+                {citation.section && (
+                  <Typography variant="caption" sx={{ display: 'block', opacity: 0.8 }}>
+                    {citation.section}
+                  </Typography>
+                )}
+                <Typography variant="caption" sx={{ display: 'block', mt: 0.5 }}>
+                  {citation.excerpt}
+                </Typography>
+              </Box>
+            }
+          >
+            <Chip
+              size="small"
+              variant="outlined"
+              label={`[${citation.index}] ${citation.section || citation.fileTitle}`}
+              sx={{ maxWidth: 240, fontSize: 11 }}
+            />
+          </Tooltip>
+        ))}
+      </Box>
+    </Box>
+  );
+};
+
+export default ContextCitations;
@@ -0,0 +1,73 @@
+/**
+ * EditConflictList - Conflicts from merging an edit with one saved elsewhere
+ * at the same time. Each conflict keeps the saved version unless the user
+ * picks their own change instead.
+ */
+
+import React from 'react';
+import Box from '@mui/material/Box';
+import Typography from '@mui/material/Typography';
+import ToggleButton from '@mui/material/ToggleButton';
+import ToggleButtonGroup from '@mui/material/ToggleButtonGroup';
+import type { ConflictResolution, MergeConflict } from '@/services/editMergeService';
+import type { EditOperation } from '@/services/editOperationsService';
+
+interface EditConflictListProps {
+  conflicts: MergeConflict[];
+  /** Keyed by theirsIndex; 'theirs' is the user's own change */
+  resolutions: Record<number, ConflictResolution>;
+  onChange: (theirsIndex: number, resolution: ConflictResolution) => void;
+  disabled?: boolean;
+}
+
+function describeOperation(operation: EditOperation | null): string {
+  if (!operation) return 'An element it depends on was not kept';
+  return operation.description || `${operation.type} on ${operation.selector}`;
+}
+
+export const EditConflictList: React.FC<EditConflictListProps> = ({
+  conflicts,
+  resolutions,
+  onChange,
+  disabled = false,
+}) => (
+  <Box sx={{ border: 1, borderColor: 'divider', borderRadius: 1 }}>
+    {conflicts.map((conflict, index) => (
+      <Box
+        key={conflict.theirsIndex}
+        sx={{
+          display: 'flex',
+          flexDirection: 'column',
+          gap: 0.75,
+          px: 1.5,
+          py: 1,
+          borderBottom: index < conflicts.length - 1 ? 1 : 0,
+          borderColor: 'divider',
+        }}
+      >
+        <Typography variant="body2" sx={{ fontWeight: 500 }}>
+          {conflict.message}
+        </Typography>
+        <Typography variant="caption" color="text.secondary">
+          Saved: {describeOperation(conflict.ours)}
+        </Typography>
+        <Typography variant="caption" color="text.secondary">
+          Yours: {describeOperation(conflict.theirs)}
+        </Typography>
+        <ToggleButtonGroup
+          value={resolutions[conflict.theirsIndex] ?? 'ours'}
+          exclusive
+          size="small"
+          disabled={disabled}
+          onChange={(_, value: ConflictResolution | null) => {
+            if (value) onChange(conflict.theirsIndex, value);
+          }}
+          sx={{ alignSelf: 'flex-start', '& .MuiToggleButton-root': { textTransform: 'none', py: 0.25 } }}
+        >
+          <ToggleButton value="ours">Keep saved</ToggleButton>
+          <ToggleButton value="theirs">Keep mine</ToggleButton>
+        </ToggleButtonGroup>
+      </Box>
+    ))}
+  </Box>
+);
@@ -0,0 +1,176 @@
+/**
+ * EditHistoryTree - Branchable edit log of a variant
+ * Shows every edit node (including abandoned branches) and lets the user
+ * jump to a node, compare two nodes or fork a new variant from a node.
+ */
+
+import React, { useState } from 'react';
+import Box from '@mui/material/Box';
+import Typography from '@mui/material/Typography';
+import Chip from '@mui/material/Chip';
+import Button from '@mui/material/Button';
+import Checkbox from '@mui/material/Checkbox';
+import Tooltip from '@mui/material/Tooltip';
+import SmartToyIcon from '@mui/icons-material/SmartToy';
+import EditOutlinedIcon from '@mui/icons-material/EditOutlined';
+import RestoreIcon from '@mui/icons-material/Restore';
+import ForkRightIcon from '@mui/icons-material/ForkRight';
+import CompareArrowsIcon from '@mui/icons-material/CompareArrows';
+import type { EditLogTree, EditLogNode } from '../../services/editLogService';
+
+interface EditHistoryTreeProps {
+  tree: EditLogTree;
+  onCheckout: (nodeId: string) => void;
+  onFork?: (nodeId: string) => void;
+  onCompare?: (nodeIdA: string, nodeIdB: string) => void;
+  disabled?: boolean;
+}
+
+interface FlatNode {
+  node: EditLogNode;
+  depth: number;
+}
+
+/**
+ * Flatten the tree depth-first; each additional child starts a deeper branch
+ */
+function flattenTree(tree: EditLogTree): FlatNode[] {
+  const result: FlatNode[] = [];
+
+  const visit = (node: EditLogNode, depth: number) => {
+    result.push({ node, depth });
+    const children = tree.getChildren(node.id);
+    children.forEach((child, index) => visit(child, index === 0 ? depth : depth + 1));
+  };
+
+  tree.getRoots().forEach((root) => visit(root, 0));
+  return result;
+}
+
+function describeNode(node: EditLogNode): string {
+  if (node.description) return node.description;
+  if (node.checkpoint_html !== null && node.parent_id) return 'Edit (full snapshot)';
+  const count = node.operations.length;
+  return `${count} change${count === 1 ? '' : 's'}`;
+}
+
+export const EditHistoryTree: React.FC<EditHistoryTreeProps> = ({
+  tree,
+  onCheckout,
+  onFork,
+  onCompare,
+  disabled = false,
+}) => {
+  const [compareSelection, setCompareSelection] = useState<string[]>([]);
+  const headId = tree.getHeadId();
+  const flatNodes = flattenTree(tree);
+
+  const toggleCompare = (nodeId: string) => {
+    setCompareSelection((prev) =>
+      prev.includes(nodeId)
+        ? prev.filter((id) => id !== nodeId)
+        : [...prev, nodeId].slice(-2)
+    );
+  };
+
+  if (flatNodes.length === 0) {
+    return (
+      <Typography color="text.secondary" sx={{ py: 4, textAlign: 'center' }}>
+        No edits yet. Changes made in the code editor will appear here.
+      </Typography>
+    );
+  }
+
+  return (
+    <Box sx={{ display: 'flex', flexDirection: 'column', gap: 1 }}>
+      {onCompare && (
+        <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', mb: 1 }}>
+          <Typography variant="caption" color="text.secondary">
+            Select two edits to compare
+          </Typography>
+          <Button
+            size="small"
+            startIcon={<CompareArrowsIcon />}
+            disabled={compareSelection.length !== 2}
+            onClick={() => onCompare(compareSelection[0], compareSelection[1])}
+          >
+            Compare
+          </Button>
+        </Box>
+      )}
+
+      {flatNodes.map(({ node, depth }) => {
+        const isHead = node.id === headId;
+        const isTip = tree.getChildren(node.id).length === 0;
+
+        return (
+          <Box
+            key={node.id}
+            sx={{
+              display: 'flex',
+              alignItems: 'center',
+              gap: 1,
+              ml: depth * 3,
+              p: 1,
+              borderRadius: 1,
+              border: 1,
+              borderColor: isHead ? 'primary.main' : 'divider',
+              bgcolor: isHead ? 'action.selected' : 'transparent',
+            }}
+          >
+            {onCompare && (
+              <Checkbox
+                size="small"
+                checked={compareSelection.includes(node.id)}
+                onChange={() => toggleCompare(node.id)}
+              />
+            )}
+            {node.source === 'ai' ? (
+              <SmartToyIcon sx={{ fontSize: 18, color: 'secondary.main' }} />
+            ) : (
+              <EditOutlinedIcon sx={{ fontSize: 18, color: 'primary.main' }} />
+            )}
+            <Box sx={{ flex: 1, minWidth: 0 }}>
+              <Typography variant="body2" noWrap>
+                {describeNode(node)}
+              </Typography>
+              <Typography variant="caption" color="text.secondary">
+                {new Date(node.created_at).toLocaleString()}
+              </Typography>
+            </Box>
+            {isHead && <Chip label="Current" size="small" color="primary" />}
+            {!isHead && isTip && depth > 0 && <Chip label="Branch" size="small" variant="outlined" />}
+            {!isHead && (
+              <Tooltip title="Jump to this edit">
+                <span>
+                  <Button
+                    size="small"
+                    startIcon={<RestoreIcon />}
+                    disabled={disabled}
+                    onClick={() => onCheckout(node.id)}
+                  >
+                    Open
+                  </Button>
+                </span>
+              </Tooltip>
+            )}
+            {onFork && (
+              <Tooltip title="Fork a new variant from this edit">
+                <span>
+                  <Button
+                    size="small"
+                    startIcon={<ForkRightIcon />}
+                    disabled={disabled}
+                    onClick={() => onFork(node.id)}
+                  >
+                    Fork
+                  </Button>
+                </span>
+              </Tooltip>
+            )}
+          </Box>
+        );
+      })}
+    </Box>
+  );
+};
@@ -0,0 +1,233 @@
+/**
+ * HtmlDiffViewer - Structural diff between two HTML versions
+ * Shows what changed as an annotated element tree next to the rendered
+ * page with colored outlines (added, removed, moved, changed).
+ */
+
+import React, { useCallback, useMemo, useRef, useState } from 'react';
+import Box from '@mui/material/Box';
+import Typography from '@mui/material/Typography';
+import Chip from '@mui/material/Chip';
+import ToggleButton from '@mui/material/ToggleButton';
+import ToggleButtonGroup from '@mui/material/ToggleButtonGroup';
+import FormControlLabel from '@mui/material/FormControlLabel';
+import Switch from '@mui/material/Switch';
+import {
+  annotateHtml,
+  diffComputedStyles,
+  diffHtml,
+  type HtmlChange,
+  type HtmlDiffNode,
+  type HtmlDiffStatus,
+} from '../../services/htmlDiffService';
+
+interface HtmlDiffViewerProps {
+  beforeHtml: string;
+  afterHtml: string;
+  beforeLabel?: string;
+  afterLabel?: string;
+  height?: number | string;
+}
+
+type Side = 'before' | 'after';
+
+const STATUS_COLORS: Record<HtmlDiffStatus, string> = {
+  unchanged: 'text.secondary',
+  added: '#2e7d32',
+  removed: '#d32f2f',
+  moved: '#1976d2',
+  changed: '#ed6c02',
+};
+
+function describeChange(change: HtmlChange): string | null {
+  switch (change.kind) {
+    case 'text':
+      return `text: "${change.before}" → "${change.after}"`;
+    case 'attribute':
+      return `${change.property}: ${change.before ?? '(none)'} → ${change.after ?? '(removed)'}`;
+    case 'style':
+      return `${change.computed ? 'computed ' : ''}${change.property}: ${change.before || '(none)'} → ${change.after || '(none)'}`;
+    default:
+      return null;
+  }
+}
+
+interface DiffTreeNodeProps {
+  node: HtmlDiffNode;
+  depth: number;
+  showUnchanged: boolean;
+  computedChanges: Map<string, HtmlChange[]>;
+  onSelect: (node: HtmlDiffNode) => void;
+}
+
+const DiffTreeNode: React.FC<DiffTreeNodeProps> = ({ node, depth, showUnchanged, computedChanges, onSelect }) => {
+  const computed = (node.afterSelector && computedChanges.get(node.afterSelector)) || [];
+  const hasComputed = computed.length > 0;
+  if (!showUnchanged && !node.hasChanges && !hasComputed) return null;
+
+  const status = node.status === 'unchanged' && hasComputed ? 'changed' : node.status;
+  const details = [...node.changes, ...computed].map(describeChange).filter((d): d is string => d !== null);
+
+  return (
+    <Box>
+      <Box
+        onClick={() => onSelect(node)}
+        sx={{
+          pl: depth * 2,
+          py: 0.25,
+          cursor: 'pointer',
+          borderRadius: 0.5,
+          '&:hover': { bgcolor: 'action.hover' },
+        }}
+      >
+        <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+          <Typography
+            variant="body2"
+            noWrap
+            sx={{
+              fontFamily: 'monospace',
+              fontSize: 12,
+              color: STATUS_COLORS[status],
+              textDecoration: status === 'removed' ? 'line-through' : 'none',
+            }}
+          >
+            {node.label}
+          </Typography>
+          {status !== 'unchanged' && (
+            <Chip label={status} size="small" sx={{ height: 18, fontSize: 10, color: STATUS_COLORS[status] }} variant="outlined" />
+          )}
+        </Box>
+        {details.map((detail, index) => (
+          <Typography key={index} variant="caption" color="text.secondary" sx={{ display: 'block', pl: 2, fontFamily: 'monospace' }}>
+            {detail}
+          </Typography>
+        ))}
+      </Box>
+      {node.children.map((child, index) => (
+        <DiffTreeNode
+          key={`${child.afterSelector ?? child.beforeSelector}-${index}`}
+          node={child}
+          depth={depth + 1}
+          showUnchanged={showUnchanged}
+          computedChanges={computedChanges}
+          onSelect={onSelect}
+        />
+      ))}
+    </Box>
+  );
+};
+
+export const HtmlDiffViewer: React.FC<HtmlDiffViewerProps> = ({
+  beforeHtml,
+  afterHtml,
+  beforeLabel = 'Before',
+  afterLabel = 'After',
+  height = 520,
+}) => {
+  const [side, setSide] = useState<Side>('after');
+  const [showUnchanged, setShowUnchanged] = useState(false);
+  const [computedChanges, setComputedChanges] = useState<HtmlChange[]>([]);
+  const beforeFrameRef = useRef<HTMLIFrameElement>(null);
+  const afterFrameRef = useRef<HTMLIFrameElement>(null);
+  const loadedRef = useRef<Set<Side>>(new Set());
+
+  const diff = useMemo(() => diffHtml(beforeHtml, afterHtml), [beforeHtml, afterHtml]);
+  const annotatedBefore = useMemo(() => annotateHtml(beforeHtml, diff.changes, 'before'), [beforeHtml, diff]);
+  const annotatedAfter = useMemo(() => annotateHtml(afterHtml, diff.changes, 'after'), [afterHtml, diff]);
+
+  const computedBySelector = useMemo(() => {
+    const map = new Map<string, HtmlChange[]>();
+    computedChanges.forEach((change) => {
+      const key = change.afterSelector!;
+      map.set(key, [...(map.get(key) || []), change]);
+    });
+    return map;
+  }, [computedChanges]);
+
+  // Computed styles can only be compared once both sides are rendered
+  const handleFrameLoad = useCallback((loadedSide: Side) => {
+    loadedRef.current.add(loadedSide);
+    const beforeDoc = beforeFrameRef.current?.contentDocument;
+    const afterDoc = afterFrameRef.current?.contentDocument;
+    if (loadedRef.current.size < 2 || !beforeDoc || !afterDoc) return;
+    setComputedChanges(diffComputedStyles(diff, beforeDoc, afterDoc));
+  }, [diff]);
+
+  const handleSelect = useCallback((node: HtmlDiffNode) => {
+    const targetSide: Side = node.afterSelector ? side : 'before';
+    const selector = targetSide === 'after' ? node.afterSelector : node.beforeSelector;
+    const frame = targetSide === 'after' ? afterFrameRef.current : beforeFrameRef.current;
+    if (targetSide !== side) setSide(targetSide);
+    if (selector) {
+      frame?.contentDocument?.querySelector(selector)?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    }
+  }, [side]);
+
+  const { stats } = diff;
+  const styleCount = stats.style + computedChanges.length;
+
+  return (
+    <Box sx={{ display: 'flex', flexDirection: 'column', gap: 1.5 }}>
+      <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, flexWrap: 'wrap' }}>
+        <Chip size="small" label={`${stats.added} added`} sx={{ color: STATUS_COLORS.added }} variant="outlined" />
+        <Chip size="small" label={`${stats.removed} removed`} sx={{ color: STATUS_COLORS.removed }} variant="outlined" />
+        <Chip size="small" label={`${stats.moved} moved`} sx={{ color: STATUS_COLORS.moved }} variant="outlined" />
+        <Chip size="small" label={`${stats.text} text`} sx={{ color: STATUS_COLORS.changed }} variant="outlined" />
+        <Chip size="small" label={`${stats.attribute} attribute`} sx={{ color: STATUS_COLORS.changed }} variant="outlined" />
+        <Chip size="small" label={`${styleCount} style`} sx={{ color: STATUS_COLORS.changed }} variant="outlined" />
+        <Box sx={{ flex: 1 }} />
+        <FormControlLabel
+          control={<Switch size="small" checked={showUnchanged} onChange={(e) => setShowUnchanged(e.target.checked)} />}
+          label={<Typography variant="caption">Show unchanged</Typography>}
+        />
+        <ToggleButtonGroup size="small" exclusive value={side} onChange={(_, value) => value && setSide(value)}>
+          <ToggleButton value="before">{beforeLabel}</ToggleButton>
+          <ToggleButton value="after">{afterLabel}</ToggleButton>
+        </ToggleButtonGroup>
+      </Box>
+
+      <Box sx={{ display: 'grid', gridTemplateColumns: 'minmax(280px, 2fr) 3fr', gap: 2, height }}>
+        <Box sx={{ overflow: 'auto', border: 1, borderColor: 'divider', borderRadius: 1, p: 1 }}>
+          {!diff.tree.hasChanges && computedChanges.length === 0 && !showUnchanged ? (
+            <Typography color="text.secondary" sx={{ py: 4, textAlign: 'center' }}>
+              No structural changes
+            </Typography>
+          ) : (
+            <DiffTreeNode
+              node={diff.tree}
+              depth={0}
+              showUnchanged={showUnchanged}
+              computedChanges={computedBySelector}
+              onSelect={handleSelect}
+            />
+          )}
+        </Box>
+
+        {/* Both sides stay rendered so computed styles can be compared */}
+        <Box sx={{ position: 'relative', border: 1, borderColor: 'divider', borderRadius: 1, overflow: 'hidden' }}>
+          {([
+            ['before', annotatedBefore, beforeFrameRef],
+            ['after', annotatedAfter, afterFrameRef],
+          ] as const).map(([frameSide, html, ref]) => (
+            <iframe
+              key={frameSide}
+              ref={ref}
+              srcDoc={html}
+              title={frameSide === 'before' ? beforeLabel : afterLabel}
+              sandbox="allow-same-origin"
+              onLoad={() => handleFrameLoad(frameSide)}
+              style={{
+                position: 'absolute',
+                inset: 0,
+                width: '100%',
+                height: '100%',
+                border: 'none',
+                visibility: side === frameSide ? 'visible' : 'hidden',
+              }}
+            />
+          ))}
+        </Box>
+      </Box>
+    </Box>
+  );
+};
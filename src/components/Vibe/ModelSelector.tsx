@@ -91,9 +91,11 @@ export const ModelSelector: React.FC<ModelSelectorProps> = ({
     }
   };
 
-  // Get models for current provider
+  // Get models for current provider, including a custom or discovered one
+  // from the key config (local servers have no fixed model list)
+  const configuredModel = apiKeys.find(k => k.provider === selectedProvider)?.model;
   const currentModels = selectedProvider
-    ? PROVIDER_INFO[selectedProvider].models
+    ? [...new Set([...PROVIDER_INFO[selectedProvider].models, ...(configuredModel ? [configuredModel] : [])])]
     : [];
 
   if (loading) {
@@ -0,0 +1,190 @@
+/**
+ * ShareLinksPanel - Existing share links for a session, with revocation and
+ * each link's access audit trail
+ */
+
+import React, { useCallback, useEffect, useState } from 'react';
+import Box from '@mui/material/Box';
+import Typography from '@mui/material/Typography';
+import Chip from '@mui/material/Chip';
+import Button from '@mui/material/Button';
+import TextField from '@mui/material/TextField';
+import Collapse from '@mui/material/Collapse';
+import CircularProgress from '@mui/material/CircularProgress';
+import { CaretDown, CaretRight, LockSimple, Prohibit, UsersThree } from '@phosphor-icons/react';
+import {
+  deactivateShare,
+  getShareAuditLog,
+  getSharesForSession,
+  type ShareAuditAction,
+  type ShareAuditEntry,
+  type ShareWithViews,
+} from '@/services/sharingService';
+
+const AUDIT_LABELS: Record<ShareAuditAction, string> = {
+  created: 'Protection set',
+  unlocked: 'Opened',
+  unlock_failed: 'Failed attempt',
+  view_limit_reached: 'Turned away (view limit)',
+  revoked: 'Revoked',
+};
+
+interface ShareLinksPanelProps {
+  sessionId: string;
+  /** Bump to reload, e.g. after creating a link */
+  refreshKey?: number;
+}
+
+function shareStatus(share: ShareWithViews): { label: string; color: 'success' | 'default' | 'error' } {
+  if (share.revokedAt || !share.isActive) return { label: 'Revoked', color: 'error' };
+  if (share.expiresAt && new Date(share.expiresAt) < new Date()) return { label: 'Expired', color: 'default' };
+  return { label: 'Active', color: 'success' };
+}
+
+function describeAudit(entry: ShareAuditEntry): string {
+  const reason = typeof entry.detail?.reason === 'string' ? entry.detail.reason : null;
+  return [AUDIT_LABELS[entry.action], entry.actorEmail, reason].filter(Boolean).join(' · ');
+}
+
+export const ShareLinksPanel: React.FC<ShareLinksPanelProps> = ({ sessionId, refreshKey = 0 }) => {
+  const [shares, setShares] = useState<ShareWithViews[]>([]);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [auditLog, setAuditLog] = useState<ShareAuditEntry[]>([]);
+  const [revokingId, setRevokingId] = useState<string | null>(null);
+  const [revokeReason, setRevokeReason] = useState('');
+  const [isRevoking, setIsRevoking] = useState(false);
+
+  const loadShares = useCallback(async () => {
+    setShares(await getSharesForSession(sessionId));
+  }, [sessionId]);
+
+  useEffect(() => {
+    let cancelled = false;
+    getSharesForSession(sessionId).then((result) => {
+      if (!cancelled) setShares(result);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [sessionId, refreshKey]);
+
+  const toggleAudit = async (shareId: string) => {
+    if (expandedId === shareId) {
+      setExpandedId(null);
+      return;
+    }
+    setExpandedId(shareId);
+    setAuditLog([]);
+    setAuditLog(await getShareAuditLog(shareId));
+  };
+
+  const handleRevoke = async (shareId: string) => {
+    setIsRevoking(true);
+    const revoked = await deactivateShare(shareId, revokeReason.trim() || undefined);
+    setIsRevoking(false);
+    if (!revoked) return;
+
+    setRevokingId(null);
+    setRevokeReason('');
+    await loadShares();
+    if (expandedId === shareId) setAuditLog(await getShareAuditLog(shareId));
+  };
+
+  if (shares.length === 0) return null;
+
+  return (
+    <Box sx={{ mt: 3 }}>
+      <Typography variant="subtitle2" sx={{ mb: 1 }}>
+        Existing links
+      </Typography>
+      <Box sx={{ display: 'flex', flexDirection: 'column', gap: 1 }}>
+        {shares.map((share) => {
+          const status = shareStatus(share);
+          const expanded = expandedId === share.shareId;
+          return (
+            <Box
+              key={share.shareId}
+              sx={{ border: 1, borderColor: 'divider', borderRadius: 1.5, px: 1.5, py: 1 }}
+            >
+              <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+                <Button
+                  size="small"
+                  onClick={() => toggleAudit(share.shareId)}
+                  startIcon={expanded ? <CaretDown size={14} /> : <CaretRight size={14} />}
+                  sx={{ textTransform: 'none', minWidth: 0, flex: 1, justifyContent: 'flex-start' }}
+                >
+                  <Typography variant="body2" noWrap sx={{ fontFamily: 'monospace' }}>
+                    /share/{share.shareToken}
+                  </Typography>
+                </Button>
+                {share.requiresPassword && <LockSimple size={14} />}
+                {share.allowedDomains?.length ? (
+                  <Chip size="small" variant="outlined" label={share.allowedDomains.join(', ')} />
+                ) : null}
+                <Chip
+                  size="small"
+                  variant="outlined"
+                  icon={<UsersThree size={12} />}
+                  label={share.maxViews ? `${share.viewCount}/${share.maxViews}` : share.viewCount}
+                />
+                <Chip size="small" color={status.color} label={status.label} />
+                {status.label === 'Active' && revokingId !== share.shareId && (
+                  <Button
+                    size="small"
+                    color="error"
+                    startIcon={<Prohibit size={14} />}
+                    onClick={() => setRevokingId(share.shareId)}
+                  >
+                    Revoke
+                  </Button>
+                )}
+              </Box>
+
+              {revokingId === share.shareId && (
+                <Box sx={{ display: 'flex', gap: 1, mt: 1 }}>
+                  <TextField
+                    size="small"
+                    fullWidth
+                    placeholder="Reason (optional)"
+                    value={revokeReason}
+                    onChange={(e) => setRevokeReason(e.target.value)}
+                  />
+                  <Button size="small" onClick={() => setRevokingId(null)}>
+                    Cancel
+                  </Button>
+                  <Button
+                    size="small"
+                    color="error"
+                    variant="contained"
+                    disabled={isRevoking}
+                    onClick={() => handleRevoke(share.shareId)}
+                  >
+                    {isRevoking ? <CircularProgress size={14} /> : 'Revoke'}
+                  </Button>
+                </Box>
+              )}
+
+              <Collapse in={expanded} unmountOnExit>
+                <Box sx={{ mt: 1, pl: 1 }}>
+                  {auditLog.length === 0 ? (
+                    <Typography variant="caption" color="text.secondary">
+                      No access activity yet
+                    </Typography>
+                  ) : (
+                    auditLog.map((entry) => (
+                      <Typography key={entry.id} variant="caption" component="div" color="text.secondary">
+                        {new Date(entry.createdAt).toLocaleString()} — {describeAudit(entry)}
+                      </Typography>
+                    ))
+                  )}
+                </Box>
+              </Collapse>
+            </Box>
+          );
+        })}
+      </Box>
+    </Box>
+  );
+};
+
+export default ShareLinksPanel;
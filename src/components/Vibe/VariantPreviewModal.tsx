@@ -30,6 +30,7 @@ import { useSnackbar } from '@/components/SnackbarProvider';
 import { getVibeVariantColor, getVibeVariantLabel } from '../../store/vibeStore';
 import type { VibeVariant } from '../../services/variantCodeService';
 import type { VariantPlan } from '../../services/variantPlanService';
+import { stripElementIds } from '../../services/elementIdentityService';
 
 interface VariantPreviewModalProps {
   open: boolean;
@@ -85,13 +86,13 @@ export const VariantPreviewModal: React.FC<VariantPreviewModalProps> = ({
 
   const handleCopyHtml = async () => {
     if (!htmlContent) return;
-    await navigator.clipboard.writeText(htmlContent);
+    await navigator.clipboard.writeText(stripElementIds(htmlContent));
     showSuccess('HTML copied to clipboard');
   };
 
   const handleDownloadHtml = () => {
     if (!htmlContent || !variant) return;
-    const blob = new Blob([htmlContent], { type: 'text/html' });
+    const blob = new Blob([stripElementIds(htmlContent)], { type: 'text/html' });
     const url = URL.createObjectURL(blob);
     const a = document.createElement('a');
     a.href = url;
@@ -9,9 +9,15 @@ export { PlanReviewGrid } from './PlanReviewGrid';
 export { GenerationProgress } from './GenerationProgress';
 export { VariantComparisonView } from './VariantComparisonView';
 export { VariantPreviewModal } from './VariantPreviewModal';
+export { EditHistoryTree } from './EditHistoryTree';
+export { AiChangeList } from './AiChangeList';
+export { EditConflictList } from './EditConflictList';
+export { HtmlDiffViewer } from './HtmlDiffViewer';
 
 // New vibe coding components
 export { ChatMessage, type ChatMessageData } from './ChatMessage';
 export { ChatPanel } from './ChatPanel';
+export { ContextCitations } from './ContextCitations';
+export { ShareLinksPanel } from './ShareLinksPanel';
 export { ScreenPreview, type SelectedTab } from './ScreenPreview';
 export { ModelSelector } from './ModelSelector';
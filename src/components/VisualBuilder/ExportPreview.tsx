@@ -1,7 +1,7 @@
 /**
  * Export & Preview Component
  * Provides preview mode and export functionality for visual builder prototypes
- * Supports HTML/CSS export and React component generation
+ * Supports HTML/CSS export and React + Tailwind, Vue and Svelte projects
  */
 
 import React, { useState, useCallback, useMemo } from 'react';
@@ -18,12 +18,15 @@ import Tab from '@mui/material/Tab';
 import Tooltip from '@mui/material/Tooltip';
 import Snackbar from '@mui/material/Snackbar';
 import Alert from '@mui/material/Alert';
+import Chip from '@mui/material/Chip';
 import {
   Play,
   X,
   Code,
   FileHtml,
   FileJs,
+  FileVue,
+  FileCode,
   Copy,
   Download,
   Desktop,
@@ -34,7 +37,25 @@ import {
 } from '@phosphor-icons/react';
 
 import type { CanvasElement } from './VisualCanvas';
-import type { Interaction } from './InteractionEditor';
+import type {
+  Interaction,
+  InteractionAction,
+  InteractionCondition,
+  InteractionConfig,
+  PrototypeVariable,
+  TriggerConfig,
+  VariableType,
+  VariableValue,
+} from './InteractionEditor';
+import { exportProject, EXPORT_FRAMEWORKS, type ExportFramework } from '@/services/visualBuilder/codeExport';
+import { downloadZipArchive } from '@/services/visualBuilder/zipArchive';
+import { stringifyProjectDocument } from '@/services/visualBuilder/projectDocument';
+import {
+  getContainerStyles,
+  getLayoutChildren,
+  getLayoutStyles,
+  type LayoutRect,
+} from '@/services/visualBuilder/autoLayout';
 
 // ============================================================================
 // Types
@@ -43,6 +64,7 @@ import type { Interaction } from './InteractionEditor';
 export interface ExportPreviewProps {
   elements: CanvasElement[];
   interactions: Map<string, Interaction[]>;
+  variables?: PrototypeVariable[];
   canvasWidth: number;
   canvasHeight: number;
   projectName?: string;
@@ -67,20 +89,45 @@ const VIEWPORT_SIZES: Record<ViewportSize, { width: number; height: number; labe
   full: { width: 0, height: 0, label: 'Full' },
 };
 
+const NO_VARIABLES: PrototypeVariable[] = [];
+
+const FRAMEWORK_TABS: ExportFramework[] = ['react', 'vue', 'svelte'];
+const JSON_TAB = FRAMEWORK_TABS.length + 1;
+
+const CODE_BLOCK_SX = {
+  bgcolor: '#1e293b',
+  color: '#e2e8f0',
+  p: 2,
+  borderRadius: 1,
+  overflow: 'auto',
+  fontSize: '0.75rem',
+  fontFamily: 'monospace',
+  maxHeight: 'calc(80vh - 200px)',
+};
+
 // ============================================================================
 // Utility Functions
 // ============================================================================
 
-function generateElementHTML(element: CanvasElement): string {
-  const styles = `
-    position: absolute;
-    left: ${element.x}px;
-    top: ${element.y}px;
-    width: ${element.width}px;
-    height: ${element.height}px;
-    transform: rotate(${element.rotation}deg);
-    ${element.styles ? Object.entries(element.styles).map(([k, v]) => `${k.replace(/([A-Z])/g, '-$1').toLowerCase()}: ${v};`).join('\n    ') : ''}
-  `.trim();
+/**
+ * Render an element and, for frames, its children. Positions come from the
+ * element's constraints so the page reflows with the viewport width.
+ */
+function generateElementHTML(
+  element: CanvasElement,
+  parent: CanvasElement | null,
+  parentRect: LayoutRect,
+  elements: CanvasElement[]
+): string {
+  const styles = Object.entries({
+    ...getLayoutStyles(element, parent, parentRect),
+    ...getContainerStyles(element),
+    ...Object.fromEntries(
+      Object.entries(element.styles || {}).map(([k, v]) => [k.replace(/([A-Z])/g, '-$1').toLowerCase(), v])
+    ),
+  })
+    .map(([k, v]) => `${k}: ${v}`)
+    .join('; ');
 
   switch (element.type) {
     case 'text':
@@ -99,6 +146,16 @@ function generateElementHTML(element: CanvasElement): string {
     case 'image':
       return `<img src="${element.content.src || ''}" alt="${element.content.alt || ''}" style="${styles}; object-fit: cover;" data-element-id="${element.id}" />`;
 
+    case 'frame': {
+      const childrenHTML = getLayoutChildren(elements, element.id)
+        .map((child) => generateElementHTML(child, element, element, elements))
+        .join('\n');
+      const background = element.content.fill ? `; background-color: ${element.content.fill}` : '';
+      return `<div style="${styles}${background}" data-element-id="${element.id}" data-frame>
+${childrenHTML.split('\n').map((line) => '  ' + line).join('\n')}
+</div>`;
+    }
+
     case 'component':
       return `<div style="${styles}" data-element-id="${element.id}" data-component-type="${element.content.component?.type || 'custom'}">
   ${element.content.html || '<!-- Component content -->'}
@@ -111,7 +168,318 @@ function generateElementHTML(element: CanvasElement): string {
   }
 }
 
-function generateInteractionScript(interactions: Map<string, Interaction[]>): string {
+function toVariableValue(type: VariableType, raw: VariableValue | undefined): VariableValue {
+  if (type === 'number') return Number(raw) || 0;
+  if (type === 'boolean') return raw === true || raw === 'true';
+  return raw === undefined ? '' : String(raw);
+}
+
+// Variables, {{name}} text placeholders, form checks and timed sequences
+function generateStateRuntime(variables: PrototypeVariable[]): string {
+  const initial = Object.fromEntries(variables.map((v) => [v.name, toVariableValue(v.type, v.initialValue)]));
+
+  return `
+window.VoxelState = {
+  vars: ${JSON.stringify(initial).replace(/</g, '\\u003c')},
+  templates: [],
+  get: function(name) { return this.vars[name]; },
+  set: function(name, value) {
+    this.vars[name] = value;
+    this.render();
+  },
+  scan: function() {
+    var walker = document.createTreeWalker(document.body, NodeFilter.SHOW_TEXT);
+    while (walker.nextNode()) {
+      var node = walker.currentNode;
+      if (/\\{\\{\\s*\\w+\\s*\\}\\}/.test(node.textContent)) {
+        this.templates.push({ node: node, text: node.textContent });
+      }
+    }
+    this.render();
+  },
+  render: function() {
+    var vars = this.vars;
+    this.templates.forEach(function(t) {
+      t.node.textContent = t.text.replace(/\\{\\{\\s*(\\w+)\\s*\\}\\}/g, function(match, name) {
+        return name in vars ? String(vars[name]) : match;
+      });
+    });
+  },
+  formValid: function(elementId) {
+    var el = document.querySelector('[data-element-id="' + elementId + '"]');
+    if (!el) return false;
+    return Array.prototype.every.call(el.querySelectorAll('input, select, textarea'), function(field) {
+      return field.checkValidity();
+    });
+  },
+  sequence: function(steps) {
+    var i = 0;
+    (function next() {
+      if (i >= steps.length) return;
+      var step = steps[i++];
+      if (step.delay > 0) {
+        setTimeout(function() { step.run(); next(); }, step.delay);
+      } else {
+        step.run();
+        next();
+      }
+    })();
+  }
+};
+`;
+}
+
+// Pointer-based so the same gestures work with a mouse and on touch screens
+const GESTURE_RUNTIME = `
+window.VoxelGestures = {
+  swipe: function(el, direction, handler) {
+    var start = null;
+    el.style.touchAction = 'none';
+    el.style.userSelect = 'none';
+    el.addEventListener('pointerdown', function(e) { start = { x: e.clientX, y: e.clientY }; });
+    el.addEventListener('pointercancel', function() { start = null; });
+    el.addEventListener('pointerup', function(e) {
+      if (!start) return;
+      var dx = e.clientX - start.x;
+      var dy = e.clientY - start.y;
+      start = null;
+      if (Math.max(Math.abs(dx), Math.abs(dy)) < 40) return;
+      var swiped = Math.abs(dx) > Math.abs(dy) ? (dx > 0 ? 'right' : 'left') : (dy > 0 ? 'down' : 'up');
+      if (swiped === direction) handler(e);
+    });
+  },
+  drag: function(el, target, handler) {
+    var start = null;
+    var base = '';
+    el.style.touchAction = 'none';
+    el.style.userSelect = 'none';
+    el.style.cursor = 'grab';
+    el.addEventListener('pointerdown', function(e) {
+      start = { x: e.clientX, y: e.clientY, zIndex: el.style.zIndex };
+      base = el.style.transform;
+      el.setPointerCapture(e.pointerId);
+      el.style.zIndex = '9999';
+      el.style.cursor = 'grabbing';
+    });
+    el.addEventListener('pointermove', function(e) {
+      if (!start) return;
+      el.style.transform = 'translate(' + (e.clientX - start.x) + 'px, ' + (e.clientY - start.y) + 'px) ' + base;
+    });
+    el.addEventListener('pointerup', function(e) {
+      if (!start) return;
+      el.style.pointerEvents = 'none';
+      var under = document.elementFromPoint(e.clientX, e.clientY);
+      el.style.pointerEvents = '';
+      // The element snaps back; the drop's actions decide what happens next
+      el.style.transform = base;
+      el.style.zIndex = start.zIndex;
+      el.style.cursor = 'grab';
+      start = null;
+      if (under && target.contains(under)) handler(e);
+    });
+  }
+};
+`;
+
+function generateConditionCode(condition: InteractionCondition, variables: PrototypeVariable[]): string | null {
+  if (condition.kind === 'form') {
+    if (!condition.targetElementId) return null;
+    const check = `VoxelState.formValid(${JSON.stringify(condition.targetElementId)})`;
+    return condition.operator === 'formInvalid' ? `!${check}` : check;
+  }
+
+  const variable = variables.find((v) => v.id === condition.variableId);
+  if (!variable) return null;
+  const current = `VoxelState.get(${JSON.stringify(variable.name)})`;
+  const value = JSON.stringify(toVariableValue(variable.type, condition.value));
+
+  switch (condition.operator) {
+    case 'notEquals':
+      return `${current} !== ${value}`;
+    case 'greaterThan':
+      return `${current} > ${value}`;
+    case 'lessThan':
+      return `${current} < ${value}`;
+    case 'isTrue':
+      return `${current} === true`;
+    case 'isFalse':
+      return `${current} !== true`;
+    default:
+      return `${current} === ${value}`;
+  }
+}
+
+function generateActionCode(
+  action: InteractionAction,
+  config: InteractionConfig,
+  selector: string,
+  variables: PrototypeVariable[]
+): string {
+  switch (action) {
+    case 'navigate':
+      return config.openInNewTab
+        ? `window.open('${config.url}', '_blank');`
+        : `window.location.href = '${config.url}';`;
+
+    case 'showElement':
+      return `document.querySelector('[data-element-id="${config.targetElementId}"]').style.display = 'block';`;
+
+    case 'hideElement':
+      return `document.querySelector('[data-element-id="${config.targetElementId}"]').style.display = 'none';`;
+
+    case 'toggleElement':
+      return `
+        const el = document.querySelector('[data-element-id="${config.targetElementId}"]');
+        el.style.display = el.style.display === 'none' ? 'block' : 'none';
+      `;
+
+    case 'showToast':
+      return `
+        const toast = document.createElement('div');
+        toast.className = 'toast toast-${config.toastType || 'info'}';
+        toast.textContent = '${config.toastMessage || 'Notification'}';
+        document.body.appendChild(toast);
+        setTimeout(() => toast.remove(), 3000);
+      `;
+
+    case 'playAnimation':
+      return `
+        const el = document.querySelector('${selector}');
+        el.style.animation = '${config.animationType} ${config.animationDuration || 300}ms ease';
+        setTimeout(() => el.style.animation = '', ${config.animationDuration || 300});
+      `;
+
+    case 'setVariable': {
+      const variable = variables.find((v) => v.id === config.variableId);
+      if (!variable) return '';
+      const name = JSON.stringify(variable.name);
+      if (config.variableOperation === 'increment') {
+        const amount = config.variableValue ? Number(config.variableValue) || 0 : 1;
+        return `VoxelState.set(${name}, Number(VoxelState.get(${name})) + ${amount});`;
+      }
+      if (config.variableOperation === 'toggle') {
+        return `VoxelState.set(${name}, !VoxelState.get(${name}));`;
+      }
+      return `VoxelState.set(${name}, ${JSON.stringify(toVariableValue(variable.type, config.variableValue))});`;
+    }
+
+    case 'customCode':
+      return config.customCode || '';
+
+    default:
+      return '';
+  }
+}
+
+// What undoes an action when a while-hovering trigger ends
+function generateReverseActionCode(action: InteractionAction, config: InteractionConfig): string {
+  const target = `document.querySelector('[data-element-id="${config.targetElementId}"]')`;
+
+  switch (action) {
+    case 'showElement':
+      return `${target}.style.display = 'none';`;
+    case 'hideElement':
+      return `${target}.style.display = 'block';`;
+    case 'toggleElement':
+      return `
+        const el = ${target};
+        el.style.display = el.style.display === 'none' ? 'block' : 'none';
+      `;
+    default:
+      return '';
+  }
+}
+
+function generateKeyCheck(config: TriggerConfig): string {
+  const modifiers = config.modifiers || [];
+  const key = JSON.stringify((config.key || '').toLowerCase());
+  const checks = [
+    `e.key.toLowerCase() !== ${key}`,
+    ...(['ctrl', 'alt', 'shift', 'meta'] as const).map(
+      (modifier) => `e.${modifier}Key !== ${modifiers.includes(modifier)}`
+    ),
+  ];
+  // Plain keys are left alone while the user is typing
+  const typing = modifiers.some((m) => m !== 'shift')
+    ? ''
+    : ` || (e.target.closest && e.target.closest('input, textarea, select, [contenteditable]'))`;
+
+  return `if (${checks.join(' || ')}${typing}) return;`;
+}
+
+function generateTriggerCode(interaction: Interaction, selector: string, body: string, reverseBody: string): string {
+  const config = interaction.triggerConfig || {};
+  const element = `document.querySelector('${selector}')`;
+
+  switch (interaction.trigger) {
+    case 'load':
+      return `
+  (function(e) {
+    ${body}
+  })();`;
+
+    case 'afterDelay':
+      return `
+  setTimeout(function(e) {
+    ${body}
+  }, ${Math.max(0, Number(config.delay ?? 1000))});`;
+
+    case 'keyPress':
+      if (!config.key) return '';
+      return `
+  document.addEventListener('keydown', function(e) {
+    ${generateKeyCheck(config)}
+    e.preventDefault();
+    ${body}
+  });`;
+
+    case 'swipe':
+      return `
+  if (${element}) VoxelGestures.swipe(${element}, ${JSON.stringify(config.swipeDirection || 'left')}, function(e) {
+    ${body}
+  });`;
+
+    case 'drop': {
+      if (!config.dropTargetId) return '';
+      const target = `document.querySelector('[data-element-id="${config.dropTargetId}"]')`;
+      return `
+  if (${element} && ${target}) VoxelGestures.drag(${element}, ${target}, function(e) {
+    ${body}
+  });`;
+    }
+
+    case 'whileHover':
+      return `
+  (function() {
+    var el = ${element};
+    if (!el) return;
+    var active = false;
+    var saved = {};
+    el.addEventListener('mouseenter', function(e) {
+      ${body}
+    });
+    el.addEventListener('mouseleave', function(e) {
+      if (!active) return;
+      active = false;
+      ${reverseBody}
+      Object.keys(saved).forEach(function(name) { VoxelState.set(name, saved[name]); });
+    });
+  })();`;
+
+    default: {
+      const eventType = interaction.trigger === 'hover' ? 'mouseenter' : interaction.trigger;
+      return `
+  ${element}?.addEventListener('${eventType}', function(e) {
+    ${body}
+  });`;
+    }
+  }
+}
+
+function generateInteractionScript(
+  interactions: Map<string, Interaction[]>,
+  variables: PrototypeVariable[] = []
+): string {
   const handlers: string[] = [];
 
   interactions.forEach((elementInteractions, elementId) => {
@@ -119,83 +487,82 @@ function generateInteractionScript(interactions: Map<string, Interaction[]>): st
       if (!interaction.enabled) return;
 
       const selector = `[data-element-id="${elementId}"]`;
-      let handler = '';
-
-      switch (interaction.action) {
-        case 'navigate':
-          handler = interaction.config.openInNewTab
-            ? `window.open('${interaction.config.url}', '_blank');`
-            : `window.location.href = '${interaction.config.url}';`;
-          break;
-
-        case 'showElement':
-          handler = `document.querySelector('[data-element-id="${interaction.config.targetElementId}"]').style.display = 'block';`;
-          break;
-
-        case 'hideElement':
-          handler = `document.querySelector('[data-element-id="${interaction.config.targetElementId}"]').style.display = 'none';`;
-          break;
-
-        case 'toggleElement':
-          handler = `
-            const el = document.querySelector('[data-element-id="${interaction.config.targetElementId}"]');
-            el.style.display = el.style.display === 'none' ? 'block' : 'none';
-          `;
-          break;
-
-        case 'showToast':
-          handler = `
-            const toast = document.createElement('div');
-            toast.className = 'toast toast-${interaction.config.toastType || 'info'}';
-            toast.textContent = '${interaction.config.toastMessage || 'Notification'}';
-            document.body.appendChild(toast);
-            setTimeout(() => toast.remove(), 3000);
-          `;
-          break;
-
-        case 'playAnimation':
-          handler = `
-            const el = document.querySelector('${selector}');
-            el.style.animation = '${interaction.config.animationType} ${interaction.config.animationDuration || 300}ms ease';
-            setTimeout(() => el.style.animation = '', ${interaction.config.animationDuration || 300});
-          `;
-          break;
-
-        case 'customCode':
-          handler = interaction.config.customCode || '';
-          break;
+      const allSteps = [{ action: interaction.action, config: interaction.config }, ...(interaction.steps || [])];
+      const steps = allSteps
+        .map((step) => ({
+          code: generateActionCode(step.action, step.config, selector, variables),
+          delay: step.config.delay || 0,
+        }))
+        .filter((step) => step.code);
+
+      if (steps.length === 0) return;
+
+      let handler = steps.length === 1 && !steps[0].delay
+        ? steps[0].code
+        : `VoxelState.sequence([${steps
+            .map((step) => `
+      { delay: ${step.delay}, run: function() { ${step.code} } }`)
+            .join(',')}
+    ]);`;
+
+      let reverseHandler = '';
+      if (interaction.trigger === 'whileHover') {
+        // Remember what the variables were so leaving can restore them
+        const changed = variables.filter((v) =>
+          allSteps.some((step) => step.action === 'setVariable' && step.config.variableId === v.id)
+        );
+        const saved = changed.map((v) => `${JSON.stringify(v.name)}: VoxelState.get(${JSON.stringify(v.name)})`);
+        handler = `active = true;
+      saved = {${saved.join(', ')}};
+      ${handler}`;
+        reverseHandler = allSteps
+          .map((step) => generateReverseActionCode(step.action, step.config))
+          .filter(Boolean)
+          .reverse()
+          .join('\n      ');
       }
 
-      if (handler) {
-        const eventType = interaction.trigger === 'hover' ? 'mouseenter' : interaction.trigger;
-        handlers.push(`
-  document.querySelector('${selector}')?.addEventListener('${eventType}', function(e) {
-    ${handler}
-  });`);
+      const conditions = (interaction.conditions || [])
+        .map((condition) => generateConditionCode(condition, variables))
+        .filter((code): code is string => code !== null);
+
+      if (conditions.length > 0) {
+        const joiner = interaction.conditionMode === 'any' ? ' || ' : ' && ';
+        handler = `if (!(${conditions.join(joiner)})) return;
+    ${handler}`;
       }
+
+      const code = generateTriggerCode(interaction, selector, handler, reverseHandler);
+      if (code) handlers.push(code);
     });
   });
 
-  return handlers.length > 0
-    ? `<script>
-document.addEventListener('DOMContentLoaded', function() {
+  const usesState = variables.length > 0 || handlers.some((handler) => handler.includes('VoxelState.'));
+  const usesGestures = handlers.some((handler) => handler.includes('VoxelGestures.'));
+  if (handlers.length === 0 && !usesState) {
+    return '';
+  }
+
+  return `<script>${usesState ? generateStateRuntime(variables) : ''}${usesGestures ? GESTURE_RUNTIME : ''}
+document.addEventListener('DOMContentLoaded', function() {${usesState ? '\n  VoxelState.scan();' : ''}
 ${handlers.join('\n')}
 });
-</script>`
-    : '';
+</script>`;
 }
 
 function generateFullHTML(
   elements: CanvasElement[],
   interactions: Map<string, Interaction[]>,
+  variables: PrototypeVariable[],
   canvasWidth: number,
   canvasHeight: number,
   projectName: string
 ): string {
-  const visibleElements = elements.filter((e) => e.visible).sort((a, b) => a.zIndex - b.zIndex);
-
-  const elementsHTML = visibleElements.map(generateElementHTML).join('\n\n');
-  const interactionsScript = generateInteractionScript(interactions);
+  const canvasRect = { x: 0, y: 0, width: canvasWidth, height: canvasHeight };
+  const elementsHTML = getLayoutChildren(elements, null)
+    .map((element) => generateElementHTML(element, null, canvasRect, elements))
+    .join('\n\n');
+  const interactionsScript = generateInteractionScript(interactions, variables);
 
   return `<!DOCTYPE html>
 <html lang="en">
@@ -217,7 +584,8 @@ function generateFullHTML(
 
     .canvas {
       position: relative;
-      width: ${canvasWidth}px;
+      width: 100%;
+      max-width: ${canvasWidth}px;
       height: ${canvasHeight}px;
       margin: 0 auto;
       background-color: white;
@@ -258,93 +626,13 @@ ${elementsHTML.split('\n').map(line => '    ' + line).join('\n')}
 </html>`;
 }
 
-function generateReactComponent(
+// The same document the Visual Builder saves and imports
+function generateJSON(
   elements: CanvasElement[],
-  _interactions: Map<string, Interaction[]>,
-  projectName: string
+  interactions: Map<string, Interaction[]>,
+  variables: PrototypeVariable[]
 ): string {
-  const componentName = projectName.replace(/[^a-zA-Z0-9]/g, '').replace(/^\d/, '_$&') || 'GeneratedComponent';
-  const visibleElements = elements.filter((e) => e.visible).sort((a, b) => a.zIndex - b.zIndex);
-
-  const generateElementJSX = (element: CanvasElement): string => {
-    const styleObj = {
-      position: 'absolute' as const,
-      left: element.x,
-      top: element.y,
-      width: element.width,
-      height: element.height,
-      transform: element.rotation ? `rotate(${element.rotation}deg)` : undefined,
-      ...element.styles,
-    };
-
-    const styleString = JSON.stringify(styleObj, null, 2).replace(/"([^"]+)":/g, '$1:');
-
-    switch (element.type) {
-      case 'text':
-        return `      <div style={${styleString}}>
-        <p style={{ fontSize: ${element.content.fontSize || 16}, fontWeight: '${element.content.fontWeight || '400'}', margin: 0 }}>
-          ${element.content.text || 'Text'}
-        </p>
-      </div>`;
-
-      case 'shape':
-        const shapeStyle = {
-          ...styleObj,
-          backgroundColor: element.content.fill || '#3b82f6',
-          border: `${element.content.strokeWidth || 1}px solid ${element.content.stroke || '#1e40af'}`,
-          borderRadius: element.content.shapeType === 'circle' ? '50%' : undefined,
-        };
-        return `      <div style={${JSON.stringify(shapeStyle, null, 2).replace(/"([^"]+)":/g, '$1:')}} />`;
-
-      case 'image':
-        return `      <img
-        src="${element.content.src || ''}"
-        alt="${element.content.alt || ''}"
-        style={{ ...${styleString}, objectFit: 'cover' }}
-      />`;
-
-      default:
-        return `      <div style={${styleString}}>
-        {/* ${element.type} element */}
-      </div>`;
-    }
-  };
-
-  const elementsJSX = visibleElements.map(generateElementJSX).join('\n\n');
-
-  return `import React from 'react';
-
-/**
- * ${componentName}
- * Generated by Voxel Visual Builder
- */
-export default function ${componentName}() {
-  return (
-    <div style={{
-      position: 'relative',
-      width: '100%',
-      maxWidth: 1200,
-      margin: '0 auto',
-      backgroundColor: 'white',
-      minHeight: 800,
-    }}>
-${elementsJSX}
-    </div>
-  );
-}
-`;
-}
-
-function generateJSON(elements: CanvasElement[], interactions: Map<string, Interaction[]>): string {
-  return JSON.stringify(
-    {
-      version: '1.0',
-      elements,
-      interactions: Object.fromEntries(interactions),
-    },
-    null,
-    2
-  );
+  return stringifyProjectDocument({ elements, interactions, variables });
 }
 
 // ============================================================================
@@ -452,6 +740,8 @@ function PreviewDialog({ open, onClose, html }: PreviewDialogProps) {
         >
           <iframe
             srcDoc={html}
+            // Key press triggers listen inside the frame
+            onLoad={(e) => e.currentTarget.contentWindow?.focus()}
             style={{
               width: '100%',
               height: '100%',
@@ -474,6 +764,7 @@ interface ExportDialogProps {
   onClose: () => void;
   elements: CanvasElement[];
   interactions: Map<string, Interaction[]>;
+  variables: PrototypeVariable[];
   canvasWidth: number;
   canvasHeight: number;
   projectName: string;
@@ -484,45 +775,57 @@ function ExportDialog({
   onClose,
   elements,
   interactions,
+  variables,
   canvasWidth,
   canvasHeight,
   projectName,
 }: ExportDialogProps) {
   const [tabValue, setTabValue] = useState(0);
   const [copySuccess, setCopySuccess] = useState(false);
+  const [selectedFiles, setSelectedFiles] = useState<Partial<Record<ExportFramework, string>>>({});
 
   const htmlCode = useMemo(
-    () => generateFullHTML(elements, interactions, canvasWidth, canvasHeight, projectName),
-    [elements, interactions, canvasWidth, canvasHeight, projectName]
+    () => generateFullHTML(elements, interactions, variables, canvasWidth, canvasHeight, projectName),
+    [elements, interactions, variables, canvasWidth, canvasHeight, projectName]
   );
 
-  const reactCode = useMemo(
-    () => generateReactComponent(elements, interactions, projectName),
-    [elements, interactions, projectName]
+  const jsonCode = useMemo(
+    () => generateJSON(elements, interactions, variables),
+    [elements, interactions, variables]
   );
 
-  const jsonCode = useMemo(
-    () => generateJSON(elements, interactions),
-    [elements, interactions]
+  // Tabs 1-3 are framework projects, generated for the open tab only
+  const framework = FRAMEWORK_TABS[tabValue - 1] as ExportFramework | undefined;
+  const project = useMemo(
+    () =>
+      framework
+        ? exportProject(framework, { elements, interactions, variables, canvasWidth, canvasHeight, projectName })
+        : null,
+    [framework, elements, interactions, variables, canvasWidth, canvasHeight, projectName]
   );
+  const selectedPath = (framework && selectedFiles[framework]) || project?.mainFile;
+  const projectCode = project?.files.find((f) => f.path === selectedPath)?.content || '';
 
-  const codes = [htmlCode, reactCode, jsonCode];
-  const fileNames = [`${projectName}.html`, `${projectName}.tsx`, `${projectName}.json`];
+  const currentCode = tabValue === 0 ? htmlCode : tabValue === JSON_TAB ? jsonCode : projectCode;
 
   const handleCopy = useCallback(() => {
-    navigator.clipboard.writeText(codes[tabValue]);
+    navigator.clipboard.writeText(currentCode);
     setCopySuccess(true);
-  }, [codes, tabValue]);
+  }, [currentCode]);
 
   const handleDownload = useCallback(() => {
-    const blob = new Blob([codes[tabValue]], { type: 'text/plain' });
+    if (project) {
+      downloadZipArchive(project.files, project.packageName);
+      return;
+    }
+    const blob = new Blob([currentCode], { type: 'text/plain' });
     const url = URL.createObjectURL(blob);
     const a = document.createElement('a');
     a.href = url;
-    a.download = fileNames[tabValue];
+    a.download = tabValue === 0 ? `${projectName}.html` : `${projectName}.json`;
     a.click();
     URL.revokeObjectURL(url);
-  }, [codes, fileNames, tabValue]);
+  }, [project, currentCode, tabValue, projectName]);
 
   return (
     <Dialog
@@ -541,70 +844,60 @@ function ExportDialog({
       <DialogContent sx={{ display: 'flex', flexDirection: 'column' }}>
         <Tabs value={tabValue} onChange={(_, v) => setTabValue(v)}>
           <Tab icon={<FileHtml size={18} />} iconPosition="start" label="HTML" />
-          <Tab icon={<FileJs size={18} />} iconPosition="start" label="React" />
+          <Tab icon={<FileJs size={18} />} iconPosition="start" label={EXPORT_FRAMEWORKS.react.label} />
+          <Tab icon={<FileVue size={18} />} iconPosition="start" label={EXPORT_FRAMEWORKS.vue.label} />
+          <Tab icon={<FileCode size={18} />} iconPosition="start" label={EXPORT_FRAMEWORKS.svelte.label} />
           <Tab icon={<Code size={18} />} iconPosition="start" label="JSON" />
         </Tabs>
 
         <TabPanel value={tabValue} index={0}>
-          <Box
-            component="pre"
-            sx={{
-              bgcolor: '#1e293b',
-              color: '#e2e8f0',
-              p: 2,
-              borderRadius: 1,
-              overflow: 'auto',
-              fontSize: '0.75rem',
-              fontFamily: 'monospace',
-              maxHeight: 'calc(80vh - 200px)',
-            }}
-          >
+          <Box component="pre" sx={CODE_BLOCK_SX}>
             <code>{htmlCode}</code>
           </Box>
         </TabPanel>
 
-        <TabPanel value={tabValue} index={1}>
-          <Box
-            component="pre"
-            sx={{
-              bgcolor: '#1e293b',
-              color: '#e2e8f0',
-              p: 2,
-              borderRadius: 1,
-              overflow: 'auto',
-              fontSize: '0.75rem',
-              fontFamily: 'monospace',
-              maxHeight: 'calc(80vh - 200px)',
-            }}
-          >
-            <code>{reactCode}</code>
-          </Box>
-        </TabPanel>
-
-        <TabPanel value={tabValue} index={2}>
-          <Box
-            component="pre"
-            sx={{
-              bgcolor: '#1e293b',
-              color: '#e2e8f0',
-              p: 2,
-              borderRadius: 1,
-              overflow: 'auto',
-              fontSize: '0.75rem',
-              fontFamily: 'monospace',
-              maxHeight: 'calc(80vh - 200px)',
-            }}
-          >
+        {FRAMEWORK_TABS.map((tabFramework, i) => (
+          <TabPanel key={tabFramework} value={tabValue} index={i + 1}>
+            {project && (
+              <>
+                <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 0.5, mb: 1 }}>
+                  {project.files.map((file) => (
+                    <Chip
+                      key={file.path}
+                      size="small"
+                      label={file.path}
+                      variant={file.path === selectedPath ? 'filled' : 'outlined'}
+                      color={file.path === selectedPath ? 'primary' : 'default'}
+                      onClick={() => setSelectedFiles((prev) => ({ ...prev, [tabFramework]: file.path }))}
+                      sx={{ fontFamily: 'monospace', fontSize: '0.7rem' }}
+                    />
+                  ))}
+                </Box>
+                <Box component="pre" sx={{ ...CODE_BLOCK_SX, maxHeight: 'calc(80vh - 240px)' }}>
+                  <code>{projectCode}</code>
+                </Box>
+              </>
+            )}
+          </TabPanel>
+        ))}
+
+        <TabPanel value={tabValue} index={JSON_TAB}>
+          <Box component="pre" sx={CODE_BLOCK_SX}>
             <code>{jsonCode}</code>
           </Box>
         </TabPanel>
       </DialogContent>
       <DialogActions sx={{ px: 3, pb: 2 }}>
+        {project && (
+          <Typography variant="caption" color="text.secondary" sx={{ mr: 'auto' }}>
+            {project.files.length} files · run npm install && npm run dev
+          </Typography>
+        )}
         <Button startIcon={<Copy size={16} />} onClick={handleCopy} variant="outlined">
           Copy
         </Button>
         <Button startIcon={<Download size={16} />} onClick={handleDownload} variant="contained">
-          Download
+          {project ? 'Download .zip' : 'Download'}
         </Button>
       </DialogActions>
 
@@ -624,6 +917,7 @@ function ExportDialog({
 export default function ExportPreview({
   elements,
   interactions,
+  variables = NO_VARIABLES,
   canvasWidth,
   canvasHeight,
   projectName = 'Prototype',
@@ -632,8 +926,8 @@ export default function ExportPreview({
   const [exportOpen, setExportOpen] = useState(false);
 
   const previewHTML = useMemo(
-    () => generateFullHTML(elements, interactions, canvasWidth, canvasHeight, projectName),
-    [elements, interactions, canvasWidth, canvasHeight, projectName]
+    () => generateFullHTML(elements, interactions, variables, canvasWidth, canvasHeight, projectName),
+    [elements, interactions, variables, canvasWidth, canvasHeight, projectName]
   );
 
   return (
@@ -673,6 +967,7 @@ export default function ExportPreview({
         onClose={() => setExportOpen(false)}
         elements={elements}
         interactions={interactions}
+        variables={variables}
         canvasWidth={canvasWidth}
         canvasHeight={canvasHeight}
         projectName={projectName}
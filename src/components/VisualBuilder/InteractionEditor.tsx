@@ -1,7 +1,9 @@
 /**
  * Interaction Editor Panel
  * Defines interactions and behaviors for canvas elements
- * Supports click handlers, navigation, state changes, and animations
+ * Supports click handlers, navigation, state changes, and animations,
+ * with prototype variables, conditions and multi-step action sequences.
+ * Triggers cover pointer, keyboard, drag/drop, swipe and timer events.
  */
 
 import React, { useState, useCallback } from 'react';
@@ -33,6 +35,12 @@ import {
   Warning,
   Check,
   X,
+  BracketsCurly,
+  GitBranch,
+  ArrowDown,
+  Keyboard,
+  HandGrabbing,
+  HandSwipeRight,
 } from '@phosphor-icons/react';
 
 import type { CanvasElement } from './VisualCanvas';
@@ -41,7 +49,19 @@ import type { CanvasElement } from './VisualCanvas';
 // Types
 // ============================================================================
 
-export type InteractionTrigger = 'click' | 'hover' | 'focus' | 'load' | 'scroll';
+export type InteractionTrigger =
+  | 'click'
+  | 'hover'
+  | 'whileHover'
+  | 'focus'
+  | 'load'
+  | 'scroll'
+  | 'keyPress'
+  | 'drop'
+  | 'swipe'
+  | 'afterDelay';
+export type KeyModifier = 'ctrl' | 'alt' | 'shift' | 'meta';
+export type SwipeDirection = 'left' | 'right' | 'up' | 'down';
 export type InteractionAction =
   | 'navigate'
   | 'showElement'
@@ -52,15 +72,74 @@ export type InteractionAction =
   | 'submitForm'
   | 'showToast'
   | 'playAnimation'
+  | 'setVariable'
   | 'customCode';
 
+export type VariableType = 'number' | 'boolean' | 'text';
+export type VariableValue = string | number | boolean;
+export type VariableOperation = 'set' | 'increment' | 'toggle';
+
+/** Prototype-wide state that interactions read and change */
+export interface PrototypeVariable {
+  id: string;
+  /** Also used in text as {{name}} */
+  name: string;
+  type: VariableType;
+  initialValue: VariableValue;
+}
+
+export type ConditionOperator =
+  | 'equals'
+  | 'notEquals'
+  | 'greaterThan'
+  | 'lessThan'
+  | 'isTrue'
+  | 'isFalse'
+  | 'formValid'
+  | 'formInvalid';
+
+export interface InteractionCondition {
+  id: string;
+  /** 'variable' compares a variable; 'form' checks the fields in an element */
+  kind: 'variable' | 'form';
+  variableId?: string;
+  targetElementId?: string;
+  operator: ConditionOperator;
+  value?: string;
+}
+
+/** An action run after the interaction's main action */
+export interface InteractionStep {
+  id: string;
+  action: InteractionAction;
+  config: InteractionConfig;
+}
+
+export interface TriggerConfig {
+  // Key Press
+  key?: string;
+  modifiers?: KeyModifier[];
+  // Drop: the element this one is dragged onto
+  dropTargetId?: string;
+  // Swipe
+  swipeDirection?: SwipeDirection;
+  // After Delay (ms after the page loads)
+  delay?: number;
+}
+
 export interface Interaction {
   id: string;
   name: string;
   trigger: InteractionTrigger;
+  triggerConfig?: TriggerConfig;
   action: InteractionAction;
   config: InteractionConfig;
   enabled: boolean;
+  /** The interaction only runs when these hold */
+  conditions?: InteractionCondition[];
+  conditionMode?: 'all' | 'any';
+  /** Further actions, run in order after the main one */
+  steps?: InteractionStep[];
 }
 
 export interface InteractionConfig {
@@ -76,14 +155,22 @@ export interface InteractionConfig {
   animationType?: 'fade' | 'slide' | 'scale' | 'rotate' | 'bounce';
   animationDuration?: number;
   animationDelay?: number;
+  // Set Variable
+  variableId?: string;
+  variableOperation?: VariableOperation;
+  /** Value to set, or amount to increment by */
+  variableValue?: string;
   // Custom
   customCode?: string;
+  /** Wait before running the action (ms) */
+  delay?: number;
 }
 
 export interface InteractionEditorProps {
   element: CanvasElement | null;
   allElements: CanvasElement[];
   interactions: Interaction[];
+  variables: PrototypeVariable[];
   onInteractionsChange: (interactions: Interaction[]) => void;
 }
 
@@ -94,11 +181,25 @@ export interface InteractionEditorProps {
 const TRIGGER_OPTIONS: { value: InteractionTrigger; label: string; icon: React.ReactNode }[] = [
   { value: 'click', label: 'On Click', icon: <CursorClick size={14} /> },
   { value: 'hover', label: 'On Hover', icon: <CursorClick size={14} /> },
+  { value: 'whileHover', label: 'While Hovering', icon: <CursorClick size={14} /> },
   { value: 'focus', label: 'On Focus', icon: <CursorClick size={14} /> },
   { value: 'load', label: 'On Load', icon: <Play size={14} /> },
   { value: 'scroll', label: 'On Scroll', icon: <ArrowSquareOut size={14} /> },
+  { value: 'keyPress', label: 'Key Press', icon: <Keyboard size={14} /> },
+  { value: 'drop', label: 'Drag & Drop', icon: <HandGrabbing size={14} /> },
+  { value: 'swipe', label: 'Swipe', icon: <HandSwipeRight size={14} /> },
+  { value: 'afterDelay', label: 'After Delay', icon: <Timer size={14} /> },
 ];
 
+const SWIPE_DIRECTIONS: SwipeDirection[] = ['left', 'right', 'up', 'down'];
+
+const MODIFIER_LABELS: Record<KeyModifier, string> = {
+  ctrl: 'Ctrl',
+  alt: 'Alt',
+  shift: 'Shift',
+  meta: 'Cmd',
+};
+
 const ACTION_OPTIONS: { value: InteractionAction; label: string; icon: React.ReactNode }[] = [
   { value: 'navigate', label: 'Navigate to URL', icon: <ArrowSquareOut size={14} /> },
   { value: 'showElement', label: 'Show Element', icon: <Eye size={14} /> },
@@ -109,27 +210,492 @@ const ACTION_OPTIONS: { value: InteractionAction; label: string; icon: React.Rea
   { value: 'submitForm', label: 'Submit Form', icon: <Check size={14} /> },
   { value: 'showToast', label: 'Show Toast', icon: <Warning size={14} /> },
   { value: 'playAnimation', label: 'Play Animation', icon: <Play size={14} /> },
+  { value: 'setVariable', label: 'Set Variable', icon: <BracketsCurly size={14} /> },
   { value: 'customCode', label: 'Custom Code', icon: <Lightning size={14} /> },
 ];
 
 const ANIMATION_TYPES = ['fade', 'slide', 'scale', 'rotate', 'bounce'];
 const TOAST_TYPES = ['success', 'error', 'info', 'warning'];
 
+const OPERATION_OPTIONS: Record<VariableType, { value: VariableOperation; label: string }[]> = {
+  number: [
+    { value: 'set', label: 'Set to' },
+    { value: 'increment', label: 'Increment by' },
+  ],
+  boolean: [
+    { value: 'set', label: 'Set to' },
+    { value: 'toggle', label: 'Toggle' },
+  ],
+  text: [{ value: 'set', label: 'Set to' }],
+};
+
+const OPERATOR_OPTIONS: Record<VariableType | 'form', { value: ConditionOperator; label: string }[]> = {
+  number: [
+    { value: 'equals', label: '=' },
+    { value: 'notEquals', label: '≠' },
+    { value: 'greaterThan', label: '>' },
+    { value: 'lessThan', label: '<' },
+  ],
+  boolean: [
+    { value: 'isTrue', label: 'is true' },
+    { value: 'isFalse', label: 'is false' },
+  ],
+  text: [
+    { value: 'equals', label: 'equals' },
+    { value: 'notEquals', label: 'does not equal' },
+  ],
+  form: [
+    { value: 'formValid', label: 'is valid' },
+    { value: 'formInvalid', label: 'is invalid' },
+  ],
+};
+
+const generateId = (prefix: string) => `${prefix}-${Date.now()}-${Math.random().toString(36).slice(2, 9)}`;
+
+const elementLabel = (el: CanvasElement) => el.content.component?.name || `${el.type} - ${el.id.slice(0, 8)}`;
+
+const shortcutLabel = (config: TriggerConfig) =>
+  config.key ? [...(config.modifiers || []).map((m) => MODIFIER_LABELS[m]), config.key].join(' + ') : '';
+
+// ============================================================================
+// Action Fields Component
+// ============================================================================
+
+interface ActionFieldsProps {
+  action: InteractionAction;
+  config: InteractionConfig;
+  allElements: CanvasElement[];
+  variables: PrototypeVariable[];
+  onChange: (config: InteractionConfig) => void;
+}
+
+function ActionFields({ action, config, allElements, variables, onChange }: ActionFieldsProps) {
+  const variable = variables.find((v) => v.id === config.variableId);
+  const operations = variable ? OPERATION_OPTIONS[variable.type] : OPERATION_OPTIONS.text;
+  const operation = config.variableOperation || 'set';
+
+  return (
+    <>
+      {action === 'navigate' && (
+        <>
+          <TextField
+            fullWidth
+            size="small"
+            label="URL"
+            value={config.url || ''}
+            onChange={(e) => onChange({ ...config, url: e.target.value })}
+            placeholder="https://example.com"
+            sx={{ mb: 1 }}
+            InputProps={{ sx: { fontSize: '0.75rem' } }}
+          />
+          <Chip
+            size="small"
+            label={config.openInNewTab ? 'New Tab' : 'Same Tab'}
+            onClick={() => onChange({ ...config, openInNewTab: !config.openInNewTab })}
+            sx={{ cursor: 'pointer' }}
+          />
+        </>
+      )}
+
+      {(action === 'showElement' ||
+        action === 'hideElement' ||
+        action === 'toggleElement') && (
+        <FormControl fullWidth size="small">
+          <InputLabel>Target Element</InputLabel>
+          <Select
+            value={config.targetElementId || ''}
+            label="Target Element"
+            onChange={(e) => onChange({ ...config, targetElementId: e.target.value })}
+          >
+            {allElements.map((el) => (
+              <MenuItem key={el.id} value={el.id}>
+                {elementLabel(el)}
+              </MenuItem>
+            ))}
+          </Select>
+        </FormControl>
+      )}
+
+      {action === 'showToast' && (
+        <>
+          <TextField
+            fullWidth
+            size="small"
+            label="Message"
+            value={config.toastMessage || ''}
+            onChange={(e) => onChange({ ...config, toastMessage: e.target.value })}
+            placeholder="Toast message..."
+            sx={{ mb: 1 }}
+            InputProps={{ sx: { fontSize: '0.75rem' } }}
+          />
+          <FormControl fullWidth size="small">
+            <InputLabel>Type</InputLabel>
+            <Select
+              value={config.toastType || 'info'}
+              label="Type"
+              onChange={(e) => onChange({ ...config, toastType: e.target.value as 'success' | 'error' | 'info' | 'warning' })}
+            >
+              {TOAST_TYPES.map((type) => (
+                <MenuItem key={type} value={type}>
+                  {type.charAt(0).toUpperCase() + type.slice(1)}
+                </MenuItem>
+              ))}
+            </Select>
+          </FormControl>
+        </>
+      )}
+
+      {action === 'playAnimation' && (
+        <>
+          <FormControl fullWidth size="small" sx={{ mb: 1 }}>
+            <InputLabel>Animation</InputLabel>
+            <Select
+              value={config.animationType || 'fade'}
+              label="Animation"
+              onChange={(e) => onChange({ ...config, animationType: e.target.value as 'fade' | 'slide' | 'scale' | 'rotate' | 'bounce' })}
+            >
+              {ANIMATION_TYPES.map((type) => (
+                <MenuItem key={type} value={type}>
+                  {type.charAt(0).toUpperCase() + type.slice(1)}
+                </MenuItem>
+              ))}
+            </Select>
+          </FormControl>
+          <Box sx={{ display: 'flex', gap: 1 }}>
+            <TextField
+              size="small"
+              type="number"
+              label="Duration (ms)"
+              value={config.animationDuration || 300}
+              onChange={(e) => onChange({ ...config, animationDuration: Number(e.target.value) })}
+              sx={{ flex: 1 }}
+              InputProps={{ sx: { fontSize: '0.75rem' } }}
+            />
+            <TextField
+              size="small"
+              type="number"
+              label="Delay (ms)"
+              value={config.animationDelay || 0}
+              onChange={(e) => onChange({ ...config, animationDelay: Number(e.target.value) })}
+              sx={{ flex: 1 }}
+              InputProps={{ sx: { fontSize: '0.75rem' } }}
+            />
+          </Box>
+        </>
+      )}
+
+      {action === 'customCode' && (
+        <TextField
+          fullWidth
+          multiline
+          rows={4}
+          size="small"
+          label="JavaScript Code"
+          value={config.customCode || ''}
+          onChange={(e) => onChange({ ...config, customCode: e.target.value })}
+          placeholder="// Custom JavaScript code"
+          InputProps={{
+            sx: {
+              fontSize: '0.75rem',
+              fontFamily: 'monospace',
+              bgcolor: '#1e293b',
+              color: '#e2e8f0',
+            }
+          }}
+        />
+      )}
+
+      {action === 'setVariable' && (
+        <>
+          <FormControl fullWidth size="small" sx={{ mb: 1 }}>
+            <InputLabel>Variable</InputLabel>
+            <Select
+              value={config.variableId || ''}
+              label="Variable"
+              onChange={(e) => onChange({ ...config, variableId: e.target.value, variableOperation: 'set' })}
+            >
+              {variables.length === 0 && (
+                <MenuItem value="" disabled>
+                  Add variables in the Variables tab
+                </MenuItem>
+              )}
+              {variables.map((v) => (
+                <MenuItem key={v.id} value={v.id}>
+                  {v.name}
+                </MenuItem>
+              ))}
+            </Select>
+          </FormControl>
+          <Box sx={{ display: 'flex', gap: 1 }}>
+            <Select
+              size="small"
+              value={operations.some((o) => o.value === operation) ? operation : 'set'}
+              onChange={(e) => onChange({ ...config, variableOperation: e.target.value as VariableOperation })}
+              sx={{ flex: 1, fontSize: '0.75rem' }}
+            >
+              {operations.map((o) => (
+                <MenuItem key={o.value} value={o.value}>
+                  {o.label}
+                </MenuItem>
+              ))}
+            </Select>
+            {operation !== 'toggle' && (variable?.type === 'boolean' ? (
+              <Select
+                size="small"
+                value={config.variableValue === 'false' ? 'false' : 'true'}
+                onChange={(e) => onChange({ ...config, variableValue: e.target.value })}
+                sx={{ flex: 1, fontSize: '0.75rem' }}
+              >
+                <MenuItem value="true">true</MenuItem>
+                <MenuItem value="false">false</MenuItem>
+              </Select>
+            ) : (
+              <TextField
+                size="small"
+                type={variable?.type === 'number' ? 'number' : 'text'}
+                placeholder={operation === 'increment' ? '1' : 'Value'}
+                value={config.variableValue || ''}
+                onChange={(e) => onChange({ ...config, variableValue: e.target.value })}
+                sx={{ flex: 1 }}
+                InputProps={{ sx: { fontSize: '0.75rem' } }}
+              />
+            ))}
+          </Box>
+        </>
+      )}
+
+      <TextField
+        fullWidth
+        size="small"
+        type="number"
+        label="Delay before (ms)"
+        value={config.delay || 0}
+        onChange={(e) => onChange({ ...config, delay: Math.max(0, Number(e.target.value)) })}
+        sx={{ mt: 1.5 }}
+        InputProps={{ sx: { fontSize: '0.75rem' } }}
+      />
+    </>
+  );
+}
+
+// ============================================================================
+// Trigger Fields Component
+// ============================================================================
+
+interface TriggerFieldsProps {
+  trigger: InteractionTrigger;
+  config: TriggerConfig;
+  elementId: string;
+  allElements: CanvasElement[];
+  onChange: (config: TriggerConfig) => void;
+}
+
+function TriggerFields({ trigger, config, elementId, allElements, onChange }: TriggerFieldsProps) {
+  const handleShortcutKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'Tab' || ['Control', 'Alt', 'Shift', 'Meta'].includes(e.key)) return;
+    e.preventDefault();
+    const modifiers: KeyModifier[] = [];
+    if (e.ctrlKey) modifiers.push('ctrl');
+    if (e.altKey) modifiers.push('alt');
+    if (e.shiftKey) modifiers.push('shift');
+    if (e.metaKey) modifiers.push('meta');
+    onChange({ ...config, key: e.key.length === 1 ? e.key.toLowerCase() : e.key, modifiers });
+  };
+
+  switch (trigger) {
+    case 'keyPress':
+      return (
+        <TextField
+          fullWidth
+          size="small"
+          label="Shortcut"
+          value={shortcutLabel(config)}
+          placeholder="Press a key combination"
+          onKeyDown={handleShortcutKeyDown}
+          helperText="Works anywhere on the page while not typing in a field"
+          sx={{ mb: 1.5 }}
+          InputProps={{ readOnly: true, sx: { fontSize: '0.75rem', fontFamily: 'monospace' } }}
+        />
+      );
+
+    case 'drop':
+      return (
+        <FormControl fullWidth size="small" sx={{ mb: 1.5 }}>
+          <InputLabel>Drop Target</InputLabel>
+          <Select
+            value={config.dropTargetId || ''}
+            label="Drop Target"
+            onChange={(e) => onChange({ ...config, dropTargetId: e.target.value })}
+          >
+            {allElements
+              .filter((el) => el.id !== elementId)
+              .map((el) => (
+                <MenuItem key={el.id} value={el.id}>
+                  {elementLabel(el)}
+                </MenuItem>
+              ))}
+          </Select>
+        </FormControl>
+      );
+
+    case 'swipe':
+      return (
+        <FormControl fullWidth size="small" sx={{ mb: 1.5 }}>
+          <InputLabel>Direction</InputLabel>
+          <Select
+            value={config.swipeDirection || 'left'}
+            label="Direction"
+            onChange={(e) => onChange({ ...config, swipeDirection: e.target.value as SwipeDirection })}
+          >
+            {SWIPE_DIRECTIONS.map((direction) => (
+              <MenuItem key={direction} value={direction} sx={{ textTransform: 'capitalize' }}>
+                {direction}
+              </MenuItem>
+            ))}
+          </Select>
+        </FormControl>
+      );
+
+    case 'afterDelay':
+      return (
+        <TextField
+          fullWidth
+          size="small"
+          label="Delay after load (ms)"
+          type="number"
+          value={config.delay ?? 1000}
+          onChange={(e) => onChange({ ...config, delay: Math.max(0, Number(e.target.value)) })}
+          sx={{ mb: 1.5 }}
+          InputProps={{ sx: { fontSize: '0.75rem' } }}
+        />
+      );
+
+    case 'whileHover':
+      return (
+        <Typography variant="caption" color="text.secondary" component="p" sx={{ mb: 1.5, mt: -0.5 }}>
+          Show, hide, toggle and variable changes are undone when the pointer leaves.
+        </Typography>
+      );
+
+    default:
+      return null;
+  }
+}
+
+// ============================================================================
+// Condition Row Component
+// ============================================================================
+
+interface ConditionRowProps {
+  condition: InteractionCondition;
+  allElements: CanvasElement[];
+  variables: PrototypeVariable[];
+  onUpdate: (updates: Partial<InteractionCondition>) => void;
+  onDelete: () => void;
+}
+
+function ConditionRow({ condition, allElements, variables, onUpdate, onDelete }: ConditionRowProps) {
+  const variable = variables.find((v) => v.id === condition.variableId);
+  const operators = OPERATOR_OPTIONS[condition.kind === 'form' ? 'form' : variable?.type || 'text'];
+  const needsValue = condition.kind === 'variable' && variable?.type !== 'boolean';
+
+  return (
+    <Box sx={{ display: 'flex', flexDirection: 'column', gap: 1, p: 1, mb: 1, borderRadius: 1, bgcolor: 'action.hover' }}>
+      <Box sx={{ display: 'flex', gap: 1, alignItems: 'center' }}>
+        <Select
+          size="small"
+          value={condition.kind === 'form' ? `form:${condition.targetElementId || ''}` : `var:${condition.variableId || ''}`}
+          onChange={(e) => {
+            const [kind, id] = e.target.value.split(':');
+            if (kind === 'form') {
+              onUpdate({ kind: 'form', targetElementId: id, variableId: undefined, operator: 'formValid', value: undefined });
+            } else {
+              const next = variables.find((v) => v.id === id);
+              onUpdate({
+                kind: 'variable',
+                variableId: id,
+                targetElementId: undefined,
+                operator: OPERATOR_OPTIONS[next?.type || 'text'][0].value,
+              });
+            }
+          }}
+          displayEmpty
+          sx={{ flex: 1, fontSize: '0.75rem' }}
+        >
+          <MenuItem value="var:" disabled>
+            Choose variable or form
+          </MenuItem>
+          {variables.map((v) => (
+            <MenuItem key={v.id} value={`var:${v.id}`}>
+              {v.name}
+            </MenuItem>
+          ))}
+          {allElements.map((el) => (
+            <MenuItem key={el.id} value={`form:${el.id}`}>
+              Form in {elementLabel(el)}
+            </MenuItem>
+          ))}
+        </Select>
+        <IconButton size="small" onClick={onDelete} sx={{ color: 'error.main' }}>
+          <X size={14} />
+        </IconButton>
+      </Box>
+      <Box sx={{ display: 'flex', gap: 1 }}>
+        <Select
+          size="small"
+          value={operators.some((o) => o.value === condition.operator) ? condition.operator : ''}
+          onChange={(e) => onUpdate({ operator: e.target.value as ConditionOperator })}
+          sx={{ flex: 1, fontSize: '0.75rem' }}
+        >
+          {operators.map((o) => (
+            <MenuItem key={o.value} value={o.value}>
+              {o.label}
+            </MenuItem>
+          ))}
+        </Select>
+        {needsValue && (
+          <TextField
+            size="small"
+            type={variable?.type === 'number' ? 'number' : 'text'}
+            placeholder="Value"
+            value={condition.value || ''}
+            onChange={(e) => onUpdate({ value: e.target.value })}
+            sx={{ flex: 1 }}
+            InputProps={{ sx: { fontSize: '0.75rem' } }}
+          />
+        )}
+      </Box>
+    </Box>
+  );
+}
+
 // ============================================================================
 // Interaction Item Component
 // ============================================================================
 
 interface InteractionItemProps {
   interaction: Interaction;
+  elementId: string;
   allElements: CanvasElement[];
+  variables: PrototypeVariable[];
   onUpdate: (updates: Partial<Interaction>) => void;
   onDelete: () => void;
 }
 
-function InteractionItem({ interaction, allElements, onUpdate, onDelete }: InteractionItemProps) {
+function InteractionItem({ interaction, elementId, allElements, variables, onUpdate, onDelete }: InteractionItemProps) {
   const [expanded, setExpanded] = useState(true);
 
   const triggerOption = TRIGGER_OPTIONS.find(t => t.value === interaction.trigger);
+  const conditions = interaction.conditions || [];
+  const steps = interaction.steps || [];
+
+  const updateCondition = (id: string, updates: Partial<InteractionCondition>) => {
+    onUpdate({ conditions: conditions.map((c) => (c.id === id ? { ...c, ...updates } : c)) });
+  };
+
+  const updateStep = (id: string, updates: Partial<InteractionStep>) => {
+    onUpdate({ steps: steps.map((st) => (st.id === id ? { ...st, ...updates } : st)) });
+  };
 
   return (
     <Box
@@ -161,9 +727,16 @@ function InteractionItem({ interaction, allElements, onUpdate, onDelete }: Inter
           </Typography>
           <Chip
             size="small"
-            label={triggerOption?.label}
+            label={interaction.trigger === 'keyPress' && interaction.triggerConfig?.key
+              ? shortcutLabel(interaction.triggerConfig)
+              : triggerOption?.label}
             sx={{ height: 18, fontSize: '0.65rem' }}
           />
+          {conditions.length > 0 && (
+            <Tooltip title="Runs only when its conditions hold">
+              <GitBranch size={12} />
+            </Tooltip>
+          )}
         </Box>
         <Tooltip title={interaction.enabled ? 'Disable' : 'Enable'}>
           <IconButton
@@ -223,6 +796,13 @@ function InteractionItem({ interaction, allElements, onUpdate, onDelete }: Inter
               ))}
             </Select>
           </FormControl>
+          <TriggerFields
+            trigger={interaction.trigger}
+            config={interaction.triggerConfig || {}}
+            elementId={elementId}
+            allElements={allElements}
+            onChange={(triggerConfig) => onUpdate({ triggerConfig })}
+          />
 
           {/* Action */}
           <FormControl fullWidth size="small" sx={{ mb: 1.5 }}>
@@ -243,153 +823,107 @@ function InteractionItem({ interaction, allElements, onUpdate, onDelete }: Inter
             </Select>
           </FormControl>
 
-          <Divider sx={{ my: 1 }} />
-
-          {/* Action-specific config */}
-          {interaction.action === 'navigate' && (
-            <>
-              <TextField
-                fullWidth
-                size="small"
-                label="URL"
-                value={interaction.config.url || ''}
-                onChange={(e) => onUpdate({ config: { ...interaction.config, url: e.target.value } })}
-                placeholder="https://example.com"
-                sx={{ mb: 1 }}
-                InputProps={{ sx: { fontSize: '0.75rem' } }}
-              />
-              <Chip
+          {/* Conditions */}
+          <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', mb: 0.5 }}>
+            <Typography variant="caption" fontWeight={600} color="text.secondary">
+              Only if
+            </Typography>
+            <Box sx={{ display: 'flex', alignItems: 'center', gap: 0.5 }}>
+              {conditions.length > 1 && (
+                <Chip
+                  size="small"
+                  label={interaction.conditionMode === 'any' ? 'Any match' : 'All match'}
+                  onClick={() => onUpdate({ conditionMode: interaction.conditionMode === 'any' ? 'all' : 'any' })}
+                  sx={{ height: 18, fontSize: '0.65rem', cursor: 'pointer' }}
+                />
+              )}
+              <Button
                 size="small"
-                label={interaction.config.openInNewTab ? 'New Tab' : 'Same Tab'}
+                startIcon={<Plus size={12} />}
                 onClick={() => onUpdate({
-                  config: { ...interaction.config, openInNewTab: !interaction.config.openInNewTab }
-                })}
-                sx={{ cursor: 'pointer' }}
-              />
-            </>
-          )}
-
-          {(interaction.action === 'showElement' ||
-            interaction.action === 'hideElement' ||
-            interaction.action === 'toggleElement') && (
-            <FormControl fullWidth size="small">
-              <InputLabel>Target Element</InputLabel>
-              <Select
-                value={interaction.config.targetElementId || ''}
-                label="Target Element"
-                onChange={(e) => onUpdate({
-                  config: { ...interaction.config, targetElementId: e.target.value }
+                  conditions: [...conditions, { id: generateId('condition'), kind: 'variable', operator: 'equals' }],
                 })}
+                sx={{ textTransform: 'none', fontSize: '0.7rem', minWidth: 0 }}
               >
-                {allElements.map((el) => (
-                  <MenuItem key={el.id} value={el.id}>
-                    {el.content.component?.name || `${el.type} - ${el.id.slice(0, 8)}`}
-                  </MenuItem>
-                ))}
-              </Select>
-            </FormControl>
-          )}
+                Condition
+              </Button>
+            </Box>
+          </Box>
+          {conditions.map((condition) => (
+            <ConditionRow
+              key={condition.id}
+              condition={condition}
+              allElements={allElements}
+              variables={variables}
+              onUpdate={(updates) => updateCondition(condition.id, updates)}
+              onDelete={() => onUpdate({ conditions: conditions.filter((c) => c.id !== condition.id) })}
+            />
+          ))}
 
-          {interaction.action === 'showToast' && (
-            <>
-              <TextField
-                fullWidth
-                size="small"
-                label="Message"
-                value={interaction.config.toastMessage || ''}
-                onChange={(e) => onUpdate({
-                  config: { ...interaction.config, toastMessage: e.target.value }
-                })}
-                placeholder="Toast message..."
-                sx={{ mb: 1 }}
-                InputProps={{ sx: { fontSize: '0.75rem' } }}
-              />
-              <FormControl fullWidth size="small">
-                <InputLabel>Type</InputLabel>
-                <Select
-                  value={interaction.config.toastType || 'info'}
-                  label="Type"
-                  onChange={(e) => onUpdate({
-                    config: { ...interaction.config, toastType: e.target.value as 'success' | 'error' | 'info' | 'warning' }
-                  })}
-                >
-                  {TOAST_TYPES.map((type) => (
-                    <MenuItem key={type} value={type}>
-                      {type.charAt(0).toUpperCase() + type.slice(1)}
-                    </MenuItem>
-                  ))}
-                </Select>
-              </FormControl>
-            </>
-          )}
+          <Divider sx={{ my: 1 }} />
+
+          {/* Action-specific config */}
+          <ActionFields
+            action={interaction.action}
+            config={interaction.config}
+            allElements={allElements}
+            variables={variables}
+            onChange={(config) => onUpdate({ config })}
+          />
 
-          {interaction.action === 'playAnimation' && (
-            <>
-              <FormControl fullWidth size="small" sx={{ mb: 1 }}>
-                <InputLabel>Animation</InputLabel>
+          {/* Follow-up steps */}
+          {steps.map((step, index) => (
+            <Box key={step.id} sx={{ mt: 1.5 }}>
+              <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, mb: 1, color: 'text.secondary' }}>
+                <ArrowDown size={12} />
+                <Typography variant="caption" fontWeight={600} sx={{ flex: 1 }}>
+                  Then ({index + 2})
+                </Typography>
+                <IconButton
+                  size="small"
+                  onClick={() => onUpdate({ steps: steps.filter((st) => st.id !== step.id) })}
+                  sx={{ color: 'error.main' }}
+                >
+                  <Trash size={12} />
+                </IconButton>
+              </Box>
+              <FormControl fullWidth size="small" sx={{ mb: 1.5 }}>
+                <InputLabel>Action</InputLabel>
                 <Select
-                  value={interaction.config.animationType || 'fade'}
-                  label="Animation"
-                  onChange={(e) => onUpdate({
-                    config: { ...interaction.config, animationType: e.target.value as 'fade' | 'slide' | 'scale' | 'rotate' | 'bounce' }
-                  })}
+                  value={step.action}
+                  label="Action"
+                  onChange={(e) => updateStep(step.id, { action: e.target.value as InteractionAction })}
                 >
-                  {ANIMATION_TYPES.map((type) => (
-                    <MenuItem key={type} value={type}>
-                      {type.charAt(0).toUpperCase() + type.slice(1)}
+                  {ACTION_OPTIONS.map((opt) => (
+                    <MenuItem key={opt.value} value={opt.value}>
+                      <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+                        {opt.icon}
+                        {opt.label}
+                      </Box>
                     </MenuItem>
                   ))}
                 </Select>
               </FormControl>
-              <Box sx={{ display: 'flex', gap: 1 }}>
-                <TextField
-                  size="small"
-                  type="number"
-                  label="Duration (ms)"
-                  value={interaction.config.animationDuration || 300}
-                  onChange={(e) => onUpdate({
-                    config: { ...interaction.config, animationDuration: Number(e.target.value) }
-                  })}
-                  sx={{ flex: 1 }}
-                  InputProps={{ sx: { fontSize: '0.75rem' } }}
-                />
-                <TextField
-                  size="small"
-                  type="number"
-                  label="Delay (ms)"
-                  value={interaction.config.animationDelay || 0}
-                  onChange={(e) => onUpdate({
-                    config: { ...interaction.config, animationDelay: Number(e.target.value) }
-                  })}
-                  sx={{ flex: 1 }}
-                  InputProps={{ sx: { fontSize: '0.75rem' } }}
-                />
-              </Box>
-            </>
-          )}
-
-          {interaction.action === 'customCode' && (
-            <TextField
-              fullWidth
-              multiline
-              rows={4}
-              size="small"
-              label="JavaScript Code"
-              value={interaction.config.customCode || ''}
-              onChange={(e) => onUpdate({
-                config: { ...interaction.config, customCode: e.target.value }
-              })}
-              placeholder="// Custom JavaScript code"
-              InputProps={{
-                sx: {
-                  fontSize: '0.75rem',
-                  fontFamily: 'monospace',
-                  bgcolor: '#1e293b',
-                  color: '#e2e8f0',
-                }
-              }}
-            />
-          )}
+              <ActionFields
+                action={step.action}
+                config={step.config}
+                allElements={allElements}
+                variables={variables}
+                onChange={(config) => updateStep(step.id, { config })}
+              />
+            </Box>
+          ))}
+          <Button
+            fullWidth
+            size="small"
+            startIcon={<Plus size={12} />}
+            onClick={() => onUpdate({
+              steps: [...steps, { id: generateId('step'), action: 'showToast', config: { toastType: 'info' } }],
+            })}
+            sx={{ mt: 1.5, textTransform: 'none', fontSize: '0.7rem' }}
+          >
+            Add Step
+          </Button>
         </Box>
       </Collapse>
     </Box>
@@ -404,14 +938,13 @@ export default function InteractionEditor({
   element,
   allElements,
   interactions,
+  variables,
   onInteractionsChange,
 }: InteractionEditorProps) {
 
-  const generateId = () => `interaction-${Date.now()}-${Math.random().toString(36).slice(2, 9)}`;
-
   const handleAddInteraction = useCallback(() => {
     const newInteraction: Interaction = {
-      id: generateId(),
+      id: generateId('interaction'),
       name: `Interaction ${interactions.length + 1}`,
       trigger: 'click',
       action: 'showToast',
@@ -505,7 +1038,9 @@ export default function InteractionEditor({
             <InteractionItem
               key={interaction.id}
               interaction={interaction}
+              elementId={element.id}
               allElements={allElements}
+              variables={variables}
               onUpdate={(updates) => handleUpdateInteraction(interaction.id, updates)}
               onDelete={() => handleDeleteInteraction(interaction.id)}
             />
@@ -0,0 +1,227 @@
+/**
+ * Layers Panel
+ * Lists canvas elements topmost first with frames and their children
+ * nested, and reorders them by drag and drop
+ */
+
+import React from 'react';
+import Box from '@mui/material/Box';
+import Typography from '@mui/material/Typography';
+import IconButton from '@mui/material/IconButton';
+import Tooltip from '@mui/material/Tooltip';
+import {
+  DndContext,
+  PointerSensor,
+  closestCenter,
+  useSensor,
+  useSensors,
+} from '@dnd-kit/core';
+import type { DragEndEvent } from '@dnd-kit/core';
+import { SortableContext, useSortable, verticalListSortingStrategy } from '@dnd-kit/sortable';
+import { CSS } from '@dnd-kit/utilities';
+import {
+  Cube,
+  TextT,
+  Square,
+  Image as ImageIcon,
+  ChartBar,
+  Pencil,
+  FrameCorners,
+  Eye,
+  EyeSlash,
+  LockSimple,
+  LockSimpleOpen,
+  DotsSixVertical,
+  Stack,
+} from '@phosphor-icons/react';
+
+import type { CanvasElement } from './VisualCanvas';
+import { getLayerOrder, reorderLayer } from '@/services/visualBuilder/canvasCommands';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface LayersPanelProps {
+  elements: CanvasElement[];
+  selectedIds: string[];
+  onSelectionChange: (ids: string[]) => void;
+  onElementsChange: (elements: CanvasElement[]) => void;
+  onElementUpdate: (id: string, updates: Partial<CanvasElement>) => void;
+}
+
+interface LayerRowProps {
+  element: CanvasElement;
+  depth: number;
+  isSelected: boolean;
+  onSelect: (additive: boolean) => void;
+  onUpdate: (updates: Partial<CanvasElement>) => void;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const TYPE_ICONS: Record<CanvasElement['type'], React.ReactNode> = {
+  component: <Cube size={14} />,
+  text: <TextT size={14} />,
+  shape: <Square size={14} />,
+  image: <ImageIcon size={14} />,
+  chart: <ChartBar size={14} />,
+  drawing: <Pencil size={14} />,
+  frame: <FrameCorners size={14} />,
+};
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+function layerName(element: CanvasElement): string {
+  if (element.content.component) return element.content.component.name;
+  if (element.type === 'text' && element.content.text) return element.content.text.slice(0, 40);
+  if (element.type === 'frame') {
+    const direction = element.layout?.direction;
+    return direction && direction !== 'none' ? `Auto layout (${direction})` : 'Frame';
+  }
+  return element.type.charAt(0).toUpperCase() + element.type.slice(1);
+}
+
+// ============================================================================
+// Layer Row Component
+// ============================================================================
+
+function LayerRow({ element, depth, isSelected, onSelect, onUpdate }: LayerRowProps) {
+  const { attributes, listeners, setNodeRef, transform, transition, isDragging } = useSortable({
+    id: element.id,
+  });
+
+  return (
+    <Box
+      ref={setNodeRef}
+      onClick={(e) => onSelect(e.shiftKey)}
+      sx={{
+        display: 'flex',
+        alignItems: 'center',
+        gap: 0.5,
+        pl: 0.5 + depth * 1.5,
+        pr: 0.5,
+        py: 0.25,
+        borderRadius: 1,
+        cursor: 'pointer',
+        bgcolor: isSelected ? 'action.selected' : 'transparent',
+        opacity: isDragging ? 0.5 : element.visible ? 1 : 0.5,
+        transform: CSS.Transform.toString(transform),
+        transition,
+        '&:hover': { bgcolor: isSelected ? 'action.selected' : 'action.hover' },
+        '&:hover .layer-actions': { opacity: 1 },
+      }}
+    >
+      <Box
+        {...attributes}
+        {...listeners}
+        sx={{ display: 'flex', color: 'text.disabled', cursor: 'grab' }}
+      >
+        <DotsSixVertical size={14} />
+      </Box>
+      <Box sx={{ display: 'flex', color: element.type === 'frame' ? 'primary.main' : 'text.secondary' }}>
+        {TYPE_ICONS[element.type]}
+      </Box>
+      <Typography variant="caption" noWrap sx={{ flex: 1, fontWeight: element.type === 'frame' ? 600 : 400 }}>
+        {layerName(element)}
+      </Typography>
+      <Box
+        className="layer-actions"
+        sx={{ display: 'flex', opacity: element.locked || !element.visible ? 1 : 0 }}
+      >
+        <Tooltip title={element.visible ? 'Hide' : 'Show'}>
+          <IconButton
+            size="small"
+            onClick={(e) => {
+              e.stopPropagation();
+              onUpdate({ visible: !element.visible });
+            }}
+            sx={{ p: 0.25 }}
+          >
+            {element.visible ? <Eye size={12} /> : <EyeSlash size={12} />}
+          </IconButton>
+        </Tooltip>
+        <Tooltip title={element.locked ? 'Unlock' : 'Lock'}>
+          <IconButton
+            size="small"
+            onClick={(e) => {
+              e.stopPropagation();
+              onUpdate({ locked: !element.locked });
+            }}
+            sx={{ p: 0.25 }}
+          >
+            {element.locked ? <LockSimple size={12} /> : <LockSimpleOpen size={12} />}
+          </IconButton>
+        </Tooltip>
+      </Box>
+    </Box>
+  );
+}
+
+// ============================================================================
+// Layers Panel Component
+// ============================================================================
+
+export default function LayersPanel({
+  elements,
+  selectedIds,
+  onSelectionChange,
+  onElementsChange,
+  onElementUpdate,
+}: LayersPanelProps) {
+  const sensors = useSensors(useSensor(PointerSensor, { activationConstraint: { distance: 4 } }));
+  const layers = getLayerOrder(elements);
+
+  const handleSelect = (id: string, additive: boolean) => {
+    if (!additive) {
+      onSelectionChange([id]);
+    } else {
+      onSelectionChange(selectedIds.includes(id) ? selectedIds.filter((s) => s !== id) : [...selectedIds, id]);
+    }
+  };
+
+  const handleDragEnd = ({ active, over }: DragEndEvent) => {
+    if (!over || active.id === over.id) return;
+    onElementsChange(reorderLayer(elements, String(active.id), String(over.id)));
+  };
+
+  if (layers.length === 0) {
+    return (
+      <Box sx={{ textAlign: 'center', py: 4, px: 2, color: 'text.secondary' }}>
+        <Stack size={32} color="#94a3b8" />
+        <Typography variant="caption" display="block" sx={{ mt: 1 }}>
+          No layers yet
+        </Typography>
+        <Typography variant="caption" color="text.disabled">
+          Elements you add to the canvas appear here
+        </Typography>
+      </Box>
+    );
+  }
+
+  return (
+    <Box sx={{ p: 1 }}>
+      <DndContext sensors={sensors} collisionDetection={closestCenter} onDragEnd={handleDragEnd}>
+        <SortableContext items={layers.map(({ element }) => element.id)} strategy={verticalListSortingStrategy}>
+          {layers.map(({ element, depth }) => (
+            <LayerRow
+              key={element.id}
+              element={element}
+              depth={depth}
+              isSelected={selectedIds.includes(element.id)}
+              onSelect={(additive) => handleSelect(element.id, additive)}
+              onUpdate={(updates) => onElementUpdate(element.id, updates)}
+            />
+          ))}
+        </SortableContext>
+      </DndContext>
+      <Typography variant="caption" color="text.disabled" sx={{ display: 'block', mt: 1, px: 0.5 }}>
+        Drag to reorder. Shift-click to select several.
+      </Typography>
+    </Box>
+  );
+}
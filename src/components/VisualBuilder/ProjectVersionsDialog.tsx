@@ -0,0 +1,176 @@
+/**
+ * Project Versions Dialog
+ * Saves the current canvas as a named version and restores earlier ones
+ */
+
+import { useState, useEffect } from 'react';
+import Box from '@mui/material/Box';
+import Typography from '@mui/material/Typography';
+import Button from '@mui/material/Button';
+import IconButton from '@mui/material/IconButton';
+import TextField from '@mui/material/TextField';
+import Tooltip from '@mui/material/Tooltip';
+import Dialog from '@mui/material/Dialog';
+import DialogTitle from '@mui/material/DialogTitle';
+import DialogContent from '@mui/material/DialogContent';
+import CircularProgress from '@mui/material/CircularProgress';
+import { ArrowCounterClockwise, ClockCounterClockwise, Trash, X } from '@phosphor-icons/react';
+
+import {
+  deleteVisualBuilderVersion,
+  getVisualBuilderVersions,
+} from '@/services/visualBuilderProjectService';
+import type { VisualBuilderProjectVersion } from '@/services/visualBuilderProjectService';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface ProjectVersionsDialogProps {
+  open: boolean;
+  onClose: () => void;
+  projectId: string;
+  /** Save the canvas as it is now; resolves to the new version, or null on failure */
+  onCreateVersion: (name: string) => Promise<VisualBuilderProjectVersion | null>;
+  /** Replace the canvas with a version's document */
+  onRestore: (version: VisualBuilderProjectVersion) => void;
+}
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+function formatVersionDate(dateString: string): string {
+  return new Date(dateString).toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+  });
+}
+
+// ============================================================================
+// Main Component
+// ============================================================================
+
+export default function ProjectVersionsDialog({
+  open,
+  onClose,
+  projectId,
+  onCreateVersion,
+  onRestore,
+}: ProjectVersionsDialogProps) {
+  const [versions, setVersions] = useState<VisualBuilderProjectVersion[] | null>(null);
+  const [versionName, setVersionName] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+    let cancelled = false;
+    getVisualBuilderVersions(projectId).then((list) => {
+      if (!cancelled) setVersions(list);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [open, projectId]);
+
+  const handleCreate = async () => {
+    const name = versionName.trim();
+    if (!name) return;
+
+    setIsSaving(true);
+    const created = await onCreateVersion(name);
+    setIsSaving(false);
+    if (created) {
+      setVersions((prev) => [created, ...(prev || [])]);
+      setVersionName('');
+    }
+  };
+
+  const handleDelete = async (versionId: string) => {
+    if (await deleteVisualBuilderVersion(versionId)) {
+      setVersions((prev) => (prev || []).filter((v) => v.id !== versionId));
+    }
+  };
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="xs" fullWidth>
+      <DialogTitle sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', py: 1.5 }}>
+        <Typography variant="h6">Versions</Typography>
+        <IconButton onClick={onClose}>
+          <X size={20} />
+        </IconButton>
+      </DialogTitle>
+      <DialogContent>
+        <Box sx={{ display: 'flex', gap: 1, mb: 2 }}>
+          <TextField
+            size="small"
+            fullWidth
+            placeholder="Version name, e.g. Before review"
+            value={versionName}
+            onChange={(e) => setVersionName(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && handleCreate()}
+          />
+          <Button
+            variant="contained"
+            onClick={handleCreate}
+            disabled={!versionName.trim() || isSaving}
+            sx={{ textTransform: 'none', whiteSpace: 'nowrap' }}
+          >
+            Save version
+          </Button>
+        </Box>
+
+        {versions === null ? (
+          <Box sx={{ display: 'flex', justifyContent: 'center', py: 3 }}>
+            <CircularProgress size={24} />
+          </Box>
+        ) : versions.length === 0 ? (
+          <Box sx={{ textAlign: 'center', py: 3, color: 'text.secondary' }}>
+            <ClockCounterClockwise size={32} color="#94a3b8" />
+            <Typography variant="body2" sx={{ mt: 1 }}>
+              No saved versions yet
+            </Typography>
+            <Typography variant="caption" color="text.disabled">
+              Name a version to keep a copy of the canvas you can go back to
+            </Typography>
+          </Box>
+        ) : (
+          versions.map((version) => (
+            <Box
+              key={version.id}
+              sx={{
+                display: 'flex',
+                alignItems: 'center',
+                gap: 1,
+                py: 1,
+                borderBottom: '1px solid',
+                borderColor: 'divider',
+              }}
+            >
+              <Box sx={{ flex: 1, minWidth: 0 }}>
+                <Typography variant="body2" fontWeight={500} noWrap>
+                  {version.name}
+                </Typography>
+                <Typography variant="caption" color="text.secondary">
+                  {formatVersionDate(version.createdAt)} · {version.document.elements.length} elements
+                </Typography>
+              </Box>
+              <Tooltip title="Restore this version">
+                <IconButton size="small" onClick={() => onRestore(version)}>
+                  <ArrowCounterClockwise size={16} />
+                </IconButton>
+              </Tooltip>
+              <Tooltip title="Delete version">
+                <IconButton size="small" onClick={() => handleDelete(version.id)}>
+                  <Trash size={16} />
+                </IconButton>
+              </Tooltip>
+            </Box>
+          ))
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
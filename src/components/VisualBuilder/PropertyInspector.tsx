@@ -36,9 +36,24 @@ import {
   EyeSlash,
   LockSimple,
   LockSimpleOpen,
+  FrameCorners,
+  PushPin,
 } from '@phosphor-icons/react';
 
-import type { CanvasElement, CanvasElementContent } from './VisualCanvas';
+import type {
+  AutoLayout,
+  CanvasElement,
+  CanvasElementContent,
+  ConstraintPin,
+  LayoutConstraints,
+  SizingMode,
+} from './VisualCanvas';
+import {
+  DEFAULT_AUTO_LAYOUT,
+  DEFAULT_CONSTRAINTS,
+  getDescendantIds,
+  hasFlowLayout,
+} from '@/services/visualBuilder/autoLayout';
 
 // ============================================================================
 // Types
@@ -46,6 +61,8 @@ import type { CanvasElement, CanvasElementContent } from './VisualCanvas';
 
 export interface PropertyInspectorProps {
   element: CanvasElement | null;
+  // Every canvas element, for choosing the frame an element belongs to
+  allElements?: CanvasElement[];
   onUpdate: (updates: Partial<CanvasElement>) => void;
   onContentUpdate: (updates: Partial<CanvasElementContent>) => void;
   onStyleUpdate: (key: string, value: string) => void;
@@ -73,6 +90,38 @@ const COLOR_PRESETS = [
 const FONT_SIZES = [10, 12, 14, 16, 18, 20, 24, 28, 32, 36, 48, 64];
 const FONT_WEIGHTS = ['300', '400', '500', '600', '700', '800'];
 
+const NO_ELEMENTS: CanvasElement[] = [];
+
+const DIRECTION_OPTIONS: { value: AutoLayout['direction']; label: string }[] = [
+  { value: 'none', label: 'None (free)' },
+  { value: 'horizontal', label: 'Horizontal' },
+  { value: 'vertical', label: 'Vertical' },
+];
+
+const ALIGN_OPTIONS: { value: AutoLayout['align']; label: string }[] = [
+  { value: 'start', label: 'Start' },
+  { value: 'center', label: 'Center' },
+  { value: 'end', label: 'End' },
+];
+
+const JUSTIFY_OPTIONS: { value: AutoLayout['justify']; label: string }[] = [
+  ...ALIGN_OPTIONS,
+  { value: 'space-between', label: 'Space between' },
+];
+
+const PIN_LABELS: Record<'horizontal' | 'vertical', Record<ConstraintPin, string>> = {
+  horizontal: { start: 'Left', end: 'Right', stretch: 'Left & right', center: 'Center', scale: 'Scale' },
+  vertical: { start: 'Top', end: 'Bottom', stretch: 'Top & bottom', center: 'Center', scale: 'Scale' },
+};
+
+const SIZING_LABELS: Record<SizingMode, string> = {
+  fixed: 'Fixed',
+  fill: 'Fill container',
+  hug: 'Hug contents',
+};
+
+const PADDING_SIDES = ['top', 'right', 'bottom', 'left'] as const;
+
 // ============================================================================
 // Collapsible Section Component
 // ============================================================================
@@ -230,12 +279,45 @@ function NumberInput({ label, value, onChange, min = 0, max = 1000, step = 1, un
   );
 }
 
+// ============================================================================
+// Layout Select
+// ============================================================================
+
+interface LayoutSelectProps<T extends string> {
+  label: string;
+  value: T;
+  options: { value: T; label: string; disabled?: boolean }[];
+  onChange: (value: T) => void;
+  disabled?: boolean;
+}
+
+function LayoutSelect<T extends string>({ label, value, options, onChange, disabled }: LayoutSelectProps<T>) {
+  return (
+    <FormControl fullWidth size="small" disabled={disabled}>
+      <InputLabel>{label}</InputLabel>
+      <Select
+        value={value}
+        label={label}
+        onChange={(e) => onChange(e.target.value as T)}
+        sx={{ fontSize: '0.75rem' }}
+      >
+        {options.map((opt) => (
+          <MenuItem key={opt.value} value={opt.value} disabled={opt.disabled}>
+            {opt.label}
+          </MenuItem>
+        ))}
+      </Select>
+    </FormControl>
+  );
+}
+
 // ============================================================================
 // Property Inspector Component
 // ============================================================================
 
 export default function PropertyInspector({
   element,
+  allElements = NO_ELEMENTS,
   onUpdate,
   onContentUpdate,
   onStyleUpdate,
@@ -255,6 +337,15 @@ export default function PropertyInspector({
     onUpdate({ rotation: value });
   }, [onUpdate]);
 
+  const handleLayoutChange = useCallback((updates: Partial<AutoLayout>) => {
+    const layout = element?.layout || { ...DEFAULT_AUTO_LAYOUT, direction: 'none' as const };
+    onUpdate({ layout: { ...layout, ...updates } });
+  }, [element?.layout, onUpdate]);
+
+  const handleConstraintsChange = useCallback((updates: Partial<LayoutConstraints>) => {
+    onUpdate({ constraints: { ...DEFAULT_CONSTRAINTS, ...element?.constraints, ...updates } });
+  }, [element?.constraints, onUpdate]);
+
   if (!element) {
     return (
       <Box
@@ -286,8 +377,22 @@ export default function PropertyInspector({
     image: <ImageIcon size={16} />,
     chart: <ChartBar size={16} />,
     drawing: <Pencil size={16} />,
+    frame: <FrameCorners size={16} />,
   };
 
+  const layout = element.layout || { ...DEFAULT_AUTO_LAYOUT, direction: 'none' as const };
+  const constraints = { ...DEFAULT_CONSTRAINTS, ...element.constraints };
+  const parent = allElements.find((e) => e.id === element.parentId && e.type === 'frame') || null;
+  const inFlow = hasFlowLayout(parent);
+  // A frame cannot move into itself or one of its own descendants
+  const excluded = new Set([element.id, ...getDescendantIds(allElements, element.id)]);
+  const frames = allElements.filter((e) => e.type === 'frame' && !excluded.has(e.id));
+  const sizingOptions = (Object.keys(SIZING_LABELS) as SizingMode[]).map((value) => ({
+    value,
+    label: SIZING_LABELS[value],
+    disabled: (value === 'fill' && !inFlow) || (value === 'hug' && !hasFlowLayout(element)),
+  }));
+
   return (
     <Box sx={{ height: '100%', display: 'flex', flexDirection: 'column' }}>
       {/* Header */}
@@ -396,6 +501,134 @@ export default function PropertyInspector({
             step={1}
             unit="°"
           />
+          {inFlow && (
+            <Typography variant="caption" color="text.secondary">
+              Position is set by the parent frame's auto layout
+            </Typography>
+          )}
+        </Section>
+
+        <Divider />
+
+        {/* Auto Layout Section - frames only */}
+        {element.type === 'frame' && (
+          <>
+            <Section title="Auto Layout" icon={<FrameCorners size={14} />}>
+              <Box sx={{ display: 'flex', flexDirection: 'column', gap: 1.5 }}>
+                <LayoutSelect
+                  label="Direction"
+                  value={layout.direction}
+                  options={DIRECTION_OPTIONS}
+                  onChange={(direction) => handleLayoutChange({ direction })}
+                />
+                {layout.direction !== 'none' && (
+                  <>
+                    <Box sx={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: 1 }}>
+                      <LayoutSelect
+                        label="Align"
+                        value={layout.align}
+                        options={ALIGN_OPTIONS}
+                        onChange={(align) => handleLayoutChange({ align })}
+                      />
+                      <LayoutSelect
+                        label="Distribute"
+                        value={layout.justify}
+                        options={JUSTIFY_OPTIONS}
+                        onChange={(justify) => handleLayoutChange({ justify })}
+                      />
+                    </Box>
+                    <NumberInput
+                      label="Gap"
+                      value={layout.gap}
+                      onChange={(gap) => handleLayoutChange({ gap })}
+                      min={0}
+                      max={200}
+                      unit="px"
+                    />
+                    <Box>
+                      <Typography variant="caption" color="text.secondary" sx={{ mb: 0.5, display: 'block' }}>
+                        Padding
+                      </Typography>
+                      <Box sx={{ display: 'grid', gridTemplateColumns: 'repeat(4, 1fr)', gap: 0.5 }}>
+                        {PADDING_SIDES.map((side) => (
+                          <TextField
+                            key={side}
+                            size="small"
+                            type="number"
+                            label={side.charAt(0).toUpperCase() + side.slice(1)}
+                            value={layout.padding[side]}
+                            onChange={(e) => handleLayoutChange({
+                              padding: { ...layout.padding, [side]: Math.max(0, Number(e.target.value)) },
+                            })}
+                            InputProps={{ sx: { fontSize: '0.75rem', height: 28 } }}
+                          />
+                        ))}
+                      </Box>
+                    </Box>
+                  </>
+                )}
+                <ColorPicker
+                  label="Fill"
+                  value={element.content.fill || ''}
+                  onChange={(v) => onContentUpdate({ fill: v })}
+                />
+              </Box>
+            </Section>
+
+            <Divider />
+          </>
+        )}
+
+        {/* Constraints Section */}
+        <Section title="Constraints" icon={<PushPin size={14} />} defaultExpanded={!!parent}>
+          <Box sx={{ display: 'flex', flexDirection: 'column', gap: 1.5 }}>
+            <LayoutSelect
+              label="Parent"
+              value={parent?.id || ''}
+              options={[
+                { value: '', label: 'Canvas' },
+                ...frames.map((frame) => ({
+                  value: frame.id,
+                  label: `Frame ${Math.round(frame.width)}×${Math.round(frame.height)}`,
+                })),
+              ]}
+              onChange={(parentId) => onUpdate({ parentId: parentId || undefined })}
+            />
+            <Box sx={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: 1 }}>
+              <LayoutSelect
+                label="Horizontal"
+                value={constraints.horizontal}
+                options={(Object.keys(PIN_LABELS.horizontal) as ConstraintPin[]).map((value) => ({
+                  value,
+                  label: PIN_LABELS.horizontal[value],
+                }))}
+                onChange={(horizontal) => handleConstraintsChange({ horizontal })}
+                disabled={inFlow}
+              />
+              <LayoutSelect
+                label="Vertical"
+                value={constraints.vertical}
+                options={(Object.keys(PIN_LABELS.vertical) as ConstraintPin[]).map((value) => ({
+                  value,
+                  label: PIN_LABELS.vertical[value],
+                }))}
+                onChange={(vertical) => handleConstraintsChange({ vertical })}
+                disabled={inFlow}
+              />
+              <LayoutSelect
+                label="Width"
+                value={constraints.widthSizing}
+                options={sizingOptions}
+                onChange={(widthSizing) => handleConstraintsChange({ widthSizing })}
+              />
+              <LayoutSelect
+                label="Height"
+                value={constraints.heightSizing}
+                options={sizingOptions}
+                onChange={(heightSizing) => handleConstraintsChange({ heightSizing })}
+              />
+            </Box>
+          </Box>
         </Section>
 
         <Divider />
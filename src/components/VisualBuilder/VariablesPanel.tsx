@@ -0,0 +1,196 @@
+/**
+ * Variables Panel
+ * Defines the prototype's variables: state that interactions set, increment
+ * or toggle, test in conditions, and show in text as {{name}}
+ */
+
+import Box from '@mui/material/Box';
+import Typography from '@mui/material/Typography';
+import Button from '@mui/material/Button';
+import TextField from '@mui/material/TextField';
+import Select from '@mui/material/Select';
+import MenuItem from '@mui/material/MenuItem';
+import IconButton from '@mui/material/IconButton';
+import Tooltip from '@mui/material/Tooltip';
+import { Plus, Trash, BracketsCurly } from '@phosphor-icons/react';
+
+import type { PrototypeVariable, VariableType, VariableValue } from './InteractionEditor';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface VariablesPanelProps {
+  variables: PrototypeVariable[];
+  onVariablesChange: (variables: PrototypeVariable[]) => void;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const TYPE_OPTIONS: { value: VariableType; label: string }[] = [
+  { value: 'number', label: 'Number' },
+  { value: 'boolean', label: 'Boolean' },
+  { value: 'text', label: 'Text' },
+];
+
+const DEFAULT_VALUES: Record<VariableType, VariableValue> = {
+  number: 0,
+  boolean: false,
+  text: '',
+};
+
+// Names end up in generated JavaScript and {{name}} placeholders
+const toVariableName = (value: string) => value.replace(/[^A-Za-z0-9_]/g, '_').replace(/^(\d)/, '_$1');
+
+// ============================================================================
+// Variables Panel Component
+// ============================================================================
+
+export default function VariablesPanel({ variables, onVariablesChange }: VariablesPanelProps) {
+  const handleAdd = () => {
+    let index = variables.length + 1;
+    while (variables.some((v) => v.name === `variable${index}`)) index++;
+
+    onVariablesChange([
+      ...variables,
+      {
+        id: `variable-${Date.now()}-${Math.random().toString(36).slice(2, 9)}`,
+        name: `variable${index}`,
+        type: 'number',
+        initialValue: 0,
+      },
+    ]);
+  };
+
+  const handleUpdate = (id: string, updates: Partial<PrototypeVariable>) => {
+    onVariablesChange(variables.map((v) => (v.id === id ? { ...v, ...updates } : v)));
+  };
+
+  return (
+    <Box sx={{ height: '100%', display: 'flex', flexDirection: 'column' }}>
+      {/* Header */}
+      <Box sx={{ p: 1.5, borderBottom: '1px solid', borderColor: 'divider' }}>
+        <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between' }}>
+          <Box>
+            <Typography variant="subtitle2" fontWeight={600}>
+              Variables
+            </Typography>
+            <Typography variant="caption" color="text.secondary">
+              Shared by every interaction
+            </Typography>
+          </Box>
+          <Button
+            size="small"
+            startIcon={<Plus size={14} />}
+            onClick={handleAdd}
+            sx={{ textTransform: 'none' }}
+          >
+            Add
+          </Button>
+        </Box>
+      </Box>
+
+      {/* Variables List */}
+      <Box sx={{ flex: 1, overflow: 'auto', p: 1.5 }}>
+        {variables.length === 0 ? (
+          <Box sx={{ textAlign: 'center', py: 4, color: 'text.secondary' }}>
+            <BracketsCurly size={32} color="#94a3b8" />
+            <Typography variant="caption" display="block" sx={{ mt: 1 }}>
+              No variables defined
+            </Typography>
+            <Typography variant="caption" color="text.disabled">
+              Use variables for counters, toggles and entered values
+            </Typography>
+          </Box>
+        ) : (
+          variables.map((variable) => (
+            <Box
+              key={variable.id}
+              sx={{
+                border: '1px solid',
+                borderColor: 'divider',
+                borderRadius: 1,
+                p: 1,
+                mb: 1,
+                display: 'flex',
+                flexDirection: 'column',
+                gap: 1,
+              }}
+            >
+              <Box sx={{ display: 'flex', gap: 1, alignItems: 'center' }}>
+                <TextField
+                  size="small"
+                  label="Name"
+                  value={variable.name}
+                  onChange={(e) => handleUpdate(variable.id, { name: toVariableName(e.target.value) })}
+                  sx={{ flex: 1 }}
+                  InputProps={{ sx: { fontSize: '0.75rem', fontFamily: 'monospace' } }}
+                />
+                <Tooltip title="Delete">
+                  <IconButton
+                    size="small"
+                    onClick={() => onVariablesChange(variables.filter((v) => v.id !== variable.id))}
+                    sx={{ color: 'error.main' }}
+                  >
+                    <Trash size={14} />
+                  </IconButton>
+                </Tooltip>
+              </Box>
+              <Box sx={{ display: 'flex', gap: 1 }}>
+                <Select
+                  size="small"
+                  value={variable.type}
+                  onChange={(e) => {
+                    const type = e.target.value as VariableType;
+                    handleUpdate(variable.id, { type, initialValue: DEFAULT_VALUES[type] });
+                  }}
+                  sx={{ flex: 1, fontSize: '0.75rem' }}
+                >
+                  {TYPE_OPTIONS.map((opt) => (
+                    <MenuItem key={opt.value} value={opt.value}>
+                      {opt.label}
+                    </MenuItem>
+                  ))}
+                </Select>
+                {variable.type === 'boolean' ? (
+                  <Select
+                    size="small"
+                    value={variable.initialValue ? 'true' : 'false'}
+                    onChange={(e) => handleUpdate(variable.id, { initialValue: e.target.value === 'true' })}
+                    sx={{ flex: 1, fontSize: '0.75rem' }}
+                  >
+                    <MenuItem value="true">true</MenuItem>
+                    <MenuItem value="false">false</MenuItem>
+                  </Select>
+                ) : (
+                  <TextField
+                    size="small"
+                    label="Initial value"
+                    type={variable.type === 'number' ? 'number' : 'text'}
+                    value={variable.initialValue}
+                    onChange={(e) => handleUpdate(variable.id, {
+                      initialValue: variable.type === 'number' ? Number(e.target.value) : e.target.value,
+                    })}
+                    sx={{ flex: 1 }}
+                    InputProps={{ sx: { fontSize: '0.75rem' } }}
+                  />
+                )}
+              </Box>
+            </Box>
+          ))
+        )}
+      </Box>
+
+      {/* Footer Tips */}
+      {variables.length > 0 && (
+        <Box sx={{ p: 1.5, borderTop: '1px solid', borderColor: 'divider', bgcolor: 'action.hover' }}>
+          <Typography variant="caption" color="text.secondary">
+            <strong>Tip:</strong> Type <code>{'{{name}}'}</code> in a text element to show a variable's value.
+          </Typography>
+        </Box>
+      )}
+    </Box>
+  );
+}
@@ -34,9 +34,34 @@ import {
   LockSimple,
   LockSimpleOpen,
   CornersOut,
+  AlignLeft,
+  AlignCenterHorizontal,
+  AlignRight,
+  AlignTop,
+  AlignCenterVertical,
+  AlignBottom,
+  ArrowsHorizontal,
+  ArrowsVertical,
+  BoundingBox,
+  Rows,
+  SelectionSlash,
 } from '@phosphor-icons/react';
 
 import type { ExtractedComponent } from '@/services/visualBuilder/componentExtractor';
+import { hasFlowLayout, paintOrder, type LayoutRect } from '@/services/visualBuilder/autoLayout';
+import {
+  alignElements,
+  createClipboardPayload,
+  distributeElements,
+  getTopLevelSelection,
+  groupElements,
+  inferAutoLayout,
+  pasteClipboardPayload,
+  selectInRect,
+  ungroupElements,
+  type AlignCommand,
+  type DistributeAxis,
+} from '@/services/visualBuilder/canvasCommands';
 
 // ============================================================================
 // Types
@@ -44,7 +69,7 @@ import type { ExtractedComponent } from '@/services/visualBuilder/componentExtra
 
 export interface CanvasElement {
   id: string;
-  type: 'component' | 'text' | 'shape' | 'image' | 'chart' | 'drawing';
+  type: 'component' | 'text' | 'shape' | 'image' | 'chart' | 'drawing' | 'frame';
   x: number;
   y: number;
   width: number;
@@ -55,6 +80,41 @@ export interface CanvasElement {
   visible: boolean;
   content: CanvasElementContent;
   styles?: Record<string, string>;
+  // Frame that contains this element; positions stay in canvas coordinates
+  parentId?: string;
+  // For frames: how children are arranged
+  layout?: AutoLayout;
+  // How the element responds when its frame or the canvas resizes
+  constraints?: LayoutConstraints;
+}
+
+export interface AutoLayout {
+  direction: 'none' | 'horizontal' | 'vertical';
+  gap: number;
+  padding: { top: number; right: number; bottom: number; left: number };
+  // Cross-axis alignment of children
+  align: 'start' | 'center' | 'end';
+  // Main-axis distribution of children
+  justify: 'start' | 'center' | 'end' | 'space-between';
+}
+
+/**
+ * Pin to the start edge (left/top), the end edge (right/bottom), both edges,
+ * the center, or scale proportionally with the parent
+ */
+export type ConstraintPin = 'start' | 'end' | 'stretch' | 'center' | 'scale';
+
+/**
+ * Fixed keeps the element's size, fill takes the free space in an auto
+ * layout frame, hug shrinks an auto layout frame to its contents
+ */
+export type SizingMode = 'fixed' | 'fill' | 'hug';
+
+export interface LayoutConstraints {
+  horizontal: ConstraintPin;
+  vertical: ConstraintPin;
+  widthSizing: SizingMode;
+  heightSizing: SizingMode;
 }
 
 export interface CanvasElementContent {
@@ -80,13 +140,19 @@ export interface CanvasElementContent {
 
 export interface VisualCanvasProps {
   elements: CanvasElement[];
-  selectedId: string | null;
-  onSelect: (id: string | null) => void;
+  selectedIds: string[];
+  onSelectionChange: (ids: string[]) => void;
   onElementsChange: (elements: CanvasElement[]) => void;
   onElementUpdate: (id: string, updates: Partial<CanvasElement>) => void;
   onElementDelete: (id: string) => void;
   canvasWidth?: number;
   canvasHeight?: number;
+  // Show the elements without letting the canvas edit them, e.g. when
+  // previewing the layout at another viewport width
+  readOnly?: boolean;
+  // Clipboard shortcuts; the owner copies interactions along with elements
+  onCopy?: () => void;
+  onPaste?: () => void;
 }
 
 interface CanvasState {
@@ -107,6 +173,18 @@ const MAX_ZOOM = 2;
 const ZOOM_STEP = 0.1;
 const DEFAULT_GRID_SIZE = 20;
 
+// Marquee drags shorter than this are treated as clicks
+const MIN_MARQUEE_SIZE = 3;
+
+const ALIGN_COMMANDS: { command: AlignCommand; label: string; icon: React.ReactNode }[] = [
+  { command: 'left', label: 'Align Left', icon: <AlignLeft size={18} /> },
+  { command: 'center', label: 'Align Center', icon: <AlignCenterHorizontal size={18} /> },
+  { command: 'right', label: 'Align Right', icon: <AlignRight size={18} /> },
+  { command: 'top', label: 'Align Top', icon: <AlignTop size={18} /> },
+  { command: 'middle', label: 'Align Middle', icon: <AlignCenterVertical size={18} /> },
+  { command: 'bottom', label: 'Align Bottom', icon: <AlignBottom size={18} /> },
+];
+
 // ============================================================================
 // Helper Functions
 // ============================================================================
@@ -116,20 +194,36 @@ function snapToGridValue(value: number, gridSize: number, enabled: boolean): num
   return Math.round(value / gridSize) * gridSize;
 }
 
+function generateElementId(prefix: string): string {
+  return `${prefix}-${Date.now()}-${Math.random().toString(36).slice(2, 9)}`;
+}
+
+// Shortcuts must not fire while typing in the inspector or other inputs
+function isEditableTarget(target: EventTarget | null): boolean {
+  return target instanceof HTMLElement &&
+    (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName));
+}
+
 // ============================================================================
 // Canvas Element Renderer
 // ============================================================================
 
 interface CanvasElementRendererProps {
   element: CanvasElement;
+  // Position in paint order, so frames stay behind their children
+  stackIndex: number;
   isSelected: boolean;
-  onSelect: () => void;
+  // Resize handles only show when this is the only selected element
+  showHandles: boolean;
+  onSelect: (additive: boolean) => void;
   zoom: number;
 }
 
 function CanvasElementRenderer({
   element,
+  stackIndex,
   isSelected,
+  showHandles,
   onSelect,
   zoom: _zoom,
 }: CanvasElementRendererProps) {
@@ -213,6 +307,18 @@ function CanvasElementRenderer({
           />
         );
 
+      case 'frame':
+        return (
+          <Box
+            sx={{
+              width: '100%',
+              height: '100%',
+              bgcolor: element.content.fill || 'transparent',
+              border: element.content.fill ? 'none' : '1px dashed #cbd5e1',
+            }}
+          />
+        );
+
       case 'image':
         return (
           <Box
@@ -250,7 +356,7 @@ function CanvasElementRenderer({
     <Box
       onClick={e => {
         e.stopPropagation();
-        if (!element.locked) onSelect();
+        if (!element.locked) onSelect(e.shiftKey);
       }}
       sx={{
         position: 'absolute',
@@ -259,7 +365,7 @@ function CanvasElementRenderer({
         width: element.width,
         height: element.height,
         transform: element.rotation ? `rotate(${element.rotation}deg)` : undefined,
-        zIndex: element.zIndex,
+        zIndex: stackIndex,
         cursor: element.locked ? 'not-allowed' : 'move',
         outline: isSelected ? '2px solid #3b82f6' : 'none',
         outlineOffset: 2,
@@ -273,8 +379,19 @@ function CanvasElementRenderer({
     >
       {renderContent()}
 
+      {element.type === 'frame' && isSelected && (
+        <Typography
+          variant="caption"
+          sx={{ position: 'absolute', top: -20, left: 0, color: '#3b82f6', whiteSpace: 'nowrap' }}
+        >
+          {hasFlowLayout(element)
+            ? `Auto layout · ${element.layout.direction}`
+            : 'Frame'}
+        </Typography>
+      )}
+
       {/* Selection handles */}
-      {isSelected && !element.locked && (
+      {showHandles && !element.locked && (
         <>
           {/* Corner handles */}
           {['nw', 'ne', 'se', 'sw'].map(corner => (
@@ -329,6 +446,7 @@ interface DroppableCanvasProps {
   canvasHeight: number;
   onPan: (deltaX: number, deltaY: number) => void;
   onDeselect: () => void;
+  onMarqueeSelect: (rect: LayoutRect, additive: boolean) => void;
 }
 
 function DroppableCanvas({
@@ -338,6 +456,7 @@ function DroppableCanvas({
   canvasHeight,
   onPan,
   onDeselect,
+  onMarqueeSelect,
 }: DroppableCanvasProps) {
   const { setNodeRef, isOver } = useDroppable({
     id: 'canvas',
@@ -345,6 +464,18 @@ function DroppableCanvas({
 
   const isPanning = useRef(false);
   const lastPanPosition = useRef({ x: 0, y: 0 });
+  const marqueeStart = useRef<{ x: number; y: number } | null>(null);
+  const suppressClick = useRef(false);
+  const [marquee, setMarquee] = useState<LayoutRect | null>(null);
+
+  // Canvas coordinates under the pointer; the bounding box already includes zoom
+  const toCanvasPoint = (e: React.MouseEvent) => {
+    const rect = (e.currentTarget as HTMLElement).getBoundingClientRect();
+    return {
+      x: (e.clientX - rect.left) / canvasState.zoom,
+      y: (e.clientY - rect.top) / canvasState.zoom,
+    };
+  };
 
   const handleMouseDown = (e: React.MouseEvent) => {
     if (e.button === 1 || (e.button === 0 && e.altKey)) {
@@ -352,6 +483,9 @@ function DroppableCanvas({
       isPanning.current = true;
       lastPanPosition.current = { x: e.clientX, y: e.clientY };
       e.preventDefault();
+    } else if (e.button === 0 && e.target === e.currentTarget) {
+      // Drag on empty canvas for marquee selection
+      marqueeStart.current = toCanvasPoint(e);
     }
   };
 
@@ -361,17 +495,40 @@ function DroppableCanvas({
       const deltaY = e.clientY - lastPanPosition.current.y;
       onPan(deltaX, deltaY);
       lastPanPosition.current = { x: e.clientX, y: e.clientY };
+    } else if (marqueeStart.current) {
+      const start = marqueeStart.current;
+      const point = toCanvasPoint(e);
+      setMarquee({
+        x: Math.min(start.x, point.x),
+        y: Math.min(start.y, point.y),
+        width: Math.abs(point.x - start.x),
+        height: Math.abs(point.y - start.y),
+      });
     }
   };
 
-  const handleMouseUp = () => {
+  const handleMouseUp = (e: React.MouseEvent) => {
     isPanning.current = false;
+    if (marquee && Math.max(marquee.width, marquee.height) >= MIN_MARQUEE_SIZE) {
+      onMarqueeSelect(marquee, e.shiftKey);
+      suppressClick.current = true;
+    }
+    marqueeStart.current = null;
+    setMarquee(null);
+  };
+
+  const handleClick = () => {
+    if (suppressClick.current) {
+      suppressClick.current = false;
+      return;
+    }
+    onDeselect();
   };
 
   return (
     <Box
       ref={setNodeRef}
-      onClick={onDeselect}
+      onClick={handleClick}
       onMouseDown={handleMouseDown}
       onMouseMove={handleMouseMove}
       onMouseUp={handleMouseUp}
@@ -408,6 +565,23 @@ function DroppableCanvas({
       )}
 
       {children}
+
+      {/* Marquee selection */}
+      {marquee && (
+        <Box
+          sx={{
+            position: 'absolute',
+            left: marquee.x,
+            top: marquee.y,
+            width: marquee.width,
+            height: marquee.height,
+            border: '1px solid #3b82f6',
+            bgcolor: 'rgba(59, 130, 246, 0.08)',
+            pointerEvents: 'none',
+            zIndex: 100000,
+          }}
+        />
+      )}
     </Box>
   );
 }
@@ -419,6 +593,8 @@ function DroppableCanvas({
 interface CanvasToolbarProps {
   canvasState: CanvasState;
   selectedElement: CanvasElement | null;
+  // Number of selected elements; multi-selection tools show above one
+  selectionCount: number;
   onZoomIn: () => void;
   onZoomOut: () => void;
   onZoomChange: (zoom: number) => void;
@@ -431,11 +607,17 @@ interface CanvasToolbarProps {
   onSendBackward: () => void;
   onToggleLock: () => void;
   onToggleVisibility: () => void;
+  onAlign: (command: AlignCommand) => void;
+  onDistribute: (axis: DistributeAxis) => void;
+  onGroup: () => void;
+  onWrapInAutoLayout: () => void;
+  onUngroup: () => void;
 }
 
 function CanvasToolbar({
   canvasState,
   selectedElement,
+  selectionCount,
   onZoomIn,
   onZoomOut,
   onZoomChange,
@@ -448,6 +630,11 @@ function CanvasToolbar({
   onSendBackward,
   onToggleLock,
   onToggleVisibility,
+  onAlign,
+  onDistribute,
+  onGroup,
+  onWrapInAutoLayout,
+  onUngroup,
 }: CanvasToolbarProps) {
   return (
     <Box
@@ -535,6 +722,65 @@ function CanvasToolbar({
               {selectedElement.visible ? <Eye size={18} /> : <EyeSlash size={18} />}
             </IconButton>
           </Tooltip>
+          {selectedElement.type === 'frame' && (
+            <Tooltip title="Ungroup (Ctrl+Shift+G)">
+              <IconButton size="small" onClick={onUngroup}>
+                <SelectionSlash size={18} />
+              </IconButton>
+            </Tooltip>
+          )}
+          <Tooltip title="Duplicate">
+            <IconButton size="small" onClick={onDuplicateElement}>
+              <Copy size={18} />
+            </IconButton>
+          </Tooltip>
+          <Tooltip title="Delete">
+            <IconButton size="small" onClick={onDeleteElement} color="error">
+              <Trash size={18} />
+            </IconButton>
+          </Tooltip>
+        </>
+      )}
+
+      {selectionCount > 1 && (
+        <>
+          <Box sx={{ width: 1, height: 24, bgcolor: 'divider' }} />
+
+          {/* Multi-selection controls */}
+          <Typography variant="caption" color="text.secondary" sx={{ mx: 0.5 }}>
+            {selectionCount} selected
+          </Typography>
+          {ALIGN_COMMANDS.map(({ command, label, icon }) => (
+            <Tooltip key={command} title={label}>
+              <IconButton size="small" onClick={() => onAlign(command)}>
+                {icon}
+              </IconButton>
+            </Tooltip>
+          ))}
+          <Tooltip title="Distribute Horizontally">
+            <span>
+              <IconButton size="small" onClick={() => onDistribute('horizontal')} disabled={selectionCount < 3}>
+                <ArrowsHorizontal size={18} />
+              </IconButton>
+            </span>
+          </Tooltip>
+          <Tooltip title="Distribute Vertically">
+            <span>
+              <IconButton size="small" onClick={() => onDistribute('vertical')} disabled={selectionCount < 3}>
+                <ArrowsVertical size={18} />
+              </IconButton>
+            </span>
+          </Tooltip>
+          <Tooltip title="Group (Ctrl+G)">
+            <IconButton size="small" onClick={onGroup}>
+              <BoundingBox size={18} />
+            </IconButton>
+          </Tooltip>
+          <Tooltip title="Wrap in Auto Layout (Shift+A)">
+            <IconButton size="small" onClick={onWrapInAutoLayout}>
+              <Rows size={18} />
+            </IconButton>
+          </Tooltip>
           <Tooltip title="Duplicate">
             <IconButton size="small" onClick={onDuplicateElement}>
               <Copy size={18} />
@@ -557,13 +803,16 @@ function CanvasToolbar({
 
 export default function VisualCanvas({
   elements,
-  selectedId,
-  onSelect,
+  selectedIds,
+  onSelectionChange,
   onElementsChange,
   onElementUpdate,
   onElementDelete,
   canvasWidth = 1200,
   canvasHeight = 800,
+  readOnly = false,
+  onCopy,
+  onPaste,
 }: VisualCanvasProps) {
   const [canvasState, setCanvasState] = useState<CanvasState>({
     zoom: 1,
@@ -591,8 +840,8 @@ export default function VisualCanvas({
     })
   );
 
-  const selectedElement = selectedId
-    ? elements.find(el => el.id === selectedId) || null
+  const selectedElement = selectedIds.length === 1
+    ? elements.find(el => el.id === selectedIds[0]) || null
     : null;
 
   // Zoom handlers
@@ -636,25 +885,64 @@ export default function VisualCanvas({
 
   // Element handlers
   const handleDeleteElement = useCallback(() => {
-    if (selectedId) {
-      onElementDelete(selectedId);
-      onSelect(null);
+    const deletable = getTopLevelSelection(elements, selectedIds)
+      .filter(id => !elements.find(el => el.id === id)?.locked);
+    if (deletable.length > 0) {
+      deletable.forEach(id => onElementDelete(id));
+      onSelectionChange([]);
     }
-  }, [selectedId, onElementDelete, onSelect]);
+  }, [elements, selectedIds, onElementDelete, onSelectionChange]);
 
+  // Duplicates carry frame contents along, but not interactions
   const handleDuplicateElement = useCallback(() => {
-    if (selectedElement) {
-      const newElement: CanvasElement = {
-        ...selectedElement,
-        id: `${selectedElement.id}-copy-${Date.now()}`,
-        x: selectedElement.x + 20,
-        y: selectedElement.y + 20,
-        zIndex: Math.max(...elements.map(el => el.zIndex)) + 1,
-      };
-      onElementsChange([...elements, newElement]);
-      onSelect(newElement.id);
+    if (selectedIds.length === 0) return;
+    const copies = pasteClipboardPayload(
+      createClipboardPayload(elements, new Map(), selectedIds),
+      elements,
+      () => generateElementId('element')
+    );
+    onElementsChange([...elements, ...copies.elements]);
+    onSelectionChange(copies.ids);
+  }, [selectedIds, elements, onElementsChange, onSelectionChange]);
+
+  const handleSelect = useCallback((id: string, additive: boolean) => {
+    if (!additive) {
+      onSelectionChange([id]);
+    } else {
+      onSelectionChange(
+        selectedIds.includes(id) ? selectedIds.filter(selected => selected !== id) : [...selectedIds, id]
+      );
     }
-  }, [selectedElement, elements, onElementsChange, onSelect]);
+  }, [selectedIds, onSelectionChange]);
+
+  const handleMarqueeSelect = useCallback((rect: LayoutRect, additive: boolean) => {
+    const hits = selectInRect(elements, rect);
+    onSelectionChange(additive ? [...new Set([...selectedIds, ...hits])] : hits);
+  }, [elements, selectedIds, onSelectionChange]);
+
+  const handleAlign = useCallback((command: AlignCommand) => {
+    onElementsChange(alignElements(elements, selectedIds, command));
+  }, [elements, selectedIds, onElementsChange]);
+
+  const handleDistribute = useCallback((axis: DistributeAxis) => {
+    onElementsChange(distributeElements(elements, selectedIds, axis));
+  }, [elements, selectedIds, onElementsChange]);
+
+  const handleGroup = useCallback((autoLayout: boolean) => {
+    const ids = getTopLevelSelection(elements, selectedIds);
+    if (ids.length === 0) return;
+    const frameId = generateElementId('frame');
+    const layout = autoLayout ? inferAutoLayout(elements, ids) : undefined;
+    onElementsChange(groupElements(elements, ids, frameId, layout));
+    onSelectionChange([frameId]);
+  }, [elements, selectedIds, onElementsChange, onSelectionChange]);
+
+  const handleUngroup = useCallback(() => {
+    if (selectedElement?.type !== 'frame') return;
+    const childIds = elements.filter(el => el.parentId === selectedElement.id).map(el => el.id);
+    onElementsChange(ungroupElements(elements, selectedElement.id));
+    onSelectionChange(childIds);
+  }, [elements, selectedElement, onElementsChange, onSelectionChange]);
 
   const handleBringForward = useCallback(() => {
     if (selectedElement) {
@@ -691,7 +979,7 @@ export default function VisualCanvas({
     const { active, over, delta } = event;
     setActiveDragId(null);
 
-    if (!over) return;
+    if (!over || readOnly) return;
 
     // Handle dropping from component library
     if (active.data.current?.type === 'component' && over.id === 'canvas') {
@@ -713,7 +1001,7 @@ export default function VisualCanvas({
         },
       };
       onElementsChange([...elements, newElement]);
-      onSelect(newElement.id);
+      onSelectionChange([newElement.id]);
       return;
     }
 
@@ -732,25 +1020,54 @@ export default function VisualCanvas({
       );
       onElementUpdate(existingElement.id, { x: newX, y: newY });
     }
-  }, [elements, canvasState, onElementsChange, onElementUpdate, onSelect]);
+  }, [elements, canvasState, readOnly, onElementsChange, onElementUpdate, onSelectionChange]);
 
   // Keyboard shortcuts
   useEffect(() => {
+    if (readOnly) return;
+
     const handleKeyDown = (e: KeyboardEvent) => {
+      if (isEditableTarget(e.target)) return;
+      const mod = e.ctrlKey || e.metaKey;
+      const key = e.key.toLowerCase();
+
       if (e.key === 'Delete' || e.key === 'Backspace') {
-        if (selectedId && !selectedElement?.locked) {
-          handleDeleteElement();
-        }
-      }
-      if (e.key === 'd' && (e.ctrlKey || e.metaKey)) {
+        handleDeleteElement();
+      } else if (e.key === 'Escape') {
+        onSelectionChange([]);
+      } else if (mod && key === 'd') {
         e.preventDefault();
         handleDuplicateElement();
+      } else if (mod && key === 'a') {
+        e.preventDefault();
+        onSelectionChange(elements.filter(el => !el.parentId && el.visible && !el.locked).map(el => el.id));
+      } else if (mod && key === 'g') {
+        e.preventDefault();
+        if (e.shiftKey) handleUngroup();
+        else handleGroup(false);
+      } else if (e.shiftKey && !mod && key === 'a') {
+        handleGroup(true);
+      } else if (mod && key === 'c' && selectedIds.length > 0) {
+        onCopy?.();
+      } else if (mod && key === 'v') {
+        onPaste?.();
       }
     };
 
     window.addEventListener('keydown', handleKeyDown);
     return () => window.removeEventListener('keydown', handleKeyDown);
-  }, [selectedId, selectedElement, handleDeleteElement, handleDuplicateElement]);
+  }, [
+    readOnly,
+    elements,
+    selectedIds,
+    handleDeleteElement,
+    handleDuplicateElement,
+    handleGroup,
+    handleUngroup,
+    onSelectionChange,
+    onCopy,
+    onPaste,
+  ]);
 
   // Mouse wheel zoom
   useEffect(() => {
@@ -776,7 +1093,8 @@ export default function VisualCanvas({
     <Box sx={{ height: '100%', display: 'flex', flexDirection: 'column' }}>
       <CanvasToolbar
         canvasState={canvasState}
-        selectedElement={selectedElement}
+        selectedElement={readOnly ? null : selectedElement}
+        selectionCount={readOnly ? 0 : selectedIds.length}
         onZoomIn={handleZoomIn}
         onZoomOut={handleZoomOut}
         onZoomChange={handleZoomChange}
@@ -789,6 +1107,11 @@ export default function VisualCanvas({
         onSendBackward={handleSendBackward}
         onToggleLock={handleToggleLock}
         onToggleVisibility={handleToggleVisibility}
+        onAlign={handleAlign}
+        onDistribute={handleDistribute}
+        onGroup={() => handleGroup(false)}
+        onWrapInAutoLayout={() => handleGroup(true)}
+        onUngroup={handleUngroup}
       />
 
       <Box
@@ -813,14 +1136,17 @@ export default function VisualCanvas({
             canvasWidth={canvasWidth}
             canvasHeight={canvasHeight}
             onPan={handlePan}
-            onDeselect={() => onSelect(null)}
+            onDeselect={() => onSelectionChange([])}
+            onMarqueeSelect={handleMarqueeSelect}
           >
-            {elements.map(element => (
+            {paintOrder(elements).map((element, index) => (
               <CanvasElementRenderer
                 key={element.id}
                 element={element}
-                isSelected={selectedId === element.id}
-                onSelect={() => onSelect(element.id)}
+                stackIndex={index + 1}
+                isSelected={selectedIds.includes(element.id)}
+                showHandles={selectedIds.length === 1 && selectedIds[0] === element.id}
+                onSelect={additive => handleSelect(element.id, additive)}
                 zoom={canvasState.zoom}
               />
             ))}
@@ -9,19 +9,37 @@ export { default as ComponentLibrary } from './ComponentLibrary';
 export { default as PropertyInspector } from './PropertyInspector';
 export { default as InteractionEditor } from './InteractionEditor';
 export { default as ExportPreview } from './ExportPreview';
+export { default as VariablesPanel } from './VariablesPanel';
+export { default as LayersPanel } from './LayersPanel';
+export { default as ProjectVersionsDialog } from './ProjectVersionsDialog';
 
 // Types
-export type { CanvasElement, CanvasElementContent, VisualCanvasProps } from './VisualCanvas';
+export type {
+  CanvasElement,
+  CanvasElementContent,
+  VisualCanvasProps,
+  AutoLayout,
+  ConstraintPin,
+  LayoutConstraints,
+  SizingMode,
+} from './VisualCanvas';
 export type { ComponentLibraryProps } from './ComponentLibrary';
 export type { PropertyInspectorProps } from './PropertyInspector';
 export type {
   InteractionEditorProps,
   Interaction,
   InteractionTrigger,
+  TriggerConfig,
   InteractionAction,
   InteractionConfig,
+  InteractionCondition,
+  InteractionStep,
+  PrototypeVariable,
 } from './InteractionEditor';
 export type { ExportPreviewProps } from './ExportPreview';
+export type { VariablesPanelProps } from './VariablesPanel';
+export type { LayersPanelProps } from './LayersPanel';
+export type { ProjectVersionsDialogProps } from './ProjectVersionsDialog';
 
 // Canvas Elements
 export * from './elements';
@@ -1 +1,2 @@
 export { useDebounce } from './useDebounce';
+export { useAnchoredPins } from './useAnchoredPins';
@@ -0,0 +1,92 @@
+import { useState, useEffect, useMemo } from 'react';
+import {
+  getFrameDocument,
+  resolveCommentAnchor,
+  type CommentAnchor,
+  type ResolvedAnchor,
+} from '@/services/commentAnchorService';
+
+interface AnchoredPin {
+  id: string;
+  anchor?: CommentAnchor | null;
+}
+
+const NO_POSITIONS = new Map<string, ResolvedAnchor>();
+
+/**
+ * Resolve element-anchored pins against the document in a preview frame,
+ * again whenever the frame loads, scrolls, resizes or its content changes.
+ * Pins without an anchor, and every pin when the frame cannot be read,
+ * are left out so callers fall back to the stored position.
+ */
+export function useAnchoredPins(
+  iframe: HTMLIFrameElement | null,
+  pins: AnchoredPin[]
+): Map<string, ResolvedAnchor> {
+  // Kept with the frame they were resolved in, so a replaced frame never shows stale positions
+  const [resolved, setResolved] = useState<{ iframe: HTMLIFrameElement; positions: Map<string, ResolvedAnchor> } | null>(null);
+
+  // Callers filter pins on every render; only re-subscribe when the anchors change
+  const anchorsKey = JSON.stringify(pins.filter((p) => p.anchor).map((p) => [p.id, p.anchor]));
+  const anchors = useMemo(
+    () => new Map<string, CommentAnchor>(JSON.parse(anchorsKey)),
+    [anchorsKey]
+  );
+
+  useEffect(() => {
+    if (!iframe) return;
+
+    let frame = 0;
+    let observer: MutationObserver | null = null;
+    let frameWindow: Window | null = null;
+
+    const update = () => {
+      cancelAnimationFrame(frame);
+      frame = requestAnimationFrame(() => {
+        const doc = getFrameDocument(iframe);
+        const next = new Map<string, ResolvedAnchor>();
+        if (doc?.body) {
+          anchors.forEach((anchor, id) => next.set(id, resolveCommentAnchor(doc, anchor)));
+        }
+        setResolved({ iframe, positions: next });
+      });
+    };
+
+    const detach = () => {
+      observer?.disconnect();
+      frameWindow?.removeEventListener('scroll', update);
+      frameWindow?.removeEventListener('resize', update);
+      observer = null;
+      frameWindow = null;
+    };
+
+    // The frame's document is replaced on every load
+    const attach = () => {
+      detach();
+      const doc = getFrameDocument(iframe);
+      if (!doc?.body || !iframe.contentWindow) {
+        update();
+        return;
+      }
+      frameWindow = iframe.contentWindow;
+      frameWindow.addEventListener('scroll', update, { passive: true });
+      frameWindow.addEventListener('resize', update);
+      observer = new MutationObserver(update);
+      observer.observe(doc.body, { childList: true, subtree: true, attributes: true, characterData: true });
+      update();
+    };
+
+    iframe.addEventListener('load', attach);
+    window.addEventListener('resize', update);
+    attach();
+
+    return () => {
+      cancelAnimationFrame(frame);
+      detach();
+      iframe.removeEventListener('load', attach);
+      window.removeEventListener('resize', update);
+    };
+  }, [iframe, anchors]);
+
+  return resolved && resolved.iframe === iframe ? resolved.positions : NO_POSITIONS;
+}
@@ -20,6 +20,7 @@ import Fade from '@mui/material/Fade';
 import {
   House,
   Flask,
+  FlowArrow,
   Folder,
   Browser,
   SquaresFour,
@@ -52,6 +53,7 @@ interface NavItem {
 const navItems: NavItem[] = [
   { label: 'Home', path: '/', icon: <House size={20} /> },
   { label: 'Prototypes', path: '/prototypes', icon: <Flask size={20} /> },
+  { label: 'Flows', path: '/flows', icon: <FlowArrow size={20} /> },
   {
     label: 'Repository',
     icon: <Folder size={20} />,
@@ -7,6 +7,7 @@ import Divider from '@mui/material/Divider';
 import {
   House,
   Flask,
+  FlowArrow,
   Folder,
   Brain,
   ChartLine,
@@ -26,6 +27,7 @@ interface SidebarItem {
 const sidebarItems: SidebarItem[] = [
   { icon: <House size={20} />, label: 'Home', path: '/' },
   { icon: <Flask size={20} />, label: 'Prototypes', path: '/prototypes' },
+  { icon: <FlowArrow size={20} />, label: 'Flows', path: '/flows' },
   { icon: <Folder size={20} />, label: 'Repository', path: '/repository/screens' },
   { icon: <Brain size={20} />, label: 'Context', path: '/context' },
   { icon: <ChartLine size={20} />, label: 'Insights', path: '/insights' },
@@ -0,0 +1,350 @@
+/**
+ * Flows Page
+ * Multi-screen prototypes: lists flows and edits one as a navigation graph,
+ * with a preview and a single share link that opens at the start screen.
+ */
+
+import { useEffect, useMemo, useState } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
+import Box from '@mui/material/Box';
+import Grid from '@mui/material/Grid';
+import Typography from '@mui/material/Typography';
+import IconButton from '@mui/material/IconButton';
+import Tooltip from '@mui/material/Tooltip';
+import Skeleton from '@mui/material/Skeleton';
+import { Plus, Trash, Play, ShareNetwork, FloppyDisk, ArrowLeft, Copy, FlowArrow } from '@phosphor-icons/react';
+import {
+  Button,
+  Card,
+  CardContent,
+  Chip,
+  TextField,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+} from '@/components/ui';
+import { EmptyState, PageHeader, ConfirmDialog } from '@/components';
+import { FlowGraphEditor, FlowPlayer } from '@/components/Flow';
+import { useSnackbar } from '@/components/SnackbarProvider';
+import {
+  createFlow,
+  deleteFlow,
+  getFlow,
+  getFlows,
+  getFlowScreens,
+  getNodeScreens,
+  saveFlow,
+  validateFlow,
+  type FlowGraph,
+  type FlowScreen,
+  type PrototypeFlow,
+} from '@/services/flowService';
+import { createFlowShareLink } from '@/services/sharingService';
+
+export function Flows() {
+  const { flowId } = useParams<{ flowId: string }>();
+  return flowId ? <FlowEditor flowId={flowId} /> : <FlowList />;
+}
+
+function FlowList() {
+  const navigate = useNavigate();
+  const { showError } = useSnackbar();
+  const [flows, setFlows] = useState<PrototypeFlow[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [createOpen, setCreateOpen] = useState(false);
+  const [newName, setNewName] = useState('');
+  const [creating, setCreating] = useState(false);
+  const [deleteTarget, setDeleteTarget] = useState<PrototypeFlow | null>(null);
+
+  useEffect(() => {
+    getFlows().then((data) => {
+      setFlows(data);
+      setIsLoading(false);
+    });
+  }, []);
+
+  const handleCreate = async () => {
+    if (!newName.trim()) return;
+    setCreating(true);
+    try {
+      const flow = await createFlow(newName.trim());
+      navigate(`/flows/${flow.id}`);
+    } catch (error) {
+      showError(error instanceof Error ? error.message : 'Failed to create flow');
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!deleteTarget) return;
+    if (await deleteFlow(deleteTarget.id)) {
+      setFlows((prev) => prev.filter((f) => f.id !== deleteTarget.id));
+    } else {
+      showError('Failed to delete flow');
+    }
+    setDeleteTarget(null);
+  };
+
+  return (
+    <Box>
+      <PageHeader
+        title="Flows"
+        subtitle="Link generated screens into clickable multi-screen prototypes"
+        actions={
+          <Button variant="contained" startIcon={<Plus size={18} />} onClick={() => setCreateOpen(true)}>
+            New Flow
+          </Button>
+        }
+      />
+
+      {isLoading ? (
+        <Grid container spacing={2}>
+          {[1, 2, 3, 4].map((i) => (
+            <Grid item xs={12} sm={6} md={4} lg={3} key={i}>
+              <Skeleton variant="rounded" height={120} />
+            </Grid>
+          ))}
+        </Grid>
+      ) : flows.length === 0 ? (
+        <EmptyState
+          icon={<FlowArrow size={64} />}
+          title="No flows yet"
+          description="Create a flow to link variants from your prototypes into one navigable prototype"
+          action={{ label: 'New Flow', onClick: () => setCreateOpen(true) }}
+        />
+      ) : (
+        <Grid container spacing={2}>
+          {flows.map((flow) => (
+            <Grid item xs={12} sm={6} md={4} lg={3} key={flow.id}>
+              <Card sx={{ cursor: 'pointer', height: '100%' }} onClick={() => navigate(`/flows/${flow.id}`)}>
+                <CardContent>
+                  <Box sx={{ display: 'flex', alignItems: 'flex-start', justifyContent: 'space-between' }}>
+                    <Typography variant="subtitle1" fontWeight={600} noWrap>
+                      {flow.name}
+                    </Typography>
+                    <Tooltip title="Delete flow">
+                      <IconButton
+                        size="small"
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          setDeleteTarget(flow);
+                        }}
+                      >
+                        <Trash size={16} />
+                      </IconButton>
+                    </Tooltip>
+                  </Box>
+                  {flow.description && (
+                    <Typography variant="body2" color="text.secondary" noWrap>
+                      {flow.description}
+                    </Typography>
+                  )}
+                  <Box sx={{ display: 'flex', gap: 1, mt: 1.5 }}>
+                    <Chip label={`${flow.nodes.length} screen(s)`} size="small" />
+                    <Chip label={`${flow.hotspots.length} hotspot(s)`} size="small" />
+                  </Box>
+                  <Typography variant="caption" color="text.secondary" sx={{ display: 'block', mt: 1.5 }}>
+                    Updated {new Date(flow.updated_at).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' })}
+                  </Typography>
+                </CardContent>
+              </Card>
+            </Grid>
+          ))}
+        </Grid>
+      )}
+
+      <Dialog open={createOpen} onClose={() => setCreateOpen(false)} maxWidth="xs" fullWidth>
+        <DialogTitle>New Flow</DialogTitle>
+        <DialogContent>
+          <TextField
+            autoFocus
+            fullWidth
+            label="Flow name"
+            value={newName}
+            onChange={(e) => setNewName(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && handleCreate()}
+            sx={{ mt: 1 }}
+          />
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setCreateOpen(false)}>Cancel</Button>
+          <Button variant="contained" onClick={handleCreate} disabled={!newName.trim() || creating}>
+            Create
+          </Button>
+        </DialogActions>
+      </Dialog>
+
+      <ConfirmDialog
+        open={Boolean(deleteTarget)}
+        onClose={() => setDeleteTarget(null)}
+        onConfirm={handleDelete}
+        title="Delete flow?"
+        content={`"${deleteTarget?.name}" and its share links will be deleted. The screens in it are not affected.`}
+        confirmText="Delete"
+        confirmColor="error"
+      />
+    </Box>
+  );
+}
+
+function FlowEditor({ flowId }: { flowId: string }) {
+  const navigate = useNavigate();
+  const { showSuccess, showError } = useSnackbar();
+  const [flow, setFlow] = useState<PrototypeFlow | null>(null);
+  const [graph, setGraph] = useState<FlowGraph>({ start_node_id: null, nodes: [], hotspots: [] });
+  const [screens, setScreens] = useState<FlowScreen[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isDirty, setIsDirty] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [previewOpen, setPreviewOpen] = useState(false);
+  const [shareUrl, setShareUrl] = useState<string | null>(null);
+
+  useEffect(() => {
+    const load = async () => {
+      const [loaded, available] = await Promise.all([getFlow(flowId), getFlowScreens()]);
+      setFlow(loaded);
+      setScreens(available);
+      if (loaded) {
+        setGraph({ start_node_id: loaded.start_node_id, nodes: loaded.nodes, hotspots: loaded.hotspots });
+      }
+      setIsLoading(false);
+    };
+    load();
+  }, [flowId]);
+
+  const nodeScreens = useMemo(() => getNodeScreens(graph.nodes, screens), [graph.nodes, screens]);
+
+  const handleChange = (next: FlowGraph) => {
+    setGraph(next);
+    setIsDirty(true);
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    const saved = await saveFlow(flowId, graph);
+    setSaving(false);
+    if (saved) {
+      setIsDirty(false);
+      showSuccess('Flow saved');
+    } else {
+      showError('Failed to save flow');
+    }
+    return saved;
+  };
+
+  const handleShare = async () => {
+    if (validateFlow(graph).some((issue) => issue.type === 'no-start' || issue.type === 'no-screens')) {
+      showError('Add screens and choose a start screen before sharing');
+      return;
+    }
+    // The share link reads the saved flow
+    if (isDirty && !(await handleSave())) return;
+
+    try {
+      const link = await createFlowShareLink(flowId);
+      setShareUrl(link.shareUrl);
+    } catch (error) {
+      showError(error instanceof Error ? error.message : 'Failed to create share link');
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <Box>
+        <Skeleton variant="text" width={240} height={48} />
+        <Skeleton variant="rounded" height={520} sx={{ mt: 2 }} />
+      </Box>
+    );
+  }
+
+  if (!flow) {
+    return (
+      <EmptyState
+        title="Flow not found"
+        description="It may have been deleted"
+        action={{ label: 'Back to Flows', onClick: () => navigate('/flows') }}
+      />
+    );
+  }
+
+  return (
+    <Box sx={{ display: 'flex', flexDirection: 'column', height: 'calc(100vh - 120px)' }}>
+      <PageHeader
+        title={flow.name}
+        subtitle={`${graph.nodes.length} screen(s) · ${graph.hotspots.length} hotspot(s)`}
+        actions={
+          <>
+            <Button startIcon={<ArrowLeft size={18} />} onClick={() => navigate('/flows')}>
+              Flows
+            </Button>
+            <Button
+              variant="outlined"
+              startIcon={<Play size={18} />}
+              disabled={!graph.start_node_id}
+              onClick={() => setPreviewOpen(true)}
+            >
+              Preview
+            </Button>
+            <Button variant="outlined" startIcon={<ShareNetwork size={18} />} onClick={handleShare}>
+              Share
+            </Button>
+            <Button
+              variant="contained"
+              startIcon={<FloppyDisk size={18} />}
+              disabled={!isDirty || saving}
+              onClick={handleSave}
+            >
+              Save
+            </Button>
+          </>
+        }
+      />
+
+      <Box sx={{ flex: 1, minHeight: 0 }}>
+        <FlowGraphEditor graph={graph} onChange={handleChange} availableScreens={screens} nodeScreens={nodeScreens} />
+      </Box>
+
+      <Dialog open={previewOpen} onClose={() => setPreviewOpen(false)} maxWidth="lg" fullWidth>
+        <DialogTitle>{flow.name}</DialogTitle>
+        <DialogContent sx={{ height: '75vh', p: 0 }}>
+          {previewOpen && <FlowPlayer flowId={flowId} graph={graph} screens={nodeScreens} />}
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={Boolean(shareUrl)} onClose={() => setShareUrl(null)} maxWidth="sm" fullWidth>
+        <DialogTitle>Share Flow</DialogTitle>
+        <DialogContent>
+          <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+            Viewers start at the start screen and follow the hotspots from there.
+          </Typography>
+          <TextField
+            fullWidth
+            size="small"
+            value={shareUrl || ''}
+            InputProps={{
+              readOnly: true,
+              endAdornment: (
+                <Tooltip title="Copy link">
+                  <IconButton
+                    size="small"
+                    onClick={() => {
+                      navigator.clipboard.writeText(shareUrl || '');
+                      showSuccess('Link copied');
+                    }}
+                  >
+                    <Copy size={16} />
+                  </IconButton>
+                </Tooltip>
+              ),
+            }}
+          />
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setShareUrl(null)}>Done</Button>
+        </DialogActions>
+      </Dialog>
+    </Box>
+  );
+}
@@ -1,4 +1,4 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useMemo } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
 import Box from '@mui/material/Box';
 import Grid from '@mui/material/Grid';
@@ -13,6 +13,10 @@ import LinearProgress from '@mui/material/LinearProgress';
 import CircularProgress from '@mui/material/CircularProgress';
 import Avatar from '@mui/material/Avatar';
 import Tooltip from '@mui/material/Tooltip';
+import Select from '@mui/material/Select';
+import MenuItem from '@mui/material/MenuItem';
+import ToggleButton from '@mui/material/ToggleButton';
+import ToggleButtonGroup from '@mui/material/ToggleButtonGroup';
 import {
   Eye,
   Trophy,
@@ -23,10 +27,13 @@ import {
   Users,
   Clock,
   EnvelopeSimple,
+  ListChecks,
+  CursorClick,
 } from '@phosphor-icons/react';
 import { Card, CardContent, Button, Chip } from '@/components/ui';
 import { useThemeStore } from '@/store/themeStore';
 import { PageHeader } from '@/components';
+import { InteractionHeatmap, type HeatmapMode } from '@/components/Heatmap';
 import {
   getProjectInsights,
   getVariantInsights,
@@ -37,6 +44,21 @@ import {
   type VariantDetailInsight,
   type Viewer,
 } from '@/services/feedbackInsightsService';
+import {
+  getSessionUsabilityTasks,
+  getUsabilityResults,
+  pickUsabilityWinner,
+  summarizeUsabilityResults,
+  type UsabilityVariantSummary,
+} from '@/services/usabilityTestService';
+import {
+  binInteractionEvents,
+  getInteractionEvents,
+  summarizeScrollDepth,
+  type InteractionEventsResult,
+} from '@/services/interactionAnalyticsService';
+import { getSharesForSession, type ShareWithViews } from '@/services/sharingService';
+import { getVariants, getVariantHtmlContent } from '@/services/variantCodeService';
 
 const formatTime = (seconds: number) => {
   const mins = Math.floor(seconds / 60);
@@ -68,6 +90,275 @@ const getInitials = (name: string) => {
     .slice(0, 2);
 };
 
+const formatTaskTime = (ms: number) => (ms > 0 ? formatTime(Math.round(ms / 1000)) : '-');
+
+const formatPercent = (rate: number) => `${Math.round(rate * 100)}%`;
+
+// Usability test results, rolled up per variant
+function UsabilityResultsSection({ projectId, variants }: { projectId: string; variants: VariantInsight[] }) {
+  const { config } = useThemeStore();
+  const [summaries, setSummaries] = useState<UsabilityVariantSummary[]>([]);
+  const [taskPrompts, setTaskPrompts] = useState<Map<string, string>>(new Map());
+
+  useEffect(() => {
+    let cancelled = false;
+    Promise.all([getUsabilityResults(projectId), getSessionUsabilityTasks(projectId)]).then(([results, tasks]) => {
+      if (cancelled) return;
+      setSummaries(summarizeUsabilityResults(results));
+      setTaskPrompts(new Map(tasks.map((task) => [task.id, task.prompt])));
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [projectId]);
+
+  if (summaries.length === 0) return null;
+
+  const winner = pickUsabilityWinner(summaries);
+  const variantName = (index: number) => {
+    const variant = variants.find((v) => v.variantIndex === index);
+    return variant?.title || variant?.label || `Variant ${String.fromCharCode(64 + index)}`;
+  };
+  const taskIds = [...new Set(summaries.flatMap((s) => s.tasks.map((t) => t.taskId)))];
+
+  return (
+    <Box sx={{ mt: 4 }}>
+      <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, mb: 0.5 }}>
+        <ListChecks size={20} />
+        <Typography variant="h6" fontWeight={600}>
+          Usability test
+        </Typography>
+      </Box>
+      <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+        {winner !== null
+          ? `${variantName(winner)} has the highest task success rate.`
+          : 'Not enough participants per variant to call a winner yet.'}{' '}
+        Time on task counts successful attempts only.
+      </Typography>
+
+      <TableContainer component={Card} sx={{ border: 'none', mb: 3 }}>
+        <Table>
+          <TableHead>
+            <TableRow sx={{ backgroundColor: config.colors.bgSecondary }}>
+              <TableCell sx={{ fontWeight: 600 }}>Variant</TableCell>
+              <TableCell sx={{ fontWeight: 600 }} align="center">Participants</TableCell>
+              <TableCell sx={{ fontWeight: 600 }} align="center">Success rate</TableCell>
+              <TableCell sx={{ fontWeight: 600 }} align="center">Median time on task</TableCell>
+              <TableCell sx={{ fontWeight: 600 }} align="center">Avg misclicks</TableCell>
+              <TableCell sx={{ fontWeight: 600 }} align="right">Avg ease (1-5)</TableCell>
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {summaries.map((summary) => (
+              <TableRow key={summary.variantIndex}>
+                <TableCell>
+                  <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+                    {variantName(summary.variantIndex)}
+                    {winner === summary.variantIndex && <Trophy size={16} weight="fill" color="#ffc107" />}
+                  </Box>
+                </TableCell>
+                <TableCell align="center">{summary.participants}</TableCell>
+                <TableCell align="center">
+                  <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+                    <LinearProgress
+                      variant="determinate"
+                      value={summary.successRate * 100}
+                      sx={{ flex: 1, height: 6, borderRadius: 3 }}
+                    />
+                    <Typography variant="body2">{formatPercent(summary.successRate)}</Typography>
+                  </Box>
+                </TableCell>
+                <TableCell align="center">{formatTaskTime(summary.medianDurationMs)}</TableCell>
+                <TableCell align="center">{summary.avgMisclicks.toFixed(1)}</TableCell>
+                <TableCell align="right">{summary.avgRating !== null ? summary.avgRating.toFixed(1) : '-'}</TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </TableContainer>
+
+      {/* Per task: success rate and median time for each variant */}
+      <TableContainer component={Card} sx={{ border: 'none' }}>
+        <Table size="small">
+          <TableHead>
+            <TableRow sx={{ backgroundColor: config.colors.bgSecondary }}>
+              <TableCell sx={{ fontWeight: 600 }}>Task</TableCell>
+              {summaries.map((summary) => (
+                <TableCell key={summary.variantIndex} sx={{ fontWeight: 600 }} align="center">
+                  {variantName(summary.variantIndex)}
+                </TableCell>
+              ))}
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {taskIds.map((taskId) => (
+              <TableRow key={taskId}>
+                <TableCell>{taskPrompts.get(taskId) || 'Removed task'}</TableCell>
+                {summaries.map((summary) => {
+                  const task = summary.tasks.find((t) => t.taskId === taskId);
+                  return (
+                    <TableCell key={summary.variantIndex} align="center">
+                      {task ? (
+                        <Tooltip title={`${task.attempts} attempts · ${task.avgMisclicks.toFixed(1)} misclicks on average`}>
+                          <span>
+                            {formatPercent(task.successRate)} · {formatTaskTime(task.medianDurationMs)}
+                          </span>
+                        </Tooltip>
+                      ) : (
+                        '-'
+                      )}
+                    </TableCell>
+                  );
+                })}
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </TableContainer>
+    </Box>
+  );
+}
+
+type HeatmapRange = '7d' | '30d' | '90d' | 'all';
+
+const HEATMAP_RANGE_DAYS: Record<HeatmapRange, number | null> = {
+  '7d': 7,
+  '30d': 30,
+  '90d': 90,
+  all: null,
+};
+
+const HEATMAP_MODES: { value: HeatmapMode; label: string }[] = [
+  { value: 'clicks', label: 'Clicks' },
+  { value: 'moves', label: 'Movement' },
+  { value: 'rage', label: 'Rage clicks' },
+  { value: 'scroll', label: 'Scroll depth' },
+];
+
+// Heatmaps of how shared-link viewers used a variant
+function InteractionHeatmapSection({ projectId, variantIndex }: { projectId: string; variantIndex: number }) {
+  const [html, setHtml] = useState<string | null>(null);
+  const [shares, setShares] = useState<ShareWithViews[]>([]);
+  const [loaded, setLoaded] = useState<InteractionEventsResult>({ events: [], total: 0, truncated: false });
+  const events = loaded.events;
+  const [shareId, setShareId] = useState('');
+  const [range, setRange] = useState<HeatmapRange>('30d');
+  const [mode, setMode] = useState<HeatmapMode>('clicks');
+
+  useEffect(() => {
+    let cancelled = false;
+    getVariants(projectId)
+      .then((variants) => {
+        const variant = variants.find((v) => v.variant_index === variantIndex);
+        return variant ? getVariantHtmlContent(variant) : null;
+      })
+      .then((content) => !cancelled && setHtml(content))
+      .catch((err) => console.error('Error loading variant HTML:', err));
+
+    // Links that can show this variant
+    getSharesForSession(projectId).then((result) => {
+      if (cancelled) return;
+      setShares(result.filter((s) => !s.flowId && (s.shareType === 'random' || s.variantIndex === variantIndex)));
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [projectId, variantIndex]);
+
+  useEffect(() => {
+    let cancelled = false;
+    const days = HEATMAP_RANGE_DAYS[range];
+    const since = days ? new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString() : undefined;
+
+    getInteractionEvents(projectId, variantIndex, { shareId: shareId || undefined, since }).then((result) => {
+      if (!cancelled) setLoaded(result);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [projectId, variantIndex, shareId, range]);
+
+  const points = useMemo(
+    () => binInteractionEvents(events, mode === 'moves' ? ['move'] : mode === 'rage' ? ['rage_click'] : ['click']),
+    [events, mode]
+  );
+  const scroll = useMemo(() => summarizeScrollDepth(events), [events]);
+  const participants = useMemo(() => new Set(events.map((e) => e.participantId)).size, [events]);
+  const counts = useMemo(
+    () => ({
+      clicks: events.filter((e) => e.type === 'click').length,
+      rage: events.filter((e) => e.type === 'rage_click').length,
+    }),
+    [events]
+  );
+
+  return (
+    <Box sx={{ mt: 4 }}>
+      <Box sx={{ display: 'flex', alignItems: 'center', gap: 2, mb: 2, flexWrap: 'wrap' }}>
+        <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, flex: 1 }}>
+          <CursorClick size={20} />
+          <Typography variant="subtitle1" fontWeight={600}>
+            Interaction heatmap
+          </Typography>
+        </Box>
+        <ToggleButtonGroup
+          size="small"
+          exclusive
+          value={mode}
+          onChange={(_, value: HeatmapMode | null) => value && setMode(value)}
+        >
+          {HEATMAP_MODES.map((m) => (
+            <ToggleButton key={m.value} value={m.value} sx={{ px: 1.5, textTransform: 'none' }}>
+              {m.label}
+            </ToggleButton>
+          ))}
+        </ToggleButtonGroup>
+        <Select size="small" value={shareId} displayEmpty onChange={(e) => setShareId(e.target.value)}>
+          <MenuItem value="">All share links</MenuItem>
+          {shares.map((share) => (
+            <MenuItem key={share.shareId} value={share.shareId}>
+              /share/{share.shareToken} · {new Date(share.createdAt).toLocaleDateString()}
+            </MenuItem>
+          ))}
+        </Select>
+        <Select size="small" value={range} onChange={(e) => setRange(e.target.value as HeatmapRange)}>
+          <MenuItem value="7d">Last 7 days</MenuItem>
+          <MenuItem value="30d">Last 30 days</MenuItem>
+          <MenuItem value="90d">Last 90 days</MenuItem>
+          <MenuItem value="all">All time</MenuItem>
+        </Select>
+      </Box>
+
+      <Box sx={{ display: 'flex', gap: 1, mb: 2 }}>
+        <Chip size="small" label={`${participants} ${participants === 1 ? 'viewer' : 'viewers'}`} />
+        <Chip size="small" label={`${counts.clicks} clicks`} />
+        <Chip size="small" color={counts.rage > 0 ? 'warning' : 'default'} label={`${counts.rage} rage clicks`} />
+        {loaded.truncated && (
+          <Tooltip title="Older events were left out. Pick a shorter range or a single share link to see them all.">
+            <Chip
+              size="small"
+              color="info"
+              label={`Latest ${events.length.toLocaleString()} of ${loaded.total.toLocaleString()} events`}
+            />
+          </Tooltip>
+        )}
+      </Box>
+
+      <Card variant="outlined" sx={{ overflow: 'hidden' }}>
+        {html ? (
+          <InteractionHeatmap html={html} mode={mode} points={points} scroll={scroll} />
+        ) : (
+          <Box sx={{ textAlign: 'center', py: 6 }}>
+            <Typography color="text.secondary">This variant has no HTML to draw a heatmap over</Typography>
+          </Box>
+        )}
+      </Card>
+    </Box>
+  );
+}
+
 // All Projects View
 function AllProjectsView() {
   const navigate = useNavigate();
@@ -466,6 +757,8 @@ function ProjectView({ projectId }: { projectId: string }) {
         </Box>
       )}
 
+      <UsabilityResultsSection projectId={projectId} variants={variants} />
+
       {/* Viewers Section */}
       {viewers.length > 0 && (
         <Box sx={{ mt: 4 }}>
@@ -585,325 +878,329 @@ function VariantView({ projectId, variantId }: { projectId: string; variantId: s
   }
 
   return (
-    <Box sx={{ display: 'flex', flexDirection: 'column', height: 'calc(100vh - 140px)' }}>
-      {/* Breadcrumb navigation */}
-      <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, mb: 3, flexShrink: 0 }}>
-        <Typography
-          variant="h5"
-          fontWeight={500}
-          sx={{
-            cursor: 'pointer',
-            '&:hover': { color: config.colors.primary },
-            transition: 'color 0.2s ease',
-          }}
-          onClick={() => navigate('/insights')}
-        >
-          Insights
-        </Typography>
-        <Typography variant="h5" fontWeight={500} color="text.secondary">
-          {'>'}
-        </Typography>
-        <Typography
-          variant="h5"
-          fontWeight={500}
-          sx={{
-            cursor: 'pointer',
-            '&:hover': { color: config.colors.primary },
-            transition: 'color 0.2s ease',
-          }}
-          onClick={() => navigate(`/insights/${projectId}`)}
-        >
-          {projectName}
-        </Typography>
-        <Typography variant="h5" fontWeight={500} color="text.secondary">
-          {'>'}
-        </Typography>
-        <Typography variant="h5" fontWeight={500}>
-          {detail.title || detail.label}
-        </Typography>
-        {detail.isTopPerformer && <Trophy size={20} weight="fill" color="#ffc107" />}
-      </Box>
+    <>
+      <Box sx={{ display: 'flex', flexDirection: 'column', height: 'calc(100vh - 140px)' }}>
+        {/* Breadcrumb navigation */}
+        <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, mb: 3, flexShrink: 0 }}>
+          <Typography
+            variant="h5"
+            fontWeight={500}
+            sx={{
+              cursor: 'pointer',
+              '&:hover': { color: config.colors.primary },
+              transition: 'color 0.2s ease',
+            }}
+            onClick={() => navigate('/insights')}
+          >
+            Insights
+          </Typography>
+          <Typography variant="h5" fontWeight={500} color="text.secondary">
+            {'>'}
+          </Typography>
+          <Typography
+            variant="h5"
+            fontWeight={500}
+            sx={{
+              cursor: 'pointer',
+              '&:hover': { color: config.colors.primary },
+              transition: 'color 0.2s ease',
+            }}
+            onClick={() => navigate(`/insights/${projectId}`)}
+          >
+            {projectName}
+          </Typography>
+          <Typography variant="h5" fontWeight={500} color="text.secondary">
+            {'>'}
+          </Typography>
+          <Typography variant="h5" fontWeight={500}>
+            {detail.title || detail.label}
+          </Typography>
+          {detail.isTopPerformer && <Trophy size={20} weight="fill" color="#ffc107" />}
+        </Box>
 
-      {/* Top Section: Stats (2x2) + Thumbnail */}
-      <Grid container spacing={3} sx={{ mb: 3, flexShrink: 0 }}>
-        {/* Stats 2x2 Grid */}
-        <Grid item xs={12} md={8}>
-          <Grid container spacing={2}>
-            <Grid item xs={6}>
-              <Card variant="outlined" sx={{ p: 2, textAlign: 'center', height: '100%', minHeight: 90 }}>
-                <Typography variant="body2" color="text.secondary" gutterBottom>
-                  Total sessions
-                </Typography>
-                <Typography variant="h5" fontWeight={500}>
-                  {detail.sessions}
-                </Typography>
-              </Card>
-            </Grid>
-            <Grid item xs={6}>
-              <Card variant="outlined" sx={{ p: 2, textAlign: 'center', height: '100%', minHeight: 90 }}>
-                <Typography variant="body2" color="text.secondary" gutterBottom>
-                  Unique participants
-                </Typography>
-                <Typography variant="h5" fontWeight={500}>
-                  {detail.participants}
-                </Typography>
-              </Card>
-            </Grid>
-            <Grid item xs={6}>
-              <Card variant="outlined" sx={{ p: 2, textAlign: 'center', height: '100%', minHeight: 90 }}>
-                <Typography variant="body2" color="text.secondary" gutterBottom>
-                  Time per session
-                </Typography>
-                <Typography variant="h5" fontWeight={500}>
-                  {formatTime(detail.avgTimeSpent)}
-                </Typography>
-              </Card>
-            </Grid>
-            <Grid item xs={6}>
-              <Card variant="outlined" sx={{ p: 2, textAlign: 'center', height: '100%', minHeight: 90 }}>
-                <Typography variant="body2" color="text.secondary" gutterBottom>
-                  Feedback shared
-                </Typography>
-                <Typography variant="h5" fontWeight={500}>
-                  {detail.comments.length}
-                </Typography>
-              </Card>
+        {/* Top Section: Stats (2x2) + Thumbnail */}
+        <Grid container spacing={3} sx={{ mb: 3, flexShrink: 0 }}>
+          {/* Stats 2x2 Grid */}
+          <Grid item xs={12} md={8}>
+            <Grid container spacing={2}>
+              <Grid item xs={6}>
+                <Card variant="outlined" sx={{ p: 2, textAlign: 'center', height: '100%', minHeight: 90 }}>
+                  <Typography variant="body2" color="text.secondary" gutterBottom>
+                    Total sessions
+                  </Typography>
+                  <Typography variant="h5" fontWeight={500}>
+                    {detail.sessions}
+                  </Typography>
+                </Card>
+              </Grid>
+              <Grid item xs={6}>
+                <Card variant="outlined" sx={{ p: 2, textAlign: 'center', height: '100%', minHeight: 90 }}>
+                  <Typography variant="body2" color="text.secondary" gutterBottom>
+                    Unique participants
+                  </Typography>
+                  <Typography variant="h5" fontWeight={500}>
+                    {detail.participants}
+                  </Typography>
+                </Card>
+              </Grid>
+              <Grid item xs={6}>
+                <Card variant="outlined" sx={{ p: 2, textAlign: 'center', height: '100%', minHeight: 90 }}>
+                  <Typography variant="body2" color="text.secondary" gutterBottom>
+                    Time per session
+                  </Typography>
+                  <Typography variant="h5" fontWeight={500}>
+                    {formatTime(detail.avgTimeSpent)}
+                  </Typography>
+                </Card>
+              </Grid>
+              <Grid item xs={6}>
+                <Card variant="outlined" sx={{ p: 2, textAlign: 'center', height: '100%', minHeight: 90 }}>
+                  <Typography variant="body2" color="text.secondary" gutterBottom>
+                    Feedback shared
+                  </Typography>
+                  <Typography variant="h5" fontWeight={500}>
+                    {detail.comments.length}
+                  </Typography>
+                </Card>
+              </Grid>
             </Grid>
           </Grid>
-        </Grid>
 
-        {/* Variant Thumbnail / Actions */}
-        <Grid item xs={12} md={4}>
-          <Card variant="outlined" sx={{ height: '100%', minHeight: 180, overflow: 'hidden' }}>
-            {detail.wireframeUrl ? (
-              <Box sx={{ height: '100%', display: 'flex', flexDirection: 'column' }}>
+          {/* Variant Thumbnail / Actions */}
+          <Grid item xs={12} md={4}>
+            <Card variant="outlined" sx={{ height: '100%', minHeight: 180, overflow: 'hidden' }}>
+              {detail.wireframeUrl ? (
+                <Box sx={{ height: '100%', display: 'flex', flexDirection: 'column' }}>
+                  <Box
+                    sx={{
+                      flex: 1,
+                      minHeight: 120,
+                      backgroundColor: '#f5f5f5',
+                      display: 'flex',
+                      alignItems: 'center',
+                      justifyContent: 'center',
+                      overflow: 'hidden',
+                    }}
+                  >
+                    <img
+                      src={detail.wireframeUrl}
+                      alt={detail.label}
+                      style={{
+                        maxWidth: '100%',
+                        maxHeight: '100%',
+                        objectFit: 'contain',
+                      }}
+                    />
+                  </Box>
+                  <Box sx={{ p: 1.5, borderTop: '1px solid', borderColor: 'divider' }}>
+                    <Button
+                      variant="outlined"
+                      size="small"
+                      fullWidth
+                      startIcon={<ArrowsClockwise size={16} />}
+                      onClick={() => navigate(`/vibe/${projectId}`)}
+                    >
+                      Create iteration
+                    </Button>
+                  </Box>
+                </Box>
+              ) : (
                 <Box
                   sx={{
-                    flex: 1,
-                    minHeight: 120,
-                    backgroundColor: '#f5f5f5',
+                    height: '100%',
                     display: 'flex',
+                    flexDirection: 'column',
                     alignItems: 'center',
                     justifyContent: 'center',
-                    overflow: 'hidden',
+                    backgroundColor: config.colors.bgSecondary,
+                    p: 2,
                   }}
                 >
-                  <img
-                    src={detail.wireframeUrl}
-                    alt={detail.label}
-                    style={{
-                      maxWidth: '100%',
-                      maxHeight: '100%',
-                      objectFit: 'contain',
-                    }}
-                  />
-                </Box>
-                <Box sx={{ p: 1.5, borderTop: '1px solid', borderColor: 'divider' }}>
+                  <Eye size={32} color={config.colors.textSecondary} />
+                  <Typography variant="body2" color="text.secondary" sx={{ mt: 1, mb: 2 }}>
+                    {detail.label}
+                  </Typography>
                   <Button
                     variant="outlined"
                     size="small"
-                    fullWidth
                     startIcon={<ArrowsClockwise size={16} />}
                     onClick={() => navigate(`/vibe/${projectId}`)}
                   >
                     Create iteration
                   </Button>
                 </Box>
-              </Box>
-            ) : (
-              <Box
-                sx={{
-                  height: '100%',
-                  display: 'flex',
-                  flexDirection: 'column',
-                  alignItems: 'center',
-                  justifyContent: 'center',
-                  backgroundColor: config.colors.bgSecondary,
-                  p: 2,
-                }}
-              >
-                <Eye size={32} color={config.colors.textSecondary} />
-                <Typography variant="body2" color="text.secondary" sx={{ mt: 1, mb: 2 }}>
-                  {detail.label}
-                </Typography>
-                <Button
-                  variant="outlined"
-                  size="small"
-                  startIcon={<ArrowsClockwise size={16} />}
-                  onClick={() => navigate(`/vibe/${projectId}`)}
-                >
-                  Create iteration
-                </Button>
-              </Box>
-            )}
-          </Card>
+              )}
+            </Card>
+          </Grid>
         </Grid>
-      </Grid>
 
-      {/* Main content: Left (Feedback Summary + Funnel) + Right (Feedback Shared) */}
-      <Grid container spacing={3} sx={{ flex: 1, minHeight: 0 }}>
-        {/* Left Column */}
-        <Grid item xs={12} md={6} sx={{ display: 'flex', flexDirection: 'column', gap: 3 }}>
-          {/* Feedback Summary */}
-          <Box>
-            <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, mb: 1.5 }}>
-              <Typography variant="subtitle1" fontWeight={600}>
-                Feedback summary
-              </Typography>
+        {/* Main content: Left (Feedback Summary + Funnel) + Right (Feedback Shared) */}
+        <Grid container spacing={3} sx={{ flex: 1, minHeight: 0 }}>
+          {/* Left Column */}
+          <Grid item xs={12} md={6} sx={{ display: 'flex', flexDirection: 'column', gap: 3 }}>
+            {/* Feedback Summary */}
+            <Box>
+              <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, mb: 1.5 }}>
+                <Typography variant="subtitle1" fontWeight={600}>
+                  Feedback summary
+                </Typography>
+              </Box>
+              <Card variant="outlined">
+                <CardContent>
+                  <Typography variant="body2" color="text.secondary">
+                    {detail.feedbackSummary}
+                  </Typography>
+                  {detail.keyThemes.length > 0 && (
+                    <Box sx={{ mt: 2, display: 'flex', flexWrap: 'wrap', gap: 1 }}>
+                      {detail.keyThemes.map((theme, idx) => (
+                        <Chip key={idx} size="small" label={theme} variant="outlined" />
+                      ))}
+                    </Box>
+                  )}
+                </CardContent>
+              </Card>
             </Box>
-            <Card variant="outlined">
-              <CardContent>
-                <Typography variant="body2" color="text.secondary">
-                  {detail.feedbackSummary}
+
+            {/* Participants Funnel */}
+            <Box>
+              <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, mb: 1.5 }}>
+                <Typography variant="subtitle1" fontWeight={600}>
+                  Participants funnel
                 </Typography>
-                {detail.keyThemes.length > 0 && (
-                  <Box sx={{ mt: 2, display: 'flex', flexWrap: 'wrap', gap: 1 }}>
-                    {detail.keyThemes.map((theme, idx) => (
-                      <Chip key={idx} size="small" label={theme} variant="outlined" />
+              </Box>
+              <Card variant="outlined">
+                <CardContent>
+                  <Box sx={{ display: 'flex', flexDirection: 'column', gap: 1.5 }}>
+                    {detail.participantsFunnel.map((step, index) => (
+                      <Box key={step.label}>
+                        <Box sx={{ display: 'flex', justifyContent: 'space-between', mb: 0.5 }}>
+                          <Typography variant="body2">{step.label}</Typography>
+                          <Typography variant="body2" fontWeight={500}>
+                            {step.count} ({step.percent}%)
+                          </Typography>
+                        </Box>
+                        <LinearProgress
+                          variant="determinate"
+                          value={step.percent}
+                          sx={{
+                            height: 8,
+                            borderRadius: 4,
+                            backgroundColor: 'grey.200',
+                            '& .MuiLinearProgress-bar': {
+                              backgroundColor:
+                                index === 0
+                                  ? config.colors.primary
+                                  : index === detail.participantsFunnel.length - 1
+                                  ? config.colors.success
+                                  : config.colors.textSecondary,
+                            },
+                          }}
+                        />
+                      </Box>
                     ))}
                   </Box>
-                )}
-              </CardContent>
-            </Card>
-          </Box>
+                </CardContent>
+              </Card>
+            </Box>
+          </Grid>
 
-          {/* Participants Funnel */}
-          <Box>
-            <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, mb: 1.5 }}>
+          {/* Right Column: Feedback Shared */}
+          <Grid item xs={12} md={6} sx={{ display: 'flex', flexDirection: 'column' }}>
+            <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, mb: 1.5, flexShrink: 0 }}>
               <Typography variant="subtitle1" fontWeight={600}>
-                Participants funnel
+                Feedback shared
               </Typography>
+              <Chip size="small" label={detail.comments.length} />
             </Box>
-            <Card variant="outlined">
-              <CardContent>
-                <Box sx={{ display: 'flex', flexDirection: 'column', gap: 1.5 }}>
-                  {detail.participantsFunnel.map((step, index) => (
-                    <Box key={step.label}>
-                      <Box sx={{ display: 'flex', justifyContent: 'space-between', mb: 0.5 }}>
-                        <Typography variant="body2">{step.label}</Typography>
-                        <Typography variant="body2" fontWeight={500}>
-                          {step.count} ({step.percent}%)
-                        </Typography>
-                      </Box>
-                      <LinearProgress
-                        variant="determinate"
-                        value={step.percent}
-                        sx={{
-                          height: 8,
-                          borderRadius: 4,
-                          backgroundColor: 'grey.200',
-                          '& .MuiLinearProgress-bar': {
-                            backgroundColor:
-                              index === 0
-                                ? config.colors.primary
-                                : index === detail.participantsFunnel.length - 1
-                                ? config.colors.success
-                                : config.colors.textSecondary,
-                          },
-                        }}
-                      />
-                    </Box>
-                  ))}
-                </Box>
-              </CardContent>
-            </Card>
-          </Box>
-        </Grid>
-
-        {/* Right Column: Feedback Shared */}
-        <Grid item xs={12} md={6} sx={{ display: 'flex', flexDirection: 'column' }}>
-          <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, mb: 1.5, flexShrink: 0 }}>
-            <Typography variant="subtitle1" fontWeight={600}>
-              Feedback shared
-            </Typography>
-            <Chip size="small" label={detail.comments.length} />
-          </Box>
-          <Card variant="outlined" sx={{ flex: 1, display: 'flex', flexDirection: 'column' }}>
-            <CardContent
-              sx={{ flex: 1, display: 'flex', flexDirection: 'column', overflow: 'hidden' }}
-            >
-              {detail.comments.length === 0 ? (
-                <Box
-                  sx={{
-                    flex: 1,
-                    display: 'flex',
-                    flexDirection: 'column',
-                    alignItems: 'center',
-                    justifyContent: 'center',
-                  }}
-                >
-                  <ChatCircle size={48} color="#ccc" />
-                  <Typography color="text.secondary" sx={{ mt: 1 }}>
-                    No feedback yet
-                  </Typography>
-                </Box>
-              ) : (
-                <Box
-                  sx={{
-                    display: 'flex',
-                    flexDirection: 'column',
-                    gap: 1.5,
-                    flex: 1,
-                    overflow: 'auto',
-                  }}
-                >
-                  {detail.comments.map((fb) => (
-                    <Box
-                      key={fb.id}
-                      sx={{
-                        borderBottom: '1px solid',
-                        borderColor: 'divider',
-                        pb: 1.5,
-                        opacity: fb.resolved ? 0.6 : 1,
-                      }}
-                    >
+            <Card variant="outlined" sx={{ flex: 1, display: 'flex', flexDirection: 'column' }}>
+              <CardContent
+                sx={{ flex: 1, display: 'flex', flexDirection: 'column', overflow: 'hidden' }}
+              >
+                {detail.comments.length === 0 ? (
+                  <Box
+                    sx={{
+                      flex: 1,
+                      display: 'flex',
+                      flexDirection: 'column',
+                      alignItems: 'center',
+                      justifyContent: 'center',
+                    }}
+                  >
+                    <ChatCircle size={48} color="#ccc" />
+                    <Typography color="text.secondary" sx={{ mt: 1 }}>
+                      No feedback yet
+                    </Typography>
+                  </Box>
+                ) : (
+                  <Box
+                    sx={{
+                      display: 'flex',
+                      flexDirection: 'column',
+                      gap: 1.5,
+                      flex: 1,
+                      overflow: 'auto',
+                    }}
+                  >
+                    {detail.comments.map((fb) => (
                       <Box
+                        key={fb.id}
                         sx={{
-                          display: 'flex',
-                          justifyContent: 'space-between',
-                          alignItems: 'center',
-                          mb: 0.5,
+                          borderBottom: '1px solid',
+                          borderColor: 'divider',
+                          pb: 1.5,
+                          opacity: fb.resolved ? 0.6 : 1,
                         }}
                       >
-                        <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
-                          <Avatar sx={{ width: 24, height: 24, fontSize: 10, bgcolor: 'primary.main' }}>
-                            {getInitials(fb.userName)}
-                          </Avatar>
-                          <Typography variant="body2" fontWeight={500}>
-                            {fb.userName}
+                        <Box
+                          sx={{
+                            display: 'flex',
+                            justifyContent: 'space-between',
+                            alignItems: 'center',
+                            mb: 0.5,
+                          }}
+                        >
+                          <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+                            <Avatar sx={{ width: 24, height: 24, fontSize: 10, bgcolor: 'primary.main' }}>
+                              {getInitials(fb.userName)}
+                            </Avatar>
+                            <Typography variant="body2" fontWeight={500}>
+                              {fb.userName}
+                            </Typography>
+                            {fb.positionX !== null && (
+                              <Tooltip title="Pin comment">
+                                <PushPin size={12} />
+                              </Tooltip>
+                            )}
+                            {fb.resolved && (
+                              <Tooltip title="Resolved">
+                                <CheckCircle size={14} color="#2e7d32" weight="fill" />
+                              </Tooltip>
+                            )}
+                          </Box>
+                          <Typography variant="caption" color="text.secondary">
+                            {formatRelativeTime(fb.createdAt)}
                           </Typography>
-                          {fb.positionX !== null && (
-                            <Tooltip title="Pin comment">
-                              <PushPin size={12} />
-                            </Tooltip>
-                          )}
-                          {fb.resolved && (
-                            <Tooltip title="Resolved">
-                              <CheckCircle size={14} color="#2e7d32" weight="fill" />
-                            </Tooltip>
-                          )}
                         </Box>
-                        <Typography variant="caption" color="text.secondary">
-                          {formatRelativeTime(fb.createdAt)}
+                        <Typography variant="body2" color="text.secondary">
+                          {fb.content}
                         </Typography>
+                        {fb.replyCount > 0 && (
+                          <Typography variant="caption" color="primary" sx={{ mt: 0.5, display: 'block' }}>
+                            {fb.replyCount} {fb.replyCount === 1 ? 'reply' : 'replies'}
+                          </Typography>
+                        )}
                       </Box>
-                      <Typography variant="body2" color="text.secondary">
-                        {fb.content}
-                      </Typography>
-                      {fb.replyCount > 0 && (
-                        <Typography variant="caption" color="primary" sx={{ mt: 0.5, display: 'block' }}>
-                          {fb.replyCount} {fb.replyCount === 1 ? 'reply' : 'replies'}
-                        </Typography>
-                      )}
-                    </Box>
-                  ))}
-                </Box>
-              )}
-            </CardContent>
-          </Card>
+                    ))}
+                  </Box>
+                )}
+              </CardContent>
+            </Card>
+          </Grid>
         </Grid>
-      </Grid>
-    </Box>
+      </Box>
+
+      <InteractionHeatmapSection projectId={projectId} variantIndex={variantIndex} />
+    </>
   );
 }
 
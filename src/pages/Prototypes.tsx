@@ -28,6 +28,7 @@ import {
   List,
   CheckSquare,
   X,
+  PaintBrushBroad,
 } from '@phosphor-icons/react';
 import {
   Button,
@@ -46,6 +47,11 @@ import { useThemeStore } from '@/store/themeStore';
 import { useScreensStore } from '@/store/screensStore';
 import { useAuthStore } from '@/store/authStore';
 import { supabase, isSupabaseConfigured } from '@/services/supabase';
+import {
+  deleteVisualBuilderProject,
+  getVisualBuilderProjects,
+} from '@/services/visualBuilderProjectService';
+import type { VisualBuilderProject } from '@/services/visualBuilderProjectService';
 
 interface Prototype {
   id: string;
@@ -124,12 +130,19 @@ export function Prototypes() {
   const [isSelectionMode, setIsSelectionMode] = useState(false);
   const [selectedIds, setSelectedIds] = useState<string[]>([]);
 
+  // Visual Builder projects
+  const [visualProjects, setVisualProjects] = useState<VisualBuilderProject[]>([]);
+  const [projectMenuAnchor, setProjectMenuAnchor] = useState<null | HTMLElement>(null);
+  const [selectedProject, setSelectedProject] = useState<VisualBuilderProject | null>(null);
+  const [deleteProjectDialogOpen, setDeleteProjectDialogOpen] = useState(false);
+
   // Initialize screens and fetch prototypes on mount
   // Run sequentially to avoid concurrent auth.getUser() calls which cause AbortError
   useEffect(() => {
     const init = async () => {
       await initializeScreens();
       await fetchPrototypes();
+      setVisualProjects(await getVisualBuilderProjects());
     };
     init();
   }, []);
@@ -327,6 +340,19 @@ export function Prototypes() {
     }
   };
 
+  const handleDeleteVisualProject = async () => {
+    if (!selectedProject) return;
+
+    if (await deleteVisualBuilderProject(selectedProject.id)) {
+      setVisualProjects((prev) => prev.filter((p) => p.id !== selectedProject.id));
+      showSuccess('Project deleted');
+    } else {
+      showError('Failed to delete project');
+    }
+    setDeleteProjectDialogOpen(false);
+    setSelectedProject(null);
+  };
+
   const filteredPrototypes = prototypes.filter((p) => {
     const matchesSearch = p.name.toLowerCase().includes(searchQuery.toLowerCase()) ||
       p.prompt?.toLowerCase().includes(searchQuery.toLowerCase());
@@ -337,6 +363,10 @@ export function Prototypes() {
     return matchesSearch;
   });
 
+  const filteredVisualProjects = visualProjects.filter((p) =>
+    p.name.toLowerCase().includes(searchQuery.toLowerCase())
+  );
+
   const formatDate = (dateString: string) => {
     return new Date(dateString).toLocaleDateString('en-US', {
       month: 'short',
@@ -778,6 +808,88 @@ export function Prototypes() {
         </Box>
       )}
 
+      {/* Visual Builder Projects */}
+      {!isLoading && (
+        <Box sx={{ mt: 5 }}>
+          <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', mb: 2 }}>
+            <Typography
+              variant="h6"
+              sx={{ fontFamily: config.fonts.display, fontWeight: mode === 'craftsman' ? 400 : 600 }}
+            >
+              Visual Builder
+            </Typography>
+            <Button
+              variant="outlined"
+              size="small"
+              startIcon={<Plus size={16} />}
+              onClick={() => navigate('/visual-builder')}
+            >
+              New Canvas
+            </Button>
+          </Box>
+          {filteredVisualProjects.length === 0 ? (
+            <Typography variant="body2" color="text.secondary">
+              {searchQuery
+                ? 'No Visual Builder projects match your search'
+                : 'Canvases you build in the Visual Builder are saved here'}
+            </Typography>
+          ) : (
+            <Grid container spacing={2}>
+              {filteredVisualProjects.map((project) => (
+                <Grid item xs={12} sm={6} md={4} lg={3} key={project.id}>
+                  <ThumbnailCard
+                    id={project.id}
+                    title={project.name}
+                    subtitle={`Updated ${formatDate(project.updatedAt)}`}
+                    secondaryInfo={`${project.document.elements.length} elements`}
+                    preview={{ type: 'placeholder' }}
+                    onClick={() => navigate(`/visual-builder/${project.id}`)}
+                    onMenuClick={(e) => {
+                      e.stopPropagation();
+                      setProjectMenuAnchor(e.currentTarget);
+                      setSelectedProject(project);
+                    }}
+                    primaryAction={{
+                      icon: <PaintBrushBroad size={24} color="white" weight="fill" />,
+                      label: 'Open Canvas',
+                      onClick: () => navigate(`/visual-builder/${project.id}`),
+                    }}
+                  />
+                </Grid>
+              ))}
+            </Grid>
+          )}
+        </Box>
+      )}
+
+      {/* Visual Builder Project Menu */}
+      <Menu
+        anchorEl={projectMenuAnchor}
+        open={Boolean(projectMenuAnchor)}
+        onClose={() => setProjectMenuAnchor(null)}
+        TransitionComponent={Fade}
+      >
+        <MenuItem
+          onClick={() => {
+            setProjectMenuAnchor(null);
+            navigate(`/visual-builder/${selectedProject?.id}`);
+          }}
+        >
+          <ListItemIcon><PencilSimple size={18} color={config.colors.primary} /></ListItemIcon>
+          Open
+        </MenuItem>
+        <MenuItem
+          onClick={() => {
+            setProjectMenuAnchor(null);
+            setDeleteProjectDialogOpen(true);
+          }}
+          sx={{ color: config.colors.error }}
+        >
+          <ListItemIcon><Trash size={18} color={config.colors.error} /></ListItemIcon>
+          Delete
+        </MenuItem>
+      </Menu>
+
       {/* Context Menu */}
       <Menu
         anchorEl={anchorEl}
@@ -888,6 +1000,28 @@ export function Prototypes() {
           </Button>
         </DialogActions>
       </Dialog>
+
+      {/* Delete Visual Builder Project Dialog */}
+      <Dialog
+        open={deleteProjectDialogOpen}
+        onClose={() => setDeleteProjectDialogOpen(false)}
+        maxWidth="xs"
+        fullWidth
+        TransitionComponent={Fade}
+      >
+        <DialogTitle>Delete Project?</DialogTitle>
+        <DialogContent>
+          <Typography>
+            Are you sure you want to delete "{selectedProject?.name}" and its saved versions? This action cannot be undone.
+          </Typography>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setDeleteProjectDialogOpen(false)}>Cancel</Button>
+          <Button color="error" variant="contained" onClick={handleDeleteVisualProject}>
+            Delete
+          </Button>
+        </DialogActions>
+      </Dialog>
     </Box>
   );
 }
@@ -1,4 +1,4 @@
-import { useState, useEffect, useRef } from 'react';
+import { useState, useEffect, useRef, useCallback } from 'react';
 import Box from '@mui/material/Box';
 import Grid from '@mui/material/Grid';
 import Typography from '@mui/material/Typography';
@@ -18,6 +18,7 @@ import InputAdornment from '@mui/material/InputAdornment';
 import CircularProgress from '@mui/material/CircularProgress';
 import Autocomplete from '@mui/material/Autocomplete';
 import Avatar from '@mui/material/Avatar';
+import LinearProgress from '@mui/material/LinearProgress';
 import {
   Button,
   Card,
@@ -47,6 +48,7 @@ import {
   Lightning,
   Buildings,
   Bug,
+  ArrowsClockwise,
 } from '@phosphor-icons/react';
 import { EdgeFunctionTester } from '@/components/EdgeFunctionTester';
 import { useSnackbar } from '@/components/SnackbarProvider';
@@ -63,7 +65,27 @@ import {
   PROVIDER_INFO,
   type ApiKeyConfig,
   type LLMProvider,
+  type LocalApiFlavor,
 } from '@/services/apiKeysService';
+import {
+  discoverLocalModels,
+  normalizeBaseUrl,
+  LOCAL_API_FLAVORS,
+} from '@/services/localModelService';
+import {
+  getUsageRecords,
+  getUsageProjects,
+  getBudgets,
+  getBudgetStatuses,
+  saveBudget,
+  deleteBudget,
+  startOfMonth,
+  summarizeUsage,
+  type BudgetStatus,
+  type LlmUsageRecord,
+  type UsageGroup,
+  type UsageProject,
+} from '@/services/usageService';
 import { useAuthStore } from '@/store/authStore';
 import {
   updateUserProfile,
@@ -102,6 +124,10 @@ function ApiKeysTab() {
   const [selectedProvider, setSelectedProvider] = useState<LLMProvider>('anthropic');
   const [apiKey, setApiKey] = useState('');
   const [customModel, setCustomModel] = useState('');
+  const [apiFlavor, setApiFlavor] = useState<LocalApiFlavor>('openai-compatible');
+  const [baseUrl, setBaseUrl] = useState('');
+  const [discoveredModels, setDiscoveredModels] = useState<string[]>([]);
+  const [isDiscovering, setIsDiscovering] = useState(false);
 
   const fetchApiKeys = async () => {
     setIsLoading(true);
@@ -124,6 +150,9 @@ function ApiKeysTab() {
     setSelectedProvider('anthropic');
     setApiKey('');
     setCustomModel(PROVIDER_INFO['anthropic'].defaultModel);
+    setApiFlavor('openai-compatible');
+    setBaseUrl(LOCAL_API_FLAVORS['openai-compatible'].defaultBaseUrl);
+    setDiscoveredModels([]);
     setIsModalOpen(true);
   };
 
@@ -131,6 +160,30 @@ function ApiKeysTab() {
     setIsModalOpen(false);
     setApiKey('');
     setCustomModel('');
+    setDiscoveredModels([]);
+  };
+
+  const isLocal = selectedProvider === 'local';
+
+  const handleDiscoverModels = async () => {
+    setIsDiscovering(true);
+    try {
+      const models = await discoverLocalModels({ baseUrl, apiFlavor, apiKey });
+      setDiscoveredModels(models);
+      if (models.length === 0) {
+        showError('The server is reachable but has no models available');
+      } else {
+        showSuccess(`Found ${models.length} model${models.length === 1 ? '' : 's'}`);
+        if (!models.includes(customModel)) {
+          setCustomModel(models[0]);
+        }
+      }
+    } catch (error) {
+      setDiscoveredModels([]);
+      showError(error instanceof Error ? error.message : 'Could not list models');
+    } finally {
+      setIsDiscovering(false);
+    }
   };
 
   const handleAddKey = async () => {
@@ -140,14 +193,26 @@ function ApiKeysTab() {
       return;
     }
 
+    let serverUrl: string | undefined;
+    if (isLocal) {
+      try {
+        serverUrl = normalizeBaseUrl(baseUrl);
+      } catch (error) {
+        showError(error instanceof Error ? error.message : 'Invalid server URL');
+        return;
+      }
+    }
+
     setIsSubmitting(true);
     try {
       await saveApiKey({
         provider: selectedProvider,
         apiKey,
         model: customModel || PROVIDER_INFO[selectedProvider].defaultModel,
+        baseUrl: serverUrl,
+        apiFlavor: isLocal ? apiFlavor : undefined,
       });
-      showSuccess(`${PROVIDER_INFO[selectedProvider].name} API key saved securely`);
+      showSuccess(isLocal ? 'Local model server saved' : `${PROVIDER_INFO[selectedProvider].name} API key saved securely`);
       closeModal();
       fetchApiKeys();
     } catch (error) {
@@ -184,6 +249,17 @@ function ApiKeysTab() {
   const handleProviderChange = (provider: LLMProvider) => {
     setSelectedProvider(provider);
     setCustomModel(PROVIDER_INFO[provider].defaultModel);
+    setDiscoveredModels([]);
+  };
+
+  const handleFlavorChange = (flavor: LocalApiFlavor) => {
+    // Swap the default URL, but keep one the user typed
+    const isDefaultUrl = Object.values(LOCAL_API_FLAVORS).some((f) => f.defaultBaseUrl === baseUrl);
+    setApiFlavor(flavor);
+    if (!baseUrl || isDefaultUrl) {
+      setBaseUrl(LOCAL_API_FLAVORS[flavor].defaultBaseUrl);
+    }
+    setDiscoveredModels([]);
   };
 
   const providerInfo = PROVIDER_INFO[selectedProvider];
@@ -251,6 +327,11 @@ function ApiKeysTab() {
                       {PROVIDER_INFO[key.provider].name}
                       {key.isActive && <Chip label="Active" size="small" color="success" />}
                     </Box>
+                    {key.baseUrl && (
+                      <Typography variant="caption" color="text.secondary" sx={{ fontFamily: 'monospace' }}>
+                        {key.baseUrl}
+                      </Typography>
+                    )}
                   </TableCell>
                   <TableCell>
                     <Chip label={key.model || PROVIDER_INFO[key.provider].defaultModel} size="small" variant="outlined" />
@@ -303,17 +384,18 @@ function ApiKeysTab() {
         Supported Providers
       </Typography>
       <Grid container spacing={2}>
-        {(['anthropic', 'openai', 'google'] as LLMProvider[]).map((provider) => {
+        {(['anthropic', 'openai', 'google', 'local'] as LLMProvider[]).map((provider) => {
           const info = PROVIDER_INFO[provider];
           const urls: Record<LLMProvider, string> = {
             anthropic: 'https://console.anthropic.com/settings/keys',
             openai: 'https://platform.openai.com/api-keys',
             google: 'https://aistudio.google.com/app/apikey',
+            local: 'https://ollama.com/download',
           };
           const hasKey = apiKeys.some((k) => k.provider === provider);
 
           return (
-            <Grid item xs={12} md={4} key={provider}>
+            <Grid item xs={12} sm={6} md={3} key={provider}>
               <Card sx={{ height: '100%', border: hasKey ? '2px solid' : undefined, borderColor: 'success.main' }}>
                 <CardContent sx={{ height: '100%', display: 'flex', flexDirection: 'column' }}>
                   <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, mb: 1 }}>
@@ -328,7 +410,7 @@ function ApiKeysTab() {
                       size="small"
                       onClick={() => window.open(urls[provider], '_blank')}
                     >
-                      Get API Key
+                      {provider === 'local' ? 'Get Ollama' : 'Get API Key'}
                     </Button>
                   </Box>
                 </CardContent>
@@ -353,6 +435,7 @@ function ApiKeysTab() {
                 <MenuItem value="anthropic">Anthropic (Claude)</MenuItem>
                 <MenuItem value="openai">OpenAI (GPT)</MenuItem>
                 <MenuItem value="google">Google AI (Gemini)</MenuItem>
+                <MenuItem value="local">Local / Self-hosted</MenuItem>
               </Select>
             </FormControl>
 
@@ -360,14 +443,55 @@ function ApiKeysTab() {
               {providerInfo.description}
             </Alert>
 
+            {isLocal && (
+              <>
+                <FormControl fullWidth>
+                  <InputLabel>Server Type</InputLabel>
+                  <Select
+                    value={apiFlavor}
+                    label="Server Type"
+                    onChange={(e) => handleFlavorChange(e.target.value as LocalApiFlavor)}
+                  >
+                    {(Object.keys(LOCAL_API_FLAVORS) as LocalApiFlavor[]).map((flavor) => (
+                      <MenuItem key={flavor} value={flavor}>
+                        {LOCAL_API_FLAVORS[flavor].name}
+                      </MenuItem>
+                    ))}
+                  </Select>
+                </FormControl>
+
+                <Box sx={{ display: 'flex', gap: 1, alignItems: 'flex-start' }}>
+                  <TextField
+                    fullWidth
+                    label="Server URL"
+                    value={baseUrl}
+                    onChange={(e) => {
+                      setBaseUrl(e.target.value);
+                      setDiscoveredModels([]);
+                    }}
+                    placeholder={LOCAL_API_FLAVORS[apiFlavor].defaultBaseUrl}
+                    helperText={LOCAL_API_FLAVORS[apiFlavor].description}
+                  />
+                  <Button
+                    onClick={handleDiscoverModels}
+                    disabled={isDiscovering || !baseUrl}
+                    startIcon={isDiscovering ? <CircularProgress size={16} /> : <ArrowsClockwise size={16} />}
+                    sx={{ mt: 1, whiteSpace: 'nowrap' }}
+                  >
+                    Find Models
+                  </Button>
+                </Box>
+              </>
+            )}
+
             <TextField
               fullWidth
-              label="API Key"
+              label={isLocal ? 'API Key (optional)' : 'API Key'}
               type="password"
               value={apiKey}
               onChange={(e) => setApiKey(e.target.value)}
-              placeholder={`${providerInfo.keyPrefix}...`}
-              helperText={`Key should start with "${providerInfo.keyPrefix}"`}
+              placeholder={isLocal ? 'Leave empty if the server has no authentication' : `${providerInfo.keyPrefix}...`}
+              helperText={isLocal ? 'Sent as a Bearer token' : `Key should start with "${providerInfo.keyPrefix}"`}
               InputProps={{
                 startAdornment: (
                   <InputAdornment position="start">
@@ -379,14 +503,16 @@ function ApiKeysTab() {
 
             <Autocomplete
               freeSolo
-              options={providerInfo.models}
+              options={isLocal ? discoveredModels : providerInfo.models}
               value={customModel}
               onInputChange={(_, value) => setCustomModel(value)}
               renderInput={(params) => (
                 <TextField
                   {...params}
                   label="Default Model"
-                  helperText="Select or enter a custom model name"
+                  helperText={isLocal && discoveredModels.length === 0
+                    ? 'Use Find Models to list what the server has, or enter a model name'
+                    : 'Select or enter a custom model name'}
                 />
               )}
             />
@@ -397,7 +523,7 @@ function ApiKeysTab() {
           <Button
             variant="contained"
             onClick={handleAddKey}
-            disabled={isSubmitting || !apiKey}
+            disabled={isSubmitting || (isLocal ? !baseUrl || !customModel : !apiKey)}
             startIcon={isSubmitting ? <CircularProgress size={16} /> : <ShieldCheck size={16} />}
           >
             Save Securely
@@ -702,6 +828,259 @@ function AccountTab() {
   );
 }
 
+type UsagePeriod = 'month' | '30d' | '90d';
+
+const USAGE_PERIODS: Record<UsagePeriod, { label: string; since: () => Date }> = {
+  month: { label: 'This month', since: () => startOfMonth() },
+  '30d': { label: 'Last 30 days', since: () => new Date(Date.now() - 30 * 24 * 60 * 60 * 1000) },
+  '90d': { label: 'Last 90 days', since: () => new Date(Date.now() - 90 * 24 * 60 * 60 * 1000) },
+};
+
+function formatUsd(amount: number): string {
+  if (amount > 0 && amount < 0.01) return '<$0.01';
+  return `$${amount.toFixed(2)}`;
+}
+
+function UsageTable({ title, groups }: { title: string; groups: UsageGroup[] }) {
+  return (
+    <Card>
+      <CardContent>
+        <Typography fontWeight={600} gutterBottom>
+          {title}
+        </Typography>
+        {groups.length === 0 ? (
+          <Typography variant="body2" color="text.secondary" sx={{ py: 2 }}>
+            No usage in this period
+          </Typography>
+        ) : (
+          <Table size="small">
+            <TableHead>
+              <TableRow>
+                <TableCell>Name</TableCell>
+                <TableCell align="right">Calls</TableCell>
+                <TableCell align="right">Tokens in / out</TableCell>
+                <TableCell align="right">Avg latency</TableCell>
+                <TableCell align="right">Est. cost</TableCell>
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {groups.map((group) => (
+                <TableRow key={group.key}>
+                  <TableCell>{group.label}</TableCell>
+                  <TableCell align="right">{group.calls}</TableCell>
+                  <TableCell align="right">
+                    {group.inputTokens.toLocaleString()} / {group.outputTokens.toLocaleString()}
+                  </TableCell>
+                  <TableCell align="right">{(group.avgLatencyMs / 1000).toFixed(1)}s</TableCell>
+                  <TableCell align="right">{formatUsd(group.costUsd)}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+function UsageDashboard() {
+  const { config } = useThemeStore();
+  const { showSuccess, showError } = useSnackbar();
+  const [period, setPeriod] = useState<UsagePeriod>('month');
+  const [records, setRecords] = useState<LlmUsageRecord[]>([]);
+  const [budgetStatuses, setBudgetStatuses] = useState<BudgetStatus[]>([]);
+  const [projects, setProjects] = useState<UsageProject[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [budgetScope, setBudgetScope] = useState<string>('account');
+  const [budgetAmount, setBudgetAmount] = useState('');
+  const [isSavingBudget, setIsSavingBudget] = useState(false);
+
+  const loadUsage = useCallback(async (selectedPeriod: UsagePeriod) => {
+    setIsLoading(true);
+    try {
+      const [periodRecords, monthRecords, budgets, projectList] = await Promise.all([
+        getUsageRecords(USAGE_PERIODS[selectedPeriod].since()),
+        selectedPeriod === 'month' ? null : getUsageRecords(startOfMonth()),
+        getBudgets(),
+        getUsageProjects(),
+      ]);
+      setRecords(periodRecords);
+      setBudgetStatuses(await getBudgetStatuses(budgets, monthRecords ?? periodRecords));
+      setProjects(projectList);
+    } catch (error) {
+      console.error(error);
+      showError('Failed to load usage');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [showError]);
+
+  useEffect(() => {
+    loadUsage(period);
+  }, [loadUsage, period]);
+
+  const handleSaveBudget = async () => {
+    setIsSavingBudget(true);
+    try {
+      await saveBudget(budgetScope === 'account' ? null : budgetScope, Number(budgetAmount));
+      showSuccess('Budget saved');
+      setBudgetAmount('');
+      loadUsage(period);
+    } catch (error) {
+      showError(error instanceof Error ? error.message : 'Failed to save budget');
+    } finally {
+      setIsSavingBudget(false);
+    }
+  };
+
+  const handleDeleteBudget = async (budgetId: string) => {
+    if (await deleteBudget(budgetId)) {
+      showSuccess('Budget removed');
+      loadUsage(period);
+    } else {
+      showError('Failed to remove budget');
+    }
+  };
+
+  const summary = summarizeUsage(records);
+  const projectName = (sessionId: string) => projects.find((p) => p.id === sessionId)?.name || 'Untitled project';
+
+  const stats = [
+    { label: 'Estimated cost', value: formatUsd(summary.totals.costUsd) },
+    { label: 'Input tokens', value: summary.totals.inputTokens.toLocaleString() },
+    { label: 'Output tokens', value: summary.totals.outputTokens.toLocaleString() },
+    { label: 'LLM calls', value: summary.totals.calls.toLocaleString() },
+  ];
+
+  return (
+    <Box sx={{ mt: 6 }}>
+      <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 2 }}>
+        <Box>
+          <Typography variant="h6" fontWeight={600}>
+            AI Usage
+          </Typography>
+          <Typography variant="body2" color="text.secondary">
+            Tokens and estimated provider cost of every AI call. Self-hosted models are counted at $0.
+          </Typography>
+        </Box>
+        <FormControl size="small" sx={{ minWidth: 160 }}>
+          <Select value={period} onChange={(e) => setPeriod(e.target.value as UsagePeriod)}>
+            {(Object.keys(USAGE_PERIODS) as UsagePeriod[]).map((key) => (
+              <MenuItem key={key} value={key}>
+                {USAGE_PERIODS[key].label}
+              </MenuItem>
+            ))}
+          </Select>
+        </FormControl>
+      </Box>
+
+      {isLoading ? (
+        <Box sx={{ p: 4, textAlign: 'center' }}>
+          <CircularProgress size={24} />
+        </Box>
+      ) : (
+        <Box sx={{ display: 'flex', flexDirection: 'column', gap: 2 }}>
+          <Grid container spacing={2}>
+            {stats.map((stat) => (
+              <Grid item xs={6} md={3} key={stat.label}>
+                <Card>
+                  <CardContent>
+                    <Typography variant="caption" color="text.secondary">
+                      {stat.label}
+                    </Typography>
+                    <Typography variant="h5" fontWeight={700}>
+                      {stat.value}
+                    </Typography>
+                  </CardContent>
+                </Card>
+              </Grid>
+            ))}
+          </Grid>
+
+          <Card>
+            <CardContent>
+              <Typography fontWeight={600} gutterBottom>
+                Budgets
+              </Typography>
+              <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+                Generation is blocked once a budget is used up. The account budget resets every month; project budgets cover the project's lifetime.
+              </Typography>
+
+              {budgetStatuses.map((status) => (
+                <Box key={status.budget.id} sx={{ mb: 2 }}>
+                  <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, mb: 0.5 }}>
+                    <Typography variant="body2" fontWeight={500} sx={{ flex: 1 }}>
+                      {status.budget.session_id ? projectName(status.budget.session_id) : 'Account (monthly)'}
+                    </Typography>
+                    {status.exceeded && <Chip label="Exceeded" size="small" color="error" />}
+                    <Typography variant="body2" color="text.secondary">
+                      {formatUsd(status.spentUsd)} of {formatUsd(Number(status.budget.limit_usd))}
+                    </Typography>
+                    <IconButton size="small" color="error" onClick={() => handleDeleteBudget(status.budget.id)}>
+                      <Trash size={16} />
+                    </IconButton>
+                  </Box>
+                  <LinearProgress
+                    variant="determinate"
+                    value={status.percentUsed}
+                    color={status.exceeded ? 'error' : status.percentUsed >= 80 ? 'warning' : 'primary'}
+                  />
+                </Box>
+              ))}
+
+              <Box sx={{ display: 'flex', gap: 1, alignItems: 'center', mt: budgetStatuses.length ? 3 : 0 }}>
+                <FormControl size="small" sx={{ minWidth: 220 }}>
+                  <InputLabel>Applies to</InputLabel>
+                  <Select value={budgetScope} label="Applies to" onChange={(e) => setBudgetScope(e.target.value)}>
+                    <MenuItem value="account">Account (monthly)</MenuItem>
+                    {projects.map((project) => (
+                      <MenuItem key={project.id} value={project.id}>
+                        {project.name}
+                      </MenuItem>
+                    ))}
+                  </Select>
+                </FormControl>
+                <TextField
+                  size="small"
+                  type="number"
+                  label="Limit"
+                  value={budgetAmount}
+                  onChange={(e) => setBudgetAmount(e.target.value)}
+                  InputProps={{ startAdornment: <InputAdornment position="start">$</InputAdornment> }}
+                  sx={{ width: 140 }}
+                />
+                <Button
+                  variant="outlined"
+                  onClick={handleSaveBudget}
+                  disabled={isSavingBudget || !(Number(budgetAmount) > 0)}
+                >
+                  Set Budget
+                </Button>
+              </Box>
+            </CardContent>
+          </Card>
+
+          <UsageTable title="By project" groups={summary.byProject} />
+          <Grid container spacing={2}>
+            <Grid item xs={12} md={6}>
+              <UsageTable title="By model" groups={summary.byModel} />
+            </Grid>
+            <Grid item xs={12} md={6}>
+              <UsageTable title="By feature" groups={summary.byFunction} />
+            </Grid>
+          </Grid>
+
+          {records.length === 0 && (
+            <Typography variant="caption" sx={{ color: config.colors.textSecondary }}>
+              Usage is recorded by the server for each AI request from now on.
+            </Typography>
+          )}
+        </Box>
+      )}
+    </Box>
+  );
+}
+
 function BillingTab() {
   const { config } = useThemeStore();
   const { showSuccess } = useSnackbar();
@@ -867,6 +1246,8 @@ function BillingTab() {
         ))}
       </Grid>
 
+      <UsageDashboard />
+
       {/* Billing History Section */}
       <Box sx={{ mt: 6 }}>
         <Typography variant="h6" fontWeight={600} gutterBottom>
@@ -3,7 +3,7 @@
  * Comments are saved to DB for Insights, but only displayed privately per user
  */
 
-import { useEffect, useState, useRef, useCallback } from 'react';
+import { useEffect, useState, useRef, useCallback, useMemo } from 'react';
 import { useParams } from 'react-router-dom';
 import Box from '@mui/material/Box';
 import Typography from '@mui/material/Typography';
@@ -24,14 +24,39 @@ import {
   Check,
   CheckCircle,
   ImageBroken,
+  LockSimple,
+  EnvelopeSimple,
 } from '@phosphor-icons/react';
-import { getShareData, type ShareData } from '@/services/sharingService';
-import { supabasePublic } from '@/services/supabase';
+import { FlowPlayer } from '@/components/Flow';
+import { UsabilityTaskRunner } from '@/components/UsabilityTest';
+import {
+  clearShareGrant,
+  getShareAccess,
+  getShareData,
+  getShareGrant,
+  sendShareSignInLink,
+  unlockShare,
+  type ShareAccess,
+  type ShareData,
+} from '@/services/sharingService';
+import { createCommentAnchorAt, getFrameDocument, type CommentAnchor } from '@/services/commentAnchorService';
+import { useAnchoredPins } from '@/hooks';
+import { getAuthUserSafe, supabasePublic } from '@/services/supabase';
+import { injectRuntimeCore, type AnalyticsBatchPayload, type UsabilityTask } from '@/services/injections';
+import { getShareUsabilityTasks } from '@/services/usabilityTestService';
+import { recordInteractionEvents } from '@/services/interactionAnalyticsService';
 
 // Local storage keys
 const USER_INFO_KEY = 'voxel_share_user';
 const getCommentsKey = (token: string, email: string) => `voxel_comments_${token}_${email}`;
 
+// Why a link that will not open cannot be viewed
+const ACCESS_ERRORS: Partial<Record<ShareAccess['status'], string>> = {
+  not_found: 'Share link not found',
+  expired: 'This share link has expired',
+  revoked: 'This share link has been revoked',
+};
+
 // Generate unique session ID
 const generateSessionId = () => `session_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
 
@@ -45,6 +70,8 @@ interface LocalComment {
   content: string;
   positionX: number | null;
   positionY: number | null;
+  /** Element a pin is attached to; positionX/Y is where it was dropped */
+  anchor?: CommentAnchor | null;
   variantIndex: number | null;
   resolved: boolean;
   createdAt: string;
@@ -55,7 +82,8 @@ async function recordEnhancedView(
   shareId: string,
   variantIndex: number,
   userInfo: UserInfo | null,
-  sessionId: string
+  sessionId: string,
+  accessGrant: string | null
 ): Promise<string | null> {
   try {
     const { data, error } = await supabasePublic.rpc('record_share_view_enhanced', {
@@ -65,20 +93,12 @@ async function recordEnhancedView(
       p_viewer_name: userInfo?.name || null,
       p_session_id: sessionId,
       p_user_agent: navigator.userAgent,
+      p_access_grant: accessGrant,
     });
 
+    // Views are only recorded through the RPC, which checks the access grant
     if (error) {
       console.error('[Share] Error recording view:', error);
-      // Fall back to basic view recording
-      await supabasePublic.from('vibe_share_views').insert({
-        share_id: shareId,
-        variant_index: variantIndex,
-        viewer_ip_hash: 'anonymous',
-        user_agent: navigator.userAgent,
-        viewer_email: userInfo?.email || null,
-        viewer_name: userInfo?.name || null,
-        session_id: sessionId,
-      });
       return null;
     }
 
@@ -125,38 +145,13 @@ async function saveCommentToDb(
       p_position_y: comment.positionY,
       p_variant_index: comment.variantIndex,
       p_parent_id: null,
+      p_anchor: comment.anchor ?? null,
+      p_access_grant: getShareGrant(shareToken),
     });
 
+    // Like views, comments only go through the grant-checked RPC
     if (error) {
       console.error('[Share] Error saving comment to DB via RPC:', error);
-      // Try direct insert as fallback
-      const { data: shareData } = await supabasePublic
-        .from('vibe_shares')
-        .select('id')
-        .eq('share_token', shareToken)
-        .eq('is_active', true)
-        .single();
-
-      if (shareData) {
-        const { error: insertError } = await supabasePublic
-          .from('share_comments')
-          .insert({
-            share_id: shareData.id,
-            user_email: userInfo.email,
-            user_name: userInfo.name,
-            content: comment.content,
-            position_x: comment.positionX,
-            position_y: comment.positionY,
-            variant_index: comment.variantIndex,
-          });
-
-        if (insertError) {
-          console.error('[Share] Fallback insert also failed:', insertError);
-          return false;
-        }
-        console.log('[Share] Comment saved via fallback insert');
-        return true;
-      }
       return false;
     }
 
@@ -176,6 +171,17 @@ export default function SharePage() {
   const [htmlContent, setHtmlContent] = useState<string | null>(null);
   const [wireframeError, setWireframeError] = useState(false);
 
+  // The prototype reports interactions for heatmaps, and judges usability
+  // tasks when the link is a usability test
+  const [usabilityTasks, setUsabilityTasks] = useState<UsabilityTask[]>([]);
+  const previewHtml = useMemo(
+    () =>
+      htmlContent
+        ? injectRuntimeCore(htmlContent, { enableAnalytics: true, usabilityTest: usabilityTasks.length > 0 })
+        : null,
+    [htmlContent, usabilityTasks]
+  );
+
   // Comment state - stored locally per user but also saved to DB for Insights
   const [commentsOpen, setCommentsOpen] = useState(false);
   const [comments, setComments] = useState<LocalComment[]>([]);
@@ -183,10 +189,11 @@ export default function SharePage() {
 
   // Pin mode state
   const [pinMode, setPinMode] = useState(false);
-  const [pendingPin, setPendingPin] = useState<{ x: number; y: number } | null>(null);
+  const [pendingPin, setPendingPin] = useState<{ x: number; y: number; anchor: CommentAnchor | null } | null>(null);
   const [pinComment, setPinComment] = useState('');
   const [hoveredPin, setHoveredPin] = useState<string | null>(null);
   const previewRef = useRef<HTMLDivElement>(null);
+  const [previewFrame, setPreviewFrame] = useState<HTMLIFrameElement | null>(null);
 
   // Session tracking state
   const [viewId, setViewId] = useState<string | null>(null);
@@ -202,6 +209,16 @@ export default function SharePage() {
   const [tempUserInfo, setTempUserInfo] = useState<UserInfo>({ name: '', email: '' });
   const [pendingAction, setPendingAction] = useState<'comment' | 'pin' | null>(null);
 
+  // Access gate for protected links
+  const [accessGate, setAccessGate] = useState<ShareAccess | null>(null);
+  const [accessVersion, setAccessVersion] = useState(0);
+  const [accessPassword, setAccessPassword] = useState('');
+  const [accessEmail, setAccessEmail] = useState('');
+  const [signedInEmail, setSignedInEmail] = useState<string | null>(null);
+  const [signInLinkSent, setSignInLinkSent] = useState(false);
+  const [isUnlocking, setIsUnlocking] = useState(false);
+  const [unlockError, setUnlockError] = useState<string | null>(null);
+
   // Load comments from local storage
   const loadLocalComments = useCallback(() => {
     if (!token || !userInfo?.email) return;
@@ -236,9 +253,35 @@ export default function SharePage() {
       }
 
       try {
+        const access = await getShareAccess(token);
+        if (ACCESS_ERRORS[access.status]) {
+          setError(ACCESS_ERRORS[access.status]!);
+          setLoading(false);
+          return;
+        }
+
+        // Protected links open only with a grant from unlocking them
+        const openAccessGate = async () => {
+          const { user } = await getAuthUserSafe();
+          setSignedInEmail(user?.email ?? null);
+          setAccessGate(access);
+          setLoading(false);
+        };
+
+        if (access.status === 'protected' && !getShareGrant(token)) {
+          await openAccessGate();
+          return;
+        }
+
         const data = await getShareData(token);
 
         if (!data) {
+          if (access.status === 'protected') {
+            // The grant was revoked or ran out
+            clearShareGrant(token);
+            await openAccessGate();
+            return;
+          }
           setError('Share link not found or has expired');
           setLoading(false);
           return;
@@ -251,6 +294,7 @@ export default function SharePage() {
         });
 
         setShareData(data);
+        setUsabilityTasks(await getShareUsabilityTasks(token));
 
         // If html_url is a URL, fetch the content to avoid sandbox restrictions
         if (data.variant.html_url && data.variant.html_url.startsWith('http')) {
@@ -272,7 +316,8 @@ export default function SharePage() {
           data.share.id,
           data.variant.index,
           userInfo,
-          sessionId
+          sessionId,
+          getShareGrant(token)
         );
         if (recordedViewId) {
           setViewId(recordedViewId);
@@ -286,7 +331,7 @@ export default function SharePage() {
     }
 
     loadShare();
-  }, [token, sessionId, userInfo]);
+  }, [token, sessionId, userInfo, accessVersion]);
 
   // Track session duration on page unload
   useEffect(() => {
@@ -328,11 +373,60 @@ export default function SharePage() {
     };
   }, [viewId, sessionStartTime]);
 
+  // Forward the prototype's batched interaction events for heatmaps
+  const variantIndex = shareData?.variant.index;
+  useEffect(() => {
+    if (!previewFrame || !token || variantIndex === undefined) return;
+
+    const handleMessage = (event: MessageEvent) => {
+      if (event.source !== previewFrame.contentWindow) return;
+      const data = event.data;
+      if (!data || data.source !== 'voxel-prototype' || data.type !== 'analytics-batch') return;
+
+      const { events } = data.payload as AnalyticsBatchPayload;
+      recordInteractionEvents(token, variantIndex, sessionId, events);
+    };
+
+    window.addEventListener('message', handleMessage);
+    return () => window.removeEventListener('message', handleMessage);
+  }, [previewFrame, token, variantIndex, sessionId]);
+
   // Load comments when user info is available
   useEffect(() => {
     loadLocalComments();
   }, [loadLocalComments]);
 
+  // Unlock a protected link, then load it with the new grant
+  const handleUnlock = async () => {
+    if (!token) return;
+
+    setIsUnlocking(true);
+    setUnlockError(null);
+    try {
+      await unlockShare(token, accessPassword);
+      setAccessGate(null);
+      setAccessPassword('');
+      setLoading(true);
+      setAccessVersion((v) => v + 1);
+    } catch (err) {
+      setUnlockError(err instanceof Error ? err.message : 'Could not open this link');
+    } finally {
+      setIsUnlocking(false);
+    }
+  };
+
+  const handleSendSignInLink = async () => {
+    if (!token || !accessEmail.trim()) return;
+
+    setUnlockError(null);
+    try {
+      await sendShareSignInLink(token, accessEmail.trim());
+      setSignInLinkSent(true);
+    } catch (err) {
+      setUnlockError(err instanceof Error ? err.message : 'Failed to send sign-in link');
+    }
+  };
+
   // Handle user info submission
   const handleUserInfoSubmit = () => {
     if (!tempUserInfo.name.trim() || !tempUserInfo.email.trim()) return;
@@ -395,7 +489,14 @@ export default function SharePage() {
     const x = ((e.clientX - rect.left) / rect.width) * 100;
     const y = ((e.clientY - rect.top) / rect.height) * 100;
 
-    setPendingPin({ x, y });
+    // Attach the pin to the element under it so it follows that element
+    const frameDoc = previewFrame ? getFrameDocument(previewFrame) : null;
+    const frameRect = previewFrame?.getBoundingClientRect();
+    const anchor = frameDoc && frameRect
+      ? createCommentAnchorAt(frameDoc, { x: e.clientX - frameRect.left, y: e.clientY - frameRect.top })
+      : null;
+
+    setPendingPin({ x, y, anchor });
     setPinComment('');
   };
 
@@ -408,6 +509,7 @@ export default function SharePage() {
       content: pinComment.trim(),
       positionX: pendingPin.x,
       positionY: pendingPin.y,
+      anchor: pendingPin.anchor,
       variantIndex: shareData?.variant.index ?? null,
       resolved: false,
       createdAt: new Date().toISOString(),
@@ -441,6 +543,16 @@ export default function SharePage() {
   const pinComments = comments.filter((c) => c.positionX !== null && c.positionY !== null);
   const generalComments = comments.filter((c) => c.positionX === null);
 
+  // Anchored pins follow their element; the rest stay at the percentage they were dropped at
+  const anchoredPins = useAnchoredPins(previewFrame, pinComments);
+  const isOrphaned = (pinId: string) => anchoredPins.get(pinId)?.status === 'orphaned';
+  const pinPosition = (pin: LocalComment) => {
+    const resolved = anchoredPins.get(pin.id);
+    return resolved?.status === 'anchored'
+      ? { left: resolved.x, top: resolved.y }
+      : { left: `${pin.positionX}%`, top: `${pin.positionY}%` };
+  };
+
   // Format relative time
   const formatTime = (dateStr: string) => {
     const date = new Date(dateStr);
@@ -489,6 +601,97 @@ export default function SharePage() {
     );
   }
 
+  // Protected link - ask for what it requires before loading it
+  if (accessGate) {
+    const needsSignIn = accessGate.requiresEmail && !signedInEmail;
+    return (
+      <Box sx={{ minHeight: '100vh', bgcolor: '#f8f9fa' }}>
+        <Dialog open maxWidth="xs" fullWidth PaperProps={{ sx: { borderRadius: 2 } }}>
+          <DialogTitle sx={{ pb: 1 }}>
+            <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+              <LockSimple size={22} color="#764ba2" />
+              <Typography variant="h6" fontWeight={600}>
+                This prototype is protected
+              </Typography>
+            </Box>
+            <Typography variant="body2" color="text.secondary">
+              {accessGate.requiresEmail && accessGate.requiresPassword
+                ? 'Sign in with your work email and enter the password you were given'
+                : accessGate.requiresEmail
+                  ? 'Sign in with your work email to view it'
+                  : accessGate.requiresPassword
+                    ? 'Enter the password you were given'
+                    : 'Each person who opens this link counts toward its view limit'}
+            </Typography>
+          </DialogTitle>
+          <DialogContent>
+            <Box sx={{ pt: 1, display: 'flex', flexDirection: 'column', gap: 2 }}>
+              {accessGate.requiresEmail && (
+                signedInEmail ? (
+                  <Typography variant="body2" color="text.secondary">
+                    Signed in as <strong>{signedInEmail}</strong>
+                  </Typography>
+                ) : signInLinkSent ? (
+                  <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, color: 'text.secondary' }}>
+                    <EnvelopeSimple size={18} />
+                    <Typography variant="body2">
+                      Check {accessEmail.trim()} for a sign-in link. It brings you back here.
+                    </Typography>
+                  </Box>
+                ) : (
+                  <Box sx={{ display: 'flex', gap: 1, alignItems: 'flex-start' }}>
+                    <TextField
+                      label="Work email"
+                      type="email"
+                      value={accessEmail}
+                      onChange={(e) => setAccessEmail(e.target.value)}
+                      fullWidth
+                      autoFocus
+                      size="small"
+                    />
+                    <Button variant="outlined" onClick={handleSendSignInLink} disabled={!accessEmail.trim()}>
+                      Send link
+                    </Button>
+                  </Box>
+                )
+              )}
+              {accessGate.requiresPassword && (
+                <TextField
+                  label="Password"
+                  type="password"
+                  value={accessPassword}
+                  onChange={(e) => setAccessPassword(e.target.value)}
+                  onKeyDown={(e) => e.key === 'Enter' && !needsSignIn && accessPassword && handleUnlock()}
+                  fullWidth
+                  autoFocus={!accessGate.requiresEmail}
+                  size="small"
+                />
+              )}
+              {unlockError && (
+                <Typography variant="body2" color="error">
+                  {unlockError}
+                </Typography>
+              )}
+            </Box>
+          </DialogContent>
+          <DialogActions sx={{ px: 3, pb: 2 }}>
+            <Button
+              variant="contained"
+              onClick={handleUnlock}
+              disabled={isUnlocking || needsSignIn || (accessGate.requiresPassword && !accessPassword)}
+              sx={{
+                bgcolor: '#764ba2',
+                '&:hover': { bgcolor: '#5a3a7e' },
+              }}
+            >
+              {isUnlocking ? 'Checking...' : 'View prototype'}
+            </Button>
+          </DialogActions>
+        </Dialog>
+      </Box>
+    );
+  }
+
   // Error state
   if (error || !shareData) {
     return (
@@ -514,7 +717,7 @@ export default function SharePage() {
     );
   }
 
-  const { session, variant, share } = shareData;
+  const { session, variant, share, flow } = shareData;
   const variantLetter = String.fromCharCode(64 + variant.index);
   const totalComments = comments.length;
 
@@ -700,6 +903,11 @@ export default function SharePage() {
                 <Typography variant="caption" display="block" sx={{ opacity: 0.7, mt: 0.5 }}>
                   {formatTime(pin.createdAt)}
                 </Typography>
+                {isOrphaned(pin.id) && (
+                  <Typography variant="caption" display="block" sx={{ opacity: 0.7, mt: 0.5, fontStyle: 'italic' }}>
+                    The element this was on is no longer on the page
+                  </Typography>
+                )}
               </Box>
             }
             placement="top"
@@ -713,13 +921,13 @@ export default function SharePage() {
               }}
               sx={{
                 position: 'absolute',
-                left: `${pin.positionX}%`,
-                top: `${pin.positionY}%`,
+                ...pinPosition(pin),
                 transform: 'translate(-50%, -50%)',
                 width: hoveredPin === pin.id ? 32 : 26,
                 height: hoveredPin === pin.id ? 32 : 26,
                 borderRadius: '50%',
-                bgcolor: pin.resolved ? '#4caf50' : '#764ba2',
+                bgcolor: pin.resolved ? '#4caf50' : isOrphaned(pin.id) ? '#9e9e9e' : '#764ba2',
+                opacity: isOrphaned(pin.id) ? 0.75 : 1,
                 color: 'white',
                 display: 'flex',
                 alignItems: 'center',
@@ -732,7 +940,7 @@ export default function SharePage() {
                   ? '0 4px 12px rgba(118, 75, 162, 0.4)'
                   : '0 2px 8px rgba(0,0,0,0.2)',
                 transition: 'all 0.15s ease',
-                border: '2px solid white',
+                border: isOrphaned(pin.id) ? '2px dashed white' : '2px solid white',
               }}
             >
               {idx + 1}
@@ -826,7 +1034,16 @@ export default function SharePage() {
         )}
 
         {/* Content display */}
-        {share.shareWireframes ? (
+        {flow ? (
+          // Multi-screen flow, starting at its start screen
+          <Box sx={{ position: 'absolute', inset: 0, pointerEvents: pinMode ? 'none' : 'auto' }}>
+            <FlowPlayer
+              flowId={flow.id}
+              graph={{ start_node_id: flow.startNodeId, nodes: flow.nodes, hotspots: flow.hotspots }}
+              screens={flow.screens}
+            />
+          </Box>
+        ) : share.shareWireframes ? (
           // Wireframe display
           variant.wireframe_url && !wireframeError ? (
             <Box
@@ -877,7 +1094,8 @@ export default function SharePage() {
           )
         ) : htmlContent ? (
           <iframe
-            srcDoc={htmlContent}
+            ref={setPreviewFrame}
+            srcDoc={previewHtml ?? undefined}
             title={`${session.name} - Variant ${variantLetter}`}
             style={{
               width: '100%',
@@ -893,6 +1111,7 @@ export default function SharePage() {
           />
         ) : variant.html_url ? (
           <iframe
+            ref={setPreviewFrame}
             src={variant.html_url}
             title={`${session.name} - Variant ${variantLetter}`}
             style={{
@@ -921,6 +1140,19 @@ export default function SharePage() {
           </Box>
         )}
 
+        {/* Usability test tasks */}
+        {htmlContent && !share.shareWireframes && !flow && usabilityTasks.length > 0 && token && (
+          <Box onClick={(e) => e.stopPropagation()}>
+            <UsabilityTaskRunner
+              token={token}
+              variantIndex={variant.index}
+              participantId={sessionId}
+              tasks={usabilityTasks}
+              frame={previewFrame}
+            />
+          </Box>
+        )}
+
         {/* Pin mode hint */}
         {pinMode && !pendingPin && (
           <Fade in>
@@ -1073,6 +1305,7 @@ export default function SharePage() {
                         key={comment.id}
                         comment={comment}
                         pinNumber={idx + 1}
+                        orphaned={isOrphaned(comment.id)}
                         formatTime={formatTime}
                         onToggleResolved={() => handleToggleResolved(comment.id)}
                         onDelete={() => handleDeleteComment(comment.id)}
@@ -1218,12 +1451,14 @@ export default function SharePage() {
 interface CommentCardProps {
   comment: LocalComment;
   pinNumber?: number;
+  /** The pin's element is no longer on the page */
+  orphaned?: boolean;
   formatTime: (date: string) => string;
   onToggleResolved: () => void;
   onDelete: () => void;
 }
 
-function CommentCard({ comment, pinNumber, formatTime, onToggleResolved, onDelete }: CommentCardProps) {
+function CommentCard({ comment, pinNumber, orphaned, formatTime, onToggleResolved, onDelete }: CommentCardProps) {
   const [showActions, setShowActions] = useState(false);
 
   return (
@@ -1265,6 +1500,15 @@ function CommentCard({ comment, pinNumber, formatTime, onToggleResolved, onDelet
               {pinNumber}
             </Box>
           )}
+          {orphaned && (
+            <Tooltip title="The element this pin was on is no longer on the page">
+              <Chip
+                size="small"
+                label="Element removed"
+                sx={{ height: 20, fontSize: 10, bgcolor: 'rgba(0,0,0,0.06)', color: 'text.secondary' }}
+              />
+            </Tooltip>
+          )}
           {comment.resolved && (
             <Chip
               size="small"
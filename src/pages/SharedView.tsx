@@ -1,4 +1,4 @@
-import { useState, useEffect, useRef } from 'react';
+import { useState, useEffect } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
 import Box from '@mui/material/Box';
 import Typography from '@mui/material/Typography';
@@ -21,6 +21,8 @@ import DeleteOutlinedIcon from '@mui/icons-material/DeleteOutlined';
 import { Button, TextField, Chip, Switch } from '@/components/ui';
 
 import { EmptyState } from '@/components';
+import { useAnchoredPins } from '@/hooks';
+import { createCommentAnchorAt, getFrameDocument } from '@/services/commentAnchorService';
 import {
   useMultiplayerStore,
   formatRelativeTime,
@@ -31,9 +33,11 @@ import {
 function CommentItem({
   comment,
   prototypeId,
+  orphaned,
 }: {
   comment: Comment;
   prototypeId: string;
+  orphaned?: boolean;
 }) {
   const { addComment, deleteComment, resolveComment, getReplies, currentUser } =
     useMultiplayerStore();
@@ -107,7 +111,11 @@ function CommentItem({
       {/* Position indicator */}
       {comment.position && (
         <Typography variant="caption" color="text.secondary" sx={{ display: 'block', mt: 0.5 }}>
-          📍 Position: ({Math.round(comment.position.x)}, {Math.round(comment.position.y)})
+          {orphaned
+            ? '📍 The element this pin was on is no longer on the page'
+            : comment.anchor
+              ? `📍 Pinned to <${comment.anchor.tagName}>${comment.anchor.text ? ` "${comment.anchor.text}"` : ''}`
+              : `📍 Position: (${Math.round(comment.position.x)}, ${Math.round(comment.position.y)})`}
         </Typography>
       )}
 
@@ -186,9 +194,14 @@ export function SharedView() {
   const [newComment, setNewComment] = useState('');
   const [commentMode, setCommentMode] = useState(false);
   const [showResolved, setShowResolved] = useState(false);
-  const iframeRef = useRef<HTMLIFrameElement>(null);
+  const [previewFrame, setPreviewFrame] = useState<HTMLIFrameElement | null>(null);
 
   const prototype = shareLink ? getPrototypeByShareLink(shareLink) : undefined;
+  const comments = prototype ? getCommentsForPrototype(prototype.id) : [];
+
+  // Anchored pins follow their element when the frame resizes or its content changes
+  const anchoredPins = useAnchoredPins(previewFrame, comments);
+  const isOrphaned = (commentId: string) => anchoredPins.get(commentId)?.status === 'orphaned';
 
   // Simulate presence on mount
   useEffect(() => {
@@ -227,7 +240,6 @@ export function SharedView() {
     );
   }
 
-  const comments = getCommentsForPrototype(prototype.id);
   const filteredComments = showResolved
     ? comments
     : comments.filter((c) => !c.resolved);
@@ -242,15 +254,19 @@ export function SharedView() {
   const handleIframeClick = (e: React.MouseEvent) => {
     if (!commentMode || !prototype.allowComments) return;
 
-    const rect = iframeRef.current?.getBoundingClientRect();
-    if (!rect) return;
+    const rect = previewFrame?.getBoundingClientRect();
+    if (!previewFrame || !rect) return;
 
     const x = e.clientX - rect.left;
     const y = e.clientY - rect.top;
 
+    // Attach the pin to the element under it when the frame can be read
+    const frameDoc = getFrameDocument(previewFrame);
+    const anchor = frameDoc ? createCommentAnchorAt(frameDoc, { x, y }) : null;
+
     const comment = prompt('Add a comment at this position:');
     if (comment) {
-      addComment(prototype.id, comment, { x, y });
+      addComment(prototype.id, comment, { x, y }, undefined, anchor);
     }
     setCommentMode(false);
   };
@@ -412,51 +428,61 @@ export function SharedView() {
           {/* Comment pins on the prototype */}
           {comments
             .filter((c) => c.position && !c.resolved)
-            .map((comment, index) => (
-              <Tooltip
-                key={comment.id}
-                title={
-                  <Box>
-                    <Typography variant="caption" fontWeight={600}>
-                      {comment.userName}
-                    </Typography>
-                    <br />
-                    {comment.content.substring(0, 50)}
-                    {comment.content.length > 50 && '...'}
-                  </Box>
-                }
-              >
-                <Box
-                  sx={{
-                    position: 'absolute',
-                    left: comment.position!.x,
-                    top: comment.position!.y + 60,
-                    width: 24,
-                    height: 24,
-                    borderRadius: '50%',
-                    bgcolor: 'primary.main',
-                    color: 'white',
-                    display: 'flex',
-                    alignItems: 'center',
-                    justifyContent: 'center',
-                    fontSize: 12,
-                    fontWeight: 'bold',
-                    cursor: 'pointer',
-                    boxShadow: 2,
-                    zIndex: 15,
-                  }}
-                  onClick={(e) => {
-                    e.stopPropagation();
-                    setSidebarOpen(true);
-                  }}
+            .map((comment, index) => {
+              const resolved = anchoredPins.get(comment.id);
+              return (
+                <Tooltip
+                  key={comment.id}
+                  title={
+                    <Box>
+                      <Typography variant="caption" fontWeight={600}>
+                        {comment.userName}
+                      </Typography>
+                      <br />
+                      {comment.content.substring(0, 50)}
+                      {comment.content.length > 50 && '...'}
+                      {resolved?.status === 'orphaned' && (
+                        <>
+                          <br />
+                          <em>The element this was on is no longer on the page</em>
+                        </>
+                      )}
+                    </Box>
+                  }
                 >
-                  {index + 1}
-                </Box>
-              </Tooltip>
-            ))}
+                  <Box
+                    sx={{
+                      position: 'absolute',
+                      left: resolved?.status === 'anchored' ? resolved.x - 12 : comment.position!.x,
+                      top: resolved?.status === 'anchored' ? resolved.y - 12 : comment.position!.y + 60,
+                      width: 24,
+                      height: 24,
+                      borderRadius: '50%',
+                      bgcolor: resolved?.status === 'orphaned' ? 'grey.500' : 'primary.main',
+                      opacity: resolved?.status === 'orphaned' ? 0.75 : 1,
+                      color: 'white',
+                      display: 'flex',
+                      alignItems: 'center',
+                      justifyContent: 'center',
+                      fontSize: 12,
+                      fontWeight: 'bold',
+                      cursor: 'pointer',
+                      boxShadow: 2,
+                      zIndex: 15,
+                    }}
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      setSidebarOpen(true);
+                    }}
+                  >
+                    {index + 1}
+                  </Box>
+                </Tooltip>
+              );
+            })}
 
           <iframe
-            ref={iframeRef}
+            ref={setPreviewFrame}
             src={prototype.html}
             style={{
               width: '100%',
@@ -544,6 +570,7 @@ export function SharedView() {
                   key={comment.id}
                   comment={comment}
                   prototypeId={prototype.id}
+                  orphaned={isOrphaned(comment.id)}
                 />
               ))
             )}
@@ -76,12 +76,16 @@ import {
   ClockCounterClockwise,
   Shuffle,
   Timer,
+  LockSimple,
   Lightbulb,
   ListChecks,
   PencilLine,
   Cube,
   UsersThree,
   Plus,
+  TreeStructure,
+  GitDiff,
+  MagicWand,
 } from '@phosphor-icons/react';
 
 import { useSnackbar } from '@/components/SnackbarProvider';
@@ -89,7 +93,7 @@ import { useScreensStore } from '@/store/screensStore';
 import { useVibeStore, type ChatMessage } from '@/store/vibeStore';
 import { useContextStore } from '@/store/contextStore';
 import { useThemeStore } from '@/store/themeStore';
-import { getContextFiles, type ContextFile } from '@/services/contextFilesService';
+import { getContextFiles, retrieveProductContext, type ContextFile } from '@/services/contextFilesService';
 
 import { supabase } from '@/services/supabase';
 import {
@@ -106,7 +110,7 @@ import {
 } from '@/services/variantPlanService';
 import {
   getVariants,
-  saveVariantEditedHtml,
+  getVariantHtmlContent,
   saveVariantPartialHtml,
   getPartialHtmlForSession,
   GenerationError,
@@ -130,7 +134,22 @@ import {
 } from '@/services/iterationService';
 import {
   generateVariantsFromEdits,
+  toggleVariantAiChange,
+  rebaseVariantAiChanges,
+  saveVariantAiChanges,
 } from '@/services/variantEditsService';
+import {
+  EditLogTree,
+  loadEditLog,
+  recordEdit,
+  resolveEditMerge,
+  checkoutEditNode,
+  forkVariantFromNode,
+  type EditMerge,
+  type EditNodeComparison,
+} from '@/services/editLogService';
+import type { ConflictResolution } from '@/services/editMergeService';
+import { stripElementIds } from '@/services/elementIdentityService';
 import {
   generateUnderstanding,
   approveUnderstanding as approveUnderstandingService,
@@ -138,10 +157,23 @@ import {
 } from '@/services/understandingService';
 import {
   createShareLink,
+  parseAllowedDomains,
   type ShareType,
   type ShareLink,
 } from '@/services/sharingService';
 import DualModeEditor from '@/components/DualModeEditor';
+import { EditHistoryTree } from '@/components/Vibe/EditHistoryTree';
+import { AiChangeList } from '@/components/Vibe/AiChangeList';
+import { EditConflictList } from '@/components/Vibe/EditConflictList';
+import { HtmlDiffViewer } from '@/components/Vibe/HtmlDiffViewer';
+import { ContextCitations } from '@/components/Vibe/ContextCitations';
+import { ShareLinksPanel } from '@/components/Vibe/ShareLinksPanel';
+import { UsabilityTaskEditor } from '@/components/UsabilityTest';
+import {
+  isUsabilityTaskComplete,
+  saveUsabilityTasks,
+} from '@/services/usabilityTestService';
+import type { UsabilityTask } from '@/services/injections';
 import WYSIWYGEditor from '@/components/WYSIWYGEditor';
 import { captureHtmlScreenshot, compressScreenshot } from '@/services/screenshotService';
 import { quickEnhance } from '@/services/injectionService';
@@ -1207,6 +1239,7 @@ function InlineExpansionGrid({
   focusedIndex,
   onEditClick,
   onIterateClick,
+  onReviewChangesClick,
   getVariantByIndex,
   viewMode = 'prototypes',
   enableInteractivity = false,
@@ -1215,6 +1248,8 @@ function InlineExpansionGrid({
   focusedIndex: number;
   onEditClick?: () => void;
   onIterateClick?: () => void;
+  /** Open the list of AI changes, for variants generated from edit operations */
+  onReviewChangesClick?: () => void;
   getVariantByIndex: (index: number) => { html_url?: string; status: string; iteration_count?: number } | undefined;
   viewMode?: 'wireframes' | 'prototypes';
   enableInteractivity?: boolean;
@@ -1316,6 +1351,24 @@ function InlineExpansionGrid({
         {/* Right: Action buttons for complete variants */}
         {isComplete && (
           <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+            {onReviewChangesClick && (
+              <Button
+                variant="outlined"
+                size="small"
+                startIcon={<MagicWand size={16} />}
+                onClick={onReviewChangesClick}
+                sx={{
+                  borderColor: 'grey.400',
+                  color: 'text.secondary',
+                  '&:hover': {
+                    borderColor: 'grey.600',
+                    bgcolor: 'grey.50',
+                  },
+                }}
+              >
+                AI Changes
+              </Button>
+            )}
             {onIterateClick && (
               <Button
                 variant="outlined"
@@ -1449,7 +1502,7 @@ function AttachmentChip({
 export const VibePrototyping: React.FC = () => {
   const { screenId, sessionId } = useParams<{ screenId: string; sessionId?: string }>();
   const navigate = useNavigate();
-  const { showSuccess, showError } = useSnackbar();
+  const { showSuccess, showError, showInfo, showWarning } = useSnackbar();
   const { config } = useThemeStore();
 
   // External stores
@@ -1500,6 +1553,13 @@ export const VibePrototyping: React.FC = () => {
   const [shareVariantIndex, setShareVariantIndex] = useState<number>(1);
   const [shareExpiration, setShareExpiration] = useState<number | null>(null); // null = never
   const [shareWireframes, setShareWireframes] = useState(false); // Share wireframes vs prototypes
+  const [sharePassword, setSharePassword] = useState('');
+  const [shareDomains, setShareDomains] = useState('');
+  const [shareMaxViews, setShareMaxViews] = useState('');
+  const [shareAccessError, setShareAccessError] = useState<string | null>(null);
+  const [shareLinksVersion, setShareLinksVersion] = useState(0);
+  const [shareUsabilityTasks, setShareUsabilityTasks] = useState<UsabilityTask[]>([]);
+  const [createdShareTaskCount, setCreatedShareTaskCount] = useState(0);
   const [isCreatingShare, setIsCreatingShare] = useState(false);
   const [viewMode, setViewMode] = useState<'wireframes' | 'prototypes'>('prototypes'); // Toggle between views
   const [createdShare, setCreatedShare] = useState<ShareLink | null>(null);
@@ -1530,6 +1590,10 @@ export const VibePrototyping: React.FC = () => {
   const containerRef = useRef<HTMLDivElement>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
   const variantEditDebounceRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  // Branchable edit log of the focused variant (mutable tree, re-render via revision)
+  const editLogRef = useRef<EditLogTree | null>(null);
+  const variantBaseHtmlRef = useRef<string | null>(null);
+  const [, setEditLogRevision] = useState(0);
   const partialHtmlSaveRef = useRef<Record<number, ReturnType<typeof setTimeout>>>({});
   const lastSavedLengthRef = useRef<Record<number, number>>({});
   const chatAreaRef = useRef<HTMLDivElement>(null);
@@ -1565,6 +1629,21 @@ export const VibePrototyping: React.FC = () => {
   const [isSavingVariantEdit, setIsSavingVariantEdit] = useState(false);
   const [hasUnsavedVariantChanges, setHasUnsavedVariantChanges] = useState(false);
 
+  // A save that raced another write to the same edit log (e.g. a chat iteration
+  // landing while editing code). Conflicts wait for the user to pick a side.
+  const [pendingMerge, setPendingMerge] = useState<{ variantId: string; nodeId: string; merge: EditMerge } | null>(null);
+  const [mergeResolutions, setMergeResolutions] = useState<Record<number, ConflictResolution>>({});
+  const [isResolvingMerge, setIsResolvingMerge] = useState(false);
+
+  const notifyEditMerge = useCallback((variantId: string, nodeId: string, merge: EditMerge) => {
+    if (merge.unresolved.length > 0) {
+      setMergeResolutions({});
+      setPendingMerge({ variantId, nodeId, merge });
+    } else {
+      showInfo('Merged with changes saved elsewhere');
+    }
+  }, [showInfo]);
+
   // Debounced save for variant HTML edits (1 second delay)
   const debouncedSaveVariantHtml = useCallback((variantId: string, html: string) => {
     // Clear existing timer
@@ -1576,29 +1655,46 @@ export const VibePrototyping: React.FC = () => {
 
     // Set new timer
     variantEditDebounceRef.current = setTimeout(async () => {
+      const variant = variants.find(v => v.id === variantId);
+      if (!variant) return;
+
       setIsSavingVariantEdit(true);
       try {
-        const success = await saveVariantEditedHtml(variantId, html);
-        if (success) {
-          setHasUnsavedVariantChanges(false);
-          // Update the variant in the store with edited_html
-          const updatedVariants = variants.map(v =>
-            v.id === variantId
-              ? { ...v, edited_html: html, edited_at: new Date().toISOString() }
-              : v
-          );
-          setVariants(updatedVariants);
-          console.log('[VibePrototyping] Variant HTML saved successfully');
-        } else {
-          console.error('[VibePrototyping] Failed to save variant HTML');
+        // Record the edit in the variant's edit log (also persists edited_html)
+        const tree = editLogRef.current ?? new EditLogTree();
+        editLogRef.current = tree;
+        const { node, merge } = await recordEdit(tree, variant, {
+          htmlBefore: variantBaseHtmlRef.current ?? html,
+          htmlAfter: html,
+          source: 'user',
+        });
+        // A merge with a concurrent save changes what is in the editor
+        const savedHtml = merge ? tree.materialize(node.id) : html;
+        variantBaseHtmlRef.current = savedHtml;
+        if (merge) {
+          setFetchedVariantHtml(savedHtml);
+          notifyEditMerge(variantId, node.id, merge);
         }
+        setEditLogRevision(r => r + 1);
+        setHasUnsavedVariantChanges(false);
+        // AI changes whose inverses no longer resolve can't be rejected any more
+        const aiChanges = variant.ai_changes && rebaseVariantAiChanges(savedHtml, variant.ai_changes);
+        if (aiChanges) await saveVariantAiChanges(variantId, aiChanges);
+        // Update the variant in the store with edited_html
+        const updatedVariants = variants.map(v =>
+          v.id === variantId
+            ? { ...v, edited_html: savedHtml, edited_at: new Date().toISOString(), edit_head_id: node.id, ai_changes: aiChanges }
+            : v
+        );
+        setVariants(updatedVariants);
+        console.log('[VibePrototyping] Variant HTML saved successfully');
       } catch (error) {
         console.error('[VibePrototyping] Error saving variant HTML:', error);
       } finally {
         setIsSavingVariantEdit(false);
       }
     }, 1000);
-  }, [variants, setVariants]);
+  }, [variants, setVariants, notifyEditMerge]);
 
   // Debounced save for partial HTML during streaming (3 second delay, min 5KB change)
   const debouncedSavePartialHtml = useCallback((
@@ -1703,6 +1799,18 @@ export const VibePrototyping: React.FC = () => {
   const [isIterating, setIsIterating] = useState(false);
   const [iterationHistory, setIterationHistory] = useState<VibeIteration[]>([]);
   const [showIterationHistory, setShowIterationHistory] = useState(false);
+  const [showEditHistory, setShowEditHistory] = useState(false);
+  const [showAiChanges, setShowAiChanges] = useState(false);
+  const [isTogglingAiChange, setIsTogglingAiChange] = useState(false);
+  const [isCheckingOutEdit, setIsCheckingOutEdit] = useState(false);
+  const [editComparison, setEditComparison] = useState<EditNodeComparison | null>(null);
+  const [htmlDiff, setHtmlDiff] = useState<{
+    title: string;
+    beforeHtml: string;
+    afterHtml: string;
+    beforeLabel: string;
+    afterLabel: string;
+  } | null>(null);
 
   // Generation error state (for retry dialog)
   const [generationError, setGenerationError] = useState<{
@@ -2003,12 +2111,21 @@ export const VibePrototyping: React.FC = () => {
       };
       addDebugLog('request', 'understand-request', understandingRequest);
 
+      // Only the parts of the product context relevant to this request
+      const productContext = await retrieveProductContext(prompt);
+      if (productContext.citations.length > 0) {
+        addDebugLog('request', 'product-context', {
+          tokens: productContext.tokens,
+          sources: productContext.citations.map(c => `[${c.index}] ${c.fileTitle}${c.section ? ` › ${c.section}` : ''}`),
+        });
+      }
+
       const understandingResult = await generateUnderstanding(
         session.id,
         prompt,
         screen.editedHtml,
         metadata,
-        undefined, // productContext
+        productContext.text || undefined,
         selectedProvider || undefined, // provider - use selected from dropdown
         selectedModel || undefined, // model - use selected from dropdown
         (p: { message: string; percent: number }) => {
@@ -2036,6 +2153,7 @@ export const VibePrototyping: React.FC = () => {
         model: understandingResult.model,
         provider: understandingResult.provider,
         approved: false,
+        citations: productContext.citations,
       });
 
       // Stop at understanding_ready - user must approve understanding before planning
@@ -2046,7 +2164,12 @@ export const VibePrototyping: React.FC = () => {
       setIsProcessingPrompt(false);
       setPendingPrompt(null);
 
-      addChatMessage('assistant', `Here's my understanding of your request. Please review and confirm, or provide additional clarification if needed.`);
+      addChatMessage(
+        'assistant',
+        `Here's my understanding of your request. Please review and confirm, or provide additional clarification if needed.`,
+        undefined,
+        { stage: 'understanding', citations: productContext.citations }
+      );
     } catch (err) {
       console.error('Error generating understanding:', err);
       const errorMsg = err instanceof Error ? err.message : 'Failed to analyze request';
@@ -2087,12 +2210,19 @@ export const VibePrototyping: React.FC = () => {
 
       addChatMessage('assistant', 'Great! Now generating 4 unique design approaches based on your request...');
 
+      // Retrieve again with the approved goals, which name what the variants must move
+      const productContext = await retrieveProductContext(
+        [currentSession.prompt, understanding?.response.summary, ...(understanding?.response.goals || [])]
+          .filter(Boolean)
+          .join('\n')
+      );
+
       const result = await generateVariantPlan(
         currentSession.id,
         currentSession.prompt,
         screen.editedHtml,
         sourceMetadata || undefined,
-        undefined,
+        productContext.text || undefined,
         (p) => {
           setProgress({
             stage: 'planning',
@@ -2109,6 +2239,7 @@ export const VibePrototyping: React.FC = () => {
         plans: result.plans,
         model: result.model,
         provider: result.provider,
+        citations: productContext.citations,
       });
 
       setSession(result.session);
@@ -2117,14 +2248,19 @@ export const VibePrototyping: React.FC = () => {
       setStatus('plan_ready');
       setProgress(null);
 
-      addChatMessage('assistant', `I've created 4 unique paradigms to explore. Review each approach below, select which ones you want to proceed with, then click "Create Wireframes".`);
+      addChatMessage(
+        'assistant',
+        `I've created 4 unique paradigms to explore. Review each approach below, select which ones you want to proceed with, then click "Create Wireframes".`,
+        undefined,
+        { stage: 'planning', citations: productContext.citations }
+      );
     } catch (err) {
       console.error('Error generating plan:', err);
       const errorMsg = err instanceof Error ? err.message : 'Failed to generate plan';
       setError(errorMsg);
       showError('Failed to generate variant plan');
     }
-  }, [currentSession, screen, sourceMetadata, screenScreenshot, selectedProvider, selectedModel, storeApproveUnderstanding]);
+  }, [currentSession, screen, sourceMetadata, understanding, screenScreenshot, selectedProvider, selectedModel, storeApproveUnderstanding]);
 
   // Handle clarification - user wants to elaborate on their request
   const [clarificationInput, setClarificationInput] = useState('');
@@ -2146,13 +2282,15 @@ export const VibePrototyping: React.FC = () => {
         percent: 20,
       });
 
+      const productContext = await retrieveProductContext(`${currentSession.prompt}\n${clarificationInput.trim()}`);
+
       const understandingResult = await clarifyRequest(
         currentSession.id,
         currentSession.prompt,
         clarificationInput.trim(),
         screen.editedHtml,
         sourceMetadata || undefined,
-        undefined, // productContext
+        productContext.text || undefined,
         selectedProvider || undefined, // provider - use selected from dropdown
         selectedModel || undefined, // model - use selected from dropdown
         (p: { message: string; percent: number }) => {
@@ -2171,13 +2309,19 @@ export const VibePrototyping: React.FC = () => {
         model: understandingResult.model,
         provider: understandingResult.provider,
         approved: false,
+        citations: productContext.citations,
       });
 
       setStatus('understanding_ready');
       setProgress(null);
       setClarificationInput('');
 
-      addChatMessage('assistant', `I've updated my understanding based on your clarification. Please review again.`);
+      addChatMessage(
+        'assistant',
+        `I've updated my understanding based on your clarification. Please review again.`,
+        undefined,
+        { stage: 'understanding', citations: productContext.citations }
+      );
     } catch (err) {
       console.error('Error clarifying:', err);
       showError('Failed to process clarification');
@@ -2323,7 +2467,27 @@ export const VibePrototyping: React.FC = () => {
       }
 
       console.log('[VibePrototyping] Using V2 edit-based generation for UI consistency');
-      addChatMessage('assistant', 'Generating variants using targeted edits to preserve your original design system. This ensures UI consistency across all prototypes.');
+
+      // The plans name the concrete changes, so retrieve against them rather than the prompt alone
+      const productContext = await retrieveProductContext(
+        [
+          currentSession.prompt,
+          ...plan.plans.map(p => `${p.title}\n${p.description}\n${p.key_changes.join('\n')}`),
+        ].join('\n')
+      );
+      if (productContext.citations.length > 0) {
+        addDebugLog('request', 'product-context', {
+          tokens: productContext.tokens,
+          sources: productContext.citations.map(c => `[${c.index}] ${c.fileTitle}${c.section ? ` › ${c.section}` : ''}`),
+        });
+      }
+
+      addChatMessage(
+        'assistant',
+        'Generating variants using targeted edits to preserve your original design system. This ensures UI consistency across all prototypes.',
+        undefined,
+        { stage: 'generating', citations: productContext.citations }
+      );
 
       await generateVariantsFromEdits(
         currentSession.id,
@@ -2356,7 +2520,8 @@ export const VibePrototyping: React.FC = () => {
         },
         screenScreenshot,
         selectedProvider || undefined,
-        selectedModel || undefined
+        selectedModel || undefined,
+        productContext.text || undefined
       );
 
       // Fetch final variants from database
@@ -2397,7 +2562,7 @@ export const VibePrototyping: React.FC = () => {
         }).eq('id', currentSession.id);
       }
     }
-  }, [currentSession, plan, sourceMetadata, screenScreenshot, wireframes, contextFiles, selectedProvider, selectedModel, addChatMessage, setVariants, setStatus, setProgress, setError, debouncedSavePartialHtml, showError, showSuccess, screen]);
+  }, [currentSession, plan, sourceMetadata, screenScreenshot, wireframes, contextFiles, selectedProvider, selectedModel, addChatMessage, addDebugLog, setVariants, setStatus, setProgress, setError, debouncedSavePartialHtml, showError, showSuccess, screen]);
 
   // Handle Rebuild - re-run V2 generation for projects that already have wireframes/plans
   const [isRebuilding, setIsRebuilding] = useState(false);
@@ -2471,6 +2636,9 @@ export const VibePrototyping: React.FC = () => {
       );
 
       if (result.success && result.htmlUrl) {
+        // The rewrite no longer derives from the AI batch, so its changes can't be toggled
+        if (focusedVariant.ai_changes) await saveVariantAiChanges(focusedVariant.id, null);
+
         // Refresh variants to get updated URL
         const updatedVariants = await getVariants(currentSession.id);
         setVariants(updatedVariants);
@@ -2480,6 +2648,28 @@ export const VibePrototyping: React.FC = () => {
         const newHtml = await response.text();
         setFetchedVariantHtml(newHtml);
 
+        // Record the AI rewrite in the edit log so it can be undone like any edit
+        try {
+          const tree = editLogRef.current ?? new EditLogTree();
+          editLogRef.current = tree;
+          const { node, merge } = await recordEdit(tree, focusedVariant, {
+            htmlBefore: fetchedVariantHtml,
+            htmlAfter: newHtml,
+            source: 'ai',
+            description: iterationPrompt,
+          });
+          variantBaseHtmlRef.current = newHtml;
+          if (merge) {
+            const mergedHtml = tree.materialize(node.id);
+            variantBaseHtmlRef.current = mergedHtml;
+            setFetchedVariantHtml(mergedHtml);
+            notifyEditMerge(focusedVariant.id, node.id, merge);
+          }
+          setEditLogRevision(r => r + 1);
+        } catch (logError) {
+          console.error('[VibePrototyping] Failed to record iteration in edit log:', logError);
+        }
+
         // Refresh iteration history
         const history = await getIterationHistory(focusedVariant.id);
         setIterationHistory(history);
@@ -2509,6 +2699,8 @@ export const VibePrototyping: React.FC = () => {
     try {
       const result = await revertToIteration(focusedVariant.id, iterationId);
       if (result.success && result.htmlUrl) {
+        if (focusedVariant.ai_changes) await saveVariantAiChanges(focusedVariant.id, null);
+
         // Refresh variants
         if (currentSession) {
           const updatedVariants = await getVariants(currentSession.id);
@@ -2542,6 +2734,180 @@ export const VibePrototyping: React.FC = () => {
     }
   }, [focusedVariantIndex, getVariantByIndex]);
 
+  // Load the edit log when focusing on a variant
+  const focusedVariantId = focusedVariantIndex ? getVariantByIndex(focusedVariantIndex)?.id : undefined;
+  useEffect(() => {
+    editLogRef.current = null;
+    setEditLogRevision(r => r + 1);
+    if (!focusedVariantId) return;
+
+    let cancelled = false;
+    loadEditLog(focusedVariantId).then((tree) => {
+      if (cancelled) return;
+      editLogRef.current = tree;
+      setEditLogRevision(r => r + 1);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [focusedVariantId]);
+
+  // Move the edit log head to any node (undo, redo or branch jump)
+  const handleCheckoutEdit = useCallback(async (nodeId: string) => {
+    const tree = editLogRef.current;
+    if (!tree || !focusedVariantId) return;
+
+    setIsCheckingOutEdit(true);
+    try {
+      const html = await checkoutEditNode(tree, focusedVariantId, nodeId);
+      variantBaseHtmlRef.current = html;
+      setFetchedVariantHtml(html);
+      // Another version's HTML doesn't match the recorded rejection state
+      if (variants.find(v => v.id === focusedVariantId)?.ai_changes) {
+        await saveVariantAiChanges(focusedVariantId, null);
+      }
+      setVariants(variants.map(v =>
+        v.id === focusedVariantId
+          ? { ...v, edited_html: html, edited_at: new Date().toISOString(), edit_head_id: nodeId, ai_changes: null }
+          : v
+      ));
+      setEditLogRevision(r => r + 1);
+    } catch (err) {
+      console.error('[VibePrototyping] Error checking out edit:', err);
+      showError('Failed to restore edit');
+    } finally {
+      setIsCheckingOutEdit(false);
+    }
+  }, [focusedVariantId, variants, setVariants, showError]);
+
+  const handleUndoEdit = useCallback(() => {
+    const parentId = editLogRef.current?.getHead()?.parent_id;
+    if (parentId) handleCheckoutEdit(parentId);
+  }, [handleCheckoutEdit]);
+
+  const handleRedoEdit = useCallback(() => {
+    const tree = editLogRef.current;
+    const headId = tree?.getHeadId();
+    if (!tree || !headId) return;
+    const children = tree.getChildren(headId);
+    if (children.length > 0) handleCheckoutEdit(children[children.length - 1].id);
+  }, [handleCheckoutEdit]);
+
+  const handleForkFromEdit = useCallback(async (nodeId: string) => {
+    const tree = editLogRef.current;
+    const sourceVariant = focusedVariantId ? variants.find(v => v.id === focusedVariantId) : undefined;
+    if (!tree || !sourceVariant || !currentSession) return;
+
+    const result = await forkVariantFromNode(tree, sourceVariant, nodeId);
+    if (result.success && result.variant) {
+      const updatedVariants = await getVariants(currentSession.id);
+      setVariants(updatedVariants);
+      setShowEditHistory(false);
+      showSuccess(`Forked into Variant ${String.fromCharCode(64 + result.variant.variant_index)}`);
+    } else {
+      showError(result.error || 'Failed to fork variant');
+    }
+  }, [focusedVariantId, variants, currentSession, setVariants, showSuccess, showError]);
+
+  // Reject one AI change of the focused variant, or restore a rejected one.
+  // Recorded in the edit log like any other edit, so it can be undone too.
+  const handleToggleAiChange = useCallback(async (index: number) => {
+    const variant = focusedVariantId ? variants.find(v => v.id === focusedVariantId) : undefined;
+    if (!variant?.ai_changes) return;
+
+    setIsTogglingAiChange(true);
+    try {
+      const html = await getVariantHtmlContent(variant);
+      const change = variant.ai_changes[index];
+      const result = toggleVariantAiChange(html, variant.ai_changes, index);
+      if (!result.success) {
+        showError(result.error || 'Failed to update change');
+        return;
+      }
+
+      const tree = editLogRef.current ?? new EditLogTree();
+      editLogRef.current = tree;
+      const { node, merge } = await recordEdit(tree, variant, {
+        htmlBefore: html,
+        htmlAfter: result.html,
+        source: 'user',
+        description: `${change.rejected ? 'Restored' : 'Rejected'} AI change: ${change.operation.description || change.operation.type}`,
+      });
+      const savedHtml = merge ? tree.materialize(node.id) : result.html;
+      const aiChanges = merge ? rebaseVariantAiChanges(savedHtml, result.changes) : result.changes;
+      await saveVariantAiChanges(variant.id, aiChanges);
+
+      variantBaseHtmlRef.current = savedHtml;
+      if (editMode === 'code') setFetchedVariantHtml(savedHtml);
+      if (merge) notifyEditMerge(variant.id, node.id, merge);
+      setVariants(variants.map(v =>
+        v.id === variant.id
+          ? { ...v, edited_html: savedHtml, edited_at: new Date().toISOString(), edit_head_id: node.id, ai_changes: aiChanges }
+          : v
+      ));
+      setEditLogRevision(r => r + 1);
+    } catch (err) {
+      console.error('[VibePrototyping] Error updating AI change:', err);
+      showError('Failed to update change');
+    } finally {
+      setIsTogglingAiChange(false);
+    }
+  }, [focusedVariantId, variants, editMode, setVariants, showError, notifyEditMerge]);
+
+  // Apply the user's picks for a merge's conflicts as a new edit on top of it
+  const handleResolveMerge = useCallback(async () => {
+    if (!pendingMerge) return;
+    const variant = variants.find(v => v.id === pendingMerge.variantId);
+    const tree = editLogRef.current;
+
+    if (!variant || !tree || tree.getHeadId() !== pendingMerge.nodeId) {
+      showWarning('The variant changed since the merge; your choices were not applied');
+      setPendingMerge(null);
+      return;
+    }
+
+    const headHtml = tree.materialize(pendingMerge.nodeId);
+    const html = resolveEditMerge(pendingMerge.merge, mergeResolutions);
+    if (html === headHtml) {
+      setPendingMerge(null);
+      return;
+    }
+
+    setIsResolvingMerge(true);
+    try {
+      const { node, merge } = await recordEdit(tree, variant, {
+        htmlBefore: headHtml,
+        htmlAfter: html,
+        source: 'user',
+        description: 'Resolved edit conflicts',
+      });
+      const savedHtml = tree.materialize(node.id);
+      variantBaseHtmlRef.current = savedHtml;
+      if (editMode === 'code') setFetchedVariantHtml(savedHtml);
+      const aiChanges = variant.ai_changes && rebaseVariantAiChanges(savedHtml, variant.ai_changes);
+      if (aiChanges) await saveVariantAiChanges(variant.id, aiChanges);
+      setVariants(variants.map(v =>
+        v.id === variant.id
+          ? { ...v, edited_html: savedHtml, edited_at: new Date().toISOString(), edit_head_id: node.id, ai_changes: aiChanges }
+          : v
+      ));
+      setEditLogRevision(r => r + 1);
+      setPendingMerge(null);
+      if (merge) notifyEditMerge(variant.id, node.id, merge);
+    } catch (err) {
+      console.error('[VibePrototyping] Error resolving edit conflicts:', err);
+      showError('Failed to apply your choices');
+    } finally {
+      setIsResolvingMerge(false);
+    }
+  }, [pendingMerge, mergeResolutions, variants, editMode, setVariants, showError, showWarning, notifyEditMerge]);
+
+  const handleCompareEdits = useCallback((nodeIdA: string, nodeIdB: string) => {
+    const tree = editLogRef.current;
+    if (!tree) return;
+    setEditComparison(tree.compare(nodeIdA, nodeIdB));
+  }, []);
+
   // Toggle to wireframe view (keeps prototypes accessible)
   const handleViewWireframes = useCallback(() => {
     setViewMode('wireframes');
@@ -2691,6 +3057,11 @@ export const VibePrototyping: React.FC = () => {
     setShareType('random');
     setShareVariantIndex(focusedVariantIndex || 1);
     setShareExpiration(null);
+    setSharePassword('');
+    setShareDomains('');
+    setShareMaxViews('');
+    setShareAccessError(null);
+    setShareUsabilityTasks([]);
     setShareDialogOpen(true);
   }, [focusedVariantIndex]);
 
@@ -2698,6 +3069,15 @@ export const VibePrototyping: React.FC = () => {
   const handleCreateShare = useCallback(async () => {
     if (!currentSession) return;
 
+    let allowedDomains: string[];
+    try {
+      allowedDomains = parseAllowedDomains(shareDomains);
+    } catch (err) {
+      setShareAccessError(err instanceof Error ? err.message : 'Invalid email domains');
+      return;
+    }
+    setShareAccessError(null);
+
     setIsCreatingShare(true);
     try {
       const share = await createShareLink({
@@ -2706,10 +3086,21 @@ export const VibePrototyping: React.FC = () => {
         variantIndex: shareType === 'specific' ? shareVariantIndex : undefined,
         expiresInDays: shareExpiration || undefined,
         shareWireframes,
+        password: sharePassword || undefined,
+        allowedDomains,
+        maxViews: parseInt(shareMaxViews, 10) || undefined,
       });
 
+      // Wireframes are images, so there is nothing to run tasks against
+      const tasks = shareWireframes ? [] : shareUsabilityTasks.filter(isUsabilityTaskComplete);
+      if (tasks.length > 0 && !(await saveUsabilityTasks(share.shareId, tasks))) {
+        showError('Share link created, but its usability tasks could not be saved');
+      }
+
       setCreatedShare(share);
+      setCreatedShareTaskCount(tasks.length);
       setShareLink(share.shareUrl);
+      setShareLinksVersion((v) => v + 1);
       showSuccess(`${shareWireframes ? 'Wireframe' : 'Prototype'} share link created!`);
     } catch (err) {
       console.error('Error creating share:', err);
@@ -2717,7 +3108,19 @@ export const VibePrototyping: React.FC = () => {
     } finally {
       setIsCreatingShare(false);
     }
-  }, [currentSession, shareType, shareVariantIndex, shareExpiration, shareWireframes, showSuccess, showError]);
+  }, [
+    currentSession,
+    shareType,
+    shareVariantIndex,
+    shareExpiration,
+    shareWireframes,
+    sharePassword,
+    shareDomains,
+    shareMaxViews,
+    shareUsabilityTasks,
+    showSuccess,
+    showError,
+  ]);
 
   const handleCopyShareLink = useCallback(() => {
     navigator.clipboard.writeText(shareLink);
@@ -2777,6 +3180,7 @@ export const VibePrototyping: React.FC = () => {
 
       // Prefer edited_html if available (user's saved changes)
       if (variant.edited_html) {
+        variantBaseHtmlRef.current = variant.edited_html;
         setFetchedVariantHtml(variant.edited_html);
         setHasUnsavedVariantChanges(false);
         return;
@@ -2793,6 +3197,7 @@ export const VibePrototyping: React.FC = () => {
         const response = await fetch(variant.html_url);
         if (response.ok) {
           const html = await response.text();
+          variantBaseHtmlRef.current = html;
           setFetchedVariantHtml(html);
         } else {
           console.error('Failed to fetch variant HTML:', response.status);
@@ -3075,6 +3480,12 @@ export const VibePrototyping: React.FC = () => {
                   </Box>
                 )}
 
+                {understanding.citations && understanding.citations.length > 0 && (
+                  <Box sx={{ mb: 2 }}>
+                    <ContextCitations citations={understanding.citations} />
+                  </Box>
+                )}
+
                 {/* Clarification input */}
                 <Box sx={{ mb: 2 }}>
                   <TextField
@@ -3170,6 +3581,10 @@ export const VibePrototyping: React.FC = () => {
                   );
                 })}
 
+                {plan?.citations && plan.citations.length > 0 && (
+                  <ContextCitations citations={plan.citations} label="Plans shaped by product context" />
+                )}
+
                 {/* Action hint based on phase - actual buttons are in fixed action bar */}
                 {isPlanReady && (
                   <Typography variant="caption" color="text.secondary" sx={{ mt: 2, display: 'block', textAlign: 'right' }}>
@@ -4218,6 +4633,11 @@ export const VibePrototyping: React.FC = () => {
               focusedIndex={focusedVariantIndex}
               onEditClick={() => setEditMode('code')}
               onIterateClick={() => setIterationDialogOpen(true)}
+              onReviewChangesClick={focusedVariant?.ai_changes?.length ? () => {
+                // Rejecting edits the variant, so show the editable view behind the list
+                setEditMode('code');
+                setShowAiChanges(true);
+              } : undefined}
               getVariantByIndex={getVariantByIndex}
               viewMode={viewMode}
               enableInteractivity={interactivityEnabled}
@@ -4251,6 +4671,69 @@ export const VibePrototyping: React.FC = () => {
                   )}
                 </Box>
                 <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+                  <Tooltip title="Undo edit">
+                    <span>
+                      <IconButton
+                        size="small"
+                        onClick={handleUndoEdit}
+                        disabled={isCheckingOutEdit || !editLogRef.current?.canUndo()}
+                        sx={{ color: 'text.secondary' }}
+                      >
+                        <ArrowCounterClockwise size={18} />
+                      </IconButton>
+                    </span>
+                  </Tooltip>
+                  <Tooltip title="Redo edit">
+                    <span>
+                      <IconButton
+                        size="small"
+                        onClick={handleRedoEdit}
+                        disabled={isCheckingOutEdit || !editLogRef.current?.canRedo()}
+                        sx={{ color: 'text.secondary' }}
+                      >
+                        <ArrowClockwise size={18} />
+                      </IconButton>
+                    </span>
+                  </Tooltip>
+                  {!!focusedVariant.ai_changes?.length && (
+                    <Tooltip title="Review AI changes">
+                      <IconButton
+                        size="small"
+                        onClick={() => setShowAiChanges(true)}
+                        sx={{ color: 'text.secondary' }}
+                      >
+                        <MagicWand size={18} />
+                      </IconButton>
+                    </Tooltip>
+                  )}
+                  {editLogRef.current && !editLogRef.current.isEmpty() && (
+                    <Tooltip title="View edit history">
+                      <IconButton
+                        size="small"
+                        onClick={() => setShowEditHistory(true)}
+                        sx={{ color: 'text.secondary' }}
+                      >
+                        <TreeStructure size={18} />
+                      </IconButton>
+                    </Tooltip>
+                  )}
+                  {screen?.editedHtml && fetchedVariantHtml && (
+                    <Tooltip title="Compare with source screen">
+                      <IconButton
+                        size="small"
+                        onClick={() => setHtmlDiff({
+                          title: `Source vs. Variant ${String.fromCharCode(64 + focusedVariantIndex)}`,
+                          beforeHtml: screen.editedHtml!,
+                          afterHtml: fetchedVariantHtml,
+                          beforeLabel: 'Source',
+                          afterLabel: `Variant ${String.fromCharCode(64 + focusedVariantIndex)}`,
+                        })}
+                        sx={{ color: 'text.secondary' }}
+                      >
+                        <GitDiff size={18} />
+                      </IconButton>
+                    </Tooltip>
+                  )}
                   {iterationHistory.length > 0 && (
                     <Tooltip title="View iteration history">
                       <IconButton
@@ -4393,10 +4876,13 @@ export const VibePrototyping: React.FC = () => {
                               <IconButton
                                 size="small"
                                 onClick={() => {
+                                  const blob = new Blob([stripElementIds(fetchedVariantHtml)], { type: 'text/html' });
+                                  const url = URL.createObjectURL(blob);
                                   const link = document.createElement('a');
-                                  link.href = focusedVariant.html_url!;
+                                  link.href = url;
                                   link.download = `variant-${String.fromCharCode(96 + focusedVariantIndex)}.html`;
                                   link.click();
+                                  URL.revokeObjectURL(url);
                                 }}
                                 sx={{ color: '#cccccc', '&:hover': { color: '#ffffff' } }}
                               >
@@ -4407,7 +4893,7 @@ export const VibePrototyping: React.FC = () => {
                               <IconButton
                                 size="small"
                                 onClick={() => {
-                                  navigator.clipboard.writeText(fetchedVariantHtml);
+                                  navigator.clipboard.writeText(stripElementIds(fetchedVariantHtml));
                                   showSuccess('HTML copied to clipboard');
                                 }}
                                 sx={{ color: '#cccccc', '&:hover': { color: '#ffffff' } }}
@@ -4620,6 +5106,60 @@ export const VibePrototyping: React.FC = () => {
                   <MenuItem value={90}>90 days</MenuItem>
                 </Select>
               </FormControl>
+
+              {/* Access Restrictions */}
+              <Typography variant="subtitle2" sx={{ mt: 1, mb: 1 }}>
+                Access
+              </Typography>
+              <Box sx={{ display: 'flex', flexDirection: 'column', gap: 2 }}>
+                <TextField
+                  fullWidth
+                  size="small"
+                  type="password"
+                  label="Password (optional)"
+                  value={sharePassword}
+                  onChange={(e) => setSharePassword(e.target.value)}
+                  helperText={sharePassword && sharePassword.length < 6 ? 'At least 6 characters' : ' '}
+                  error={!!sharePassword && sharePassword.length < 6}
+                />
+                <TextField
+                  fullWidth
+                  size="small"
+                  label="Allowed email domains (optional)"
+                  placeholder="acme.com, client.co"
+                  value={shareDomains}
+                  onChange={(e) => {
+                    setShareDomains(e.target.value);
+                    setShareAccessError(null);
+                  }}
+                  error={!!shareAccessError}
+                  helperText={shareAccessError || 'Viewers confirm their email with a sign-in link'}
+                />
+                <TextField
+                  fullWidth
+                  size="small"
+                  type="number"
+                  label="Max viewers (optional)"
+                  value={shareMaxViews}
+                  onChange={(e) => setShareMaxViews(e.target.value)}
+                  inputProps={{ min: 1 }}
+                  helperText="People who have already opened the link keep access"
+                />
+              </Box>
+
+              {/* Usability Test */}
+              {!shareWireframes && (
+                <>
+                  <Typography variant="subtitle2" sx={{ mt: 3, mb: 0.5 }}>
+                    Usability test (optional)
+                  </Typography>
+                  <Typography variant="caption" color="text.secondary" component="p" sx={{ mb: 1.5 }}>
+                    Give viewers tasks to complete one at a time. Time on task, misclicks, success and
+                    an ease rating are compared per variant in Insights.
+                  </Typography>
+                  <UsabilityTaskEditor tasks={shareUsabilityTasks} onChange={setShareUsabilityTasks} />
+                </>
+              )}
             </>
           ) : (
             <>
@@ -4674,9 +5214,29 @@ export const VibePrototyping: React.FC = () => {
                   icon={<Timer size={14} />}
                   label={createdShare.expiresAt ? `Expires ${new Date(createdShare.expiresAt).toLocaleDateString()}` : 'Never expires'}
                 />
+                {createdShare.requiresPassword && (
+                  <Chip size="small" icon={<LockSimple size={14} />} label="Password" />
+                )}
+                {createdShare.allowedDomains?.length ? (
+                  <Chip size="small" icon={<UsersThree size={14} />} label={createdShare.allowedDomains.join(', ')} />
+                ) : null}
+                {createdShare.maxViews && (
+                  <Chip size="small" label={`Max ${createdShare.maxViews} viewers`} />
+                )}
+                {createdShareTaskCount > 0 && (
+                  <Chip
+                    size="small"
+                    icon={<ListChecks size={14} />}
+                    label={`Usability test · ${createdShareTaskCount} ${createdShareTaskCount === 1 ? 'task' : 'tasks'}`}
+                  />
+                )}
               </Box>
             </>
           )}
+
+          {currentSession && (
+            <ShareLinksPanel sessionId={currentSession.id} refreshKey={shareLinksVersion} />
+          )}
         </DialogContent>
         <DialogActions>
           <Button onClick={() => setShareDialogOpen(false)} variant="outlined">
@@ -4686,7 +5246,7 @@ export const VibePrototyping: React.FC = () => {
             <Button
               variant="contained"
               onClick={handleCreateShare}
-              disabled={isCreatingShare || !currentSession}
+              disabled={isCreatingShare || !currentSession || (!!sharePassword && sharePassword.length < 6)}
               startIcon={isCreatingShare ? <CircularProgress size={16} /> : <ShareNetwork size={18} />}
               sx={{
                 background: config.gradients?.primary || config.colors.primary,
@@ -4807,17 +5367,34 @@ export const VibePrototyping: React.FC = () => {
                         {iteration.generation_duration_ms && ` • ${(iteration.generation_duration_ms / 1000).toFixed(1)}s`}
                       </Typography>
                     </Box>
-                    {index < iterationHistory.length - 1 && (
-                      <Tooltip title="Revert to this version">
+                    <Box sx={{ display: 'flex', gap: 0.5 }}>
+                      <Tooltip title="View changes">
                         <IconButton
                           size="small"
-                          onClick={() => handleRevertIteration(iteration.id)}
+                          onClick={() => setHtmlDiff({
+                            title: `Iteration ${iteration.iteration_number} changes`,
+                            beforeHtml: iteration.html_before,
+                            afterHtml: iteration.html_after,
+                            beforeLabel: 'Before',
+                            afterLabel: 'After',
+                          })}
                           sx={{ color: 'text.secondary' }}
                         >
-                          <ArrowCounterClockwise size={18} />
+                          <GitDiff size={18} />
                         </IconButton>
                       </Tooltip>
-                    )}
+                      {index < iterationHistory.length - 1 && (
+                        <Tooltip title="Revert to this version">
+                          <IconButton
+                            size="small"
+                            onClick={() => handleRevertIteration(iteration.id)}
+                            sx={{ color: 'text.secondary' }}
+                          >
+                            <ArrowCounterClockwise size={18} />
+                          </IconButton>
+                        </Tooltip>
+                      )}
+                    </Box>
                   </Box>
                   <Typography
                     variant="body2"
@@ -4843,6 +5420,172 @@ export const VibePrototyping: React.FC = () => {
         </DialogActions>
       </Dialog>
 
+      {/* Edit History Dialog - branchable edit log */}
+      <Dialog
+        open={showEditHistory}
+        onClose={() => setShowEditHistory(false)}
+        maxWidth="md"
+        fullWidth
+        TransitionComponent={Fade}
+      >
+        <DialogTitle sx={{ display: 'flex', alignItems: 'center', gap: 1, fontFamily: config.fonts.display }}>
+          <TreeStructure size={24} />
+          Edit History - Variant {focusedVariantIndex ? String.fromCharCode(64 + focusedVariantIndex) : ''}
+        </DialogTitle>
+        <DialogContent>
+          {editLogRef.current && (
+            <EditHistoryTree
+              tree={editLogRef.current}
+              onCheckout={handleCheckoutEdit}
+              onFork={handleForkFromEdit}
+              onCompare={handleCompareEdits}
+              disabled={isCheckingOutEdit}
+            />
+          )}
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setShowEditHistory(false)} variant="outlined">
+            Close
+          </Button>
+        </DialogActions>
+      </Dialog>
+
+      {/* AI Changes Dialog - reject or restore individual AI operations */}
+      <Dialog
+        open={showAiChanges}
+        onClose={() => setShowAiChanges(false)}
+        maxWidth="sm"
+        fullWidth
+        TransitionComponent={Fade}
+      >
+        <DialogTitle sx={{ display: 'flex', alignItems: 'center', gap: 1, fontFamily: config.fonts.display }}>
+          <MagicWand size={24} />
+          AI Changes - Variant {focusedVariantIndex ? String.fromCharCode(64 + focusedVariantIndex) : ''}
+        </DialogTitle>
+        <DialogContent>
+          <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+            Reject a single change to undo it while keeping the rest of the variant.
+          </Typography>
+          <AiChangeList
+            changes={focusedVariant?.ai_changes || []}
+            onToggle={handleToggleAiChange}
+            disabled={isTogglingAiChange || hasUnsavedVariantChanges}
+          />
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setShowAiChanges(false)} variant="outlined">
+            Close
+          </Button>
+        </DialogActions>
+      </Dialog>
+
+      {/* Edit Conflict Dialog - an edit was merged with one saved at the same time */}
+      <Dialog
+        open={!!pendingMerge}
+        onClose={() => !isResolvingMerge && setPendingMerge(null)}
+        maxWidth="sm"
+        fullWidth
+        TransitionComponent={Fade}
+      >
+        <DialogTitle sx={{ display: 'flex', alignItems: 'center', gap: 1, fontFamily: config.fonts.display }}>
+          <GitDiff size={24} />
+          Conflicting Edits
+        </DialogTitle>
+        <DialogContent>
+          <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+            This variant was changed elsewhere while your edit was saving. Both were merged, except where they
+            changed the same thing - choose which version to keep.
+          </Typography>
+          {pendingMerge && (
+            <EditConflictList
+              conflicts={pendingMerge.merge.unresolved}
+              resolutions={mergeResolutions}
+              onChange={(theirsIndex, resolution) =>
+                setMergeResolutions(prev => ({ ...prev, [theirsIndex]: resolution }))
+              }
+              disabled={isResolvingMerge}
+            />
+          )}
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setPendingMerge(null)} disabled={isResolvingMerge}>
+            Keep Saved Version
+          </Button>
+          <Button
+            variant="contained"
+            onClick={handleResolveMerge}
+            disabled={isResolvingMerge}
+            startIcon={isResolvingMerge ? <CircularProgress size={16} color="inherit" /> : undefined}
+          >
+            Apply
+          </Button>
+        </DialogActions>
+      </Dialog>
+
+      {/* Edit Comparison Dialog */}
+      <Dialog
+        open={!!editComparison}
+        onClose={() => setEditComparison(null)}
+        maxWidth="xl"
+        fullWidth
+        TransitionComponent={Fade}
+      >
+        <DialogTitle sx={{ fontFamily: config.fonts.display }}>
+          Compare Edits
+        </DialogTitle>
+        <DialogContent>
+          {editComparison && (
+            <>
+              <Typography variant="caption" color="text.secondary" sx={{ display: 'block', mb: 1 }}>
+                A: {editComparison.pathToA.length} edit{editComparison.pathToA.length === 1 ? '' : 's'} since common ancestor
+                {' • '}
+                B: {editComparison.pathToB.length} edit{editComparison.pathToB.length === 1 ? '' : 's'} since common ancestor
+              </Typography>
+              <HtmlDiffViewer
+                beforeHtml={editComparison.htmlA}
+                afterHtml={editComparison.htmlB}
+                beforeLabel="A"
+                afterLabel="B"
+              />
+            </>
+          )}
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setEditComparison(null)} variant="outlined">
+            Close
+          </Button>
+        </DialogActions>
+      </Dialog>
+
+      {/* HTML Diff Dialog - what changed between two versions */}
+      <Dialog
+        open={!!htmlDiff}
+        onClose={() => setHtmlDiff(null)}
+        maxWidth="xl"
+        fullWidth
+        TransitionComponent={Fade}
+      >
+        <DialogTitle sx={{ display: 'flex', alignItems: 'center', gap: 1, fontFamily: config.fonts.display }}>
+          <GitDiff size={24} />
+          {htmlDiff?.title}
+        </DialogTitle>
+        <DialogContent>
+          {htmlDiff && (
+            <HtmlDiffViewer
+              beforeHtml={htmlDiff.beforeHtml}
+              afterHtml={htmlDiff.afterHtml}
+              beforeLabel={htmlDiff.beforeLabel}
+              afterLabel={htmlDiff.afterLabel}
+            />
+          )}
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setHtmlDiff(null)} variant="outlined">
+            Close
+          </Button>
+        </DialogActions>
+      </Dialog>
+
       {/* Generation Error Dialog - allows retry with different model */}
       <Dialog
         open={!!generationError}
@@ -4877,6 +5620,10 @@ export const VibePrototyping: React.FC = () => {
                     const providerInfo = PROVIDER_INFO[provider];
                     if (providerInfo?.models.length) {
                       setSelectedModel(providerInfo.models[0]);
+                    } else {
+                      // Local servers have no fixed list - use the configured model
+                      const keyModel = availableKeys.find(k => k.provider === provider)?.model;
+                      setSelectedModel(keyModel || providerInfo.defaultModel);
                     }
                   }}
                 >
@@ -4896,7 +5643,7 @@ export const VibePrototyping: React.FC = () => {
                     label="Select Model"
                     onChange={(e) => setSelectedModel(e.target.value)}
                   >
-                    {PROVIDER_INFO[selectedProvider].models.map((model) => (
+                    {(PROVIDER_INFO[selectedProvider].models.length ? PROVIDER_INFO[selectedProvider].models : [selectedModel]).map((model) => (
                       <MenuItem key={model} value={model}>
                         {model}
                       </MenuItem>
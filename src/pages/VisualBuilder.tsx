@@ -4,9 +4,9 @@
  * Combines canvas, component library, property inspector, and interactions
  */
 
-import { useState, useCallback, useMemo } from 'react';
+import React, { useState, useCallback, useMemo, useEffect } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
 import Box from '@mui/material/Box';
-import Typography from '@mui/material/Typography';
 import IconButton from '@mui/material/IconButton';
 import Tooltip from '@mui/material/Tooltip';
 import Divider from '@mui/material/Divider';
@@ -14,6 +14,7 @@ import Tabs from '@mui/material/Tabs';
 import Tab from '@mui/material/Tab';
 import TextField from '@mui/material/TextField';
 import Button from '@mui/material/Button';
+import Typography from '@mui/material/Typography';
 import {
   Sidebar as SidebarIcon,
   SlidersHorizontal,
@@ -24,6 +25,16 @@ import {
   Image as ImageIcon,
   ChartBar,
   Pencil,
+  BracketsCurly,
+  FrameCorners,
+  Desktop,
+  DeviceTablet,
+  DeviceMobile,
+  Stack,
+  Cube,
+  FileArrowUp,
+  FloppyDisk,
+  ClockCounterClockwise,
 } from '@phosphor-icons/react';
 
 import VisualCanvas from '@/components/VisualBuilder/VisualCanvas';
@@ -31,17 +42,61 @@ import ComponentLibrary from '@/components/VisualBuilder/ComponentLibrary';
 import PropertyInspector from '@/components/VisualBuilder/PropertyInspector';
 import InteractionEditor from '@/components/VisualBuilder/InteractionEditor';
 import ExportPreview from '@/components/VisualBuilder/ExportPreview';
+import VariablesPanel from '@/components/VisualBuilder/VariablesPanel';
+import LayersPanel from '@/components/VisualBuilder/LayersPanel';
+import ProjectVersionsDialog from '@/components/VisualBuilder/ProjectVersionsDialog';
+import { useSnackbar } from '@/components/SnackbarProvider';
 import { extractComponents } from '@/services/visualBuilder/componentExtractor';
+import {
+  DEFAULT_AUTO_LAYOUT,
+  getDescendantIds,
+  hasFlowLayout,
+  resolveLayout,
+  updateElementBounds,
+} from '@/services/visualBuilder/autoLayout';
+import {
+  createClipboardPayload,
+  pasteClipboardPayload,
+  readCanvasClipboard,
+  writeCanvasClipboard,
+} from '@/services/visualBuilder/canvasCommands';
+import { parseProjectDocument, serializeProjectDocument } from '@/services/visualBuilder/projectDocument';
+import {
+  createVisualBuilderProject,
+  createVisualBuilderVersion,
+  getVisualBuilderProject,
+  saveVisualBuilderProject,
+} from '@/services/visualBuilderProjectService';
 
 import type { CanvasElement, CanvasElementContent } from '@/components/VisualBuilder/VisualCanvas';
-import type { Interaction } from '@/components/VisualBuilder/InteractionEditor';
+import type { Interaction, PrototypeVariable } from '@/components/VisualBuilder/InteractionEditor';
 import type { ExtractionResult } from '@/services/visualBuilder/componentExtractor';
+import type { ProjectDocument, ProjectDocumentJSON } from '@/services/visualBuilder/projectDocument';
+import type {
+  VisualBuilderProject,
+  VisualBuilderProjectVersion,
+} from '@/services/visualBuilderProjectService';
 
 // ============================================================================
 // Types
 // ============================================================================
 
-type RightPanelTab = 'properties' | 'interactions';
+type LeftPanelTab = 'layers' | 'components';
+type RightPanelTab = 'properties' | 'interactions' | 'variables';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+// Canvas widths to preview the layout at; null is the design width
+const VIEWPORT_PRESETS: { width: number | null; label: string; icon: React.ReactNode }[] = [
+  { width: null, label: 'Design width', icon: <Desktop size={18} /> },
+  { width: 768, label: 'Tablet', icon: <DeviceTablet size={18} /> },
+  { width: 375, label: 'Mobile', icon: <DeviceMobile size={18} /> },
+];
+
+// Quiet time after the last edit before the project is saved
+const AUTOSAVE_DELAY_MS = 1500;
 
 // ============================================================================
 // Helper Functions
@@ -51,14 +106,19 @@ function generateId(): string {
   return `element-${Date.now()}-${Math.random().toString(36).slice(2, 9)}`;
 }
 
+// What gets saved; compared with the last save to tell whether there are unsaved changes
+function projectSnapshot(name: string, canvasWidth: number, canvasHeight: number, document: ProjectDocumentJSON): string {
+  return JSON.stringify({ name, canvasWidth, canvasHeight, document });
+}
+
 function createDefaultElement(type: CanvasElement['type'], x: number, y: number): CanvasElement {
   const baseElement: Omit<CanvasElement, 'content'> = {
     id: generateId(),
     type,
     x,
     y,
-    width: 200,
-    height: type === 'text' ? 40 : 150,
+    width: type === 'frame' ? 400 : 200,
+    height: type === 'text' ? 40 : type === 'frame' ? 300 : 150,
     rotation: 0,
     zIndex: 1,
     locked: false,
@@ -90,6 +150,9 @@ function createDefaultElement(type: CanvasElement['type'], x: number, y: number)
       break;
     case 'drawing':
       break;
+    case 'frame':
+      content.fill = '#ffffff';
+      return { ...baseElement, content, layout: DEFAULT_AUTO_LAYOUT };
   }
 
   return { ...baseElement, content };
@@ -100,13 +163,21 @@ function createDefaultElement(type: CanvasElement['type'], x: number, y: number)
 // ============================================================================
 
 export default function VisualBuilder() {
+  const { projectId } = useParams<{ projectId: string }>();
+  const navigate = useNavigate();
+  const { showSuccess, showError } = useSnackbar();
+
   // Canvas state
   const [elements, setElements] = useState<CanvasElement[]>([]);
-  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
   const [projectName, setProjectName] = useState('Untitled Prototype');
 
+  // The inspector and interaction editor work on a single selected element
+  const selectedId = selectedIds.length === 1 ? selectedIds[0] : null;
+
   // Panel state
   const [leftPanelOpen, setLeftPanelOpen] = useState(true);
+  const [leftPanelTab, setLeftPanelTab] = useState<LeftPanelTab>('components');
   const [rightPanelOpen, setRightPanelOpen] = useState(true);
   const [rightPanelTab, setRightPanelTab] = useState<RightPanelTab>('properties');
 
@@ -116,9 +187,42 @@ export default function VisualBuilder() {
   // Interactions state (map of element ID to interactions)
   const [interactions, setInteractions] = useState<Map<string, Interaction[]>>(new Map());
 
+  // Prototype variables shared by all interactions
+  const [variables, setVariables] = useState<PrototypeVariable[]>([]);
+
   // Canvas settings
-  const [canvasWidth] = useState(1200);
-  const [canvasHeight] = useState(800);
+  const [canvasWidth, setCanvasWidth] = useState(1200);
+  const [canvasHeight, setCanvasHeight] = useState(800);
+  const [viewportWidth, setViewportWidth] = useState<number | null>(null);
+  const designSize = useMemo(() => ({ width: canvasWidth, height: canvasHeight }), [canvasWidth, canvasHeight]);
+
+  // Elements as laid out at the previewed width; edits always apply to the design
+  const displayElements = useMemo(
+    () => (viewportWidth === null
+      ? elements
+      : resolveLayout(elements, designSize, { width: viewportWidth, height: canvasHeight })),
+    [elements, designSize, viewportWidth, canvasHeight]
+  );
+
+  // Persistence: the saved project, and the snapshot it was last saved with
+  const [project, setProject] = useState<VisualBuilderProject | null>(null);
+  const [savedSnapshot, setSavedSnapshot] = useState<string | null>(null);
+  const [failedSnapshot, setFailedSnapshot] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [versionsOpen, setVersionsOpen] = useState(false);
+
+  const isLoadingProject = Boolean(projectId) && project?.id !== projectId;
+
+  const documentJson = useMemo(
+    () => serializeProjectDocument({ elements, interactions, variables }),
+    [elements, interactions, variables]
+  );
+  const snapshot = useMemo(
+    () => projectSnapshot(projectName, canvasWidth, canvasHeight, documentJson),
+    [projectName, canvasWidth, canvasHeight, documentJson]
+  );
+  // An empty canvas that was never saved has nothing to lose
+  const hasUnsavedChanges = !isLoadingProject && snapshot !== savedSnapshot && (project !== null || elements.length > 0);
 
   // Get selected element
   const selectedElement = useMemo(
@@ -137,27 +241,42 @@ export default function VisualBuilder() {
   // ============================================================================
 
   const handleElementsChange = useCallback((newElements: CanvasElement[]) => {
-    setElements(newElements);
-  }, []);
+    setElements(resolveLayout(newElements, designSize));
+  }, [designSize]);
 
+  // Frames carry their children along and auto layout reflows after every change
   const handleElementUpdate = useCallback((id: string, updates: Partial<CanvasElement>) => {
-    setElements((prev) =>
-      prev.map((el) => (el.id === id ? { ...el, ...updates } : el))
-    );
-  }, []);
+    setElements((prev) => resolveLayout(updateElementBounds(prev, id, updates), designSize));
+  }, [designSize]);
 
   const handleElementDelete = useCallback((id: string) => {
-    setElements((prev) => prev.filter((el) => el.id !== id));
-    if (selectedId === id) {
-      setSelectedId(null);
-    }
+    // Deleting a frame deletes everything inside it
+    const removed = new Set([id, ...getDescendantIds(elements, id)]);
+    setElements((prev) => resolveLayout(prev.filter((el) => !removed.has(el.id)), designSize));
+    setSelectedIds((prev) => prev.filter((selected) => !removed.has(selected)));
     // Also remove interactions
     setInteractions((prev) => {
       const next = new Map(prev);
-      next.delete(id);
+      removed.forEach((removedId) => next.delete(removedId));
       return next;
     });
-  }, [selectedId]);
+  }, [elements, designSize]);
+
+  /**
+   * Add an element, inside the selected frame when there is one. Auto layout
+   * frames get it at the end of their flow.
+   */
+  const addElement = useCallback((element: CanvasElement) => {
+    const frame = selectedElement?.type === 'frame' ? selectedElement : null;
+    const placed = !frame
+      ? element
+      : hasFlowLayout(frame)
+        ? { ...element, parentId: frame.id, x: frame.x + frame.width, y: frame.y + frame.height }
+        : { ...element, parentId: frame.id, x: frame.x + 20, y: frame.y + 20 };
+
+    setElements((prev) => resolveLayout([...prev, placed], designSize));
+    setSelectedIds([placed.id]);
+  }, [selectedElement, designSize]);
 
   const handleContentUpdate = useCallback((updates: Partial<CanvasElementContent>) => {
     if (!selectedId) return;
@@ -180,16 +299,31 @@ export default function VisualBuilder() {
   }, [selectedId]);
 
   const handleDuplicate = useCallback(() => {
-    if (!selectedElement) return;
-    const newElement: CanvasElement = {
-      ...selectedElement,
-      id: generateId(),
-      x: selectedElement.x + 20,
-      y: selectedElement.y + 20,
-    };
-    setElements((prev) => [...prev, newElement]);
-    setSelectedId(newElement.id);
-  }, [selectedElement]);
+    if (selectedIds.length === 0) return;
+    const copies = pasteClipboardPayload(
+      createClipboardPayload(elements, new Map(), selectedIds),
+      elements,
+      generateId
+    );
+    setElements((prev) => resolveLayout([...prev, ...copies.elements], designSize));
+    setSelectedIds(copies.ids);
+  }, [elements, selectedIds, designSize]);
+
+  // Copied elements keep their interactions and can be pasted into another canvas
+  const handleCopy = useCallback(async () => {
+    if (selectedIds.length === 0) return;
+    await writeCanvasClipboard(createClipboardPayload(elements, interactions, selectedIds));
+  }, [elements, interactions, selectedIds]);
+
+  const handlePaste = useCallback(async () => {
+    const payload = await readCanvasClipboard();
+    if (!payload) return;
+
+    const pasted = pasteClipboardPayload(payload, elements, generateId);
+    setElements((prev) => resolveLayout([...prev, ...pasted.elements], designSize));
+    setInteractions((prev) => new Map([...prev, ...pasted.interactions]));
+    setSelectedIds(pasted.ids);
+  }, [elements, designSize]);
 
   const handleDelete = useCallback(() => {
     if (selectedId) {
@@ -207,10 +341,8 @@ export default function VisualBuilder() {
   }, [selectedId]);
 
   const handleAddElement = useCallback((type: CanvasElement['type']) => {
-    const newElement = createDefaultElement(type, 100, 100);
-    setElements((prev) => [...prev, newElement]);
-    setSelectedId(newElement.id);
-  }, []);
+    addElement(createDefaultElement(type, 100, 100));
+  }, [addElement]);
 
   const handleImportHTML = useCallback(async () => {
     // Simple file input for importing HTML
@@ -228,6 +360,168 @@ export default function VisualBuilder() {
     input.click();
   }, []);
 
+  // ============================================================================
+  // Persistence
+  // ============================================================================
+
+  const applyDocument = useCallback((document: ProjectDocument) => {
+    setElements(document.elements);
+    setInteractions(document.interactions);
+    setVariables(document.variables);
+    setSelectedIds([]);
+  }, []);
+
+  // Load the project in the URL; a project this page just created is already loaded
+  useEffect(() => {
+    if (!projectId || project?.id === projectId) return;
+
+    let cancelled = false;
+    getVisualBuilderProject(projectId).then((loaded) => {
+      if (cancelled) return;
+      if (!loaded) {
+        showError('Project not found');
+        navigate('/visual-builder', { replace: true });
+        return;
+      }
+
+      try {
+        applyDocument(parseProjectDocument(loaded.document));
+      } catch (error) {
+        console.error('[VisualBuilder] Failed to open project:', error);
+        showError(error instanceof Error ? error.message : 'Failed to open project');
+        navigate('/visual-builder', { replace: true });
+        return;
+      }
+      setProject(loaded);
+      setProjectName(loaded.name);
+      setCanvasWidth(loaded.canvasWidth);
+      setCanvasHeight(loaded.canvasHeight);
+      setSavedSnapshot(projectSnapshot(loaded.name, loaded.canvasWidth, loaded.canvasHeight, loaded.document));
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [projectId, project?.id, applyDocument, navigate, showError]);
+
+  // The first save of a new canvas creates the project and moves to its URL
+  const handleSave = useCallback(async () => {
+    setIsSaving(true);
+    try {
+      const fields = { name: projectName, document: documentJson, canvasWidth, canvasHeight };
+      if (project) {
+        if (!(await saveVisualBuilderProject(project.id, fields))) {
+          throw new Error('Failed to save project');
+        }
+      } else {
+        const created = await createVisualBuilderProject(fields);
+        setProject(created);
+        navigate(`/visual-builder/${created.id}`, { replace: true });
+      }
+      setSavedSnapshot(snapshot);
+      setFailedSnapshot(null);
+    } catch (error) {
+      console.error('[VisualBuilder] Save failed:', error);
+      setFailedSnapshot(snapshot);
+      showError(error instanceof Error ? error.message : 'Failed to save project');
+    } finally {
+      setIsSaving(false);
+    }
+  }, [project, projectName, documentJson, canvasWidth, canvasHeight, snapshot, navigate, showError]);
+
+  // Autosave once editing pauses; a save that failed is not retried until the next edit
+  useEffect(() => {
+    if (!hasUnsavedChanges || isSaving || snapshot === failedSnapshot) return;
+    const timer = window.setTimeout(handleSave, AUTOSAVE_DELAY_MS);
+    return () => window.clearTimeout(timer);
+  }, [hasUnsavedChanges, isSaving, snapshot, failedSnapshot, handleSave]);
+
+  useEffect(() => {
+    if (!hasUnsavedChanges) return;
+    const handleBeforeUnload = (e: BeforeUnloadEvent) => e.preventDefault();
+    window.addEventListener('beforeunload', handleBeforeUnload);
+    return () => window.removeEventListener('beforeunload', handleBeforeUnload);
+  }, [hasUnsavedChanges]);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if ((e.metaKey || e.ctrlKey) && e.key.toLowerCase() === 's') {
+        e.preventDefault();
+        if (!isSaving && !isLoadingProject) handleSave();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [handleSave, isSaving, isLoadingProject]);
+
+  const handleCreateVersion = useCallback(async (name: string): Promise<VisualBuilderProjectVersion | null> => {
+    if (!project) return null;
+    try {
+      const version = await createVisualBuilderVersion(project.id, name, documentJson);
+      showSuccess(`Saved version "${name}"`);
+      return version;
+    } catch (error) {
+      console.error('[VisualBuilder] Failed to save version:', error);
+      showError(error instanceof Error ? error.message : 'Failed to save version');
+      return null;
+    }
+  }, [project, documentJson, showSuccess, showError]);
+
+  // Keep what is on the canvas as a version before it gets replaced
+  const keepCurrentAsVersion = useCallback(async (name: string) => {
+    if (!project || elements.length === 0) return;
+    try {
+      await createVisualBuilderVersion(project.id, name, documentJson);
+    } catch (error) {
+      console.error('[VisualBuilder] Failed to keep current canvas as a version:', error);
+    }
+  }, [project, elements.length, documentJson]);
+
+  const handleRestoreVersion = useCallback(async (version: VisualBuilderProjectVersion) => {
+    try {
+      const restored = parseProjectDocument(version.document);
+      await keepCurrentAsVersion(`Before restoring "${version.name}"`);
+      applyDocument(restored);
+      setVersionsOpen(false);
+      showSuccess(`Restored "${version.name}"`);
+    } catch (error) {
+      showError(error instanceof Error ? error.message : 'Failed to restore version');
+    }
+  }, [keepCurrentAsVersion, applyDocument, showSuccess, showError]);
+
+  // Reads the JSON export back in, replacing the canvas
+  const handleImportJSON = useCallback(() => {
+    const input = document.createElement('input');
+    input.type = 'file';
+    input.accept = '.json,application/json';
+    input.onchange = async (e) => {
+      const file = (e.target as HTMLInputElement).files?.[0];
+      if (!file) return;
+
+      try {
+        const imported = parseProjectDocument(await file.text());
+        await keepCurrentAsVersion(`Before importing ${file.name}`);
+        applyDocument(imported);
+        showSuccess(`Imported ${imported.elements.length} elements from ${file.name}`);
+      } catch (error) {
+        showError(error instanceof Error ? error.message : 'Failed to import JSON');
+      }
+    };
+    input.click();
+  }, [keepCurrentAsVersion, applyDocument, showSuccess, showError]);
+
+  const saveStatus = isLoadingProject
+    ? 'Loading…'
+    : isSaving
+      ? 'Saving…'
+      : snapshot === failedSnapshot
+        ? 'Not saved'
+        : hasUnsavedChanges
+          ? 'Unsaved changes'
+          : project
+            ? 'All changes saved'
+            : '';
+
   // ============================================================================
   // Render
   // ============================================================================
@@ -248,7 +542,7 @@ export default function VisualBuilder() {
         }}
       >
         <Box sx={{ display: 'flex', alignItems: 'center', gap: 2 }}>
-          <Tooltip title="Toggle Component Library">
+          <Tooltip title="Toggle Layers & Components">
             <IconButton onClick={() => setLeftPanelOpen(!leftPanelOpen)}>
               <SidebarIcon size={20} />
             </IconButton>
@@ -264,6 +558,27 @@ export default function VisualBuilder() {
               disableUnderline: true,
             }}
           />
+          <Typography
+            variant="caption"
+            color={snapshot === failedSnapshot ? 'error' : 'text.secondary'}
+            sx={{ whiteSpace: 'nowrap' }}
+          >
+            {saveStatus}
+          </Typography>
+          <Tooltip title="Save (Ctrl+S)">
+            <span>
+              <IconButton size="small" onClick={handleSave} disabled={isSaving || isLoadingProject}>
+                <FloppyDisk size={18} />
+              </IconButton>
+            </span>
+          </Tooltip>
+          <Tooltip title={project ? 'Versions' : 'Versions are available once the project is saved'}>
+            <span>
+              <IconButton size="small" onClick={() => setVersionsOpen(true)} disabled={!project}>
+                <ClockCounterClockwise size={18} />
+              </IconButton>
+            </span>
+          </Tooltip>
         </Box>
 
         {/* Quick Add Tools */}
@@ -293,6 +608,11 @@ export default function VisualBuilder() {
               <Pencil size={18} />
             </IconButton>
           </Tooltip>
+          <Tooltip title="Add Auto Layout Frame">
+            <IconButton size="small" onClick={() => handleAddElement('frame')}>
+              <FrameCorners size={18} />
+            </IconButton>
+          </Tooltip>
 
           <Divider orientation="vertical" flexItem sx={{ mx: 1 }} />
 
@@ -305,12 +625,39 @@ export default function VisualBuilder() {
           >
             Import HTML
           </Button>
+          <Button
+            size="small"
+            variant="outlined"
+            startIcon={<FileArrowUp size={16} />}
+            onClick={handleImportJSON}
+            sx={{ textTransform: 'none', ml: 1 }}
+          >
+            Import JSON
+          </Button>
         </Box>
 
         <Box sx={{ display: 'flex', alignItems: 'center', gap: 2 }}>
+          <Box sx={{ display: 'flex', gap: 0.5, bgcolor: 'action.hover', borderRadius: 1, p: 0.5 }}>
+            {VIEWPORT_PRESETS.map((preset) => (
+              <Tooltip
+                key={preset.label}
+                title={`${preset.label} (${preset.width ?? canvasWidth}px)`}
+              >
+                <IconButton
+                  size="small"
+                  onClick={() => setViewportWidth(preset.width)}
+                  sx={{ bgcolor: viewportWidth === preset.width ? 'background.paper' : 'transparent' }}
+                >
+                  {preset.icon}
+                </IconButton>
+              </Tooltip>
+            ))}
+          </Box>
+
           <ExportPreview
             elements={elements}
             interactions={interactions}
+            variables={variables}
             canvasWidth={canvasWidth}
             canvasHeight={canvasHeight}
             projectName={projectName}
@@ -326,7 +673,7 @@ export default function VisualBuilder() {
 
       {/* Main Content */}
       <Box sx={{ flex: 1, display: 'flex', overflow: 'hidden' }}>
-        {/* Left Panel - Component Library */}
+        {/* Left Panel - Layers & Component Library */}
         {leftPanelOpen && (
           <Box
             sx={{
@@ -338,36 +685,60 @@ export default function VisualBuilder() {
               flexDirection: 'column',
             }}
           >
-            <Box sx={{ p: 1.5, borderBottom: '1px solid', borderColor: 'divider' }}>
-              <Typography variant="subtitle2" fontWeight={600}>
-                Component Library
-              </Typography>
-            </Box>
-            <Box sx={{ flex: 1, overflow: 'auto' }}>
-              <ComponentLibrary
-                extractionResult={extractionResult}
-                onComponentSelect={(component) => {
-                  const newElement: CanvasElement = {
-                    id: generateId(),
-                    type: 'component',
-                    x: 100,
-                    y: 100,
-                    width: component.bounds.width || 200,
-                    height: component.bounds.height || 150,
-                    rotation: 0,
-                    zIndex: elements.length + 1,
-                    locked: false,
-                    visible: true,
-                    content: {
-                      component,
-                      html: component.html,
-                    },
-                    styles: {},
-                  };
-                  setElements((prev) => [...prev, newElement]);
-                  setSelectedId(newElement.id);
-                }}
+            <Tabs
+              value={leftPanelTab}
+              onChange={(_, v) => setLeftPanelTab(v)}
+              variant="fullWidth"
+              sx={{ borderBottom: '1px solid', borderColor: 'divider' }}
+            >
+              <Tab
+                value="layers"
+                icon={<Stack size={16} />}
+                iconPosition="start"
+                label="Layers"
+                sx={{ textTransform: 'none', minHeight: 48 }}
+              />
+              <Tab
+                value="components"
+                icon={<Cube size={16} />}
+                iconPosition="start"
+                label="Components"
+                sx={{ textTransform: 'none', minHeight: 48 }}
               />
+            </Tabs>
+            <Box sx={{ flex: 1, overflow: 'auto' }}>
+              {leftPanelTab === 'layers' ? (
+                <LayersPanel
+                  elements={elements}
+                  selectedIds={selectedIds}
+                  onSelectionChange={setSelectedIds}
+                  onElementsChange={handleElementsChange}
+                  onElementUpdate={handleElementUpdate}
+                />
+              ) : (
+                <ComponentLibrary
+                  extractionResult={extractionResult}
+                  onComponentSelect={(component) => {
+                    addElement({
+                      id: generateId(),
+                      type: 'component',
+                      x: 100,
+                      y: 100,
+                      width: component.bounds.width || 200,
+                      height: component.bounds.height || 150,
+                      rotation: 0,
+                      zIndex: elements.length + 1,
+                      locked: false,
+                      visible: true,
+                      content: {
+                        component,
+                        html: component.html,
+                      },
+                      styles: {},
+                    });
+                  }}
+                />
+              )}
             </Box>
           </Box>
         )}
@@ -375,14 +746,17 @@ export default function VisualBuilder() {
         {/* Center - Canvas */}
         <Box sx={{ flex: 1, overflow: 'auto', bgcolor: '#1e293b' }}>
           <VisualCanvas
-            elements={elements}
-            selectedId={selectedId}
-            onSelect={setSelectedId}
+            elements={displayElements}
+            selectedIds={selectedIds}
+            onSelectionChange={setSelectedIds}
             onElementsChange={handleElementsChange}
             onElementUpdate={handleElementUpdate}
             onElementDelete={handleElementDelete}
-            canvasWidth={canvasWidth}
+            canvasWidth={viewportWidth ?? canvasWidth}
             canvasHeight={canvasHeight}
+            readOnly={viewportWidth !== null}
+            onCopy={handleCopy}
+            onPaste={handlePaste}
           />
         </Box>
 
@@ -418,30 +792,51 @@ export default function VisualBuilder() {
                 label="Interactions"
                 sx={{ textTransform: 'none', minHeight: 48 }}
               />
+              <Tab
+                value="variables"
+                icon={<BracketsCurly size={16} />}
+                iconPosition="start"
+                label="Variables"
+                sx={{ textTransform: 'none', minHeight: 48 }}
+              />
             </Tabs>
 
             <Box sx={{ flex: 1, overflow: 'auto' }}>
               {rightPanelTab === 'properties' ? (
                 <PropertyInspector
                   element={selectedElement}
+                  allElements={elements}
                   onUpdate={(updates) => selectedId && handleElementUpdate(selectedId, updates)}
                   onContentUpdate={handleContentUpdate}
                   onStyleUpdate={handleStyleUpdate}
                   onDelete={handleDelete}
                   onDuplicate={handleDuplicate}
                 />
-              ) : (
+              ) : rightPanelTab === 'interactions' ? (
                 <InteractionEditor
                   element={selectedElement}
                   allElements={elements}
                   interactions={selectedInteractions}
+                  variables={variables}
                   onInteractionsChange={handleInteractionsChange}
                 />
+              ) : (
+                <VariablesPanel variables={variables} onVariablesChange={setVariables} />
               )}
             </Box>
           </Box>
         )}
       </Box>
+
+      {project && (
+        <ProjectVersionsDialog
+          open={versionsOpen}
+          onClose={() => setVersionsOpen(false)}
+          projectId={project.id}
+          onCreateVersion={handleCreateVersion}
+          onRestore={handleRestoreVersion}
+        />
+      )}
     </Box>
   );
 }
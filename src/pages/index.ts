@@ -16,5 +16,6 @@ export { default as Share } from './Share';
 // New/Renamed Pages
 export { Home } from './Home';
 export { Prototypes } from './Prototypes';
+export { Flows } from './Flows';
 export { Insights } from './Insights';
 export { Integrations } from './Integrations';
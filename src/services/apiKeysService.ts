@@ -5,7 +5,13 @@
 
 import { supabase, isSupabaseConfigured } from './supabase';
 
-export type LLMProvider = 'anthropic' | 'openai' | 'google';
+export type LLMProvider = 'anthropic' | 'openai' | 'google' | 'local';
+
+// Wire format spoken by a self-hosted ('local') model server
+export type LocalApiFlavor = 'openai-compatible' | 'ollama';
+
+// Stored in place of a key for local servers that don't need one
+export const LOCAL_NO_KEY = 'local';
 
 export interface ApiKeyConfig {
   id: string;
@@ -15,6 +21,9 @@ export interface ApiKeyConfig {
   isActive: boolean;
   createdAt: string;
   updatedAt: string;
+  // Local provider only
+  baseUrl?: string | null;
+  apiFlavor?: LocalApiFlavor | null;
   // Note: The actual API key is never returned to the client after storage
   // Only a masked preview is available
   maskedKey?: string;
@@ -25,6 +34,9 @@ export interface SaveApiKeyParams {
   apiKey: string;
   keyName?: string;
   model?: string;
+  // Required for the local provider
+  baseUrl?: string;
+  apiFlavor?: LocalApiFlavor;
 }
 
 // Provider display info with latest models (2025)
@@ -71,6 +83,14 @@ export const PROVIDER_INFO: Record<LLMProvider, { name: string; models: string[]
     keyPrefix: 'AIza',
     description: 'Google\'s latest models with strong multimodal capabilities and competitive pricing.',
   },
+  local: {
+    name: 'Local / Self-hosted',
+    // Discovered from the server at configuration time
+    models: [],
+    defaultModel: 'llama3.1',
+    keyPrefix: '',
+    description: 'Run models on your own infrastructure (Ollama, vLLM, LM Studio, llama.cpp). Screens never leave your network.',
+  },
 };
 
 /**
@@ -119,6 +139,8 @@ export async function getApiKeys(): Promise<ApiKeyConfig[]> {
     isActive: row.is_active,
     createdAt: row.created_at,
     updatedAt: row.updated_at,
+    baseUrl: row.base_url ?? null,
+    apiFlavor: row.api_flavor ?? null,
   }));
 }
 
@@ -126,14 +148,22 @@ export async function getApiKeys(): Promise<ApiKeyConfig[]> {
  * Save an API key to the vault
  */
 export async function saveApiKey(params: SaveApiKeyParams): Promise<void> {
-  const { provider, apiKey, keyName = 'Default', model } = params;
+  const { provider, keyName = 'Default', model } = params;
 
   // Validate API key format
   const providerInfo = PROVIDER_INFO[provider];
-  if (!apiKey.startsWith(providerInfo.keyPrefix)) {
+  if (!params.apiKey.startsWith(providerInfo.keyPrefix)) {
     throw new Error(`Invalid ${providerInfo.name} API key format. Key should start with "${providerInfo.keyPrefix}"`);
   }
 
+  const isLocal = provider === 'local';
+  if (isLocal && !params.baseUrl) {
+    throw new Error('A server URL is required for local models');
+  }
+  const apiKey = params.apiKey || (isLocal ? LOCAL_NO_KEY : '');
+  const baseUrl = isLocal ? params.baseUrl : undefined;
+  const apiFlavor = isLocal ? params.apiFlavor || 'openai-compatible' : undefined;
+
   if (!isSupabaseConfigured()) {
     // Use localStorage for development
     const stored = localStorage.getItem('voxel-api-keys');
@@ -151,13 +181,15 @@ export async function saveApiKey(params: SaveApiKeyParams): Promise<void> {
       isActive: true,
       createdAt: new Date().toISOString(),
       updatedAt: new Date().toISOString(),
+      baseUrl,
+      apiFlavor,
       maskedKey: maskApiKey(apiKey),
     });
 
     localStorage.setItem('voxel-api-keys', JSON.stringify(filtered));
 
     // Also store the actual key for use (in localStorage for dev only)
-    const llmConfig = { provider, apiKey, model: model || providerInfo.defaultModel };
+    const llmConfig = { provider, apiKey, model: model || providerInfo.defaultModel, baseUrl, apiFlavor };
     localStorage.setItem('voxel-llm-config', JSON.stringify(llmConfig));
     return;
   }
@@ -174,6 +206,8 @@ export async function saveApiKey(params: SaveApiKeyParams): Promise<void> {
     p_api_key: apiKey,
     p_key_name: keyName,
     p_model: model || providerInfo.defaultModel,
+    p_base_url: baseUrl ?? null,
+    p_api_flavor: apiFlavor ?? null,
   });
 
   if (error) {
@@ -325,6 +359,11 @@ export function maskApiKey(key: string): string {
 export function validateApiKeyFormat(provider: LLMProvider, key: string): { valid: boolean; error?: string } {
   const info = PROVIDER_INFO[provider];
 
+  // Local servers often run without authentication
+  if (provider === 'local') {
+    return { valid: true };
+  }
+
   if (!key) {
     return { valid: false, error: 'API key is required' };
   }
@@ -0,0 +1,71 @@
+/**
+ * Tests for commentAnchorService
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  buildElementSelector,
+  createCommentAnchor,
+  findAnchorElement,
+  parseCommentAnchor,
+  resolveCommentAnchor,
+} from './commentAnchorService';
+
+const parse = (html: string) => new DOMParser().parseFromString(html, 'text/html');
+
+// jsdom does no layout, so give elements the box they would have
+function placeAt(el: Element, left: number, top: number, width: number, height: number) {
+  el.getBoundingClientRect = () =>
+    ({ left, top, width, height, right: left + width, bottom: top + height, x: left, y: top }) as DOMRect;
+}
+
+const PAGE = `<body><main><section><h2>Plans</h2><button data-vx-id="vx-7">Upgrade</button></section>
+<ul><li>One</li><li>Two</li></ul></main></body>`;
+
+describe('commentAnchorService', () => {
+  it('should follow an element by its stable ID when the layout and siblings change', () => {
+    const doc = parse(PAGE);
+    const button = doc.querySelector('button')!;
+    placeAt(button, 100, 200, 80, 40);
+
+    const anchor = createCommentAnchor(button, { x: 160, y: 210 })!;
+    expect(anchor).toMatchObject({ elementId: 'vx-7', tagName: 'button', offsetX: 0.75, offsetY: 0.25 });
+
+    // Next iteration: a banner is inserted and the button moves and widens
+    const next = parse(PAGE.replace('<main>', '<main><div>New banner</div>'));
+    placeAt(next.querySelector('button')!, 20, 400, 200, 40);
+
+    expect(resolveCommentAnchor(next, anchor)).toEqual({ status: 'anchored', x: 170, y: 410 });
+  });
+
+  it('should fall back to the selector and orphan pins whose element changed or is gone', () => {
+    const doc = parse(PAGE);
+    const second = doc.querySelectorAll('li')[1];
+    expect(buildElementSelector(second)).toBe('body > main > ul > li:nth-of-type(2)');
+
+    placeAt(second, 0, 0, 100, 20);
+    const anchor = createCommentAnchor(second, { x: 50, y: 10 })!;
+    expect(anchor.elementId).toBeNull();
+
+    const same = parse(PAGE);
+    expect(findAnchorElement(same, anchor)?.textContent).toBe('Two');
+
+    const renamed = parse(PAGE.replace('<li>Two</li>', '<li>Three</li>'));
+    expect(resolveCommentAnchor(renamed, anchor)).toEqual({ status: 'orphaned' });
+
+    const removed = parse(PAGE.replace('<li>Two</li>', ''));
+    expect(resolveCommentAnchor(removed, anchor)).toEqual({ status: 'orphaned' });
+  });
+
+  it('should not anchor to the page itself', () => {
+    const doc = parse(PAGE);
+    expect(createCommentAnchor(doc.body, { x: 0, y: 0 })).toBeNull();
+  });
+
+  it('should read stored anchors and ignore anything else', () => {
+    expect(parseCommentAnchor({ elementId: 'vx-1', selector: 'body > p', tagName: 'p', offsetX: 2, offsetY: 0.5 }))
+      .toEqual({ elementId: 'vx-1', selector: 'body > p', tagName: 'p', offsetX: 1, offsetY: 0.5 });
+    expect(parseCommentAnchor(null)).toBeNull();
+    expect(parseCommentAnchor({ selector: 'p' })).toBeNull();
+  });
+});
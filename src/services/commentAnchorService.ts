@@ -0,0 +1,197 @@
+/**
+ * Comment Anchor Service
+ *
+ * Pins comments to an element of the prototype instead of a point of the
+ * preview. An anchor records the element - by its stable `data-vx-id` when
+ * the screen has one, otherwise by a CSS path - and where in the element
+ * the pin was dropped, as a fraction of its size. On render the anchor is
+ * resolved against the current document, so a pin follows its element when
+ * the viewport width changes, and carries over to later iterations of the
+ * variant because stable IDs survive edits.
+ *
+ * A pin whose element is gone is orphaned; callers fall back to the
+ * position it was created at.
+ */
+
+import { findElementById, getElementId } from './elementIdentityService';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface CommentAnchor {
+  /** Stable element ID, when the screen has them */
+  elementId: string | null;
+  /** CSS path from the body, used when there is no stable ID */
+  selector: string;
+  tagName: string;
+  /** Start of the element's text, to check a selector still finds the same element */
+  text?: string;
+  /** Where the pin sits in the element, 0-1 from its left and top edges */
+  offsetX: number;
+  offsetY: number;
+}
+
+export type ResolvedAnchor =
+  | { status: 'anchored'; x: number; y: number }
+  | { status: 'orphaned' };
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+// Elements too broad to say what a comment is about
+const UNANCHORABLE_TAGS = new Set(['HTML', 'BODY']);
+
+const TEXT_SNIPPET_LENGTH = 40;
+
+// Ids usable in a selector as-is
+const SIMPLE_ID = /^[A-Za-z][\w-]*$/;
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+function textSnippet(el: Element): string {
+  return (el.textContent || '').replace(/\s+/g, ' ').trim().slice(0, TEXT_SNIPPET_LENGTH);
+}
+
+function clamp01(value: number): number {
+  return Math.min(1, Math.max(0, value));
+}
+
+/**
+ * CSS path to an element: its id when that is unique, otherwise
+ * tag:nth-of-type steps up to the nearest unique id or the body
+ */
+export function buildElementSelector(el: Element): string {
+  const doc = el.ownerDocument;
+  const steps: string[] = [];
+  let current: Element | null = el;
+
+  while (current && !UNANCHORABLE_TAGS.has(current.tagName)) {
+    if (SIMPLE_ID.test(current.id) && doc.querySelectorAll(`#${current.id}`).length === 1) {
+      steps.unshift(`#${current.id}`);
+      return steps.join(' > ');
+    }
+
+    const tag = current.tagName.toLowerCase();
+    const sameTag = current.parentElement
+      ? Array.from(current.parentElement.children).filter((child) => child.tagName === current!.tagName)
+      : [];
+    steps.unshift(sameTag.length > 1 ? `${tag}:nth-of-type(${sameTag.indexOf(current) + 1})` : tag);
+    current = current.parentElement;
+  }
+
+  return ['body', ...steps].join(' > ');
+}
+
+// ============================================================================
+// Anchors
+// ============================================================================
+
+/**
+ * Anchor a pin dropped at a point of an element. The point is in the same
+ * coordinates as the element's client rect (the frame's viewport).
+ * Returns null for the page itself, which a pin cannot usefully follow.
+ */
+export function createCommentAnchor(el: Element, point: { x: number; y: number }): CommentAnchor | null {
+  if (UNANCHORABLE_TAGS.has(el.tagName)) return null;
+
+  const rect = el.getBoundingClientRect();
+  const text = textSnippet(el);
+
+  return {
+    elementId: getElementId(el),
+    selector: buildElementSelector(el),
+    tagName: el.tagName.toLowerCase(),
+    ...(text ? { text } : {}),
+    offsetX: rect.width > 0 ? clamp01((point.x - rect.left) / rect.width) : 0.5,
+    offsetY: rect.height > 0 ? clamp01((point.y - rect.top) / rect.height) : 0.5,
+  };
+}
+
+/**
+ * Anchor a pin at a point of a document's viewport, to the element under it
+ */
+export function createCommentAnchorAt(doc: Document, point: { x: number; y: number }): CommentAnchor | null {
+  const el = doc.elementFromPoint(point.x, point.y);
+  return el ? createCommentAnchor(el, point) : null;
+}
+
+/**
+ * Find the element an anchor points at. A stable ID wins; a selector match
+ * only counts when it is still the same kind of element with the same text.
+ */
+export function findAnchorElement(doc: Document, anchor: CommentAnchor): Element | null {
+  if (anchor.elementId) {
+    const byId = findElementById(doc, anchor.elementId);
+    if (byId) return byId;
+  }
+
+  let bySelector: Element | null = null;
+  try {
+    bySelector = doc.querySelector(anchor.selector);
+  } catch {
+    return null;
+  }
+  if (!bySelector || bySelector.tagName.toLowerCase() !== anchor.tagName) return null;
+  if (anchor.text !== undefined && textSnippet(bySelector) !== anchor.text) return null;
+
+  return bySelector;
+}
+
+/**
+ * Where an anchored pin is now, in the document's viewport coordinates.
+ * Elements that were removed or are hidden leave their pins orphaned.
+ */
+export function resolveCommentAnchor(doc: Document, anchor: CommentAnchor): ResolvedAnchor {
+  const el = findAnchorElement(doc, anchor);
+  if (!el) return { status: 'orphaned' };
+
+  const rect = el.getBoundingClientRect();
+  if (rect.width === 0 && rect.height === 0) return { status: 'orphaned' };
+
+  return {
+    status: 'anchored',
+    x: rect.left + anchor.offsetX * rect.width,
+    y: rect.top + anchor.offsetY * rect.height,
+  };
+}
+
+/**
+ * Read an anchor stored as JSON, ignoring anything that is not one
+ */
+export function parseCommentAnchor(value: unknown): CommentAnchor | null {
+  if (typeof value !== 'object' || value === null) return null;
+  const anchor = value as Partial<CommentAnchor>;
+  if (
+    typeof anchor.selector !== 'string' ||
+    typeof anchor.tagName !== 'string' ||
+    typeof anchor.offsetX !== 'number' ||
+    typeof anchor.offsetY !== 'number'
+  ) {
+    return null;
+  }
+
+  return {
+    elementId: typeof anchor.elementId === 'string' ? anchor.elementId : null,
+    selector: anchor.selector,
+    tagName: anchor.tagName,
+    ...(typeof anchor.text === 'string' ? { text: anchor.text } : {}),
+    offsetX: clamp01(anchor.offsetX),
+    offsetY: clamp01(anchor.offsetY),
+  };
+}
+
+/**
+ * The document inside a preview frame, when the page may read it
+ * (srcdoc and same-origin frames); null for cross-origin frames
+ */
+export function getFrameDocument(iframe: HTMLIFrameElement): Document | null {
+  try {
+    return iframe.contentDocument;
+  } catch {
+    return null;
+  }
+}
@@ -6,6 +6,8 @@
 import { supabase, supabasePublic, isSupabaseConfigured } from './supabase';
 import type { ShareComment } from '@/types/database';
 import type { RealtimeChannel } from '@supabase/supabase-js';
+import { parseCommentAnchor, type CommentAnchor } from './commentAnchorService';
+import { getShareGrant } from './sharingService';
 
 // Types
 export interface CommentInput {
@@ -15,6 +17,8 @@ export interface CommentInput {
   userName: string;
   positionX?: number;
   positionY?: number;
+  /** Element the pin is attached to; the position is kept as a fallback */
+  anchor?: CommentAnchor | null;
   variantIndex?: number;
   parentId?: string;
 }
@@ -24,6 +28,11 @@ export interface CommentWithReplies extends ShareComment {
   replies?: CommentWithReplies[];
 }
 
+/** A pin comment with its anchor read from the stored JSON */
+export interface PinComment extends Omit<CommentWithReplies, 'anchor'> {
+  anchor: CommentAnchor | null;
+}
+
 export type CommentEventType = 'INSERT' | 'UPDATE' | 'DELETE';
 
 export interface CommentChangeEvent {
@@ -51,6 +60,8 @@ export async function addComment(input: CommentInput): Promise<string> {
     p_position_y: input.positionY ?? null,
     p_variant_index: input.variantIndex ?? null,
     p_parent_id: input.parentId ?? null,
+    p_anchor: input.anchor ?? null,
+    p_access_grant: getShareGrant(input.shareToken),
   });
 
   if (error) {
@@ -74,6 +85,7 @@ export async function getComments(shareToken: string): Promise<CommentWithReplie
 
   const { data, error } = await supabasePublic.rpc('get_share_comments', {
     p_share_token: shareToken,
+    p_access_grant: getShareGrant(shareToken),
   });
 
   if (error) {
@@ -208,50 +220,39 @@ export async function getCommentCount(shareToken: string): Promise<{
     return { total: 0, unresolved: 0 };
   }
 
-  // First get the share_id from the token
-  const { data: shareData } = await supabasePublic
-    .from('vibe_shares')
-    .select('id')
-    .eq('share_token', shareToken)
-    .eq('is_active', true)
-    .single();
+  // Protected shares are hidden from direct reads, so count through the RPC
+  const { data, error } = await supabasePublic.rpc('get_share_comment_count', {
+    p_share_token: shareToken,
+    p_access_grant: getShareGrant(shareToken),
+  });
 
-  if (!shareData) {
+  if (error) {
+    console.error('[CommentService] Error fetching comment count:', error);
     return { total: 0, unresolved: 0 };
   }
 
-  // Get total count
-  const { count: total } = await supabasePublic
-    .from('share_comments')
-    .select('*', { count: 'exact', head: true })
-    .eq('share_id', shareData.id);
-
-  // Get unresolved count
-  const { count: unresolved } = await supabasePublic
-    .from('share_comments')
-    .select('*', { count: 'exact', head: true })
-    .eq('share_id', shareData.id)
-    .eq('resolved', false);
-
+  const row = Array.isArray(data) ? data[0] : data;
   return {
-    total: total || 0,
-    unresolved: unresolved || 0,
+    total: Number(row?.total) || 0,
+    unresolved: Number(row?.unresolved) || 0,
   };
 }
 
 /**
- * Get pin comments (comments with positions) for overlay display
+ * Get pin comments (comments with positions or anchors) for overlay display.
+ * Anchors point at elements by stable ID, so pins from one iteration of a
+ * variant can be resolved against the next.
  */
 export async function getPinComments(
   shareToken: string,
   variantIndex?: number
-): Promise<CommentWithReplies[]> {
+): Promise<PinComment[]> {
   const comments = await getComments(shareToken);
 
-  // Filter to only comments with positions (pins)
-  let pins = comments.filter(
-    (c) => c.position_x !== null && c.position_y !== null
-  );
+  // Filter to only comments with positions or anchors (pins)
+  let pins: PinComment[] = comments
+    .map((c) => ({ ...c, anchor: parseCommentAnchor(c.anchor) }))
+    .filter((c) => c.anchor !== null || (c.position_x !== null && c.position_y !== null));
 
   // Optionally filter by variant
   if (variantIndex !== undefined) {
@@ -81,7 +81,7 @@ export async function extractComponentsFromScreen(
   html: string,
   screenshotBase64?: string,
   options?: {
-    provider?: 'anthropic' | 'openai' | 'google';
+    provider?: 'anthropic' | 'openai' | 'google' | 'local';
     model?: string;
   }
 ): Promise<ExtractionResult> {
@@ -230,7 +230,7 @@ async function processScreen(
   screenIndex: number,
   totalScreens: number,
   options: {
-    provider?: 'anthropic' | 'openai' | 'google';
+    provider?: 'anthropic' | 'openai' | 'google' | 'local';
     model?: string;
     timeoutMs: number;
     onStepChange?: (step: string, detail?: string) => void;
@@ -350,7 +350,7 @@ export async function extractComponentsFromMultipleScreens(
     thumbnail?: string;
   }>,
   options?: {
-    provider?: 'anthropic' | 'openai' | 'google';
+    provider?: 'anthropic' | 'openai' | 'google' | 'local';
     model?: string;
     onProgress?: (progress: ExtractionProgress) => void;
     onComponentsFound?: (components: ExtractedComponentLLM[], screenName: string) => void;
@@ -2,9 +2,19 @@
  * Context Files Service
  * Handles file uploads and management for Product Context categories
  * Supports both Supabase storage and local mock mode for demos
+ * Uploaded text is ingested into the workspace's retrieval index
  */
 
 import { supabase, isSupabaseConfigured } from './supabase';
+import { chunkContextText, extractContextText, getContextFormat } from './contextIngestionService';
+import {
+  getIndexedFileIds,
+  indexContextFile,
+  removeContextFileFromIndex,
+  retrieveContext,
+  type RetrieveContextOptions,
+  type RetrievedContext,
+} from './contextIndexService';
 
 export type ContextCategory = 'goals' | 'kpis' | 'backlog' | 'knowledge';
 
@@ -37,6 +47,11 @@ export interface UploadContextFileParams {
 // Local storage key for mock files
 const LOCAL_STORAGE_KEY = 'voxel_context_files';
 
+// Index workspace for files kept in localStorage
+const LOCAL_WORKSPACE_ID = 'local';
+
+const CONTENT_PREVIEW_LENGTH = 500;
+
 /**
  * Get mock files from localStorage
  */
@@ -97,6 +112,30 @@ async function shouldUseMockMode(): Promise<boolean> {
   }
 }
 
+/**
+ * Read a file's text, or null when it has none or cannot be read
+ */
+async function readContextText(file: File): Promise<string | null> {
+  try {
+    return await extractContextText(file);
+  } catch (e) {
+    console.warn('[ContextFilesService] Failed to extract text:', e);
+    return null;
+  }
+}
+
+/**
+ * Chunk a file's text into a workspace index. Files without text are still
+ * recorded, so they are not read again on every retrieval.
+ */
+function ingestContextText(workspaceId: string, record: ContextFile, text: string | null): void {
+  const format = getContextFormat(record.mimeType || '', record.fileName);
+  const chunks = text && format ? chunkContextText(text, format) : [];
+  if (!indexContextFile(workspaceId, record, chunks)) {
+    console.warn('[ContextFilesService] Could not index', record.fileName);
+  }
+}
+
 /**
  * Get all context files for the current user
  */
@@ -179,17 +218,8 @@ export async function uploadContextFile(params: UploadContextFileParams): Promis
     }
 
     const fileType = getFileType(file.type, file.name);
-
-    // Extract content preview for text files
-    let contentPreview: string | undefined;
-    if (fileType === 'text' || fileType === 'document') {
-      try {
-        const text = await file.text();
-        contentPreview = text.substring(0, 500);
-      } catch {
-        // Ignore preview extraction errors
-      }
-    }
+    const text = await readContextText(file);
+    const contentPreview = text?.substring(0, CONTENT_PREVIEW_LENGTH);
 
     const newFile: ContextFile = {
       id: `mock_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
@@ -221,6 +251,7 @@ export async function uploadContextFile(params: UploadContextFileParams): Promis
       console.warn('[ContextFilesService] Saved file metadata only due to storage limits');
     }
 
+    ingestContextText(LOCAL_WORKSPACE_ID, newFile, text);
     return newFile;
   }
 
@@ -247,17 +278,8 @@ export async function uploadContextFile(params: UploadContextFileParams): Promis
 
   // Get file type
   const fileType = getFileType(file.type, file.name);
-
-  // Extract content preview for text files
-  let contentPreview: string | undefined;
-  if (fileType === 'text' || fileType === 'document') {
-    try {
-      const text = await file.text();
-      contentPreview = text.substring(0, 500);
-    } catch {
-      // Ignore preview extraction errors
-    }
-  }
+  const text = await readContextText(file);
+  const contentPreview = text?.substring(0, CONTENT_PREVIEW_LENGTH);
 
   // Create database record
   const { data, error: dbError } = await supabase
@@ -284,7 +306,7 @@ export async function uploadContextFile(params: UploadContextFileParams): Promis
     throw new Error(`Failed to save file record: ${dbError.message}`);
   }
 
-  return {
+  const uploaded: ContextFile = {
     id: data.id,
     userId: data.user_id,
     category: data.category as ContextCategory,
@@ -300,6 +322,9 @@ export async function uploadContextFile(params: UploadContextFileParams): Promis
     createdAt: data.created_at,
     updatedAt: data.updated_at,
   };
+
+  ingestContextText(user.id, uploaded, text);
+  return uploaded;
 }
 
 /**
@@ -313,6 +338,7 @@ export async function deleteContextFile(fileId: string): Promise<void> {
     const files = getLocalFiles();
     const updatedFiles = files.filter(f => f.id !== fileId);
     saveLocalFiles(updatedFiles);
+    removeContextFileFromIndex(LOCAL_WORKSPACE_ID, fileId);
     return;
   }
 
@@ -351,6 +377,72 @@ export async function deleteContextFile(fileId: string): Promise<void> {
   if (dbError) {
     throw new Error(`Failed to delete file: ${dbError.message}`);
   }
+
+  removeContextFileFromIndex(user.id, fileId);
+}
+
+/**
+ * Fetch the stored content of a context file, for files indexed on another
+ * device or before ingestion existed
+ */
+async function downloadContextFile(record: ContextFile, useMock: boolean): Promise<File | null> {
+  try {
+    let blob: Blob;
+    if (useMock) {
+      if (!record.localDataUrl) return null;
+      blob = await (await fetch(record.localDataUrl)).blob();
+    } else {
+      const { data, error } = await supabase.storage.from('editor-images').download(record.filePath);
+      if (error || !data) return null;
+      blob = data;
+    }
+    return new File([blob], record.fileName, { type: record.mimeType || blob.type });
+  } catch (e) {
+    console.warn('[ContextFilesService] Failed to download', record.fileName, e);
+    return null;
+  }
+}
+
+/**
+ * Retrieve the product context most relevant to a request, within a token
+ * budget. Files missing from the index are ingested first, and the index
+ * forgets files that were deleted elsewhere. Never throws: generation goes
+ * ahead without context when retrieval fails.
+ */
+export async function retrieveProductContext(
+  query: string,
+  options?: RetrieveContextOptions
+): Promise<RetrievedContext> {
+  try {
+    const useMock = await shouldUseMockMode();
+    let workspaceId = LOCAL_WORKSPACE_ID;
+    if (!useMock) {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) return { text: '', citations: [], tokens: 0 };
+      workspaceId = user.id;
+    }
+
+    const files = await getContextFiles();
+    const indexed = getIndexedFileIds(workspaceId);
+    const current = new Set(files.map(f => f.id));
+
+    for (const fileId of indexed) {
+      if (!current.has(fileId)) removeContextFileFromIndex(workspaceId, fileId);
+    }
+
+    for (const record of files.filter(f => !indexed.has(f.id))) {
+      const download = getContextFormat(record.mimeType || '', record.fileName)
+        ? await downloadContextFile(record, useMock)
+        : null;
+      const text = (download && await readContextText(download)) || record.contentPreview || null;
+      ingestContextText(workspaceId, record, text);
+    }
+
+    return retrieveContext(workspaceId, query, options);
+  } catch (e) {
+    console.error('[ContextFilesService] Error retrieving product context:', e);
+    return { text: '', citations: [], tokens: 0 };
+  }
 }
 
 /**
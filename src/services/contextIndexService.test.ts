@@ -0,0 +1,67 @@
+/**
+ * Tests for contextIndexService
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  getIndexedFileIds,
+  indexContextFile,
+  removeContextFileFromIndex,
+  retrieveContext,
+  searchContextIndex,
+  tokenizeContext,
+} from './contextIndexService';
+
+const WORKSPACE = 'test-workspace';
+
+describe('contextIndexService', () => {
+  beforeEach(() => {
+    localStorage.clear();
+    indexContextFile(WORKSPACE, { id: 'okrs', title: 'Q3 OKRs', category: 'goals' }, [
+      { section: 'Activation', text: 'Increase trial to paid conversion from 8% to 12% by simplifying checkout.' },
+      { section: 'Retention', text: 'Reduce churn of team workspaces in their second month.' },
+    ]);
+    indexContextFile(WORKSPACE, { id: 'backlog', title: 'Backlog', category: 'backlog' }, [
+      { section: 'Dark mode', text: 'Title: Dark mode\nPriority: Low' },
+      { section: 'Saved filters', text: 'Title: Saved filters\nPriority: High\nNotes: Requested by admins' },
+    ]);
+  });
+
+  it('should stem terms and drop stopwords', () => {
+    expect(tokenizeContext('Onboarding the new Teams with goals')).toEqual(['onboard', 'new', 'team', 'goal']);
+  });
+
+  it('should rank the chunks that match the request first', () => {
+    const results = searchContextIndex(WORKSPACE, 'Redesign the checkout to lift conversion');
+    expect(results[0].chunk).toMatchObject({ fileId: 'okrs', section: 'Activation' });
+    expect(results.map((r) => r.chunk.section)).not.toContain('Dark mode');
+  });
+
+  it('should return cited context within the token budget', () => {
+    const context = retrieveContext(WORKSPACE, 'checkout conversion and saved filters for admins');
+    expect(context.citations.map((c) => c.section)).toEqual(expect.arrayContaining(['Activation', 'Saved filters']));
+    const activation = context.citations.find((c) => c.section === 'Activation')!;
+    expect(activation).toMatchObject({ fileTitle: 'Q3 OKRs', category: 'goals' });
+    expect(context.text).toContain(`[${activation.index}] Goals & KPIs · "Q3 OKRs" · Activation\nIncrease trial`);
+
+    const small = retrieveContext(WORKSPACE, 'checkout conversion and saved filters for admins', { tokenBudget: 60 });
+    expect(small.citations.length).toBeLessThan(context.citations.length);
+    expect(small.tokens).toBeLessThanOrEqual(60);
+  });
+
+  it('should return nothing when no context is relevant', () => {
+    expect(retrieveContext(WORKSPACE, 'zzz qqq')).toEqual({ text: '', citations: [], tokens: 0 });
+  });
+
+  it('should replace and remove a file\'s chunks', () => {
+    indexContextFile(WORKSPACE, { id: 'okrs', title: 'Q4 OKRs', category: 'goals' }, [
+      { text: 'Grow weekly active designers.' },
+    ]);
+    expect(searchContextIndex(WORKSPACE, 'checkout')).toHaveLength(0);
+    expect(searchContextIndex(WORKSPACE, 'weekly active designers')[0].chunk.fileTitle).toBe('Q4 OKRs');
+
+    removeContextFileFromIndex(WORKSPACE, 'okrs');
+    expect(getIndexedFileIds(WORKSPACE)).toEqual(new Set(['backlog']));
+    expect(searchContextIndex(WORKSPACE, 'weekly active designers')).toHaveLength(0);
+  });
+});
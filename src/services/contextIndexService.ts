@@ -0,0 +1,392 @@
+/**
+ * Context Index Service
+ * Local retrieval index over product context chunks, one per workspace.
+ *
+ * Chunks are kept in localStorage; the search structures are rebuilt in
+ * memory on first use. Each chunk is scored two ways and the scores are
+ * blended: BM25 over stemmed terms for exact vocabulary ("checkout",
+ * "NPS"), and cosine similarity of hashed term and trigram vectors - a
+ * small local embedding that still matches "onboard" to "onboarding" or
+ * a typo'd metric name. The best chunks that fit a token budget are
+ * returned with numbered citations, and formatted into the single
+ * productContext string the generation services take.
+ */
+
+import { estimateTokens } from './htmlCompactor';
+import type { ContextChunkDraft } from './contextIngestionService';
+import type { ContextCategory } from './contextFilesService';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface IndexedContextChunk {
+  id: string;
+  fileId: string;
+  fileTitle: string;
+  category: ContextCategory;
+  section?: string;
+  text: string;
+}
+
+export interface ContextCitation {
+  /** Number the chunk is cited by in the prompt, from 1 */
+  index: number;
+  fileId: string;
+  fileTitle: string;
+  category: ContextCategory;
+  section?: string;
+  excerpt: string;
+  score: number;
+}
+
+export interface RetrievedContext {
+  /** Prompt text for productContext; empty when nothing was relevant */
+  text: string;
+  citations: ContextCitation[];
+  tokens: number;
+}
+
+export interface RetrieveContextOptions {
+  /** Most tokens the retrieved chunks may take up */
+  tokenBudget?: number;
+  maxChunks?: number;
+}
+
+interface IndexedFileInfo {
+  title: string;
+  category: ContextCategory;
+  indexedAt: string;
+}
+
+interface StoredContextIndex {
+  version: number;
+  files: Record<string, IndexedFileInfo>;
+  chunks: IndexedContextChunk[];
+}
+
+interface SearchIndex {
+  chunks: IndexedContextChunk[];
+  termFrequencies: Map<string, number>[];
+  lengths: number[];
+  averageLength: number;
+  documentFrequency: Map<string, number>;
+  vectors: Float32Array[];
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const STORAGE_KEY_PREFIX = 'voxel_context_index_';
+const INDEX_VERSION = 1;
+
+export const DEFAULT_CONTEXT_TOKEN_BUDGET = 1200;
+const DEFAULT_MAX_CHUNKS = 8;
+
+// BM25 parameters, the usual defaults
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+
+const VECTOR_DIMENSIONS = 256;
+
+// Share of the blended score that comes from BM25 rather than the vectors
+const KEYWORD_WEIGHT = 0.7;
+
+// Chunks sharing no terms need at least this much vector similarity to count
+const MIN_VECTOR_SIMILARITY = 0.35;
+
+// Goals and KPIs are what designers most want a variant to answer to
+const CATEGORY_BOOST: Record<ContextCategory, number> = {
+  goals: 1.2,
+  kpis: 1.1,
+  backlog: 1,
+  knowledge: 1,
+};
+
+export const CONTEXT_CATEGORY_LABELS: Record<ContextCategory, string> = {
+  goals: 'Goals & KPIs',
+  kpis: 'UX Principles',
+  backlog: 'Backlog',
+  knowledge: 'Knowledge Base',
+};
+
+const EXCERPT_LENGTH = 160;
+
+const STOPWORDS = new Set(
+  ('a an and are as at be but by can do for from has have how i if in into is it its of on or our so that the ' +
+    'their them then there these they this to was we were what when where which who will with you your')
+    .split(' ')
+);
+
+// Search structures built from the stored chunks, per workspace
+const searchIndexCache = new Map<string, SearchIndex>();
+
+// ============================================================================
+// Text Analysis
+// ============================================================================
+
+/**
+ * Crude suffix stripping - enough for "goals"/"goal" and "converting"/"convert"
+ */
+function stem(word: string): string {
+  if (word.length <= 4) return word;
+  if (word.endsWith('ies')) return `${word.slice(0, -3)}y`;
+  if (word.endsWith('ing') && word.length > 5) return word.slice(0, -3);
+  if (word.endsWith('ed') && word.length > 5) return word.slice(0, -2);
+  if (word.endsWith('s') && !word.endsWith('ss')) return word.slice(0, -1);
+  return word;
+}
+
+/**
+ * Lowercased, stemmed terms of a text, without stopwords
+ */
+export function tokenizeContext(text: string): string[] {
+  return (text.toLowerCase().match(/[\p{L}\p{N}]+/gu) || [])
+    .filter((word) => !STOPWORDS.has(word) && (word.length > 1 || /\d/.test(word)))
+    .map(stem);
+}
+
+function hashFeature(feature: string): number {
+  // FNV-1a
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < feature.length; i++) {
+    hash ^= feature.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Hashed vector of a text's terms and their character trigrams, normalized
+ * so the dot product of two vectors is their cosine similarity
+ */
+function embed(terms: string[]): Float32Array {
+  const vector = new Float32Array(VECTOR_DIMENSIONS);
+  const add = (feature: string, weight: number) => {
+    const hash = hashFeature(feature);
+    vector[hash % VECTOR_DIMENSIONS] += hash & 0x80000000 ? -weight : weight;
+  };
+
+  for (const term of terms) {
+    add(term, 1);
+    const padded = `^${term}$`;
+    for (let i = 0; i + 3 <= padded.length; i++) add(padded.slice(i, i + 3), 0.5);
+  }
+
+  let norm = 0;
+  for (const value of vector) norm += value * value;
+  norm = Math.sqrt(norm);
+  if (norm > 0) for (let i = 0; i < vector.length; i++) vector[i] /= norm;
+  return vector;
+}
+
+function dot(a: Float32Array, b: Float32Array): number {
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) sum += a[i] * b[i];
+  return sum;
+}
+
+// ============================================================================
+// Storage
+// ============================================================================
+
+function storageKey(workspaceId: string): string {
+  return `${STORAGE_KEY_PREFIX}${workspaceId}`;
+}
+
+function loadIndex(workspaceId: string): StoredContextIndex {
+  try {
+    const stored = localStorage.getItem(storageKey(workspaceId));
+    const parsed = stored ? (JSON.parse(stored) as StoredContextIndex) : null;
+    if (parsed?.version === INDEX_VERSION) return parsed;
+  } catch {
+    // Fall through to an empty index
+  }
+  return { version: INDEX_VERSION, files: {}, chunks: [] };
+}
+
+function saveIndex(workspaceId: string, index: StoredContextIndex): boolean {
+  searchIndexCache.delete(workspaceId);
+  try {
+    localStorage.setItem(storageKey(workspaceId), JSON.stringify(index));
+    return true;
+  } catch (e) {
+    console.warn('[ContextIndexService] Failed to save index to localStorage:', e);
+    return false;
+  }
+}
+
+function buildSearchIndex(chunks: IndexedContextChunk[]): SearchIndex {
+  const termFrequencies: Map<string, number>[] = [];
+  const lengths: number[] = [];
+  const documentFrequency = new Map<string, number>();
+  const vectors: Float32Array[] = [];
+
+  for (const chunk of chunks) {
+    // Headings and titles say what a chunk is about, so they count too
+    const terms = tokenizeContext(`${chunk.fileTitle} ${chunk.section || ''} ${chunk.text}`);
+    const frequencies = new Map<string, number>();
+    for (const term of terms) frequencies.set(term, (frequencies.get(term) || 0) + 1);
+    for (const term of frequencies.keys()) documentFrequency.set(term, (documentFrequency.get(term) || 0) + 1);
+
+    termFrequencies.push(frequencies);
+    lengths.push(terms.length);
+    vectors.push(embed(terms));
+  }
+
+  const averageLength = lengths.length ? lengths.reduce((a, b) => a + b, 0) / lengths.length : 0;
+  return { chunks, termFrequencies, lengths, averageLength, documentFrequency, vectors };
+}
+
+function getSearchIndex(workspaceId: string): SearchIndex {
+  let index = searchIndexCache.get(workspaceId);
+  if (!index) {
+    index = buildSearchIndex(loadIndex(workspaceId).chunks);
+    searchIndexCache.set(workspaceId, index);
+  }
+  return index;
+}
+
+// ============================================================================
+// Indexing
+// ============================================================================
+
+/**
+ * Add a file's chunks to a workspace index, replacing any it had before
+ */
+export function indexContextFile(
+  workspaceId: string,
+  file: { id: string; title: string; category: ContextCategory },
+  chunks: ContextChunkDraft[]
+): boolean {
+  const index = loadIndex(workspaceId);
+  index.chunks = index.chunks.filter((chunk) => chunk.fileId !== file.id);
+  index.chunks.push(
+    ...chunks.map((chunk, i) => ({
+      id: `${file.id}:${i}`,
+      fileId: file.id,
+      fileTitle: file.title,
+      category: file.category,
+      ...(chunk.section ? { section: chunk.section } : {}),
+      text: chunk.text,
+    }))
+  );
+  index.files[file.id] = { title: file.title, category: file.category, indexedAt: new Date().toISOString() };
+  return saveIndex(workspaceId, index);
+}
+
+/**
+ * Remove a file's chunks from a workspace index
+ */
+export function removeContextFileFromIndex(workspaceId: string, fileId: string): void {
+  const index = loadIndex(workspaceId);
+  if (!index.files[fileId]) return;
+  delete index.files[fileId];
+  index.chunks = index.chunks.filter((chunk) => chunk.fileId !== fileId);
+  saveIndex(workspaceId, index);
+}
+
+/**
+ * IDs of the files a workspace index has chunks for
+ */
+export function getIndexedFileIds(workspaceId: string): Set<string> {
+  return new Set(Object.keys(loadIndex(workspaceId).files));
+}
+
+// ============================================================================
+// Retrieval
+// ============================================================================
+
+function excerpt(text: string): string {
+  const single = text.replace(/\s+/g, ' ').trim();
+  return single.length > EXCERPT_LENGTH ? `${single.slice(0, EXCERPT_LENGTH - 1)}…` : single;
+}
+
+/**
+ * Score every chunk of a workspace against a query, best first
+ */
+export function searchContextIndex(
+  workspaceId: string,
+  query: string
+): { chunk: IndexedContextChunk; score: number }[] {
+  const index = getSearchIndex(workspaceId);
+  const queryTerms = [...new Set(tokenizeContext(query))];
+  if (queryTerms.length === 0 || index.chunks.length === 0) return [];
+
+  const queryVector = embed(queryTerms);
+  const total = index.chunks.length;
+
+  const keywordScores = index.chunks.map((_, i) => {
+    const frequencies = index.termFrequencies[i];
+    const lengthNorm = 1 - BM25_B + BM25_B * (index.lengths[i] / (index.averageLength || 1));
+    let score = 0;
+    for (const term of queryTerms) {
+      const tf = frequencies.get(term);
+      if (!tf) continue;
+      const df = index.documentFrequency.get(term) || 0;
+      const idf = Math.log(1 + (total - df + 0.5) / (df + 0.5));
+      score += (idf * tf * (BM25_K1 + 1)) / (tf + BM25_K1 * lengthNorm);
+    }
+    return score;
+  });
+  const maxKeyword = Math.max(...keywordScores);
+
+  return index.chunks
+    .map((chunk, i) => {
+      const similarity = Math.max(0, dot(queryVector, index.vectors[i]));
+      if (keywordScores[i] === 0 && similarity < MIN_VECTOR_SIMILARITY) return null;
+      const keyword = maxKeyword > 0 ? keywordScores[i] / maxKeyword : 0;
+      const score = (KEYWORD_WEIGHT * keyword + (1 - KEYWORD_WEIGHT) * similarity) * CATEGORY_BOOST[chunk.category];
+      return { chunk, score };
+    })
+    .filter((result): result is { chunk: IndexedContextChunk; score: number } => result !== null)
+    .sort((a, b) => b.score - a.score);
+}
+
+function formatChunk(index: number, chunk: IndexedContextChunk): string {
+  const source = [CONTEXT_CATEGORY_LABELS[chunk.category], `"${chunk.fileTitle}"`, chunk.section]
+    .filter(Boolean)
+    .join(' · ');
+  return `[${index}] ${source}\n${chunk.text.trim()}`;
+}
+
+/**
+ * The most relevant chunks for a request that fit in the token budget,
+ * formatted for the prompt with numbered sources to cite
+ */
+export function retrieveContext(
+  workspaceId: string,
+  query: string,
+  options: RetrieveContextOptions = {}
+): RetrievedContext {
+  const { tokenBudget = DEFAULT_CONTEXT_TOKEN_BUDGET, maxChunks = DEFAULT_MAX_CHUNKS } = options;
+  const header = 'Relevant product context. Cite sources by number, e.g. [1], when they shape a decision.';
+
+  const sections: string[] = [];
+  const citations: ContextCitation[] = [];
+  let tokens = estimateTokens(header);
+
+  for (const { chunk, score } of searchContextIndex(workspaceId, query)) {
+    if (citations.length >= maxChunks) break;
+    const section = formatChunk(citations.length + 1, chunk);
+    const cost = estimateTokens(section);
+    // Smaller chunks further down may still fit
+    if (tokens + cost > tokenBudget) continue;
+
+    sections.push(section);
+    tokens += cost;
+    citations.push({
+      index: citations.length + 1,
+      fileId: chunk.fileId,
+      fileTitle: chunk.fileTitle,
+      category: chunk.category,
+      ...(chunk.section ? { section: chunk.section } : {}),
+      excerpt: excerpt(chunk.text),
+      score: Math.round(score * 1000) / 1000,
+    });
+  }
+
+  if (citations.length === 0) return { text: '', citations: [], tokens: 0 };
+  return { text: [header, ...sections].join('\n\n'), citations, tokens };
+}
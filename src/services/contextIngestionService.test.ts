@@ -0,0 +1,132 @@
+/**
+ * Tests for contextIngestionService
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  chunkContextText,
+  extractPdfContentText,
+  extractPdfText,
+  getContextFormat,
+  parseCsv,
+} from './contextIngestionService';
+
+function pdfWithStream(dictionary: string, content: Uint8Array): Uint8Array {
+  const head = new TextEncoder().encode(`%PDF-1.4\n4 0 obj\n<< ${dictionary} >>\nstream\n`);
+  const tail = new TextEncoder().encode('\nendstream\nendobj\n%%EOF');
+  return new Uint8Array([...head, ...content, ...tail]);
+}
+
+// zlib stream holding the bytes in one uncompressed block, enough to exercise FlateDecode
+function zlibStored(data: Uint8Array): Uint8Array {
+  let a = 1;
+  let b = 0;
+  for (const byte of data) {
+    a = (a + byte) % 65521;
+    b = (b + a) % 65521;
+  }
+  const len = data.length;
+  return new Uint8Array([
+    0x78, 0x01, 0x01, len & 0xff, len >> 8, ~len & 0xff, (~len >> 8) & 0xff,
+    ...data,
+    b >> 8, b & 0xff, a >> 8, a & 0xff,
+  ]);
+}
+
+// A PDF built from numbered object bodies; streams are written uncompressed
+function pdfFromObjects(objects: Record<number, string>): Uint8Array {
+  const body = Object.entries(objects).map(([number, object]) => `${number} 0 obj\n${object}\nendobj\n`).join('');
+  return new TextEncoder().encode(`%PDF-1.5\n${body}%%EOF`);
+}
+
+function stream(content: string): string {
+  return `<< /Length ${content.length} >>\nstream\n${content}\nendstream`;
+}
+
+// Glyph ids 0x0100-0x0119 are a-z and 0x0003 is a space, as in a subset CID font
+function cidHex(text: string): string {
+  return Array.from(text, (char) => (char === ' ' ? 3 : 0x100 + char.charCodeAt(0) - 97).toString(16).padStart(4, '0')).join('');
+}
+
+const TO_UNICODE_CMAP = [
+  '/CIDInit /ProcSet findresource begin 12 dict begin begincmap',
+  '1 begincodespacerange <0000> <FFFF> endcodespacerange',
+  '1 beginbfchar <0003> <0020> endbfchar',
+  '1 beginbfrange <0100> <0119> <0061> endbfrange',
+  'endcmap CMapName currentdict /CMap defineresource pop end end',
+].join('\n');
+
+const PAGE_CONTENT =
+  'BT /F1 12 Tf 72 720 Td (Q3 goal: raise trial to paid conversion) Tj 0 -14 Td ' +
+  '[(Target) -250 (is 12%) -250 (by \\(end of\\) September)] TJ ET';
+
+describe('contextIngestionService', () => {
+  it('should detect ingestible formats', () => {
+    expect(getContextFormat('application/pdf', 'okrs.pdf')).toBe('pdf');
+    expect(getContextFormat('', 'backlog.CSV')).toBe('csv');
+    expect(getContextFormat('', 'principles.md')).toBe('markdown');
+    expect(getContextFormat('text/plain', 'notes.txt')).toBe('text');
+    expect(getContextFormat('image/png', 'flow.png')).toBeNull();
+  });
+
+  it('should read the text shown by PDF content streams', async () => {
+    expect(extractPdfContentText(PAGE_CONTENT)).toBe(
+      'Q3 goal: raise trial to paid conversion\nTarget is 12% by (end of) September\n'
+    );
+
+    const plain = pdfWithStream('/Length 120', new TextEncoder().encode(PAGE_CONTENT));
+    expect(await extractPdfText(plain)).toBe('Q3 goal: raise trial to paid conversion\nTarget is 12% by (end of) September');
+
+    const compressed = pdfWithStream('/Length 90 /Filter /FlateDecode', zlibStored(new TextEncoder().encode(PAGE_CONTENT)));
+    expect(await extractPdfText(compressed)).toContain('raise trial to paid conversion');
+  });
+
+  it('should decode hex strings', () => {
+    expect(extractPdfContentText('BT /F1 12 Tf <4E6F727468207374617220> Tj [<6D6574>-40(ric)] TJ ET')).toBe(
+      'North star metric\n'
+    );
+  });
+
+  it('should decode CID fonts through their ToUnicode CMap, per page', async () => {
+    const pdf = pdfFromObjects({
+      1: '<< /Type /Page /Resources << /Font << /F1 5 0 R >> >> /Contents 3 0 R >>',
+      2: '<< /Type /Page /Resources << /Font << /F1 8 0 R >> >> /Contents 4 0 R >>',
+      3: stream(`BT /F1 11 Tf <${cidHex('weekly active teams')}> Tj 0 -14 Td [<${cidHex('retention')}> -250 <${cidHex('first')}>] TJ ET`),
+      4: stream('BT /F1 11 Tf (Simple font text on page two) Tj ET'),
+      // Font dictionaries packed into an object stream, as PDF 1.5+ writers do
+      7: stream('5 0 8 73 << /Type /Font /Subtype /Type0 /Encoding /Identity-H /ToUnicode 6 0 R >> << /Type /Font /Subtype /Type1 >>')
+        .replace('<< /Length', '<< /Type /ObjStm /N 2 /First 9 /Length'),
+      6: stream(TO_UNICODE_CMAP),
+    });
+
+    expect(await extractPdfText(pdf)).toBe('weekly active teams\nretention first\n\nSimple font text on page two');
+  });
+
+  it('should return null for PDFs without readable text', async () => {
+    const image = pdfWithStream('/Type /XObject /Subtype /Image /Length 4', new Uint8Array([1, 2, 3, 4]));
+    expect(await extractPdfText(image)).toBeNull();
+  });
+
+  it('should chunk markdown by heading and CSV backlogs by row', () => {
+    const markdown = '# Goals\n\nIntro.\n\n## Activation\n\nGet new teams to their first prototype in a day.\n\n# KPIs\n\nWeekly active designers.';
+    expect(chunkContextText(markdown, 'markdown')).toEqual([
+      { section: 'Goals', text: 'Intro.' },
+      { section: 'Goals › Activation', text: 'Get new teams to their first prototype in a day.' },
+      { section: 'KPIs', text: 'Weekly active designers.' },
+    ]);
+
+    const csv = 'Title,Priority,Notes\n"Saved filters",High,"Asked for by ""power"" users,\nmostly admins"\nDark mode,Low,\n';
+    expect(parseCsv(csv)[1]).toEqual(['Saved filters', 'High', 'Asked for by "power" users,\nmostly admins']);
+    expect(chunkContextText(csv, 'csv')).toEqual([
+      { section: 'Saved filters', text: 'Title: Saved filters\nPriority: High\nNotes: Asked for by "power" users,\nmostly admins' },
+      { section: 'Dark mode', text: 'Title: Dark mode\nPriority: Low' },
+    ]);
+  });
+
+  it('should split long text into chunks of bounded size', () => {
+    const paragraph = 'Designers iterate on onboarding screens to lift activation across every segment. ';
+    const chunks = chunkContextText(Array.from({ length: 40 }, () => paragraph).join('\n\n'), 'text');
+    expect(chunks.length).toBeGreaterThan(1);
+    expect(chunks.every((c) => c.text.length < 2000)).toBe(true);
+  });
+});
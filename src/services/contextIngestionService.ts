@@ -0,0 +1,553 @@
+/**
+ * Context Ingestion Service
+ * Turns uploaded product context files into plain text and splits them into
+ * chunks small enough to retrieve individually: markdown by heading, CSV
+ * backlogs by row, PDFs and plain text by paragraph.
+ *
+ * PDF text is read straight from the file's content streams, which covers
+ * exported documents. Strings in composite (CID) fonts are decoded through
+ * the font's ToUnicode CMap. Scanned PDFs and fonts with neither a plain
+ * encoding nor a ToUnicode CMap have no readable text, and extraction returns
+ * null for them.
+ */
+
+import { estimateTokens } from './htmlCompactor';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type ContextFormat = 'pdf' | 'markdown' | 'csv' | 'text';
+
+export interface ContextChunkDraft {
+  /** Heading path, backlog item or page the text came from */
+  section?: string;
+  text: string;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+// Roughly a few paragraphs - big enough to carry a goal and its rationale
+const TARGET_CHUNK_TOKENS = 220;
+
+// Keeps one enormous file from crowding everything else out of the index
+const MAX_CHUNKS_PER_FILE = 400;
+
+const SECTION_LABEL_LENGTH = 80;
+
+// Below this a PDF almost certainly had no extractable text
+const MIN_PDF_TEXT_LETTERS = 20;
+
+// TJ offsets wider than this (thousandths of an em) are word gaps
+const PDF_WORD_GAP = -200;
+
+// ============================================================================
+// Format Detection
+// ============================================================================
+
+/**
+ * Which text format a file can be ingested as, or null when it has no text
+ * we can read (images, Office documents, slides)
+ */
+export function getContextFormat(mimeType: string, fileName: string): ContextFormat | null {
+  const name = fileName.toLowerCase();
+  if (mimeType === 'application/pdf' || name.endsWith('.pdf')) return 'pdf';
+  if (mimeType === 'text/csv' || name.endsWith('.csv')) return 'csv';
+  if (mimeType === 'text/markdown' || /\.(md|markdown)$/.test(name)) return 'markdown';
+  if (mimeType.startsWith('text/') || /\.(txt|json|xml)$/.test(name)) return 'text';
+  return null;
+}
+
+/**
+ * Read a file's text for ingestion; null when the format has none
+ */
+export async function extractContextText(file: File): Promise<string | null> {
+  const format = getContextFormat(file.type, file.name);
+  if (!format) return null;
+
+  if (format === 'pdf') {
+    return extractPdfText(new Uint8Array(await file.arrayBuffer()));
+  }
+
+  const text = await file.text();
+  return text.trim() ? text : null;
+}
+
+// ============================================================================
+// PDF Text Extraction
+// ============================================================================
+
+function latin1(bytes: Uint8Array): string {
+  let result = '';
+  // Chunked so long streams don't overflow the argument limit
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    result += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return result;
+}
+
+async function inflate(bytes: Uint8Array): Promise<Uint8Array | null> {
+  if (typeof DecompressionStream === 'undefined') return null;
+  try {
+    const body = new Response(bytes as BufferSource).body;
+    if (!body) return null;
+    return new Uint8Array(await new Response(body.pipeThrough(new DecompressionStream('deflate'))).arrayBuffer());
+  } catch {
+    return null;
+  }
+}
+
+function unescapePdfString(raw: string): string {
+  return raw.replace(/\\(\r\n|\r|\n|[0-7]{1,3}|.)/g, (_, code: string) => {
+    if (/^[\r\n]/.test(code)) return '';
+    if (/^[0-7]/.test(code)) return String.fromCharCode(parseInt(code, 8));
+    const escapes: Record<string, string> = { n: '\n', r: '\r', t: '\t', b: '', f: '' };
+    return escapes[code] ?? code;
+  });
+}
+
+function hexToBytes(hex: string): string {
+  const digits = hex.replace(/[^0-9A-Fa-f]/g, '');
+  // A missing final digit is taken as 0
+  const padded = digits.length % 2 ? `${digits}0` : digits;
+  let bytes = '';
+  for (let i = 0; i < padded.length; i += 2) {
+    bytes += String.fromCharCode(parseInt(padded.slice(i, i + 2), 16));
+  }
+  return bytes;
+}
+
+/**
+ * A font's ToUnicode CMap: character codes (1-4 bytes) to the text they show
+ */
+export interface ToUnicodeMap {
+  codeSpaces: Array<{ bytes: number; low: number; high: number }>;
+  /** Keyed by `${bytes}:${code}` */
+  chars: Map<string, string>;
+  ranges: Array<{ bytes: number; low: number; high: number; target: string | string[] }>;
+}
+
+function utf16Hex(hex: string): string {
+  const digits = hex.replace(/[^0-9A-Fa-f]/g, '');
+  // Some producers write single-byte targets
+  if (digits.length <= 2) return String.fromCharCode(parseInt(digits || '0', 16));
+  const units: number[] = [];
+  for (let i = 0; i + 4 <= digits.length; i += 4) {
+    units.push(parseInt(digits.slice(i, i + 4), 16));
+  }
+  return String.fromCharCode(...units);
+}
+
+function hexCode(hex: string): { bytes: number; code: number } {
+  const digits = hex.replace(/[^0-9A-Fa-f]/g, '');
+  return { bytes: Math.max(1, Math.ceil(digits.length / 2)), code: parseInt(digits || '0', 16) };
+}
+
+/**
+ * Parse the bfchar and bfrange mappings of a ToUnicode CMap stream
+ */
+export function parseToUnicodeCMap(cmap: string): ToUnicodeMap {
+  const map: ToUnicodeMap = { codeSpaces: [], chars: new Map(), ranges: [] };
+
+  for (const [, body] of cmap.matchAll(/begincodespacerange([\s\S]*?)endcodespacerange/g)) {
+    for (const [, low, high] of body.matchAll(/<([0-9A-Fa-f\s]*)>\s*<([0-9A-Fa-f\s]*)>/g)) {
+      const lowCode = hexCode(low);
+      map.codeSpaces.push({ bytes: lowCode.bytes, low: lowCode.code, high: hexCode(high).code });
+    }
+  }
+
+  for (const [, body] of cmap.matchAll(/beginbfchar([\s\S]*?)endbfchar/g)) {
+    for (const [, source, target] of body.matchAll(/<([0-9A-Fa-f\s]*)>\s*<([0-9A-Fa-f\s]*)>/g)) {
+      const { bytes, code } = hexCode(source);
+      map.chars.set(`${bytes}:${code}`, utf16Hex(target));
+    }
+  }
+
+  for (const [, body] of cmap.matchAll(/beginbfrange([\s\S]*?)endbfrange/g)) {
+    const entries = /<([0-9A-Fa-f\s]*)>\s*<([0-9A-Fa-f\s]*)>\s*(?:<([0-9A-Fa-f\s]*)>|\[([^\]]*)\])/g;
+    for (const [, low, high, target, targets] of body.matchAll(entries)) {
+      const lowCode = hexCode(low);
+      map.ranges.push({
+        bytes: lowCode.bytes,
+        low: lowCode.code,
+        high: hexCode(high).code,
+        target: targets !== undefined
+          ? Array.from(targets.matchAll(/<([0-9A-Fa-f\s]*)>/g), ([, hex]) => utf16Hex(hex))
+          : utf16Hex(target),
+      });
+    }
+  }
+
+  // Without a codespace, code widths follow the mapped codes
+  if (map.codeSpaces.length === 0) {
+    const widths = new Set([
+      ...Array.from(map.chars.keys(), (key) => Number(key.split(':')[0])),
+      ...map.ranges.map((range) => range.bytes),
+    ]);
+    widths.forEach((bytes) => map.codeSpaces.push({ bytes, low: 0, high: 2 ** (8 * bytes) - 1 }));
+  }
+  map.codeSpaces.sort((a, b) => a.bytes - b.bytes);
+
+  return map;
+}
+
+function lookupCode(map: ToUnicodeMap, bytes: number, code: number): string {
+  const char = map.chars.get(`${bytes}:${code}`);
+  if (char !== undefined) return char;
+
+  const range = map.ranges.find((r) => r.bytes === bytes && code >= r.low && code <= r.high);
+  if (!range) return '';
+  if (Array.isArray(range.target)) return range.target[code - range.low] ?? '';
+  // Consecutive codes map to consecutive values of the target's last unit
+  const last = range.target.charCodeAt(range.target.length - 1);
+  return range.target.slice(0, -1) + String.fromCharCode(last + code - range.low);
+}
+
+function decodeWithCMap(raw: string, map: ToUnicodeMap): string {
+  let text = '';
+  let i = 0;
+  const read = (bytes: number) => {
+    let code = 0;
+    for (let j = 0; j < bytes; j++) code = code * 256 + raw.charCodeAt(i + j);
+    return code;
+  };
+
+  while (i < raw.length) {
+    // The shortest codespace the next bytes fall in decides the code width
+    const space = map.codeSpaces.find((s) => {
+      if (i + s.bytes > raw.length) return false;
+      const code = read(s.bytes);
+      return code >= s.low && code <= s.high;
+    });
+    const bytes = space?.bytes ?? map.codeSpaces[0]?.bytes ?? 1;
+    text += lookupCode(map, bytes, read(bytes));
+    i += bytes;
+  }
+
+  return text;
+}
+
+/**
+ * The text of a string operand: (literal) or <hex>, decoded through the
+ * current font's CMap when it has one
+ */
+function decodeShownString(operand: string, map: ToUnicodeMap | undefined): string {
+  const raw = operand.startsWith('(') ? unescapePdfString(operand.slice(1, -1)) : hexToBytes(operand.slice(1, -1));
+  return map ? decodeWithCMap(raw, map) : raw;
+}
+
+/**
+ * Text drawn by a page content stream: the strings shown by Tj, TJ, ' and ",
+ * with line breaks where the text position moves down. `fonts` maps the
+ * page's font resource names to their ToUnicode CMaps.
+ */
+export function extractPdfContentText(content: string, fonts: Record<string, ToUnicodeMap> = {}): string {
+  const operators =
+    /\/([^\s/<>[\]()]+)\s+-?[\d.]+\s+Tf|(\[(?:\\.|[^\]\\])*\])\s*TJ|(\((?:\\.|[^\\)])*\)|<[0-9A-Fa-f\s]*>)\s*(?:Tj|'|")|(-?[\d.]+)\s+(-?[\d.]+)\s+T[dD]|\bT\*|\bET\b/g;
+  let text = '';
+  let font: ToUnicodeMap | undefined;
+  let match: RegExpExecArray | null;
+  const newline = () => {
+    if (text && !text.endsWith('\n')) text += '\n';
+  };
+
+  while ((match = operators.exec(content))) {
+    const [operator, fontName, array, single, , ty] = match;
+    if (fontName) {
+      font = fonts[fontName];
+    } else if (array) {
+      // Strings interleaved with kerning offsets; wide offsets stand for spaces
+      const parts = array.slice(1, -1).match(/\((?:\\.|[^\\)])*\)|<[0-9A-Fa-f\s]*>|-?[\d.]+/g) || [];
+      for (const part of parts) {
+        if (part.startsWith('(') || part.startsWith('<')) text += decodeShownString(part, font);
+        else if (parseFloat(part) < PDF_WORD_GAP) text += ' ';
+      }
+    } else if (single) {
+      if (!operator.endsWith('Tj')) newline();
+      text += decodeShownString(single, font);
+    } else if (ty !== undefined) {
+      if (parseFloat(ty) !== 0) newline();
+    } else {
+      newline();
+    }
+  }
+
+  return text;
+}
+
+interface PdfObject {
+  dictionary: string;
+  /** Decoded stream, null for objects without one or with an unsupported filter */
+  stream: string | null;
+}
+
+async function decodeStream(dictionary: string, bytes: Uint8Array, source: string, start: number, end: number): Promise<string | null> {
+  if (/\/FlateDecode/.test(dictionary)) {
+    const inflated = await inflate(bytes.subarray(start, end));
+    return inflated ? latin1(inflated) : null;
+  }
+  return /\/Filter/.test(dictionary) ? null : source.slice(start, end);
+}
+
+/**
+ * Every object in the file by number, including those packed into object
+ * streams (where PDF 1.5+ writers put font and page dictionaries)
+ */
+async function readPdfObjects(bytes: Uint8Array, source: string): Promise<Map<number, PdfObject>> {
+  const objects = new Map<number, PdfObject>();
+  const headers = /(\d+)\s+\d+\s+obj\b/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = headers.exec(source))) {
+    const bodyStart = match.index + match[0].length;
+    const body = /\bstream\r?\n|\bendobj\b/g;
+    body.lastIndex = bodyStart;
+    const bodyEnd = body.exec(source);
+    if (!bodyEnd) break;
+
+    const dictionary = source.slice(bodyStart, bodyEnd.index);
+    let stream: string | null = null;
+    if (bodyEnd[0] !== 'endobj') {
+      const start = bodyEnd.index + bodyEnd[0].length;
+      const end = source.indexOf('endstream', start);
+      if (end === -1) break;
+      headers.lastIndex = end;
+      // Images and embedded font programs carry no text
+      const binary = /\/(Subtype|Type)\s*\/(Image|XRef|Metadata|Type1C|CIDFontType0C|OpenType)|\/Length[123]\b/.test(dictionary);
+      stream = binary ? null : await decodeStream(dictionary, bytes, source, start, end);
+    } else {
+      headers.lastIndex = bodyEnd.index;
+    }
+    objects.set(Number(match[1]), { dictionary, stream });
+  }
+
+  for (const { dictionary, stream } of Array.from(objects.values())) {
+    if (!stream || !/\/Type\s*\/ObjStm/.test(dictionary)) continue;
+    const count = Number(/\/N\s+(\d+)/.exec(dictionary)?.[1] ?? 0);
+    const first = Number(/\/First\s+(\d+)/.exec(dictionary)?.[1] ?? 0);
+    const offsets = stream.slice(0, first).trim().split(/\s+/).map(Number);
+    for (let i = 0; i < count; i++) {
+      const [number, offset] = [offsets[2 * i], offsets[2 * i + 1]];
+      const next = i + 1 < count ? offsets[2 * i + 3] : stream.length - first;
+      if (!objects.has(number)) {
+        objects.set(number, { dictionary: stream.slice(first + offset, first + next), stream: null });
+      }
+    }
+  }
+
+  return objects;
+}
+
+/**
+ * Font resource names of a page or resource dictionary, to the ToUnicode
+ * CMaps of the fonts they name
+ */
+function fontResources(
+  dictionary: string,
+  objects: Map<number, PdfObject>,
+  cmapsByFont: Map<number, ToUnicodeMap>
+): Record<string, ToUnicodeMap> {
+  const resources = /\/Resources\s+(\d+)\s+\d+\s+R/.exec(dictionary);
+  const source = resources ? objects.get(Number(resources[1]))?.dictionary ?? '' : dictionary;
+  const fontDictionary = /\/Font\s+(\d+)\s+\d+\s+R/.exec(source);
+  const entries = fontDictionary
+    ? objects.get(Number(fontDictionary[1]))?.dictionary ?? ''
+    : /\/Font\s*<<([^<>]*)>>/.exec(source)?.[1] ?? '';
+
+  const fonts: Record<string, ToUnicodeMap> = {};
+  for (const [, name, ref] of entries.matchAll(/\/([^\s/<>[\]()]+)\s+(\d+)\s+\d+\s+R/g)) {
+    const map = cmapsByFont.get(Number(ref));
+    if (map) fonts[name] = map;
+  }
+  return fonts;
+}
+
+/**
+ * Extract the text of a PDF. Returns null when there is too little of it to
+ * be worth indexing, e.g. a scanned document.
+ */
+export async function extractPdfText(bytes: Uint8Array): Promise<string | null> {
+  const objects = await readPdfObjects(bytes, latin1(bytes));
+
+  const cmapsByFont = new Map<number, ToUnicodeMap>();
+  for (const [number, { dictionary }] of objects) {
+    const ref = /\/ToUnicode\s+(\d+)\s+\d+\s+R/.exec(dictionary);
+    const cmap = ref ? objects.get(Number(ref[1]))?.stream : null;
+    if (cmap) cmapsByFont.set(number, parseToUnicodeCMap(cmap));
+  }
+
+  // Each content stream reads fonts from its page; streams without one
+  // (e.g. resources inherited from the page tree) fall back to every font
+  const fontsByContent = new Map<number, Record<string, ToUnicodeMap>>();
+  const allFonts: Record<string, ToUnicodeMap> = {};
+  for (const { dictionary } of objects.values()) {
+    const fonts = fontResources(dictionary, objects, cmapsByFont);
+    Object.assign(allFonts, fonts);
+    if (!/\/Type\s*\/Page\b/.test(dictionary)) continue;
+
+    const contents = /\/Contents\s*(?:(\d+)\s+\d+\s+R|\[([^\]]*)\])/.exec(dictionary);
+    const refs = contents?.[1] ? [contents[1]] : Array.from(contents?.[2]?.matchAll(/(\d+)\s+\d+\s+R/g) ?? [], ([, ref]) => ref);
+    refs.forEach((ref) => fontsByContent.set(Number(ref), fonts));
+  }
+
+  const pages: string[] = [];
+  for (const [number, { dictionary, stream }] of objects) {
+    if (!stream || /\/Type\s*\/ObjStm|begincmap/.test(dictionary + stream.slice(0, 200))) continue;
+    if (/\bBT\b/.test(stream)) {
+      pages.push(extractPdfContentText(stream, fontsByContent.get(number) ?? allFonts));
+    }
+  }
+
+  const text = pages
+    .join('\n\n')
+    .replace(/[^\S\n]+/g, ' ')
+    .replace(/ *\n */g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+
+  return (text.match(/\p{L}/gu) || []).length >= MIN_PDF_TEXT_LETTERS ? text : null;
+}
+
+// ============================================================================
+// CSV Parsing
+// ============================================================================
+
+/**
+ * Parse CSV with quoted fields, doubled quotes and line breaks inside quotes
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows.filter((r) => r.some((cell) => cell.trim()));
+}
+
+// ============================================================================
+// Chunking
+// ============================================================================
+
+function label(text: string): string {
+  const single = text.replace(/\s+/g, ' ').trim();
+  return single.length > SECTION_LABEL_LENGTH ? `${single.slice(0, SECTION_LABEL_LENGTH - 1)}…` : single;
+}
+
+/**
+ * Pack paragraphs into chunks of about the target size. A paragraph larger
+ * than a chunk is split on sentences.
+ */
+function packParagraphs(text: string, section?: string): ContextChunkDraft[] {
+  const pieces = text
+    .split(/\n\s*\n/)
+    .map((p) => p.trim())
+    .filter(Boolean)
+    .flatMap((p) => (estimateTokens(p) > TARGET_CHUNK_TOKENS ? p.match(/[^.!?]+(?:[.!?]+|$)/g) || [p] : [p]));
+
+  const chunks: ContextChunkDraft[] = [];
+  let current = '';
+  for (const piece of pieces) {
+    const next = current ? `${current}\n\n${piece}` : piece;
+    if (current && estimateTokens(next) > TARGET_CHUNK_TOKENS) {
+      chunks.push({ section, text: current });
+      current = piece;
+    } else {
+      current = next;
+    }
+  }
+  if (current) chunks.push({ section, text: current });
+
+  return chunks;
+}
+
+function chunkMarkdown(text: string): ContextChunkDraft[] {
+  const chunks: ContextChunkDraft[] = [];
+  const headings: string[] = [];
+  let body: string[] = [];
+
+  const flush = () => {
+    const content = body.join('\n').trim();
+    if (content) chunks.push(...packParagraphs(content, headings.filter(Boolean).join(' › ') || undefined));
+    body = [];
+  };
+
+  for (const line of text.split(/\r?\n/)) {
+    const heading = /^(#{1,6})\s+(.+?)\s*#*\s*$/.exec(line);
+    if (heading) {
+      flush();
+      const level = heading[1].length;
+      headings.length = level;
+      headings[level - 1] = label(heading[2]);
+    } else {
+      body.push(line);
+    }
+  }
+  flush();
+
+  return chunks;
+}
+
+/**
+ * One chunk per row, written out as "Column: value" pairs so each backlog
+ * item can be retrieved and cited on its own
+ */
+function chunkCsv(text: string): ContextChunkDraft[] {
+  const [header, ...rows] = parseCsv(text);
+  if (!header) return [];
+  if (rows.length === 0) return packParagraphs(header.join(', '));
+
+  const columns = header.map((name, i) => name.trim() || `Column ${i + 1}`);
+  return rows.map((row) => {
+    const fields = row
+      .map((value, i) => [columns[i] ?? `Column ${i + 1}`, value.trim()])
+      .filter(([, value]) => value);
+    return {
+      section: fields[0] ? label(fields[0][1]) : undefined,
+      text: fields.map(([name, value]) => `${name}: ${value}`).join('\n'),
+    };
+  });
+}
+
+/**
+ * Split extracted text into retrievable chunks
+ */
+export function chunkContextText(text: string, format: ContextFormat): ContextChunkDraft[] {
+  const chunks =
+    format === 'csv' ? chunkCsv(text) : format === 'markdown' ? chunkMarkdown(text) : packParagraphs(text);
+
+  return chunks.filter((chunk) => chunk.text.trim()).slice(0, MAX_CHUNKS_PER_FILE);
+}
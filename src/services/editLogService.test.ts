@@ -0,0 +1,164 @@
+/**
+ * Tests for editLogService
+ */
+
+import { describe, it, expect } from 'vitest';
+import { EditLogTree, mergeConcurrentEdit, resolveEditMerge, type EditLogNode } from './editLogService';
+import { applyEditOperations, deriveEditOperations, normalizeHtml } from './editOperationsService';
+
+const BASE_HTML = '<!DOCTYPE html><html><head><title>Test</title></head><body><h1>Hello</h1><p class="intro">Welcome</p></body></html>';
+
+function makeNode(overrides: Partial<EditLogNode> & { id: string }): EditLogNode {
+  return {
+    variant_id: 'var-1',
+    session_id: 'session-1',
+    parent_id: null,
+    operations: [],
+    checkpoint_html: null,
+    source: 'user',
+    description: null,
+    created_at: '2026-02-08T00:00:00.000Z',
+    ...overrides,
+  };
+}
+
+describe('deriveEditOperations', () => {
+  it('should produce operations that replay the change exactly', () => {
+    const after = BASE_HTML
+      .replace('<h1>Hello</h1>', '<h1 style="color: red;">Hi there</h1>')
+      .replace('class="intro"', 'class="intro lead"');
+
+    const operations = deriveEditOperations(BASE_HTML, after);
+    const result = applyEditOperations(BASE_HTML, operations);
+
+    expect(result.failedOperations).toBe(0);
+    expect(normalizeHtml(result.html)).toBe(normalizeHtml(after));
+    expect(operations.map((op) => op.type)).toEqual(
+      expect.arrayContaining(['updateText', 'updateAttribute'])
+    );
+  });
+
+  it('should replace children when the structure changes', () => {
+    const after = BASE_HTML.replace('<p class="intro">Welcome</p>', '<p class="intro">Welcome</p><button>Go</button>');
+
+    const operations = deriveEditOperations(BASE_HTML, after);
+    const result = applyEditOperations(BASE_HTML, operations);
+
+    expect(operations).toHaveLength(1);
+    expect(operations[0].type).toBe('replaceInnerHtml');
+    expect(normalizeHtml(result.html)).toBe(normalizeHtml(after));
+  });
+
+  it('should return no operations for identical documents', () => {
+    expect(deriveEditOperations(BASE_HTML, BASE_HTML)).toEqual([]);
+  });
+});
+
+describe('EditLogTree', () => {
+  const root = makeNode({ id: 'root', checkpoint_html: BASE_HTML, source: 'ai' });
+  const first = makeNode({
+    id: 'a1',
+    created_at: '2026-02-08T00:00:01.000Z',
+    parent_id: 'root',
+    operations: [{ type: 'updateText', selector: 'h1', newText: 'First' }],
+  });
+  const second = makeNode({
+    id: 'a2',
+    created_at: '2026-02-08T00:00:02.000Z',
+    parent_id: 'a1',
+    operations: [{ type: 'addClass', selector: 'h1', className: 'big' }],
+  });
+  const branch = makeNode({
+    id: 'b1',
+    created_at: '2026-02-08T00:00:03.000Z',
+    parent_id: 'a1',
+    operations: [{ type: 'updateText', selector: 'p', newText: 'Branch' }],
+  });
+
+  it('should materialize a node by replaying deltas from the root', () => {
+    const tree = new EditLogTree([root, first, second], 'a2');
+
+    const html = tree.materialize('a2');
+    expect(html).toContain('<h1 class="big">First</h1>');
+  });
+
+  it('should default the head to the latest node', () => {
+    const tree = new EditLogTree([root, first, second], null);
+    expect(tree.getHeadId()).toBe('a2');
+  });
+
+  it('should undo and redo along the current branch', () => {
+    const tree = new EditLogTree([root, first, second], 'a2');
+
+    expect(tree.undo()).toBe('a1');
+    expect(tree.undo()).toBe('root');
+    expect(tree.canUndo()).toBe(false);
+    expect(tree.redo()).toBe('a1');
+    expect(tree.redo()).toBe('a2');
+    expect(tree.canRedo()).toBe(false);
+  });
+
+  it('should keep abandoned branches', () => {
+    const tree = new EditLogTree([root, first, second, branch], 'b1');
+
+    expect(tree.getChildren('a1').map((n) => n.id)).toEqual(['a2', 'b1']);
+    expect(tree.getBranchTips().map((n) => n.id)).toEqual(['a2', 'b1']);
+    expect(tree.materialize('b1')).toContain('Branch');
+    expect(tree.materialize('b1')).not.toContain('class="big"');
+  });
+
+  it('should start replay from the nearest checkpoint', () => {
+    const rewrite = makeNode({
+      id: 'c1',
+      created_at: '2026-02-08T00:00:04.000Z',
+      parent_id: 'a2',
+      source: 'ai',
+      checkpoint_html: '<!DOCTYPE html><html><head></head><body><h2>Rewritten</h2></body></html>',
+    });
+    const afterRewrite = makeNode({
+      id: 'c2',
+      created_at: '2026-02-08T00:00:05.000Z',
+      parent_id: 'c1',
+      operations: [{ type: 'updateText', selector: 'h2', newText: 'Edited' }],
+    });
+    const tree = new EditLogTree([root, first, second, rewrite, afterRewrite], 'c2');
+
+    expect(tree.materialize('c2')).toContain('<h2>Edited</h2>');
+  });
+
+  it('should compare two nodes from their common ancestor', () => {
+    const tree = new EditLogTree([root, first, second, branch], 'a2');
+
+    const comparison = tree.compare('a2', 'b1');
+    expect(comparison.commonAncestorId).toBe('a1');
+    expect(comparison.pathToA.map((n) => n.id)).toEqual(['a2']);
+    expect(comparison.pathToB.map((n) => n.id)).toEqual(['b1']);
+    expect(comparison.htmlA).not.toBe(comparison.htmlB);
+  });
+});
+
+describe('mergeConcurrentEdit', () => {
+  it('should keep both sides of non-overlapping edits', () => {
+    const remote = BASE_HTML.replace('<h1>Hello</h1>', '<h1>Hi there</h1>');
+    const local = BASE_HTML.replace('class="intro"', 'class="intro lead"');
+
+    const merge = mergeConcurrentEdit(BASE_HTML, remote, local);
+
+    expect(merge.unresolved).toEqual([]);
+    expect(merge.html).toContain('<h1>Hi there</h1>');
+    expect(merge.html).toContain('class="intro lead"');
+  });
+
+  it('should keep the saved side of a conflict until the user picks theirs', () => {
+    const remote = BASE_HTML.replace('<h1>Hello</h1>', '<h1>Saved title</h1>');
+    const local = BASE_HTML.replace('<h1>Hello</h1>', '<h1>My title</h1>');
+
+    const merge = mergeConcurrentEdit(BASE_HTML, remote, local);
+
+    expect(merge.unresolved).toHaveLength(1);
+    expect(merge.html).toContain('<h1>Saved title</h1>');
+
+    const resolved = resolveEditMerge(merge, { [merge.unresolved[0].theirsIndex]: 'theirs' });
+    expect(resolved).toContain('<h1>My title</h1>');
+  });
+});
@@ -0,0 +1,620 @@
+/**
+ * Edit Log Service
+ *
+ * Persistent, branchable edit history for variants, built on top of
+ * EditOperation deltas instead of full HTML snapshots.
+ *
+ * - Every edit (user or AI) becomes a node whose parent is the node it was
+ *   applied on top of. Undoing and then editing starts a new branch; the
+ *   abandoned branch stays in the log and can be checked out again.
+ * - Nodes store EditOperation[] deltas. Roots, AI rewrites and edits that
+ *   cannot be expressed as operations store a checkpoint of the full HTML.
+ * - The checked-out node is persisted as vibe_variants.edit_head_id, and the
+ *   materialized head is mirrored into vibe_variants.edited_html so existing
+ *   readers keep working.
+ * - Saving only moves the head if nobody else moved it first. When another
+ *   writer won the race, the edit is merged on top of their head and any
+ *   conflicting operations are handed back for the user to resolve.
+ */
+
+import { supabase, isSupabaseConfigured } from './supabase';
+import type { VibeVariant } from './variantCodeService';
+import {
+  applyEditOperations,
+  deriveEditOperations,
+  normalizeHtml,
+  type EditOperation,
+} from './editOperationsService';
+import { ELEMENT_ID_ATTRIBUTE, assignElementIds } from './elementIdentityService';
+import { mergeEditOperations, type ConflictResolution, type MergeConflict } from './editMergeService';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type EditSource = 'ai' | 'user';
+
+export interface EditLogNode {
+  id: string;
+  variant_id: string;
+  session_id: string;
+  parent_id: string | null;
+  operations: EditOperation[];
+  checkpoint_html: string | null;
+  source: EditSource;
+  description: string | null;
+  created_at: string;
+}
+
+export interface EditNodeComparison {
+  commonAncestorId: string | null;
+  /** Nodes from the common ancestor (exclusive) down to node A */
+  pathToA: EditLogNode[];
+  /** Nodes from the common ancestor (exclusive) down to node B */
+  pathToB: EditLogNode[];
+  htmlA: string;
+  htmlB: string;
+}
+
+export interface RecordEditParams {
+  /** HTML the edit was made against; used as the root when the log is empty */
+  htmlBefore: string;
+  htmlAfter: string;
+  source: EditSource;
+  description?: string;
+}
+
+/**
+ * A save that raced another write to the same edit log
+ */
+export interface EditMerge {
+  /** Common ancestor of both writes */
+  baseHtml: string;
+  /** Operations the other writer saved */
+  remote: EditOperation[];
+  /** Operations of this save, rebased on top of remote */
+  local: EditOperation[];
+  html: string;
+  conflicts: MergeConflict[];
+  /** Conflicting operations of this save that were left out of the merge */
+  unresolved: MergeConflict[];
+}
+
+export interface RecordEditResult {
+  node: EditLogNode;
+  /** Set when the save was merged with a concurrent write */
+  merge: EditMerge | null;
+}
+
+// ============================================================================
+// In-memory Tree
+// ============================================================================
+
+export class EditLogTree {
+  private nodes = new Map<string, EditLogNode>();
+  private headId: string | null;
+  private htmlCache = new Map<string, string>();
+
+  constructor(nodes: EditLogNode[] = [], headId: string | null = null) {
+    nodes.forEach((node) => this.nodes.set(node.id, node));
+    this.headId = headId && this.nodes.has(headId) ? headId : this.getLatestNodeId();
+  }
+
+  private getLatestNodeId(): string | null {
+    let latest: EditLogNode | null = null;
+    for (const node of this.nodes.values()) {
+      if (!latest || node.created_at > latest.created_at) {
+        latest = node;
+      }
+    }
+    return latest?.id ?? null;
+  }
+
+  isEmpty(): boolean {
+    return this.nodes.size === 0;
+  }
+
+  getNode(nodeId: string): EditLogNode | null {
+    return this.nodes.get(nodeId) ?? null;
+  }
+
+  getNodes(): EditLogNode[] {
+    return Array.from(this.nodes.values()).sort((a, b) => a.created_at.localeCompare(b.created_at));
+  }
+
+  getHeadId(): string | null {
+    return this.headId;
+  }
+
+  getHead(): EditLogNode | null {
+    return this.headId ? this.getNode(this.headId) : null;
+  }
+
+  getRoots(): EditLogNode[] {
+    return this.getNodes().filter((node) => !node.parent_id);
+  }
+
+  getChildren(nodeId: string): EditLogNode[] {
+    return this.getNodes().filter((node) => node.parent_id === nodeId);
+  }
+
+  /**
+   * Get the nodes from the root down to (and including) the given node
+   */
+  getPath(nodeId: string): EditLogNode[] {
+    const path: EditLogNode[] = [];
+    let current = this.getNode(nodeId);
+    while (current) {
+      path.unshift(current);
+      current = current.parent_id ? this.getNode(current.parent_id) : null;
+    }
+    return path;
+  }
+
+  /**
+   * Rebuild the HTML at a node by replaying operations from the nearest checkpoint
+   */
+  materialize(nodeId: string): string {
+    const cached = this.htmlCache.get(nodeId);
+    if (cached !== undefined) return cached;
+
+    const path = this.getPath(nodeId);
+    if (path.length === 0) {
+      throw new Error(`Edit node not found: ${nodeId}`);
+    }
+
+    let start = path.length - 1;
+    while (start > 0 && path[start].checkpoint_html === null) {
+      start--;
+    }
+
+    let html = path[start].checkpoint_html ?? '';
+    for (let i = start + 1; i < path.length; i++) {
+      html = applyEditOperations(html, path[i].operations).html;
+    }
+
+    this.htmlCache.set(nodeId, html);
+    return html;
+  }
+
+  getHeadHtml(): string | null {
+    return this.headId ? this.materialize(this.headId) : null;
+  }
+
+  addNode(node: EditLogNode): void {
+    this.nodes.set(node.id, node);
+    this.headId = node.id;
+  }
+
+  /**
+   * Add nodes saved elsewhere, keeping the current head
+   */
+  addRemoteNodes(nodes: EditLogNode[]): void {
+    nodes.forEach((node) => {
+      if (!this.nodes.has(node.id)) this.nodes.set(node.id, node);
+    });
+  }
+
+  checkout(nodeId: string): void {
+    if (!this.nodes.has(nodeId)) {
+      throw new Error(`Edit node not found: ${nodeId}`);
+    }
+    this.headId = nodeId;
+  }
+
+  canUndo(): boolean {
+    return !!this.getHead()?.parent_id;
+  }
+
+  canRedo(): boolean {
+    return !!this.headId && this.getChildren(this.headId).length > 0;
+  }
+
+  /**
+   * Move the head to its parent. Returns the new head id.
+   */
+  undo(): string | null {
+    const head = this.getHead();
+    if (!head?.parent_id) return null;
+    this.headId = head.parent_id;
+    return this.headId;
+  }
+
+  /**
+   * Move the head to its most recent child. Returns the new head id.
+   */
+  redo(): string | null {
+    if (!this.headId) return null;
+    const children = this.getChildren(this.headId);
+    if (children.length === 0) return null;
+    this.headId = children[children.length - 1].id;
+    return this.headId;
+  }
+
+  /**
+   * Leaf nodes - the tip of every branch, including abandoned ones
+   */
+  getBranchTips(): EditLogNode[] {
+    return this.getNodes().filter((node) => this.getChildren(node.id).length === 0);
+  }
+
+  compare(nodeIdA: string, nodeIdB: string): EditNodeComparison {
+    const pathA = this.getPath(nodeIdA);
+    const pathB = this.getPath(nodeIdB);
+
+    let shared = 0;
+    while (shared < pathA.length && shared < pathB.length && pathA[shared].id === pathB[shared].id) {
+      shared++;
+    }
+
+    return {
+      commonAncestorId: shared > 0 ? pathA[shared - 1].id : null,
+      pathToA: pathA.slice(shared),
+      pathToB: pathB.slice(shared),
+      htmlA: this.materialize(nodeIdA),
+      htmlB: this.materialize(nodeIdB),
+    };
+  }
+}
+
+// ============================================================================
+// Persistence
+// ============================================================================
+
+/**
+ * Load the edit log for a variant
+ */
+export async function loadEditLog(variantId: string): Promise<EditLogTree> {
+  if (!isSupabaseConfigured()) {
+    return new EditLogTree();
+  }
+
+  const [{ data: nodes, error }, { data: variant }] = await Promise.all([
+    supabase
+      .from('vibe_edit_nodes')
+      .select('*')
+      .eq('variant_id', variantId)
+      .order('created_at', { ascending: true }),
+    supabase
+      .from('vibe_variants')
+      .select('edit_head_id')
+      .eq('id', variantId)
+      .single(),
+  ]);
+
+  if (error) {
+    console.error('[EditLogService] Error loading edit log:', error);
+    return new EditLogTree();
+  }
+
+  return new EditLogTree((nodes as EditLogNode[]) || [], variant?.edit_head_id ?? null);
+}
+
+/**
+ * Insert a node, falling back to a local-only node when Supabase is unavailable
+ */
+async function insertNode(node: Omit<EditLogNode, 'id' | 'created_at'>): Promise<EditLogNode> {
+  if (!isSupabaseConfigured()) {
+    return { ...node, id: crypto.randomUUID(), created_at: new Date().toISOString() };
+  }
+
+  const { data, error } = await supabase
+    .from('vibe_edit_nodes')
+    .insert(node)
+    .select()
+    .single();
+
+  if (error || !data) {
+    throw new Error(`Failed to save edit: ${error?.message || 'Unknown error'}`);
+  }
+
+  return data as EditLogNode;
+}
+
+/**
+ * Persist the head pointer and mirror the head HTML into edited_html
+ */
+async function persistHead(variantId: string, headId: string, html: string): Promise<void> {
+  if (!isSupabaseConfigured()) return;
+
+  const { error } = await supabase
+    .from('vibe_variants')
+    .update({
+      edit_head_id: headId,
+      edited_html: html,
+      edited_at: new Date().toISOString(),
+    })
+    .eq('id', variantId);
+
+  if (error) {
+    throw new Error(`Failed to update variant head: ${error.message}`);
+  }
+}
+
+/**
+ * Move the head only if it is still where this writer last saw it.
+ * A missing head counts as unclaimed. Returns false when another write won.
+ */
+async function claimHead(
+  variantId: string,
+  expectedHeadId: string | null,
+  headId: string,
+  html: string
+): Promise<boolean> {
+  if (!isSupabaseConfigured()) return true;
+
+  const { data, error } = await supabase
+    .from('vibe_variants')
+    .update({
+      edit_head_id: headId,
+      edited_html: html,
+      edited_at: new Date().toISOString(),
+    })
+    .eq('id', variantId)
+    .or(expectedHeadId ? `edit_head_id.is.null,edit_head_id.eq.${expectedHeadId}` : 'edit_head_id.is.null')
+    .select('id');
+
+  if (error) {
+    throw new Error(`Failed to update variant head: ${error.message}`);
+  }
+
+  return (data?.length ?? 0) > 0;
+}
+
+/**
+ * Express htmlAfter as operations on parentHtml, or as a checkpoint when
+ * the derived operations do not replay exactly
+ */
+function deriveNodeChange(
+  parentHtml: string,
+  htmlAfter: string
+): Pick<EditLogNode, 'operations' | 'checkpoint_html'> {
+  const operations = deriveEditOperations(parentHtml, htmlAfter);
+  const replayed = applyEditOperations(parentHtml, operations);
+  const isExact =
+    replayed.failedOperations === 0 && normalizeHtml(replayed.html) === normalizeHtml(htmlAfter);
+
+  if (!isExact) {
+    console.warn('[EditLogService] Derived operations do not replay exactly, storing checkpoint');
+  }
+
+  return { operations, checkpoint_html: isExact ? null : htmlAfter };
+}
+
+/**
+ * Three-way merge of a local save with a concurrent remote one.
+ * The remote write already landed, so it is kept as-is and the local
+ * operations are rebased on top of it.
+ */
+export function mergeConcurrentEdit(
+  baseHtml: string,
+  remoteHtml: string,
+  localHtml: string
+): EditMerge {
+  const remote = deriveEditOperations(baseHtml, remoteHtml);
+  const local = deriveEditOperations(baseHtml, localHtml);
+  const result = mergeEditOperations(baseHtml, remote, local);
+
+  return {
+    baseHtml,
+    remote,
+    local,
+    html: result.html,
+    conflicts: result.conflicts,
+    unresolved: result.unresolved,
+  };
+}
+
+/**
+ * Redo a merge with the user's choices; 'theirs' keeps the local operation.
+ * Returns the resolved HTML.
+ */
+export function resolveEditMerge(merge: EditMerge, resolutions: Record<number, ConflictResolution>): string {
+  return mergeEditOperations(merge.baseHtml, merge.remote, merge.local, resolutions).html;
+}
+
+const MAX_MERGE_ATTEMPTS = 3;
+
+/**
+ * Merge a node whose save lost the race onto the current remote head,
+ * retrying while other writes keep landing
+ */
+async function mergeIntoRemoteHead(
+  tree: EditLogTree,
+  variant: Pick<VibeVariant, 'id' | 'session_id'>,
+  localNode: EditLogNode,
+  params: RecordEditParams
+): Promise<RecordEditResult> {
+  let local = localNode;
+  let merge: EditMerge | null = null;
+
+  for (let attempt = 0; attempt < MAX_MERGE_ATTEMPTS; attempt++) {
+    const remoteTree = await loadEditLog(variant.id);
+    remoteTree.addRemoteNodes(tree.getNodes());
+    const remoteHeadId = remoteTree.getHeadId();
+    if (!remoteHeadId) break;
+    if (remoteHeadId === local.id) {
+      tree.checkout(local.id);
+      return { node: local, merge };
+    }
+
+    const { commonAncestorId } = remoteTree.compare(local.id, remoteHeadId);
+    const baseHtml = commonAncestorId ? remoteTree.materialize(commonAncestorId) : params.htmlBefore;
+    const remoteHtml = remoteTree.materialize(remoteHeadId);
+    merge = mergeConcurrentEdit(baseHtml, remoteHtml, remoteTree.materialize(local.id));
+
+    const node = await insertNode({
+      variant_id: variant.id,
+      session_id: variant.session_id,
+      parent_id: remoteHeadId,
+      ...deriveNodeChange(remoteHtml, merge.html),
+      source: params.source,
+      description: `Merged: ${params.description ?? 'concurrent edit'}`,
+    });
+    remoteTree.addRemoteNodes([node]);
+
+    tree.addRemoteNodes(remoteTree.getNodes());
+    if (await claimHead(variant.id, remoteHeadId, node.id, tree.materialize(node.id))) {
+      tree.checkout(node.id);
+      return { node, merge };
+    }
+    local = node;
+  }
+
+  throw new Error('Failed to save edit: the variant kept changing while saving');
+}
+
+/**
+ * Record an edit on top of the current head.
+ * The change is stored as derived operations when they replay exactly,
+ * otherwise as a checkpoint of the full HTML. If another writer moved the
+ * head in the meantime, the edit is merged on top of theirs.
+ */
+export async function recordEdit(
+  tree: EditLogTree,
+  variant: Pick<VibeVariant, 'id' | 'session_id'>,
+  params: RecordEditParams
+): Promise<RecordEditResult> {
+  const expectedHeadId = tree.getHeadId();
+
+  // Start the log with the document the edit was made against
+  if (tree.isEmpty()) {
+    const root = await insertNode({
+      variant_id: variant.id,
+      session_id: variant.session_id,
+      parent_id: null,
+      operations: [],
+      checkpoint_html: params.htmlBefore,
+      source: 'ai',
+      description: 'Original variant',
+    });
+    tree.addNode(root);
+  }
+
+  const parentId = tree.getHeadId();
+  const parentHtml = tree.getHeadHtml() ?? params.htmlBefore;
+  // Elements added in the editor need stable IDs, as replaying would assign them
+  const htmlAfter = parentHtml.includes(ELEMENT_ID_ATTRIBUTE) ? assignElementIds(params.htmlAfter, parentHtml) : params.htmlAfter;
+
+  const node = await insertNode({
+    variant_id: variant.id,
+    session_id: variant.session_id,
+    parent_id: parentId,
+    ...deriveNodeChange(parentHtml, htmlAfter),
+    source: params.source,
+    description: params.description ?? null,
+  });
+
+  tree.addNode(node);
+  if (await claimHead(variant.id, expectedHeadId, node.id, tree.materialize(node.id))) {
+    return { node, merge: null };
+  }
+
+  // The node stays in the log as a branch; the merge becomes the new head
+  console.warn('[EditLogService] Edit log head moved while saving, merging');
+  return mergeIntoRemoteHead(tree, variant, node, params);
+}
+
+/**
+ * Move the head of a variant's edit log to any node (undo, redo or branch jump)
+ * Returns the HTML at that node.
+ */
+export async function checkoutEditNode(
+  tree: EditLogTree,
+  variantId: string,
+  nodeId: string
+): Promise<string> {
+  tree.checkout(nodeId);
+  const html = tree.materialize(nodeId);
+  await persistHead(variantId, nodeId, html);
+  return html;
+}
+
+/**
+ * Fork a new variant from a past node.
+ * The new variant takes the first free slot (1-4) in the session and
+ * starts its own edit log with the node's HTML as root.
+ */
+export async function forkVariantFromNode(
+  tree: EditLogTree,
+  sourceVariant: VibeVariant,
+  nodeId: string
+): Promise<{ success: boolean; variant?: VibeVariant; error?: string }> {
+  if (!isSupabaseConfigured()) {
+    return { success: false, error: 'Supabase not configured' };
+  }
+
+  const node = tree.getNode(nodeId);
+  if (!node) {
+    return { success: false, error: 'Edit node not found' };
+  }
+
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) {
+    return { success: false, error: 'User not found' };
+  }
+
+  const { data: existing } = await supabase
+    .from('vibe_variants')
+    .select('variant_index')
+    .eq('session_id', sourceVariant.session_id);
+
+  const usedIndices = new Set((existing || []).map((v: { variant_index: number }) => v.variant_index));
+  const freeIndex = [1, 2, 3, 4].find((i) => !usedIndices.has(i));
+  if (!freeIndex) {
+    return { success: false, error: 'All 4 variant slots are in use. Delete a variant to fork.' };
+  }
+
+  const html = tree.materialize(nodeId);
+  const htmlPath = `${user.id}/${sourceVariant.session_id}/variant_${freeIndex}_fork_${Date.now()}.html`;
+
+  const { error: uploadError } = await supabase.storage
+    .from('vibe-files')
+    .upload(htmlPath, new Blob([html], { type: 'text/html' }), {
+      contentType: 'text/html',
+      upsert: true,
+    });
+
+  if (uploadError) {
+    return { success: false, error: `Upload failed: ${uploadError.message}` };
+  }
+
+  const { data: urlData } = supabase.storage
+    .from('vibe-files')
+    .getPublicUrl(htmlPath);
+
+  const { data: variant, error: insertError } = await supabase
+    .from('vibe_variants')
+    .insert({
+      session_id: sourceVariant.session_id,
+      plan_id: sourceVariant.plan_id,
+      variant_index: freeIndex,
+      html_path: htmlPath,
+      html_url: urlData.publicUrl,
+      generation_model: sourceVariant.generation_model,
+      status: 'complete',
+    })
+    .select()
+    .single();
+
+  if (insertError || !variant) {
+    return { success: false, error: `Fork failed: ${insertError?.message || 'Unknown error'}` };
+  }
+
+  const root = await insertNode({
+    variant_id: variant.id,
+    session_id: variant.session_id,
+    parent_id: null,
+    operations: [],
+    checkpoint_html: html,
+    source: node.source,
+    description: `Forked from Variant ${String.fromCharCode(64 + sourceVariant.variant_index)}`,
+  });
+
+  await supabase
+    .from('vibe_variants')
+    .update({ edit_head_id: root.id })
+    .eq('id', variant.id);
+
+  return { success: true, variant: { ...(variant as VibeVariant), edit_head_id: root.id } };
+}
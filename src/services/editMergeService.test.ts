@@ -0,0 +1,135 @@
+/**
+ * Tests for editMergeService
+ */
+
+import { describe, it, expect } from 'vitest';
+import { mergeEditOperations } from './editMergeService';
+import { applyEditOperations, normalizeHtml, EditOps, type EditOperation } from './editOperationsService';
+
+const BASE_HTML = normalizeHtml(`<!DOCTYPE html><html><head><title>Test</title></head><body>
+<header><h1>Store</h1></header>
+<main><p class="intro">Welcome</p><ul class="list"><li>One</li><li>Two</li></ul><button class="cta">Buy</button></main>
+</body></html>`);
+
+describe('mergeEditOperations', () => {
+  it('should combine independent edits from both sides', () => {
+    const ours: EditOperation[] = [EditOps.updateText('h1', 'Mega Store')];
+    const theirs: EditOperation[] = [
+      EditOps.updateStyle('.cta', { color: 'red' }),
+      EditOps.addClass('.intro', 'lead'),
+    ];
+
+    const result = mergeEditOperations(BASE_HTML, ours, theirs);
+
+    expect(result.conflicts).toEqual([]);
+    expect(result.appliedTheirs).toEqual([0, 1]);
+    expect(result.html).toContain('<h1>Mega Store</h1>');
+    expect(result.html).toContain('style="color: red;"');
+    expect(result.html).toContain('class="intro lead"');
+    expect(result.html).not.toContain('data-vx-merge');
+  });
+
+  it('should retarget positional selectors shifted by our structural edits', () => {
+    const ours: EditOperation[] = [EditOps.insertElement('.list', 'prepend', '<li>Zero</li>')];
+    const theirs: EditOperation[] = [EditOps.updateText('.list li:first-child', 'Uno')];
+
+    const result = mergeEditOperations(BASE_HTML, ours, theirs);
+
+    expect(result.conflicts).toEqual([]);
+    expect(result.html).toContain('<li>Zero</li><li>Uno</li><li>Two</li>');
+  });
+
+  it('should return rebased operations that replay on top of ours', () => {
+    const ours: EditOperation[] = [EditOps.removeElement('header')];
+    const theirs: EditOperation[] = [EditOps.insertElement('.list li:nth-child(2)', 'after', '<li>Three</li>')];
+
+    const result = mergeEditOperations(BASE_HTML, ours, theirs);
+    const oursHtml = applyEditOperations(BASE_HTML, ours).html;
+    const replayed = applyEditOperations(oursHtml, result.rebased);
+
+    expect(replayed.failedOperations).toBe(0);
+    expect(normalizeHtml(replayed.html)).toBe(normalizeHtml(result.html));
+  });
+
+  it('should report a conflict when both sides change the same property', () => {
+    const ours: EditOperation[] = [EditOps.updateText('.cta', 'Buy now')];
+    const theirs: EditOperation[] = [EditOps.updateText('main button', 'Order')];
+
+    const result = mergeEditOperations(BASE_HTML, ours, theirs);
+
+    expect(result.conflicts).toHaveLength(1);
+    expect(result.conflicts[0]).toMatchObject({ kind: 'same-target', theirsIndex: 0, oursIndex: 0 });
+    expect(result.unresolved).toHaveLength(1);
+    expect(result.html).toContain('Buy now');
+  });
+
+  it('should not conflict when both sides make the same change', () => {
+    const ours: EditOperation[] = [EditOps.updateStyle('h1', { color: 'blue' })];
+    const theirs: EditOperation[] = [EditOps.updateStyle('header h1', { color: 'blue' })];
+
+    expect(mergeEditOperations(BASE_HTML, ours, theirs).conflicts).toEqual([]);
+  });
+
+  it('should report a conflict when the target was removed', () => {
+    const ours: EditOperation[] = [EditOps.removeElement('.list')];
+    const theirs: EditOperation[] = [EditOps.updateText('.list li:last-child', 'Deux')];
+
+    const result = mergeEditOperations(BASE_HTML, ours, theirs);
+
+    expect(result.conflicts[0].kind).toBe('removed-target');
+    expect(result.html).not.toContain('Deux');
+  });
+
+  it('should report a conflict when their side removes an element we changed', () => {
+    const ours: EditOperation[] = [EditOps.addClass('.intro', 'lead')];
+    const theirs: EditOperation[] = [EditOps.replaceInnerHtml('main', '<p>Empty</p>')];
+
+    const result = mergeEditOperations(BASE_HTML, ours, theirs);
+
+    expect(result.conflicts[0].kind).toBe('removed-target');
+  });
+
+  it('should report a conflict when their structural edit sits under a moved parent', () => {
+    const ours: EditOperation[] = [EditOps.moveElement('.list', 'header', 'append')];
+    const theirs: EditOperation[] = [EditOps.removeElement('.list li:first-child')];
+
+    const result = mergeEditOperations(BASE_HTML, ours, theirs);
+
+    expect(result.conflicts[0].kind).toBe('moved-parent');
+  });
+
+  it('should apply their operation when the conflict is resolved as theirs', () => {
+    const ours: EditOperation[] = [EditOps.updateText('.cta', 'Buy now')];
+    const theirs: EditOperation[] = [EditOps.updateText('.cta', 'Order')];
+
+    const result = mergeEditOperations(BASE_HTML, ours, theirs, { 0: 'theirs' });
+
+    expect(result.conflicts).toHaveLength(1);
+    expect(result.unresolved).toEqual([]);
+    expect(result.html).toContain('>Order</button>');
+  });
+
+  it('should keep ours without reporting unresolved when resolved as ours', () => {
+    const ours: EditOperation[] = [EditOps.updateText('.cta', 'Buy now')];
+    const theirs: EditOperation[] = [EditOps.updateText('.cta', 'Order')];
+
+    const result = mergeEditOperations(BASE_HTML, ours, theirs, { 0: 'ours' });
+
+    expect(result.unresolved).toEqual([]);
+    expect(result.html).toContain('>Buy now</button>');
+  });
+
+  it('should skip operations that depend on a skipped element of theirs', () => {
+    const ours: EditOperation[] = [EditOps.removeElement('.list')];
+    const theirs: EditOperation[] = [
+      EditOps.insertElement('.list', 'append', '<li class="new">Three</li>'),
+      EditOps.updateText('li.new', 'Drei'),
+    ];
+
+    const result = mergeEditOperations(BASE_HTML, ours, theirs);
+
+    expect(result.appliedTheirs).toEqual([]);
+    expect(result.unresolved.map((c) => c.theirsIndex)).toEqual([0, 1]);
+    expect(result.unresolved[1].oursIndex).toBeNull();
+  });
+});
@@ -0,0 +1,396 @@
+/**
+ * Edit Merge Service
+ *
+ * Three-way merge of concurrent EditOperation streams made against the same
+ * base HTML (e.g. one collaborator in the HTML tree editor, another iterating
+ * through chat). "Theirs" is rebased onto "ours":
+ *
+ * 1. Every base element gets a temporary identity marker
+ * 2. Both streams are replayed separately, recording which elements each
+ *    operation touches (by identity, not selector) and what it changes
+ * 3. Each of their operations is checked against ours for conflicts, then
+ *    retargeted by identity and applied on top of our result
+ *
+ * Pure TypeScript over the DOM - no network or storage access.
+ */
+
+import {
+  applyEditOperations,
+  getPositionalSelector,
+  serializeDocument,
+  type EditOperation,
+} from './editOperationsService';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type MergeConflictKind =
+  /** Both sides changed the same property of the same element differently */
+  | 'same-target'
+  /** One side removed or replaced an element the other side changed */
+  | 'removed-target'
+  /** Our side moved the element (or an ancestor) their side restructures around */
+  | 'moved-parent';
+
+export interface MergeConflict {
+  kind: MergeConflictKind;
+  /** Index into the `theirs` operation list */
+  theirsIndex: number;
+  theirs: EditOperation;
+  /** Index into the `ours` operation list, null when caused by a skipped operation of theirs */
+  oursIndex: number | null;
+  ours: EditOperation | null;
+  message: string;
+}
+
+/** How to resolve a conflict, keyed by theirsIndex */
+export type ConflictResolution = 'ours' | 'theirs';
+
+export interface MergeResult {
+  /** Base with ours and the rebased theirs applied */
+  html: string;
+  /** Their applied operations, retargeted to apply in order on top of ours */
+  rebased: EditOperation[];
+  /** Indices into `theirs` that were applied */
+  appliedTheirs: number[];
+  conflicts: MergeConflict[];
+  /** Conflicts without a resolution - their operation was left out */
+  unresolved: MergeConflict[];
+}
+
+// ============================================================================
+// Footprints
+// ============================================================================
+
+const MARKER = 'data-vx-merge';
+
+/**
+ * What an operation did, in terms of element identities
+ */
+interface OperationFootprint {
+  index: number;
+  operation: EditOperation;
+  success: boolean;
+  targetIds: string[];
+  destinationId: string | null;
+  /** Ancestors of the targets at application time */
+  ancestorIds: string[];
+  /** Changed properties, e.g. "b4|text" or "b4|style:color", with new values */
+  properties: Map<string, string>;
+  /** Elements (including descendants) removed or replaced */
+  removedIds: Set<string>;
+  /** Elements whose parent changed */
+  movedIds: Set<string>;
+}
+
+const STRUCTURAL_TYPES = new Set<EditOperation['type']>([
+  'insertElement',
+  'removeElement',
+  'moveElement',
+  'wrapElement',
+  'unwrapElement',
+  'replaceElement',
+]);
+
+function getMarker(el: Element): string | null {
+  return el.getAttribute(MARKER);
+}
+
+function idSelector(ids: string[]): string {
+  return ids.map((id) => `[${MARKER}="${id}"]`).join(', ');
+}
+
+function parse(html: string): Document {
+  return new DOMParser().parseFromString(html, 'text/html');
+}
+
+/**
+ * Mark every element that has no identity yet
+ */
+function markElements(html: string, prefix: string): string {
+  const doc = parse(html);
+  let counter = 0;
+  doc.querySelectorAll(`:not([${MARKER}])`).forEach((el) => {
+    el.setAttribute(MARKER, `${prefix}${counter++}`);
+  });
+  return serializeDocument(doc);
+}
+
+function stripMarkers(html: string): string {
+  const doc = parse(html);
+  doc.querySelectorAll(`[${MARKER}]`).forEach((el) => el.removeAttribute(MARKER));
+  return serializeDocument(doc);
+}
+
+function collectIds(el: Element, into: Set<string>, includeSelf = true): void {
+  if (includeSelf) {
+    const id = getMarker(el);
+    if (id) into.add(id);
+  }
+  el.querySelectorAll(`[${MARKER}]`).forEach((child) => into.add(getMarker(child)!));
+}
+
+/**
+ * Record what an operation is about to do to the given document
+ */
+function computeFootprint(doc: Document, operation: EditOperation, index: number): OperationFootprint {
+  const footprint: OperationFootprint = {
+    index,
+    operation,
+    success: false,
+    targetIds: [],
+    destinationId: null,
+    ancestorIds: [],
+    properties: new Map(),
+    removedIds: new Set(),
+    movedIds: new Set(),
+  };
+
+  let elements: Element[];
+  try {
+    elements = Array.from(doc.querySelectorAll(operation.selector));
+  } catch {
+    return footprint;
+  }
+
+  if (operation.type === 'moveElement') {
+    try {
+      const destination = doc.querySelector(operation.targetSelector);
+      footprint.destinationId = destination ? getMarker(destination) : null;
+    } catch {
+      // Invalid target selector - the operation will fail to apply
+    }
+  }
+
+  for (const el of elements) {
+    const id = getMarker(el);
+    if (!id) continue;
+    footprint.targetIds.push(id);
+
+    for (let parent = el.parentElement; parent; parent = parent.parentElement) {
+      const parentId = getMarker(parent);
+      if (parentId) footprint.ancestorIds.push(parentId);
+    }
+
+    switch (operation.type) {
+      case 'updateText':
+        footprint.properties.set(`${id}|text`, operation.newText);
+        break;
+      case 'updateAttribute':
+        footprint.properties.set(`${id}|attr:${operation.attribute}`, operation.value);
+        break;
+      case 'removeAttribute':
+        footprint.properties.set(`${id}|attr:${operation.attribute}`, '');
+        break;
+      case 'updateStyle':
+        Object.entries(operation.styles).forEach(([property, value]) => {
+          footprint.properties.set(`${id}|style:${property}`, value);
+        });
+        break;
+      case 'addClass':
+        footprint.properties.set(`${id}|class:${operation.className}`, 'added');
+        break;
+      case 'removeClass':
+        footprint.properties.set(`${id}|class:${operation.className}`, 'removed');
+        break;
+      case 'replaceInnerHtml':
+        footprint.properties.set(`${id}|content`, operation.html);
+        collectIds(el, footprint.removedIds, false);
+        break;
+      case 'removeElement':
+      case 'replaceElement':
+        collectIds(el, footprint.removedIds);
+        break;
+      case 'moveElement':
+      case 'wrapElement':
+        footprint.movedIds.add(id);
+        break;
+      case 'unwrapElement':
+        footprint.removedIds.add(id);
+        Array.from(el.children).forEach((child) => {
+          const childId = getMarker(child);
+          if (childId) footprint.movedIds.add(childId);
+        });
+        break;
+      case 'insertElement':
+        break;
+    }
+  }
+
+  return footprint;
+}
+
+/**
+ * Replay an operation stream on marked HTML, recording footprints.
+ * Elements created by operation k are marked `${prefix}${k}-n` in document order.
+ */
+function replayStream(
+  markedHtml: string,
+  operations: EditOperation[],
+  prefix: string
+): { html: string; footprints: OperationFootprint[] } {
+  let html = markedHtml;
+  const footprints: OperationFootprint[] = [];
+
+  operations.forEach((operation, index) => {
+    const footprint = computeFootprint(parse(html), operation, index);
+    const applied = applyEditOperations(html, [operation]);
+    footprint.success = applied.results[0]?.success ?? false;
+    footprints.push(footprint);
+    html = markElements(applied.html, `${prefix}${index}-`);
+  });
+
+  return { html, footprints };
+}
+
+// ============================================================================
+// Conflict Detection
+// ============================================================================
+
+function findConflict(theirs: OperationFootprint, ours: OperationFootprint): MergeConflict | null {
+  const conflict = (kind: MergeConflictKind, message: string): MergeConflict => ({
+    kind,
+    theirsIndex: theirs.index,
+    theirs: theirs.operation,
+    oursIndex: ours.index,
+    ours: ours.operation,
+    message,
+  });
+
+  // Same property changed to different values
+  for (const [key, value] of theirs.properties) {
+    if (ours.properties.has(key) && ours.properties.get(key) !== value) {
+      const property = key.split('|')[1];
+      return conflict('same-target', `Both edits change ${property} of ${theirs.operation.selector}`);
+    }
+  }
+
+  // Their target was removed by us
+  const theirTargets = [...theirs.targetIds, ...(theirs.destinationId ? [theirs.destinationId] : [])];
+  if (theirTargets.some((id) => ours.removedIds.has(id))) {
+    return conflict('removed-target', `${theirs.operation.selector} was removed or replaced by the other edit`);
+  }
+
+  // They remove something we changed
+  const ourChangedIds = new Set([
+    ...ours.targetIds,
+    ...Array.from(ours.properties.keys()).map((key) => key.split('|')[0]),
+  ]);
+  if (Array.from(theirs.removedIds).some((id) => ourChangedIds.has(id))) {
+    return conflict('removed-target', `${theirs.operation.selector} removes an element the other edit changed`);
+  }
+
+  // We moved what they restructure around
+  if (STRUCTURAL_TYPES.has(theirs.operation.type)) {
+    const affected = [...theirTargets, ...theirs.ancestorIds];
+    if (affected.some((id) => ours.movedIds.has(id))) {
+      return conflict('moved-parent', `${theirs.operation.selector} (or its parent) was moved by the other edit`);
+    }
+  }
+
+  return null;
+}
+
+// ============================================================================
+// Merge
+// ============================================================================
+
+/**
+ * Retarget an operation to elements by identity
+ */
+function retarget(operation: EditOperation, footprint: OperationFootprint): EditOperation {
+  const rebased = { ...operation, selector: idSelector(footprint.targetIds) } as EditOperation;
+  if (rebased.type === 'moveElement' && footprint.destinationId) {
+    rebased.targetSelector = idSelector([footprint.destinationId]);
+  }
+  return rebased;
+}
+
+/**
+ * Replace identity selectors with positional ones that work on unmarked HTML
+ */
+function toPositional(doc: Document, operation: EditOperation): EditOperation {
+  const positional = {
+    ...operation,
+    selector: Array.from(doc.querySelectorAll(operation.selector)).map((el) => getPositionalSelector(el)).join(', '),
+  } as EditOperation;
+  if (positional.type === 'moveElement') {
+    const destination = doc.querySelector(positional.targetSelector);
+    if (destination) positional.targetSelector = getPositionalSelector(destination);
+  }
+  return positional;
+}
+
+/**
+ * Rebase `theirs` onto `ours`, both made against `baseHtml`.
+ * Conflicting operations of theirs are skipped unless a resolution says
+ * 'theirs', in which case they are applied on top of ours (theirs wins).
+ */
+export function mergeEditOperations(
+  baseHtml: string,
+  ours: EditOperation[],
+  theirs: EditOperation[],
+  resolutions: Record<number, ConflictResolution> = {}
+): MergeResult {
+  const markedBase = markElements(baseHtml, 'b');
+  const oursReplay = replayStream(markedBase, ours, 'o');
+  const theirsReplay = replayStream(markedBase, theirs, 't');
+
+  let html = oursReplay.html;
+  const rebased: EditOperation[] = [];
+  const appliedTheirs: number[] = [];
+  const conflicts: MergeConflict[] = [];
+  const unresolved: MergeConflict[] = [];
+
+  for (const footprint of theirsReplay.footprints) {
+    if (!footprint.success) continue;
+
+    const conflict = oursReplay.footprints
+      .filter((ourFootprint) => ourFootprint.success)
+      .map((ourFootprint) => findConflict(footprint, ourFootprint))
+      .find((found): found is MergeConflict => found !== null);
+
+    if (conflict) {
+      conflicts.push(conflict);
+      if (resolutions[footprint.index] !== 'theirs') {
+        if (!resolutions[footprint.index]) unresolved.push(conflict);
+        continue;
+      }
+    }
+
+    // Their target may be an element created by one of their skipped operations
+    const doc = parse(html);
+    const targets = [...footprint.targetIds, ...(footprint.destinationId ? [footprint.destinationId] : [])];
+    const missing = targets.some((id) => !doc.querySelector(idSelector([id])));
+    if (missing) {
+      const dependency: MergeConflict = {
+        kind: 'removed-target',
+        theirsIndex: footprint.index,
+        theirs: footprint.operation,
+        oursIndex: null,
+        ours: null,
+        message: `${footprint.operation.selector} depends on an element that is not in the merged result`,
+      };
+      if (!conflict) conflicts.push(dependency);
+      if (!conflict || resolutions[footprint.index] === 'theirs') unresolved.push(dependency);
+      continue;
+    }
+
+    const operation = retarget(footprint.operation, footprint);
+    const applied = applyEditOperations(html, [operation]);
+    if (!applied.results[0]?.success) continue;
+
+    rebased.push(toPositional(doc, operation));
+    appliedTheirs.push(footprint.index);
+    html = markElements(applied.html, `t${footprint.index}-`);
+  }
+
+  return {
+    html: stripMarkers(html),
+    rebased,
+    appliedTheirs,
+    conflicts,
+    unresolved,
+  };
+}
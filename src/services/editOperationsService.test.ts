@@ -0,0 +1,102 @@
+/**
+ * Tests for editOperationsService inverse operations
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  applyEditOperations,
+  revertEditOperations,
+  normalizeHtml,
+  EditOps,
+  type EditOperation,
+} from './editOperationsService';
+
+const HTML = normalizeHtml(`<!DOCTYPE html><html><head><title>Shop</title></head><body>
+<header class="top"><h1>Store</h1><nav><a href="/a">A</a><a href="/b">B</a></nav></header>
+<main><p id="intro">Welcome <b>back</b></p><ul class="list"><li>One</li><li>Two</li><li>Three</li></ul>
+<button class="cta" style="color: red;">Buy</button><span id="empty"></span></main>
+</body></html>`);
+
+function expectRoundTrip(operation: EditOperation) {
+  const applied = applyEditOperations(HTML, [operation]);
+  expect(applied.failedOperations).toBe(0);
+  expect(applied.html).not.toBe(HTML);
+  expect(applied.results[0].inverse).toBeDefined();
+
+  const reverted = revertEditOperations(applied.html, applied.results);
+  expect(reverted.failedOperations).toBe(0);
+  expect(normalizeHtml(reverted.html)).toBe(HTML);
+}
+
+describe('editOperationsService inverse operations', () => {
+  it.each<[string, EditOperation]>([
+    ['updateText', EditOps.updateText('#intro', 'Hello ')],
+    ['updateText without text nodes', EditOps.updateText('#empty', 'Filled')],
+    ['updateAttribute (new)', EditOps.updateAttribute('.cta', 'aria-label', 'Buy now')],
+    ['updateAttribute (existing)', EditOps.updateAttribute('nav a', 'href', '/x')],
+    ['removeAttribute', EditOps.removeAttribute('#intro', 'id')],
+    ['updateStyle', EditOps.updateStyle('h1', { color: 'blue', 'font-size': '40px' })],
+    ['addClass', EditOps.addClass('h1', 'title')],
+    ['removeClass', EditOps.removeClass('.cta', 'cta')],
+    ['insertElement', EditOps.insertElement('.list', 'append', '<li>Four</li>')],
+    ['insertElement (text repeating existing text)', EditOps.insertElement('#intro', 'append', 'Welcome ')],
+    ['removeElement', EditOps.removeElement('.list li:nth-child(2)')],
+    ['removeElement (first child)', EditOps.removeElement('header h1')],
+    ['moveElement', EditOps.moveElement('.cta', 'header', 'prepend')],
+    ['wrapElement', EditOps.wrapElement('.cta', '<div class="wrap"></div>')],
+    ['unwrapElement', EditOps.unwrapElement('nav')],
+    ['replaceElement', EditOps.replaceElement('h1', '<h2>Shop</h2>')],
+    ['replaceInnerHtml', EditOps.replaceInnerHtml('.list', '<li>Only</li>')],
+  ])('should invert %s exactly', (_, operation) => {
+    expectRoundTrip(operation);
+  });
+
+  it('should produce one inverse per affected element', () => {
+    const applied = applyEditOperations(HTML, [EditOps.addClass('li', 'item')]);
+    expect(applied.results[0].inverse).toHaveLength(3);
+  });
+
+  it('should revert a single operation out of a batch', () => {
+    const operations: EditOperation[] = [
+      EditOps.updateText('h1', 'Mega Store'),
+      EditOps.insertElement('.list', 'prepend', '<li>Zero</li>'),
+      EditOps.removeElement('.list li:last-child'),
+      EditOps.updateStyle('.cta', { background: 'green' }),
+    ];
+    const applied = applyEditOperations(HTML, operations);
+
+    // Reject only the insert - the other three changes stay
+    const reverted = revertEditOperations(applied.html, [applied.results[1]]);
+    const expected = applyEditOperations(HTML, [operations[0], operations[2], operations[3]]).html;
+
+    expect(reverted.failedOperations).toBe(0);
+    expect(normalizeHtml(reverted.html)).toBe(normalizeHtml(expected));
+  });
+
+  it('should revert a whole batch regardless of structural shifts', () => {
+    const operations: EditOperation[] = [
+      EditOps.removeElement('.list li:first-child'),
+      EditOps.insertElement('main', 'prepend', '<section>New</section>'),
+      EditOps.moveElement('#intro', '.list', 'after'),
+      EditOps.updateText('.list li:first-child', 'Second'),
+    ];
+    const applied = applyEditOperations(HTML, operations);
+    const reverted = revertEditOperations(applied.html, applied.results);
+
+    expect(reverted.failedOperations).toBe(0);
+    expect(normalizeHtml(reverted.html)).toBe(HTML);
+  });
+
+  it('should not offer an inverse when a later operation removed the target', () => {
+    const applied = applyEditOperations(HTML, [
+      EditOps.updateText('h1', 'Gone soon'),
+      EditOps.removeElement('header'),
+    ]);
+
+    expect(applied.results[0].inverse).toBeUndefined();
+    expect(applied.results[1].inverse).toBeDefined();
+
+    const reverted = revertEditOperations(applied.html, [applied.results[0]]);
+    expect(reverted.failedOperations).toBe(1);
+  });
+});
@@ -7,8 +7,22 @@
  * - User (from interactive UI edits)
  *
  * Operations are applied using DOM manipulation for reliability.
+ * Documents with stable element IDs (data-vx-id) keep them: replaced elements
+ * keep their ID and newly inserted elements are assigned one.
+ * Each applied operation reports its inverse, so individual changes can be
+ * undone out of a batch without whole-document snapshots.
  */
 
+import {
+  ELEMENT_ID_ATTRIBUTE,
+  assignElementIdsInDocument,
+  elementIdSelector,
+  getElementId,
+  getElementIdOwners,
+  hasElementIds,
+  serializeDoctype,
+} from './elementIdentityService';
+
 // ============================================================================
 // Types
 // ============================================================================
@@ -24,6 +38,7 @@ export type EditOperationType =
   | 'removeElement'
   | 'moveElement'
   | 'wrapElement'
+  | 'unwrapElement'
   | 'replaceElement'
   | 'replaceInnerHtml';
 
@@ -85,6 +100,10 @@ export interface WrapElementOperation extends BaseOperation {
   wrapperHtml: string; // e.g., '<div class="wrapper"></div>'
 }
 
+export interface UnwrapElementOperation extends BaseOperation {
+  type: 'unwrapElement'; // Replaces the element with its children
+}
+
 export interface ReplaceElementOperation extends BaseOperation {
   type: 'replaceElement';
   html: string;
@@ -106,6 +125,7 @@ export type EditOperation =
   | RemoveElementOperation
   | MoveElementOperation
   | WrapElementOperation
+  | UnwrapElementOperation
   | ReplaceElementOperation
   | ReplaceInnerHtmlOperation;
 
@@ -114,6 +134,12 @@ export interface OperationResult {
   success: boolean;
   error?: string;
   elementsAffected: number;
+  /**
+   * Operations that undo this one, with selectors resolved against the HTML
+   * returned by applyEditOperations. Missing when a later operation in the
+   * batch removed the affected element.
+   */
+  inverse?: EditOperation[];
 }
 
 export interface ApplyOperationsResult {
@@ -122,6 +148,8 @@ export interface ApplyOperationsResult {
   totalOperations: number;
   successfulOperations: number;
   failedOperations: number;
+  /** The `tracked` operation sets passed in, re-targeted at the same elements in `html` */
+  tracked?: Array<EditOperation[] | null>;
 }
 
 // ============================================================================
@@ -129,22 +157,160 @@ export interface ApplyOperationsResult {
 // ============================================================================
 
 /**
- * Apply a single operation to a document
+ * Builds the inverse of an operation for one element.
+ * Called after the whole batch has been applied, so selectors are resolved
+ * against the final document. Returns null when the element is gone.
+ * Selectors use stable IDs where the document has them, so an inverse still
+ * resolves after other inverses have added or removed siblings.
+ */
+type InverseBuilder = () => EditOperation | null;
+
+interface AppliedOperation {
+  result: OperationResult;
+  inverseBuilders: InverseBuilder[];
+}
+
+/**
+ * Where to re-insert an element so it ends up back in its current position
+ */
+interface ReinsertAnchor {
+  anchor: Element;
+  position: 'before' | 'after' | 'prepend' | 'append';
+}
+
+function isElementNode(node: Node | null): node is Element {
+  return !!node && node.nodeType === Node.ELEMENT_NODE;
+}
+
+function isWhitespaceText(node: Node): boolean {
+  return node.nodeType === Node.TEXT_NODE && !(node.textContent || '').trim();
+}
+
+/**
+ * Find an anchor for re-inserting an element at its current position.
+ * Whitespace-only text between the element and its anchor is tolerated.
+ * Returns null when the element sits between non-whitespace text nodes.
+ */
+function getReinsertAnchor(el: Element): ReinsertAnchor | null {
+  const parent = el.parentElement;
+  if (!parent) return null;
+
+  // Directly adjacent anchors are exact
+  if (!el.previousSibling) return { anchor: parent, position: 'prepend' };
+  if (isElementNode(el.previousSibling)) return { anchor: el.previousSibling, position: 'after' };
+  if (!el.nextSibling) return { anchor: parent, position: 'append' };
+  if (isElementNode(el.nextSibling)) return { anchor: el.nextSibling, position: 'before' };
+
+  // Otherwise skip over whitespace-only text
+  let prev: Node | null = el.previousSibling;
+  while (prev && isWhitespaceText(prev)) prev = prev.previousSibling;
+  if (!prev) return { anchor: parent, position: 'prepend' };
+  if (isElementNode(prev)) return { anchor: prev, position: 'after' };
+
+  let next: Node | null = el.nextSibling;
+  while (next && isWhitespaceText(next)) next = next.nextSibling;
+  if (!next) return { anchor: parent, position: 'append' };
+  if (isElementNode(next)) return { anchor: next, position: 'before' };
+
+  return null;
+}
+
+function describeInverse(operation: EditOperation): string {
+  return `Undo: ${operation.description || operation.type}`;
+}
+
+/**
+ * Inverse that restores (or removes) an attribute to its current value
+ */
+function buildAttributeRestore(el: Element, attribute: string, operation: EditOperation): InverseBuilder {
+  const previous = el.getAttribute(attribute);
+  return () => {
+    if (!el.isConnected) return null;
+    const selector = getStableSelector(el);
+    const description = describeInverse(operation);
+    return previous === null
+      ? { type: 'removeAttribute', selector, attribute, description }
+      : { type: 'updateAttribute', selector, attribute, value: previous, description };
+  };
+}
+
+/**
+ * Inverse that restores the current children of an element wholesale
+ */
+function buildInnerHtmlRestore(el: Element, operation: EditOperation): InverseBuilder {
+  const previous = el.innerHTML;
+  return () => {
+    if (!el.isConnected) return null;
+    return {
+      type: 'replaceInnerHtml',
+      selector: getStableSelector(el),
+      html: previous,
+      description: describeInverse(operation),
+    };
+  };
+}
+
+/**
+ * Inverse that puts an element back where it currently is, given it will be
+ * removed (or moved away) by the operation. Falls back to restoring the parent.
+ */
+function buildReinsert(
+  el: Element,
+  operation: EditOperation,
+  toInverse: (anchor: ReinsertAnchor) => InverseBuilder
+): InverseBuilder {
+  const anchor = getReinsertAnchor(el);
+  if (anchor) {
+    return toInverse(anchor);
+  }
+  return el.parentElement ? buildInnerHtmlRestore(el.parentElement, operation) : () => null;
+}
+
+/**
+ * Insert a parsed HTML node relative to an element
+ */
+function insertRelative(
+  el: Element,
+  node: Node,
+  position: 'before' | 'after' | 'prepend' | 'append'
+): void {
+  switch (position) {
+    case 'before':
+      el.parentNode?.insertBefore(node, el);
+      break;
+    case 'after':
+      el.parentNode?.insertBefore(node, el.nextSibling);
+      break;
+    case 'prepend':
+      el.insertBefore(node, el.firstChild);
+      break;
+    case 'append':
+      el.appendChild(node);
+      break;
+  }
+}
+
+/**
+ * Apply a single operation to already-resolved elements.
+ * Records, per element, how to build the inverse operation.
  */
-function applyOperation(doc: Document, operation: EditOperation): OperationResult {
+function applyResolvedOperation(
+  doc: Document,
+  operation: EditOperation,
+  elements: Element[],
+  target: Element | null
+): AppliedOperation {
   const result: OperationResult = {
     operation,
     success: false,
     elementsAffected: 0,
   };
+  const inverseBuilders: InverseBuilder[] = [];
 
   try {
-    // Find target element(s)
-    const elements = doc.querySelectorAll(operation.selector);
-
     if (elements.length === 0) {
       result.error = `No elements found matching selector: ${operation.selector}`;
-      return result;
+      return { result, inverseBuilders };
     }
 
     // Apply operation based on type
@@ -156,9 +322,21 @@ function applyOperation(doc: Document, operation: EditOperation): OperationResul
             (node) => node.nodeType === Node.TEXT_NODE
           );
           if (textNodes.length > 0) {
+            const previousText = textNodes[0].textContent || '';
+            inverseBuilders.push(() =>
+              el.isConnected
+                ? {
+                    type: 'updateText',
+                    selector: getStableSelector(el),
+                    newText: previousText,
+                    description: describeInverse(operation),
+                  }
+                : null
+            );
             textNodes[0].textContent = operation.newText;
           } else {
             // If no text nodes, prepend new text
+            inverseBuilders.push(buildInnerHtmlRestore(el, operation));
             el.insertBefore(doc.createTextNode(operation.newText), el.firstChild);
           }
           result.elementsAffected++;
@@ -169,6 +347,7 @@ function applyOperation(doc: Document, operation: EditOperation): OperationResul
 
       case 'updateAttribute': {
         elements.forEach((el) => {
+          inverseBuilders.push(buildAttributeRestore(el, operation.attribute, operation));
           el.setAttribute(operation.attribute, operation.value);
           result.elementsAffected++;
         });
@@ -178,6 +357,7 @@ function applyOperation(doc: Document, operation: EditOperation): OperationResul
 
       case 'removeAttribute': {
         elements.forEach((el) => {
+          inverseBuilders.push(buildAttributeRestore(el, operation.attribute, operation));
           el.removeAttribute(operation.attribute);
           result.elementsAffected++;
         });
@@ -187,6 +367,8 @@ function applyOperation(doc: Document, operation: EditOperation): OperationResul
 
       case 'updateStyle': {
         elements.forEach((el) => {
+          // Restore the whole style attribute - exact even when it did not exist
+          inverseBuilders.push(buildAttributeRestore(el, 'style', operation));
           const htmlEl = el as HTMLElement;
           for (const [property, value] of Object.entries(operation.styles)) {
             htmlEl.style.setProperty(property, value);
@@ -199,6 +381,7 @@ function applyOperation(doc: Document, operation: EditOperation): OperationResul
 
       case 'addClass': {
         elements.forEach((el) => {
+          inverseBuilders.push(buildAttributeRestore(el, 'class', operation));
           el.classList.add(operation.className);
           result.elementsAffected++;
         });
@@ -208,6 +391,7 @@ function applyOperation(doc: Document, operation: EditOperation): OperationResul
 
       case 'removeClass': {
         elements.forEach((el) => {
+          inverseBuilders.push(buildAttributeRestore(el, 'class', operation));
           el.classList.remove(operation.className);
           result.elementsAffected++;
         });
@@ -226,19 +410,35 @@ function applyOperation(doc: Document, operation: EditOperation): OperationResul
             return;
           }
 
-          switch (operation.position) {
-            case 'before':
-              el.parentNode?.insertBefore(newElement.cloneNode(true), el);
-              break;
-            case 'after':
-              el.parentNode?.insertBefore(newElement.cloneNode(true), el.nextSibling);
-              break;
-            case 'prepend':
-              el.insertBefore(newElement.cloneNode(true), el.firstChild);
-              break;
-            case 'append':
-              el.appendChild(newElement.cloneNode(true));
-              break;
+          const inserted = newElement.cloneNode(true);
+          insertRelative(el, inserted, operation.position);
+
+          if (isElementNode(inserted)) {
+            inverseBuilders.push(() =>
+              inserted.isConnected
+                ? {
+                    type: 'removeElement',
+                    selector: getStableSelector(inserted),
+                    description: describeInverse(operation),
+                  }
+                : null
+            );
+          } else if (inserted.parentElement) {
+            // Inserted a bare text node - restore the container without that
+            // node, found by its position among the container's children
+            const container = inserted.parentElement;
+            inverseBuilders.push(() => {
+              if (!container.isConnected || inserted.parentNode !== container) return null;
+              const index = Array.from(container.childNodes).indexOf(inserted as ChildNode);
+              const restored = container.cloneNode(true) as Element;
+              restored.childNodes[index].remove();
+              return {
+                type: 'replaceInnerHtml',
+                selector: getStableSelector(container),
+                html: restored.innerHTML,
+                description: describeInverse(operation),
+              };
+            });
           }
           result.elementsAffected++;
         });
@@ -248,6 +448,20 @@ function applyOperation(doc: Document, operation: EditOperation): OperationResul
 
       case 'removeElement': {
         elements.forEach((el) => {
+          const html = el.outerHTML;
+          inverseBuilders.push(
+            buildReinsert(el, operation, ({ anchor, position }) => () =>
+              anchor.isConnected
+                ? {
+                    type: 'insertElement',
+                    selector: getStableSelector(anchor),
+                    position,
+                    html,
+                    description: describeInverse(operation),
+                  }
+                : null
+            )
+          );
           el.parentNode?.removeChild(el);
           result.elementsAffected++;
         });
@@ -256,31 +470,29 @@ function applyOperation(doc: Document, operation: EditOperation): OperationResul
       }
 
       case 'moveElement': {
-        const targetElements = doc.querySelectorAll(operation.targetSelector);
-        if (targetElements.length === 0) {
+        if (!target) {
           result.error = `No target elements found matching selector: ${operation.targetSelector}`;
-          return result;
+          return { result, inverseBuilders };
         }
 
-        const target = targetElements[0];
         elements.forEach((el) => {
-          const clone = el.cloneNode(true);
-          el.parentNode?.removeChild(el);
+          inverseBuilders.push(
+            buildReinsert(el, operation, ({ anchor, position }) => () =>
+              anchor.isConnected && el.isConnected
+                ? {
+                    type: 'moveElement',
+                    selector: getStableSelector(el),
+                    targetSelector: getStableSelector(anchor),
+                    position,
+                    description: describeInverse(operation),
+                  }
+                : null
+            )
+          );
 
-          switch (operation.position) {
-            case 'before':
-              target.parentNode?.insertBefore(clone, target);
-              break;
-            case 'after':
-              target.parentNode?.insertBefore(clone, target.nextSibling);
-              break;
-            case 'prepend':
-              target.insertBefore(clone, target.firstChild);
-              break;
-            case 'append':
-              target.appendChild(clone);
-              break;
-          }
+          // Move the node itself so later operations still reference it
+          el.parentNode?.removeChild(el);
+          insertRelative(target, el, operation.position);
           result.elementsAffected++;
         });
         result.success = true;
@@ -300,9 +512,20 @@ function applyOperation(doc: Document, operation: EditOperation): OperationResul
 
           const parent = el.parentNode;
           if (parent) {
+            const previousHtml = el.outerHTML;
             parent.insertBefore(wrapper.cloneNode(true), el);
             const insertedWrapper = el.previousSibling as Element;
             insertedWrapper.appendChild(el);
+
+            inverseBuilders.push(() => {
+              if (!insertedWrapper.isConnected) return null;
+              const selector = getStableSelector(insertedWrapper);
+              const description = describeInverse(operation);
+              // Unwrap keeps the element itself; only exact when it is the sole child
+              return insertedWrapper.childNodes.length === 1 && insertedWrapper.firstChild === el
+                ? { type: 'unwrapElement', selector, description }
+                : { type: 'replaceElement', selector, html: previousHtml, description };
+            });
             result.elementsAffected++;
           }
         });
@@ -310,6 +533,37 @@ function applyOperation(doc: Document, operation: EditOperation): OperationResul
         break;
       }
 
+      case 'unwrapElement': {
+        elements.forEach((el) => {
+          const parent = el.parentNode;
+          if (!parent) return;
+
+          const children = Array.from(el.childNodes);
+          const onlyChild = children.length === 1 && isElementNode(children[0]) ? children[0] : null;
+          if (onlyChild) {
+            const wrapperHtml = el.cloneNode(false) as Element;
+            inverseBuilders.push(() =>
+              onlyChild.isConnected
+                ? {
+                    type: 'wrapElement',
+                    selector: getStableSelector(onlyChild),
+                    wrapperHtml: wrapperHtml.outerHTML,
+                    description: describeInverse(operation),
+                  }
+                : null
+            );
+          } else if (el.parentElement) {
+            inverseBuilders.push(buildInnerHtmlRestore(el.parentElement, operation));
+          }
+
+          children.forEach((child) => parent.insertBefore(child, el));
+          parent.removeChild(el);
+          result.elementsAffected++;
+        });
+        result.success = result.elementsAffected > 0;
+        break;
+      }
+
       case 'replaceElement': {
         elements.forEach((el) => {
           const template = doc.createElement('template');
@@ -321,7 +575,29 @@ function applyOperation(doc: Document, operation: EditOperation): OperationResul
             return;
           }
 
-          el.parentNode?.replaceChild(newElement.cloneNode(true), el);
+          const previousHtml = el.outerHTML;
+          const replacement = newElement.cloneNode(true);
+          // The replacement takes over the element's identity
+          const elementId = getElementId(el);
+          if (elementId && isElementNode(replacement) && !getElementId(replacement)) {
+            replacement.setAttribute(ELEMENT_ID_ATTRIBUTE, elementId);
+          }
+          el.parentNode?.replaceChild(replacement, el);
+
+          if (isElementNode(replacement)) {
+            inverseBuilders.push(() =>
+              replacement.isConnected
+                ? {
+                    type: 'replaceElement',
+                    selector: getStableSelector(replacement),
+                    html: previousHtml,
+                    description: describeInverse(operation),
+                  }
+                : null
+            );
+          } else {
+            inverseBuilders.push(() => null);
+          }
           result.elementsAffected++;
         });
         result.success = result.elementsAffected > 0;
@@ -330,6 +606,7 @@ function applyOperation(doc: Document, operation: EditOperation): OperationResul
 
       case 'replaceInnerHtml': {
         elements.forEach((el) => {
+          inverseBuilders.push(buildInnerHtmlRestore(el, operation));
           el.innerHTML = operation.html;
           result.elementsAffected++;
         });
@@ -345,7 +622,96 @@ function applyOperation(doc: Document, operation: EditOperation): OperationResul
     result.error = error instanceof Error ? error.message : 'Unknown error';
   }
 
-  return result;
+  return { result, inverseBuilders };
+}
+
+/**
+ * Resolve the elements of operation sets built elsewhere (e.g. other changes'
+ * inverses) before the document changes, and return a function that
+ * re-targets them at the same elements afterwards. A set comes back null
+ * when one of its elements did not resolve to exactly one element, or is gone.
+ */
+function trackOperations(doc: Document, sets: Array<EditOperation[] | null>): () => Array<EditOperation[] | null> {
+  const resolveOne = (selector: string): Element | null => {
+    const matches = doc.querySelectorAll(selector);
+    return matches.length === 1 ? matches[0] : null;
+  };
+
+  const resolved = sets.map((operations) =>
+    operations?.map((operation) => ({
+      operation,
+      element: resolveOne(operation.selector),
+      target: operation.type === 'moveElement' ? resolveOne(operation.targetSelector) : null,
+    })) ?? null
+  );
+
+  return () =>
+    resolved.map((entries) => {
+      if (!entries) return null;
+      const retargeted: EditOperation[] = [];
+      for (const { operation, element, target } of entries) {
+        if (!element?.isConnected) return null;
+        if (operation.type === 'moveElement') {
+          if (!target?.isConnected) return null;
+          retargeted.push({ ...operation, selector: getStableSelector(element), targetSelector: getStableSelector(target) });
+        } else {
+          retargeted.push({ ...operation, selector: getStableSelector(element) });
+        }
+      }
+      return retargeted;
+    });
+}
+
+/**
+ * Resolve an operation's selectors against a document
+ */
+function resolveOperation(doc: Document, operation: EditOperation): { elements: Element[]; target: Element | null } {
+  const elements = Array.from(doc.querySelectorAll(operation.selector));
+  const target = operation.type === 'moveElement' ? doc.querySelector(operation.targetSelector) : null;
+  return { elements, target };
+}
+
+/**
+ * Apply a single operation to a document
+ */
+function applyOperation(doc: Document, operation: EditOperation): AppliedOperation {
+  try {
+    const { elements, target } = resolveOperation(doc, operation);
+    return applyResolvedOperation(doc, operation, elements, target);
+  } catch (error) {
+    return {
+      result: {
+        operation,
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+        elementsAffected: 0,
+      },
+      inverseBuilders: [],
+    };
+  }
+}
+
+/**
+ * Serialize a parsed document back to HTML
+ * We need to reconstruct the full HTML including doctype
+ */
+export function serializeDocument(doc: Document): string {
+  const doctype = doc.doctype ? serializeDoctype(doc.doctype) : '<!DOCTYPE html>';
+
+  return `${doctype}\n${doc.documentElement.outerHTML}`;
+}
+
+/**
+ * Build the operation results, attaching inverses resolved against the final document
+ */
+function finalizeResults(applied: AppliedOperation[]): OperationResult[] {
+  return applied.map(({ result, inverseBuilders }) => {
+    if (!result.success) return result;
+    const inverse = inverseBuilders.map((build) => build());
+    return inverse.every((op): op is EditOperation => op !== null)
+      ? { ...result, inverse }
+      : result;
+  });
 }
 
 /**
@@ -354,43 +720,103 @@ function applyOperation(doc: Document, operation: EditOperation): OperationResul
  */
 export function applyEditOperations(
   html: string,
-  operations: EditOperation[]
+  operations: EditOperation[],
+  tracked?: Array<EditOperation[] | null>
 ): ApplyOperationsResult {
   // Parse HTML
   const parser = new DOMParser();
   const doc = parser.parseFromString(html, 'text/html');
+  const retarget = tracked ? trackOperations(doc, tracked) : undefined;
 
   // Apply each operation
-  const results: OperationResult[] = [];
+  const applied: AppliedOperation[] = [];
   let successfulOperations = 0;
   let failedOperations = 0;
+  const tracksIdentity = hasElementIds(doc);
 
   for (const operation of operations) {
-    const result = applyOperation(doc, operation);
-    results.push(result);
+    const owners = tracksIdentity ? getElementIdOwners(doc) : undefined;
+    const entry = applyOperation(doc, operation);
+    applied.push(entry);
 
-    if (result.success) {
+    if (entry.result.success) {
       successfulOperations++;
+      // New elements get stable IDs so later operations can target them
+      if (tracksIdentity) assignElementIdsInDocument(doc, owners);
     } else {
       failedOperations++;
-      console.warn(`[EditOperations] Operation failed:`, result.error, operation);
+      console.warn(`[EditOperations] Operation failed:`, entry.result.error, entry.result.operation);
     }
   }
 
-  // Serialize back to HTML
-  // We need to reconstruct the full HTML including doctype
-  const doctype = doc.doctype
-    ? `<!DOCTYPE ${doc.doctype.name}${doc.doctype.publicId ? ` PUBLIC "${doc.doctype.publicId}"` : ''}${doc.doctype.systemId ? ` "${doc.doctype.systemId}"` : ''}>`
-    : '<!DOCTYPE html>';
-
-  const serializedHtml = `${doctype}\n${doc.documentElement.outerHTML}`;
-
   return {
-    html: serializedHtml,
-    results,
+    html: serializeDocument(doc),
+    results: finalizeResults(applied),
     totalOperations: operations.length,
     successfulOperations,
     failedOperations,
+    tracked: retarget?.(),
+  };
+}
+
+/**
+ * Revert individual operations out of an applied batch.
+ *
+ * Inverses must resolve against `html`: the output of the applyEditOperations
+ * call that produced `results`, or inverses re-targeted since through
+ * `tracked`. Inverse selectors are all resolved before anything is changed,
+ * so any subset can be reverted without touching the other operations.
+ * Pass the inverses still to be used later as `tracked` to get them back
+ * re-targeted at the reverted document.
+ */
+export function revertEditOperations(
+  html: string,
+  results: OperationResult[],
+  tracked?: Array<EditOperation[] | null>
+): ApplyOperationsResult {
+  const parser = new DOMParser();
+  const doc = parser.parseFromString(html, 'text/html');
+  const retarget = tracked ? trackOperations(doc, tracked) : undefined;
+
+  const reverted: AppliedOperation[] = [];
+  const pending: Array<{ operation: EditOperation; elements: Element[]; target: Element | null }> = [];
+
+  // Undo the latest operations first
+  for (const result of [...results].reverse()) {
+    if (!result.success) continue;
+
+    if (!result.inverse) {
+      reverted.push({
+        result: {
+          operation: result.operation,
+          success: false,
+          error: 'Operation cannot be reverted individually (its target was changed by a later operation)',
+          elementsAffected: 0,
+        },
+        inverseBuilders: [],
+      });
+      continue;
+    }
+
+    for (const operation of result.inverse) {
+      pending.push({ operation, ...resolveOperation(doc, operation) });
+    }
+  }
+
+  for (const { operation, elements, target } of pending) {
+    reverted.push(applyResolvedOperation(doc, operation, elements, target));
+  }
+
+  const finalized = finalizeResults(reverted);
+  const successfulOperations = finalized.filter((r) => r.success).length;
+
+  return {
+    html: serializeDocument(doc),
+    results: finalized,
+    totalOperations: finalized.length,
+    successfulOperations,
+    failedOperations: finalized.length - successfulOperations,
+    tracked: retarget?.(),
   };
 }
 
@@ -449,6 +875,10 @@ export const EditOps = {
     return { type: 'wrapElement', selector, wrapperHtml, description };
   },
 
+  unwrapElement(selector: string, description?: string): UnwrapElementOperation {
+    return { type: 'unwrapElement', selector, description };
+  },
+
   replaceElement(selector: string, html: string, description?: string): ReplaceElementOperation {
     return { type: 'replaceElement', selector, html, description };
   },
@@ -578,6 +1008,139 @@ export function parseOperationsFromLLM(llmOutput: string): EditOperation[] {
   }
 }
 
+// ============================================================================
+// Deriving Operations from HTML Changes
+// ============================================================================
+
+/**
+ * Build a positional selector (e.g. "html > body:nth-child(2) > div:nth-child(1)")
+ * that identifies an element by its place in the document.
+ * Pass one `childIndexes` map for many elements of a document that doesn't
+ * change in between, so each parent's children are counted only once.
+ */
+export function getPositionalSelector(el: Element, childIndexes?: Map<Element, number>): string {
+  const parts: string[] = [];
+  let current: Element = el;
+
+  while (current.parentElement) {
+    let index = childIndexes?.get(current);
+    if (index === undefined) {
+      index = 1;
+      for (let sibling = current.parentElement.firstElementChild; sibling && sibling !== current; sibling = sibling.nextElementSibling) {
+        childIndexes?.set(sibling, index);
+        index++;
+      }
+      childIndexes?.set(current, index);
+    }
+    parts.unshift(`${current.tagName.toLowerCase()}:nth-child(${index})`);
+    current = current.parentElement;
+  }
+
+  parts.unshift(current.tagName.toLowerCase());
+  return parts.join(' > ');
+}
+
+/**
+ * Selector for an element that survives sibling changes: its stable ID
+ * where it has one, its position otherwise
+ */
+export function getStableSelector(el: Element, childIndexes?: Map<Element, number>): string {
+  const elementId = getElementId(el);
+  return elementId ? elementIdSelector(elementId) : getPositionalSelector(el, childIndexes);
+}
+
+/**
+ * Check whether two nodes can be diffed in place (same kind, same tag)
+ */
+function isSameNodeShape(a: Node, b: Node): boolean {
+  if (a.nodeType !== b.nodeType) return false;
+  if (a.nodeType === Node.ELEMENT_NODE) {
+    return (a as Element).tagName === (b as Element).tagName;
+  }
+  return true;
+}
+
+/**
+ * Recursively diff two elements, pushing operations that turn `before` into `after`.
+ * Operations never change the number of siblings, so positional selectors
+ * emitted earlier stay valid while later operations are applied.
+ */
+function diffElements(before: Element, after: Element, operations: EditOperation[]): void {
+  const selector = getPositionalSelector(before);
+
+  // Attribute changes
+  for (const attr of Array.from(after.attributes)) {
+    if (before.getAttribute(attr.name) !== attr.value) {
+      operations.push(EditOps.updateAttribute(selector, attr.name, attr.value));
+    }
+  }
+  for (const attr of Array.from(before.attributes)) {
+    if (!after.hasAttribute(attr.name)) {
+      operations.push(EditOps.removeAttribute(selector, attr.name));
+    }
+  }
+
+  const beforeNodes = Array.from(before.childNodes);
+  const afterNodes = Array.from(after.childNodes);
+
+  // Structural change - replace the children wholesale
+  const sameShape =
+    beforeNodes.length === afterNodes.length &&
+    beforeNodes.every((node, i) => isSameNodeShape(node, afterNodes[i]));
+
+  if (!sameShape) {
+    operations.push(EditOps.replaceInnerHtml(selector, after.innerHTML));
+    return;
+  }
+
+  // Text / comment changes
+  const changedLeaves = beforeNodes.filter(
+    (node, i) => node.nodeType !== Node.ELEMENT_NODE && node.textContent !== afterNodes[i].textContent
+  );
+
+  if (changedLeaves.length > 0) {
+    const textNodes = beforeNodes.filter((node) => node.nodeType === Node.TEXT_NODE);
+    // updateText only touches the first text node, so it is exact only with one
+    if (textNodes.length === 1 && changedLeaves[0] === textNodes[0]) {
+      const index = beforeNodes.indexOf(textNodes[0]);
+      operations.push(EditOps.updateText(selector, afterNodes[index].textContent || ''));
+    } else {
+      operations.push(EditOps.replaceInnerHtml(selector, after.innerHTML));
+      return;
+    }
+  }
+
+  beforeNodes.forEach((node, i) => {
+    if (node.nodeType === Node.ELEMENT_NODE) {
+      diffElements(node as Element, afterNodes[i] as Element, operations);
+    }
+  });
+}
+
+/**
+ * Derive the edit operations that turn one HTML document into another.
+ * Used to store user edits (tree/code editor) as deltas rather than snapshots.
+ * Selectors are positional, so the result is meant to be applied to `htmlBefore`.
+ */
+export function deriveEditOperations(htmlBefore: string, htmlAfter: string): EditOperation[] {
+  const parser = new DOMParser();
+  const before = parser.parseFromString(htmlBefore, 'text/html');
+  const after = parser.parseFromString(htmlAfter, 'text/html');
+
+  const operations: EditOperation[] = [];
+  diffElements(before.documentElement, after.documentElement, operations);
+  return operations;
+}
+
+/**
+ * Normalize HTML by round-tripping it through the DOM parser and serializer.
+ * Two documents that normalize to the same string render identically.
+ */
+export function normalizeHtml(html: string): string {
+  const parser = new DOMParser();
+  return serializeDocument(parser.parseFromString(html, 'text/html'));
+}
+
 // ============================================================================
 // Operation History (for undo/redo)
 // ============================================================================
@@ -0,0 +1,116 @@
+/**
+ * Tests for elementIdentityService
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  assignElementIds,
+  elementIdSelector,
+  stripElementIds,
+} from './elementIdentityService';
+import { applyEditOperations, EditOps } from './editOperationsService';
+import { extractElementSummary, findMatchingElements } from './elementSummaryService';
+
+const HTML = `<!DOCTYPE html><html><head><title>Shop</title><style>p { color: red; }</style></head><body>
+<main><ul class="list"><li>One</li><li>Two</li></ul><button class="cta">Buy</button></main>
+</body></html>`;
+
+describe('elementIdentityService', () => {
+  it('should assign an ID to every body element but not to head content', () => {
+    const html = assignElementIds(HTML);
+    const doc = new DOMParser().parseFromString(html, 'text/html');
+
+    expect(doc.querySelectorAll('body, body *').length).toBe(doc.querySelectorAll('[data-vx-id]').length);
+    expect(doc.querySelector('title')?.hasAttribute('data-vx-id')).toBe(false);
+    expect(doc.querySelector('style')?.hasAttribute('data-vx-id')).toBe(false);
+  });
+
+  it('should keep existing IDs and re-assign duplicates', () => {
+    const once = assignElementIds(HTML);
+    expect(assignElementIds(once)).toBe(once);
+
+    const duplicated = once.replace('<button', '<span data-vx-id="vx-3">Copy</span><button');
+    const doc = new DOMParser().parseFromString(assignElementIds(duplicated), 'text/html');
+    const ids = Array.from(doc.querySelectorAll('[data-vx-id]')).map((el) => el.getAttribute('data-vx-id'));
+    expect(new Set(ids).size).toBe(ids.length);
+  });
+
+  it('should keep a duplicated ID on the element that had it before the edit', () => {
+    const html = assignElementIds(HTML);
+    const doc = new DOMParser().parseFromString(html, 'text/html');
+    const button = doc.querySelector('.cta')!;
+    const id = button.getAttribute('data-vx-id')!;
+    const copy = button.outerHTML.replace('class="cta"', 'class="cta copy"');
+
+    const edited = applyEditOperations(html, [EditOps.insertElement(elementIdSelector(id), 'before', copy)]).html;
+    const after = new DOMParser().parseFromString(edited, 'text/html');
+    expect(after.querySelector('.cta:not(.copy)')?.getAttribute('data-vx-id')).toBe(id);
+    expect(after.querySelector('.copy')?.getAttribute('data-vx-id')).not.toBe(id);
+
+    const pasted = assignElementIds(html.replace('<button', `${copy}<button`), html);
+    const reparsed = new DOMParser().parseFromString(pasted, 'text/html');
+    expect(reparsed.querySelector('.cta:not(.copy)')?.getAttribute('data-vx-id')).toBe(id);
+    expect(reparsed.querySelector('.copy')?.getAttribute('data-vx-id')).not.toBe(id);
+  });
+
+  it('should keep the doctype public and system identifiers', () => {
+    const legacy = HTML.replace(
+      '<!DOCTYPE html>',
+      '<!DOCTYPE html PUBLIC "-//W3C//DTD XHTML 1.0 Strict//EN" "http://www.w3.org/TR/xhtml1/DTD/xhtml1-strict.dtd">'
+    );
+    expect(assignElementIds(legacy)).toMatch(
+      /^<!DOCTYPE html PUBLIC "-\/\/W3C\/\/DTD XHTML 1\.0 Strict\/\/EN" "http:\/\/www\.w3\.org\/TR\/xhtml1\/DTD\/xhtml1-strict\.dtd">\n/
+    );
+    expect(assignElementIds(HTML.replace('<!DOCTYPE html>', '<!DOCTYPE html SYSTEM "about:legacy-compat">'))).toMatch(
+      /^<!DOCTYPE html SYSTEM "about:legacy-compat">\n/
+    );
+  });
+
+  it('should strip IDs for export', () => {
+    expect(stripElementIds(assignElementIds(HTML))).not.toContain('data-vx-id');
+  });
+
+  it('should keep operations targeting the same element after a sibling is inserted', () => {
+    const html = assignElementIds(HTML);
+    const doc = new DOMParser().parseFromString(html, 'text/html');
+    const secondItem = doc.querySelectorAll('li')[1].getAttribute('data-vx-id')!;
+
+    const edited = applyEditOperations(html, [EditOps.insertElement('.list', 'prepend', '<li>Zero</li>')]).html;
+    const result = applyEditOperations(edited, [EditOps.updateText(elementIdSelector(secondItem), 'Deux')]);
+
+    expect(result.failedOperations).toBe(0);
+    expect(result.html).toContain('>One</li>');
+    expect(result.html).toContain('>Deux</li>');
+  });
+
+  it('should assign IDs to inserted elements and keep them on replaced elements', () => {
+    const html = assignElementIds(HTML);
+    const result = applyEditOperations(html, [
+      EditOps.insertElement('.list', 'append', '<li class="new">Three</li>'),
+      EditOps.replaceElement('.cta', '<a class="cta-link">Buy</a>'),
+    ]);
+    const before = new DOMParser().parseFromString(html, 'text/html');
+    const after = new DOMParser().parseFromString(result.html, 'text/html');
+
+    expect(after.querySelector('li.new')?.getAttribute('data-vx-id')).toMatch(/^vx-\d+$/);
+    expect(after.querySelector('.cta-link')?.getAttribute('data-vx-id')).toBe(
+      before.querySelector('.cta')?.getAttribute('data-vx-id')
+    );
+  });
+
+  it('should not add IDs to documents that do not use them', () => {
+    const result = applyEditOperations(HTML, [EditOps.insertElement('.list', 'append', '<li>Three</li>')]);
+    expect(result.html).not.toContain('data-vx-id');
+  });
+
+  it('should use stable IDs as element summary selectors', () => {
+    const html = assignElementIds(HTML);
+    const summary = extractElementSummary(html);
+    const [button] = findMatchingElements(summary, { tag: 'button' });
+
+    expect(button.selector).toBe(elementIdSelector(button.elementId!));
+    expect(button.dataAttrs).toBeUndefined();
+    expect(summary.textContent).toContain(`${button.selector} button.cta "Buy"`);
+    expect(findMatchingElements(summary, { elementId: button.elementId })).toEqual([button]);
+  });
+});
@@ -0,0 +1,141 @@
+/**
+ * Element Identity Service
+ *
+ * Gives every element of a screen a stable `data-vx-id` attribute, assigned
+ * once at upload. Edit operations, the element summary and injection points
+ * target elements through it, so operations generated against one version
+ * still resolve after siblings are inserted, removed or moved.
+ *
+ * IDs are internal - they are stripped before HTML leaves the app.
+ */
+
+export const ELEMENT_ID_ATTRIBUTE = 'data-vx-id';
+
+const ID_PREFIX = 'vx-';
+
+// Elements that never need targeting
+const SKIP_TAGS = new Set(['HTML', 'HEAD', 'META', 'TITLE', 'LINK', 'SCRIPT', 'STYLE', 'NOSCRIPT', 'BASE']);
+
+/**
+ * Selector that matches an element by its stable ID
+ */
+export function elementIdSelector(id: string): string {
+  return `[${ELEMENT_ID_ATTRIBUTE}="${id}"]`;
+}
+
+/**
+ * Get the stable ID of an element, if it has one
+ */
+export function getElementId(el: Element): string | null {
+  return el.getAttribute(ELEMENT_ID_ATTRIBUTE);
+}
+
+/**
+ * Whether a document uses stable element IDs
+ */
+export function hasElementIds(doc: Document): boolean {
+  return doc.querySelector(`[${ELEMENT_ID_ATTRIBUTE}]`) !== null;
+}
+
+/**
+ * Find an element by its stable ID
+ */
+export function findElementById(doc: Document, id: string): Element | null {
+  return doc.querySelector(elementIdSelector(id));
+}
+
+/**
+ * Map each stable ID to the element that carries it, first in document order
+ */
+export function getElementIdOwners(doc: Document): Map<string, Element> {
+  const owners = new Map<string, Element>();
+  for (const el of Array.from(doc.querySelectorAll(`[${ELEMENT_ID_ATTRIBUTE}]`))) {
+    const id = getElementId(el)!;
+    if (!owners.has(id)) owners.set(id, el);
+  }
+  return owners;
+}
+
+/**
+ * Pick which of several elements sharing an ID keeps it: the element that
+ * had it before the edit, else an identical copy of it (when `previous`
+ * comes from another parse), else one with the same tag, else the first
+ */
+function pickOwner(candidates: Element[], previous?: Element): Element {
+  if (previous) {
+    const owner =
+      candidates.find((el) => el === previous) ??
+      candidates.find((el) => el.isEqualNode(previous)) ??
+      candidates.find((el) => el.tagName === previous.tagName);
+    if (owner) return owner;
+  }
+  return candidates[0];
+}
+
+/**
+ * Assign IDs to elements that have none, and re-assign duplicates
+ * (e.g. from pasted HTML or an inserted copy). IDs continue after the
+ * highest existing one, so assignment is deterministic for a given document.
+ * `previousOwners` (from getElementIdOwners before an edit) decides which
+ * duplicate keeps the ID, so it stays on the element it identified.
+ * Returns the number of elements that received a new ID.
+ */
+export function assignElementIdsInDocument(doc: Document, previousOwners?: Map<string, Element>): number {
+  const elements = Array.from(doc.querySelectorAll('*')).filter((el) => !SKIP_TAGS.has(el.tagName));
+
+  let next = 1;
+  const carriers = new Map<string, Element[]>();
+  for (const el of elements) {
+    const id = getElementId(el);
+    if (!id) continue;
+    const match = id.match(/^vx-(\d+)$/);
+    if (match) next = Math.max(next, Number(match[1]) + 1);
+    carriers.set(id, [...(carriers.get(id) ?? []), el]);
+  }
+
+  const owners = new Set<Element>();
+  for (const [id, candidates] of carriers) {
+    owners.add(candidates.length === 1 ? candidates[0] : pickOwner(candidates, previousOwners?.get(id)));
+  }
+
+  let assigned = 0;
+  for (const el of elements) {
+    if (owners.has(el)) continue;
+    el.setAttribute(ELEMENT_ID_ATTRIBUTE, `${ID_PREFIX}${next++}`);
+    assigned++;
+  }
+
+  return assigned;
+}
+
+/**
+ * Serialize a doctype with its public and system identifiers
+ */
+export function serializeDoctype(doctype: DocumentType): string {
+  const { name, publicId, systemId } = doctype;
+  if (publicId) return `<!DOCTYPE ${name} PUBLIC "${publicId}"${systemId ? ` "${systemId}"` : ''}>`;
+  if (systemId) return `<!DOCTYPE ${name} SYSTEM "${systemId}">`;
+  return `<!DOCTYPE ${name}>`;
+}
+
+/**
+ * Return the HTML with stable IDs on every element.
+ * Pass the HTML before an edit so duplicated IDs stay where they were.
+ */
+export function assignElementIds(html: string, previousHtml?: string): string {
+  const doc = new DOMParser().parseFromString(html, 'text/html');
+  const previousOwners = previousHtml
+    ? getElementIdOwners(new DOMParser().parseFromString(previousHtml, 'text/html'))
+    : undefined;
+  if (assignElementIdsInDocument(doc, previousOwners) === 0) return html;
+
+  const doctype = doc.doctype ? `${serializeDoctype(doc.doctype)}\n` : '';
+  return `${doctype}${doc.documentElement.outerHTML}`;
+}
+
+/**
+ * Remove stable IDs, e.g. before downloading or exporting HTML
+ */
+export function stripElementIds(html: string): string {
+  return html.replace(/\s+data-vx-id="[^"]*"/g, '');
+}
@@ -6,11 +6,13 @@
  *
  * Output is ~100x smaller than raw HTML while preserving:
  * - Element hierarchy
- * - Selectors (tag, id, classes, data attributes)
+ * - Selectors (stable data-vx-id when present, else tag, id, classes, data attributes)
  * - Key text content
  * - Semantic hints
  */
 
+import { ELEMENT_ID_ATTRIBUTE, elementIdSelector, getElementId } from './elementIdentityService';
+
 export interface ElementNode {
   // Selector info
   tag: string;
@@ -23,6 +25,8 @@ export interface ElementNode {
 
   // Computed selector for targeting this element
   selector: string;
+  // Stable element ID (data-vx-id), survives edits to other elements
+  elementId?: string;
 
   // Semantic hints
   role?: string; // ARIA role or semantic tag hint
@@ -160,6 +164,7 @@ function generateSelector(element: Element, parentSelector: string, depth: numbe
   const dataAttrs = Array.from(element.attributes)
     .filter(attr =>
       attr.name.startsWith('data-') &&
+      attr.name !== ELEMENT_ID_ATTRIBUTE &&
       attr.value.length < 40 &&
       !attr.name.match(/^data-(reactid|reactroot|emotion|radix)/i)
     )
@@ -211,6 +216,7 @@ function getDirectText(element: Element): string {
 function getDataAttributes(element: Element): Record<string, string> | undefined {
   const dataAttrs: Record<string, string> = {};
   for (const attr of element.attributes) {
+    if (attr.name === ELEMENT_ID_ATTRIBUTE) continue;
     if (attr.name.startsWith('data-') && attr.value.length < MAX_ATTR_LENGTH) {
       dataAttrs[attr.name] = attr.value;
     }
@@ -239,7 +245,9 @@ function processElement(
     return null;
   }
 
-  const selector = generateSelector(element, parentSelector, depth);
+  // Stable IDs are unique and survive sibling changes - prefer them over any guess
+  const elementId = getElementId(element);
+  const selector = elementId ? elementIdSelector(elementId) : generateSelector(element, parentSelector, depth);
 
   // Track selector uniqueness - if we've seen this exact selector before,
   // we need to make it more specific
@@ -266,6 +274,10 @@ function processElement(
     depth,
   };
 
+  if (elementId) {
+    node.elementId = elementId;
+  }
+
   // Add ID if present
   if (element.id && !element.id.match(/^(:|css-|sc-)/)) {
     node.id = element.id;
@@ -372,8 +384,11 @@ function findMaxDepth(node: ElementNode): number {
 function treeToText(node: ElementNode, indent: string = ''): string {
   let result = '';
 
-  // Build line
+  // Build line - ID selectors get a readable description alongside
   let line = `${indent}${node.selector}`;
+  if (node.elementId) {
+    line += ` ${node.tag}${node.id ? `#${node.id}` : ''}${node.classes ? node.classes.slice(0, 2).map(c => `.${c}`).join('') : ''}`;
+  }
   if (node.text) {
     line += ` "${node.text}"`;
   }
@@ -452,7 +467,7 @@ export function extractMinimalSummary(html: string, maxTokens: number = 2000): s
  */
 export function findMatchingElements(
   summary: ElementSummary,
-  pattern: { tag?: string; class?: string; id?: string; role?: string }
+  pattern: { tag?: string; class?: string; id?: string; role?: string; elementId?: string }
 ): ElementNode[] {
   const matches: ElementNode[] = [];
 
@@ -463,6 +478,7 @@ export function findMatchingElements(
     if (pattern.id && node.id !== pattern.id) isMatch = false;
     if (pattern.class && (!node.classes || !node.classes.includes(pattern.class))) isMatch = false;
     if (pattern.role && node.role !== pattern.role) isMatch = false;
+    if (pattern.elementId && node.elementId !== pattern.elementId) isMatch = false;
 
     if (isMatch) {
       matches.push(node);
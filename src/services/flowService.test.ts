@@ -0,0 +1,104 @@
+/**
+ * Tests for flowService graph helpers
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  addFlowHotspot,
+  addFlowNode,
+  getNodeScreens,
+  getReachableNodeIds,
+  removeFlowNode,
+  validateFlow,
+  type FlowGraph,
+  type FlowScreen,
+} from './flowService';
+
+const screen = (variantIndex: number): FlowScreen => ({
+  sessionId: 'session-1',
+  sessionName: 'Checkout',
+  variantIndex,
+  htmlUrl: `https://cdn.example.com/${variantIndex}.html`,
+  editedHtml: null,
+  screenshotUrl: null,
+});
+
+const EMPTY: FlowGraph = { start_node_id: null, nodes: [], hotspots: [] };
+
+function buildFlow(count: number): FlowGraph {
+  let flow = EMPTY;
+  for (let i = 1; i <= count; i++) {
+    flow = addFlowNode(flow, screen(i));
+  }
+  return flow;
+}
+
+describe('addFlowNode', () => {
+  it('should make the first node the start and place the next to its right', () => {
+    const flow = buildFlow(2);
+
+    expect(flow.start_node_id).toBe(flow.nodes[0].id);
+    expect(flow.nodes[0].title).toBe('Checkout · Variant A');
+    expect(flow.nodes[1].x).toBeGreaterThan(flow.nodes[0].x);
+    expect(flow.nodes[1].y).toBe(flow.nodes[0].y);
+  });
+});
+
+describe('addFlowHotspot', () => {
+  it('should replace a hotspot on the same element', () => {
+    const flow = buildFlow(3);
+    const [a, b, c] = flow.nodes;
+
+    const linked = addFlowHotspot(
+      addFlowHotspot(flow, { source: a.id, target: b.id, selector: '#next', transition: 'fade' }),
+      { source: a.id, target: c.id, selector: '#next', transition: 'slide-left' }
+    );
+
+    expect(linked.hotspots).toHaveLength(1);
+    expect(linked.hotspots[0]).toMatchObject({ target: c.id, transition: 'slide-left' });
+  });
+});
+
+describe('removeFlowNode', () => {
+  it('should drop hotspots to the node and move the start', () => {
+    const flow = buildFlow(2);
+    const [a, b] = flow.nodes;
+    const linked = addFlowHotspot(flow, { source: b.id, target: a.id, selector: 'button', transition: 'none' });
+
+    const result = removeFlowNode(linked, a.id);
+
+    expect(result.nodes.map((n) => n.id)).toEqual([b.id]);
+    expect(result.hotspots).toEqual([]);
+    expect(result.start_node_id).toBe(b.id);
+  });
+});
+
+describe('validateFlow', () => {
+  it('should report screens that cannot be reached from the start', () => {
+    const flow = buildFlow(3);
+    const [a, b, c] = flow.nodes;
+    const linked = addFlowHotspot(flow, { source: a.id, target: b.id, selector: 'a', transition: 'none' });
+
+    expect(getReachableNodeIds(linked)).toEqual(new Set([a.id, b.id]));
+    expect(validateFlow(linked)).toEqual([
+      { type: 'unreachable', nodeId: c.id, message: "Checkout · Variant C can't be reached from the start screen" },
+    ]);
+  });
+
+  it('should require screens and a start screen', () => {
+    expect(validateFlow(EMPTY).map((i) => i.type)).toEqual(['no-screens']);
+    expect(validateFlow({ ...buildFlow(1), start_node_id: null }).map((i) => i.type)).toEqual(['no-start']);
+  });
+});
+
+describe('getNodeScreens', () => {
+  it('should map nodes to their variants', () => {
+    const flow = buildFlow(2);
+    const screens = [screen(2), screen(1)];
+
+    const result = getNodeScreens(flow.nodes, screens);
+
+    expect(result[flow.nodes[0].id]).toBe(screens[1]);
+    expect(result[flow.nodes[1].id]).toBe(screens[0]);
+  });
+});
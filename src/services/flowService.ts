@@ -0,0 +1,392 @@
+/**
+ * Flow Service
+ *
+ * Multi-screen prototype flows. A flow is a graph of screens (nodes, each a
+ * generated variant) linked by hotspots: an element selector on one screen
+ * and the screen it opens, with a transition. The graph is edited and
+ * stored as a whole; the prototype runtime follows hotspots in the iframe
+ * and carries shared state from screen to screen.
+ */
+
+import { supabase, isSupabaseConfigured } from './supabase';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type FlowTransition = 'none' | 'fade' | 'slide-left' | 'slide-right' | 'slide-up' | 'zoom';
+
+export interface FlowNode {
+  id: string;
+  sessionId: string;
+  variantIndex: number;
+  title: string;
+  /** Position on the editor canvas */
+  x: number;
+  y: number;
+}
+
+export interface FlowHotspot {
+  id: string;
+  /** Node the hotspot is on */
+  source: string;
+  /** Node it opens */
+  target: string;
+  /** Element(s) on the source screen that trigger it */
+  selector: string;
+  /** What was clicked, for the editor */
+  label?: string;
+  transition: FlowTransition;
+}
+
+export interface PrototypeFlow {
+  id: string;
+  user_id: string;
+  name: string;
+  description: string | null;
+  start_node_id: string | null;
+  nodes: FlowNode[];
+  hotspots: FlowHotspot[];
+  created_at: string;
+  updated_at: string;
+}
+
+export type FlowGraph = Pick<PrototypeFlow, 'start_node_id' | 'nodes' | 'hotspots'>;
+
+/** A generated variant that can be placed in a flow */
+export interface FlowScreen {
+  sessionId: string;
+  sessionName: string;
+  variantIndex: number;
+  htmlUrl: string;
+  editedHtml: string | null;
+  screenshotUrl: string | null;
+}
+
+/** Where a screen's HTML comes from; edited HTML wins over the generated file */
+export interface FlowScreenSource {
+  htmlUrl: string | null;
+  editedHtml: string | null;
+}
+
+export interface FlowIssue {
+  type: 'no-start' | 'unreachable' | 'missing-target' | 'no-screens';
+  nodeId?: string;
+  message: string;
+}
+
+export const FLOW_TRANSITIONS: { value: FlowTransition; label: string }[] = [
+  { value: 'none', label: 'Instant' },
+  { value: 'fade', label: 'Fade' },
+  { value: 'slide-left', label: 'Slide left' },
+  { value: 'slide-right', label: 'Slide right' },
+  { value: 'slide-up', label: 'Slide up' },
+  { value: 'zoom', label: 'Zoom' },
+];
+
+// ============================================================================
+// Graph Helpers
+// ============================================================================
+
+function createId(prefix: string): string {
+  return `${prefix}-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 7)}`;
+}
+
+export function variantLabel(variantIndex: number): string {
+  return `Variant ${String.fromCharCode(64 + variantIndex)}`;
+}
+
+/**
+ * Add a screen to the flow, placed right of the last node. The first node
+ * becomes the start.
+ */
+export function addFlowNode<T extends FlowGraph>(flow: T, screen: FlowScreen): T {
+  const last = flow.nodes[flow.nodes.length - 1];
+  const node: FlowNode = {
+    id: createId('node'),
+    sessionId: screen.sessionId,
+    variantIndex: screen.variantIndex,
+    title: `${screen.sessionName} · ${variantLabel(screen.variantIndex)}`,
+    x: last ? last.x + 260 : 40,
+    y: last ? last.y : 40,
+  };
+  return {
+    ...flow,
+    nodes: [...flow.nodes, node],
+    start_node_id: flow.start_node_id ?? node.id,
+  };
+}
+
+/**
+ * Remove a node with the hotspots on and to it
+ */
+export function removeFlowNode<T extends FlowGraph>(flow: T, nodeId: string): T {
+  const nodes = flow.nodes.filter((n) => n.id !== nodeId);
+  return {
+    ...flow,
+    nodes,
+    hotspots: flow.hotspots.filter((h) => h.source !== nodeId && h.target !== nodeId),
+    start_node_id: flow.start_node_id === nodeId ? nodes[0]?.id ?? null : flow.start_node_id,
+  };
+}
+
+export function updateFlowNode<T extends FlowGraph>(flow: T, nodeId: string, updates: Partial<Omit<FlowNode, 'id'>>): T {
+  return { ...flow, nodes: flow.nodes.map((n) => (n.id === nodeId ? { ...n, ...updates } : n)) };
+}
+
+/**
+ * Add a hotspot, replacing one with the same source and selector
+ */
+export function addFlowHotspot<T extends FlowGraph>(flow: T, hotspot: Omit<FlowHotspot, 'id'>): T {
+  return {
+    ...flow,
+    hotspots: [
+      ...flow.hotspots.filter((h) => !(h.source === hotspot.source && h.selector === hotspot.selector)),
+      { ...hotspot, id: createId('hotspot') },
+    ],
+  };
+}
+
+export function updateFlowHotspot<T extends FlowGraph>(flow: T, hotspotId: string, updates: Partial<Omit<FlowHotspot, 'id'>>): T {
+  return { ...flow, hotspots: flow.hotspots.map((h) => (h.id === hotspotId ? { ...h, ...updates } : h)) };
+}
+
+export function removeFlowHotspot<T extends FlowGraph>(flow: T, hotspotId: string): T {
+  return { ...flow, hotspots: flow.hotspots.filter((h) => h.id !== hotspotId) };
+}
+
+export function getHotspotsFrom(flow: FlowGraph, nodeId: string): FlowHotspot[] {
+  return flow.hotspots.filter((h) => h.source === nodeId);
+}
+
+/**
+ * Match each node to its screen, for playing a flow in the editor. The
+ * screen objects are passed through so they keep their identity.
+ */
+export function getNodeScreens(nodes: FlowNode[], screens: FlowScreen[]): Record<string, FlowScreenSource> {
+  const result: Record<string, FlowScreenSource> = {};
+  nodes.forEach((node) => {
+    const screen = screens.find((s) => s.sessionId === node.sessionId && s.variantIndex === node.variantIndex);
+    if (screen) {
+      result[node.id] = screen;
+    }
+  });
+  return result;
+}
+
+/**
+ * Ids of the nodes a viewer can get to from the start node
+ */
+export function getReachableNodeIds(flow: FlowGraph): Set<string> {
+  const reachable = new Set<string>();
+  const queue = flow.start_node_id ? [flow.start_node_id] : [];
+
+  while (queue.length > 0) {
+    const id = queue.shift()!;
+    if (reachable.has(id) || !flow.nodes.some((n) => n.id === id)) continue;
+    reachable.add(id);
+    getHotspotsFrom(flow, id).forEach((h) => queue.push(h.target));
+  }
+
+  return reachable;
+}
+
+/**
+ * Problems that would stop a viewer from walking through the flow
+ */
+export function validateFlow(flow: FlowGraph): FlowIssue[] {
+  if (flow.nodes.length === 0) {
+    return [{ type: 'no-screens', message: 'Add at least one screen' }];
+  }
+
+  const issues: FlowIssue[] = [];
+  const nodeIds = new Set(flow.nodes.map((n) => n.id));
+
+  if (!flow.start_node_id || !nodeIds.has(flow.start_node_id)) {
+    issues.push({ type: 'no-start', message: 'Choose a start screen' });
+  }
+
+  flow.hotspots
+    .filter((h) => !nodeIds.has(h.target))
+    .forEach((h) => {
+      issues.push({ type: 'missing-target', nodeId: h.source, message: `"${h.label || h.selector}" links to a removed screen` });
+    });
+
+  if (issues.length === 0) {
+    const reachable = getReachableNodeIds(flow);
+    flow.nodes
+      .filter((n) => !reachable.has(n.id))
+      .forEach((n) => {
+        issues.push({ type: 'unreachable', nodeId: n.id, message: `${n.title} can't be reached from the start screen` });
+      });
+  }
+
+  return issues;
+}
+
+// ============================================================================
+// Queries
+// ============================================================================
+
+/**
+ * Get the current user's flows, most recently edited first
+ */
+export async function getFlows(): Promise<PrototypeFlow[]> {
+  if (!isSupabaseConfigured()) {
+    return [];
+  }
+
+  const { data, error } = await supabase
+    .from('prototype_flows')
+    .select('*')
+    .order('updated_at', { ascending: false });
+
+  if (error) {
+    console.error('Error fetching flows:', error);
+    return [];
+  }
+
+  return (data as PrototypeFlow[]) || [];
+}
+
+/**
+ * Get a flow by ID
+ */
+export async function getFlow(flowId: string): Promise<PrototypeFlow | null> {
+  if (!isSupabaseConfigured()) {
+    return null;
+  }
+
+  const { data, error } = await supabase
+    .from('prototype_flows')
+    .select('*')
+    .eq('id', flowId)
+    .single();
+
+  if (error) {
+    console.error('Error fetching flow:', error);
+    return null;
+  }
+
+  return data as PrototypeFlow;
+}
+
+/**
+ * Create an empty flow
+ */
+export async function createFlow(name: string, description?: string): Promise<PrototypeFlow> {
+  if (!isSupabaseConfigured()) {
+    throw new Error('Supabase not configured');
+  }
+
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) {
+    throw new Error('You must be logged in to create a flow');
+  }
+
+  const { data, error } = await supabase
+    .from('prototype_flows')
+    .insert({ user_id: user.id, name, description: description || null })
+    .select()
+    .single();
+
+  if (error) {
+    console.error('Error creating flow:', error);
+    throw new Error(`Failed to create flow: ${error.message}`);
+  }
+
+  return data as PrototypeFlow;
+}
+
+/**
+ * Save a flow's name, description and graph
+ */
+export async function saveFlow(
+  flowId: string,
+  updates: Partial<Pick<PrototypeFlow, 'name' | 'description' | 'start_node_id' | 'nodes' | 'hotspots'>>
+): Promise<boolean> {
+  if (!isSupabaseConfigured()) {
+    return false;
+  }
+
+  const { error } = await supabase.from('prototype_flows').update(updates).eq('id', flowId);
+
+  if (error) {
+    console.error('Error saving flow:', error);
+    return false;
+  }
+
+  return true;
+}
+
+/**
+ * Delete a flow and its share links
+ */
+export async function deleteFlow(flowId: string): Promise<boolean> {
+  if (!isSupabaseConfigured()) {
+    return false;
+  }
+
+  const { error } = await supabase.from('prototype_flows').delete().eq('id', flowId);
+
+  if (error) {
+    console.error('Error deleting flow:', error);
+    return false;
+  }
+
+  return true;
+}
+
+/**
+ * Load a screen's HTML. Generated files are fetched so the runtime can be
+ * injected into them.
+ */
+export async function loadFlowScreenHtml(screen: FlowScreenSource): Promise<string | null> {
+  if (screen.editedHtml) {
+    return screen.editedHtml;
+  }
+  if (!screen.htmlUrl) {
+    return null;
+  }
+  if (!screen.htmlUrl.startsWith('http')) {
+    return screen.htmlUrl;
+  }
+
+  try {
+    const response = await fetch(screen.htmlUrl);
+    return response.ok ? await response.text() : null;
+  } catch (error) {
+    console.error('Error fetching flow screen:', error);
+    return null;
+  }
+}
+
+/**
+ * Get every completed variant of the current user's sessions, for adding
+ * screens to a flow
+ */
+export async function getFlowScreens(): Promise<FlowScreen[]> {
+  if (!isSupabaseConfigured()) {
+    return [];
+  }
+
+  const { data, error } = await supabase
+    .from('vibe_variants')
+    .select('session_id, variant_index, html_url, edited_html, screenshot_url, vibe_sessions(name)')
+    .eq('status', 'complete')
+    .order('created_at', { ascending: false });
+
+  if (error) {
+    console.error('Error fetching flow screens:', error);
+    return [];
+  }
+
+  return (data || []).map((row) => ({
+    sessionId: row.session_id,
+    sessionName: (row.vibe_sessions as unknown as { name: string } | null)?.name || 'Untitled project',
+    variantIndex: row.variant_index,
+    htmlUrl: row.html_url,
+    editedHtml: row.edited_html,
+    screenshotUrl: row.screenshot_url,
+  }));
+}
@@ -0,0 +1,179 @@
+/**
+ * Tests for htmlCompactor budget compaction and placeholder restoring
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  compactToBudget,
+  estimateTokens,
+  getHtmlTokenBudget,
+  mapOperationsToOriginal,
+} from './htmlCompactor';
+import { applyEditOperations, EditOps } from './editOperationsService';
+
+const IMAGE = `data:image/png;base64,${'iVBORw0KGgo'.repeat(200)}`;
+
+const cards = Array.from({ length: 12 }, (_, i) => `
+  <div class="card" style="padding: 16px; border: 1px solid #eee; box-shadow: 0 1px 2px rgba(0,0,0,.1);">
+    <!-- card ${i} -->
+    <h3 class="card-title">Product ${i}</h3>
+    <p class="card-body">${'A wonderful product description that goes on and on. '.repeat(4)}</p>
+    <button class="buy" data-track="buy-${i}" onclick="buy(${i})">Buy</button>
+  </div>`).join('');
+
+const HTML = `<!DOCTYPE html><html><head><title>Shop</title>
+<meta name="viewport" content="width=device-width">
+<style>.card { display: flex; } .buy { color: red; }</style>
+<script>function buy(id) { console.log(id); }</script>
+</head><body>
+<header class="top"><img class="logo" src="${IMAGE}" alt="Logo"><svg viewBox="0 0 10 10"><path d="M0 0L10 10"/></svg>
+<h1 id="title">Store</h1></header>
+<main class="grid">${cards}</main>
+<footer class="foot"><p>Contact us</p></footer>
+</body></html>`;
+
+describe('estimateTokens', () => {
+  it('should count markup more densely than prose', () => {
+    const markup = '<div class="a"><span id="b">x</span></div>';
+    const prose = 'The quick brown fox jumps over the lazy dog again';
+
+    expect(estimateTokens(markup) / markup.length).toBeGreaterThan(estimateTokens(prose) / prose.length);
+  });
+
+  it('should adjust for the provider tokenizer', () => {
+    const text = HTML.slice(0, 2000);
+    expect(estimateTokens(text, { provider: 'anthropic' })).toBeGreaterThan(estimateTokens(text, { provider: 'google' }));
+  });
+});
+
+describe('getHtmlTokenBudget', () => {
+  it('should size the budget to the model context window', () => {
+    expect(getHtmlTokenBudget({ provider: 'local' })).toBeLessThan(getHtmlTokenBudget({ provider: 'openai', model: 'gpt-4o' }));
+    expect(getHtmlTokenBudget({ provider: 'local', model: 'llama3.1' })).toBe(getHtmlTokenBudget({ provider: 'local' }));
+  });
+
+  it('should cap the budget for large context windows', () => {
+    expect(getHtmlTokenBudget({ provider: 'google', model: 'gemini-1.5-pro' })).toBe(getHtmlTokenBudget({ provider: 'anthropic' }));
+  });
+});
+
+describe('compactToBudget', () => {
+  it('should leave HTML that already fits untouched', () => {
+    const result = compactToBudget(HTML, { maxTokens: 1_000_000 });
+
+    expect(result.html).toBe(HTML);
+    expect(result.steps).toEqual([]);
+    expect(result.fits).toBe(true);
+  });
+
+  it('should escalate steps in order until the budget is met', () => {
+    const originalTokens = estimateTokens(HTML);
+    const result = compactToBudget(HTML, { maxTokens: Math.floor(originalTokens * 0.5) });
+
+    expect(result.fits).toBe(true);
+    expect(result.tokens).toBeLessThanOrEqual(result.maxTokens);
+    expect(result.steps[0]).toBe('minify');
+    expect(result.steps).toContain('strip-data-urls');
+    expect(result.steps).not.toContain('drop-trailing');
+    expect(result.dropped.every((d) => d.count > 0)).toBe(true);
+    expect(result.html).toContain('{{vx:1}}');
+    expect(result.placeholders['vx:1']).toBe(IMAGE);
+  });
+
+  it('should collapse oversized sections into chunks for tight budgets', () => {
+    const result = compactToBudget(HTML, { maxTokens: 400 });
+
+    expect(result.fits).toBe(true);
+    expect(result.steps).toContain('chunk-sections');
+    expect(result.chunks.length).toBeGreaterThan(0);
+    expect(result.html).toContain(`data-vx-chunk="${result.chunks[0].id}"`);
+
+    const doc = new DOMParser().parseFromString(HTML, 'text/html');
+    expect(doc.querySelector(result.chunks[0].originalSelector)).not.toBeNull();
+  });
+
+  it('should collapse trailing sections one at a time inside a single wrapper', () => {
+    const app = `<html><body><div id="app"><h1 id="title">Store</h1><main class="grid">${cards.repeat(5)}</main></div></body></html>`;
+    const result = compactToBudget(app, { maxTokens: 1500 });
+
+    expect(result.fits).toBe(true);
+    const doc = new DOMParser().parseFromString(result.html, 'text/html');
+    expect(doc.querySelector('#app > main.grid')).not.toBeNull();
+    expect(doc.querySelector('#title')?.textContent).toBe('Store');
+    expect(doc.querySelector('.card:first-child .card-title')?.textContent).toBe('Product 0');
+    expect(doc.querySelector('.card:first-child')?.hasAttribute('data-vx-chunk')).toBe(false);
+
+    expect(result.chunks.length).toBeGreaterThan(0);
+    result.chunks.forEach((chunk) => {
+      expect(doc.querySelector(chunk.selector)?.getAttribute('data-vx-chunk')).toBe(String(chunk.id));
+      expect(chunk.preview).not.toBe('');
+    });
+  });
+
+  it('should always fit by dropping trailing content as a last resort', () => {
+    const result = compactToBudget(HTML, { maxTokens: 40 });
+
+    expect(result.fits).toBe(true);
+    expect(result.dropped.map((d) => d.step)).toContain('drop-trailing');
+  });
+});
+
+describe('mapOperationsToOriginal', () => {
+  it('should re-target operations and restore placeholders', () => {
+    const result = compactToBudget(HTML, { maxTokens: Math.floor(estimateTokens(HTML) * 0.3) });
+    const compactedDoc = new DOMParser().parseFromString(result.html, 'text/html');
+    expect(compactedDoc.querySelector('.card')?.hasAttribute('style')).toBe(false);
+
+    // Positional selectors only line up with the original after mapping
+    const operations = mapOperationsToOriginal(result, [
+      EditOps.updateText('main > div:nth-child(3) > h3', 'Featured'),
+      EditOps.insertElement('header', 'append', '<img src="{{vx:1}}" alt="Copy">'),
+    ]);
+    const applied = applyEditOperations(HTML, operations);
+
+    expect(applied.failedOperations).toBe(0);
+    const doc = new DOMParser().parseFromString(applied.html, 'text/html');
+    expect(doc.querySelectorAll('.card-title')[2].textContent).toBe('Featured');
+    expect(doc.querySelector('img[alt="Copy"]')?.getAttribute('src')).toBe(IMAGE);
+    expect(doc.querySelectorAll('.card')[2].getAttribute('style')).toContain('padding');
+  });
+});
+
+describe('placeholders', () => {
+  const parse = (html: string) => new DOMParser().parseFromString(html, 'text/html');
+  const quote = `<blockquote class="quote"><p>${'Best shop I have ever used, five stars. '.repeat(6)}</p><cite>Customer</cite></blockquote>`;
+  const PAGE = HTML.replace('<p>Contact us</p>', `${quote}${quote}${quote}<p>Contact us</p>`);
+  const budget = (html: string) => Math.floor(estimateTokens(html) * 0.6);
+
+  it('should keep SVG and repeated content in place as placeholders', () => {
+    const result = compactToBudget(PAGE, { maxTokens: budget(PAGE) });
+    const compacted = parse(result.html);
+
+    expect(result.steps).toContain('collapse-repeated');
+    expect(compacted.querySelector('svg')?.childNodes.length).toBe(0);
+    expect(result.placeholders[compacted.querySelector('svg')!.getAttribute('data-vx-ph')!]).toContain('<path');
+    // Repeated subtrees keep their wrapper, only the first keeps its content
+    expect(compacted.querySelectorAll('.quote').length).toBe(3);
+    expect(compacted.querySelectorAll('.quote cite').length).toBe(1);
+  });
+
+  it('should restore placeholders in fragments and values returned by the LLM', () => {
+    const result = compactToBudget(PAGE, { maxTokens: budget(PAGE) });
+    const compacted = parse(result.html);
+    const logoSrc = compacted.querySelector('.logo')!.getAttribute('src')!;
+    const collapsedQuote = compacted.querySelector('.quote[data-vx-ph]')!;
+
+    const operations = mapOperationsToOriginal(result, [
+      EditOps.insertElement('.foot', 'append', `<section><img class="badge" src="${logoSrc}">${collapsedQuote.outerHTML}</section>`),
+      EditOps.updateAttribute('#title', 'data-src', logoSrc),
+    ]);
+    const applied = applyEditOperations(PAGE, operations);
+
+    expect(applied.failedOperations).toBe(0);
+    const doc = parse(applied.html);
+    expect(doc.querySelector('.badge')?.getAttribute('src')).toBe(IMAGE);
+    expect(doc.querySelector('#title')?.getAttribute('data-src')).toBe(IMAGE);
+    expect(doc.querySelector('section .quote cite')?.textContent).toBe('Customer');
+    expect(doc.querySelector('[data-vx-ph]')).toBeNull();
+  });
+});
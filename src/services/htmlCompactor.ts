@@ -13,6 +13,8 @@
  */
 
 import sanitizeHtml from 'sanitize-html';
+import type { LLMProvider } from './apiKeysService';
+import { getPositionalSelector, getStableSelector, serializeDocument, type EditOperation } from './editOperationsService';
 
 // ============================================
 // COMPACTION METHOD TYPES
@@ -430,9 +432,83 @@ export function getRecommendedMethod(htmlSize: number): CompactionMethod {
   return 'combined-maximum';
 }
 
-export function estimateTokens(html: string): number {
-  // ~4 chars per token for HTML on average
-  return Math.ceil(html.length / 4);
+export interface TokenEstimateOptions {
+  provider?: LLMProvider;
+  model?: string;
+}
+
+// Relative token counts of each provider's tokenizer for markup
+const PROVIDER_TOKEN_RATIOS: Record<LLMProvider, number> = {
+  anthropic: 1.1,
+  openai: 1.0,
+  google: 0.95,
+  local: 1.0, // Llama/Qwen-style BPE vocabularies split markup much like OpenAI's
+};
+
+/**
+ * Estimate the token count of HTML (or any text) for a provider/model.
+ * Tokenizers split markup into many short pieces, so words, numbers and
+ * punctuation runs are counted separately rather than dividing by 4.
+ */
+export function estimateTokens(html: string, options: TokenEstimateOptions = {}): number {
+  let tokens = 0;
+  const pieces = html.match(/[A-Za-z]+|\d+|\s+|[^\sA-Za-z\d\u0080-\uffff]+|[\u0080-\uffff]/g) || [];
+
+  for (const piece of pieces) {
+    const first = piece.charCodeAt(0);
+    if (/^\s/.test(piece)) {
+      // Single spaces merge into the following word
+      if (piece.length > 1 || piece === '\n') tokens += 1;
+    } else if (/^[A-Za-z]/.test(piece)) {
+      tokens += piece.length <= 6 ? 1 : Math.ceil(piece.length / 5);
+    } else if (/^\d/.test(piece)) {
+      tokens += Math.ceil(piece.length / 3);
+    } else if (first >= 0x80) {
+      tokens += 1;
+    } else {
+      // Punctuation pairs like '="' and '</' are usually single tokens
+      tokens += Math.ceil(piece.length / 2);
+    }
+  }
+
+  let ratio = options.provider ? PROVIDER_TOKEN_RATIOS[options.provider] ?? 1 : 1;
+  // Newer OpenAI models use a larger vocabulary
+  if (options.model && /^(gpt-4o|gpt-4\.1|gpt-5|o\d)/.test(options.model)) {
+    ratio *= 0.9;
+  }
+
+  return Math.ceil(tokens * ratio);
+}
+
+// Context windows by model, first match wins; otherwise the provider default
+const MODEL_CONTEXT_WINDOWS: Array<[RegExp, number]> = [
+  [/^gpt-4\.1/, 1_000_000],
+  [/^(gpt-4o|o1-mini)/, 128_000],
+  [/^o\d/, 200_000],
+  [/^gemini-1\.5-pro/, 2_000_000],
+];
+
+const PROVIDER_CONTEXT_WINDOWS: Record<LLMProvider, number> = {
+  anthropic: 200_000,
+  openai: 128_000,
+  google: 1_000_000,
+  local: 8_192, // Ollama's default context unless the server raises it
+};
+
+// Share of the context window page HTML may take, leaving room for the
+// prompt, screenshot and output; capped to keep large contexts affordable
+const HTML_CONTEXT_SHARE = 0.25;
+const MAX_HTML_TOKENS = 16_000;
+
+/**
+ * Token budget for page HTML in a prompt to the given provider/model
+ */
+export function getHtmlTokenBudget(options: TokenEstimateOptions = {}): number {
+  const modelWindow = options.model
+    ? MODEL_CONTEXT_WINDOWS.find(([pattern]) => pattern.test(options.model!))?.[1]
+    : undefined;
+  const window = modelWindow ?? PROVIDER_CONTEXT_WINDOWS[options.provider ?? 'anthropic'];
+  return Math.min(MAX_HTML_TOKENS, Math.floor(window * HTML_CONTEXT_SHARE));
 }
 
 export interface MethodInfo {
@@ -525,3 +601,564 @@ export function compactHtmlSync(html: string, options: CompactionOptions): Compa
     processingTime: 0,
   };
 }
+
+// ============================================
+// BUDGET COMPACTION
+// ============================================
+
+/**
+ * Steps of compactToBudget, from least to most lossy
+ */
+export type BudgetStep =
+  | 'minify'                  // Comments and insignificant whitespace
+  | 'strip-scripts'           // script, noscript, template, link, meta
+  | 'strip-data-urls'         // Data URLs replaced with {{vx:N}} placeholders
+  | 'collapse-svg'            // Inline SVG content, kept in placeholders
+  | 'collapse-repeated'       // Repeated subtrees after the first, kept in placeholders
+  | 'strip-stylesheets'       // <style> elements
+  | 'strip-inline-styles'     // style attributes
+  | 'strip-attributes'        // Attributes selectors and the LLM don't need
+  | 'truncate-text'           // Long text shortened
+  | 'chunk-sections'          // Oversized subtrees collapsed into chunks
+  | 'drop-trailing';          // Last resort: trailing elements removed
+
+export interface BudgetCompactionOptions extends TokenEstimateOptions {
+  maxTokens: number;
+}
+
+export interface DroppedContent {
+  step: BudgetStep;
+  description: string;
+  count: number;
+  tokensSaved: number;
+}
+
+/**
+ * A subtree collapsed out of the compacted HTML. The collapsed element stays
+ * in place (empty, marked data-vx-chunk) so it can still be targeted.
+ */
+export interface CompactedChunk {
+  id: number;
+  /** Selector of the collapsed element in the original HTML */
+  originalSelector: string;
+  /** Selector of the collapsed element in the compacted HTML, as the LLM sees it */
+  selector: string;
+  /** Compacted inner HTML of the collapsed element */
+  html: string;
+  /** Start of the collapsed text, so the LLM can tell sections apart */
+  preview: string;
+  tokens: number;
+}
+
+export interface BudgetCompactionResult {
+  html: string;
+  originalHtml: string;
+  tokens: number;
+  originalTokens: number;
+  maxTokens: number;
+  fits: boolean;
+  steps: BudgetStep[];
+  dropped: DroppedContent[];
+  chunks: CompactedChunk[];
+  /** Document-order element index in the compacted HTML -> index in the original */
+  elementMap: number[];
+  /** Placeholder key (vx:N) -> original data URL, attribute value or element content */
+  placeholders: Record<string, string>;
+  warnings: string[];
+}
+
+const CHUNK_ATTRIBUTE = 'data-vx-chunk';
+// Marks an emptied element whose content is in placeholders[key]
+const PLACEHOLDER_ATTRIBUTE = 'data-vx-ph';
+const PLACEHOLDER_TOKEN_PATTERN = /\{\{(vx:\d+)\}\}/g;
+const MAX_TEXT_CHARS = 120;
+const MAX_ATTRIBUTE_CHARS = 80;
+const MIN_REPEATED_CHARS = 200;
+const CHUNK_PREVIEW_CHARS = 60;
+const KEEP_ATTRIBUTES = new Set([
+  'id', 'class', 'data-vx-id', CHUNK_ATTRIBUTE, PLACEHOLDER_ATTRIBUTE, 'href', 'src', 'alt', 'type', 'name', 'value',
+  'placeholder', 'role', 'aria-label', 'for', 'action', 'method',
+]);
+// Kept attributes selectors may match on - never replaced by placeholders
+const SELECTOR_ATTRIBUTES = new Set([
+  'id', 'class', 'data-vx-id', CHUNK_ATTRIBUTE, PLACEHOLDER_ATTRIBUTE, 'alt', 'type', 'name', 'value',
+  'placeholder', 'role', 'aria-label', 'for', 'method',
+]);
+
+interface BudgetContext {
+  doc: Document;
+  placeholders: Record<string, string>;
+  /** Original value -> placeholder key, so repeated values share one key */
+  placeholderKeys: Map<string, string>;
+  chunks: CompactedChunk[];
+  originalIndex: Map<Element, number>;
+  originalElements: Element[];
+  /** Child positions in the original document, which never changes */
+  originalChildIndexes: Map<Element, number>;
+  options: BudgetCompactionOptions;
+}
+
+/** Apply a step to the working document, returning how many things it dropped */
+type BudgetStepFn = (ctx: BudgetContext, excessTokens: number) => number;
+
+function walkText(root: Node, visit: (node: Text) => void): void {
+  const walker = root.ownerDocument!.createTreeWalker(root, NodeFilter.SHOW_TEXT);
+  const nodes: Text[] = [];
+  while (walker.nextNode()) nodes.push(walker.currentNode as Text);
+  nodes.forEach(visit);
+}
+
+function isPreformatted(node: Node): boolean {
+  return !!node.parentElement?.closest('pre, textarea');
+}
+
+function placeholderFor({ placeholders, placeholderKeys }: BudgetContext, value: string): string {
+  let key = placeholderKeys.get(value);
+  if (!key) {
+    key = `vx:${placeholderKeys.size + 1}`;
+    placeholderKeys.set(value, key);
+    placeholders[key] = value;
+  }
+  return key;
+}
+
+/** Empty an element, keeping its content under a placeholder key */
+function collapseToPlaceholder(ctx: BudgetContext, el: Element): void {
+  el.setAttribute(PLACEHOLDER_ATTRIBUTE, placeholderFor(ctx, el.innerHTML));
+  el.replaceChildren();
+}
+
+/**
+ * Tokens of each element subtree, computed bottom-up so big documents
+ * are not re-serialized per element
+ */
+function measureSubtrees(root: Element, options: TokenEstimateOptions): Map<Element, number> {
+  const sizes = new Map<Element, number>();
+  const measure = (el: Element): number => {
+    const shallow = el.cloneNode(false) as Element;
+    let total = estimateTokens(shallow.outerHTML, options);
+    for (const child of Array.from(el.childNodes)) {
+      if (child.nodeType === Node.ELEMENT_NODE) {
+        total += measure(child as Element);
+      } else if (child.nodeType === Node.TEXT_NODE) {
+        total += estimateTokens(child.textContent || '', options);
+      }
+    }
+    sizes.set(el, total);
+    return total;
+  };
+  measure(root);
+  return sizes;
+}
+
+/**
+ * Collapse (or drop) just enough of a container's sections to save `excess`
+ * tokens, trailing sections first so the top of the page stays readable.
+ * A section bigger than what is still needed is descended into rather than
+ * taken whole. Returns the tokens saved and how many sections were taken.
+ */
+function reduceSections(
+  ctx: BudgetContext,
+  container: Element,
+  excess: number,
+  sizes: Map<Element, number>,
+  mode: 'collapse' | 'drop'
+): { saved: number; taken: number } {
+  const { chunks, originalIndex, originalElements, options } = ctx;
+  let saved = 0;
+  let taken = 0;
+
+  for (const section of Array.from(container.children).reverse()) {
+    if (saved >= excess) break;
+    // A collapsed section keeps its own tag and gains the chunk marker
+    const shell = mode === 'collapse'
+      ? estimateTokens((section.cloneNode(false) as Element).outerHTML, options) +
+        estimateTokens(` ${CHUNK_ATTRIBUTE}="${chunks.length + 1}"`, options)
+      : 0;
+    const content = sizes.get(section)! - shell;
+    if (content <= 0 || (mode === 'collapse' && section.hasAttribute(CHUNK_ATTRIBUTE))) continue;
+
+    const remaining = excess - saved;
+    if (content > remaining && section.children.length > 0) {
+      const inner = reduceSections(ctx, section, remaining, sizes, mode);
+      saved += inner.saved;
+      taken += inner.taken;
+      continue;
+    }
+
+    saved += content;
+    taken++;
+    if (mode === 'drop') {
+      section.remove();
+      continue;
+    }
+
+    const id = chunks.length + 1;
+    const original = originalElements[originalIndex.get(section)!];
+    chunks.push({
+      id,
+      originalSelector: original ? getPositionalSelector(original, ctx.originalChildIndexes) : '',
+      selector: '',
+      html: section.innerHTML,
+      preview: (section.textContent || '').replace(/\s+/g, ' ').trim().slice(0, CHUNK_PREVIEW_CHARS),
+      tokens: content,
+    });
+    section.replaceChildren();
+    section.setAttribute(CHUNK_ATTRIBUTE, String(id));
+  }
+  return { saved, taken };
+}
+
+/**
+ * Run reduceSections over the body until the document fits, re-measuring
+ * after each pass since subtree sizes only approximate the serialized
+ * document. Returns how many sections were collapsed or dropped.
+ */
+function reduceUntilFits(ctx: BudgetContext, excessTokens: number, mode: 'collapse' | 'drop'): number {
+  const { doc, options } = ctx;
+  let count = 0;
+  let excess = excessTokens;
+
+  while (excess > 0) {
+    const { taken } = reduceSections(ctx, doc.body, excess, measureSubtrees(doc.body, options), mode);
+    if (taken === 0) break;
+    count += taken;
+    excess = estimateTokens(serializeDocument(doc), options) - options.maxTokens;
+  }
+  return count;
+}
+
+const BUDGET_STEPS: Array<{ step: BudgetStep; description: string; run: BudgetStepFn }> = [
+  {
+    step: 'minify',
+    description: 'Comments and insignificant whitespace',
+    run: ({ doc }) => {
+      let count = 0;
+      const walker = doc.createTreeWalker(doc, NodeFilter.SHOW_COMMENT);
+      const comments: Node[] = [];
+      while (walker.nextNode()) comments.push(walker.currentNode);
+      comments.forEach((comment) => comment.parentNode?.removeChild(comment));
+      count += comments.length;
+
+      walkText(doc.documentElement, (node) => {
+        if (isPreformatted(node)) return;
+        const text = node.textContent || '';
+        if (!text.trim()) {
+          node.remove();
+          count++;
+        } else if (/\s{2,}|\n/.test(text)) {
+          node.textContent = text.replace(/\s+/g, ' ');
+        }
+      });
+      return count;
+    },
+  },
+  {
+    step: 'strip-scripts',
+    description: 'Scripts, templates, links and meta tags',
+    run: ({ doc }) => {
+      const elements = Array.from(doc.querySelectorAll('script, noscript, template, link, meta:not([charset])'));
+      elements.forEach((el) => el.remove());
+      return elements.length;
+    },
+  },
+  {
+    step: 'strip-data-urls',
+    description: 'Data URLs (images, fonts) replaced with placeholders',
+    run: (ctx) => {
+      let count = 0;
+      const replace = (value: string) => {
+        count++;
+        return `{{${placeholderFor(ctx, value)}}}`;
+      };
+      const dataUrlPattern = /data:[a-z]+\/[^,;]+(?:;[^,]+)?,[^\s"')]+/gi;
+
+      ctx.doc.querySelectorAll('*').forEach((el) => {
+        for (const attr of Array.from(el.attributes)) {
+          if (attr.value.includes('data:')) {
+            el.setAttribute(attr.name, attr.value.replace(dataUrlPattern, replace));
+          }
+        }
+      });
+      ctx.doc.querySelectorAll('style').forEach((style) => {
+        if (style.textContent?.includes('data:')) {
+          style.textContent = style.textContent.replace(dataUrlPattern, replace);
+        }
+      });
+      return count;
+    },
+  },
+  {
+    step: 'collapse-svg',
+    description: 'Inline SVG content',
+    run: (ctx) => {
+      const svgs = Array.from(ctx.doc.querySelectorAll('svg')).filter(
+        (svg) => svg.childNodes.length > 0 && !svg.parentElement?.closest('svg')
+      );
+      svgs.forEach((svg) => collapseToPlaceholder(ctx, svg));
+      return svgs.length;
+    },
+  },
+  {
+    step: 'collapse-repeated',
+    description: 'Repeated content after its first occurrence',
+    run: (ctx) => {
+      let count = 0;
+      const seen = new Set<string>();
+      ctx.doc.querySelectorAll('body *').forEach((el) => {
+        // Elements inside an already collapsed subtree are detached by now
+        if (!el.isConnected || el.hasAttribute(PLACEHOLDER_ATTRIBUTE)) return;
+        const content = el.innerHTML;
+        if (content.length < MIN_REPEATED_CHARS) return;
+        if (seen.has(content)) {
+          collapseToPlaceholder(ctx, el);
+          count++;
+        } else {
+          seen.add(content);
+        }
+      });
+      return count;
+    },
+  },
+  {
+    step: 'strip-stylesheets',
+    description: 'Style elements',
+    run: ({ doc }) => {
+      const styles = Array.from(doc.querySelectorAll('style'));
+      styles.forEach((el) => el.remove());
+      return styles.length;
+    },
+  },
+  {
+    step: 'strip-inline-styles',
+    description: 'Inline style attributes',
+    run: ({ doc }) => {
+      const styled = Array.from(doc.querySelectorAll('[style]'));
+      styled.forEach((el) => el.removeAttribute('style'));
+      return styled.length;
+    },
+  },
+  {
+    step: 'strip-attributes',
+    description: 'Attributes not used for targeting, and long values of the rest',
+    run: (ctx) => {
+      let count = 0;
+      ctx.doc.querySelectorAll('*').forEach((el) => {
+        for (const attr of Array.from(el.attributes)) {
+          if (!KEEP_ATTRIBUTES.has(attr.name)) {
+            el.removeAttribute(attr.name);
+            count++;
+          } else if (attr.value.length > MAX_ATTRIBUTE_CHARS && !SELECTOR_ATTRIBUTES.has(attr.name)) {
+            el.setAttribute(attr.name, `{{${placeholderFor(ctx, attr.value)}}}`);
+            count++;
+          }
+        }
+      });
+      return count;
+    },
+  },
+  {
+    step: 'truncate-text',
+    description: `Text longer than ${MAX_TEXT_CHARS} characters`,
+    run: ({ doc }) => {
+      let count = 0;
+      walkText(doc.documentElement, (node) => {
+        const text = node.textContent || '';
+        if (text.length > MAX_TEXT_CHARS) {
+          node.textContent = `${text.slice(0, MAX_TEXT_CHARS)}…`;
+          count++;
+        }
+      });
+      return count;
+    },
+  },
+  {
+    step: 'chunk-sections',
+    description: 'Sections collapsed into separate chunks',
+    run: (ctx, excessTokens) => reduceUntilFits(ctx, excessTokens, 'collapse'),
+  },
+  {
+    step: 'drop-trailing',
+    description: 'Trailing elements removed to fit the budget',
+    run: (ctx, excessTokens) => {
+      const count = reduceUntilFits(ctx, excessTokens, 'drop');
+      // Head content is all that can be left
+      const { doc, options } = ctx;
+      let excess = estimateTokens(serializeDocument(doc), options) - options.maxTokens;
+      let dropped = 0;
+      while (excess > 0 && doc.head.lastElementChild) {
+        doc.head.lastElementChild.remove();
+        excess = estimateTokens(serializeDocument(doc), options) - options.maxTokens;
+        dropped++;
+      }
+      return count + dropped;
+    },
+  },
+];
+
+/**
+ * Compact HTML until it fits a token budget.
+ * Steps run from least to most lossy and stop as soon as the budget is met;
+ * everything removed is reported. Elements are only removed, never replaced,
+ * so operations against the result can be mapped back with mapOperationsToOriginal.
+ */
+export function compactToBudget(html: string, options: BudgetCompactionOptions): BudgetCompactionResult {
+  const parser = new DOMParser();
+  const originalDoc = parser.parseFromString(html, 'text/html');
+  const doc = parser.parseFromString(html, 'text/html');
+
+  // Both parses have the same element order - remember where each element came from
+  const originalElements = Array.from(originalDoc.querySelectorAll('*'));
+  const originalIndex = new Map<Element, number>();
+  doc.querySelectorAll('*').forEach((el, i) => originalIndex.set(el, i));
+
+  const ctx: BudgetContext = {
+    doc,
+    placeholders: {},
+    placeholderKeys: new Map(),
+    chunks: [],
+    originalIndex,
+    originalElements,
+    originalChildIndexes: new Map(),
+    options,
+  };
+
+  const originalTokens = estimateTokens(html, options);
+  let tokens = originalTokens;
+  const steps: BudgetStep[] = [];
+  const dropped: DroppedContent[] = [];
+  const warnings: string[] = [];
+
+  for (const { step, description, run } of BUDGET_STEPS) {
+    if (tokens <= options.maxTokens) break;
+
+    const count = run(ctx, tokens - options.maxTokens);
+    const after = estimateTokens(serializeDocument(doc), options);
+    steps.push(step);
+    if (count > 0) {
+      dropped.push({ step, description, count, tokensSaved: tokens - after });
+    }
+    tokens = after;
+  }
+
+  const fits = tokens <= options.maxTokens;
+  if (!fits) {
+    warnings.push(`Could not fit ${options.maxTokens} tokens - the empty document alone needs ${tokens}`);
+  }
+  // Sections after a collapsed one may since have been dropped
+  const collapsed = new Map<string, Element>();
+  doc.querySelectorAll(`[${CHUNK_ATTRIBUTE}]`).forEach((el) => collapsed.set(el.getAttribute(CHUNK_ATTRIBUTE)!, el));
+  const childIndexes = new Map<Element, number>();
+  const chunks = ctx.chunks.flatMap((chunk) => {
+    const el = collapsed.get(String(chunk.id));
+    return el ? [{ ...chunk, selector: getStableSelector(el, childIndexes) }] : [];
+  });
+  if (chunks.length > 0) {
+    warnings.push(`${chunks.length} section(s) collapsed; their content is in chunks`);
+  }
+
+  return {
+    html: steps.length > 0 ? serializeDocument(doc) : html,
+    originalHtml: html,
+    tokens,
+    originalTokens,
+    maxTokens: options.maxTokens,
+    fits,
+    steps,
+    dropped,
+    chunks,
+    elementMap: Array.from(doc.querySelectorAll('*')).map((el) => originalIndex.get(el)!),
+    placeholders: ctx.placeholders,
+    warnings,
+  };
+}
+
+function restoreTokens(value: string, placeholders: Record<string, string>): string {
+  return value.replace(PLACEHOLDER_TOKEN_PATTERN, (token, key: string) => placeholders[key] ?? token);
+}
+
+/**
+ * Restore placeholders in an HTML fragment returned by the LLM (e.g. a copy
+ * of a collapsed element in insertElement html)
+ */
+function restoreFragment(html: string, placeholders: Record<string, string>): string {
+  if (!html.includes('vx:')) return html;
+
+  const template = document.createElement('template');
+  template.innerHTML = html;
+  template.content.querySelectorAll(`[${PLACEHOLDER_ATTRIBUTE}]`).forEach((el) => {
+    const content = placeholders[el.getAttribute(PLACEHOLDER_ATTRIBUTE)!];
+    if (content === undefined) return;
+    // The LLM may have filled the element itself - keep its content then
+    if (el.childNodes.length === 0) el.innerHTML = content;
+    el.removeAttribute(PLACEHOLDER_ATTRIBUTE);
+  });
+  template.content.querySelectorAll('*').forEach((el) => {
+    for (const attr of Array.from(el.attributes)) {
+      if (attr.value.includes('{{vx:')) {
+        el.setAttribute(attr.name, restoreTokens(attr.value, placeholders));
+      }
+    }
+  });
+  return template.innerHTML;
+}
+
+/**
+ * Rewrite operations generated against compacted HTML so they apply to the
+ * original: selectors are re-targeted at the same elements (by stable ID when
+ * available, else by position) and placeholders in values are restored.
+ * Selectors that don't resolve in the compacted HTML are left unchanged.
+ */
+export function mapOperationsToOriginal(
+  compaction: BudgetCompactionResult,
+  operations: EditOperation[]
+): EditOperation[] {
+  const parser = new DOMParser();
+  const compactedDoc = parser.parseFromString(compaction.html, 'text/html');
+  const originalDoc = parser.parseFromString(compaction.originalHtml, 'text/html');
+  const compactedElements = Array.from(compactedDoc.querySelectorAll('*'));
+  const originalElements = Array.from(originalDoc.querySelectorAll('*'));
+
+  const mapSelector = (selector: string, single: boolean): string => {
+    let matches: Element[];
+    try {
+      matches = single
+        ? [compactedDoc.querySelector(selector)].filter((el): el is Element => el !== null)
+        : Array.from(compactedDoc.querySelectorAll(selector));
+    } catch {
+      return selector;
+    }
+    if (matches.length === 0) return selector;
+
+    return matches
+      .map((el) => getStableSelector(originalElements[compaction.elementMap[compactedElements.indexOf(el)]]))
+      .join(', ');
+  };
+
+  return operations.map((operation) => {
+    const mapped = { ...operation, selector: mapSelector(operation.selector, false) } as EditOperation;
+
+    switch (mapped.type) {
+      case 'moveElement':
+        mapped.targetSelector = mapSelector(mapped.targetSelector, true);
+        break;
+      case 'insertElement':
+      case 'replaceElement':
+      case 'replaceInnerHtml':
+        mapped.html = restoreFragment(mapped.html, compaction.placeholders);
+        break;
+      case 'wrapElement':
+        mapped.wrapperHtml = restoreFragment(mapped.wrapperHtml, compaction.placeholders);
+        break;
+      case 'updateAttribute':
+        mapped.value = restoreTokens(mapped.value, compaction.placeholders);
+        break;
+      case 'updateStyle':
+        mapped.styles = Object.fromEntries(
+          Object.entries(mapped.styles).map(([property, value]) => [property, restoreTokens(value, compaction.placeholders)])
+        );
+        break;
+    }
+    return mapped;
+  });
+}
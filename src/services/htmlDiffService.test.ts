@@ -0,0 +1,134 @@
+/**
+ * Tests for htmlDiffService
+ */
+
+import { describe, it, expect } from 'vitest';
+import { annotateHtml, diffComputedStyles, diffHtml } from './htmlDiffService';
+import { assignElementIds } from './elementIdentityService';
+
+const BEFORE = `<!DOCTYPE html><html><head><title>Shop</title></head><body>
+<header><h1>Store</h1><nav><a href="/a">A</a><a href="/b">B</a></nav></header>
+<main><p class="intro">Welcome</p><ul><li>One</li><li>Two</li></ul><button class="cta" style="color: red;">Buy</button></main>
+</body></html>`;
+
+function parse(html: string): Document {
+  return new DOMParser().parseFromString(html, 'text/html');
+}
+
+function render(html: string): Document {
+  const iframe = document.createElement('iframe');
+  document.body.appendChild(iframe);
+  const doc = iframe.contentDocument!;
+  doc.open();
+  doc.write(html);
+  doc.close();
+  return doc;
+}
+
+describe('diffHtml', () => {
+  it('should report nothing for identical documents', () => {
+    const result = diffHtml(BEFORE, BEFORE);
+
+    expect(result.changes).toEqual([]);
+    expect(result.tree.hasChanges).toBe(false);
+  });
+
+  it('should report text, attribute and inline style changes', () => {
+    const after = BEFORE
+      .replace('<h1>Store</h1>', '<h1>Mega Store</h1>')
+      .replace('href="/b"', 'href="/c"')
+      .replace('style="color: red;"', 'style="color: blue; padding: 8px;"');
+
+    const { changes, stats } = diffHtml(BEFORE, after);
+
+    expect(changes).toContainEqual(expect.objectContaining({ kind: 'text', tag: 'h1', before: 'Store', after: 'Mega Store' }));
+    expect(changes).toContainEqual(expect.objectContaining({ kind: 'attribute', property: 'href', before: '/b', after: '/c' }));
+    expect(changes).toContainEqual(expect.objectContaining({ kind: 'style', property: 'color', before: 'red', after: 'blue' }));
+    expect(changes).toContainEqual(expect.objectContaining({ kind: 'style', property: 'padding', before: null, after: '8px' }));
+    expect(stats).toMatchObject({ text: 1, attribute: 1, style: 2, added: 0, removed: 0 });
+  });
+
+  it('should report added and removed elements at their positions', () => {
+    const after = BEFORE
+      .replace('<li>Two</li>', '<li>Two</li><li>Three</li>')
+      .replace('<p class="intro">Welcome</p>', '');
+
+    const { changes, tree } = diffHtml(BEFORE, after);
+
+    const added = changes.find((c) => c.kind === 'added');
+    const removed = changes.find((c) => c.kind === 'removed');
+    expect(added).toMatchObject({ tag: 'li', label: 'li "Three"', beforeSelector: null });
+    expect(parse(after).querySelector(added!.afterSelector!)?.textContent).toBe('Three');
+    expect(removed).toMatchObject({ tag: 'p', afterSelector: null });
+    expect(parse(BEFORE).querySelector(removed!.beforeSelector!)?.className).toBe('intro');
+
+    const main = tree.children.find((n) => n.tag === 'main')!;
+    expect(main.children.map((n) => `${n.tag}:${n.status}`)).toEqual(['p:removed', 'ul:unchanged', 'button:unchanged']);
+    expect(main.children[1].hasChanges).toBe(true);
+  });
+
+  it('should recognise moved elements without stable IDs', () => {
+    const after = BEFORE
+      .replace('<button class="cta" style="color: red;">Buy</button>', '')
+      .replace('<h1>Store</h1>', '<h1>Store</h1><button class="cta" style="color: red;">Buy</button>');
+
+    const { changes, stats } = diffHtml(BEFORE, after);
+
+    expect(stats).toMatchObject({ moved: 1, added: 0, removed: 0 });
+    expect(changes[0]).toMatchObject({ kind: 'moved', tag: 'button' });
+    expect(changes[0].beforeSelector).toContain('main');
+    expect(changes[0].afterSelector).toContain('header');
+  });
+
+  it('should follow stable IDs across moves and edits', () => {
+    const before = assignElementIds(BEFORE);
+    const doc = parse(before);
+    const intro = doc.querySelector('.intro')!;
+    intro.textContent = 'Hello';
+    doc.querySelector('header')!.appendChild(intro);
+    const after = `<!DOCTYPE html>${doc.documentElement.outerHTML}`;
+
+    const { changes, stats } = diffHtml(before, after);
+
+    expect(stats).toMatchObject({ moved: 1, text: 1, added: 0, removed: 0 });
+    expect(changes.find((c) => c.kind === 'text')).toMatchObject({ tag: 'p', before: 'Welcome', after: 'Hello' });
+  });
+
+  it('should compare a source screen without IDs to a variant with IDs', () => {
+    const after = assignElementIds(BEFORE.replace('Welcome', 'Hi'));
+
+    const { stats } = diffHtml(BEFORE, after);
+
+    expect(stats).toMatchObject({ text: 1, attribute: 0, added: 0, removed: 0, moved: 0 });
+  });
+});
+
+describe('annotateHtml', () => {
+  it('should outline changes on each side without changing structure', () => {
+    const after = BEFORE.replace('<h1>Store</h1>', '<h1>Mega</h1>').replace('<li>Two</li>', '');
+    const diff = diffHtml(BEFORE, after);
+
+    const annotatedBefore = parse(annotateHtml(BEFORE, diff.changes, 'before'));
+    const annotatedAfter = parse(annotateHtml(after, diff.changes, 'after'));
+
+    expect(annotatedBefore.querySelector('[data-vx-diff="removed"]')?.textContent).toBe('Two');
+    expect(annotatedAfter.querySelector('[data-vx-diff="changed"]')?.tagName).toBe('H1');
+    expect(annotatedAfter.querySelector('[data-vx-diff="removed"]')).toBeNull();
+    expect(annotatedAfter.querySelector(diff.matchedPairs[1].afterSelector)).not.toBeNull();
+  });
+});
+
+describe('diffComputedStyles', () => {
+  it('should report style changes that come from stylesheets', () => {
+    const before = BEFORE.replace('</head>', '<style>.intro { font-weight: 400; }</style></head>');
+    const after = BEFORE.replace('</head>', '<style>.intro { font-weight: 700; }</style></head>');
+    const diff = diffHtml(before, after);
+
+    const changes = diffComputedStyles(diff, render(before), render(after), ['font-weight']);
+
+    expect(diff.changes).toEqual([]);
+    expect(changes).toEqual([
+      expect.objectContaining({ kind: 'style', tag: 'p', property: 'font-weight', before: '400', after: '700', computed: true }),
+    ]);
+  });
+});
@@ -0,0 +1,525 @@
+/**
+ * HTML Diff Service
+ *
+ * Structural diff between two HTML documents (source screen vs. variant, or
+ * two iterations). Elements are matched by stable ID (data-vx-id) where both
+ * sides have one, otherwise by tag order within their parent. Reports:
+ * - Added, removed and moved elements
+ * - Text, attribute and inline style changes of matched elements
+ * - Computed style changes, once both documents are rendered (diffComputedStyles)
+ *
+ * The result is available as a flat change list, as an annotated tree and as
+ * annotated HTML for colored overlays.
+ */
+
+import { getPositionalSelector, serializeDocument } from './editOperationsService';
+import { ELEMENT_ID_ATTRIBUTE, getElementId, hasElementIds } from './elementIdentityService';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type HtmlChangeKind = 'added' | 'removed' | 'moved' | 'text' | 'attribute' | 'style';
+
+export interface HtmlChange {
+  kind: HtmlChangeKind;
+  tag: string;
+  /** Readable element description, e.g. button.cta "Buy" */
+  label: string;
+  /** Positional selector in the before document (null for added elements) */
+  beforeSelector: string | null;
+  /** Positional selector in the after document (null for removed elements) */
+  afterSelector: string | null;
+  /** Attribute name or CSS property for attribute/style changes */
+  property?: string;
+  before?: string | null;
+  after?: string | null;
+  /** Style change found in the rendered documents rather than inline styles */
+  computed?: boolean;
+}
+
+export type HtmlDiffStatus = 'unchanged' | 'added' | 'removed' | 'moved' | 'changed';
+
+export interface HtmlDiffNode {
+  tag: string;
+  label: string;
+  status: HtmlDiffStatus;
+  beforeSelector: string | null;
+  afterSelector: string | null;
+  /** Text/attribute/style changes of this element */
+  changes: HtmlChange[];
+  children: HtmlDiffNode[];
+  /** Whether this node or any descendant changed */
+  hasChanges: boolean;
+}
+
+export interface MatchedElementPair {
+  beforeSelector: string;
+  afterSelector: string;
+}
+
+export interface HtmlDiffResult {
+  changes: HtmlChange[];
+  tree: HtmlDiffNode;
+  /** Elements present on both sides, for computed style comparison */
+  matchedPairs: MatchedElementPair[];
+  stats: Record<HtmlChangeKind, number>;
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+// Never part of the visible structure
+const SKIP_TAGS = new Set(['SCRIPT', 'STYLE', 'NOSCRIPT', 'TEMPLATE']);
+
+// Marks changed elements in annotated HTML
+const DIFF_ATTRIBUTE = 'data-vx-diff';
+
+// Compared separately (style) or not meaningful to reviewers
+const IGNORED_ATTRIBUTES = new Set(['style', ELEMENT_ID_ATTRIBUTE, DIFF_ATTRIBUTE]);
+
+const MAX_LABEL_TEXT = 40;
+
+function visibleChildren(el: Element): Element[] {
+  return Array.from(el.children).filter((child) => !SKIP_TAGS.has(child.tagName));
+}
+
+function directText(el: Element): string {
+  return Array.from(el.childNodes)
+    .filter((node) => node.nodeType === Node.TEXT_NODE)
+    .map((node) => node.textContent || '')
+    .join('')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+function describe(el: Element): string {
+  const tag = el.tagName.toLowerCase();
+  const id = el.id ? `#${el.id}` : '';
+  const classes = Array.from(el.classList).slice(0, 2).map((c) => `.${c}`).join('');
+  const text = (el.textContent || '').replace(/\s+/g, ' ').trim();
+  const snippet = text.length > MAX_LABEL_TEXT ? `${text.slice(0, MAX_LABEL_TEXT)}…` : text;
+  return `${tag}${id}${classes}${snippet ? ` "${snippet}"` : ''}`;
+}
+
+function parseInlineStyle(el: Element): Map<string, string> {
+  const styles = new Map<string, string>();
+  (el.getAttribute('style') || '').split(';').forEach((declaration) => {
+    const colon = declaration.indexOf(':');
+    if (colon === -1) return;
+    const property = declaration.slice(0, colon).trim().toLowerCase();
+    const value = declaration.slice(colon + 1).trim();
+    if (property) styles.set(property, value);
+  });
+  return styles;
+}
+
+/** Outer HTML without stable IDs, for recognising moved elements without IDs */
+function signature(el: Element): string {
+  return el.outerHTML.replace(/\s+data-vx-id="[^"]*"/g, '');
+}
+
+/**
+ * Longest common subsequence of two key lists, as index pairs
+ */
+function longestCommonSubsequence(a: string[], b: string[]): Array<[number, number]> {
+  const lengths: number[][] = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i][j] = a[i] === b[j] ? lengths[i + 1][j + 1] + 1 : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const pairs: Array<[number, number]> = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      pairs.push([i, j]);
+      i++;
+      j++;
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      i++;
+    } else {
+      j++;
+    }
+  }
+  return pairs;
+}
+
+// ============================================================================
+// Diff
+// ============================================================================
+
+class HtmlDiffer {
+  readonly changes: HtmlChange[] = [];
+  readonly matchedPairs: MatchedElementPair[] = [];
+  private readonly partners = new Map<Element, Element>();
+  private readonly useIds: boolean;
+  private readonly beforeDoc: Document;
+  private readonly afterDoc: Document;
+
+  constructor(beforeDoc: Document, afterDoc: Document) {
+    this.beforeDoc = beforeDoc;
+    this.afterDoc = afterDoc;
+
+    // Stable IDs only help when both sides have them (older screens don't)
+    this.useIds = hasElementIds(beforeDoc) && hasElementIds(afterDoc);
+    if (!this.useIds) return;
+
+    // Elements with the same stable ID on both sides are the same element
+    const beforeById = new Map<string, Element>();
+    beforeDoc.querySelectorAll(`[${ELEMENT_ID_ATTRIBUTE}]`).forEach((el) => beforeById.set(getElementId(el)!, el));
+    afterDoc.querySelectorAll(`[${ELEMENT_ID_ATTRIBUTE}]`).forEach((el) => {
+      const partner = beforeById.get(getElementId(el)!);
+      if (partner) {
+        this.partners.set(partner, el);
+        this.partners.set(el, partner);
+      }
+    });
+  }
+
+  private change(kind: HtmlChangeKind, el: Element, side: 'before' | 'after', partner: Element | null, extra: Partial<HtmlChange> = {}): HtmlChange {
+    const beforeEl = side === 'before' ? el : partner;
+    const afterEl = side === 'after' ? el : partner;
+    const change: HtmlChange = {
+      kind,
+      tag: el.tagName.toLowerCase(),
+      label: describe(el),
+      beforeSelector: beforeEl ? getPositionalSelector(beforeEl) : null,
+      afterSelector: afterEl ? getPositionalSelector(afterEl) : null,
+      ...extra,
+    };
+    this.changes.push(change);
+    return change;
+  }
+
+  /**
+   * Compare a matched pair and their subtrees
+   */
+  diffPair(before: Element, after: Element, status: HtmlDiffStatus = 'unchanged'): HtmlDiffNode {
+    this.matchedPairs.push({ beforeSelector: getPositionalSelector(before), afterSelector: getPositionalSelector(after) });
+
+    const changes: HtmlChange[] = [];
+    const beforeText = directText(before);
+    const afterText = directText(after);
+    if (beforeText !== afterText) {
+      changes.push(this.change('text', after, 'after', before, { before: beforeText, after: afterText }));
+    }
+
+    const attributeNames = new Set([...before.getAttributeNames(), ...after.getAttributeNames()]);
+    attributeNames.forEach((name) => {
+      if (IGNORED_ATTRIBUTES.has(name)) return;
+      const beforeValue = before.getAttribute(name);
+      const afterValue = after.getAttribute(name);
+      if (beforeValue !== afterValue) {
+        changes.push(this.change('attribute', after, 'after', before, { property: name, before: beforeValue, after: afterValue }));
+      }
+    });
+
+    const beforeStyles = parseInlineStyle(before);
+    const afterStyles = parseInlineStyle(after);
+    new Set([...beforeStyles.keys(), ...afterStyles.keys()]).forEach((property) => {
+      const beforeValue = beforeStyles.get(property) ?? null;
+      const afterValue = afterStyles.get(property) ?? null;
+      if (beforeValue !== afterValue) {
+        changes.push(this.change('style', after, 'after', before, { property, before: beforeValue, after: afterValue }));
+      }
+    });
+
+    const children = this.diffChildren(before, after);
+    const nodeStatus = status === 'unchanged' && changes.length > 0 ? 'changed' : status;
+
+    return {
+      tag: after.tagName.toLowerCase(),
+      label: describe(after),
+      status: nodeStatus,
+      beforeSelector: getPositionalSelector(before),
+      afterSelector: getPositionalSelector(after),
+      changes,
+      children,
+      hasChanges: nodeStatus !== 'unchanged' || children.some((child) => child.hasChanges),
+    };
+  }
+
+  private diffChildren(before: Element, after: Element): HtmlDiffNode[] {
+    const beforeChildren = visibleChildren(before);
+    const afterChildren = visibleChildren(after);
+
+    // Children whose partner sits in the same parent can be matched in order;
+    // anything else is compared by tag
+    const key = (el: Element, siblings: Element[]) => {
+      const partner = this.partners.get(el);
+      if (partner) return siblings.includes(partner) ? `id:${getElementId(el)}` : `moved:${getElementId(el)}`;
+      if (this.useIds && getElementId(el)) return `only:${getElementId(el)}`;
+      return `tag:${el.tagName}`;
+    };
+    const pairs = longestCommonSubsequence(
+      beforeChildren.map((el) => key(el, afterChildren)),
+      afterChildren.map((el) => key(el, beforeChildren))
+    ).filter(([i]) => !key(beforeChildren[i], afterChildren).startsWith('moved:'));
+
+    const matchedBefore = new Map(pairs.map(([i, j]) => [i, j]));
+    const matchedAfter = new Map(pairs.map(([i, j]) => [j, i]));
+
+    // Walk the after children, slotting removed elements in at their old position
+    const nodes: HtmlDiffNode[] = [];
+    let nextBefore = 0;
+    const flushRemoved = (upTo: number) => {
+      for (; nextBefore < upTo; nextBefore++) {
+        if (matchedBefore.has(nextBefore)) continue;
+        const removed = beforeChildren[nextBefore];
+        // Moved elsewhere - reported where it ended up
+        if (this.partners.has(removed)) continue;
+        nodes.push(this.removedNode(removed));
+      }
+    };
+
+    afterChildren.forEach((child, j) => {
+      const i = matchedAfter.get(j);
+      if (i !== undefined) {
+        flushRemoved(i);
+        nextBefore = i + 1;
+        nodes.push(this.diffPair(beforeChildren[i], child));
+        return;
+      }
+
+      const partner = this.partners.get(child);
+      nodes.push(partner ? this.movedNode(partner, child) : this.addedNode(child));
+    });
+    flushRemoved(beforeChildren.length);
+
+    return nodes;
+  }
+
+  private movedNode(before: Element, after: Element): HtmlDiffNode {
+    const change = this.change('moved', after, 'after', before);
+    const node = this.diffPair(before, after, 'moved');
+    return { ...node, changes: [change, ...node.changes] };
+  }
+
+  private addedNode(el: Element): HtmlDiffNode {
+    const change = this.change('added', el, 'after', null);
+    return {
+      tag: el.tagName.toLowerCase(),
+      label: change.label,
+      status: 'added',
+      beforeSelector: null,
+      afterSelector: change.afterSelector,
+      changes: [change],
+      // Existing elements may have been moved into the new one
+      children: this.movedInto(el),
+      hasChanges: true,
+    };
+  }
+
+  private removedNode(el: Element): HtmlDiffNode {
+    const change = this.change('removed', el, 'before', null);
+    return {
+      tag: el.tagName.toLowerCase(),
+      label: change.label,
+      status: 'removed',
+      beforeSelector: change.beforeSelector,
+      afterSelector: null,
+      changes: [change],
+      children: [],
+      hasChanges: true,
+    };
+  }
+
+  private movedInto(el: Element): HtmlDiffNode[] {
+    return visibleChildren(el).flatMap((child) => {
+      const partner = this.partners.get(child);
+      return partner ? [this.movedNode(partner, child)] : this.movedInto(child);
+    });
+  }
+
+  /**
+   * Elements without stable IDs that were removed in one place and added
+   * unchanged in another were moved
+   */
+  pairUpMoves(tree: HtmlDiffNode): void {
+    const removed = this.changes.filter((c) => c.kind === 'removed');
+    const added = this.changes.filter((c) => c.kind === 'added');
+    if (removed.length === 0 || added.length === 0) return;
+
+    const nodes: HtmlDiffNode[] = [];
+    const collect = (node: HtmlDiffNode) => {
+      nodes.push(node);
+      node.children.forEach(collect);
+    };
+    collect(tree);
+
+    for (const addedChange of added) {
+      const addedNode = nodes.find((n) => n.status === 'added' && n.afterSelector === addedChange.afterSelector);
+      const addedEl = addedNode && this.afterDoc.querySelector(addedChange.afterSelector!);
+      if (!addedNode || !addedEl) continue;
+
+      const match = removed.find((r) => {
+        const removedEl = this.beforeDoc.querySelector(r.beforeSelector!);
+        return removedEl && signature(removedEl) === signature(addedEl);
+      });
+      if (!match) continue;
+
+      removed.splice(removed.indexOf(match), 1);
+      this.changes.splice(this.changes.indexOf(match), 1);
+      addedChange.kind = 'moved';
+      addedChange.beforeSelector = match.beforeSelector;
+      addedNode.status = 'moved';
+      addedNode.beforeSelector = match.beforeSelector;
+
+      // Drop the removed placeholder from the tree
+      const prune = (node: HtmlDiffNode) => {
+        node.children = node.children.filter((child) => !(child.status === 'removed' && child.beforeSelector === match.beforeSelector));
+        node.children.forEach(prune);
+      };
+      prune(tree);
+    }
+  }
+}
+
+/**
+ * Structural diff of two HTML documents
+ */
+export function diffHtml(beforeHtml: string, afterHtml: string): HtmlDiffResult {
+  const parser = new DOMParser();
+  const before = parser.parseFromString(beforeHtml, 'text/html');
+  const after = parser.parseFromString(afterHtml, 'text/html');
+
+  const differ = new HtmlDiffer(before, after);
+
+  const tree = differ.diffPair(before.body, after.body);
+  differ.pairUpMoves(tree);
+
+  const stats: Record<HtmlChangeKind, number> = { added: 0, removed: 0, moved: 0, text: 0, attribute: 0, style: 0 };
+  differ.changes.forEach((change) => stats[change.kind]++);
+
+  return {
+    changes: differ.changes,
+    tree,
+    matchedPairs: differ.matchedPairs,
+    stats,
+  };
+}
+
+// ============================================================================
+// Rendering
+// ============================================================================
+
+// Styling properties compared in rendered documents. Layout sizes are left
+// out - they shift whenever any content changes.
+export const COMPUTED_STYLE_PROPERTIES = [
+  'color',
+  'background-color',
+  'font-family',
+  'font-size',
+  'font-weight',
+  'line-height',
+  'text-align',
+  'text-decoration-line',
+  'display',
+  'visibility',
+  'opacity',
+  'margin',
+  'padding',
+  'border-color',
+  'border-width',
+  'border-radius',
+  'gap',
+  'flex-direction',
+  'justify-content',
+  'align-items',
+];
+
+const MAX_COMPUTED_PAIRS = 400;
+
+/**
+ * Compare computed styles of matched elements in the rendered documents
+ * (e.g. iframes showing annotateHtml output). Inline style changes already
+ * in the diff are not repeated.
+ */
+export function diffComputedStyles(
+  diff: HtmlDiffResult,
+  beforeDoc: Document,
+  afterDoc: Document,
+  properties: string[] = COMPUTED_STYLE_PROPERTIES
+): HtmlChange[] {
+  const beforeView = beforeDoc.defaultView;
+  const afterView = afterDoc.defaultView;
+  if (!beforeView || !afterView) return [];
+
+  const known = new Set(
+    diff.changes.filter((c) => c.kind === 'style').map((c) => `${c.afterSelector}|${c.property}`)
+  );
+
+  const changes: HtmlChange[] = [];
+  for (const pair of diff.matchedPairs.slice(0, MAX_COMPUTED_PAIRS)) {
+    const before = beforeDoc.querySelector(pair.beforeSelector);
+    const after = afterDoc.querySelector(pair.afterSelector);
+    if (!before || !after) continue;
+
+    const beforeStyle = beforeView.getComputedStyle(before);
+    const afterStyle = afterView.getComputedStyle(after);
+    for (const property of properties) {
+      const beforeValue = beforeStyle.getPropertyValue(property);
+      const afterValue = afterStyle.getPropertyValue(property);
+      if (beforeValue === afterValue || known.has(`${pair.afterSelector}|${property}`)) continue;
+
+      changes.push({
+        kind: 'style',
+        tag: after.tagName.toLowerCase(),
+        label: describe(after),
+        beforeSelector: pair.beforeSelector,
+        afterSelector: pair.afterSelector,
+        property,
+        before: beforeValue,
+        after: afterValue,
+        computed: true,
+      });
+    }
+  }
+
+  return changes;
+}
+
+const OVERLAY_STYLES = `
+[${DIFF_ATTRIBUTE}] { outline-offset: 2px !important; }
+[${DIFF_ATTRIBUTE}="added"] { outline: 2px solid #2e7d32 !important; }
+[${DIFF_ATTRIBUTE}="removed"] { outline: 2px dashed #d32f2f !important; }
+[${DIFF_ATTRIBUTE}="moved"] { outline: 2px dashed #1976d2 !important; }
+[${DIFF_ATTRIBUTE}="changed"] { outline: 2px solid #ed6c02 !important; }
+`;
+
+/**
+ * Mark changed elements of one side with colored outlines.
+ * Only attributes and a style element are added, so positional selectors
+ * from the diff still resolve in the annotated document.
+ */
+export function annotateHtml(html: string, changes: HtmlChange[], side: 'before' | 'after'): string {
+  const doc = new DOMParser().parseFromString(html, 'text/html');
+
+  const mark = (selector: string | null, status: HtmlDiffStatus) => {
+    const el = selector ? doc.querySelector(selector) : null;
+    // Structural markers win over property changes
+    if (el && (status !== 'changed' || !el.hasAttribute(DIFF_ATTRIBUTE))) {
+      el.setAttribute(DIFF_ATTRIBUTE, status);
+    }
+  };
+
+  for (const change of changes) {
+    const selector = side === 'before' ? change.beforeSelector : change.afterSelector;
+    if (change.kind === 'added' || change.kind === 'removed' || change.kind === 'moved') {
+      mark(selector, change.kind);
+    } else {
+      mark(selector, 'changed');
+    }
+  }
+
+  const style = doc.createElement('style');
+  style.setAttribute(DIFF_ATTRIBUTE, 'styles');
+  style.textContent = OVERLAY_STYLES;
+  doc.head.appendChild(style);
+
+  return serializeDocument(doc);
+}
@@ -6,11 +6,14 @@
 import { supabase } from './supabase';
 import {
   analyzeForInjections,
-  injectRuntime
+  injectRuntime,
+  planMockBackend
 } from './injections';
 import type {
   InjectionConfig,
   AnalysisResult,
+  MockBinding,
+  FlowRuntimeConfig,
   RuntimeOptions
 } from './injections';
 
@@ -21,8 +24,10 @@ import type {
 export interface EnhancePrototypeOptions {
   /** User intent for LLM to consider */
   userIntent?: string;
-  /** Enable mock data population */
+  /** Back tables and forms with a stateful mock API */
   enableMockData?: boolean;
+  /** Keeps mock data apart per prototype; defaults to a hash of the HTML */
+  mockStorageKey?: string;
   /** Enable interaction tracking/analytics */
   enableAnalytics?: boolean;
   /** LLM provider (anthropic or openai) */
@@ -174,6 +179,32 @@ function generateDefaultInjections(analysis: AnalysisResult): InjectionConfig[]
   return injections;
 }
 
+/**
+ * Point form submissions and tables at their mock backend collections
+ */
+function bindInjectionsToMockBackend(
+  injections: InjectionConfig[],
+  bindings: MockBinding[]
+): InjectionConfig[] {
+  const bound = injections.map(injection => {
+    const binding = bindings.find(b => b.kind === 'form' && b.selector === injection.selector);
+    return binding && injection.type === 'form-submit'
+      ? { ...injection, options: { ...injection.options, collection: binding.collection } }
+      : injection;
+  });
+
+  const dataBindings: InjectionConfig[] = bindings
+    .filter(b => b.kind !== 'form')
+    .map((binding, i) => ({
+      id: `mock-${i + 1}`,
+      type: 'data-populate',
+      selector: binding.selector,
+      options: { collection: binding.collection, bindAs: binding.kind === 'detail' ? 'detail' : 'list' }
+    }));
+
+  return [...dataBindings, ...bound];
+}
+
 // ============================================================================
 // Main Functions
 // ============================================================================
@@ -268,6 +299,15 @@ export async function enhancePrototype(
     enableAnalytics: options.enableAnalytics || false
   };
 
+  if (options.enableMockData) {
+    const plan = planMockBackend(html, analysis, options.mockStorageKey);
+    if (plan.backend.collections.length > 0) {
+      injections = bindInjectionsToMockBackend(injections, plan.bindings);
+      runtimeOptions.mockBackend = plan.backend;
+      summary += `, backed by ${plan.backend.collections.length} mock collection(s)`;
+    }
+  }
+
   const enhancedHtml = injectRuntime(html, injections, runtimeOptions);
 
   return {
@@ -279,12 +319,31 @@ export async function enhancePrototype(
 }
 
 /**
- * Quick enhance - add basic interactivity without LLM
+ * Quick enhance - add basic interactivity without LLM.
+ * Tables and forms share a mock backend unless mockData is false.
  */
-export function quickEnhance(html: string): string {
+export function quickEnhance(
+  html: string,
+  options: {
+    mockData?: boolean;
+    /** Share mock data between prototypes, e.g. the screens of a flow */
+    mockStorageKey?: string;
+    flow?: FlowRuntimeConfig;
+  } = {}
+): string {
   const analysis = analyzeForInjections(html);
-  const injections = generateDefaultInjections(analysis);
-  return injectRuntime(html, injections, { enableLogging: false });
+  let injections = generateDefaultInjections(analysis);
+  const runtimeOptions: RuntimeOptions = { enableLogging: false, flow: options.flow };
+
+  if (options.mockData !== false) {
+    const plan = planMockBackend(html, analysis, options.mockStorageKey);
+    if (plan.backend.collections.length > 0) {
+      injections = bindInjectionsToMockBackend(injections, plan.bindings);
+      runtimeOptions.mockBackend = plan.backend;
+    }
+  }
+
+  return injectRuntime(html, injections, runtimeOptions);
 }
 
 /**
@@ -3,6 +3,8 @@
  * Analyzes HTML to find injection points for interactivity
  */
 
+import { elementIdSelector, getElementId } from '../elementIdentityService';
+
 export interface InjectionPoint {
   id: string;
   type: InjectionPointType;
@@ -50,7 +52,13 @@ export interface AnalysisResult {
  * Generate a unique selector for an element
  */
 function generateSelector(element: Element, index: number): string {
-  // Try ID first
+  // Stable element ID survives edits to the rest of the page
+  const elementId = getElementId(element);
+  if (elementId) {
+    return elementIdSelector(elementId);
+  }
+
+  // Try ID
   if (element.id) {
     return `#${element.id}`;
   }
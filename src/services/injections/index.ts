@@ -5,6 +5,11 @@
  * - DOM analysis to find injection points
  * - Injection compilation to generate runtime scripts
  * - Mock data generation for realistic content
+ * - Schema inference from the prototype's own content
+ * - Stateful mock backend answering fetch/XHR inside the prototype
+ * - Hotspot navigation between the screens of a flow
+ * - Usability-test tasks with success criteria
+ * - Batched interaction events for heatmaps
  * - Runtime execution in sandboxed iframes
  */
 
@@ -13,9 +18,13 @@ export * from './domAnalyzer';
 export * from './injectionCompiler';
 export * from './prototypeRuntime';
 export * from './mockDataGenerator';
+export * from './mockBackend';
+export * from './schemaInference';
 
 // Re-export main functions for convenience
 export { analyzeForInjections, getAnalysisSummaryForLLM } from './domAnalyzer';
 export { compileInjections, compileInjection, INJECTION_TYPES } from './injectionCompiler';
-export { injectRuntime, injectRuntimeCore, createMessageHandler, createRuntimeController } from './prototypeRuntime';
+export { injectRuntime, injectRuntimeCore, createMessageHandler, createRuntimeController, compileFlowRuntime, compileUsabilityRuntime, compileInteractionRecorder } from './prototypeRuntime';
 export { generateFromPreset, generateRows, populateTable, getAvailablePresets, PREDEFINED_SCHEMAS } from './mockDataGenerator';
+export { compileMockBackend, planMockBackend, createMockCollection } from './mockBackend';
+export { inferSchemas, generateLikeSamples, extendTable } from './schemaInference';
@@ -3,6 +3,8 @@
  * Compiles injection configurations into executable JavaScript
  */
 
+import { DEFAULT_REFERENCE_DATE, seedFromString } from './mockDataGenerator';
+
 // ============================================================================
 // Types
 // ============================================================================
@@ -64,6 +66,12 @@ export interface InjectionOptions {
   dataType?: string;
   dataSchema?: Record<string, string>;
   dataCount?: number;
+  /** Mock backend collection that forms write to and data elements render */
+  collection?: string;
+  /** Render the collection as rows/items, or one record's [data-field] slots */
+  bindAs?: 'list' | 'detail';
+  /** Seed for generated values (default: the injection id) */
+  seed?: number | string;
 
   // State
   toggleClass?: string;
@@ -341,12 +349,23 @@ function compileFormSubmit(config: InjectionConfig): string {
   const successMsg = options.successMessage || 'Form submitted successfully!';
   const errorMsg = options.errorMessage || 'Please fix the errors and try again.';
   const resetAfter = options.resetAfterSubmit !== false;
+  const collection = options.collection ? JSON.stringify(options.collection) : 'null';
 
   return `
 // Form Submit: ${config.id}
 (function() {
   const form = document.querySelector('${selector}');
   if (!form) return;
+  const collection = ${collection};
+  // Keeps the backend's own data-voxel-collection handler off this form
+  if (collection) form.__voxelMockBound = true;
+
+  // Store the submitted values in the mock backend, when there is one
+  function save(form) {
+    if (collection && window.VoxelMockBackend) {
+      window.VoxelMockBackend.submitForm(form, collection);
+    }
+  }
 
   form.addEventListener('submit', function(e) {
     e.preventDefault();
@@ -368,10 +387,12 @@ function compileFormSubmit(config: InjectionConfig): string {
       setTimeout(() => {
         submitBtn.textContent = originalText;
         submitBtn.disabled = false;
+        save(this);
         VoxelRuntime.showToast('${successMsg}', 'success');
         ${resetAfter ? 'this.reset();' : ''}
       }, 1000);
     } else {
+      save(this);
       VoxelRuntime.showToast('${successMsg}', 'success');
       ${resetAfter ? 'this.reset();' : ''}
     }
@@ -667,6 +688,20 @@ function compileDataPopulate(config: InjectionConfig): string {
   const dataType = options.dataType || 'text';
   const schema = options.dataSchema || {};
   const count = options.dataCount || 5;
+  const seed = seedFromString(String(options.seed ?? config.id));
+
+  if (options.collection) {
+    const method = options.bindAs === 'detail' ? 'bindDetail' : 'bindList';
+    return `
+// Data Populate: ${config.id} (collection ${options.collection})
+(function() {
+  if (!window.VoxelMockBackend) return;
+  document.querySelectorAll('${selector}').forEach(el => {
+    window.VoxelMockBackend.${method}(el, ${JSON.stringify(options.collection)});
+  });
+})();
+`;
+  }
 
   return `
 // Data Populate: ${config.id}
@@ -675,16 +710,25 @@ function compileDataPopulate(config: InjectionConfig): string {
   const schema = ${JSON.stringify(schema)};
   const count = ${count};
 
+  // Seeded PRNG (mulberry32) so every load shows the same values
+  let state = ${seed};
+  function random() {
+    state = (state + 0x6D2B79F5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  }
+
   // Mock data generators
   const generators = {
-    name: () => ['John Smith', 'Jane Doe', 'Bob Johnson', 'Alice Williams', 'Charlie Brown'][Math.floor(Math.random() * 5)],
-    email: () => \`user\${Math.floor(Math.random() * 1000)}@example.com\`,
-    phone: () => \`+1 (\${Math.floor(Math.random() * 900) + 100}) \${Math.floor(Math.random() * 900) + 100}-\${Math.floor(Math.random() * 9000) + 1000}\`,
-    date: () => new Date(Date.now() - Math.random() * 365 * 24 * 60 * 60 * 1000).toLocaleDateString(),
-    number: () => Math.floor(Math.random() * 10000),
-    price: () => '$' + (Math.random() * 1000).toFixed(2),
-    status: () => ['Active', 'Pending', 'Completed', 'Cancelled'][Math.floor(Math.random() * 4)],
-    company: () => ['Acme Inc', 'TechCorp', 'DataFlow', 'CloudBase', 'NetSoft'][Math.floor(Math.random() * 5)],
+    name: () => ['John Smith', 'Jane Doe', 'Bob Johnson', 'Alice Williams', 'Charlie Brown'][Math.floor(random() * 5)],
+    email: () => \`user\${Math.floor(random() * 1000)}@example.com\`,
+    phone: () => \`+1 (\${Math.floor(random() * 900) + 100}) \${Math.floor(random() * 900) + 100}-\${Math.floor(random() * 9000) + 1000}\`,
+    date: () => new Date(${DEFAULT_REFERENCE_DATE.getTime()} - random() * 365 * 24 * 60 * 60 * 1000).toLocaleDateString(undefined, { timeZone: 'UTC' }),
+    number: () => Math.floor(random() * 10000),
+    price: () => '$' + (random() * 1000).toFixed(2),
+    status: () => ['Active', 'Pending', 'Completed', 'Cancelled'][Math.floor(random() * 4)],
+    company: () => ['Acme Inc', 'TechCorp', 'DataFlow', 'CloudBase', 'NetSoft'][Math.floor(random() * 5)],
     text: () => 'Lorem ipsum dolor sit amet consectetur adipiscing elit.'
   };
 
@@ -0,0 +1,185 @@
+/**
+ * Tests for mockBackend, running the compiled runtime in jsdom
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { analyzeForInjections } from './domAnalyzer';
+import {
+  compileMockBackend,
+  createMockCollection,
+  planMockBackend,
+  type MockBackendConfig,
+} from './mockBackend';
+
+interface RuntimeBackend {
+  data: Record<string, Record<string, unknown>[]>;
+  create: (collection: string, values: Record<string, unknown>) => Record<string, unknown>;
+  bindList: (el: Element, collection: string) => void;
+  reset: () => void;
+}
+
+const USERS_TABLE = `
+  <table id="users">
+    <thead><tr><th>Name</th><th>Email</th><th>Status</th><th></th></tr></thead>
+    <tbody>
+      <tr><td><strong>Ada Lovelace</strong></td><td>ada@example.com</td><td><span class="badge">Active</span></td><td><button>Delete</button></td></tr>
+      <tr><td><strong>Alan Turing</strong></td><td>alan@example.com</td><td><span class="badge muted">Inactive</span></td><td><button>Delete</button></td></tr>
+    </tbody>
+  </table>
+`;
+
+const CONFIG: MockBackendConfig = {
+  storageKey: 'test',
+  latency: 0,
+  collections: [
+    createMockCollection('users', 'users', {
+      seed: [
+        { name: 'Ada Lovelace', email: 'ada@example.com', status: 'Active' },
+        { name: 'Alan Turing', email: 'alan@example.com', status: 'Inactive' },
+      ],
+    }),
+  ],
+};
+
+const originalFetch = window.fetch;
+const { open, send, setRequestHeader } = XMLHttpRequest.prototype;
+
+function loadBackend(config: MockBackendConfig = CONFIG): RuntimeBackend {
+  new Function(compileMockBackend(config))();
+  return (window as unknown as { VoxelMockBackend: RuntimeBackend }).VoxelMockBackend;
+}
+
+async function request(url: string, init?: RequestInit) {
+  const response = await window.fetch(url, init);
+  return { status: response.status, body: await response.json() };
+}
+
+beforeEach(() => {
+  localStorage.clear();
+  document.body.innerHTML = '';
+});
+
+afterEach(() => {
+  window.fetch = originalFetch;
+  Object.assign(XMLHttpRequest.prototype, { open, send, setRequestHeader });
+});
+
+describe('planMockBackend', () => {
+  it('should seed collections from table rows and bind matching forms', () => {
+    const html = `<body>${USERS_TABLE}<form id="add-user"><input name="name"><input name="email"><button type="submit">Add</button></form></body>`;
+
+    const plan = planMockBackend(html, analyzeForInjections(html), 'proto-1');
+
+    expect(plan.backend.storageKey).toBe('proto-1');
+    expect(plan.backend.collections).toHaveLength(1);
+    expect(plan.backend.collections[0].name).toBe('users');
+    expect(plan.backend.collections[0].seed).toEqual([
+      { name: 'Ada Lovelace', email: 'ada@example.com', status: 'Active' },
+      { name: 'Alan Turing', email: 'alan@example.com', status: 'Inactive' },
+    ]);
+    expect(plan.bindings).toEqual([
+      { selector: '#users', collection: 'users', kind: 'list' },
+      { selector: '#add-user', collection: 'users', kind: 'form' },
+    ]);
+  });
+
+  it('should declare nothing for pages without tables', () => {
+    const html = '<body><form><input name="q"></form></body>';
+
+    expect(planMockBackend(html, analyzeForInjections(html)).backend.collections).toEqual([]);
+  });
+});
+
+describe('mock backend runtime', () => {
+  it('should serve REST requests and persist writes across reloads', async () => {
+    loadBackend();
+
+    const created = await request('/api/users', {
+      method: 'POST',
+      body: JSON.stringify({ 'Full Name': 'Grace Hopper', email: 'grace@example.com' }),
+    });
+    expect(created.status).toBe(201);
+    expect(created.body).toMatchObject({ id: '3', name: 'Grace Hopper', status: 'Active' });
+
+    await request('/api/users/1', { method: 'DELETE' });
+    await request('/api/users/2', { method: 'PATCH', body: JSON.stringify({ status: 'Active' }) });
+
+    // A navigation reloads the page and the runtime with it
+    loadBackend();
+    const list = await request('/api/users?status=active');
+    expect(list.body.map((u: { name: string }) => u.name)).toEqual(['Grace Hopper', 'Alan Turing']);
+    expect((await request('/api/users/1')).status).toBe(404);
+  });
+
+  it('should restore seed data on reset', async () => {
+    const backend = loadBackend();
+    backend.create('users', { name: 'Temp' });
+
+    backend.reset();
+
+    expect(backend.data.users).toHaveLength(2);
+    expect(localStorage.getItem('voxel-mock:test')).toBeNull();
+  });
+
+  it('should answer GraphQL queries and mutations', async () => {
+    loadBackend();
+    const graphql = (query: string, variables = {}) =>
+      request('/graphql', { method: 'POST', body: JSON.stringify({ query, variables }) });
+
+    const created = await graphql(
+      'mutation AddUser($input: UserInput!) { createUser(input: $input) { id name } }',
+      { input: { name: 'Grace Hopper' } }
+    );
+    expect(created.body).toEqual({ data: { createUser: { id: '3', name: 'Grace Hopper' } } });
+
+    const queried = await graphql('{ users { name } first: user(id: "1") { email } }');
+    expect(queried.body.data.users).toHaveLength(3);
+    expect(queried.body.data.first).toEqual({ email: 'ada@example.com' });
+
+    const failed = await graphql('{ invoices { id } }');
+    expect(failed.body.errors[0].message).toBe('Unknown field: invoices');
+  });
+
+  it('should answer XMLHttpRequest calls', async () => {
+    loadBackend();
+
+    const xhr = new XMLHttpRequest();
+    const loaded = new Promise(resolve => xhr.addEventListener('load', resolve));
+    xhr.open('GET', '/api/users/2');
+    xhr.send();
+    await loaded;
+
+    expect(xhr.status).toBe(200);
+    expect(JSON.parse(xhr.responseText).name).toBe('Alan Turing');
+  });
+
+  it('should pass other requests through to the network', async () => {
+    const networkFetch = vi.fn().mockResolvedValue(new Response('{}'));
+    window.fetch = networkFetch;
+    loadBackend();
+
+    await window.fetch('/api/invoices');
+    await window.fetch('https://cdn.example.com/data.json');
+
+    expect(networkFetch).toHaveBeenCalledTimes(2);
+  });
+
+  it('should re-render bound tables and delete rows from their controls', () => {
+    document.body.innerHTML = USERS_TABLE;
+    const backend = loadBackend();
+    const table = document.getElementById('users')!;
+    backend.bindList(table, 'users');
+
+    backend.create('users', { name: 'Grace Hopper', email: 'grace@example.com' });
+
+    const rows = () => Array.from(table.querySelectorAll('tbody tr'));
+    expect(rows()).toHaveLength(3);
+    expect(rows()[0].querySelector('strong')?.textContent).toBe('Grace Hopper');
+    expect(rows()[2].querySelector('.badge')?.className).toBe('badge muted');
+
+    rows()[1].querySelector('button')!.click();
+
+    expect(rows().map(r => r.getAttribute('data-voxel-record'))).toEqual(['3', '2']);
+    expect(backend.data.users).toHaveLength(2);
+  });
+});
@@ -0,0 +1,831 @@
+/**
+ * Mock Backend Service
+ * Stateful fake REST/GraphQL API that runs inside the prototype iframe
+ *
+ * Collections are declared from DataSchemas and persisted in the iframe's
+ * localStorage. fetch and XMLHttpRequest calls to the API are answered from
+ * that store, so forms create rows, bound tables re-render and deletes stick
+ * across page navigations.
+ *
+ * REST:    GET|POST {basePath}/{collection}, GET|PUT|PATCH|DELETE {basePath}/{collection}/{id}
+ * GraphQL: users, user(id), createUser(input), updateUser(id, input), deleteUser(id)
+ * Markup:  data-voxel-collection (lists, tables, forms), data-voxel-detail,
+ *          data-voxel-action="delete" inside a rendered row
+ */
+
+import { generateRows, matchField, seedFromString, PREDEFINED_SCHEMAS } from './mockDataGenerator';
+import { inferTableSchema } from './schemaInference';
+import type { DataSchema, DataFieldType, GeneratedRow, GenerateOptions, MockDataLocale } from './mockDataGenerator';
+import type { AnalysisResult } from './domAnalyzer';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface MockCollection {
+  /** REST path segment and GraphQL field name, e.g. "users" */
+  name: string;
+  schema: DataSchema;
+  /** Initial rows; generated from the schema when omitted */
+  seed?: GeneratedRow[];
+  /** Number of rows to generate when there is no seed */
+  count?: number;
+}
+
+export interface MockBackendConfig {
+  /** Namespaces the persisted data, e.g. per prototype */
+  storageKey: string;
+  collections: MockCollection[];
+  /** REST base path (default /api) */
+  basePath?: string;
+  /** GraphQL endpoint (default /graphql) */
+  graphqlPath?: string;
+  /** Simulated network latency in ms */
+  latency?: number;
+  /** Seed for generated rows (default: storageKey) */
+  seed?: number | string;
+  /** Locale for generated rows */
+  locale?: MockDataLocale;
+}
+
+export type MockRecord = GeneratedRow & { id: string };
+
+export interface MockBinding {
+  selector: string;
+  collection: string;
+  kind: 'form' | 'list' | 'detail';
+}
+
+export interface MockBackendPlan {
+  backend: MockBackendConfig;
+  bindings: MockBinding[];
+}
+
+interface RuntimeCollection {
+  fields: { name: string; type: DataFieldType; values?: string[] }[];
+  records: MockRecord[];
+}
+
+export const MOCK_API_BASE_PATH = '/api';
+export const MOCK_GRAPHQL_PATH = '/graphql';
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Short, stable hash for storage keys
+ */
+export function hashString(value: string): string {
+  return seedFromString(value).toString(36);
+}
+
+/**
+ * Declare a collection from a schema or a PREDEFINED_SCHEMAS preset name
+ */
+export function createMockCollection(
+  name: string,
+  schema: DataSchema | string,
+  options: { seed?: GeneratedRow[]; count?: number } = {}
+): MockCollection {
+  const resolved = typeof schema === 'string' ? PREDEFINED_SCHEMAS[schema] : schema;
+  if (!resolved) {
+    throw new Error(`Unknown mock data preset: ${schema}`);
+  }
+  return { name, schema: resolved, ...options };
+}
+
+/**
+ * Initial records of a collection, with string ids. Generated rows are
+ * seeded, so they are the same on every compile.
+ */
+export function seedRecords(collection: MockCollection, options: GenerateOptions = {}): MockRecord[] {
+  const rows = collection.seed ?? generateRows(collection.schema, collection.count ?? 10, options);
+  return rows.map((row, i) => ({ ...row, id: String(row.id ?? i + 1) }));
+}
+
+// ============================================================================
+// Runtime
+// ============================================================================
+
+const MOCK_BACKEND_RUNTIME = `
+// Voxel Mock Backend
+(function(window) {
+  'use strict';
+
+  const config = __VOXEL_MOCK_CONFIG__;
+  const seed = __VOXEL_MOCK_SEED__;
+  const storageKey = 'voxel-mock:' + config.storageKey;
+
+  function getStorage() {
+    try {
+      const storage = window.localStorage;
+      storage.getItem(storageKey);
+      return storage;
+    } catch (e) {
+      // Sandboxed iframes without same-origin access keep data in memory
+      return null;
+    }
+  }
+
+  function clone(value) {
+    return JSON.parse(JSON.stringify(value));
+  }
+
+  function normalize(name) {
+    return String(name).toLowerCase().replace(/[^a-z0-9]/g, '');
+  }
+
+  function matchField(label, fields) {
+    const key = normalize(label);
+    if (!key) return null;
+    const exact = fields.find(f => normalize(f) === key);
+    if (exact) return exact;
+    return fields.find(f => {
+      const field = normalize(f);
+      return field.length >= 3 && key.length >= 3 && (key.includes(field) || field.includes(key));
+    }) || null;
+  }
+
+  function singular(name) {
+    if (name.endsWith('ies')) return name.slice(0, -3) + 'y';
+    if (name.endsWith('s')) return name.slice(0, -1);
+    return name;
+  }
+
+  function setText(node, value) {
+    const text = value === undefined || value === null ? '' : String(value);
+    const leaf = Array.from(node.querySelectorAll('*')).find(el => el.children.length === 0 && el.textContent.trim());
+    if (leaf) {
+      leaf.textContent = text;
+      return;
+    }
+    const walker = document.createTreeWalker(node, NodeFilter.SHOW_TEXT);
+    while (walker.nextNode()) {
+      if (walker.currentNode.nodeValue.trim()) {
+        walker.currentNode.nodeValue = text;
+        return;
+      }
+    }
+    node.textContent = text;
+  }
+
+  function findClosing(text, start, open, close) {
+    let depth = 0;
+    let inString = false;
+    for (let i = start; i < text.length; i++) {
+      const ch = text[i];
+      if (ch === '"' && text[i - 1] !== '\\\\') inString = !inString;
+      if (inString) continue;
+      if (ch === open) depth++;
+      if (ch === close && --depth === 0) return i;
+    }
+    return -1;
+  }
+
+  // Top-level fields of a GraphQL selection set: [{ name, alias, args, fields }]
+  function parseSelection(text, variables) {
+    const fields = [];
+    let i = 0;
+    while (i < text.length) {
+      const match = /^[\\s,]*([A-Za-z_][A-Za-z0-9_]*)(\\s*:\\s*([A-Za-z_][A-Za-z0-9_]*))?\\s*/.exec(text.slice(i));
+      if (!match || !match[0].trim()) break;
+      i += match[0].length;
+      const field = { alias: match[1], name: match[3] || match[1], args: {}, fields: null };
+      if (text[i] === '(') {
+        const end = findClosing(text, i, '(', ')');
+        // Quote argument names first so variable values are left untouched
+        const argsText = text.slice(i + 1, end)
+          .replace(/([{,\\s]|^)([A-Za-z_][A-Za-z0-9_]*)\\s*:/g, '$1"$2":')
+          .replace(/\\$([A-Za-z_][A-Za-z0-9_]*)/g, (_, name) => JSON.stringify(variables[name] === undefined ? null : variables[name]));
+        field.args = JSON.parse('{' + argsText + '}');
+        i = end + 1;
+      }
+      const rest = /^\\s*/.exec(text.slice(i));
+      i += rest[0].length;
+      if (text[i] === '{') {
+        const end = findClosing(text, i, '{', '}');
+        field.fields = parseSelection(text.slice(i + 1, end), variables).map(f => f.name);
+        i = end + 1;
+      }
+      fields.push(field);
+    }
+    return fields;
+  }
+
+  function project(value, fields) {
+    if (!fields || value === null) return value;
+    if (Array.isArray(value)) return value.map(item => project(item, fields));
+    const result = {};
+    fields.forEach(f => { result[f] = value[f] === undefined ? null : value[f]; });
+    return result;
+  }
+
+  const VoxelMockBackend = {
+    config,
+    storage: getStorage(),
+    data: {},
+    selection: {},
+
+    load() {
+      let stored = null;
+      try {
+        stored = this.storage ? JSON.parse(this.storage.getItem(storageKey) || 'null') : null;
+      } catch (e) {
+        stored = null;
+      }
+      this.data = {};
+      Object.keys(seed).forEach(name => {
+        const rows = stored && stored.data && stored.data[name];
+        this.data[name] = Array.isArray(rows) ? rows : clone(seed[name].records);
+      });
+      this.selection = (stored && stored.selection) || {};
+    },
+
+    save() {
+      if (!this.storage) return;
+      try {
+        // Screens of a flow share a key; keep the collections of the others
+        const stored = JSON.parse(this.storage.getItem(storageKey) || 'null');
+        const data = Object.assign({}, stored && stored.data, this.data);
+        const selection = Object.assign({}, stored && stored.selection, this.selection);
+        this.storage.setItem(storageKey, JSON.stringify({ data, selection }));
+      } catch (e) {
+        console.warn('[VoxelMockBackend] Could not persist data', e);
+      }
+    },
+
+    reset() {
+      if (this.storage) this.storage.removeItem(storageKey);
+      this.load();
+      this.notify(null);
+    },
+
+    collections() {
+      return Object.keys(this.data);
+    },
+
+    fieldNames(collection) {
+      return seed[collection] ? seed[collection].fields.map(f => f.name) : [];
+    },
+
+    notify(collection) {
+      window.dispatchEvent(new CustomEvent('voxel:data-changed', { detail: { collection } }));
+    },
+
+    // ---- Store operations ----
+
+    list(collection, query) {
+      let rows = (this.data[collection] || []).slice();
+      const params = query || {};
+      Object.keys(params).forEach(key => {
+        if (key.startsWith('_')) return;
+        const field = key === 'q' ? null : (key === 'id' ? 'id' : matchField(key, this.fieldNames(collection)));
+        const needle = String(params[key]).toLowerCase();
+        rows = rows.filter(row => key === 'q'
+          ? Object.values(row).some(v => String(v).toLowerCase().includes(needle))
+          : field !== null && String(row[field]).toLowerCase() === needle);
+      });
+      if (params._sort) {
+        const direction = params._order === 'desc' ? -1 : 1;
+        rows.sort((a, b) => String(a[params._sort]).localeCompare(String(b[params._sort]), undefined, { numeric: true }) * direction);
+      }
+      if (params._limit) rows = rows.slice(0, Number(params._limit));
+      return rows;
+    },
+
+    get(collection, id) {
+      return (this.data[collection] || []).find(row => String(row.id) === String(id)) || null;
+    },
+
+    defaults(collection) {
+      const values = {};
+      (seed[collection] ? seed[collection].fields : []).forEach(field => {
+        switch (field.type) {
+          case 'status': values[field.name] = (field.values && field.values[0]) || 'Active'; break;
+          case 'date': values[field.name] = new Date().toLocaleDateString(); break;
+          case 'datetime': values[field.name] = new Date().toLocaleString(); break;
+          case 'relativeTime': values[field.name] = 'just now'; break;
+          case 'uuid': values[field.name] = Math.random().toString(36).slice(2, 10); break;
+          default: values[field.name] = '';
+        }
+      });
+      return values;
+    },
+
+    // Map loosely named input (form field names, API payloads) onto schema fields
+    coerce(collection, values) {
+      const fields = this.fieldNames(collection);
+      const sample = (this.data[collection] || [])[0] || {};
+      const result = {};
+      Object.keys(values || {}).forEach(key => {
+        if (key === 'id') return;
+        const field = matchField(key, fields) || key;
+        let value = values[key];
+        if (typeof sample[field] === 'number' && value !== '' && !isNaN(Number(value))) value = Number(value);
+        result[field] = value;
+      });
+      return result;
+    },
+
+    nextId(collection) {
+      const ids = (this.data[collection] || []).map(row => parseInt(row.id, 10)).filter(n => !isNaN(n));
+      return String((ids.length ? Math.max.apply(null, ids) : 0) + 1);
+    },
+
+    create(collection, values) {
+      if (!this.data[collection]) return null;
+      const record = Object.assign(this.defaults(collection), this.coerce(collection, values), { id: this.nextId(collection) });
+      this.data[collection].unshift(record);
+      this.save();
+      this.notify(collection);
+      return record;
+    },
+
+    update(collection, id, values, replace) {
+      const rows = this.data[collection] || [];
+      const index = rows.findIndex(row => String(row.id) === String(id));
+      if (index === -1) return null;
+      const base = replace ? this.defaults(collection) : rows[index];
+      rows[index] = Object.assign({}, base, this.coerce(collection, values), { id: rows[index].id });
+      this.save();
+      this.notify(collection);
+      return rows[index];
+    },
+
+    remove(collection, id) {
+      const record = this.get(collection, id);
+      if (!record) return null;
+      this.data[collection] = this.data[collection].filter(row => row !== record);
+      this.save();
+      this.notify(collection);
+      return record;
+    },
+
+    select(collection, id) {
+      this.selection[collection] = String(id);
+      this.save();
+      window.dispatchEvent(new CustomEvent('voxel:select', { detail: { collection, id: String(id) } }));
+    },
+
+    selectedId(collection) {
+      const search = window.location.search || (window.location.hash.split('?')[1] ? '?' + window.location.hash.split('?')[1] : '');
+      const fromUrl = new URLSearchParams(search).get('id');
+      if (fromUrl && this.get(collection, fromUrl)) return fromUrl;
+      if (this.selection[collection] && this.get(collection, this.selection[collection])) return this.selection[collection];
+      const first = (this.data[collection] || [])[0];
+      return first ? first.id : null;
+    },
+
+    // ---- Request handling ----
+
+    parseUrl(url) {
+      try {
+        const parsed = new URL(url, 'http://voxel.local/');
+        const query = {};
+        parsed.searchParams.forEach((value, key) => { query[key] = value; });
+        return { path: parsed.pathname.replace(/\\/+$/, ''), query };
+      } catch (e) {
+        return null;
+      }
+    },
+
+    // Path of the collection, or the GraphQL endpoint, on any host
+    owns(url) {
+      const parsed = this.parseUrl(url);
+      if (!parsed) return false;
+      if (parsed.path === config.graphqlPath) return true;
+      if (!parsed.path.startsWith(config.basePath + '/')) return false;
+      return Boolean(this.data[decodeURIComponent(parsed.path.slice(config.basePath.length + 1).split('/')[0])]);
+    },
+
+    // Returns null for requests the mock API does not own, so they go to the network
+    handle(method, url, body) {
+      const parsed = this.parseUrl(url);
+      if (!parsed) return null;
+
+      if (parsed.path === config.graphqlPath) {
+        const payload = method === 'GET'
+          ? { query: parsed.query.query, variables: JSON.parse(parsed.query.variables || '{}') }
+          : body;
+        return this.handleGraphQL(payload || {});
+      }
+
+      if (!parsed.path.startsWith(config.basePath + '/')) return null;
+      const parts = parsed.path.slice(config.basePath.length + 1).split('/').map(decodeURIComponent);
+      const collection = parts[0];
+      const id = parts[1];
+      if (!this.data[collection] || parts.length > 2) return null;
+
+      const notFound = { status: 404, body: { error: 'Not found' } };
+      switch (method) {
+        case 'GET':
+          if (id === undefined) return { status: 200, body: this.list(collection, parsed.query) };
+          return this.get(collection, id) ? { status: 200, body: this.get(collection, id) } : notFound;
+        case 'POST':
+          return id === undefined ? { status: 201, body: this.create(collection, body) } : { status: 405, body: { error: 'Method not allowed' } };
+        case 'PUT':
+        case 'PATCH': {
+          const record = id === undefined ? null : this.update(collection, id, body, method === 'PUT');
+          return record ? { status: 200, body: record } : notFound;
+        }
+        case 'DELETE': {
+          const record = id === undefined ? null : this.remove(collection, id);
+          return record ? { status: 200, body: record } : notFound;
+        }
+        default:
+          return { status: 405, body: { error: 'Method not allowed' } };
+      }
+    },
+
+    handleGraphQL(payload) {
+      const query = String(payload.query || '');
+      const isMutation = /^\\s*mutation/.test(query);
+      const start = query.indexOf('{');
+      const end = start === -1 ? -1 : findClosing(query, start, '{', '}');
+      if (end === -1) {
+        return { status: 400, body: { errors: [{ message: 'Could not parse query' }] } };
+      }
+
+      try {
+        const data = {};
+        parseSelection(query.slice(start + 1, end), payload.variables || {}).forEach(field => {
+          data[field.alias] = project(this.resolveField(field, isMutation), field.fields);
+        });
+        return { status: 200, body: { data } };
+      } catch (e) {
+        return { status: 200, body: { errors: [{ message: e.message }] } };
+      }
+    },
+
+    resolveField(field, isMutation) {
+      const findCollection = name => this.collections().find(c =>
+        normalize(c) === normalize(name) || normalize(singular(c)) === normalize(name));
+      const args = field.args || {};
+
+      if (isMutation) {
+        const match = /^(create|add|update|edit|delete|remove)(.+)$/i.exec(field.name);
+        const collection = match && findCollection(match[2]);
+        if (!collection) throw new Error('Unknown mutation: ' + field.name);
+        const input = args.input || args.data || Object.assign({}, args);
+        const action = match[1].toLowerCase();
+        if (action === 'create' || action === 'add') return this.create(collection, input);
+        if (action === 'update' || action === 'edit') return this.update(collection, args.id, input, false);
+        return this.remove(collection, args.id);
+      }
+
+      const collection = findCollection(field.name);
+      if (!collection) throw new Error('Unknown field: ' + field.name);
+      if (normalize(collection) === normalize(field.name)) {
+        return this.list(collection, args);
+      }
+      return this.get(collection, args.id !== undefined ? args.id : this.selectedId(collection));
+    },
+
+    // ---- DOM bindings ----
+
+    formValues(form) {
+      const values = {};
+      Array.from(form.elements).forEach(input => {
+        if (input.tagName === 'FIELDSET' || input.tagName === 'BUTTON') return;
+        if (['submit', 'button', 'reset', 'hidden', 'file', 'password'].includes(input.type) && input.name !== 'id') return;
+        if ((input.type === 'checkbox' || input.type === 'radio') && !input.checked) return;
+        const label = input.labels && input.labels[0] ? input.labels[0].textContent.trim() : '';
+        const key = input.name || input.id || input.getAttribute('aria-label') || label || input.placeholder;
+        if (!key) return;
+        values[key] = input.type === 'checkbox' && input.value === 'on' ? true : input.value;
+      });
+      return values;
+    },
+
+    // Creates a record, or updates the one the form is editing (data-voxel-record or an "id" field)
+    submitForm(form, collection) {
+      const values = this.formValues(form);
+      const id = form.getAttribute('data-voxel-record') || values.id;
+      return id && this.get(collection, id)
+        ? this.update(collection, id, values, false)
+        : this.create(collection, values);
+    },
+
+    bindForm(form, collection) {
+      if (form.__voxelMockBound) return;
+      form.__voxelMockBound = true;
+      form.addEventListener('submit', e => {
+        e.preventDefault();
+        this.submitForm(form, collection);
+        if (window.VoxelRuntime) window.VoxelRuntime.showToast('Saved', 'success');
+        form.reset();
+      });
+    },
+
+    bindList(el, collection) {
+      if (el.__voxelMockBound || !this.data[collection]) return;
+      el.__voxelMockBound = true;
+      el.setAttribute('data-voxel-collection', collection);
+
+      // Original rows keep their markup for the seed records at the same position
+      const container = el.tagName === 'TABLE' ? (el.tBodies[0] || el.appendChild(document.createElement('tbody'))) : el;
+      const items = Array.from(container.children).filter(child => !child.querySelector('th'));
+      el.__voxelTemplates = items.map(item => item.cloneNode(true));
+
+      const render = () => this.renderList(el, container, collection);
+      window.addEventListener('voxel:data-changed', e => {
+        if (!e.detail.collection || e.detail.collection === collection) render();
+      });
+      render();
+    },
+
+    renderList(el, container, collection) {
+      const fields = this.fieldNames(collection);
+      const seedIds = seed[collection].records.map(r => r.id);
+      const templates = el.__voxelTemplates;
+      const headers = el.tagName === 'TABLE'
+        ? Array.from(el.querySelectorAll('th')).map(th => th.textContent.trim())
+        : [];
+      const columns = headers.map(h => matchField(h, fields));
+
+      Array.from(container.children).forEach(child => {
+        if (!child.querySelector('th')) child.remove();
+      });
+
+      this.list(collection, {}).forEach(record => {
+        const template = templates[seedIds.indexOf(record.id)] || templates[0];
+        let item;
+        if (template) {
+          item = template.cloneNode(true);
+        } else if (el.tagName === 'TABLE') {
+          item = document.createElement('tr');
+          headers.forEach(() => item.appendChild(document.createElement('td')));
+        } else {
+          item = document.createElement(el.tagName === 'UL' || el.tagName === 'OL' ? 'li' : 'div');
+        }
+
+        if (el.tagName === 'TABLE') {
+          columns.forEach((field, i) => {
+            if (field && item.cells[i]) setText(item.cells[i], record[field]);
+          });
+        } else {
+          const slots = item.querySelectorAll('[data-field]');
+          if (slots.length > 0) {
+            slots.forEach(slot => setText(slot, record[slot.getAttribute('data-field')]));
+          } else {
+            setText(item, record[fields[0]]);
+          }
+        }
+
+        item.setAttribute('data-voxel-record', record.id);
+        item.setAttribute('data-voxel-collection', collection);
+        container.appendChild(item);
+      });
+    },
+
+    bindDetail(el, collection) {
+      if (el.__voxelMockBound || !this.data[collection]) return;
+      el.__voxelMockBound = true;
+      const render = () => {
+        const record = this.get(collection, this.selectedId(collection));
+        if (!record) return;
+        el.setAttribute('data-voxel-record', record.id);
+        el.querySelectorAll('[data-field]').forEach(slot => setText(slot, record[slot.getAttribute('data-field')]));
+      };
+      window.addEventListener('voxel:data-changed', render);
+      window.addEventListener('voxel:select', render);
+      render();
+    },
+
+    bindMarkup() {
+      document.querySelectorAll('[data-voxel-collection]').forEach(el => {
+        if (el.hasAttribute('data-voxel-record')) return;
+        const collection = el.getAttribute('data-voxel-collection');
+        if (el.tagName === 'FORM') this.bindForm(el, collection);
+        else this.bindList(el, collection);
+      });
+      document.querySelectorAll('[data-voxel-detail]').forEach(el => {
+        this.bindDetail(el, el.getAttribute('data-voxel-detail'));
+      });
+    },
+
+    // Row clicks select the record for detail views; delete controls remove it
+    handleClick(e) {
+      const row = e.target.closest && e.target.closest('[data-voxel-record][data-voxel-collection]');
+      if (!row) return;
+      const collection = row.getAttribute('data-voxel-collection');
+      const id = row.getAttribute('data-voxel-record');
+      const control = e.target.closest('[data-voxel-action], button, a, [role="button"]');
+      if (control && row.contains(control)) {
+        const label = (control.getAttribute('data-voxel-action') || control.getAttribute('aria-label') ||
+          control.getAttribute('title') || control.textContent || '').toLowerCase();
+        if (/delete|remove|trash/.test(label)) {
+          e.preventDefault();
+          e.stopPropagation();
+          this.remove(collection, id);
+          if (window.VoxelRuntime) window.VoxelRuntime.showToast('Deleted', 'info');
+          return;
+        }
+      }
+      this.select(collection, id);
+    }
+  };
+
+  // ---- Network interception ----
+
+  function parseBody(body) {
+    if (body === undefined || body === null || body === '') return null;
+    if (typeof FormData !== 'undefined' && body instanceof FormData) {
+      const values = {};
+      body.forEach((value, key) => { values[key] = value; });
+      return values;
+    }
+    if (typeof URLSearchParams !== 'undefined' && body instanceof URLSearchParams) {
+      return Object.fromEntries(body.entries());
+    }
+    try {
+      return JSON.parse(String(body));
+    } catch (e) {
+      return null;
+    }
+  }
+
+  function delay() {
+    return new Promise(resolve => setTimeout(resolve, config.latency));
+  }
+
+  const originalFetch = window.fetch;
+  window.fetch = function(input, init) {
+    const url = typeof input === 'string' ? input : (input && (input.href || input.url)) || String(input);
+    const method = String((init && init.method) || (input && input.method) || 'GET').toUpperCase();
+    if (!VoxelMockBackend.owns(url)) return originalFetch.apply(window, arguments);
+
+    const body = parseBody(init && init.body);
+    return delay().then(() => {
+      const result = VoxelMockBackend.handle(method, url, body);
+      return new Response(JSON.stringify(result.body), {
+        status: result.status,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    });
+  };
+
+  const XHR = window.XMLHttpRequest;
+  if (XHR) {
+    const originalOpen = XHR.prototype.open;
+    const originalSend = XHR.prototype.send;
+    const originalSetRequestHeader = XHR.prototype.setRequestHeader;
+
+    XHR.prototype.open = function(method, url) {
+      const owned = VoxelMockBackend.owns(String(url));
+      this.__voxelMock = owned ? { method: String(method).toUpperCase(), url: String(url) } : null;
+      if (!owned) return originalOpen.apply(this, arguments);
+    };
+
+    XHR.prototype.setRequestHeader = function() {
+      if (!this.__voxelMock) return originalSetRequestHeader.apply(this, arguments);
+    };
+
+    XHR.prototype.send = function(body) {
+      if (!this.__voxelMock) return originalSend.apply(this, arguments);
+      const xhr = this;
+      const request = this.__voxelMock;
+      delay().then(() => {
+        const result = VoxelMockBackend.handle(request.method, request.url, parseBody(body));
+        const text = JSON.stringify(result.body);
+        Object.defineProperties(xhr, {
+          readyState: { value: 4, configurable: true },
+          status: { value: result.status, configurable: true },
+          statusText: { value: result.status < 400 ? 'OK' : 'Error', configurable: true },
+          responseText: { value: text, configurable: true },
+          response: { value: xhr.responseType === 'json' ? result.body : text, configurable: true },
+          responseURL: { value: request.url, configurable: true }
+        });
+        xhr.getResponseHeader = name => String(name).toLowerCase() === 'content-type' ? 'application/json' : null;
+        xhr.getAllResponseHeaders = () => 'content-type: application/json\\r\\n';
+        ['readystatechange', 'load', 'loadend'].forEach(type => xhr.dispatchEvent(new Event(type)));
+      });
+    };
+  }
+
+  VoxelMockBackend.load();
+  window.VoxelMockBackend = VoxelMockBackend;
+  document.addEventListener('click', e => VoxelMockBackend.handleClick(e));
+
+  if (document.readyState === 'loading') {
+    document.addEventListener('DOMContentLoaded', () => VoxelMockBackend.bindMarkup());
+  } else {
+    VoxelMockBackend.bindMarkup();
+  }
+})(window);
+`;
+
+/**
+ * Compile the mock backend into a script for the prototype iframe.
+ * Must run before compiled injections that bind to collections.
+ */
+export function compileMockBackend(config: MockBackendConfig): string {
+  const seed: Record<string, RuntimeCollection> = {};
+  const schemas = Object.fromEntries(config.collections.map(c => [c.name, c.schema]));
+  const generateOptions: GenerateOptions = {
+    seed: config.seed ?? config.storageKey,
+    locale: config.locale,
+    schemas
+  };
+  for (const collection of config.collections) {
+    seed[collection.name] = {
+      fields: collection.schema.fields.map(f => ({
+        name: f.name,
+        type: f.type,
+        ...(f.options?.values ? { values: f.options.values } : {})
+      })),
+      records: seedRecords(collection, generateOptions)
+    };
+  }
+
+  const runtimeConfig = {
+    storageKey: config.storageKey,
+    basePath: (config.basePath || MOCK_API_BASE_PATH).replace(/\/+$/, ''),
+    graphqlPath: config.graphqlPath || MOCK_GRAPHQL_PATH,
+    latency: config.latency ?? 150
+  };
+
+  // Escape "<" so seed text can never close the surrounding <script>
+  const toScriptJson = (value: unknown) => JSON.stringify(value).replace(/</g, '\\u003c');
+
+  return MOCK_BACKEND_RUNTIME
+    .replace('__VOXEL_MOCK_CONFIG__', () => toScriptJson(runtimeConfig))
+    .replace('__VOXEL_MOCK_SEED__', () => toScriptJson(seed));
+}
+
+// ============================================================================
+// Planning
+// ============================================================================
+
+function uniqueName(base: string, taken: Set<string>): string {
+  let name = base;
+  for (let i = 2; taken.has(name); i++) {
+    name = `${base}${i}`;
+  }
+  taken.add(name);
+  return name;
+}
+
+function queryElement(doc: Document, selector: string): Element | null {
+  try {
+    return doc.querySelector(selector);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Derive collections from the prototype's tables and bind its forms to them.
+ * Schemas are inferred from the table content, and tables are seeded with
+ * the rows already on screen, so the prototype looks unchanged until someone
+ * edits data.
+ */
+export function planMockBackend(
+  html: string,
+  analysis: AnalysisResult,
+  storageKey: string = hashString(html)
+): MockBackendPlan {
+  const doc = new DOMParser().parseFromString(html, 'text/html');
+  const collections: MockCollection[] = [];
+  const bindings: MockBinding[] = [];
+  const taken = new Set<string>();
+
+  for (const point of analysis.injectionPoints.filter(p => p.type === 'table')) {
+    const table = queryElement(doc, point.selector);
+    if (!table) continue;
+
+    const inferred = inferTableSchema(table, point.selector);
+    if (!inferred) continue;
+
+    const name = uniqueName(inferred.preset || 'items', taken);
+    collections.push(createMockCollection(name, inferred.schema, { seed: inferred.samples }));
+    bindings.push({ selector: point.selector, collection: name, kind: 'list' });
+  }
+
+  for (const point of analysis.injectionPoints.filter(p => p.type === 'form')) {
+    const form = queryElement(doc, point.selector);
+    if (!form || collections.length === 0) continue;
+
+    const labels = Array.from(form.querySelectorAll('input, textarea, select'))
+      .filter(input => !['submit', 'button', 'reset', 'hidden'].includes(input.getAttribute('type') || ''))
+      .map(input => input.getAttribute('name') || input.id || input.getAttribute('aria-label') || input.getAttribute('placeholder') || '');
+
+    const scored = collections
+      .map(collection => ({
+        collection,
+        score: labels.filter(label => matchField(label, collection.schema.fields.map(f => f.name))).length
+      }))
+      .sort((a, b) => b.score - a.score);
+
+    const best = scored[0].score > 0 ? scored[0].collection : collections.length === 1 ? collections[0] : null;
+    if (best) {
+      bindings.push({ selector: point.selector, collection: best.name, kind: 'form' });
+    }
+  }
+
+  return {
+    backend: { storageKey, collections },
+    bindings
+  };
+}
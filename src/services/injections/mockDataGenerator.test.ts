@@ -0,0 +1,101 @@
+/**
+ * Tests for mockDataGenerator seeding, locales and references
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  generateDataset,
+  generateRow,
+  generateRows,
+  matchField,
+  populateTable,
+  PREDEFINED_SCHEMAS,
+  type DataSchema,
+} from './mockDataGenerator';
+
+const PEOPLE: DataSchema = {
+  name: 'People',
+  category: 'person',
+  fields: [
+    { name: 'name', type: 'fullName' },
+    { name: 'joined', type: 'date' },
+  ],
+};
+
+describe('generateRows', () => {
+  it('should return the same rows for the same seed', () => {
+    expect(generateRows(PEOPLE, 5, { seed: 42 })).toEqual(generateRows(PEOPLE, 5, { seed: 42 }));
+    expect(generateRows(PEOPLE, 5, { seed: 42 })).not.toEqual(generateRows(PEOPLE, 5, { seed: 43 }));
+  });
+
+  it('should use the schema seed and default to a fixed one', () => {
+    expect(generateRows({ ...PEOPLE, seed: 'demo' }, 3)).toEqual(generateRows(PEOPLE, 3, { seed: 'demo' }));
+    expect(generateRows(PEOPLE, 3)).toEqual(generateRows(PEOPLE, 3));
+  });
+
+  it('should keep row identities when the count or fields change', () => {
+    const three = generateRows(PEOPLE, 3, { seed: 1 });
+    const five = generateRows(PEOPLE, 5, { seed: 1 });
+    const withEmail = generateRows({ ...PEOPLE, fields: [{ name: 'email', type: 'email' }, ...PEOPLE.fields] }, 3, { seed: 1 });
+
+    expect(five.slice(0, 3)).toEqual(three);
+    expect(three.map(r => r.id)).toEqual(['1', '2', '3']);
+    expect(withEmail.map(r => r.name)).toEqual(three.map(r => r.name));
+  });
+
+  it('should generate names and dates for the selected locale', () => {
+    const english = generateRow(PEOPLE, 0, { seed: 7, locale: 'en' });
+    const german = generateRow(PEOPLE, 0, { seed: 7, locale: 'de' });
+
+    expect(german.name).not.toBe(english.name);
+    expect(String(german.joined)).toMatch(/^\d{1,2}\.\d{1,2}\.\d{4}$/);
+    expect(String(english.joined)).toMatch(/^\d{1,2}\/\d{1,2}\/\d{4}$/);
+  });
+});
+
+describe('references', () => {
+  it('should point orders at generated users', () => {
+    const users = generateRows(PREDEFINED_SCHEMAS.users, 10, { seed: 's' });
+    const orders = generateRows(PREDEFINED_SCHEMAS.orders, 5, { seed: 's' });
+
+    orders.forEach(order => {
+      const customer = users.find(u => u.id === order.customerId);
+      expect(order.customer).toBe(customer?.name);
+    });
+  });
+
+  it('should only reference rows that exist in a dataset', () => {
+    const dataset = generateDataset(
+      { users: PREDEFINED_SCHEMAS.users, orders: PREDEFINED_SCHEMAS.orders },
+      { users: 2, orders: 20 },
+      { seed: 's' }
+    );
+
+    expect(dataset.users).toHaveLength(2);
+    const names = dataset.users.map(u => u.name);
+    dataset.orders.forEach(order => expect(names).toContain(order.customer));
+  });
+});
+
+describe('matchField', () => {
+  it('should match labels to schema fields loosely', () => {
+    expect(matchField('E-mail', ['name', 'email'])).toBe('email');
+    expect(matchField('Full Name', ['name', 'email'])).toBe('name');
+    expect(matchField('Qty', ['name', 'email'])).toBeNull();
+  });
+});
+
+describe('populateTable', () => {
+  it('should fill the same rows on every call', () => {
+    const table = '<table><thead><tr><th>Name</th><th>Email</th><th>Notes</th></tr></thead><tbody></tbody></table>';
+
+    const first = populateTable(table, 3, undefined, { seed: 9 });
+
+    expect(populateTable(table, 3, undefined, { seed: 9 })).toBe(first);
+    expect(first.match(/data-voxel-record="\d"/g)).toEqual([
+      'data-voxel-record="1"',
+      'data-voxel-record="2"',
+      'data-voxel-record="3"',
+    ]);
+  });
+});
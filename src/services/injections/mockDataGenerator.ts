@@ -1,9 +1,14 @@
 /**
  * Mock Data Generator Service
  * Generates realistic mock data for prototype elements using faker.js
+ *
+ * Rows are seeded: row N of a schema is a pure function of (seed, schema,
+ * N, locale), so shared prototypes and screenshots show the same data on
+ * every load, and references between schemas resolve to the same rows.
  */
 
-import { faker } from '@faker-js/faker';
+import { faker, Faker, base, en, en_GB, de, fr, es, it, nl, pt_BR, sv, pl, ja, ko, zh_CN } from '@faker-js/faker';
+import type { LocaleDefinition } from '@faker-js/faker';
 
 // ============================================================================
 // Types
@@ -100,7 +105,12 @@ export type DataFieldType =
   | 'count'
   | 'trend'
   | 'status'
-  | 'priority';
+  | 'priority'
+  // Inferred from samples
+  | 'pattern'
+  | 'enum'
+  // Relationships
+  | 'reference';
 
 export interface DataFieldOptions {
   min?: number;
@@ -109,17 +119,45 @@ export interface DataFieldOptions {
   prefix?: string;
   suffix?: string;
   locale?: string;
+  /**
+   * Numbers: 'grouped' for thousands separators.
+   * date: 'YYYY-MM-DD', 'MM/DD/YYYY', 'DD/MM/YYYY', 'MMM D, YYYY' or 'D MMM YYYY'.
+   * pattern: symbols for faker.helpers.replaceSymbols ('#' digit, '?' letter), e.g. 'ORD-####'.
+   */
   format?: string;
   width?: number;
   height?: number;
   length?: number;
   values?: string[];
+  /** reference: key of the referenced schema, e.g. 'users' */
+  ref?: string;
+  /** reference: field of the referenced row to show (default: its first field) */
+  refField?: string;
+  /** reference: rows to choose from (default 10) */
+  refCount?: number;
 }
 
 export interface DataSchema {
   name: string;
   category: DataCategory;
   fields: DataField[];
+  /** Same seed, same rows; overrides the default seed */
+  seed?: number | string;
+  /** Key of MOCK_DATA_LOCALES */
+  locale?: MockDataLocale;
+}
+
+export type MockDataLocale = keyof typeof MOCK_DATA_LOCALES;
+
+export interface GenerateOptions {
+  /** Defaults to the schema's seed, then DEFAULT_MOCK_SEED */
+  seed?: number | string;
+  /** Defaults to the schema's locale, then 'en' */
+  locale?: MockDataLocale;
+  /** "Now" for generated dates */
+  referenceDate?: Date;
+  /** Schemas that reference fields can point to, in addition to PREDEFINED_SCHEMAS */
+  schemas?: Record<string, DataSchema>;
 }
 
 export interface GeneratedRow {
@@ -162,7 +200,7 @@ export const PREDEFINED_SCHEMAS: Record<string, DataSchema> = {
     category: 'ecommerce',
     fields: [
       { name: 'orderId', type: 'uuid' },
-      { name: 'customer', type: 'fullName' },
+      { name: 'customer', type: 'reference', options: { ref: 'users', refField: 'name' } },
       { name: 'total', type: 'price', options: { min: 50, max: 2000 } },
       { name: 'items', type: 'quantity', options: { min: 1, max: 10 } },
       { name: 'status', type: 'status', options: { values: ['Pending', 'Processing', 'Shipped', 'Delivered'] } },
@@ -258,114 +296,210 @@ export const PREDEFINED_SCHEMAS: Record<string, DataSchema> = {
   }
 };
 
+// ============================================================================
+// Seeding & Locales
+// ============================================================================
+
+export const DEFAULT_MOCK_SEED = 'voxel';
+
+/** Fixed "now" so relative dates don't drift between days */
+export const DEFAULT_REFERENCE_DATE = new Date('2025-06-01T12:00:00Z');
+
+export const MOCK_DATA_LOCALES = {
+  en: { label: 'English (US)', tag: 'en-US', definition: en },
+  en_GB: { label: 'English (UK)', tag: 'en-GB', definition: en_GB },
+  de: { label: 'German', tag: 'de-DE', definition: de },
+  fr: { label: 'French', tag: 'fr-FR', definition: fr },
+  es: { label: 'Spanish', tag: 'es-ES', definition: es },
+  it: { label: 'Italian', tag: 'it-IT', definition: it },
+  nl: { label: 'Dutch', tag: 'nl-NL', definition: nl },
+  pt_BR: { label: 'Portuguese (Brazil)', tag: 'pt-BR', definition: pt_BR },
+  sv: { label: 'Swedish', tag: 'sv-SE', definition: sv },
+  pl: { label: 'Polish', tag: 'pl-PL', definition: pl },
+  ja: { label: 'Japanese', tag: 'ja-JP', definition: ja },
+  ko: { label: 'Korean', tag: 'ko-KR', definition: ko },
+  zh_CN: { label: 'Chinese (Simplified)', tag: 'zh-CN', definition: zh_CN },
+} satisfies Record<string, { label: string; tag: string; definition: LocaleDefinition }>;
+
+const fakers = new Map<MockDataLocale, Faker>();
+
+// Separate instances, so seeding never touches the shared faker
+function getFaker(locale: MockDataLocale): Faker {
+  let instance = fakers.get(locale);
+  if (!instance) {
+    const definition = (MOCK_DATA_LOCALES[locale] ?? MOCK_DATA_LOCALES.en).definition;
+    instance = new Faker({ locale: [definition, en, base] });
+    fakers.set(locale, instance);
+  }
+  return instance;
+}
+
+/**
+ * 32-bit seed from any string
+ */
+export function seedFromString(value: string): number {
+  let hash = 5381;
+  for (let i = 0; i < value.length; i++) {
+    hash = ((hash << 5) + hash + value.charCodeAt(i)) | 0;
+  }
+  return hash >>> 0;
+}
+
+// ============================================================================
+// Formatting
+// ============================================================================
+
+export const DATE_FORMATS = ['YYYY-MM-DD', 'MM/DD/YYYY', 'DD/MM/YYYY', 'MMM D, YYYY', 'D MMM YYYY'] as const;
+
+/**
+ * Format a date in one of DATE_FORMATS; anything else uses the locale's short date
+ */
+export function formatDate(date: Date, format?: string, locale?: string): string {
+  const pad = (n: number) => String(n).padStart(2, '0');
+  const year = date.getUTCFullYear();
+  const month = date.getUTCMonth() + 1;
+  const day = date.getUTCDate();
+  const monthName = date.toLocaleString(locale ?? 'en-US', { month: 'short', timeZone: 'UTC' });
+
+  switch (format) {
+    case 'YYYY-MM-DD': return `${year}-${pad(month)}-${pad(day)}`;
+    case 'MM/DD/YYYY': return `${pad(month)}/${pad(day)}/${year}`;
+    case 'DD/MM/YYYY': return `${pad(day)}/${pad(month)}/${year}`;
+    case 'MMM D, YYYY': return `${monthName} ${day}, ${year}`;
+    case 'D MMM YYYY': return `${day} ${monthName} ${year}`;
+    default: return date.toLocaleDateString(locale, { timeZone: 'UTC' });
+  }
+}
+
+/**
+ * Apply decimals, grouping and prefix/suffix from field options
+ */
+function formatNumber(value: number, opts: DataFieldOptions = {}): string {
+  const decimals = opts.decimals ?? 0;
+  const text = opts.format === 'grouped'
+    ? value.toLocaleString('en-US', { minimumFractionDigits: decimals, maximumFractionDigits: decimals })
+    : value.toFixed(decimals);
+  return `${opts.prefix ?? ''}${text}${opts.suffix ?? ''}`;
+}
+
 // ============================================================================
 // Generator Functions
 // ============================================================================
 
-const generators: Record<DataFieldType, (options?: DataFieldOptions) => string | number> = {
+const generators: Record<DataFieldType, (f: Faker, options?: DataFieldOptions) => string | number> = {
   // Person
-  firstName: () => faker.person.firstName(),
-  lastName: () => faker.person.lastName(),
-  fullName: () => faker.person.fullName(),
-  email: () => faker.internet.email().toLowerCase(),
-  phone: () => faker.phone.number(),
-  avatar: () => faker.image.avatar(),
-  jobTitle: () => faker.person.jobTitle(),
-  bio: () => faker.person.bio(),
+  firstName: (f) => f.person.firstName(),
+  lastName: (f) => f.person.lastName(),
+  fullName: (f) => f.person.fullName(),
+  email: (f) => f.internet.email().toLowerCase(),
+  phone: (f) => f.phone.number(),
+  avatar: (f) => f.image.avatar(),
+  jobTitle: (f) => f.person.jobTitle(),
+  bio: (f) => f.person.bio(),
 
   // Company
-  companyName: () => faker.company.name(),
-  department: () => faker.commerce.department(),
-  industry: () => faker.company.buzzPhrase(),
-  catchPhrase: () => faker.company.catchPhrase(),
+  companyName: (f) => f.company.name(),
+  department: (f) => f.commerce.department(),
+  industry: (f) => f.company.buzzPhrase(),
+  catchPhrase: (f) => f.company.catchPhrase(),
 
   // Product
-  productName: () => faker.commerce.productName(),
-  productDescription: () => faker.commerce.productDescription(),
-  category: () => faker.commerce.department(),
-  sku: () => faker.string.alphanumeric(8).toUpperCase(),
+  productName: (f) => f.commerce.productName(),
+  productDescription: (f) => f.commerce.productDescription(),
+  category: (f) => f.commerce.department(),
+  sku: (f) => f.string.alphanumeric(8).toUpperCase(),
 
   // Ecommerce
-  price: (opts) => {
+  price: (f, opts) => {
     const min = opts?.min ?? 10;
     const max = opts?.max ?? 1000;
     const decimals = opts?.decimals ?? 2;
-    const value = faker.number.float({ min, max, fractionDigits: decimals });
-    return opts?.prefix ? `${opts.prefix}${value.toFixed(decimals)}` : `$${value.toFixed(decimals)}`;
+    const value = f.number.float({ min, max, fractionDigits: decimals });
+    return formatNumber(value, { ...opts, decimals, prefix: opts?.prefix ?? (opts?.suffix ? '' : '$') });
+  },
+  quantity: (f, opts) => {
+    const value = f.number.int({ min: opts?.min ?? 1, max: opts?.max ?? 100 });
+    return opts?.format || opts?.prefix || opts?.suffix ? formatNumber(value, opts) : value;
   },
-  quantity: (opts) => faker.number.int({ min: opts?.min ?? 1, max: opts?.max ?? 100 }),
-  rating: () => faker.number.float({ min: 1, max: 5, fractionDigits: 1 }),
-  reviewCount: (opts) => faker.number.int({ min: opts?.min ?? 0, max: opts?.max ?? 500 }),
-  discount: () => `${faker.number.int({ min: 5, max: 50 })}%`,
+  rating: (f) => f.number.float({ min: 1, max: 5, fractionDigits: 1 }),
+  reviewCount: (f, opts) => f.number.int({ min: opts?.min ?? 0, max: opts?.max ?? 500 }),
+  discount: (f) => `${f.number.int({ min: 5, max: 50 })}%`,
 
   // Finance
-  amount: (opts) => {
-    const value = faker.number.float({
+  amount: (f, opts) => {
+    const value = f.number.float({
       min: opts?.min ?? 10,
       max: opts?.max ?? 10000,
       fractionDigits: 2
     });
     return `$${value.toLocaleString('en-US', { minimumFractionDigits: 2 })}`;
   },
-  currency: () => faker.finance.currencyCode(),
-  accountNumber: () => faker.finance.accountNumber(),
-  transactionType: () => faker.helpers.arrayElement(['Payment', 'Transfer', 'Deposit', 'Withdrawal', 'Refund']),
-  creditCard: () => faker.finance.creditCardNumber().replace(/\d(?=\d{4})/g, '*'),
+  currency: (f) => f.finance.currencyCode(),
+  accountNumber: (f) => f.finance.accountNumber(),
+  transactionType: (f) => f.helpers.arrayElement(['Payment', 'Transfer', 'Deposit', 'Withdrawal', 'Refund']),
+  creditCard: (f) => f.finance.creditCardNumber().replace(/\d(?=\d{4})/g, '*'),
 
   // Date
-  date: () => faker.date.recent({ days: 90 }).toLocaleDateString(),
-  time: () => faker.date.recent().toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' }),
-  datetime: () => faker.date.recent({ days: 30 }).toLocaleString(),
-  relativeTime: () => {
+  date: (f, opts) => {
+    // min/max are timestamps, when known from samples
+    const date = opts?.min !== undefined && opts?.max !== undefined
+      ? f.date.between({ from: opts.min, to: opts.max })
+      : f.date.recent({ days: 90 });
+    return formatDate(date, opts?.format, opts?.locale);
+  },
+  time: (f, opts) => f.date.recent().toLocaleTimeString(opts?.locale ?? [], { hour: '2-digit', minute: '2-digit', timeZone: 'UTC' }),
+  datetime: (f, opts) => f.date.recent({ days: 30 }).toLocaleString(opts?.locale, { timeZone: 'UTC' }),
+  relativeTime: (f) => {
     const units = ['just now', '5m ago', '1h ago', '2h ago', 'yesterday', '2 days ago', 'last week'];
-    return faker.helpers.arrayElement(units);
+    return f.helpers.arrayElement(units);
   },
-  dateRange: () => {
-    const start = faker.date.recent({ days: 30 });
-    const end = faker.date.soon({ days: 30, refDate: start });
-    return `${start.toLocaleDateString()} - ${end.toLocaleDateString()}`;
+  dateRange: (f, opts) => {
+    const start = f.date.recent({ days: 30 });
+    const end = f.date.soon({ days: 30, refDate: start });
+    const format = (date: Date) => date.toLocaleDateString(opts?.locale, { timeZone: 'UTC' });
+    return `${format(start)} - ${format(end)}`;
   },
 
   // Location
-  address: () => faker.location.streetAddress(),
-  city: () => faker.location.city(),
-  state: () => faker.location.state(),
-  country: () => faker.location.country(),
-  zipCode: () => faker.location.zipCode(),
-  coordinates: () => `${faker.location.latitude()}, ${faker.location.longitude()}`,
+  address: (f) => f.location.streetAddress(),
+  city: (f) => f.location.city(),
+  state: (f) => f.location.state(),
+  country: (f) => f.location.country(),
+  zipCode: (f) => f.location.zipCode(),
+  coordinates: (f) => `${f.location.latitude()}, ${f.location.longitude()}`,
 
   // Contact
-  website: () => faker.internet.url(),
-  socialHandle: () => `@${faker.internet.username().toLowerCase()}`,
+  website: (f) => f.internet.url(),
+  socialHandle: (f) => `@${f.internet.username().toLowerCase()}`,
 
   // Content
-  title: (opts) => faker.lorem.words(opts?.length ?? 4),
-  paragraph: (opts) => faker.lorem.paragraphs(opts?.length ?? 1),
-  sentence: () => faker.lorem.sentence(),
-  word: () => faker.lorem.word(),
-  slug: () => faker.lorem.slug(),
+  title: (f, opts) => f.lorem.words(opts?.length ?? 4),
+  paragraph: (f, opts) => f.lorem.paragraphs(opts?.length ?? 1),
+  sentence: (f) => f.lorem.sentence(),
+  word: (f) => f.lorem.word(),
+  slug: (f) => f.lorem.slug(),
 
   // Media
-  imageUrl: (opts) => faker.image.url({ width: opts?.width ?? 400, height: opts?.height ?? 300 }),
-  videoUrl: () => `https://example.com/video/${faker.string.alphanumeric(8)}.mp4`,
-  fileName: () => faker.system.fileName(),
-  fileSize: () => {
-    const size = faker.number.int({ min: 100, max: 50000 });
+  imageUrl: (f, opts) => f.image.url({ width: opts?.width ?? 400, height: opts?.height ?? 300 }),
+  videoUrl: (f) => `https://example.com/video/${f.string.alphanumeric(8)}.mp4`,
+  fileName: (f) => f.system.fileName(),
+  fileSize: (f) => {
+    const size = f.number.int({ min: 100, max: 50000 });
     if (size > 1000) return `${(size / 1000).toFixed(1)} MB`;
     return `${size} KB`;
   },
-  mimeType: () => faker.system.mimeType(),
+  mimeType: (f) => f.system.mimeType(),
 
   // Tech
-  uuid: () => faker.string.uuid().slice(0, 8),
-  ipAddress: () => faker.internet.ip(),
-  macAddress: () => faker.internet.mac(),
-  userAgent: () => faker.internet.userAgent().slice(0, 50) + '...',
-  version: () => faker.system.semver(),
+  uuid: (f) => f.string.uuid().slice(0, 8),
+  ipAddress: (f) => f.internet.ip(),
+  macAddress: (f) => f.internet.mac(),
+  userAgent: (f) => f.internet.userAgent().slice(0, 50) + '...',
+  version: (f) => f.system.semver(),
 
   // Analytics
-  percentage: (opts) => {
-    const value = faker.number.float({
+  percentage: (f, opts) => {
+    const value = f.number.float({
       min: opts?.min ?? 0,
       max: opts?.max ?? 100,
       fractionDigits: 1
@@ -373,13 +507,25 @@ const generators: Record<DataFieldType, (options?: DataFieldOptions) => string |
     const sign = value > 0 && (opts?.min ?? 0) < 0 ? '+' : '';
     return `${sign}${value}%`;
   },
-  count: (opts) => faker.number.int({ min: opts?.min ?? 0, max: opts?.max ?? 1000 }),
-  trend: () => faker.helpers.arrayElement(['↑', '↓', '→', '↗', '↘']),
-  status: (opts) => {
+  count: (f, opts) => {
+    const min = opts?.min ?? 0;
+    const max = opts?.max ?? 1000;
+    const value = opts?.decimals ? f.number.float({ min, max, fractionDigits: opts.decimals }) : f.number.int({ min, max });
+    return opts?.format || opts?.prefix || opts?.suffix || opts?.decimals ? formatNumber(value, opts) : value;
+  },
+  trend: (f) => f.helpers.arrayElement(['↑', '↓', '→', '↗', '↘']),
+  status: (f, opts) => {
     const values = opts?.values ?? ['Active', 'Inactive', 'Pending'];
-    return faker.helpers.arrayElement(values);
+    return f.helpers.arrayElement(values);
   },
-  priority: () => faker.helpers.arrayElement(['Low', 'Medium', 'High', 'Critical'])
+  priority: (f) => f.helpers.arrayElement(['Low', 'Medium', 'High', 'Critical']),
+
+  // Inferred from samples
+  pattern: (f, opts) => f.helpers.replaceSymbols(opts?.format ?? '####'),
+  enum: (f, opts) => f.helpers.arrayElement(opts?.values?.length ? opts.values : ['']),
+
+  // Relationships are resolved by generateRow; on its own a reference is a row id
+  reference: (f, opts) => String(f.number.int({ min: 1, max: opts?.refCount ?? 10 }))
 };
 
 // ============================================================================
@@ -387,49 +533,130 @@ const generators: Record<DataFieldType, (options?: DataFieldOptions) => string |
 // ============================================================================
 
 /**
- * Generate a single field value
+ * Generate a single field value. Unseeded unless a seeded faker is passed.
  */
-export function generateFieldValue(fieldType: DataFieldType, options?: DataFieldOptions): string | number {
+export function generateFieldValue(
+  fieldType: DataFieldType,
+  options?: DataFieldOptions,
+  fakerInstance: Faker = faker
+): string | number {
   const generator = generators[fieldType];
   if (!generator) {
     console.warn(`[MockDataGenerator] Unknown field type: ${fieldType}`);
-    return faker.lorem.word();
+    return fakerInstance.lorem.word();
   }
-  return generator(options);
+  return generator(fakerInstance, options);
 }
 
 /**
- * Generate a single row of data based on schema
+ * Generate row `index` of a schema. The row has a stable `id` (index + 1),
+ * and reference fields add `{field}Id` pointing at the referenced row.
  */
-export function generateRow(schema: DataSchema): GeneratedRow {
-  const row: GeneratedRow = {};
+export function generateRow(schema: DataSchema, index: number = 0, options: GenerateOptions = {}): GeneratedRow {
+  const seed = options.seed ?? schema.seed ?? DEFAULT_MOCK_SEED;
+  const locale = options.locale ?? schema.locale ?? 'en';
+  const f = getFaker(locale);
+  const tag = MOCK_DATA_LOCALES[locale]?.tag;
+
+  const row: GeneratedRow = { id: String(index + 1) };
   for (const field of schema.fields) {
-    row[field.name] = generateFieldValue(field.type, field.options);
+    // Each field has its own seed, so adding or reordering fields leaves the others alone
+    f.seed(seedFromString(`${seed}:${schema.name}:${index}:${field.name}`));
+    f.setDefaultRefDate(options.referenceDate ?? DEFAULT_REFERENCE_DATE);
+
+    const refSchema = field.type === 'reference' && field.options?.ref
+      ? options.schemas?.[field.options.ref] ?? PREDEFINED_SCHEMAS[field.options.ref]
+      : undefined;
+    if (refSchema) {
+      const refIndex = f.number.int({ min: 0, max: (field.options?.refCount ?? 10) - 1 });
+      // Referenced rows don't follow their own references, which keeps cycles finite
+      const refRow = generateRow(
+        { ...refSchema, fields: refSchema.fields.filter(refField => refField.type !== 'reference') },
+        refIndex,
+        options
+      );
+      row[field.name] = refRow[field.options?.refField ?? refSchema.fields[0]?.name] ?? refRow.id;
+      row[`${field.name}Id`] = refRow.id;
+      continue;
+    }
+
+    row[field.name] = generateFieldValue(field.type, { ...field.options, locale: field.options?.locale ?? tag }, f);
   }
   return row;
 }
 
 /**
- * Generate multiple rows of data
+ * Generate rows 0..count-1; growing count keeps the earlier rows unchanged
  */
-export function generateRows(schema: DataSchema, count: number): GeneratedRow[] {
+export function generateRows(schema: DataSchema, count: number, options: GenerateOptions = {}): GeneratedRow[] {
   const rows: GeneratedRow[] = [];
   for (let i = 0; i < count; i++) {
-    rows.push(generateRow(schema));
+    rows.push(generateRow(schema, i, options));
   }
   return rows;
 }
 
+/**
+ * Generate related schemas together, e.g. { users, orders } where orders reference users.
+ * References resolve to rows of the generated sets when they are large enough.
+ */
+export function generateDataset(
+  schemas: Record<string, DataSchema>,
+  counts: number | Record<string, number>,
+  options: GenerateOptions = {}
+): Record<string, GeneratedRow[]> {
+  const countOf = (key: string) => (typeof counts === 'number' ? counts : counts[key] ?? 10);
+  const linked: Record<string, DataSchema> = {};
+
+  // Pick references from the rows that will actually exist
+  for (const [key, schema] of Object.entries(schemas)) {
+    linked[key] = {
+      ...schema,
+      fields: schema.fields.map(field =>
+        field.type === 'reference' && field.options?.ref && schemas[field.options.ref]
+          ? { ...field, options: { ...field.options, refCount: countOf(field.options.ref) } }
+          : field
+      )
+    };
+  }
+
+  const dataset: Record<string, GeneratedRow[]> = {};
+  for (const key of Object.keys(linked)) {
+    dataset[key] = generateRows(linked[key], countOf(key), { ...options, schemas: { ...options.schemas, ...linked } });
+  }
+  return dataset;
+}
+
 /**
  * Generate data using a predefined schema name
  */
-export function generateFromPreset(presetName: string, count: number = 5): GeneratedRow[] {
+export function generateFromPreset(presetName: string, count: number = 5, options: GenerateOptions = {}): GeneratedRow[] {
   const schema = PREDEFINED_SCHEMAS[presetName];
   if (!schema) {
     console.warn(`[MockDataGenerator] Unknown preset: ${presetName}`);
     return [];
   }
-  return generateRows(schema, count);
+  return generateRows(schema, count, options);
+}
+
+function normalizeFieldName(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+/**
+ * Find the schema field a header, label or input name refers to
+ */
+export function matchField(label: string, fields: string[]): string | null {
+  const key = normalizeFieldName(label);
+  if (!key) return null;
+
+  const exact = fields.find(f => normalizeFieldName(f) === key);
+  if (exact) return exact;
+
+  return fields.find(f => {
+    const field = normalizeFieldName(f);
+    return field.length >= 3 && key.length >= 3 && (key.includes(field) || field.includes(key));
+  }) ?? null;
 }
 
 /**
@@ -499,7 +726,8 @@ export function detectSchemaFromHeaders(headers: string[]): DataSchema | null {
 export function populateTable(
   tableHtml: string,
   rowCount: number = 10,
-  schemaOverride?: DataSchema
+  schemaOverride?: DataSchema,
+  options: GenerateOptions = {}
 ): string {
   const parser = new DOMParser();
   const doc = parser.parseFromString(tableHtml, 'text/html');
@@ -520,8 +748,18 @@ export function populateTable(
   const schema = schemaOverride || detectSchemaFromHeaders(headers);
   if (!schema) return tableHtml;
 
+  // Columns without a schema field get filler words, seeded like the rest
+  const fieldFor = (header: string) => {
+    const h = header.toLowerCase();
+    return schema.fields.find(f => f.name.toLowerCase() === h) ??
+      schema.fields.find(f => h.includes(f.name.toLowerCase()));
+  };
+  const fillerFields: DataField[] = headers
+    .filter(header => !fieldFor(header))
+    .map(header => ({ name: header, type: 'word' }));
+
   // Generate data
-  const rows = generateRows(schema, rowCount);
+  const rows = generateRows({ ...schema, fields: [...schema.fields, ...fillerFields] }, rowCount, options);
 
   // Clear existing tbody rows
   const existingRows = tbody.querySelectorAll('tr');
@@ -535,13 +773,10 @@ export function populateTable(
   rows.forEach(rowData => {
     const tr = doc.createElement('tr');
 
+    tr.setAttribute('data-voxel-record', String(rowData.id));
     headers.forEach(header => {
       const td = doc.createElement('td');
-      const fieldName = Object.keys(rowData).find(
-        k => k.toLowerCase() === header.toLowerCase() ||
-             header.toLowerCase().includes(k.toLowerCase())
-      );
-      td.textContent = String(fieldName ? rowData[fieldName] : generateFieldValue('word'));
+      td.textContent = String(rowData[fieldFor(header)?.name ?? header]);
       tr.appendChild(td);
     });
 
@@ -554,8 +789,13 @@ export function populateTable(
 /**
  * Generate injection code for populating elements with mock data
  */
-export function generatePopulateScript(selector: string, dataType: string, count: number = 5): string {
-  const rows = generateFromPreset(dataType, count);
+export function generatePopulateScript(
+  selector: string,
+  dataType: string,
+  count: number = 5,
+  options: GenerateOptions = {}
+): string {
+  const rows = generateFromPreset(dataType, count, options);
 
   return `
 (function() {
@@ -565,9 +805,11 @@ export function generatePopulateScript(selector: string, dataType: string, count
   containers.forEach((container, index) => {
     if (index >= data.length) return;
     const row = data[index];
+    container.setAttribute('data-voxel-record', row.id);
 
     // Try to populate child elements
     Object.entries(row).forEach(([key, value]) => {
+      if (key === 'id') return;
       const el = container.querySelector(\`[data-field="\${key}"], .\${key}, [class*="\${key}"]\`);
       if (el) {
         el.textContent = String(value);
@@ -576,7 +818,7 @@ export function generatePopulateScript(selector: string, dataType: string, count
 
     // If no specific fields found, populate text content
     if (!container.querySelector('[data-field]')) {
-      const firstValue = Object.values(row)[0];
+      const firstValue = Object.values(row)[1];
       if (container.childElementCount === 0) {
         container.textContent = String(firstValue);
       }
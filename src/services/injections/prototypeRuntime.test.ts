@@ -0,0 +1,219 @@
+/**
+ * Tests for the flow, usability and interaction runtimes, running the
+ * compiled scripts in jsdom
+ */
+
+import { describe, it, expect, vi, beforeAll, beforeEach } from 'vitest';
+import {
+  compileFlowRuntime,
+  compileInteractionRecorder,
+  compileUsabilityRuntime,
+  createUsabilityTaskTracker,
+  type UsabilityTask,
+} from './prototypeRuntime';
+
+interface RuntimeFlow {
+  state: { fields: Record<string, string> };
+  setPicking: (enabled: boolean) => void;
+  send: (type: string, payload: unknown) => void;
+}
+
+let flow: RuntimeFlow;
+
+beforeAll(() => {
+  new Function(
+    compileFlowRuntime({
+      nodeId: 'cart',
+      hotspots: [
+        { selector: '#checkout', target: 'payment', transition: 'slide-left' },
+        { selector: 'a.back', target: 'home', transition: 'fade' },
+      ],
+      state: { fields: { email: 'ada@example.com' } },
+    })
+  )();
+  flow = (window as unknown as { VoxelFlow: RuntimeFlow }).VoxelFlow;
+});
+
+beforeEach(() => {
+  document.body.innerHTML = `
+    <form>
+      <input name="email" type="email">
+      <input name="promo" required>
+      <button id="checkout" type="submit"><span>Checkout</span></button>
+    </form>
+    <a class="back" href="/">Back</a>
+  `;
+  flow.setPicking(false);
+});
+
+describe('compileFlowRuntime', () => {
+  it('should follow hotspots and carry form values', () => {
+    const send = vi.spyOn(flow, 'send').mockImplementation(() => {});
+    document.querySelector<HTMLInputElement>('input[name="email"]')!.value = 'alan@example.com';
+
+    document.querySelector<HTMLElement>('a.back')!.click();
+
+    expect(send).toHaveBeenCalledWith('flow-navigate', {
+      target: 'home',
+      transition: 'fade',
+      state: { fields: { email: 'alan@example.com', promo: '' } },
+    });
+    send.mockRestore();
+  });
+
+  it('should stay on the screen when a submit hotspot has an invalid form', () => {
+    const send = vi.spyOn(flow, 'send').mockImplementation(() => {});
+
+    document.querySelector<HTMLElement>('#checkout span')!.click();
+    expect(send).not.toHaveBeenCalled();
+
+    document.querySelector<HTMLInputElement>('input[name="promo"]')!.value = 'SPRING';
+    document.querySelector<HTMLElement>('#checkout span')!.click();
+    expect(send).toHaveBeenCalledWith('flow-navigate', expect.objectContaining({ target: 'payment' }));
+    send.mockRestore();
+  });
+
+  it('should report the clicked element in pick mode', () => {
+    const send = vi.spyOn(flow, 'send').mockImplementation(() => {});
+    const back = document.querySelector<HTMLElement>('a.back')!;
+
+    flow.setPicking(true);
+    document.querySelector<HTMLElement>('#checkout span')!.click();
+    back.click();
+    back.setAttribute('data-vx-id', 'vx-back');
+    back.click();
+
+    expect(send.mock.calls).toEqual([
+      ['flow-picked', { selector: '#checkout', label: 'Checkout' }],
+      ['flow-picked', { selector: 'body > a', label: 'Back' }],
+      ['flow-picked', { selector: '[data-vx-id="vx-back"]', label: 'Back' }],
+    ]);
+    send.mockRestore();
+  });
+});
+
+interface RuntimeUsability {
+  start: (task: UsabilityTask) => void;
+  stop: () => void;
+  send: (type: string, payload: unknown) => void;
+}
+
+describe('compileUsabilityRuntime', () => {
+  let usability: RuntimeUsability;
+
+  beforeAll(() => {
+    new Function(compileUsabilityRuntime())();
+    usability = (window as unknown as { VoxelUsability: RuntimeUsability }).VoxelUsability;
+  });
+
+  it('should count misclicks and report success when the target is clicked', () => {
+    const send = vi.spyOn(usability, 'send').mockImplementation(() => {});
+    document.body.innerHTML = '<p>Orders</p><a href="#">Help</a><button id="refund"><span>Refund</span></button>';
+
+    usability.start({ id: 't1', prompt: 'Find the refund button', criterion: { type: 'click', selector: '#refund' } });
+    document.querySelector<HTMLElement>('p')!.click();
+    document.querySelector<HTMLElement>('a')!.click();
+    document.querySelector<HTMLElement>('#refund span')!.click();
+    document.querySelector<HTMLElement>('#refund')!.click();
+
+    expect(send.mock.calls).toEqual([
+      ['usability-click', { taskId: 't1', misclick: true }],
+      ['usability-click', { taskId: 't1', misclick: false }],
+      ['usability-click', { taskId: 't1', misclick: false }],
+      ['usability-success', { taskId: 't1' }],
+    ]);
+    send.mockRestore();
+  });
+
+  it('should report success once the URL is reached', () => {
+    const send = vi.spyOn(usability, 'send').mockImplementation(() => {});
+    window.location.hash = '';
+
+    usability.start({ id: 't2', prompt: 'Open refunds', criterion: { type: 'url', contains: '#/refunds' } });
+    expect(send).not.toHaveBeenCalled();
+
+    window.location.hash = '#/refunds/new';
+    usability.start({ id: 't2', prompt: 'Open refunds', criterion: { type: 'url', contains: '#/refunds' } });
+    expect(send).toHaveBeenCalledWith('usability-success', { taskId: 't2' });
+
+    usability.stop();
+    window.location.hash = '';
+    send.mockRestore();
+  });
+});
+
+describe('createUsabilityTaskTracker', () => {
+  const task: UsabilityTask = { id: 't1', prompt: 'Find refunds', criterion: { type: 'click', selector: '#refund' } };
+  const message = (type: string, payload: object) => ({ source: 'voxel-prototype', type, payload });
+
+  it('should measure time on task and misclicks until success', () => {
+    let clock = 1000;
+    const tracker = createUsabilityTaskTracker(task, () => clock);
+
+    tracker.handleMessage(message('usability-click', { taskId: 't1', misclick: true }));
+    tracker.handleMessage(message('usability-click', { taskId: 'other', misclick: true }));
+    tracker.handleMessage(message('usability-click', { taskId: 't1', misclick: false }));
+    clock = 8500;
+    expect(tracker.handleMessage(message('usability-success', { taskId: 't1' }))).toBe(true);
+
+    clock = 20000;
+    expect(tracker.getResult(4)).toEqual({
+      taskId: 't1',
+      outcome: 'success',
+      durationMs: 7500,
+      clicks: 2,
+      misclicks: 1,
+      rating: 4,
+    });
+  });
+
+  it('should keep the first outcome', () => {
+    const tracker = createUsabilityTaskTracker(task, () => 0);
+    expect(tracker.getResult()).toBeNull();
+
+    tracker.finish('abandoned');
+    expect(tracker.handleMessage(message('usability-success', { taskId: 't1' }))).toBe(false);
+    expect(tracker.getResult()?.outcome).toBe('abandoned');
+  });
+});
+
+interface RuntimeInteractions {
+  buffer: { type: string }[];
+  flush: () => void;
+  send: (type: string, payload: unknown) => void;
+}
+
+describe('compileInteractionRecorder', () => {
+  let interactions: RuntimeInteractions;
+
+  beforeAll(() => {
+    new Function(compileInteractionRecorder())();
+    interactions = (window as unknown as { VoxelInteractions: RuntimeInteractions }).VoxelInteractions;
+  });
+
+  it('should batch clicks as page fractions and flag rage clicks once per burst', () => {
+    const send = vi.spyOn(interactions, 'send').mockImplementation(() => {});
+    interactions.buffer.length = 0;
+    document.body.innerHTML = '<button data-vx-id="vx-3"><span>Pay</span></button>';
+    const root = document.documentElement;
+    Object.defineProperty(root, 'scrollWidth', { configurable: true, value: 1000 });
+    Object.defineProperty(root, 'scrollHeight', { configurable: true, value: 2000 });
+
+    const span = document.querySelector('span')!;
+    for (let i = 0; i < 4; i++) {
+      span.dispatchEvent(new MouseEvent('click', { bubbles: true, clientX: 250, clientY: 500 }));
+    }
+    expect(send).not.toHaveBeenCalled();
+
+    interactions.flush();
+    const [[type, payload]] = send.mock.calls as [string, { events: Record<string, unknown>[] }][];
+    expect(type).toBe('analytics-batch');
+    expect(payload.events.map((e) => e.type)).toEqual(['click', 'click', 'click', 'rage_click', 'click']);
+    expect(payload.events[0]).toMatchObject({ x: 0.25, y: 0.25, selector: '[data-vx-id="vx-3"]' });
+    expect(interactions.buffer).toHaveLength(0);
+
+    delete (root as { scrollWidth?: number }).scrollWidth;
+    delete (root as { scrollHeight?: number }).scrollHeight;
+    send.mockRestore();
+  });
+});
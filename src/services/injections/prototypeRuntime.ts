@@ -5,6 +5,9 @@
 
 import { compileInjections, getRuntimeCore } from './injectionCompiler';
 import type { InjectionConfig } from './injectionCompiler';
+import { compileMockBackend } from './mockBackend';
+import type { MockBackendConfig } from './mockBackend';
+import type { FlowTransition } from '../flowService';
 
 // ============================================================================
 // Types
@@ -24,10 +27,99 @@ export interface RuntimeEventPayload {
 
 export interface RuntimeOptions {
   enableLogging?: boolean;
+  /** Report interactions: single events as they happen, heatmap events in batches */
   enableAnalytics?: boolean;
   sandboxMode?: boolean;
   mockDataEnabled?: boolean;
   parentOrigin?: string;
+  /** Stateful fake API; loaded before the injections that bind to it */
+  mockBackend?: MockBackendConfig;
+  /** Makes the prototype one screen of a multi-screen flow */
+  flow?: FlowRuntimeConfig;
+  /** Load the usability-test runtime; tasks are started by message */
+  usabilityTest?: boolean;
+}
+
+/**
+ * State carried between the screens of a flow. `fields` holds the values of
+ * named form fields, which are filled back in on later screens.
+ */
+export interface FlowState {
+  fields?: Record<string, string>;
+  [key: string]: unknown;
+}
+
+export interface FlowRuntimeConfig {
+  nodeId: string;
+  hotspots: { selector: string; target: string; transition: FlowTransition }[];
+  state?: FlowState;
+  /** Flash the hotspots when a click misses them */
+  hotspotHints?: boolean;
+}
+
+export interface FlowNavigatePayload {
+  target: string;
+  transition: FlowTransition;
+  state: FlowState;
+}
+
+export interface FlowPickedPayload {
+  selector: string;
+  label: string;
+}
+
+/**
+ * When a usability task counts as done: the participant clicks an element,
+ * the prototype's URL reaches a path/hash, or a runtime state key is set
+ * (to a given value, or to anything when none is given)
+ */
+export type UsabilityCriterion =
+  | { type: 'click'; selector: string }
+  | { type: 'url'; contains: string }
+  | { type: 'state'; key: string; value?: string };
+
+export interface UsabilityTask {
+  id: string;
+  /** What the participant is asked to do, e.g. "Find the refund button" */
+  prompt: string;
+  criterion: UsabilityCriterion;
+}
+
+/**
+ * success - the criterion was met; fail - the participant said they were
+ * done without meeting it; abandoned - they gave up
+ */
+export type UsabilityOutcome = 'success' | 'fail' | 'abandoned';
+
+export interface UsabilityTaskResult {
+  taskId: string;
+  outcome: UsabilityOutcome;
+  durationMs: number;
+  clicks: number;
+  /** Clicks that landed on nothing actionable */
+  misclicks: number;
+  /** Post-task ease rating, 1 (hard) to 5 (easy) */
+  rating?: number;
+}
+
+export type InteractionEventType = 'click' | 'move' | 'scroll' | 'rage_click';
+
+/**
+ * One heatmap event. x and y are fractions (0-1) of the document's width and
+ * height; scroll events carry the deepest fraction of the page seen so far.
+ */
+export interface InteractionEvent {
+  type: InteractionEventType;
+  x?: number;
+  y?: number;
+  depth?: number;
+  selector?: string;
+  /** Epoch milliseconds */
+  t: number;
+}
+
+export interface AnalyticsBatchPayload {
+  events: InteractionEvent[];
 }
 
 // ============================================================================
@@ -134,6 +226,32 @@ const COMMUNICATION_BRIDGE = `
             el.style.outlineOffset = '';
           });
           break;
+
+        case 'mock-reset':
+          // Restore the mock backend's seed data
+          if (window.VoxelMockBackend) {
+            window.VoxelMockBackend.reset();
+          }
+          break;
+
+        case 'flow-pick':
+          // Next click reports the element instead of acting on it
+          if (window.VoxelFlow) {
+            window.VoxelFlow.setPicking(!!message.payload.enabled);
+          }
+          break;
+
+        case 'usability-start':
+          if (window.VoxelUsability) {
+            window.VoxelUsability.start(message.payload.task);
+          }
+          break;
+
+        case 'usability-stop':
+          if (window.VoxelUsability) {
+            window.VoxelUsability.stop();
+          }
+          break;
       }
     },
 
@@ -244,6 +362,421 @@ const COMMUNICATION_BRIDGE = `
 })(window);
 `;
 
+// ============================================================================
+// Flow Runtime Script
+// ============================================================================
+
+const FLOW_RUNTIME = `
+// Voxel Flow Runtime
+(function(window) {
+  'use strict';
+
+  const config = __VOXEL_FLOW__;
+  const SKIP_INPUTS = ['password', 'file', 'submit', 'button', 'reset', 'hidden'];
+
+  const VoxelFlow = {
+    nodeId: config.nodeId,
+    hotspots: config.hotspots || [],
+    state: Object.assign({ fields: {} }, config.state || {}),
+    picking: false,
+
+    init() {
+      const style = document.createElement('style');
+      style.textContent = '.voxel-flow-hint { outline: 2px solid rgba(59, 130, 246, 0.8) !important; background-color: rgba(59, 130, 246, 0.12) !important; transition: none !important; }' +
+        '.voxel-flow-pick { outline: 2px dashed #764ba2 !important; outline-offset: 2px; cursor: crosshair !important; }';
+      document.head.appendChild(style);
+
+      this.restore();
+      document.addEventListener('click', this.handleClick.bind(this), true);
+      document.addEventListener('mouseover', (e) => this.picking && e.target.classList.add('voxel-flow-pick'), true);
+      document.addEventListener('mouseout', (e) => e.target.classList && e.target.classList.remove('voxel-flow-pick'), true);
+    },
+
+    inputs() {
+      return Array.from(document.querySelectorAll('input[name], textarea[name], select[name]'))
+        .filter(input => !SKIP_INPUTS.includes(input.type));
+    },
+
+    // Fill named fields and [data-voxel-bind] elements from earlier screens
+    restore() {
+      const fields = this.state.fields || {};
+      this.inputs().forEach(input => {
+        if (!(input.name in fields)) return;
+        if (input.type === 'checkbox' || input.type === 'radio') {
+          input.checked = fields[input.name] === input.value;
+        } else {
+          input.value = fields[input.name];
+        }
+      });
+      document.querySelectorAll('[data-voxel-bind]').forEach(el => {
+        const value = this.get(el.getAttribute('data-voxel-bind'));
+        if (value !== undefined && value !== '') el.textContent = String(value);
+      });
+    },
+
+    collect() {
+      const fields = Object.assign({}, this.state.fields);
+      this.inputs().forEach(input => {
+        if (input.type === 'radio' && !input.checked) return;
+        if (input.type === 'checkbox') {
+          fields[input.name] = input.checked ? input.value : '';
+          return;
+        }
+        fields[input.name] = input.value;
+      });
+      this.state.fields = fields;
+      return this.state;
+    },
+
+    get(key) {
+      return key in this.state ? this.state[key] : (this.state.fields || {})[key];
+    },
+
+    set(key, value) {
+      this.state[key] = value;
+      this.restore();
+    },
+
+    go(target, transition) {
+      this.send('flow-navigate', { target, transition: transition || 'none', state: this.collect() });
+    },
+
+    setPicking(enabled) {
+      this.picking = enabled;
+      if (!enabled) {
+        document.querySelectorAll('.voxel-flow-pick').forEach(el => el.classList.remove('voxel-flow-pick'));
+      }
+    },
+
+    match(target) {
+      for (const hotspot of this.hotspots) {
+        try {
+          const el = target.closest(hotspot.selector);
+          if (el) return { hotspot, el };
+        } catch (e) {
+          // Invalid selector; skip it
+        }
+      }
+      return null;
+    },
+
+    handleClick(e) {
+      if (!(e.target instanceof Element)) return;
+
+      if (this.picking) {
+        e.preventDefault();
+        e.stopPropagation();
+        const el = e.target.closest('a, button, [role="button"], input, select, label, li, tr, [onclick], [class*="card"]') || e.target;
+        el.classList.remove('voxel-flow-pick');
+        const label = (el.getAttribute('aria-label') || el.textContent || el.value || el.tagName).trim().replace(/\\s+/g, ' ').slice(0, 40);
+        this.send('flow-picked', { selector: this.selectorFor(el), label });
+        return;
+      }
+
+      const found = this.match(e.target);
+      if (!found) {
+        if (config.hotspotHints) this.hint();
+        return;
+      }
+
+      // A submit hotspot in an invalid form stays put, like the real thing
+      const form = found.el.closest('form');
+      const submits = found.el.matches('button:not([type]), [type="submit"]');
+      if (form && submits && !form.checkValidity()) {
+        e.preventDefault();
+        form.reportValidity();
+        return;
+      }
+
+      e.preventDefault();
+      e.stopPropagation();
+      this.go(found.hotspot.target, found.hotspot.transition);
+    },
+
+    hint() {
+      const elements = [];
+      this.hotspots.forEach(hotspot => {
+        try {
+          document.querySelectorAll(hotspot.selector).forEach(el => elements.push(el));
+        } catch (e) {
+          // Invalid selector; skip it
+        }
+      });
+      elements.forEach(el => el.classList.add('voxel-flow-hint'));
+      setTimeout(() => elements.forEach(el => el.classList.remove('voxel-flow-hint')), 600);
+    },
+
+    // Stable ids first, then a path of nth-of-type steps from <body>
+    selectorFor(el) {
+      const vxId = el.getAttribute('data-vx-id');
+      if (vxId) return '[data-vx-id="' + vxId + '"]';
+      if (el.id && document.querySelectorAll('#' + CSS.escape(el.id)).length === 1) return '#' + CSS.escape(el.id);
+
+      const steps = [];
+      for (let node = el; node && node !== document.body && node.parentElement; node = node.parentElement) {
+        const siblings = Array.from(node.parentElement.children).filter(c => c.tagName === node.tagName);
+        const tag = node.tagName.toLowerCase();
+        steps.unshift(siblings.length > 1 ? tag + ':nth-of-type(' + (siblings.indexOf(node) + 1) + ')' : tag);
+      }
+      return ['body'].concat(steps).join(' > ');
+    },
+
+    send(type, payload) {
+      const message = { type, payload, timestamp: Date.now(), source: 'voxel-prototype' };
+      if (window.parent !== window) {
+        window.parent.postMessage(message, '*');
+      }
+    }
+  };
+
+  window.VoxelFlow = VoxelFlow;
+
+  if (document.readyState === 'loading') {
+    document.addEventListener('DOMContentLoaded', () => VoxelFlow.init());
+  } else {
+    VoxelFlow.init();
+  }
+})(window);
+`;
+
+/**
+ * Compile the flow runtime for one screen of a flow
+ */
+export function compileFlowRuntime(config: FlowRuntimeConfig): string {
+  // Escape "<" so state text can never close the surrounding <script>
+  const json = JSON.stringify(config).replace(/</g, '\\u003c');
+  return FLOW_RUNTIME.replace('__VOXEL_FLOW__', () => json);
+}
+
+// ============================================================================
+// Interaction Recorder Script
+// ============================================================================
+
+const INTERACTION_RECORDER = `
+// Voxel Interaction Recorder
+(function(window) {
+  'use strict';
+
+  const FLUSH_INTERVAL = 5000;
+  const MAX_BATCH = 50;
+  const MOVE_INTERVAL = 150;
+  // Depth is reported in steps so scrolling doesn't send an event per frame
+  const DEPTH_STEP = 0.05;
+  const RAGE_CLICKS = 3;
+  const RAGE_WINDOW = 700;
+  const RAGE_RADIUS = 30;
+
+  const VoxelInteractions = {
+    buffer: [],
+    maxDepth: 0,
+    lastMove: 0,
+    recentClicks: [],
+
+    init() {
+      document.addEventListener('click', this.handleClick.bind(this), true);
+      document.addEventListener('mousemove', this.handleMove.bind(this), true);
+      window.addEventListener('scroll', this.handleScroll.bind(this), true);
+      document.addEventListener('visibilitychange', () => document.visibilityState === 'hidden' && this.flush());
+      window.addEventListener('pagehide', () => this.flush());
+      setInterval(() => this.flush(), FLUSH_INTERVAL);
+
+      // What's visible without scrolling counts as seen
+      this.handleScroll();
+    },
+
+    position(e) {
+      const doc = document.documentElement;
+      const clamp = (value) => Math.min(1, Math.max(0, value));
+      return {
+        x: clamp((e.clientX + window.scrollX) / Math.max(doc.scrollWidth, 1)),
+        y: clamp((e.clientY + window.scrollY) / Math.max(doc.scrollHeight, 1))
+      };
+    },
+
+    selectorFor(el) {
+      if (!(el instanceof Element)) return undefined;
+      const vxId = el.closest('[data-vx-id]');
+      if (vxId) return '[data-vx-id="' + vxId.getAttribute('data-vx-id') + '"]';
+      if (el.id) return '#' + el.id;
+      return el.tagName.toLowerCase();
+    },
+
+    handleClick(e) {
+      const point = this.position(e);
+      const selector = this.selectorFor(e.target);
+      this.record(Object.assign({ type: 'click', selector }, point));
+
+      // Repeated clicks on one spot read as frustration; report each burst once
+      const now = Date.now();
+      const x = e.clientX + window.scrollX;
+      const y = e.clientY + window.scrollY;
+      this.recentClicks = this.recentClicks
+        .filter(c => now - c.t < RAGE_WINDOW && Math.abs(c.x - x) < RAGE_RADIUS && Math.abs(c.y - y) < RAGE_RADIUS)
+        .concat({ t: now, x, y });
+      if (this.recentClicks.length === RAGE_CLICKS) {
+        this.record(Object.assign({ type: 'rage_click', selector }, point));
+      }
+    },
+
+    handleMove(e) {
+      const now = Date.now();
+      if (now - this.lastMove < MOVE_INTERVAL) return;
+      this.lastMove = now;
+      this.record(Object.assign({ type: 'move' }, this.position(e)));
+    },
+
+    handleScroll() {
+      const doc = document.documentElement;
+      const depth = Math.min(1, (window.scrollY + window.innerHeight) / Math.max(doc.scrollHeight, 1));
+      if (depth >= this.maxDepth + DEPTH_STEP || (depth === 1 && this.maxDepth < 1)) {
+        this.maxDepth = depth;
+        this.record({ type: 'scroll', depth });
+      }
+    },
+
+    record(event) {
+      this.buffer.push(Object.assign({ t: Date.now() }, event));
+      if (this.buffer.length >= MAX_BATCH) this.flush();
+    },
+
+    flush() {
+      if (this.buffer.length === 0) return;
+      this.send('analytics-batch', { events: this.buffer.splice(0) });
+    },
+
+    send(type, payload) {
+      const message = { type, payload, timestamp: Date.now(), source: 'voxel-prototype' };
+      if (window.parent !== window) {
+        window.parent.postMessage(message, '*');
+      }
+    }
+  };
+
+  window.VoxelInteractions = VoxelInteractions;
+
+  if (document.readyState === 'loading') {
+    document.addEventListener('DOMContentLoaded', () => VoxelInteractions.init());
+  } else {
+    VoxelInteractions.init();
+  }
+})(window);
+`;
+
+/**
+ * Compile the interaction recorder that batches heatmap events
+ */
+export function compileInteractionRecorder(): string {
+  return INTERACTION_RECORDER;
+}
+
+// ============================================================================
+// Usability Runtime Script
+// ============================================================================
+
+const USABILITY_RUNTIME = `
+// Voxel Usability Runtime
+(function(window) {
+  'use strict';
+
+  // A click inside none of these is a misclick
+  const ACTIONABLE = 'a, button, input, select, textarea, label, summary, [role="button"], [role="link"], [role="tab"], [role="menuitem"], [onclick], [tabindex]';
+
+  const VoxelUsability = {
+    task: null,
+    timer: null,
+
+    init() {
+      document.addEventListener('click', this.handleClick.bind(this), true);
+    },
+
+    start(task) {
+      this.stop();
+      this.task = task;
+      // URL and state can change without a click (timers, form submits)
+      this.timer = setInterval(() => this.check(), 250);
+      this.check();
+    },
+
+    stop() {
+      clearInterval(this.timer);
+      this.timer = null;
+      this.task = null;
+    },
+
+    handleClick(e) {
+      if (!this.task || !(e.target instanceof Element)) return;
+
+      const criterion = this.task.criterion;
+      let hit = false;
+      if (criterion.type === 'click') {
+        try {
+          hit = !!e.target.closest(criterion.selector);
+        } catch (err) {
+          // Invalid selector; the task can't be met by clicking
+        }
+      }
+
+      this.send('usability-click', { taskId: this.task.id, misclick: !hit && !e.target.closest(ACTIONABLE) });
+      if (hit) {
+        this.succeed();
+      } else {
+        setTimeout(() => this.check(), 0);
+      }
+    },
+
+    check() {
+      if (!this.task) return;
+      const criterion = this.task.criterion;
+
+      if (criterion.type === 'url' && criterion.contains) {
+        const url = window.location.pathname + window.location.search + window.location.hash;
+        if (url.indexOf(criterion.contains) !== -1) this.succeed();
+      } else if (criterion.type === 'state' && criterion.key) {
+        const value = this.stateValue(criterion.key);
+        const reached = criterion.value
+          ? value !== undefined && value !== null && String(value) === criterion.value
+          : value !== undefined && value !== null && value !== '' && value !== false;
+        if (reached) this.succeed();
+      }
+    },
+
+    stateValue(key) {
+      const state = window.VoxelRuntime && window.VoxelRuntime.state;
+      if (state && key in state) return state[key];
+      return window.VoxelFlow ? window.VoxelFlow.get(key) : undefined;
+    },
+
+    succeed() {
+      const taskId = this.task.id;
+      this.stop();
+      this.send('usability-success', { taskId });
+    },
+
+    send(type, payload) {
+      const message = { type, payload, timestamp: Date.now(), source: 'voxel-prototype' };
+      if (window.parent !== window) {
+        window.parent.postMessage(message, '*');
+      }
+    }
+  };
+
+  window.VoxelUsability = VoxelUsability;
+
+  if (document.readyState === 'loading') {
+    document.addEventListener('DOMContentLoaded', () => VoxelUsability.init());
+  } else {
+    VoxelUsability.init();
+  }
+})(window);
+`;
+
+/**
+ * Compile the usability-test runtime
+ */
+export function compileUsabilityRuntime(): string {
+  return USABILITY_RUNTIME;
+}
+
 // ============================================================================
 // Main Functions
 // ============================================================================
@@ -273,6 +806,10 @@ window.__VOXEL_OPTIONS__ = ${JSON.stringify({
   // Create the full injection script
   const injectionScript = `
 <script>
+${options.mockBackend ? compileMockBackend(options.mockBackend) : ''}
+${options.flow ? compileFlowRuntime(options.flow) : ''}
+${options.usabilityTest ? USABILITY_RUNTIME : ''}
+${options.enableAnalytics ? INTERACTION_RECORDER : ''}
 // Voxel Prototype Runtime
 ${bundle.fullScript}
 
@@ -299,14 +836,19 @@ ${COMMUNICATION_BRIDGE}
  * Inject only the runtime core (without specific injections)
  */
 export function injectRuntimeCore(html: string, options: RuntimeOptions = {}): string {
+  const { mockBackend, flow, usabilityTest, ...bridgeOptions } = options;
   const optionsScript = `
 <script>
-window.__VOXEL_OPTIONS__ = ${JSON.stringify(options)};
+window.__VOXEL_OPTIONS__ = ${JSON.stringify(bridgeOptions)};
 </script>
 `;
 
   const runtimeScript = `
 <script>
+${mockBackend ? compileMockBackend(mockBackend) : ''}
+${flow ? compileFlowRuntime(flow) : ''}
+${usabilityTest ? USABILITY_RUNTIME : ''}
+${bridgeOptions.enableAnalytics ? INTERACTION_RECORDER : ''}
 ${getRuntimeCore()}
 ${COMMUNICATION_BRIDGE}
 </script>
@@ -384,6 +926,33 @@ export function clearHighlightsInIframe(iframe: HTMLIFrameElement): void {
   sendToIframe(iframe, { type: 'clear-highlight', payload: {} });
 }
 
+/**
+ * Restore the prototype's mock backend to its seed data
+ */
+export function resetMockBackendInIframe(iframe: HTMLIFrameElement): void {
+  sendToIframe(iframe, { type: 'mock-reset', payload: {} });
+}
+
+/**
+ * Turn element picking for flow hotspots on or off; picks arrive as
+ * 'flow-picked' messages
+ */
+export function setFlowPickingInIframe(iframe: HTMLIFrameElement, enabled: boolean): void {
+  sendToIframe(iframe, { type: 'flow-pick', payload: { enabled } });
+}
+
+/**
+ * Start a usability task; the runtime reports 'usability-click' and
+ * 'usability-success' messages until it is met or stopped
+ */
+export function startUsabilityTaskInIframe(iframe: HTMLIFrameElement, task: UsabilityTask): void {
+  sendToIframe(iframe, { type: 'usability-start', payload: { task } });
+}
+
+export function stopUsabilityTaskInIframe(iframe: HTMLIFrameElement): void {
+  sendToIframe(iframe, { type: 'usability-stop', payload: {} });
+}
+
 /**
  * Query elements in the iframe
  */
@@ -391,6 +960,56 @@ export function queryInIframe(iframe: HTMLIFrameElement, selector: string): void
   sendToIframe(iframe, { type: 'query', payload: { selector } });
 }
 
+// ============================================================================
+// Usability Task Tracking
+// ============================================================================
+
+/**
+ * Measure one attempt at a usability task from the runtime's messages.
+ * Time on task runs from creation until the task is met or finished by the
+ * participant.
+ */
+export function createUsabilityTaskTracker(task: UsabilityTask, now: () => number = Date.now) {
+  const startedAt = now();
+  let clicks = 0;
+  let misclicks = 0;
+  let finished: { outcome: UsabilityOutcome; durationMs: number } | null = null;
+
+  const finish = (outcome: UsabilityOutcome) => {
+    if (!finished) {
+      finished = { outcome, durationMs: Math.max(0, now() - startedAt) };
+    }
+    return finished;
+  };
+
+  /** Feed a window message; returns true when it completed the task */
+  const handleMessage = (data: unknown): boolean => {
+    const message = data as { source?: string; type?: string; payload?: { taskId?: string; misclick?: boolean } };
+    if (finished || message?.source !== 'voxel-prototype' || message.payload?.taskId !== task.id) {
+      return false;
+    }
+
+    if (message.type === 'usability-click') {
+      clicks++;
+      if (message.payload.misclick) misclicks++;
+    } else if (message.type === 'usability-success') {
+      finish('success');
+      return true;
+    }
+    return false;
+  };
+
+  const getResult = (rating?: number): UsabilityTaskResult | null =>
+    finished ? { taskId: task.id, ...finished, clicks, misclicks, rating } : null;
+
+  return {
+    handleMessage,
+    finish,
+    getResult,
+    getIsFinished: () => finished !== null,
+  };
+}
+
 // ============================================================================
 // React Hook for Iframe Communication
 // ============================================================================
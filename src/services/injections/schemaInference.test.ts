@@ -0,0 +1,136 @@
+/**
+ * Tests for schemaInference
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  extendTable,
+  generateLikeSamples,
+  inferFieldFromValues,
+  inferSchemas,
+} from './schemaInference';
+
+const PRODUCTS_TABLE = `
+  <table id="products">
+    <thead><tr><th>Name</th><th>Price</th><th>Stock</th><th>Category</th><th>Added</th><th></th></tr></thead>
+    <tbody>
+      <tr><td>Wireless Mouse</td><td>$24.99</td><td>1,240</td><td><span class="tag">Accessories</span></td><td>2025-03-02</td><td><button>Edit</button></td></tr>
+      <tr><td>Mechanical Keyboard</td><td>$129.00</td><td>310</td><td><span class="tag">Accessories</span></td><td>2025-04-18</td><td><button>Edit</button></td></tr>
+      <tr><td>4K Monitor</td><td>$399.50</td><td>85</td><td><span class="tag">Displays</span></td><td>2025-05-09</td><td><button>Edit</button></td></tr>
+    </tbody>
+  </table>
+`;
+
+describe('inferFieldFromValues', () => {
+  it('should detect types and formats from samples', () => {
+    expect(inferFieldFromValues('Contact', ['ada@example.com', 'alan@example.com']).type).toBe('email');
+    expect(inferFieldFromValues('Owner', ['Ada Lovelace', 'Alan Turing']).type).toBe('fullName');
+    expect(inferFieldFromValues('Order', ['ORD-1041', 'ORD-1187'])).toMatchObject({
+      type: 'count',
+      options: { prefix: 'ORD-' },
+    });
+    expect(inferFieldFromValues('Code', ['AB-0042', 'CD-0107'])).toMatchObject({
+      type: 'pattern',
+      options: { format: '??-####' },
+    });
+    expect(inferFieldFromValues('Due', ['14/03/2025', '02/04/2025']).options?.format).toBe('DD/MM/YYYY');
+  });
+
+  it('should keep the range and currency of prices', () => {
+    const field = inferFieldFromValues('Total', ['€12.50', '€80.00']);
+
+    expect(field).toMatchObject({ type: 'price', options: { prefix: '€', decimals: 2 } });
+    expect(field.options!.min).toBeGreaterThanOrEqual(0);
+    expect(field.options!.min).toBeLessThanOrEqual(12.5);
+    expect(field.options!.max).toBeGreaterThanOrEqual(80);
+  });
+
+  it('should treat repeated short values as categories', () => {
+    expect(inferFieldFromValues('Status', ['Paid', 'Overdue', 'Paid'])).toEqual({
+      name: 'Status',
+      type: 'status',
+      options: { values: ['Paid', 'Overdue'] },
+    });
+  });
+});
+
+describe('inferSchemas', () => {
+  it('should match a product table to products, not users', () => {
+    const [inferred] = inferSchemas(`<body>${PRODUCTS_TABLE}</body>`);
+
+    expect(inferred.source).toBe('table');
+    expect(inferred.selector).toBe('#products');
+    expect(inferred.preset).toBe('products');
+    expect(inferred.schema.fields.map(f => [f.name, f.type])).toEqual([
+      ['name', 'productName'],
+      ['price', 'price'],
+      ['stock', 'count'],
+      ['category', 'enum'],
+      ['added', 'date'],
+    ]);
+    expect(inferred.samples[0]).toEqual({
+      name: 'Wireless Mouse',
+      price: '$24.99',
+      stock: '1,240',
+      category: 'Accessories',
+      added: '2025-03-02',
+    });
+  });
+
+  it('should read repeated cards and form fields', () => {
+    const html = `<body>
+      <div class="card"><h3>Starter</h3><p class="price">$9/mo</p></div>
+      <div class="card"><h3>Team</h3><p class="price">$29/mo</p></div>
+      <form id="signup">
+        <input name="email" type="email">
+        <select name="plan"><option value="">Choose</option><option>Starter</option><option>Team</option></select>
+        <input name="seats" type="number" min="1" max="50">
+      </form>
+    </body>`;
+
+    const schemas = inferSchemas(html);
+    const cards = schemas.find(s => s.source === 'card')!;
+    const form = schemas.find(s => s.source === 'form')!;
+
+    expect(cards.samples).toEqual([
+      { title: 'Starter', price: '$9/mo' },
+      { title: 'Team', price: '$29/mo' },
+    ]);
+    expect(cards.schema.fields[1]).toMatchObject({ type: 'price', options: { prefix: '$', suffix: '/mo' } });
+    expect(form.schema.fields).toEqual([
+      { name: 'email', type: 'email' },
+      { name: 'plan', type: 'enum', options: { values: ['Starter', 'Team'] } },
+      { name: 'seats', type: 'count', options: { min: 1, max: 50 } },
+    ]);
+  });
+});
+
+describe('generateLikeSamples', () => {
+  it('should generate rows in the format of the samples', () => {
+    const [inferred] = inferSchemas(`<body>${PRODUCTS_TABLE}</body>`);
+
+    const rows = generateLikeSamples(inferred, 5, { seed: 1 });
+
+    expect(rows.map(r => r.id)).toEqual(['4', '5', '6', '7', '8']);
+    rows.forEach(row => {
+      expect(String(row.price)).toMatch(/^\$\d+\.\d{2}$/);
+      expect(['Accessories', 'Displays']).toContain(row.category);
+      expect(String(row.added)).toMatch(/^2025-0[2-5]-\d{2}$/);
+    });
+    expect(generateLikeSamples(inferred, 5, { seed: 1 })).toEqual(rows);
+  });
+});
+
+describe('extendTable', () => {
+  it('should append rows with the markup of the existing ones', () => {
+    const html = extendTable(PRODUCTS_TABLE, 2, { seed: 1 });
+    const doc = new DOMParser().parseFromString(html, 'text/html');
+    const rows = Array.from(doc.querySelectorAll('tbody tr'));
+
+    expect(rows).toHaveLength(5);
+    expect(rows[3].getAttribute('data-voxel-record')).toBe('4');
+    expect(rows[3].querySelector('.tag')).not.toBeNull();
+    expect(rows[3].querySelector('button')?.textContent).toBe('Edit');
+    expect(rows[4].children[1].textContent).toMatch(/^\$/);
+  });
+});
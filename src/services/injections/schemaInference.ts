@@ -0,0 +1,668 @@
+/**
+ * Schema Inference
+ *
+ * Derives mock data schemas from the content a prototype already shows.
+ * Tables, lists, cards and forms found by analyzeForInjections are read
+ * for their labels and sample values; each column gets a field type plus
+ * the range and format of its samples, and the closest preset supplies
+ * types for columns the samples alone can't place. Rows generated from an
+ * inferred schema look like the ones on screen instead of a generic preset.
+ */
+
+import { en } from '@faker-js/faker';
+import { analyzeForInjections, type AnalysisResult } from './domAnalyzer';
+import {
+  detectSchemaFromHeaders,
+  generateRows,
+  matchField,
+  PREDEFINED_SCHEMAS,
+  type DataField,
+  type DataFieldOptions,
+  type DataFieldType,
+  type DataSchema,
+  type GeneratedRow,
+  type GenerateOptions,
+} from './mockDataGenerator';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type InferenceSource = 'table' | 'list' | 'card' | 'form';
+
+export interface InferredSchema {
+  source: InferenceSource;
+  /** Selector of the table, list, form or (shared) card selector */
+  selector: string;
+  schema: DataSchema;
+  /** Records already on screen, keyed by field name */
+  samples: GeneratedRow[];
+  /** Key of the PREDEFINED_SCHEMAS entry the content is closest to */
+  preset?: string;
+}
+
+interface Column {
+  label: string;
+  values: string[];
+  /** Element of each sample, for image sources and class hints */
+  elements?: Element[];
+}
+
+interface FieldGuess {
+  field: DataField;
+  /** False when the samples didn't settle the type */
+  confident: boolean;
+}
+
+// ============================================================================
+// Value Patterns
+// ============================================================================
+
+const EMAIL = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const URL_PATTERN = /^(https?:\/\/|www\.)\S+$/i;
+const UUID = /^[0-9a-f]{8}(-[0-9a-f]{4}){3}-[0-9a-f]{12}$/i;
+const PHONE = /^\+?[\d\s().-]{7,}$/;
+const TIME = /^\d{1,2}:\d{2}(\s?[ap]\.?m\.?)?$/i;
+const RELATIVE_TIME = /(\bago$|^just now$|^yesterday$|^today$|^last (week|month|year)$)/i;
+// Sign, prefix ("$", "#", "ORD-"), number, suffix ("%", " €", " MB")
+const NUMERIC = /^([-+]?)(\D{0,6}?)(\d[\d,]*(?:\.\d+)?)(\D{0,6})$/;
+const CURRENCY = /^([$€£¥₹]|[A-Z]{3}|kr)$/;
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+const DAY = 24 * 60 * 60 * 1000;
+
+const STATUS_LABEL = /status|state|stage/i;
+const CATEGORY_LABEL = /type|category|role|priority|plan|tier|level|department|tag/i;
+const AVATAR_LABEL = /avatar|profile|user|member|author|owner|assignee|photo/i;
+
+// Header heuristics that say nothing about the shape of a value
+const TEXT_TYPES = new Set<DataFieldType>([
+  'companyName', 'department', 'industry', 'catchPhrase', 'jobTitle', 'productName', 'productDescription',
+  'category', 'address', 'city', 'state', 'country', 'title', 'sentence', 'paragraph', 'fileName', 'bio',
+]);
+
+let firstNames: Set<string> | null = null;
+
+function isPersonName(value: string): boolean {
+  firstNames ??= new Set(en.person?.first_name?.generic ?? []);
+  const words = value.split(/\s+/);
+  return words.length >= 2 && words.length <= 3 &&
+    words.every(w => /^[A-Z][a-zA-Z'-]+\.?$/.test(w)) &&
+    firstNames.has(words[0]);
+}
+
+function parseDate(value: string): { time: number; format: string; dayFirst?: boolean } | null {
+  let m = value.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  if (m) return { time: Date.UTC(+m[1], +m[2] - 1, +m[3]), format: 'YYYY-MM-DD' };
+
+  m = value.match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})$/);
+  if (m) {
+    // Ambiguous until a day above 12 shows up
+    const dayFirst = +m[1] > 12;
+    const [month, day] = dayFirst ? [+m[2], +m[1]] : [+m[1], +m[2]];
+    return { time: Date.UTC(+m[3], month - 1, day), format: 'MM/DD/YYYY', dayFirst };
+  }
+
+  m = value.match(/^([A-Za-z]{3})[a-z]*\.? (\d{1,2}), (\d{4})$/);
+  if (m && MONTHS.includes(m[1].toLowerCase())) {
+    return { time: Date.UTC(+m[3], MONTHS.indexOf(m[1].toLowerCase()), +m[2]), format: 'MMM D, YYYY' };
+  }
+
+  m = value.match(/^(\d{1,2}) ([A-Za-z]{3})[a-z]*\.? (\d{4})$/);
+  if (m && MONTHS.includes(m[2].toLowerCase())) {
+    return { time: Date.UTC(+m[3], MONTHS.indexOf(m[2].toLowerCase()), +m[1]), format: 'D MMM YYYY' };
+  }
+
+  return null;
+}
+
+/**
+ * Widen a sampled range a little so generated values aren't all bounded by
+ * the few rows on screen. Never crosses zero when the samples don't.
+ */
+function widenRange(values: number[], decimals: number): { min: number; max: number } {
+  const lo = Math.min(...values);
+  const hi = Math.max(...values);
+  const pad = (hi - lo) * 0.25 || Math.abs(hi) * 0.25;
+  const round = (n: number) => Number(n.toFixed(decimals));
+  return {
+    min: round(lo >= 0 ? Math.max(0, lo - pad) : lo - pad),
+    max: round(hi + pad),
+  };
+}
+
+/**
+ * Digits become '#', letters that vary become '?'; null when the samples
+ * don't share a shape
+ */
+function sharedPattern(values: string[]): string | null {
+  const shapes = values.map(v => v.replace(/\d/g, '#'));
+  if (shapes.some(s => s.length !== shapes[0].length || /[*?]/.test(s))) return null;
+
+  let pattern = '';
+  for (let i = 0; i < shapes[0].length; i++) {
+    const chars = new Set(shapes.map(s => s[i]));
+    if (chars.size === 1) pattern += shapes[0][i];
+    else if ([...chars].every(c => /[A-Za-z]/.test(c))) pattern += '?';
+    else return null;
+  }
+  return pattern;
+}
+
+// ============================================================================
+// Field Inference
+// ============================================================================
+
+function guessNumeric(values: string[]): (DataFieldOptions & { type: DataFieldType }) | null {
+  const matches = values.map(v => v.match(NUMERIC));
+  if (matches.some(m => !m)) return null;
+  const parts = matches as RegExpMatchArray[];
+
+  const prefix = parts[0][2];
+  const suffix = parts[0][4];
+  if (parts.some(m => m[2] !== prefix || m[4] !== suffix)) return null;
+
+  const numbers = parts.map(m => Number(m[3].replace(/,/g, '')) * (m[1] === '-' ? -1 : 1));
+  const decimals = Math.max(...parts.map(m => m[3].split('.')[1]?.length ?? 0));
+  const grouped = parts.some(m => m[3].includes(','));
+  const signed = parts.some(m => m[1] === '+');
+  const range = widenRange(numbers, decimals);
+
+  if (suffix === '%') {
+    return signed
+      ? { type: 'percentage', min: Math.min(range.min, -range.max), max: range.max }
+      : { type: 'count', ...range, decimals, suffix };
+  }
+
+  // Zero-padded numbers ("00042") are identifiers, not quantities
+  if (!decimals && !grouped && parts.some(m => m[3].length > 1 && m[3].startsWith('0'))) {
+    return { type: 'pattern', format: `${prefix}${'#'.repeat(parts[0][3].length)}${suffix}` };
+  }
+
+  const format = grouped ? 'grouped' : undefined;
+  if (CURRENCY.test(prefix.trim()) || CURRENCY.test(suffix.trim())) {
+    return { type: 'price', ...range, decimals, format, prefix, suffix };
+  }
+  return { type: 'count', ...range, decimals, format, prefix, suffix };
+}
+
+function guessFromValues(label: string, values: string[], elements: Element[] = []): FieldGuess | null {
+  const field = (type: DataFieldType, options?: DataFieldOptions): FieldGuess => ({
+    field: { name: label, type, ...(options ? { options } : {}) },
+    confident: true,
+  });
+
+  // Image cells
+  const images = elements.map(el => (el.tagName === 'IMG' ? el : el.querySelector('img')));
+  if (images.length > 0 && images.every(Boolean) && values.every(v => !v)) {
+    const img = images[0]!;
+    const hint = `${label} ${img.getAttribute('class') || ''} ${img.getAttribute('alt') || ''}`;
+    if (AVATAR_LABEL.test(hint)) return field('avatar');
+    const width = Number(img.getAttribute('width')) || undefined;
+    const height = Number(img.getAttribute('height')) || undefined;
+    return field('imageUrl', width && height ? { width, height } : undefined);
+  }
+
+  const present = values.filter(Boolean);
+  if (present.length === 0) return null;
+
+  if (present.every(v => EMAIL.test(v))) return field('email');
+  if (present.every(v => URL_PATTERN.test(v))) return field('website');
+  if (present.every(v => UUID.test(v))) return field('uuid');
+
+  const dates = present.map(parseDate);
+  if (dates.every(Boolean)) {
+    const parsed = dates as NonNullable<ReturnType<typeof parseDate>>[];
+    const format = parsed[0].format;
+    if (parsed.every(d => d.format === format)) {
+      // Re-read slash dates as day-first once any of them must be
+      const dayFirst = parsed.some(d => d.dayFirst);
+      const times = dayFirst
+        ? present.map(v => {
+          const [day, month, year] = v.split('/').map(Number);
+          return Date.UTC(year, month - 1, day);
+        })
+        : parsed.map(d => d.time);
+      const min = Math.min(...times);
+      const max = Math.max(...times);
+      return field('date', {
+        format: dayFirst ? 'DD/MM/YYYY' : format,
+        min: min === max ? min - 30 * DAY : min,
+        max: min === max ? max + 30 * DAY : max,
+      });
+    }
+  }
+
+  if (present.every(v => TIME.test(v))) return field('time');
+  if (present.every(v => RELATIVE_TIME.test(v))) return field('relativeTime');
+  if (present.every(v => PHONE.test(v) && v.replace(/\D/g, '').length >= 7 && /[\s().+-]/.test(v))) {
+    return field('phone');
+  }
+
+  const numeric = guessNumeric(present);
+  if (numeric) {
+    const { type, ...options } = numeric;
+    return field(type, Object.fromEntries(Object.entries(options).filter(([, v]) => v !== undefined && v !== '')));
+  }
+
+  const distinct = [...new Set(present)];
+  const short = distinct.every(v => v.length <= 30 && v.split(/\s+/).length <= 3);
+  if (short && (STATUS_LABEL.test(label) || CATEGORY_LABEL.test(label) || (distinct.length < present.length && distinct.length <= 6))) {
+    return field(STATUS_LABEL.test(label) ? 'status' : 'enum', { values: distinct });
+  }
+
+  if (present.every(isPersonName)) return field('fullName');
+
+  const avgLength = present.reduce((sum, v) => sum + v.length, 0) / present.length;
+  const avgWords = present.reduce((sum, v) => sum + v.split(/\s+/).length, 0) / present.length;
+  if (avgLength > 80) return field('paragraph', { length: 1 });
+  if (avgWords >= 6) return field('sentence');
+
+  const pattern = present.length >= 2 && !/\s/.test(present.join('')) ? sharedPattern(present) : null;
+  if (pattern && /[#?]/.test(pattern) && /[^#?]/.test(pattern)) return field('pattern', { format: pattern });
+
+  // Plain text: leave the type open for the preset or header to decide
+  return {
+    field: distinct.length >= 3 && avgWords >= 2
+      ? { name: label, type: 'title', options: { length: Math.round(avgWords) } }
+      : { name: label, type: 'enum', options: { values: distinct } },
+    confident: false,
+  };
+}
+
+/**
+ * Infer a field from a label and the values shown for it. A preset field,
+ * when the content matched one, decides types the values leave open.
+ */
+export function inferFieldFromValues(
+  label: string,
+  values: string[],
+  presetField?: DataField,
+  elements?: Element[]
+): DataField {
+  return refine(label, guessFromValues(label, values, elements), presetField).field;
+}
+
+function refine(label: string, guess: FieldGuess | null, presetField?: DataField): FieldGuess {
+  if (guess?.confident) return guess;
+
+  // Without samples the label is all there is
+  const headerType = detectSchemaFromHeaders([label])?.fields[0].type ?? 'word';
+  if (!guess) {
+    return {
+      field: presetField ? { ...presetField, name: label } : { name: label, type: headerType },
+      confident: false,
+    };
+  }
+
+  if (presetField && TEXT_TYPES.has(presetField.type)) {
+    return { field: { ...presetField, name: label }, confident: false };
+  }
+  if (TEXT_TYPES.has(headerType)) {
+    return { field: { name: label, type: headerType }, confident: false };
+  }
+  return guess;
+}
+
+/**
+ * The preset whose fields best match the labels and inferred types.
+ * Needs two matching labels, like detectSchemaFromHeaders.
+ */
+function closestPreset(labels: string[], guesses: (FieldGuess | null)[]): string | undefined {
+  let best: { name?: string; matched: number; score: number } = { matched: 0, score: 0 };
+
+  for (const [name, schema] of Object.entries(PREDEFINED_SCHEMAS)) {
+    const fieldNames = schema.fields.map(f => f.name);
+    let matched = 0;
+    let score = 0;
+
+    labels.forEach((label, i) => {
+      const match = matchField(label, fieldNames);
+      if (!match) return;
+      matched++;
+      score++;
+      const guess = guesses[i];
+      const presetType = schema.fields.find(f => f.name === match)?.type;
+      if (guess?.confident && guess.field.type === presetType) score++;
+      // A person column in a product table (or the reverse) counts against it
+      if (guess?.confident && guess.field.type === 'fullName' && presetType !== 'fullName') score--;
+    });
+
+    if (matched >= 2 && score > best.score) {
+      best = { name, matched, score };
+    }
+  }
+
+  return best.name;
+}
+
+function camelCase(label: string): string {
+  const words = label.trim().split(/[^A-Za-z0-9]+/).filter(Boolean);
+  return words
+    .map((w, i) => (i === 0 ? w.charAt(0).toLowerCase() + w.slice(1) : w.charAt(0).toUpperCase() + w.slice(1)))
+    .join('') || 'field';
+}
+
+/**
+ * Build a schema and sample records from labelled columns of values
+ */
+function inferFromColumns(
+  source: InferenceSource,
+  selector: string,
+  columns: Column[],
+  rowCount: number
+): InferredSchema {
+  const guesses = columns.map(c => guessFromValues(c.label, c.values, c.elements));
+  const preset = closestPreset(columns.map(c => c.label), guesses);
+  const presetSchema = preset ? PREDEFINED_SCHEMAS[preset] : undefined;
+  const presetNames = presetSchema?.fields.map(f => f.name) ?? [];
+
+  const taken = new Set<string>();
+  const fields = columns.map((column, i) => {
+    const presetName = matchField(column.label, presetNames);
+    const presetField = presetSchema?.fields.find(f => f.name === presetName);
+    let name = presetName ?? camelCase(column.label);
+    for (let n = 2; taken.has(name); n++) name = `${presetName ?? camelCase(column.label)}${n}`;
+    taken.add(name);
+
+    return { ...refine(column.label, guesses[i], presetField).field, name };
+  });
+
+  const samples: GeneratedRow[] = [];
+  for (let row = 0; row < rowCount; row++) {
+    const record: GeneratedRow = {};
+    columns.forEach((column, i) => {
+      const element = column.elements?.[row];
+      const image = element && (element.tagName === 'IMG' ? element : element.querySelector('img'));
+      const value = column.values[row] || image?.getAttribute('src') || '';
+      if (value) record[fields[i].name] = value;
+    });
+    if (Object.keys(record).length > 0) samples.push(record);
+  }
+
+  return {
+    source,
+    selector,
+    schema: {
+      name: presetSchema?.name ?? 'Items',
+      category: presetSchema?.category ?? 'content',
+      fields,
+    },
+    samples,
+    ...(preset ? { preset } : {}),
+  };
+}
+
+// ============================================================================
+// Content Readers
+// ============================================================================
+
+/**
+ * Text of the first text-bearing leaf, so stacked cells ("name / email") read as one value
+ */
+function cellText(cell: Element): string {
+  const leaf = Array.from(cell.querySelectorAll('*')).find(
+    el => el.children.length === 0 && el.textContent?.trim()
+  );
+  return (leaf || cell).textContent?.trim() || '';
+}
+
+function dataRows(table: Element): Element[] {
+  return Array.from(table.querySelectorAll('tr')).filter(tr => !tr.querySelector('th') && tr.querySelector('td'));
+}
+
+function tableHeaders(table: Element): string[] {
+  const cells = table.querySelectorAll('thead th').length
+    ? table.querySelectorAll('thead th')
+    : table.querySelectorAll('tr:first-child th');
+  return Array.from(cells).map(th => th.textContent?.trim() || '');
+}
+
+/**
+ * Infer a schema from a table's headers and rows. Columns without a header
+ * (actions, checkboxes) are left out.
+ */
+export function inferTableSchema(table: Element, selector: string = 'table'): InferredSchema | null {
+  const headers = tableHeaders(table);
+  if (!headers.some(Boolean)) return null;
+
+  const rows = dataRows(table);
+  const columns: Column[] = headers
+    .map((label, i) => ({
+      label,
+      values: rows.map(tr => (tr.children[i] ? cellText(tr.children[i]) : '')),
+      elements: rows.map(tr => tr.children[i]).filter(Boolean),
+    }))
+    .filter(column => column.label);
+
+  return inferFromColumns('table', selector, columns, rows.length);
+}
+
+/**
+ * Name for a piece of a card or list item: its first class, else its role
+ * in the markup
+ */
+function partLabel(el: Element): string {
+  const className = Array.from(el.classList).find(c => !/^(hover|active|focus|disabled)/.test(c));
+  if (className) return className.replace(/^(card|item|list)[-_]+/, '');
+  if (/^H[1-6]$/.test(el.tagName)) return 'title';
+  return ({ IMG: 'image', A: 'link', P: 'text', SPAN: 'label', TIME: 'date' } as Record<string, string>)[el.tagName] ?? el.tagName.toLowerCase();
+}
+
+/**
+ * Infer one schema from repeated elements, such as cards sharing a class or
+ * the items of a list. Their text leaves and images are matched up by label.
+ */
+function inferRepeatedSchema(source: 'list' | 'card', selector: string, items: Element[]): InferredSchema | null {
+  if (items.length === 0) return null;
+
+  const columns = new Map<string, Column>();
+  items.forEach((item, row) => {
+    const parts = Array.from(item.querySelectorAll('*')).filter(
+      el => el.tagName === 'IMG' || (el.children.length === 0 && el.textContent?.trim())
+    );
+    // Bare list items are a single text field
+    if (parts.length === 0 && item.textContent?.trim()) parts.push(item);
+
+    const seen = new Map<string, number>();
+    parts.forEach(part => {
+      const base = part === item ? 'label' : partLabel(part);
+      const n = (seen.get(base) ?? 0) + 1;
+      seen.set(base, n);
+      const label = n > 1 ? `${base} ${n}` : base;
+
+      const column = columns.get(label) ?? { label, values: [], elements: [] };
+      column.values[row] = part.tagName === 'IMG' ? '' : part.textContent?.trim() || '';
+      column.elements![row] = part;
+      columns.set(label, column);
+    });
+  });
+
+  // Fill gaps so values line up with items
+  const filled = [...columns.values()].map(column => ({
+    ...column,
+    values: items.map((_, row) => column.values[row] ?? ''),
+    elements: column.elements!.filter(Boolean),
+  }));
+
+  return inferFromColumns(source, selector, filled, items.length);
+}
+
+export function inferListSchema(list: Element, selector: string = 'ul'): InferredSchema | null {
+  const items = Array.from(list.children).filter(el => el.matches('li, [role="listitem"]'));
+  return inferRepeatedSchema('list', selector, items);
+}
+
+export function inferCardSchema(cards: Element[], selector: string): InferredSchema | null {
+  return inferRepeatedSchema('card', selector, cards);
+}
+
+/**
+ * Infer a schema from a form's fields. Input types, min/max and select
+ * options say more than the (usually empty) values.
+ */
+export function inferFormSchema(form: Element, selector: string = 'form'): InferredSchema | null {
+  const inputs = Array.from(form.querySelectorAll('input, textarea, select'))
+    .filter(input => !['submit', 'button', 'reset', 'hidden', 'password', 'file'].includes(input.getAttribute('type') || ''));
+  if (inputs.length === 0) return null;
+
+  const labelOf = (input: Element) =>
+    (input.id && form.querySelector(`label[for="${input.id}"]`)?.textContent?.trim()) ||
+    input.getAttribute('name') || input.getAttribute('aria-label') || input.getAttribute('placeholder') || input.id || 'field';
+
+  const columns: Column[] = inputs.map(input => ({
+    label: input.getAttribute('name') || labelOf(input),
+    values: [input.tagName === 'SELECT' ? '' : input.getAttribute('value') || ''],
+  }));
+  const inferred = inferFromColumns('form', selector, columns, 1);
+
+  // The input type is authoritative where it says something
+  inputs.forEach((input, i) => {
+    const fields = inferred.schema.fields;
+    const set = (type: DataFieldType, options?: DataFieldOptions) => {
+      fields[i] = { name: fields[i].name, type, ...(options ? { options } : {}) };
+    };
+    const type = input.getAttribute('type');
+    const min = input.getAttribute('min');
+    const max = input.getAttribute('max');
+
+    if (input.tagName === 'SELECT') {
+      const values = Array.from(input.querySelectorAll('option'))
+        .filter(o => o.getAttribute('value') !== '')
+        .map(o => o.textContent?.trim() || '')
+        .filter(Boolean);
+      if (values.length) set('enum', { values });
+    } else if (input.tagName === 'TEXTAREA') {
+      set('paragraph', { length: 1 });
+    } else if (type === 'email') {
+      set('email');
+    } else if (type === 'tel') {
+      set('phone');
+    } else if (type === 'url') {
+      set('website');
+    } else if (type === 'date') {
+      set('date', { format: 'YYYY-MM-DD', ...(min && max ? { min: Date.parse(min), max: Date.parse(max) } : {}) });
+    } else if (type === 'number' || type === 'range') {
+      const step = input.getAttribute('step');
+      set('count', {
+        min: min ? Number(min) : 0,
+        max: max ? Number(max) : 100,
+        ...(step && step.includes('.') ? { decimals: step.split('.')[1].length } : {}),
+      });
+    }
+  });
+
+  return inferred;
+}
+
+function queryAll(doc: Document, selector: string): Element[] {
+  try {
+    return Array.from(doc.querySelectorAll(selector));
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Infer schemas for the tables, lists, card groups and forms of a
+ * prototype. Cards are grouped by selector; a lone card or a card nested in
+ * another is not a collection.
+ */
+export function inferSchemas(html: string, analysis: AnalysisResult = analyzeForInjections(html)): InferredSchema[] {
+  const doc = new DOMParser().parseFromString(html, 'text/html');
+  const results: InferredSchema[] = [];
+  const cardSelectors = new Set<string>();
+  const cardElements = new Set<Element>();
+
+  analysis.injectionPoints
+    .filter(p => p.type === 'card')
+    .forEach(p => {
+      cardSelectors.add(p.selector);
+      queryAll(doc, p.selector).forEach(el => cardElements.add(el));
+    });
+
+  for (const point of analysis.injectionPoints) {
+    let inferred: InferredSchema | null = null;
+    const element = queryAll(doc, point.selector)[0];
+    if (!element) continue;
+
+    if (point.type === 'table') {
+      inferred = inferTableSchema(element, point.selector);
+    } else if (point.type === 'list') {
+      inferred = inferListSchema(element, point.selector);
+    } else if (point.type === 'form') {
+      inferred = inferFormSchema(element, point.selector);
+    } else if (point.type === 'card' && cardSelectors.delete(point.selector)) {
+      const cards = queryAll(doc, point.selector).filter(el => {
+        for (let parent = el.parentElement; parent; parent = parent.parentElement) {
+          if (cardElements.has(parent)) return false;
+        }
+        return true;
+      });
+      if (cards.length >= 2) inferred = inferCardSchema(cards, point.selector);
+    }
+
+    if (inferred && inferred.schema.fields.length > 0) {
+      results.push(inferred);
+    }
+  }
+
+  return results;
+}
+
+// ============================================================================
+// Generation
+// ============================================================================
+
+/**
+ * Generate rows that follow on from the samples: ids continue after them
+ * and values keep their types, ranges and formats
+ */
+export function generateLikeSamples(inferred: InferredSchema, count: number, options: GenerateOptions = {}): GeneratedRow[] {
+  const offset = inferred.samples.length;
+  return generateRows(inferred.schema, offset + count, options).slice(offset);
+}
+
+/**
+ * Append rows like the existing ones to a table, cloning its last row so
+ * markup (badges, buttons, classes) carries over
+ */
+export function extendTable(tableHtml: string, count: number = 5, options: GenerateOptions = {}): string {
+  const doc = new DOMParser().parseFromString(tableHtml, 'text/html');
+  const table = doc.querySelector('table');
+  if (!table) return tableHtml;
+
+  const inferred = inferTableSchema(table);
+  const rows = dataRows(table);
+  const template = rows[rows.length - 1];
+  if (!inferred || !template) return tableHtml;
+
+  // Fields follow the labelled columns in order
+  let next = 0;
+  const columnFields = tableHeaders(table).map(label => (label ? inferred.schema.fields[next++] : null));
+
+  generateLikeSamples(inferred, count, options).forEach(record => {
+    const tr = template.cloneNode(true) as Element;
+    tr.setAttribute('data-voxel-record', String(record.id));
+
+    Array.from(tr.children).forEach((cell, i) => {
+      const field = columnFields[i];
+      if (!field || record[field.name] === undefined) return;
+
+      const value = String(record[field.name]);
+      const img = cell.tagName === 'IMG' ? cell : cell.querySelector('img');
+      if (img && (field.type === 'avatar' || field.type === 'imageUrl')) {
+        img.setAttribute('src', value);
+        return;
+      }
+      const leaf = Array.from(cell.querySelectorAll('*')).find(
+        el => el.children.length === 0 && el.textContent?.trim()
+      );
+      (leaf || cell).textContent = value;
+    });
+
+    template.parentElement?.appendChild(tr);
+  });
+
+  return table.outerHTML;
+}
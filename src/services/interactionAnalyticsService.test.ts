@@ -0,0 +1,80 @@
+/**
+ * Tests for interactionAnalyticsService
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { supabase } from './supabase';
+import { binInteractionEvents, getInteractionEvents, summarizeScrollDepth } from './interactionAnalyticsService';
+
+vi.mock('./supabase', () => ({
+  supabase: { from: vi.fn() },
+  supabasePublic: { rpc: vi.fn() },
+  isSupabaseConfigured: vi.fn().mockReturnValue(true),
+}));
+
+describe('interactionAnalyticsService', () => {
+  describe('getInteractionEvents', () => {
+    it('should load the newest events and flag when older ones were left out', async () => {
+      const total = 20500;
+      const row = { share_id: 's', participant_id: 'p', event_type: 'click', x: 0.5, y: 0.5, depth: null, selector: null, occurred_at: '' };
+      const query = {
+        select: vi.fn().mockReturnThis(),
+        eq: vi.fn().mockReturnThis(),
+        order: vi.fn().mockReturnThis(),
+        range: vi.fn((from: number, to: number) =>
+          Promise.resolve({ data: Array.from({ length: Math.min(to + 1, total) - from }, () => row), error: null, count: total })
+        ),
+      };
+      vi.mocked(supabase.from).mockReturnValue(query as never);
+
+      const result = await getInteractionEvents('session-1', 1);
+
+      expect(query.order).toHaveBeenCalledWith('id', { ascending: false });
+      expect(result.events).toHaveLength(20000);
+      expect(result).toMatchObject({ total, truncated: true });
+    });
+  });
+
+  describe('binInteractionEvents', () => {
+    it('should count events of the requested types per cell', () => {
+      const points = binInteractionEvents(
+        [
+          { type: 'click', x: 0.12, y: 0.51 },
+          { type: 'click', x: 0.14, y: 0.58 },
+          { type: 'click', x: 1, y: 1 },
+          { type: 'move', x: 0.12, y: 0.51 },
+          { type: 'scroll', x: null, y: null },
+        ],
+        ['click'],
+        10
+      );
+
+      expect(points).toEqual([
+        { x: 0.15, y: 0.55, value: 2 },
+        // Events on the far edge land in the last cell
+        { x: 0.95, y: 0.95, value: 1 },
+      ]);
+    });
+  });
+
+  describe('summarizeScrollDepth', () => {
+    it('should count each participant by their deepest scroll', () => {
+      const summary = summarizeScrollDepth(
+        [
+          { type: 'scroll', participantId: 'a', depth: 0.3 },
+          { type: 'scroll', participantId: 'a', depth: 1 },
+          { type: 'scroll', participantId: 'b', depth: 0.3 },
+          { type: 'scroll', participantId: 'b', depth: 0.55 },
+          { type: 'click', participantId: 'c', depth: null },
+        ],
+        4
+      );
+
+      expect(summary).toEqual({ participants: 2, reach: [1, 1, 1, 0.5] });
+    });
+
+    it('should report no reach without scroll events', () => {
+      expect(summarizeScrollDepth([], 2)).toEqual({ participants: 0, reach: [0, 0] });
+    });
+  });
+});
@@ -0,0 +1,211 @@
+/**
+ * Interaction Analytics Service
+ * Stores the interaction events shared prototypes report and shapes them for
+ * heatmaps: click and movement density, and how far down viewers scrolled.
+ */
+
+import { supabase, supabasePublic, isSupabaseConfigured } from './supabase';
+import { getShareGrant } from './sharingService';
+import type { InteractionEvent, InteractionEventType } from './injections';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface StoredInteractionEvent {
+  shareId: string;
+  participantId: string;
+  type: InteractionEventType;
+  x: number | null;
+  y: number | null;
+  depth: number | null;
+  selector: string | null;
+  occurredAt: string;
+}
+
+export interface InteractionEventFilters {
+  /** Only events from this share link */
+  shareId?: string;
+  /** ISO timestamps, inclusive */
+  since?: string;
+  until?: string;
+}
+
+export interface InteractionEventsResult {
+  /** Newest first */
+  events: StoredInteractionEvent[];
+  /** Events matching the filters, loaded or not */
+  total: number;
+  /** Older events were left out to stay under the load limit */
+  truncated: boolean;
+}
+
+/** A heatmap cell; x and y are the cell's center as fractions of the page */
+export interface HeatmapPoint {
+  x: number;
+  y: number;
+  value: number;
+}
+
+export interface ScrollDepthSummary {
+  participants: number;
+  /** Share of participants who saw each band of the page, top to bottom */
+  reach: number[];
+}
+
+// Supabase returns at most this many rows per request
+const PAGE_SIZE = 1000;
+
+// Enough for a clear picture without loading an unbounded history
+const MAX_EVENTS = 20000;
+
+// ============================================================================
+// Recording
+// ============================================================================
+
+/**
+ * Store a batch of events from one viewer of a share link
+ */
+export async function recordInteractionEvents(
+  token: string,
+  variantIndex: number,
+  participantId: string,
+  events: InteractionEvent[]
+): Promise<number> {
+  if (!isSupabaseConfigured() || events.length === 0) {
+    return 0;
+  }
+
+  const { data, error } = await supabasePublic.rpc('record_interaction_events', {
+    p_share_token: token,
+    p_variant_index: variantIndex,
+    p_participant_id: participantId,
+    p_events: events,
+    p_access_grant: getShareGrant(token),
+  });
+
+  if (error) {
+    console.error('[InteractionAnalyticsService] Error recording events:', error);
+    return 0;
+  }
+
+  return typeof data === 'number' ? data : 0;
+}
+
+// ============================================================================
+// Reading
+// ============================================================================
+
+/**
+ * Events recorded for one variant of a session, newest first. Past
+ * MAX_EVENTS the oldest are left out and the result is marked truncated.
+ */
+export async function getInteractionEvents(
+  sessionId: string,
+  variantIndex: number,
+  filters: InteractionEventFilters = {}
+): Promise<InteractionEventsResult> {
+  const events: StoredInteractionEvent[] = [];
+  let total = 0;
+  const result = () => ({ events, total: Math.max(total, events.length), truncated: total > events.length });
+
+  if (!isSupabaseConfigured()) {
+    return result();
+  }
+
+  for (let from = 0; from < MAX_EVENTS; from += PAGE_SIZE) {
+    let query = supabase
+      .from('vibe_interaction_events')
+      // Counting once is enough to tell whether the limit cut anything off
+      .select('share_id, participant_id, event_type, x, y, depth, selector, occurred_at', from === 0 ? { count: 'exact' } : undefined)
+      .eq('session_id', sessionId)
+      .eq('variant_index', variantIndex);
+
+    if (filters.shareId) query = query.eq('share_id', filters.shareId);
+    if (filters.since) query = query.gte('occurred_at', filters.since);
+    if (filters.until) query = query.lte('occurred_at', filters.until);
+
+    const { data, error, count } = await query.order('id', { ascending: false }).range(from, from + PAGE_SIZE - 1);
+
+    if (error) {
+      console.error('[InteractionAnalyticsService] Error fetching events:', error);
+      return result();
+    }
+    if (from === 0) total = count ?? 0;
+
+    events.push(
+      ...(data || []).map((row) => ({
+        shareId: row.share_id,
+        participantId: row.participant_id,
+        type: row.event_type as InteractionEventType,
+        x: row.x,
+        y: row.y,
+        depth: row.depth,
+        selector: row.selector,
+        occurredAt: row.occurred_at,
+      }))
+    );
+
+    if (!data || data.length < PAGE_SIZE) break;
+  }
+
+  return result();
+}
+
+// ============================================================================
+// Heatmap Shaping
+// ============================================================================
+
+/**
+ * Count positioned events of the given types into a grid of cells, so the
+ * renderer draws one blob per cell instead of one per event
+ */
+export function binInteractionEvents(
+  events: Pick<StoredInteractionEvent, 'type' | 'x' | 'y'>[],
+  types: InteractionEventType[],
+  cells = 100
+): HeatmapPoint[] {
+  const counts = new Map<string, HeatmapPoint>();
+
+  for (const event of events) {
+    if (!types.includes(event.type) || event.x === null || event.y === null) continue;
+
+    const col = Math.min(cells - 1, Math.floor(event.x * cells));
+    const row = Math.min(cells - 1, Math.floor(event.y * cells));
+    const key = `${col}:${row}`;
+    const point = counts.get(key);
+    if (point) {
+      point.value++;
+    } else {
+      counts.set(key, { x: (col + 0.5) / cells, y: (row + 0.5) / cells, value: 1 });
+    }
+  }
+
+  return [...counts.values()];
+}
+
+/**
+ * How many participants scrolled far enough to see each band of the page.
+ * A participant's deepest scroll event counts; the first screenful is
+ * recorded on load, so everyone reaches at least that.
+ */
+export function summarizeScrollDepth(
+  events: Pick<StoredInteractionEvent, 'type' | 'participantId' | 'depth'>[],
+  bands = 20
+): ScrollDepthSummary {
+  const deepest = new Map<string, number>();
+  for (const event of events) {
+    if (event.type !== 'scroll' || event.depth === null) continue;
+    deepest.set(event.participantId, Math.max(deepest.get(event.participantId) ?? 0, event.depth));
+  }
+
+  const depths = [...deepest.values()];
+  const reach = Array.from({ length: bands }, (_, band) => {
+    if (depths.length === 0) return 0;
+    // A band counts as seen once the viewer scrolled past its top edge
+    const top = band / bands;
+    return depths.filter((depth) => depth > top).length / depths.length;
+  });
+
+  return { participants: depths.length, reach };
+}
@@ -1,7 +1,8 @@
 /**
  * LLM Service for AI-powered prototype generation
  *
- * Supports Anthropic Claude, OpenAI GPT, and Google Gemini models.
+ * Supports Anthropic Claude, OpenAI GPT, and Google Gemini models, plus
+ * self-hosted models behind an OpenAI-compatible or Ollama server.
  * API keys are securely stored in Supabase Vault.
  */
 
@@ -10,12 +11,17 @@ import {
   getActiveProvider,
   getActiveKeyConfig,
   type LLMProvider,
+  type LocalApiFlavor,
 } from './apiKeysService';
+import { chatWithLocalModel } from './localModelService';
 
 export interface LLMConfig {
   provider: LLMProvider;
   apiKey: string;
   model?: string;
+  // Local provider only
+  baseUrl?: string | null;
+  apiFlavor?: LocalApiFlavor | null;
 }
 
 export interface GenerationRequest {
@@ -39,6 +45,7 @@ const DEFAULT_MODELS = {
   anthropic: 'claude-sonnet-4-20250514',
   openai: 'gpt-4o',
   google: 'gemini-1.5-pro',
+  local: 'llama3.1',
 };
 
 // System prompt for HTML generation
@@ -62,14 +69,14 @@ When modifying:
  * Get LLM configuration from environment or Supabase Vault
  * This is an async function that fetches the decrypted key from Supabase
  */
-export async function getLLMConfigAsync(): Promise<LLMConfig | null> {
+export async function getLLMConfigAsync(provider?: LLMProvider): Promise<LLMConfig | null> {
   console.log('[LLM] 🔍 getLLMConfigAsync: Starting to fetch LLM configuration...');
 
   // Check environment variables first (for production/testing)
   const envApiKey = import.meta.env.VITE_ANTHROPIC_API_KEY || import.meta.env.VITE_OPENAI_API_KEY;
   const envProvider: LLMProvider = import.meta.env.VITE_ANTHROPIC_API_KEY ? 'anthropic' : 'openai';
 
-  if (envApiKey) {
+  if (envApiKey && !provider) {
     console.log('[LLM] ✅ Found API key in environment variables:', { provider: envProvider, keyLength: envApiKey.length });
     return {
       provider: envProvider,
@@ -81,7 +88,7 @@ export async function getLLMConfigAsync(): Promise<LLMConfig | null> {
   console.log('[LLM] 📡 No env vars, checking Supabase for active provider...');
 
   // Get active provider from Supabase
-  const activeProvider = await getActiveProvider();
+  const activeProvider = provider || await getActiveProvider();
   console.log('[LLM] 📡 getActiveProvider result:', activeProvider);
 
   if (!activeProvider) {
@@ -107,6 +114,8 @@ export async function getLLMConfigAsync(): Promise<LLMConfig | null> {
     provider: activeProvider,
     apiKey,
     model: keyConfig?.model || DEFAULT_MODELS[activeProvider],
+    baseUrl: keyConfig?.baseUrl,
+    apiFlavor: keyConfig?.apiFlavor,
   };
 
   console.log('[LLM] ✅ Final LLM config:', { provider: config.provider, model: config.model, keyLength: config.apiKey.length });
@@ -411,6 +420,55 @@ async function generateWithGoogle(
   }
 }
 
+/**
+ * Generate HTML using a self-hosted model server
+ */
+async function generateWithLocal(
+  config: LLMConfig,
+  request: GenerationRequest
+): Promise<GenerationResponse> {
+  console.log('[LLM] 🤖 generateWithLocal: Calling local model server at', config.baseUrl);
+  console.log('[LLM] 🤖 Model:', request.model || config.model || DEFAULT_MODELS.local);
+
+  if (!config.baseUrl) {
+    return {
+      html: request.currentHtml,
+      success: false,
+      error: 'No server URL configured for the local provider. Update it in Settings → API Keys.',
+    };
+  }
+
+  try {
+    const html = await chatWithLocalModel(
+      {
+        baseUrl: config.baseUrl,
+        apiFlavor: config.apiFlavor || 'openai-compatible',
+        apiKey: config.apiKey,
+        model: request.model || config.model || DEFAULT_MODELS.local,
+      },
+      { system: SYSTEM_PROMPT, prompt: buildUserMessage(request), maxTokens: 8192 }
+    );
+    const cleanedHtml = cleanHtmlResponse(html);
+    console.log('[LLM] ✅ Cleaned HTML length:', cleanedHtml.length);
+
+    if (!cleanedHtml) {
+      throw new Error('Empty response from local model server');
+    }
+
+    return {
+      html: cleanedHtml,
+      success: true,
+    };
+  } catch (error) {
+    console.log('[LLM] ❌ Exception caught:', error);
+    return {
+      html: request.currentHtml,
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    };
+  }
+}
+
 /**
  * Clean HTML response from LLM (remove markdown code blocks if present)
  */
@@ -445,6 +503,14 @@ export async function generateHtml(
   console.log('[LLM] 🎯 Current HTML length:', request.currentHtml.length);
   console.log('[LLM] ========================================');
 
+  // Local models are called from the browser: hosted Edge Functions can't
+  // reach a server on the user's network, and the screen stays on it
+  const provider = request.provider || await getActiveProvider();
+  if (provider === 'local') {
+    console.log('[LLM] 🏠 Local provider selected, skipping Edge Function');
+    return generateHtmlDirect({ ...request, provider });
+  }
+
   console.log('[LLM] 📦 Step 1: Importing supabase client...');
 
   // Import supabase client
@@ -576,7 +642,7 @@ export async function generateHtmlDirect(
 ): Promise<GenerationResponse> {
   console.log('[LLM] 🔄 Using direct API call (development mode)...');
 
-  const config = await getLLMConfigAsync();
+  const config = await getLLMConfigAsync(request.provider);
 
   if (!config) {
     console.log('[LLM] ❌ No LLM config found');
@@ -601,6 +667,9 @@ export async function generateHtmlDirect(
     case 'google':
       result = await generateWithGoogle(config, request);
       break;
+    case 'local':
+      result = await generateWithLocal(config, request);
+      break;
     default:
       result = {
         html: request.currentHtml,
@@ -0,0 +1,112 @@
+/**
+ * Tests for localModelService against a stub model server
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { chatWithLocalModel, discoverLocalModels, normalizeBaseUrl } from './localModelService';
+import { LOCAL_NO_KEY } from './apiKeysService';
+
+type Route = (body: Record<string, unknown> | null, headers: Record<string, string>) => unknown;
+
+const originalFetch = globalThis.fetch;
+
+// Stands in for a model server: routes by URL and records what was sent
+function stubServer(routes: Record<string, Route>) {
+  const fetchMock = vi.fn(async (input: RequestInfo | URL, init?: RequestInit) => {
+    const route = routes[String(input)];
+    if (!route) {
+      return new Response('not found', { status: 404 });
+    }
+    const body = init?.body ? JSON.parse(String(init.body)) : null;
+    return new Response(JSON.stringify(route(body, (init?.headers || {}) as Record<string, string>)), { status: 200 });
+  });
+  globalThis.fetch = fetchMock as typeof fetch;
+  return fetchMock;
+}
+
+afterEach(() => {
+  globalThis.fetch = originalFetch;
+});
+
+describe('normalizeBaseUrl', () => {
+  it('should strip trailing slashes and reject non-HTTP URLs', () => {
+    expect(normalizeBaseUrl(' http://localhost:1234/v1/ ')).toBe('http://localhost:1234/v1');
+    expect(() => normalizeBaseUrl('localhost:11434')).toThrow();
+    expect(() => normalizeBaseUrl('not a url')).toThrow('Invalid server URL');
+  });
+});
+
+describe('discoverLocalModels', () => {
+  it('should list models from an OpenAI-compatible server', async () => {
+    stubServer({
+      'http://gpu-box:8000/v1/models': () => ({ object: 'list', data: [{ id: 'qwen2.5-coder' }, { id: 'llama3.1' }] }),
+    });
+
+    const models = await discoverLocalModels({ baseUrl: 'http://gpu-box:8000/v1/', apiFlavor: 'openai-compatible' });
+
+    expect(models).toEqual(['llama3.1', 'qwen2.5-coder']);
+  });
+
+  it('should list models from Ollama tags', async () => {
+    stubServer({
+      'http://localhost:11434/api/tags': () => ({ models: [{ name: 'llava:13b' }, { name: 'codellama:7b' }] }),
+    });
+
+    const models = await discoverLocalModels({ baseUrl: 'http://localhost:11434', apiFlavor: 'ollama' });
+
+    expect(models).toEqual(['codellama:7b', 'llava:13b']);
+  });
+
+  it('should explain when the server cannot be reached', async () => {
+    globalThis.fetch = vi.fn().mockRejectedValue(new TypeError('fetch failed')) as typeof fetch;
+
+    await expect(discoverLocalModels({ baseUrl: 'http://localhost:11434', apiFlavor: 'ollama' }))
+      .rejects.toThrow('Could not reach local model server at http://localhost:11434: fetch failed');
+  });
+});
+
+describe('chatWithLocalModel', () => {
+  it('should send chat completions with the key as a bearer token', async () => {
+    const server = stubServer({
+      'http://localhost:1234/v1/chat/completions': (body, headers) => ({
+        choices: [{ message: { content: `${headers.Authorization} ${(body!.messages as unknown[]).length}` } }],
+      }),
+    });
+
+    const text = await chatWithLocalModel(
+      { baseUrl: 'http://localhost:1234/v1', apiFlavor: 'openai-compatible', apiKey: 'secret', model: 'qwen' },
+      { system: 'Be brief', prompt: 'Hi', maxTokens: 100 }
+    );
+
+    expect(text).toBe('Bearer secret 2');
+    const body = JSON.parse(String(server.mock.calls[0][1]!.body));
+    expect(body).toMatchObject({ model: 'qwen', max_tokens: 100 });
+  });
+
+  it('should use the Ollama chat API without auth for keyless servers', async () => {
+    const server = stubServer({
+      'http://localhost:11434/api/chat': (body, headers) => ({
+        message: { role: 'assistant', content: headers.Authorization ?? `no auth, stream=${body!.stream}` },
+        done: true,
+      }),
+    });
+
+    const text = await chatWithLocalModel(
+      { baseUrl: 'http://localhost:11434', apiFlavor: 'ollama', apiKey: LOCAL_NO_KEY, model: 'llama3.1' },
+      { prompt: 'Hi', maxTokens: 50 }
+    );
+
+    expect(text).toBe('no auth, stream=false');
+    const body = JSON.parse(String(server.mock.calls[0][1]!.body));
+    expect(body.options).toEqual({ num_predict: 50 });
+  });
+
+  it('should surface server errors', async () => {
+    stubServer({});
+
+    await expect(chatWithLocalModel(
+      { baseUrl: 'http://localhost:11434', apiFlavor: 'ollama', model: 'missing' },
+      { prompt: 'Hi' }
+    )).rejects.toThrow('Local model server error: 404 - not found');
+  });
+});
@@ -0,0 +1,141 @@
+/**
+ * Local Model Service
+ * Talks to self-hosted model servers at a configurable base URL, either
+ * through the OpenAI chat completions format (vLLM, LM Studio, llama.cpp,
+ * LocalAI) or Ollama's native API. Requests go straight from the browser,
+ * so screens are only ever sent to the configured server.
+ */
+
+import { LOCAL_NO_KEY, type LocalApiFlavor } from './apiKeysService';
+
+export interface LocalModelConfig {
+  baseUrl: string;
+  apiFlavor: LocalApiFlavor;
+  apiKey?: string | null;
+  model?: string | null;
+}
+
+export interface LocalChatRequest {
+  prompt: string;
+  system?: string;
+  maxTokens?: number;
+  temperature?: number;
+}
+
+export const LOCAL_API_FLAVORS: Record<LocalApiFlavor, { name: string; defaultBaseUrl: string; description: string }> = {
+  'openai-compatible': {
+    name: 'OpenAI-compatible',
+    defaultBaseUrl: 'http://localhost:1234/v1',
+    description: 'Any server exposing /chat/completions and /models - include the /v1 suffix.',
+  },
+  ollama: {
+    name: 'Ollama',
+    defaultBaseUrl: 'http://localhost:11434',
+    description: 'Ollama\'s native API. Set OLLAMA_ORIGINS so the browser is allowed to call it.',
+  },
+};
+
+const DISCOVERY_TIMEOUT_MS = 10_000;
+const GENERATION_TIMEOUT_MS = 300_000;
+
+/**
+ * Validate a server URL and strip trailing slashes
+ */
+export function normalizeBaseUrl(baseUrl: string): string {
+  const trimmed = baseUrl.trim().replace(/\/+$/, '');
+  let url: URL;
+  try {
+    url = new URL(trimmed);
+  } catch {
+    throw new Error(`Invalid server URL: ${baseUrl}`);
+  }
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    throw new Error('Server URL must start with http:// or https://');
+  }
+  return trimmed;
+}
+
+function buildHeaders(config: LocalModelConfig): Record<string, string> {
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+  if (config.apiKey && config.apiKey !== LOCAL_NO_KEY) {
+    headers.Authorization = `Bearer ${config.apiKey}`;
+  }
+  return headers;
+}
+
+async function request<T>(config: LocalModelConfig, path: string, init: RequestInit, timeoutMs: number): Promise<T> {
+  const url = `${normalizeBaseUrl(config.baseUrl)}${path}`;
+
+  let response: Response;
+  try {
+    response = await fetch(url, {
+      ...init,
+      headers: buildHeaders(config),
+      signal: AbortSignal.timeout(timeoutMs),
+    });
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    throw new Error(`Could not reach local model server at ${config.baseUrl}: ${reason}`);
+  }
+
+  if (!response.ok) {
+    const body = await response.text().catch(() => '');
+    throw new Error(`Local model server error: ${response.status}${body ? ` - ${body}` : ''}`);
+  }
+
+  return response.json() as Promise<T>;
+}
+
+/**
+ * List the models the server has available
+ */
+export async function discoverLocalModels(config: LocalModelConfig): Promise<string[]> {
+  if (config.apiFlavor === 'ollama') {
+    const data = await request<{ models?: Array<{ name: string }> }>(config, '/api/tags', { method: 'GET' }, DISCOVERY_TIMEOUT_MS);
+    return (data.models || []).map((m) => m.name).sort();
+  }
+
+  const data = await request<{ data?: Array<{ id: string }> }>(config, '/models', { method: 'GET' }, DISCOVERY_TIMEOUT_MS);
+  return (data.data || []).map((m) => m.id).sort();
+}
+
+/**
+ * Send a single-turn chat request and return the response text
+ */
+export async function chatWithLocalModel(config: LocalModelConfig, chat: LocalChatRequest): Promise<string> {
+  if (!config.model) {
+    throw new Error('No model selected for the local server');
+  }
+
+  const messages = [
+    ...(chat.system ? [{ role: 'system', content: chat.system }] : []),
+    { role: 'user', content: chat.prompt },
+  ];
+
+  if (config.apiFlavor === 'ollama') {
+    const data = await request<{ message?: { content?: string } }>(config, '/api/chat', {
+      method: 'POST',
+      body: JSON.stringify({
+        model: config.model,
+        stream: false,
+        messages,
+        options: {
+          ...(chat.maxTokens !== undefined && { num_predict: chat.maxTokens }),
+          ...(chat.temperature !== undefined && { temperature: chat.temperature }),
+        },
+      }),
+    }, GENERATION_TIMEOUT_MS);
+    return data.message?.content || '';
+  }
+
+  const data = await request<{ choices?: Array<{ message?: { content?: string | null } }> }>(config, '/chat/completions', {
+    method: 'POST',
+    body: JSON.stringify({
+      model: config.model,
+      messages,
+      ...(chat.maxTokens !== undefined && { max_tokens: chat.maxTokens }),
+      ...(chat.temperature !== undefined && { temperature: chat.temperature }),
+    }),
+  }, GENERATION_TIMEOUT_MS);
+  return data.choices?.[0]?.message?.content || '';
+}
@@ -3,6 +3,7 @@
  */
 
 import { supabase, isSupabaseConfigured } from './supabase';
+import { assignElementIds } from './elementIdentityService';
 
 // Types for screens (matching Supabase schema)
 export interface DbScreen {
@@ -200,6 +201,9 @@ export async function uploadScreen(
 ): Promise<DbScreen | null> {
   if (!isSupabaseConfigured()) return null;
 
+  // Give every element a stable ID that edits, pins and injections can target
+  html = assignElementIds(html);
+
   // Create the screen
   const screen = await createScreen({
     user_id: userId,
@@ -0,0 +1,66 @@
+/**
+ * Tests for sharingService
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { supabase } from './supabase';
+import { getShareGrant, getShareViewerId, parseAllowedDomains, unlockShare } from './sharingService';
+
+vi.mock('./supabase', () => ({
+  supabase: { rpc: vi.fn() },
+  supabasePublic: { rpc: vi.fn() },
+  isSupabaseConfigured: vi.fn().mockReturnValue(true),
+}));
+
+describe('sharingService', () => {
+  beforeEach(() => {
+    localStorage.clear();
+    vi.mocked(supabase.rpc).mockReset();
+  });
+
+  describe('parseAllowedDomains', () => {
+    it('should normalize and dedupe domains', () => {
+      expect(parseAllowedDomains('@Acme.com, client.co acme.com')).toEqual(['acme.com', 'client.co']);
+      expect(parseAllowedDomains('  ')).toEqual([]);
+    });
+
+    it('should reject anything that is not a domain', () => {
+      expect(() => parseAllowedDomains('acme.com, localhost')).toThrow('"localhost" is not an email domain');
+    });
+  });
+
+  describe('unlockShare', () => {
+    it('should store the grant for the link', async () => {
+      vi.mocked(supabase.rpc).mockResolvedValue({
+        data: [{ status: 'granted', grant_token: 'grant-1', expires_at: '2030-01-01T00:00:00Z' }],
+        error: null,
+      } as never);
+
+      await unlockShare('token-1', 'hunter22');
+
+      expect(supabase.rpc).toHaveBeenCalledWith('unlock_share', {
+        p_share_token: 'token-1',
+        p_password: 'hunter22',
+        p_viewer_id: getShareViewerId(),
+      });
+      expect(getShareGrant('token-1')).toBe('grant-1');
+    });
+
+    it('should identify the browser the same way on every unlock', () => {
+      const viewerId = getShareViewerId();
+
+      expect(viewerId).toBeTruthy();
+      expect(getShareViewerId()).toBe(viewerId);
+    });
+
+    it('should explain why a link did not unlock', async () => {
+      vi.mocked(supabase.rpc).mockResolvedValue({
+        data: [{ status: 'wrong_password', grant_token: null, expires_at: null }],
+        error: null,
+      } as never);
+
+      await expect(unlockShare('token-1', 'nope')).rejects.toThrow('Incorrect password');
+      expect(getShareGrant('token-1')).toBeNull();
+    });
+  });
+});
@@ -1,14 +1,28 @@
 /**
  * Sharing Service
- * Manages share links for vibe prototypes
+ * Manages share links for vibe prototypes and multi-screen flows
+ *
+ * Links can be protected by a password, an email-domain allowlist and a
+ * view limit. Viewers unlock a protected link once and get an access
+ * grant, kept in localStorage per token and passed to the share RPCs.
  */
 
 import { supabase, supabasePublic, isSupabaseConfigured } from './supabase';
+import type { FlowHotspot, FlowNode, FlowScreenSource } from './flowService';
 
 // Types
-export type ShareType = 'specific' | 'random';
+export type ShareType = 'specific' | 'random' | 'flow';
+
+export interface ShareAccessOptions {
+  /** Viewers must enter it; hashed server-side */
+  password?: string;
+  /** Viewers must sign in with an email on one of these domains */
+  allowedDomains?: string[];
+  /** Most viewers that may open the link */
+  maxViews?: number;
+}
 
-export interface ShareConfig {
+export interface ShareConfig extends ShareAccessOptions {
   sessionId: string;
   shareType: ShareType;
   variantIndex?: number; // Required for 'specific' type
@@ -25,6 +39,37 @@ export interface ShareLink {
   expiresAt?: string;
   createdAt: string;
   shareWireframes?: boolean;
+  flowId?: string;
+  requiresPassword?: boolean;
+  allowedDomains?: string[];
+  maxViews?: number;
+}
+
+/** What a viewer has to do before a link opens */
+export interface ShareAccess {
+  status: 'open' | 'protected' | 'expired' | 'revoked' | 'not_found';
+  requiresPassword: boolean;
+  requiresEmail: boolean;
+}
+
+export type ShareAuditAction = 'created' | 'unlocked' | 'unlock_failed' | 'view_limit_reached' | 'revoked';
+
+export interface ShareAuditEntry {
+  id: string;
+  action: ShareAuditAction;
+  actorEmail?: string;
+  detail?: Record<string, unknown>;
+  createdAt: string;
+}
+
+export interface SharedFlow {
+  id: string;
+  name: string;
+  startNodeId: string | null;
+  nodes: FlowNode[];
+  hotspots: FlowHotspot[];
+  /** HTML source per node id: a URL to fetch, or edited HTML inline */
+  screens: Record<string, FlowScreenSource>;
 }
 
 export interface ShareData {
@@ -53,12 +98,94 @@ export interface ShareData {
     title: string;
     description: string;
   }>;
+  // For flow shares, the whole flow; opens at its start node
+  flow?: SharedFlow;
 }
 
 export interface ShareWithViews extends ShareLink {
   viewCount: number;
   isActive: boolean;
   shareWireframes: boolean;
+  revokedAt?: string;
+  revokeReason?: string;
+}
+
+// Local storage key prefix for access grants
+const GRANT_KEY_PREFIX = 'voxel_share_grant_';
+
+// Local storage key for this browser's anonymous viewer id
+const VIEWER_ID_KEY = 'voxel_share_viewer';
+
+const UNLOCK_ERRORS: Record<string, string> = {
+  unavailable: 'This share link has expired or been revoked',
+  locked: 'Too many attempts. Try again in a few minutes.',
+  wrong_password: 'Incorrect password',
+  sign_in_required: 'Sign in with your work email to open this link',
+  domain_not_allowed: 'This link is not shared with your email domain',
+  view_limit_reached: 'This link has reached its view limit',
+};
+
+/**
+ * Parse a comma or space separated list of email domains ("@Acme.com,
+ * client.co") into bare lowercase domains. Throws on anything that is not
+ * a domain, so typos don't silently lock everyone out.
+ */
+export function parseAllowedDomains(input: string): string[] {
+  const domains = input
+    .split(/[\s,;]+/)
+    .map((d) => d.trim().replace(/^@/, '').toLowerCase())
+    .filter(Boolean);
+
+  const invalid = domains.find((d) => !/^[a-z0-9-]+(\.[a-z0-9-]+)+$/.test(d));
+  if (invalid) {
+    throw new Error(`"${invalid}" is not an email domain`);
+  }
+
+  return [...new Set(domains)];
+}
+
+function accessParams(options: ShareAccessOptions) {
+  return {
+    p_password: options.password || null,
+    p_allowed_domains: options.allowedDomains?.length ? options.allowedDomains : null,
+    p_max_views: options.maxViews || null,
+  };
+}
+
+/**
+ * The access grant this browser holds for a share token, if still valid
+ */
+export function getShareGrant(token: string): string | null {
+  try {
+    const stored = localStorage.getItem(`${GRANT_KEY_PREFIX}${token}`);
+    if (!stored) return null;
+    const { grant, expiresAt } = JSON.parse(stored) as { grant: string; expiresAt: string };
+    if (new Date(expiresAt) > new Date()) return grant;
+  } catch {
+    // Treat unreadable grants as missing
+  }
+  clearShareGrant(token);
+  return null;
+}
+
+/**
+ * A stable id for this browser, so a viewer who unlocks a link again is
+ * counted once against its view limit
+ */
+export function getShareViewerId(): string {
+  let viewerId = localStorage.getItem(VIEWER_ID_KEY);
+  if (!viewerId) {
+    viewerId = crypto.randomUUID();
+    localStorage.setItem(VIEWER_ID_KEY, viewerId);
+  }
+  return viewerId;
+}
+
+/**
+ * Forget a grant the server no longer accepts
+ */
+export function clearShareGrant(token: string): void {
+  localStorage.removeItem(`${GRANT_KEY_PREFIX}${token}`);
 }
 
 /**
@@ -88,6 +215,7 @@ export async function createShareLink(config: ShareConfig): Promise<ShareLink> {
     p_variant_index: config.variantIndex || null,
     p_expires_in_days: config.expiresInDays || null,
     p_share_wireframes: config.shareWireframes || false,
+    ...accessParams(config),
   });
 
   if (error) {
@@ -119,6 +247,171 @@ export async function createShareLink(config: ShareConfig): Promise<ShareLink> {
     expiresAt: shareDetails?.expires_at,
     createdAt: shareDetails?.created_at || new Date().toISOString(),
     shareWireframes: config.shareWireframes,
+    requiresPassword: !!config.password,
+    allowedDomains: config.allowedDomains?.length ? config.allowedDomains : undefined,
+    maxViews: config.maxViews,
+  };
+}
+
+/**
+ * Create one share link for a flow; it opens at the flow's start screen
+ */
+export async function createFlowShareLink(
+  flowId: string,
+  expiresInDays?: number,
+  access: ShareAccessOptions = {}
+): Promise<ShareLink> {
+  if (!isSupabaseConfigured()) {
+    throw new Error('Supabase not configured');
+  }
+
+  const { data, error } = await supabase.rpc('create_flow_share_link', {
+    p_flow_id: flowId,
+    p_expires_in_days: expiresInDays || null,
+    ...accessParams(access),
+  });
+
+  if (error) {
+    console.error('[SharingService] Error creating flow share:', error);
+    throw new Error(error.message || 'Failed to create share link');
+  }
+
+  if (!data || data.length === 0) {
+    throw new Error('Failed to create share link');
+  }
+
+  const result = data[0];
+
+  return {
+    shareId: result.share_id,
+    shareToken: result.share_token,
+    shareUrl: `${window.location.origin}/share/${result.share_token}`,
+    shareType: 'flow',
+    expiresAt: expiresInDays ? new Date(Date.now() + expiresInDays * 24 * 60 * 60 * 1000).toISOString() : undefined,
+    createdAt: new Date().toISOString(),
+    flowId,
+    requiresPassword: !!access.password,
+    allowedDomains: access.allowedDomains?.length ? access.allowedDomains : undefined,
+    maxViews: access.maxViews,
+  };
+}
+
+/**
+ * What a viewer must do to open a share link (no auth required)
+ */
+export async function getShareAccess(token: string): Promise<ShareAccess> {
+  const open: ShareAccess = { status: 'open', requiresPassword: false, requiresEmail: false };
+  if (!isSupabaseConfigured()) {
+    return open;
+  }
+
+  const { data, error } = await supabasePublic.rpc('get_share_access', {
+    p_share_token: token,
+  });
+
+  if (error) {
+    // getShareData still enforces access; let it decide
+    console.error('[SharingService] Error checking share access:', error);
+    return open;
+  }
+
+  const row = Array.isArray(data) ? data[0] : data;
+  if (!row) {
+    return { ...open, status: 'not_found' };
+  }
+
+  return {
+    status: row.status as ShareAccess['status'],
+    requiresPassword: row.requires_password,
+    requiresEmail: row.requires_email,
+  };
+}
+
+/**
+ * Unlock a protected link. Uses the signed-in session, if any, so the
+ * server can check the viewer's email domain. Throws with a message for
+ * the viewer when access is refused.
+ */
+export async function unlockShare(token: string, password?: string): Promise<void> {
+  if (!isSupabaseConfigured()) {
+    throw new Error('Supabase not configured');
+  }
+
+  const { data, error } = await supabase.rpc('unlock_share', {
+    p_share_token: token,
+    p_password: password || null,
+    p_viewer_id: getShareViewerId(),
+  });
+
+  if (error) {
+    console.error('[SharingService] Error unlocking share:', error);
+    throw new Error('Could not open this link. Please try again.');
+  }
+
+  const row = Array.isArray(data) ? data[0] : data;
+  if (!row || row.status !== 'granted') {
+    throw new Error(UNLOCK_ERRORS[row?.status] || UNLOCK_ERRORS.unavailable);
+  }
+
+  localStorage.setItem(
+    `${GRANT_KEY_PREFIX}${token}`,
+    JSON.stringify({ grant: row.grant_token, expiresAt: row.expires_at })
+  );
+}
+
+/**
+ * Email a magic sign-in link that returns the viewer to the share, for
+ * links restricted to email domains
+ */
+export async function sendShareSignInLink(token: string, email: string): Promise<void> {
+  const { error } = await supabase.auth.signInWithOtp({
+    email,
+    options: { emailRedirectTo: `${window.location.origin}/share/${token}` },
+  });
+
+  if (error) {
+    console.error('[SharingService] Error sending sign-in link:', error);
+    throw new Error(error.message || 'Failed to send sign-in link');
+  }
+}
+
+/**
+ * Get a shared flow with the HTML source of each screen (no auth required)
+ */
+async function getSharedFlow(token: string): Promise<SharedFlow | null> {
+  const { data, error } = await supabasePublic.rpc('get_flow_share_data', {
+    p_share_token: token,
+    p_access_grant: getShareGrant(token),
+  });
+
+  if (error) {
+    console.error('[SharingService] Error fetching shared flow:', error);
+    return null;
+  }
+
+  const rows = (data || []) as Array<{
+    flow_id: string;
+    flow_name: string;
+    start_node_id: string | null;
+    nodes: FlowNode[];
+    hotspots: FlowHotspot[];
+    node_id: string;
+    html_url: string | null;
+    edited_html: string | null;
+  }>;
+  if (rows.length === 0) {
+    return null;
+  }
+
+  return {
+    id: rows[0].flow_id,
+    name: rows[0].flow_name,
+    startNodeId: rows[0].start_node_id,
+    nodes: rows[0].nodes,
+    hotspots: rows[0].hotspots,
+    screens: Object.fromEntries(
+      rows.map((row) => [row.node_id, { htmlUrl: row.html_url, editedHtml: row.edited_html }])
+    ),
   };
 }
 
@@ -135,6 +428,7 @@ export async function getShareData(token: string): Promise<ShareData | null> {
   // Use public client for anonymous access (no auth required)
   const { data, error } = await supabasePublic.rpc('get_share_data', {
     p_share_token: token,
+    p_access_grant: getShareGrant(token),
   });
 
   console.log('[SharingService] RPC response:', { data, error });
@@ -176,6 +470,21 @@ export async function getShareData(token: string): Promise<ShareData | null> {
     },
   };
 
+  if (firstRow.share_type === 'flow') {
+    const flow = await getSharedFlow(token);
+    if (!flow) {
+      return null;
+    }
+    const start = flow.nodes.find((n) => n.id === flow.startNodeId);
+    shareData.session.name = flow.name;
+    shareData.variant = {
+      index: start?.variantIndex ?? 1,
+      title: start?.title || flow.name,
+      description: '',
+    };
+    shareData.flow = flow;
+  }
+
   // If sharing wireframes and multiple rows returned, include all variants
   if (firstRow.share_wireframes && rows.length > 1) {
     shareData.variants = rows.map(row => ({
@@ -246,28 +555,64 @@ export async function getSharesForSession(sessionId: string): Promise<ShareWithV
     viewCount: share.view_count,
     isActive: share.is_active,
     shareWireframes: share.share_wireframes || false,
+    flowId: share.flow_id || undefined,
+    requiresPassword: share.requires_password || false,
+    allowedDomains: share.allowed_domains || undefined,
+    maxViews: share.max_views || undefined,
+    revokedAt: share.revoked_at || undefined,
+    revokeReason: share.revoke_reason || undefined,
   }));
 }
 
 /**
- * Deactivate a share link
+ * Revoke a share link; viewers holding grants lose access too.
+ * The revocation is recorded in the link's audit trail.
  */
-export async function deactivateShare(shareId: string): Promise<boolean> {
+export async function deactivateShare(shareId: string, reason?: string): Promise<boolean> {
   if (!isSupabaseConfigured()) {
     return false;
   }
 
-  const { error } = await supabase
-    .from('vibe_shares')
-    .update({ is_active: false })
-    .eq('id', shareId);
+  const { data, error } = await supabase.rpc('revoke_share_link', {
+    p_share_id: shareId,
+    p_reason: reason || null,
+  });
 
   if (error) {
     console.error('[SharingService] Error deactivating share:', error);
     return false;
   }
 
-  return true;
+  return data === true;
+}
+
+/**
+ * Audit trail of a share link, newest first (owner only)
+ */
+export async function getShareAuditLog(shareId: string): Promise<ShareAuditEntry[]> {
+  if (!isSupabaseConfigured()) {
+    return [];
+  }
+
+  const { data, error } = await supabase
+    .from('vibe_share_audit')
+    .select('*')
+    .eq('share_id', shareId)
+    .order('created_at', { ascending: false })
+    .limit(100);
+
+  if (error) {
+    console.error('[SharingService] Error fetching audit log:', error);
+    return [];
+  }
+
+  return (data || []).map((row) => ({
+    id: row.id,
+    action: row.action as ShareAuditAction,
+    actorEmail: row.actor_email || undefined,
+    detail: row.detail || undefined,
+    createdAt: row.created_at,
+  }));
 }
 
 /**
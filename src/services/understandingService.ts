@@ -5,6 +5,7 @@
 
 import { supabase, isSupabaseConfigured } from './supabase';
 import type { UIMetadata } from './screenAnalyzerService';
+import { compactToBudget, getHtmlTokenBudget } from './htmlCompactor';
 
 // Types
 export interface UnderstandingResponse {
@@ -37,10 +38,10 @@ type ProgressCallback = (progress: UnderstandingProgress) => void;
 export async function generateUnderstanding(
   sessionId: string,
   prompt: string,
-  compactedHtml: string,
+  html: string,
   uiMetadata?: UIMetadata,
   productContext?: string,
-  provider?: 'anthropic' | 'openai' | 'google',
+  provider?: 'anthropic' | 'openai' | 'google' | 'local',
   model?: string,
   onProgress?: ProgressCallback
 ): Promise<GeneratedUnderstanding> {
@@ -61,6 +62,9 @@ export async function generateUnderstanding(
     percent: 10,
   });
 
+  // Compact HTML to fit the selected model's share of the prompt
+  const compactedHtml = compactToBudget(html, { provider, model, maxTokens: getHtmlTokenBudget({ provider, model }) }).html;
+
   console.log('[UnderstandingService] Generating understanding:', {
     sessionId,
     promptLength: prompt.length,
@@ -190,10 +194,10 @@ export async function clarifyRequest(
   sessionId: string,
   originalPrompt: string,
   clarification: string,
-  compactedHtml: string,
+  html: string,
   uiMetadata?: UIMetadata,
   productContext?: string,
-  provider?: 'anthropic' | 'openai' | 'google',
+  provider?: 'anthropic' | 'openai' | 'google' | 'local',
   model?: string,
   onProgress?: ProgressCallback
 ): Promise<GeneratedUnderstanding> {
@@ -206,7 +210,7 @@ ${clarification}`;
   return generateUnderstanding(
     sessionId,
     enhancedPrompt,
-    compactedHtml,
+    html,
     uiMetadata,
     productContext,
     provider,
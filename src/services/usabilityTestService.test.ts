@@ -0,0 +1,79 @@
+/**
+ * Tests for usabilityTestService
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  pickUsabilityWinner,
+  summarizeUsabilityResults,
+  type UsabilityResultRecord,
+} from './usabilityTestService';
+
+function result(overrides: Partial<UsabilityResultRecord>): UsabilityResultRecord {
+  return {
+    id: Math.random().toString(36).slice(2),
+    shareId: 'share-1',
+    variantIndex: 1,
+    participantId: 'p1',
+    taskId: 'find-refund',
+    outcome: 'success',
+    durationMs: 10000,
+    clicks: 3,
+    misclicks: 0,
+    createdAt: '2026-02-15T10:00:00Z',
+    ...overrides,
+  };
+}
+
+describe('usabilityTestService', () => {
+  describe('summarizeUsabilityResults', () => {
+    it('should roll results up per variant and task', () => {
+      const [a, b] = summarizeUsabilityResults([
+        result({ variantIndex: 2, participantId: 'p1', durationMs: 4000, rating: 5 }),
+        result({ participantId: 'p2', durationMs: 12000, misclicks: 2, rating: 2 }),
+        result({ participantId: 'p3', durationMs: 8000, misclicks: 1 }),
+        result({ participantId: 'p4', outcome: 'abandoned', durationMs: 60000, misclicks: 6, rating: 1 }),
+        result({ participantId: 'p2', taskId: 'export', outcome: 'fail', durationMs: 30000 }),
+      ]);
+
+      expect(a).toMatchObject({
+        variantIndex: 1,
+        participants: 3,
+        attempts: 4,
+        successRate: 0.5,
+        // Only successful attempts count toward time on task
+        medianDurationMs: 10000,
+        avgMisclicks: 2.25,
+        avgRating: 1.5,
+      });
+      expect(a.tasks.map((t) => [t.taskId, t.attempts, t.successRate])).toEqual([
+        ['find-refund', 3, 2 / 3],
+        ['export', 1, 0],
+      ]);
+      expect(b).toMatchObject({ variantIndex: 2, participants: 1, successRate: 1, medianDurationMs: 4000, avgRating: 5 });
+    });
+  });
+
+  describe('pickUsabilityWinner', () => {
+    const summary = (variantIndex: number, participants: number, successRate: number, medianDurationMs: number) => ({
+      variantIndex,
+      participants,
+      attempts: participants,
+      successRate,
+      medianDurationMs,
+      avgMisclicks: 0,
+      avgRating: null,
+      tasks: [],
+    });
+
+    it('should prefer success rate, then speed', () => {
+      expect(pickUsabilityWinner([summary(1, 5, 0.6, 9000), summary(2, 5, 0.8, 20000)])).toBe(2);
+      expect(pickUsabilityWinner([summary(1, 5, 0.8, 9000), summary(2, 5, 0.8, 20000)])).toBe(1);
+    });
+
+    it('should not call a winner without enough evidence', () => {
+      expect(pickUsabilityWinner([summary(1, 5, 0.6, 9000), summary(2, 2, 1, 5000)])).toBeNull();
+      expect(pickUsabilityWinner([summary(1, 5, 0.8, 9000), summary(2, 5, 0.8, 9000)])).toBeNull();
+    });
+  });
+});
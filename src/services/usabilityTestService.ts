@@ -0,0 +1,283 @@
+/**
+ * Usability Test Service
+ * Tasks attached to share links, the results participants record against
+ * them, and the per-variant rollup used to compare variants
+ */
+
+import { supabase, supabasePublic, isSupabaseConfigured } from './supabase';
+import { getShareGrant } from './sharingService';
+import type { UsabilityCriterion, UsabilityOutcome, UsabilityTask, UsabilityTaskResult } from './injections';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface UsabilityResultRecord extends UsabilityTaskResult {
+  id: string;
+  shareId: string;
+  variantIndex: number;
+  participantId: string;
+  createdAt: string;
+}
+
+export interface UsabilityTaskSummary {
+  taskId: string;
+  attempts: number;
+  /** 0-1 */
+  successRate: number;
+  medianDurationMs: number;
+  avgMisclicks: number;
+  avgRating: number | null;
+}
+
+export interface UsabilityVariantSummary {
+  variantIndex: number;
+  participants: number;
+  attempts: number;
+  successRate: number;
+  medianDurationMs: number;
+  avgMisclicks: number;
+  avgRating: number | null;
+  tasks: UsabilityTaskSummary[];
+}
+
+// Fewer participants than this per variant is too little evidence for a winner
+const MIN_PARTICIPANTS_FOR_WINNER = 3;
+
+// ============================================================================
+// Tasks
+// ============================================================================
+
+export function createUsabilityTask(prompt: string, criterion: UsabilityCriterion): UsabilityTask {
+  return {
+    id: `task-${Date.now()}-${Math.random().toString(36).slice(2, 9)}`,
+    prompt: prompt.trim(),
+    criterion,
+  };
+}
+
+/**
+ * Whether a task has everything it needs to be attempted
+ */
+export function isUsabilityTaskComplete(task: UsabilityTask): boolean {
+  if (!task.prompt.trim()) return false;
+  switch (task.criterion.type) {
+    case 'click':
+      return !!task.criterion.selector.trim();
+    case 'url':
+      return !!task.criterion.contains.trim();
+    case 'state':
+      return !!task.criterion.key.trim();
+  }
+}
+
+/**
+ * Attach tasks to a share link, turning it into a usability test.
+ * An empty list turns test mode off.
+ */
+export async function saveUsabilityTasks(shareId: string, tasks: UsabilityTask[]): Promise<boolean> {
+  if (!isSupabaseConfigured()) {
+    return false;
+  }
+
+  const { error } = await supabase
+    .from('vibe_shares')
+    .update({ usability_tasks: tasks.length > 0 ? tasks : null })
+    .eq('id', shareId);
+
+  if (error) {
+    console.error('[UsabilityTestService] Error saving tasks:', error);
+    return false;
+  }
+
+  return true;
+}
+
+/**
+ * Tasks for a share link; empty when it is not a usability test
+ */
+export async function getShareUsabilityTasks(token: string): Promise<UsabilityTask[]> {
+  if (!isSupabaseConfigured()) {
+    return [];
+  }
+
+  const { data, error } = await supabasePublic.rpc('get_share_usability_tasks', {
+    p_share_token: token,
+    p_access_grant: getShareGrant(token),
+  });
+
+  if (error) {
+    console.error('[UsabilityTestService] Error fetching tasks:', error);
+    return [];
+  }
+
+  return Array.isArray(data) ? (data as UsabilityTask[]) : [];
+}
+
+/**
+ * Every task defined across a session's share links, for labelling results
+ */
+export async function getSessionUsabilityTasks(sessionId: string): Promise<UsabilityTask[]> {
+  if (!isSupabaseConfigured()) {
+    return [];
+  }
+
+  const { data, error } = await supabase
+    .from('vibe_shares')
+    .select('usability_tasks')
+    .eq('session_id', sessionId)
+    .not('usability_tasks', 'is', null);
+
+  if (error) {
+    console.error('[UsabilityTestService] Error fetching session tasks:', error);
+    return [];
+  }
+
+  return (data || []).flatMap((row) =>
+    Array.isArray(row.usability_tasks) ? (row.usability_tasks as UsabilityTask[]) : []
+  );
+}
+
+// ============================================================================
+// Results
+// ============================================================================
+
+/**
+ * Record a participant's attempt at a task
+ */
+export async function recordUsabilityResult(
+  token: string,
+  variantIndex: number,
+  participantId: string,
+  result: UsabilityTaskResult
+): Promise<boolean> {
+  if (!isSupabaseConfigured()) {
+    return false;
+  }
+
+  const { data, error } = await supabasePublic.rpc('record_usability_result', {
+    p_share_token: token,
+    p_variant_index: variantIndex,
+    p_task_id: result.taskId,
+    p_participant_id: participantId,
+    p_outcome: result.outcome,
+    p_duration_ms: Math.round(result.durationMs),
+    p_clicks: result.clicks,
+    p_misclicks: result.misclicks,
+    p_rating: result.rating ?? null,
+    p_access_grant: getShareGrant(token),
+  });
+
+  if (error) {
+    console.error('[UsabilityTestService] Error recording result:', error);
+    return false;
+  }
+
+  return data === true;
+}
+
+/**
+ * All results recorded against a session's share links
+ */
+export async function getUsabilityResults(sessionId: string): Promise<UsabilityResultRecord[]> {
+  if (!isSupabaseConfigured()) {
+    return [];
+  }
+
+  const { data, error } = await supabase
+    .from('vibe_usability_results')
+    .select('*')
+    .eq('session_id', sessionId)
+    .order('created_at', { ascending: true });
+
+  if (error) {
+    console.error('[UsabilityTestService] Error fetching results:', error);
+    return [];
+  }
+
+  return (data || []).map((row) => ({
+    id: row.id,
+    shareId: row.share_id,
+    variantIndex: row.variant_index,
+    participantId: row.participant_id,
+    taskId: row.task_id,
+    outcome: row.outcome as UsabilityOutcome,
+    durationMs: row.duration_ms,
+    clicks: row.clicks,
+    misclicks: row.misclicks,
+    rating: row.rating ?? undefined,
+    createdAt: row.created_at,
+  }));
+}
+
+// ============================================================================
+// Rollup
+// ============================================================================
+
+function median(values: number[]): number {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+function average(values: number[]): number | null {
+  return values.length > 0 ? values.reduce((sum, v) => sum + v, 0) / values.length : null;
+}
+
+function summarize(results: UsabilityTaskResult[]) {
+  // Time on task is only meaningful for attempts that succeeded
+  const successes = results.filter((r) => r.outcome === 'success');
+  return {
+    attempts: results.length,
+    successRate: results.length > 0 ? successes.length / results.length : 0,
+    medianDurationMs: median(successes.map((r) => r.durationMs)),
+    avgMisclicks: average(results.map((r) => r.misclicks)) ?? 0,
+    avgRating: average(results.flatMap((r) => (r.rating ? [r.rating] : []))),
+  };
+}
+
+/**
+ * Roll results up per variant, and per task within each variant
+ */
+export function summarizeUsabilityResults(results: UsabilityResultRecord[]): UsabilityVariantSummary[] {
+  const byVariant = new Map<number, UsabilityResultRecord[]>();
+  for (const result of results) {
+    byVariant.set(result.variantIndex, [...(byVariant.get(result.variantIndex) || []), result]);
+  }
+
+  return [...byVariant.entries()]
+    .sort(([a], [b]) => a - b)
+    .map(([variantIndex, variantResults]) => {
+      const taskIds = [...new Set(variantResults.map((r) => r.taskId))];
+      return {
+        variantIndex,
+        participants: new Set(variantResults.map((r) => r.participantId)).size,
+        ...summarize(variantResults),
+        tasks: taskIds.map((taskId) => ({
+          taskId,
+          ...summarize(variantResults.filter((r) => r.taskId === taskId)),
+        })),
+      };
+    });
+}
+
+/**
+ * The variant with the highest success rate, faster median time breaking
+ * ties. Null until at least two variants have enough participants.
+ */
+export function pickUsabilityWinner(
+  summaries: UsabilityVariantSummary[],
+  minParticipants = MIN_PARTICIPANTS_FOR_WINNER
+): number | null {
+  const eligible = summaries.filter((s) => s.participants >= minParticipants);
+  if (eligible.length < 2) return null;
+
+  const [best, next] = [...eligible].sort(
+    (a, b) => b.successRate - a.successRate || a.medianDurationMs - b.medianDurationMs
+  );
+  if (best.successRate === next.successRate && best.medianDurationMs === next.medianDurationMs) {
+    return null;
+  }
+  return best.variantIndex;
+}
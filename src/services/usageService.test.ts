@@ -0,0 +1,136 @@
+/**
+ * Tests for usageService
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { supabase } from './supabase';
+import {
+  getBudgetStatus,
+  getBudgetStatuses,
+  startOfMonth,
+  summarizeUsage,
+  type LlmUsageRecord,
+  type UsageBudget,
+} from './usageService';
+
+vi.mock('./supabase', () => ({
+  supabase: {
+    auth: { getUser: vi.fn() },
+    from: vi.fn(),
+  },
+  isSupabaseConfigured: vi.fn().mockReturnValue(true),
+}));
+
+function record(overrides: Partial<LlmUsageRecord>): LlmUsageRecord {
+  return {
+    id: Math.random().toString(36).slice(2),
+    user_id: 'user-1',
+    session_id: 'session-1',
+    variant_id: null,
+    function_name: 'generate-variant-code-streaming',
+    provider: 'anthropic',
+    model: 'claude-sonnet-4-20250514',
+    input_tokens: 1000,
+    output_tokens: 500,
+    latency_ms: 2000,
+    estimated_cost_usd: 0.0105,
+    created_at: '2026-02-10T10:00:00Z',
+    session_name: 'Checkout redesign',
+    ...overrides,
+  };
+}
+
+function budget(overrides: Partial<UsageBudget>): UsageBudget {
+  return {
+    id: 'budget-1',
+    user_id: 'user-1',
+    session_id: null,
+    limit_usd: 10,
+    created_at: '2026-02-01T00:00:00Z',
+    updated_at: '2026-02-01T00:00:00Z',
+    ...overrides,
+  };
+}
+
+const RECORDS = [
+  record({}),
+  record({ function_name: 'iterate-variant', estimated_cost_usd: 0.02, latency_ms: 4000 }),
+  record({ session_id: 'session-2', session_name: 'Onboarding', provider: 'openai', model: 'gpt-4.1', estimated_cost_usd: 0.5 }),
+  record({ session_id: null, session_name: null, function_name: 'generate-html', provider: 'local', model: 'llama3.1', estimated_cost_usd: 0, latency_ms: null }),
+];
+
+describe('summarizeUsage', () => {
+  it('should total tokens, cost and latency', () => {
+    const { totals } = summarizeUsage(RECORDS);
+
+    expect(totals.calls).toBe(4);
+    expect(totals.inputTokens).toBe(4000);
+    expect(totals.outputTokens).toBe(2000);
+    expect(totals.costUsd).toBeCloseTo(0.5305);
+    expect(totals.avgLatencyMs).toBe(2667);
+  });
+
+  it('should group by project, model and function, most expensive first', () => {
+    const { byProject, byModel, byFunction } = summarizeUsage(RECORDS);
+
+    expect(byProject.map((g) => [g.label, g.calls])).toEqual([
+      ['Onboarding', 1],
+      ['Checkout redesign', 2],
+      ['Outside projects', 1],
+    ]);
+    expect(byProject[1].costUsd).toBeCloseTo(0.0305);
+    expect(byModel.map((g) => g.key)).toEqual(['openai/gpt-4.1', 'anthropic/claude-sonnet-4-20250514', 'local/llama3.1']);
+    expect(byFunction.find((g) => g.key === 'iterate-variant')?.calls).toBe(1);
+  });
+
+  it('should handle no usage', () => {
+    expect(summarizeUsage([]).totals).toEqual({ calls: 0, inputTokens: 0, outputTokens: 0, costUsd: 0, avgLatencyMs: 0 });
+  });
+});
+
+describe('getBudgetStatus', () => {
+  it('should report remaining spend and cap the percentage', () => {
+    expect(getBudgetStatus(budget({ limit_usd: 10 }), 2.5)).toMatchObject({
+      remainingUsd: 7.5,
+      percentUsed: 25,
+      exceeded: false,
+    });
+    expect(getBudgetStatus(budget({ limit_usd: 10 }), 12)).toMatchObject({
+      remainingUsd: 0,
+      percentUsed: 100,
+      exceeded: true,
+    });
+  });
+});
+
+describe('getBudgetStatuses', () => {
+  it('should use month-to-date spend for the account and all-time spend for projects', async () => {
+    const inFn = vi.fn().mockResolvedValue({
+      data: [
+        { session_id: 'session-1', estimated_cost_usd: '1.50' },
+        { session_id: 'session-1', estimated_cost_usd: '0.75' },
+      ],
+      error: null,
+    });
+    vi.mocked(supabase.from).mockReturnValue({
+      select: vi.fn().mockReturnValue({ in: inFn }),
+    } as unknown as ReturnType<typeof supabase.from>);
+
+    const statuses = await getBudgetStatuses(
+      [budget({ id: 'account' }), budget({ id: 'project', session_id: 'session-1', limit_usd: 2 })],
+      RECORDS
+    );
+
+    expect(inFn).toHaveBeenCalledWith('session_id', ['session-1']);
+    expect(statuses[0].spentUsd).toBeCloseTo(0.5305);
+    expect(statuses[1]).toMatchObject({ spentUsd: 2.25, exceeded: true });
+  });
+});
+
+describe('startOfMonth', () => {
+  it('should return the first day of the month', () => {
+    const start = startOfMonth(new Date(2026, 1, 17, 15, 30));
+
+    expect([start.getFullYear(), start.getMonth(), start.getDate(), start.getHours()]).toEqual([2026, 1, 1, 0]);
+  });
+});
@@ -0,0 +1,296 @@
+/**
+ * Usage Service
+ *
+ * Reads the LLM token usage and estimated cost that Edge Functions record
+ * for every call, and manages spend limits. Sessions are the "projects"
+ * usage is grouped by. Budgets are enforced server-side: once one is used
+ * up, generation fails with errorCode BUDGET_EXCEEDED.
+ *
+ * - An account budget (no session) limits spend per calendar month
+ * - A project budget limits the total spend of one session
+ */
+
+import { supabase, isSupabaseConfigured } from './supabase';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface LlmUsageRecord {
+  id: string;
+  user_id: string;
+  session_id: string | null;
+  variant_id: string | null;
+  function_name: string;
+  provider: string;
+  model: string;
+  input_tokens: number;
+  output_tokens: number;
+  latency_ms: number | null;
+  estimated_cost_usd: number;
+  created_at: string;
+  /** Joined from vibe_sessions */
+  session_name?: string | null;
+}
+
+export interface UsageBudget {
+  id: string;
+  user_id: string;
+  session_id: string | null;
+  limit_usd: number;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface UsageTotals {
+  calls: number;
+  inputTokens: number;
+  outputTokens: number;
+  costUsd: number;
+  avgLatencyMs: number;
+}
+
+export interface UsageGroup extends UsageTotals {
+  key: string;
+  label: string;
+}
+
+export interface UsageSummary {
+  totals: UsageTotals;
+  byProject: UsageGroup[];
+  byModel: UsageGroup[];
+  byFunction: UsageGroup[];
+}
+
+export interface BudgetStatus {
+  budget: UsageBudget;
+  spentUsd: number;
+  remainingUsd: number;
+  /** 0-100, capped */
+  percentUsed: number;
+  exceeded: boolean;
+}
+
+export interface UsageProject {
+  id: string;
+  name: string;
+}
+
+// ============================================================================
+// Aggregation
+// ============================================================================
+
+export function startOfMonth(date: Date = new Date()): Date {
+  return new Date(date.getFullYear(), date.getMonth(), 1);
+}
+
+function totalsOf(records: LlmUsageRecord[]): UsageTotals {
+  const withLatency = records.filter((r) => r.latency_ms !== null);
+  return {
+    calls: records.length,
+    inputTokens: records.reduce((sum, r) => sum + r.input_tokens, 0),
+    outputTokens: records.reduce((sum, r) => sum + r.output_tokens, 0),
+    costUsd: records.reduce((sum, r) => sum + Number(r.estimated_cost_usd), 0),
+    avgLatencyMs: withLatency.length
+      ? Math.round(withLatency.reduce((sum, r) => sum + (r.latency_ms || 0), 0) / withLatency.length)
+      : 0,
+  };
+}
+
+function groupBy(
+  records: LlmUsageRecord[],
+  keyOf: (record: LlmUsageRecord) => string,
+  labelOf: (record: LlmUsageRecord) => string
+): UsageGroup[] {
+  const groups = new Map<string, LlmUsageRecord[]>();
+  records.forEach((record) => {
+    const key = keyOf(record);
+    groups.set(key, [...(groups.get(key) || []), record]);
+  });
+
+  return [...groups.entries()]
+    .map(([key, group]) => ({ key, label: labelOf(group[0]), ...totalsOf(group) }))
+    .sort((a, b) => b.costUsd - a.costUsd || b.calls - a.calls);
+}
+
+/**
+ * Totals plus breakdowns by project, model and edge function, most expensive first
+ */
+export function summarizeUsage(records: LlmUsageRecord[]): UsageSummary {
+  return {
+    totals: totalsOf(records),
+    byProject: groupBy(
+      records,
+      (r) => r.session_id || 'none',
+      (r) => (r.session_id ? r.session_name || 'Untitled project' : 'Outside projects')
+    ),
+    byModel: groupBy(records, (r) => `${r.provider}/${r.model}`, (r) => r.model),
+    byFunction: groupBy(records, (r) => r.function_name, (r) => r.function_name),
+  };
+}
+
+export function getBudgetStatus(budget: UsageBudget, spentUsd: number): BudgetStatus {
+  const limit = Number(budget.limit_usd);
+  return {
+    budget,
+    spentUsd,
+    remainingUsd: Math.max(0, limit - spentUsd),
+    percentUsed: Math.min(100, limit > 0 ? (spentUsd / limit) * 100 : 100),
+    exceeded: spentUsd >= limit,
+  };
+}
+
+// ============================================================================
+// Queries
+// ============================================================================
+
+/**
+ * Get usage records for the current user, newest first
+ */
+export async function getUsageRecords(since: Date = startOfMonth()): Promise<LlmUsageRecord[]> {
+  if (!isSupabaseConfigured()) {
+    return [];
+  }
+
+  const { data, error } = await supabase
+    .from('llm_usage')
+    .select('*, vibe_sessions(name)')
+    .gte('created_at', since.toISOString())
+    .order('created_at', { ascending: false });
+
+  if (error) {
+    console.error('Error fetching LLM usage:', error);
+    return [];
+  }
+
+  return (data || []).map(({ vibe_sessions, ...row }) => ({
+    ...row,
+    estimated_cost_usd: Number(row.estimated_cost_usd),
+    session_name: (vibe_sessions as { name: string } | null)?.name ?? null,
+  })) as LlmUsageRecord[];
+}
+
+/**
+ * Get the current user's projects, for assigning budgets
+ */
+export async function getUsageProjects(): Promise<UsageProject[]> {
+  if (!isSupabaseConfigured()) {
+    return [];
+  }
+
+  const { data, error } = await supabase
+    .from('vibe_sessions')
+    .select('id, name')
+    .order('created_at', { ascending: false });
+
+  if (error) {
+    console.error('Error fetching projects:', error);
+    return [];
+  }
+
+  return (data as UsageProject[]) || [];
+}
+
+/**
+ * Get all budgets for the current user
+ */
+export async function getBudgets(): Promise<UsageBudget[]> {
+  if (!isSupabaseConfigured()) {
+    return [];
+  }
+
+  const { data, error } = await supabase
+    .from('usage_budgets')
+    .select('*')
+    .order('created_at', { ascending: true });
+
+  if (error) {
+    console.error('Error fetching usage budgets:', error);
+    return [];
+  }
+
+  return (data as UsageBudget[]) || [];
+}
+
+/**
+ * Get each budget with what has been spent against it
+ */
+export async function getBudgetStatuses(
+  budgets: UsageBudget[],
+  monthRecords: LlmUsageRecord[]
+): Promise<BudgetStatus[]> {
+  const sessionIds = budgets.map((b) => b.session_id).filter((id): id is string => id !== null);
+  const spentBySession = new Map<string, number>();
+
+  // Project budgets count all-time spend, not just this month's records
+  if (sessionIds.length > 0 && isSupabaseConfigured()) {
+    const { data, error } = await supabase
+      .from('llm_usage')
+      .select('session_id, estimated_cost_usd')
+      .in('session_id', sessionIds);
+
+    if (error) {
+      console.error('Error fetching project spend:', error);
+    }
+    (data || []).forEach((row: { session_id: string; estimated_cost_usd: number }) => {
+      spentBySession.set(row.session_id, (spentBySession.get(row.session_id) || 0) + Number(row.estimated_cost_usd));
+    });
+  }
+
+  const monthSpend = totalsOf(monthRecords).costUsd;
+  return budgets.map((budget) =>
+    getBudgetStatus(budget, budget.session_id ? spentBySession.get(budget.session_id) || 0 : monthSpend)
+  );
+}
+
+/**
+ * Create or update the budget for a project, or the account when sessionId is null
+ */
+export async function saveBudget(sessionId: string | null, limitUsd: number): Promise<UsageBudget | null> {
+  if (!isSupabaseConfigured()) {
+    return null;
+  }
+
+  if (!(limitUsd > 0)) {
+    throw new Error('Budget must be greater than zero');
+  }
+
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) {
+    throw new Error('You must be logged in to set a budget');
+  }
+
+  const { data, error } = await supabase
+    .from('usage_budgets')
+    .upsert(
+      { user_id: user.id, session_id: sessionId, limit_usd: limitUsd },
+      { onConflict: 'user_id,session_id' }
+    )
+    .select()
+    .single();
+
+  if (error) {
+    console.error('Error saving usage budget:', error);
+    throw new Error(`Failed to save budget: ${error.message}`);
+  }
+
+  return data as UsageBudget;
+}
+
+/**
+ * Remove a budget
+ */
+export async function deleteBudget(budgetId: string): Promise<boolean> {
+  if (!isSupabaseConfigured()) {
+    return false;
+  }
+
+  const { error } = await supabase.from('usage_budgets').delete().eq('id', budgetId);
+
+  if (error) {
+    console.error('Error deleting usage budget:', error);
+    return false;
+  }
+
+  return true;
+}
@@ -134,7 +134,7 @@ export async function extractUXGuidelines(
     videoMimeType?: string;
   },
   videoDescription?: string,
-  provider?: 'anthropic' | 'openai' | 'google',
+  provider?: 'anthropic' | 'openai' | 'google' | 'local',
   model?: string,
   onProgress?: ProgressCallback
 ): Promise<ExtractionResult> {
@@ -246,7 +246,7 @@ export async function extractUXGuidelines(
 /**
  * Get the user's configured AI provider
  */
-async function getUserProvider(): Promise<'anthropic' | 'openai' | 'google' | null> {
+async function getUserProvider(): Promise<'anthropic' | 'openai' | 'google' | 'local' | null> {
   try {
     const { data, error } = await supabase
       .from('user_api_key_refs')
@@ -256,7 +256,7 @@ async function getUserProvider(): Promise<'anthropic' | 'openai' | 'google' | nu
       .single();
 
     if (error || !data) return null;
-    return data.provider as 'anthropic' | 'openai' | 'google';
+    return data.provider as 'anthropic' | 'openai' | 'google' | 'local';
   } catch {
     return null;
   }
@@ -270,7 +270,7 @@ export async function extractGuidelinesFromVideo(
   videoFile: File,
   onProgress?: ProgressCallback,
   numFrames: number = 8,
-  provider?: 'anthropic' | 'openai' | 'google',
+  provider?: 'anthropic' | 'openai' | 'google' | 'local',
   model?: string
 ): Promise<ExtractionResult> {
   // Determine which provider to use
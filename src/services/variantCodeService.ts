@@ -6,6 +6,9 @@
 import { supabase, isSupabaseConfigured } from './supabase';
 import type { UIMetadata } from './screenAnalyzerService';
 import type { VariantPlan } from './variantPlanService';
+import type { VariantAiChange } from './variantEditsService';
+import { retrieveProductContext } from './contextFilesService';
+import type { ContextCitation } from './contextIndexService';
 
 // Types
 export interface VibeVariant {
@@ -29,6 +32,9 @@ export interface VibeVariant {
   edited_at: string | null;
   partial_html: string | null;
   partial_html_updated_at: string | null;
+  edit_head_id: string | null;
+  /** AI edit operations the variant was generated with; only for edit-based generation */
+  ai_changes?: VariantAiChange[] | null;
   created_at: string;
   updated_at: string;
 }
@@ -39,6 +45,8 @@ export interface GenerationProgress {
   percent: number;
   variantIndex: number;
   title?: string;
+  /** Product context sources the variant was generated with */
+  citations?: ContextCitation[];
 }
 
 type ProgressCallback = (progress: GenerationProgress) => void;
@@ -196,6 +204,22 @@ export async function generateVariantCode(
   return data.variant;
 }
 
+/**
+ * Product context for one plan: the caller's text when given, otherwise
+ * the chunks retrieved against what this plan changes
+ */
+async function getPlanContext(
+  plan: VariantPlan,
+  productContext?: string
+): Promise<{ text?: string; citations: ContextCitation[] }> {
+  if (productContext) return { text: productContext, citations: [] };
+
+  const retrieved = await retrieveProductContext(
+    [plan.title, plan.description, ...plan.key_changes].join('\n')
+  );
+  return { text: retrieved.text || undefined, citations: retrieved.citations };
+}
+
 /**
  * Generate code for all variants sequentially
  * Shows progress as each variant completes
@@ -213,6 +237,7 @@ export async function generateAllVariants(
 
   for (let i = 0; i < totalPlans; i++) {
     const plan = plans[i];
+    const planContext = await getPlanContext(plan, productContext);
 
     // Progress: Starting this variant
     onProgress?.({
@@ -221,6 +246,7 @@ export async function generateAllVariants(
       percent: Math.round((i / totalPlans) * 100),
       variantIndex: plan.variant_index,
       title: plan.title,
+      citations: planContext.citations,
     });
 
     try {
@@ -229,7 +255,7 @@ export async function generateAllVariants(
         plan,
         sourceHtml,
         uiMetadata,
-        productContext,
+        planContext.text,
         (progress) => {
           // Adjust percent for overall progress
           const basePercent = (i / totalPlans) * 100;
@@ -691,6 +717,7 @@ export async function generateAllVariantsStreaming(
   for (let i = 0; i < totalPlans; i++) {
     const plan = plans[i];
     htmlAccumulators[plan.variant_index] = '';
+    const planContext = await getPlanContext(plan, productContext);
 
     // Progress: Starting this variant
     onProgress?.({
@@ -699,6 +726,7 @@ export async function generateAllVariantsStreaming(
       percent: Math.round((i / totalPlans) * 100),
       variantIndex: plan.variant_index,
       title: plan.title,
+      citations: planContext.citations,
     });
 
     try {
@@ -711,7 +739,7 @@ export async function generateAllVariantsStreaming(
         screenshotBase64,
         designTokens,
         wireframeText,
-        productContext,
+        planContext.text,
         (event) => {
           if (event.type === 'chunk') {
             htmlAccumulators[plan.variant_index] += event.data.chunk;
@@ -741,8 +769,8 @@ export async function generateAllVariantsStreaming(
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
       console.error(`[VariantCodeService] Failed to generate variant ${plan.variant_index}:`, errorMessage, error);
 
-      // Re-throw API_KEY_MISSING errors - no point trying other variants
-      if (error instanceof GenerationError && error.code === 'API_KEY_MISSING') {
+      // Re-throw missing key and budget errors - no point trying other variants
+      if (error instanceof GenerationError && (error.code === 'API_KEY_MISSING' || error.code === 'BUDGET_EXCEEDED')) {
         throw error;
       }
 
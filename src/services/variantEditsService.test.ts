@@ -0,0 +1,156 @@
+/**
+ * Tests for variantEditsService
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { applyEditOperations, EditOps } from './editOperationsService';
+import { assignElementIds } from './elementIdentityService';
+import {
+  generateVariantEditsV2,
+  rebaseVariantAiChanges,
+  toVariantAiChanges,
+  toggleVariantAiChange,
+} from './variantEditsService';
+import type { VariantPlan } from './variantPlanService';
+
+vi.mock('./supabase', () => ({
+  supabase: {
+    from: vi.fn(),
+    auth: { getSession: vi.fn().mockResolvedValue({ data: { session: { access_token: 'token' } } }) },
+  },
+  isSupabaseConfigured: vi.fn().mockReturnValue(true),
+}));
+
+const BASE_HTML = '<html><head></head><body><h1 class="title">Hello</h1><p id="intro">Welcome</p></body></html>';
+
+const LIST_HTML = '<html><head></head><body><ul class="list"><li>A</li><li>B</li><li>C</li></ul></body></html>';
+
+function generate() {
+  const result = applyEditOperations(BASE_HTML, [
+    EditOps.updateText('h1', 'Hi there'),
+    EditOps.addClass('#intro', 'lead'),
+  ]);
+  return { html: result.html, changes: toVariantAiChanges(result.results) };
+}
+
+describe('toggleVariantAiChange', () => {
+  it('rejects one change and keeps the others', () => {
+    const { html, changes } = generate();
+
+    const result = toggleVariantAiChange(html, changes, 0);
+
+    expect(result.success).toBe(true);
+    expect(result.html).toContain('>Hello</h1>');
+    expect(result.html).toContain('class="lead"');
+    expect(result.changes.map((c) => c.rejected)).toEqual([true, false]);
+  });
+
+  it('restores a rejected change', () => {
+    const { html, changes } = generate();
+    const rejected = toggleVariantAiChange(html, changes, 0);
+
+    const restored = toggleVariantAiChange(rejected.html, rejected.changes, 0);
+
+    expect(restored.success).toBe(true);
+    expect(restored.html).toContain('>Hi there</h1>');
+    expect(restored.changes[0].rejected).toBe(false);
+    expect(restored.changes[0].inverse).not.toBeNull();
+  });
+
+  it.each([
+    ['with stable IDs', assignElementIds(LIST_HTML)],
+    ['without stable IDs', LIST_HTML],
+  ])('rejects a second change after the first shifted its siblings (%s)', (_, base) => {
+    const applied = applyEditOperations(base, [
+      EditOps.insertElement('.list', 'prepend', '<li>Zero</li>'),
+      EditOps.updateText('.list li:last-child', 'Cee'),
+    ]);
+    const changes = toVariantAiChanges(applied.results);
+
+    const first = toggleVariantAiChange(applied.html, changes, 0);
+    const second = toggleVariantAiChange(first.html, first.changes, 1);
+
+    expect(second.success).toBe(true);
+    expect(second.html).not.toContain('Zero');
+    expect(second.html).toMatch(/>A<\/li>.*>B<\/li>.*>C<\/li>/s);
+  });
+
+  it('fails without an inverse to reject through', () => {
+    const { html, changes } = generate();
+    const withoutInverse = changes.map((c) => ({ ...c, inverse: null }));
+
+    const result = toggleVariantAiChange(html, withoutInverse, 1);
+
+    expect(result.success).toBe(false);
+    expect(result.html).toBe(html);
+  });
+});
+
+describe('rebaseVariantAiChanges', () => {
+  it('keeps inverses that still resolve by stable ID and drops the rest', () => {
+    const base = assignElementIds(LIST_HTML);
+    const applied = applyEditOperations(base, [
+      EditOps.updateText('.list li:first-child', 'Ay'),
+      EditOps.updateText('.list li:last-child', 'Cee'),
+    ]);
+    const changes = toVariantAiChanges(applied.results);
+    // A manual edit that deletes the last item
+    const edited = applied.html.replace(/<li[^>]*>Cee<\/li>/, '');
+
+    const rebased = rebaseVariantAiChanges(edited, changes);
+
+    expect(rebased[0].inverse).toEqual(changes[0].inverse);
+    expect(rebased[1].inverse).toBeNull();
+    expect(rebaseVariantAiChanges(LIST_HTML, toVariantAiChanges(
+      applyEditOperations(LIST_HTML, [EditOps.updateText('.list li:first-child', 'Ay')]).results
+    ))[0].inverse).toBeNull();
+  });
+});
+
+describe('generateVariantEditsV2', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should map operations on compacted HTML back to the original', async () => {
+    const script = `<script>${'track("view"); '.repeat(400)}</script>`;
+    const html = `<html><head></head><body>${script}<section><h2>First</h2></section>${script}<section><h2>Second</h2></section></body></html>`;
+    // Scripts are stripped to fit, so the second child of body is the second section
+    const fetchMock = vi.fn().mockResolvedValue({
+      ok: true,
+      json: async () => ({
+        success: true,
+        variantEdits: [{
+          variantIndex: 1,
+          planId: 'plan-1',
+          summary: 'Retitle',
+          operations: [EditOps.updateText('body > :nth-child(2) > h2', 'Updated')],
+        }],
+      }),
+    });
+    vi.stubGlobal('fetch', fetchMock);
+
+    const [edits] = await generateVariantEditsV2('session-1', [] as VariantPlan[], html, undefined, undefined, 'local');
+
+    const sent = JSON.parse(fetchMock.mock.calls[0][1].body);
+    expect(sent.elementSummary).not.toContain('track(');
+    const applied = applyEditOperations(html, edits.operations);
+    expect(applied.failedOperations).toBe(0);
+    expect(applied.html).toContain('<h2>First</h2>');
+    expect(applied.html).toContain('<h2>Updated</h2>');
+  });
+
+  it('should send the retrieved product context with the plans', async () => {
+    const fetchMock = vi.fn().mockResolvedValue({
+      ok: true,
+      json: async () => ({ success: true, variantEdits: [] }),
+    });
+    vi.stubGlobal('fetch', fetchMock);
+
+    const context = 'Relevant product context.\n[1] Goals › Q3\nLift checkout conversion';
+    await generateVariantEditsV2('session-1', [] as VariantPlan[], BASE_HTML, undefined, undefined, 'local', undefined, context);
+
+    const sent = JSON.parse(fetchMock.mock.calls[0][1].body);
+    expect(sent.productContext).toBe(context);
+  });
+});
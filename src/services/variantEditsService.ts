@@ -14,9 +14,14 @@
 import { supabase, isSupabaseConfigured } from './supabase';
 import type { VariantPlan } from './variantPlanService';
 import { extractMinimalSummary } from './elementSummaryService';
+import { ELEMENT_ID_ATTRIBUTE, assignElementIds } from './elementIdentityService';
+import { compactToBudget, getHtmlTokenBudget, mapOperationsToOriginal } from './htmlCompactor';
+import type { LLMProvider } from './apiKeysService';
 import {
   applyEditOperations,
+  revertEditOperations,
   type EditOperation,
+  type OperationResult,
   type ApplyOperationsResult,
 } from './editOperationsService';
 
@@ -47,9 +52,30 @@ export interface GenerateVariantsResult {
   operationsFailed: number;
 }
 
+/**
+ * One AI operation a variant was generated with, stored so it can be
+ * rejected (and restored) on its own
+ */
+export interface VariantAiChange {
+  operation: EditOperation;
+  /** Undoes the operation; null when a later operation or edit overrode its target */
+  inverse: EditOperation[] | null;
+  rejected: boolean;
+}
+
+export interface ToggleAiChangeResult {
+  success: boolean;
+  html: string;
+  changes: VariantAiChange[];
+  error?: string;
+}
+
 type ProgressCallback = (progress: GenerateEditsProgress) => void;
 type VariantCompleteCallback = (variantIndex: number, html: string) => void;
 
+/** Cap on the collapsed-section list sent alongside the element summary */
+const MAX_COLLAPSED_SECTION_CHARS = 2000;
+
 // ============================================================================
 // V2: Element Summary Based Generation
 // ============================================================================
@@ -64,8 +90,9 @@ export async function generateVariantEditsV2(
   originalHtml: string,
   onProgress?: ProgressCallback,
   screenshotBase64?: string,
-  provider?: string,
-  model?: string
+  provider?: LLMProvider,
+  model?: string,
+  productContext?: string
 ): Promise<VariantEditsV2[]> {
   if (!isSupabaseConfigured()) {
     throw new Error('Supabase not configured');
@@ -82,9 +109,22 @@ export async function generateVariantEditsV2(
     percent: 10,
   });
 
+  // Compact to the selected model's budget first, so the summary is built
+  // from whole elements rather than cut off partway through the page
+  const compaction = compactToBudget(originalHtml, { provider, model, maxTokens: getHtmlTokenBudget({ provider, model }) });
+
   // Extract element summary (compact representation)
   // Limit to 1500 tokens (~6000 chars) to leave room for screenshot + prompt
-  const elementSummary = extractMinimalSummary(originalHtml, 1500);
+  const elementSummary = extractMinimalSummary(compaction.html, 1500);
+
+  // Collapsed sections are listed so the LLM can still target them whole
+  const collapsedSections: Array<{ selector: string; preview: string }> = [];
+  let collapsedChars = 0;
+  for (const { selector, preview } of compaction.chunks) {
+    collapsedChars += selector.length + preview.length;
+    if (collapsedChars > MAX_COLLAPSED_SECTION_CHARS) break;
+    collapsedSections.push({ selector, preview });
+  }
 
   console.log('[VariantEditsService V2] Element summary extracted:', {
     originalLength: originalHtml.length,
@@ -130,7 +170,9 @@ export async function generateVariantEditsV2(
       sessionId,
       plans: plansPayload,
       elementSummary,
+      collapsedSections,
       screenshotBase64,
+      productContext,
       provider,
       model,
     }),
@@ -159,13 +201,21 @@ export async function generateVariantEditsV2(
 
   console.log('[VariantEditsService V2] Generated operations for', data.variantEdits?.length, 'variants');
 
+  // Selectors in the summary point into the compacted HTML
+  const variantEdits: VariantEditsV2[] = data.variantEdits || [];
+  if (compaction.steps.length > 0) {
+    variantEdits.forEach((edits) => {
+      edits.operations = mapOperationsToOriginal(compaction, edits.operations);
+    });
+  }
+
   onProgress?.({
     stage: 'complete',
     message: 'Edit operations ready!',
     percent: 100,
   });
 
-  return data.variantEdits || [];
+  return variantEdits;
 }
 
 /**
@@ -183,8 +233,9 @@ export async function generateVariantsFromEditsV2(
   onProgress?: ProgressCallback,
   onVariantComplete?: VariantCompleteCallback,
   screenshotBase64?: string,
-  provider?: string,
-  model?: string
+  provider?: LLMProvider,
+  model?: string,
+  productContext?: string
 ): Promise<void> {
   if (!isSupabaseConfigured()) {
     throw new Error('Supabase not configured');
@@ -218,7 +269,8 @@ export async function generateVariantsFromEditsV2(
       },
       screenshotBase64,
       provider,
-      model
+      model,
+      productContext
     );
 
     // Step 2: Apply operations and save each variant
@@ -273,6 +325,7 @@ export async function generateVariantsFromEditsV2(
 
       // Notify caller of completed variant
       onVariantComplete?.(variantEdit.variantIndex, applyResult.html);
+      const aiChanges = toVariantAiChanges(applyResult.results);
 
       onProgress?.({
         stage: 'saving',
@@ -316,6 +369,7 @@ export async function generateVariantsFromEditsV2(
             html_path: htmlPath,
             html_url: urlData.publicUrl,
             status: 'complete',
+            ai_changes: aiChanges,
             updated_at: new Date().toISOString(),
           })
           .eq('id', existingVariant.id);
@@ -330,6 +384,7 @@ export async function generateVariantsFromEditsV2(
             html_path: htmlPath,
             html_url: urlData.publicUrl,
             status: 'complete',
+            ai_changes: aiChanges,
           });
       }
     }
@@ -362,6 +417,123 @@ export async function generateVariantsFromEditsV2(
   }
 }
 
+/**
+ * The successful operations of a batch, as stored with the variant
+ */
+export function toVariantAiChanges(results: OperationResult[]): VariantAiChange[] {
+  return results
+    .filter((result) => result.success)
+    .map((result) => ({ operation: result.operation, inverse: result.inverse ?? null, rejected: false }));
+}
+
+/**
+ * Replace one change, and give the other applied changes the inverses
+ * re-targeted at the new document (null where their elements are gone)
+ */
+function retargetAiChanges(
+  changes: VariantAiChange[],
+  index: number,
+  updated: VariantAiChange,
+  tracked: Array<EditOperation[] | null> | undefined
+): VariantAiChange[] {
+  return changes.map((c, i) => {
+    if (i === index) return updated;
+    return c.rejected ? c : { ...c, inverse: tracked?.[i] ?? null };
+  });
+}
+
+/**
+ * Reject one AI change through its inverse, or restore a rejected one by
+ * applying it again. Works on the variant's current HTML, so the other
+ * changes and any later user edits are kept. The other changes' inverses
+ * follow their elements through the toggle, so they stay usable.
+ */
+export function toggleVariantAiChange(
+  html: string,
+  changes: VariantAiChange[],
+  index: number
+): ToggleAiChangeResult {
+  const change = changes[index];
+  const fail = (error: string): ToggleAiChangeResult => ({ success: false, html, changes, error });
+
+  if (!change) return fail('Change not found');
+
+  const others = changes.map((c, i) => (i === index || c.rejected ? null : c.inverse));
+
+  if (!change.rejected) {
+    if (!change.inverse) return fail('This change was overridden by a later change or edit and cannot be rejected on its own');
+    const reverted = revertEditOperations(
+      html,
+      [{ operation: change.operation, success: true, elementsAffected: 1, inverse: change.inverse }],
+      others
+    );
+    if (reverted.failedOperations > 0) return fail('The elements this change touched have since been edited');
+    return {
+      success: true,
+      html: reverted.html,
+      changes: retargetAiChanges(changes, index, { ...change, rejected: true }, reverted.tracked),
+    };
+  }
+
+  // Restoring yields a fresh inverse, resolved against the current document
+  const restored = applyEditOperations(html, [change.operation], others);
+  const [result] = restored.results;
+  if (!result.success) return fail(result.error || 'The change no longer applies to this variant');
+  return {
+    success: true,
+    html: restored.html,
+    changes: retargetAiChanges(
+      changes,
+      index,
+      { ...change, inverse: result.inverse ?? null, rejected: false },
+      restored.tracked
+    ),
+  };
+}
+
+/**
+ * The AI changes after the variant's HTML changed some other way (a manual
+ * edit, a merge). Inverses that target elements by stable ID still resolve
+ * when those elements are there; positional ones no longer point where they
+ * did, so those changes lose their inverse.
+ */
+export function rebaseVariantAiChanges(html: string, changes: VariantAiChange[]): VariantAiChange[] {
+  const doc = new DOMParser().parseFromString(html, 'text/html');
+  const idSelector = new RegExp(`^\\[${ELEMENT_ID_ATTRIBUTE}="[^"]+"\\]$`);
+  const resolves = (selector: string) =>
+    idSelector.test(selector) && doc.querySelectorAll(selector).length === 1;
+
+  return changes.map((change) => {
+    if (change.rejected || !change.inverse) return change;
+    const stillResolves = change.inverse.every(
+      (op) => resolves(op.selector) && (op.type !== 'moveElement' || resolves(op.targetSelector))
+    );
+    return stillResolves ? change : { ...change, inverse: null };
+  });
+}
+
+/**
+ * Persist the rejection state of a variant's AI changes.
+ * Null clears them, once the HTML no longer derives from the AI batch.
+ */
+export async function saveVariantAiChanges(variantId: string, changes: VariantAiChange[] | null): Promise<boolean> {
+  if (!isSupabaseConfigured()) {
+    return false;
+  }
+
+  const { error } = await supabase
+    .from('vibe_variants')
+    .update({ ai_changes: changes })
+    .eq('id', variantId);
+
+  if (error) {
+    console.error('[VariantEditsService] Error saving AI changes:', error);
+    return false;
+  }
+
+  return true;
+}
+
 // ============================================================================
 // Legacy V1 Support (for backwards compatibility)
 // ============================================================================
@@ -416,7 +588,7 @@ export async function generateVariantEdits(
   originalHtml: string,
   onProgress?: ProgressCallback,
   screenshotBase64?: string,
-  provider?: string,
+  provider?: LLMProvider,
   model?: string
 ): Promise<VariantEdits[]> {
   // Redirect to V2 and convert result format
@@ -449,19 +621,22 @@ export async function generateVariantsFromEdits(
   onProgress?: ProgressCallback,
   onVariantComplete?: VariantCompleteCallback,
   screenshotBase64?: string,
-  provider?: string,
-  model?: string
+  provider?: LLMProvider,
+  model?: string,
+  productContext?: string
 ): Promise<void> {
-  // Use V2 implementation
+  // Use V2 implementation. Screens uploaded before stable element IDs
+  // existed get them here, so the summary and the operations agree on targets.
   return generateVariantsFromEditsV2(
     sessionId,
     plans,
-    originalHtml,
+    assignElementIds(originalHtml),
     onProgress,
     onVariantComplete,
     screenshotBase64,
     provider,
-    model
+    model,
+    productContext
   );
 }
 
@@ -22,7 +22,8 @@ vi.mock('./supabase', () => ({
 
 // Mock the htmlCompactor module
 vi.mock('./htmlCompactor', () => ({
-  compactHtml: vi.fn().mockImplementation((html) => html),
+  compactToBudget: vi.fn().mockImplementation((html) => ({ html, originalTokens: 0, tokens: 0, steps: [], warnings: [] })),
+  getHtmlTokenBudget: vi.fn().mockReturnValue(16000),
 }));
 
 describe('variantPlanService', () => {
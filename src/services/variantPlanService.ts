@@ -4,7 +4,8 @@
  */
 
 import { supabase, isSupabaseConfigured } from './supabase';
-import { compactHtml } from './htmlCompactor';
+import { compactToBudget, getHtmlTokenBudget } from './htmlCompactor';
+import type { LLMProvider } from './apiKeysService';
 import type { UIMetadata } from './screenAnalyzerService';
 
 // Types
@@ -166,7 +167,7 @@ export async function generateVariantPlan(
   productContext?: string,
   onProgress?: ProgressCallback,
   screenshotBase64?: string,
-  provider?: string,
+  provider?: LLMProvider,
   model?: string,
   uxGuidelines?: string
 ): Promise<GeneratedPlan> {
@@ -193,14 +194,14 @@ export async function generateVariantPlan(
     .update({ status: 'planning' })
     .eq('id', sessionId);
 
-  // Compact HTML for smaller payload
-  const compactionResult = await compactHtml(html, { method: 'combined-optimal' });
+  // Compact HTML to fit the selected model's share of the prompt
+  const compactionResult = compactToBudget(html, { provider, model, maxTokens: getHtmlTokenBudget({ provider, model }) });
   const compactedHtml = compactionResult.html;
 
   console.log('[VariantPlanService] HTML compaction result:', {
-    originalSize: compactionResult.originalSize,
-    compactedSize: compactionResult.compactedSize,
-    reductionPercent: compactionResult.reductionPercent,
+    originalTokens: compactionResult.originalTokens,
+    tokens: compactionResult.tokens,
+    steps: compactionResult.steps,
     warnings: compactionResult.warnings,
   });
 
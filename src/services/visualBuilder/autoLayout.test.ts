@@ -0,0 +1,188 @@
+/**
+ * Tests for Visual Builder auto layout and constraints
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  DEFAULT_AUTO_LAYOUT,
+  getLayoutStyles,
+  paintOrder,
+  resolveLayout,
+  updateElementBounds,
+} from './autoLayout';
+import type { CanvasElement, LayoutConstraints } from '@/components/VisualBuilder/VisualCanvas';
+
+const box = (
+  id: string,
+  x: number,
+  y: number,
+  width = 100,
+  height = 50,
+  extra: Partial<CanvasElement> = {}
+): CanvasElement => ({
+  id,
+  type: 'shape',
+  x,
+  y,
+  width,
+  height,
+  rotation: 0,
+  zIndex: 1,
+  locked: false,
+  visible: true,
+  content: {},
+  ...extra,
+});
+
+const constrained = (constraints: Partial<LayoutConstraints>) => ({
+  constraints: { horizontal: 'start', vertical: 'start', widthSizing: 'fixed', heightSizing: 'fixed', ...constraints },
+}) as Partial<CanvasElement>;
+
+const frame = (id: string, x: number, y: number, width: number, height: number, extra: Partial<CanvasElement> = {}) =>
+  box(id, x, y, width, height, { type: 'frame', layout: DEFAULT_AUTO_LAYOUT, ...extra });
+
+const byId = (elements: CanvasElement[], id: string) => elements.find((e) => e.id === id)!;
+
+const design = { width: 1200, height: 800 };
+const mobile = { width: 400, height: 800 };
+
+describe('resolveLayout', () => {
+  it('should stack auto layout children with gap and padding', () => {
+    const elements = resolveLayout(
+      [
+        frame('list', 100, 100, 300, 400),
+        box('second', 0, 500, 100, 40, { parentId: 'list' }),
+        box('first', 0, 0, 100, 60, { parentId: 'list' }),
+      ],
+      design
+    );
+
+    expect(byId(elements, 'first')).toMatchObject({ x: 116, y: 116, width: 100, height: 60 });
+    expect(byId(elements, 'second')).toMatchObject({ x: 116, y: 192 });
+  });
+
+  it('should share free space between fill children and stretch on the cross axis', () => {
+    const elements = resolveLayout(
+      [
+        frame('row', 0, 0, 500, 100, {
+          layout: { ...DEFAULT_AUTO_LAYOUT, direction: 'horizontal', gap: 10, padding: { top: 0, right: 0, bottom: 0, left: 0 } },
+        }),
+        box('icon', 0, 0, 80, 40, { parentId: 'row' }),
+        box('label', 100, 0, 100, 40, { parentId: 'row', ...constrained({ widthSizing: 'fill', heightSizing: 'fill' }) }),
+      ],
+      design
+    );
+
+    expect(byId(elements, 'label')).toMatchObject({ x: 90, width: 410, height: 100 });
+  });
+
+  it('should hug contents and distribute with space-between', () => {
+    const elements = resolveLayout(
+      [
+        frame('card', 0, 0, 999, 999, {
+          ...constrained({ widthSizing: 'hug', heightSizing: 'hug' }),
+        }),
+        box('a', 0, 0, 120, 30, { parentId: 'card' }),
+        box('b', 0, 50, 80, 30, { parentId: 'card' }),
+        frame('bar', 0, 300, 300, 40, {
+          layout: { ...DEFAULT_AUTO_LAYOUT, direction: 'horizontal', justify: 'space-between', padding: { top: 0, right: 0, bottom: 0, left: 0 } },
+        }),
+        box('left', 0, 300, 50, 40, { parentId: 'bar' }),
+        box('right', 60, 300, 50, 40, { parentId: 'bar' }),
+      ],
+      design
+    );
+
+    expect(byId(elements, 'card')).toMatchObject({ width: 152, height: 108 });
+    expect(byId(elements, 'right').x).toBe(250);
+  });
+
+  it('should apply constraints when the viewport is narrower than the design', () => {
+    const elements = resolveLayout(
+      [
+        box('logo', 20, 20),
+        box('menu', 1080, 20, 100, 50, constrained({ horizontal: 'end' })),
+        box('banner', 20, 100, 1160, 200, constrained({ horizontal: 'stretch' })),
+        box('badge', 550, 400, 100, 50, constrained({ horizontal: 'center' })),
+        box('half', 0, 600, 600, 50, constrained({ horizontal: 'scale' })),
+      ],
+      design,
+      mobile
+    );
+
+    expect(byId(elements, 'logo').x).toBe(20);
+    expect(byId(elements, 'menu').x).toBe(280);
+    expect(byId(elements, 'banner')).toMatchObject({ x: 20, width: 360 });
+    expect(byId(elements, 'badge').x).toBe(150);
+    expect(byId(elements, 'half').width).toBe(200);
+  });
+
+  it('should reflow auto layout frames resized by their constraints', () => {
+    const elements = resolveLayout(
+      [
+        frame('row', 0, 0, 1200, 100, {
+          ...constrained({ horizontal: 'stretch' }),
+          layout: { ...DEFAULT_AUTO_LAYOUT, direction: 'horizontal', justify: 'end', padding: { top: 0, right: 0, bottom: 0, left: 0 } },
+        }),
+        box('cta', 1100, 0, 100, 100, { parentId: 'row' }),
+      ],
+      design,
+      mobile
+    );
+
+    expect(byId(elements, 'row').width).toBe(400);
+    expect(byId(elements, 'cta').x).toBe(300);
+  });
+});
+
+describe('updateElementBounds', () => {
+  it('should move children with a free frame and apply their constraints on resize', () => {
+    const elements = [
+      frame('panel', 100, 100, 200, 200, { layout: { ...DEFAULT_AUTO_LAYOUT, direction: 'none' } }),
+      box('close', 260, 110, 30, 30, { parentId: 'panel', ...constrained({ horizontal: 'end' }) }),
+    ];
+
+    const moved = updateElementBounds(elements, 'panel', { x: 150 });
+    expect(byId(moved, 'close').x).toBe(310);
+
+    const resized = updateElementBounds(elements, 'panel', { width: 300 });
+    expect(byId(resized, 'close').x).toBe(360);
+  });
+});
+
+describe('paintOrder', () => {
+  it('should paint frames before their children', () => {
+    const order = paintOrder([
+      box('child', 0, 0, 10, 10, { parentId: 'frame', zIndex: 0 }),
+      frame('frame', 0, 0, 100, 100, { zIndex: 5 }),
+      box('loose', 0, 0, 10, 10, { zIndex: 1 }),
+    ]);
+
+    expect(order.map((e) => e.id)).toEqual(['loose', 'frame', 'child']);
+  });
+});
+
+describe('getLayoutStyles', () => {
+  const canvas = { x: 0, y: 0, width: 1200, height: 800 };
+
+  it('should pin to the right and stretch with absolute offsets', () => {
+    expect(getLayoutStyles(box('a', 1080, 20, 100, 50, constrained({ horizontal: 'end' })), null, canvas)).toMatchObject({
+      position: 'absolute',
+      right: '20px',
+      width: '100px',
+      top: '20px',
+    });
+    expect(getLayoutStyles(box('b', 20, 100, 1160, 200, constrained({ horizontal: 'stretch' })), null, canvas)).toMatchObject({
+      left: '20px',
+      right: '20px',
+    });
+  });
+
+  it('should emit flex item sizing inside auto layout frames', () => {
+    const parent = frame('row', 0, 0, 500, 100, { layout: { ...DEFAULT_AUTO_LAYOUT, direction: 'horizontal' } });
+    const css = getLayoutStyles(box('a', 0, 0, 100, 40, constrained({ widthSizing: 'fill' })), parent, parent);
+
+    expect(css).toMatchObject({ position: 'relative', flex: '1 1 0px', height: '40px' });
+    expect(css.left).toBeUndefined();
+  });
+});
@@ -0,0 +1,493 @@
+/**
+ * Auto Layout
+ * Resolves frames, auto layout and child constraints into absolute canvas
+ * positions for any canvas size, and maps the same rules to responsive CSS
+ * for the HTML export
+ */
+
+import type {
+  AutoLayout,
+  CanvasElement,
+  ConstraintPin,
+  LayoutConstraints,
+  SizingMode,
+} from '@/components/VisualBuilder/VisualCanvas';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface LayoutSize {
+  width: number;
+  height: number;
+}
+
+export interface LayoutRect extends LayoutSize {
+  x: number;
+  y: number;
+}
+
+interface Axis {
+  position: 'x' | 'y';
+  size: 'width' | 'height';
+  pin: 'horizontal' | 'vertical';
+  sizing: 'widthSizing' | 'heightSizing';
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+export const DEFAULT_AUTO_LAYOUT: AutoLayout = {
+  direction: 'vertical',
+  gap: 16,
+  padding: { top: 16, right: 16, bottom: 16, left: 16 },
+  align: 'start',
+  justify: 'start',
+};
+
+export const DEFAULT_CONSTRAINTS: LayoutConstraints = {
+  horizontal: 'start',
+  vertical: 'start',
+  widthSizing: 'fixed',
+  heightSizing: 'fixed',
+};
+
+const X_AXIS: Axis = { position: 'x', size: 'width', pin: 'horizontal', sizing: 'widthSizing' };
+const Y_AXIS: Axis = { position: 'y', size: 'height', pin: 'vertical', sizing: 'heightSizing' };
+
+const FLEX_ALIGN: Record<AutoLayout['align'], string> = {
+  start: 'flex-start',
+  center: 'center',
+  end: 'flex-end',
+};
+
+const FLEX_JUSTIFY: Record<AutoLayout['justify'], string> = {
+  start: 'flex-start',
+  center: 'center',
+  end: 'flex-end',
+  'space-between': 'space-between',
+};
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+const rectOf = (element: CanvasElement): LayoutRect => ({
+  x: element.x,
+  y: element.y,
+  width: element.width,
+  height: element.height,
+});
+
+const constraintsOf = (element: CanvasElement): LayoutConstraints => ({
+  ...DEFAULT_CONSTRAINTS,
+  ...element.constraints,
+});
+
+/**
+ * Whether a frame arranges its children in a row or column
+ */
+export function hasFlowLayout(element: CanvasElement | null | undefined): element is CanvasElement & { layout: AutoLayout } {
+  return element?.type === 'frame' && !!element.layout && element.layout.direction !== 'none';
+}
+
+// Only auto layout frames know their content size; everything else keeps its own
+const canHug = hasFlowLayout;
+
+function mainAxis(layout: AutoLayout): [Axis, Axis] {
+  return layout.direction === 'horizontal' ? [X_AXIS, Y_AXIS] : [Y_AXIS, X_AXIS];
+}
+
+function paddingStart(layout: AutoLayout, axis: Axis): number {
+  return axis === X_AXIS ? layout.padding.left : layout.padding.top;
+}
+
+function paddingTotal(layout: AutoLayout, axis: Axis): number {
+  return axis === X_AXIS
+    ? layout.padding.left + layout.padding.right
+    : layout.padding.top + layout.padding.bottom;
+}
+
+/**
+ * Group elements by the frame that contains them. Elements whose parent is
+ * missing or is not a frame, and any parent chain that loops, land at the root.
+ */
+export function groupByParent(elements: CanvasElement[]): Map<string | null, CanvasElement[]> {
+  const byId = new Map(elements.map((e) => [e.id, e]));
+  const tree = new Map<string | null, CanvasElement[]>();
+
+  const parentOf = (element: CanvasElement): string | null => {
+    const parent = element.parentId ? byId.get(element.parentId) : undefined;
+    if (!parent || parent.type !== 'frame') return null;
+
+    const seen = new Set([element.id]);
+    for (let current: CanvasElement | undefined = parent; current; current = current.parentId ? byId.get(current.parentId) : undefined) {
+      if (seen.has(current.id)) return null;
+      seen.add(current.id);
+    }
+    return parent.id;
+  };
+
+  for (const element of elements) {
+    const key = parentOf(element);
+    tree.set(key, [...(tree.get(key) || []), element]);
+  }
+  return tree;
+}
+
+// Auto layout children in visual order along the main axis
+function flowOrder(children: CanvasElement[], axis: Axis): CanvasElement[] {
+  return children
+    .filter((c) => c.visible)
+    .sort((a, b) => a[axis.position] - b[axis.position] || a.zIndex - b.zIndex);
+}
+
+function pin(
+  start: number,
+  size: number,
+  from: { start: number; size: number },
+  to: { start: number; size: number },
+  mode: ConstraintPin,
+  fixedSize: number
+): [number, number] {
+  const before = start - from.start;
+  const after = from.start + from.size - (start + size);
+
+  switch (mode) {
+    case 'end':
+      return [to.start + to.size - after - fixedSize, fixedSize];
+    case 'stretch':
+      return [to.start + before, Math.max(0, to.size - before - after)];
+    case 'center': {
+      const offset = start + size / 2 - (from.start + from.size / 2);
+      return [to.start + to.size / 2 + offset - fixedSize / 2, fixedSize];
+    }
+    case 'scale': {
+      const ratio = from.size > 0 ? to.size / from.size : 1;
+      return [to.start + before * ratio, size * ratio];
+    }
+    default:
+      return [to.start + before, fixedSize];
+  }
+}
+
+// ============================================================================
+// Layout Solver
+// ============================================================================
+
+function createSolver(elements: CanvasElement[]) {
+  const tree = groupByParent(elements);
+  const resolved = new Map<string, LayoutRect>();
+  const hugSizes = new Map<string, LayoutSize>();
+
+  /**
+   * Size of an element before its parent places it: its own size, or its
+   * content size on axes where it hugs
+   */
+  function measure(element: CanvasElement): LayoutSize {
+    const cached = hugSizes.get(element.id);
+    if (cached) return cached;
+
+    const constraints = constraintsOf(element);
+    const size = { width: element.width, height: element.height };
+
+    if (canHug(element) && (constraints.widthSizing === 'hug' || constraints.heightSizing === 'hug')) {
+      const layout = element.layout;
+      const [main, cross] = mainAxis(layout);
+      const children = flowOrder(tree.get(element.id) || [], main).map(measure);
+
+      if (children.length > 0) {
+        const content = {
+          [main.size]: children.reduce((sum, c) => sum + c[main.size], 0) + layout.gap * (children.length - 1),
+          [cross.size]: Math.max(...children.map((c) => c[cross.size])),
+        } as Record<'width' | 'height', number>;
+
+        if (constraints.widthSizing === 'hug') size.width = content.width + paddingTotal(layout, X_AXIS);
+        if (constraints.heightSizing === 'hug') size.height = content.height + paddingTotal(layout, Y_AXIS);
+      }
+    }
+
+    hugSizes.set(element.id, size);
+    return size;
+  }
+
+  function constrain(child: CanvasElement, from: LayoutRect, to: LayoutRect): LayoutRect {
+    const constraints = constraintsOf(child);
+    const measured = measure(child);
+    const [x, width] = pin(
+      child.x,
+      child.width,
+      { start: from.x, size: from.width },
+      { start: to.x, size: to.width },
+      constraints.horizontal,
+      measured.width
+    );
+    const [y, height] = pin(
+      child.y,
+      child.height,
+      { start: from.y, size: from.height },
+      { start: to.y, size: to.height },
+      constraints.vertical,
+      measured.height
+    );
+    return { x, y, width, height };
+  }
+
+  function flow(layout: AutoLayout, children: CanvasElement[], to: LayoutRect): Map<string, LayoutRect> {
+    const [main, cross] = mainAxis(layout);
+    const ordered = flowOrder(children, main);
+    const rects = new Map<string, LayoutRect>();
+    if (ordered.length === 0) return rects;
+
+    const innerMain = to[main.size] - paddingTotal(layout, main);
+    const innerCross = to[cross.size] - paddingTotal(layout, cross);
+    const sizing = (child: CanvasElement, axis: Axis): SizingMode => constraintsOf(child)[axis.sizing];
+
+    const fixed = ordered.map((child) => (sizing(child, main) === 'fill' ? 0 : measure(child)[main.size]));
+    const fillCount = ordered.filter((child) => sizing(child, main) === 'fill').length;
+    const free = innerMain - fixed.reduce((sum, size) => sum + size, 0) - layout.gap * (ordered.length - 1);
+    const fillSize = fillCount > 0 ? Math.max(0, free) / fillCount : 0;
+
+    let gap = layout.gap;
+    let cursor = to[main.position] + paddingStart(layout, main);
+    if (fillCount === 0 && free > 0) {
+      if (layout.justify === 'center') cursor += free / 2;
+      else if (layout.justify === 'end') cursor += free;
+      else if (layout.justify === 'space-between' && ordered.length > 1) gap += free / (ordered.length - 1);
+    }
+
+    ordered.forEach((child, i) => {
+      const mainSize = sizing(child, main) === 'fill' ? fillSize : fixed[i];
+      const crossSize = sizing(child, cross) === 'fill' ? Math.max(0, innerCross) : measure(child)[cross.size];
+      const crossStart = to[cross.position] + paddingStart(layout, cross);
+      const crossOffset =
+        layout.align === 'center' ? (innerCross - crossSize) / 2 : layout.align === 'end' ? innerCross - crossSize : 0;
+
+      rects.set(child.id, {
+        [main.position]: cursor,
+        [main.size]: mainSize,
+        [cross.position]: crossStart + crossOffset,
+        [cross.size]: crossSize,
+      } as unknown as LayoutRect);
+      cursor += mainSize + gap;
+    });
+
+    return rects;
+  }
+
+  /**
+   * Place the children of a frame (or of the canvas when parent is null)
+   * that moved from one rectangle to another
+   */
+  function place(parent: CanvasElement | null, from: LayoutRect, to: LayoutRect) {
+    const children = tree.get(parent?.id ?? null) || [];
+    const flowed = hasFlowLayout(parent) ? flow(parent.layout, children, to) : null;
+
+    for (const child of children) {
+      const rect = flowed ? flowed.get(child.id) || rectOf(child) : constrain(child, from, to);
+      const rounded = {
+        x: Math.round(rect.x),
+        y: Math.round(rect.y),
+        width: Math.round(rect.width),
+        height: Math.round(rect.height),
+      };
+      resolved.set(child.id, rounded);
+      place(child, rectOf(child), rounded);
+    }
+  }
+
+  function apply(): CanvasElement[] {
+    return elements.map((element) => {
+      const rect = resolved.get(element.id);
+      return rect ? { ...element, ...rect } : element;
+    });
+  }
+
+  return { place, apply };
+}
+
+// ============================================================================
+// Public API
+// ============================================================================
+
+/**
+ * Lay elements out for a canvas of a different size. Children of auto
+ * layout frames flow; everything else follows its constraints relative to
+ * its frame. With the same size on both sides this applies auto layout in
+ * place, which is how the editor keeps frames up to date.
+ */
+export function resolveLayout(
+  elements: CanvasElement[],
+  designSize: LayoutSize,
+  viewportSize: LayoutSize = designSize
+): CanvasElement[] {
+  const solver = createSolver(elements);
+  solver.place(
+    null,
+    { x: 0, y: 0, width: designSize.width, height: designSize.height },
+    { x: 0, y: 0, width: viewportSize.width, height: viewportSize.height }
+  );
+  return solver.apply();
+}
+
+/**
+ * Update an element's bounds, carrying its descendants along: they follow
+ * their constraints when a frame is moved or resized
+ */
+export function updateElementBounds(
+  elements: CanvasElement[],
+  id: string,
+  updates: Partial<CanvasElement>
+): CanvasElement[] {
+  const current = elements.find((e) => e.id === id);
+  if (!current) return elements;
+
+  const next = { ...current, ...updates };
+  const updated = elements.map((e) => (e.id === id ? next : e));
+  const moved = ['x', 'y', 'width', 'height'].some(
+    (key) => current[key as keyof LayoutRect] !== next[key as keyof LayoutRect]
+  );
+  if (!moved || next.type !== 'frame') return updated;
+
+  const solver = createSolver(elements);
+  solver.place({ ...current, layout: next.layout }, rectOf(current), rectOf(next));
+  return solver.apply().map((e) => (e.id === id ? next : e));
+}
+
+/**
+ * IDs of every element nested inside a frame, at any depth
+ */
+export function getDescendantIds(elements: CanvasElement[], id: string): string[] {
+  const tree = groupByParent(elements);
+  const ids: string[] = [];
+  const visit = (parentId: string) => {
+    for (const child of tree.get(parentId) || []) {
+      ids.push(child.id);
+      visit(child.id);
+    }
+  };
+  visit(id);
+  return ids;
+}
+
+/**
+ * Elements in the order they should be painted: each frame before its
+ * children, siblings by z-index
+ */
+export function paintOrder(elements: CanvasElement[]): CanvasElement[] {
+  const tree = groupByParent(elements);
+  const ordered: CanvasElement[] = [];
+  const visit = (parentId: string | null) => {
+    const children = [...(tree.get(parentId) || [])].sort((a, b) => a.zIndex - b.zIndex);
+    for (const child of children) {
+      ordered.push(child);
+      visit(child.id);
+    }
+  };
+  visit(null);
+  return ordered;
+}
+
+/**
+ * Visible children of a frame (or the top-level elements when parentId is
+ * null) in document order: flow order inside auto layout frames, z-index
+ * order everywhere else
+ */
+export function getLayoutChildren(elements: CanvasElement[], parentId: string | null): CanvasElement[] {
+  const children = groupByParent(elements).get(parentId) || [];
+  const parent = parentId ? elements.find((e) => e.id === parentId) : null;
+  if (hasFlowLayout(parent)) return flowOrder(children, mainAxis(parent.layout)[0]);
+  return children.filter((c) => c.visible).sort((a, b) => a.zIndex - b.zIndex);
+}
+
+/**
+ * CSS that places an element inside its parent: flex item sizing inside
+ * auto layout frames, otherwise absolute offsets that honour its constraints
+ * as the parent resizes. Property names are kebab-case.
+ */
+export function getLayoutStyles(
+  element: CanvasElement,
+  parent: CanvasElement | null,
+  parentRect: LayoutRect
+): Record<string, string> {
+  const constraints = constraintsOf(element);
+  const css: Record<string, string> = {};
+  const px = (value: number) => `${Math.round(value)}px`;
+  const hugs = (sizing: SizingMode) => sizing === 'hug' && canHug(element);
+
+  if (hasFlowLayout(parent)) {
+    const [main] = mainAxis(parent.layout);
+    css.position = 'relative';
+    css['flex-shrink'] = '0';
+
+    for (const axis of [X_AXIS, Y_AXIS]) {
+      const sizing = constraints[axis.sizing];
+      if (sizing === 'fill') {
+        if (axis === main) {
+          css.flex = '1 1 0px';
+          css[axis === X_AXIS ? 'min-width' : 'min-height'] = '0';
+        } else {
+          css['align-self'] = 'stretch';
+        }
+      } else {
+        css[axis.size] = hugs(sizing) ? 'fit-content' : px(element[axis.size]);
+      }
+    }
+  } else {
+    css.position = 'absolute';
+
+    const edges = [
+      { axis: X_AXIS, start: 'left', end: 'right' },
+      { axis: Y_AXIS, start: 'top', end: 'bottom' },
+    ] as const;
+    for (const { axis, start, end } of edges) {
+      const offset = element[axis.position] - parentRect[axis.position];
+      const size = element[axis.size];
+      const parentSize = parentRect[axis.size];
+      const sized = hugs(constraints[axis.sizing]) ? 'fit-content' : px(size);
+
+      switch (constraints[axis.pin]) {
+        case 'end':
+          css[end] = px(parentSize - offset - size);
+          css[axis.size] = sized;
+          break;
+        case 'stretch':
+          css[start] = px(offset);
+          css[end] = px(parentSize - offset - size);
+          break;
+        case 'center':
+          css[start] = `calc(50% + ${px(offset - parentSize / 2)})`;
+          css[axis.size] = sized;
+          break;
+        case 'scale':
+          css[start] = `${parentSize > 0 ? +((offset / parentSize) * 100).toFixed(3) : 0}%`;
+          css[axis.size] = `${parentSize > 0 ? +((size / parentSize) * 100).toFixed(3) : 100}%`;
+          break;
+        default:
+          css[start] = px(offset);
+          css[axis.size] = sized;
+      }
+    }
+  }
+
+  if (element.rotation) css.transform = `rotate(${element.rotation}deg)`;
+  return css;
+}
+
+/**
+ * CSS for a frame's own box: flex settings for auto layout frames
+ */
+export function getContainerStyles(element: CanvasElement): Record<string, string> {
+  if (!hasFlowLayout(element)) return {};
+
+  const { direction, gap, padding, align, justify } = element.layout;
+  return {
+    display: 'flex',
+    'flex-direction': direction === 'horizontal' ? 'row' : 'column',
+    gap: `${gap}px`,
+    padding: `${padding.top}px ${padding.right}px ${padding.bottom}px ${padding.left}px`,
+    'align-items': FLEX_ALIGN[align],
+    'justify-content': FLEX_JUSTIFY[justify],
+  };
+}
@@ -0,0 +1,148 @@
+/**
+ * Tests for Visual Builder selection commands, layers and clipboard
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  alignElements,
+  createClipboardPayload,
+  distributeElements,
+  getLayerOrder,
+  groupElements,
+  inferAutoLayout,
+  parseClipboardPayload,
+  pasteClipboardPayload,
+  reorderLayer,
+  selectInRect,
+  ungroupElements,
+} from './canvasCommands';
+import type { CanvasElement } from '@/components/VisualBuilder/VisualCanvas';
+import type { Interaction } from '@/components/VisualBuilder/InteractionEditor';
+
+const box = (id: string, x: number, y: number, extra: Partial<CanvasElement> = {}): CanvasElement => ({
+  id,
+  type: 'shape',
+  x,
+  y,
+  width: 100,
+  height: 50,
+  rotation: 0,
+  zIndex: 1,
+  locked: false,
+  visible: true,
+  content: {},
+  ...extra,
+});
+
+const byId = (elements: CanvasElement[], id: string) => elements.find((e) => e.id === id)!;
+
+describe('selectInRect', () => {
+  it('should select touched elements but not children of selected frames or locked ones', () => {
+    const elements = [
+      box('frame', 0, 0, { type: 'frame', width: 300, height: 300 }),
+      box('child', 10, 10, { parentId: 'frame' }),
+      box('locked', 50, 50, { locked: true }),
+      box('outside', 500, 500),
+    ];
+
+    expect(selectInRect(elements, { x: 0, y: 0, width: 200, height: 200 })).toEqual(['frame']);
+  });
+});
+
+describe('groupElements', () => {
+  it('should wrap elements in a frame around their bounds and ungroup back', () => {
+    const elements = [box('a', 100, 100), box('b', 300, 200, { zIndex: 4 })];
+    const grouped = groupElements(elements, ['a', 'b'], 'group');
+
+    expect(byId(grouped, 'group')).toMatchObject({ type: 'frame', x: 100, y: 100, width: 300, height: 150, zIndex: 4 });
+    expect(byId(grouped, 'a').parentId).toBe('group');
+
+    const ungrouped = ungroupElements(grouped, 'group');
+    expect(ungrouped.map((e) => e.id)).toEqual(['a', 'b']);
+    expect(byId(ungrouped, 'b').parentId).toBeUndefined();
+  });
+
+  it('should infer a row layout for side-by-side elements', () => {
+    const elements = [box('a', 0, 0), box('b', 120, 10), box('c', 260, 0)];
+
+    expect(inferAutoLayout(elements, ['a', 'b', 'c'])).toMatchObject({ direction: 'horizontal', gap: 20 });
+  });
+});
+
+describe('alignElements and distributeElements', () => {
+  it('should align to the selection edges and move frame children along', () => {
+    const elements = [
+      box('a', 40, 0),
+      box('frame', 200, 100, { type: 'frame' }),
+      box('child', 210, 110, { parentId: 'frame', width: 20, height: 20 }),
+    ];
+    const aligned = alignElements(elements, ['a', 'frame'], 'left');
+
+    expect(byId(aligned, 'frame').x).toBe(40);
+    expect(byId(aligned, 'child').x).toBe(50);
+  });
+
+  it('should space elements evenly between the outermost two', () => {
+    const elements = [box('a', 0, 0), box('b', 130, 0), box('c', 400, 0)];
+    const distributed = distributeElements(elements, ['a', 'b', 'c'], 'horizontal');
+
+    expect(byId(distributed, 'b').x).toBe(200);
+  });
+});
+
+describe('layers', () => {
+  const elements = [
+    box('bottom', 0, 0, { zIndex: 1 }),
+    box('frame', 0, 0, { type: 'frame', zIndex: 2 }),
+    box('inner', 0, 0, { parentId: 'frame', zIndex: 1 }),
+    box('top', 0, 0, { zIndex: 3 }),
+  ];
+
+  it('should list layers topmost first with frame children nested', () => {
+    expect(getLayerOrder(elements).map(({ element, depth }) => `${element.id}:${depth}`)).toEqual([
+      'top:0',
+      'frame:0',
+      'inner:1',
+      'bottom:0',
+    ]);
+  });
+
+  it('should map a dragged layer to z-indexes and adopt the target frame', () => {
+    const moved = reorderLayer(elements, 'bottom', 'top');
+    expect(getLayerOrder(moved).map(({ element }) => element.id)).toEqual(['bottom', 'top', 'frame', 'inner']);
+
+    const nested = reorderLayer(elements, 'top', 'inner');
+    expect(byId(nested, 'top').parentId).toBe('frame');
+  });
+
+  it('should not move a frame into its own children', () => {
+    expect(reorderLayer(elements, 'frame', 'inner')).toBe(elements);
+  });
+});
+
+describe('clipboard', () => {
+  it('should paste copies with new ids, nested children and remapped interactions', () => {
+    const elements = [
+      box('frame', 0, 0, { type: 'frame' }),
+      box('button', 10, 10, { parentId: 'frame' }),
+    ];
+    const interactions = new Map<string, Interaction[]>([
+      [
+        'button',
+        [{ id: 'i', name: 'Hide', trigger: 'click', action: 'hideElement', config: { targetElementId: 'frame' }, enabled: true }],
+      ],
+    ]);
+    let next = 0;
+    const payload = parseClipboardPayload(JSON.stringify(createClipboardPayload(elements, interactions, ['frame'])));
+    const pasted = pasteClipboardPayload(payload!, elements, () => `new-${next++}`);
+
+    expect(pasted.ids).toEqual(['new-0']);
+    expect(pasted.elements[1]).toMatchObject({ id: 'new-1', parentId: 'new-0', x: 30, y: 30 });
+    expect(pasted.interactions.get('new-1')?.[0].config.targetElementId).toBe('new-0');
+  });
+
+  it('should ignore clipboard text that is not canvas elements', () => {
+    expect(parseClipboardPayload('hello')).toBeNull();
+    expect(parseClipboardPayload('{"type":"other"}')).toBeNull();
+  });
+});
@@ -0,0 +1,393 @@
+/**
+ * Canvas Commands
+ * Selection-wide operations for the Visual Builder: marquee hit testing,
+ * grouping into frames, align and distribute, layer reordering, and the
+ * clipboard format used to copy elements between canvases
+ */
+
+import type { AutoLayout, CanvasElement } from '@/components/VisualBuilder/VisualCanvas';
+import type { Interaction } from '@/components/VisualBuilder/InteractionEditor';
+import { getDescendantIds, groupByParent, updateElementBounds, type LayoutRect } from './autoLayout';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type AlignCommand = 'left' | 'center' | 'right' | 'top' | 'middle' | 'bottom';
+
+export type DistributeAxis = 'horizontal' | 'vertical';
+
+export interface LayerEntry {
+  element: CanvasElement;
+  depth: number;
+}
+
+export interface ClipboardPayload {
+  type: typeof CLIPBOARD_TYPE;
+  version: 1;
+  elements: CanvasElement[];
+  interactions: Record<string, Interaction[]>;
+}
+
+export interface PasteResult {
+  elements: CanvasElement[];
+  interactions: Map<string, Interaction[]>;
+  // Top-level pasted elements, to select after pasting
+  ids: string[];
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const CLIPBOARD_TYPE = 'voxel-canvas-elements';
+const CLIPBOARD_STORAGE_KEY = 'voxel-visual-builder-clipboard';
+const PASTE_OFFSET = 20;
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function boundsOf(elements: CanvasElement[]): LayoutRect | null {
+  if (elements.length === 0) return null;
+  const left = Math.min(...elements.map((e) => e.x));
+  const top = Math.min(...elements.map((e) => e.y));
+  const right = Math.max(...elements.map((e) => e.x + e.width));
+  const bottom = Math.max(...elements.map((e) => e.y + e.height));
+  return { x: left, y: top, width: right - left, height: bottom - top };
+}
+
+const intersects = (a: LayoutRect, b: LayoutRect) =>
+  a.x < b.x + b.width && a.x + a.width > b.x && a.y < b.y + b.height && a.y + a.height > b.y;
+
+/**
+ * Replace every string in a value that is a key of the map. Interaction
+ * configs point at elements by id in several places, so this walks them all.
+ */
+function remapIds<T>(value: T, idMap: Map<string, string>): T {
+  if (typeof value === 'string') return (idMap.get(value) ?? value) as T;
+  if (Array.isArray(value)) return value.map((item) => remapIds(item, idMap)) as T;
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, remapIds(item, idMap)])
+    ) as T;
+  }
+  return value;
+}
+
+// ============================================================================
+// Selection
+// ============================================================================
+
+/**
+ * Drop ids whose frame is also selected, so commands move each subtree once
+ */
+export function getTopLevelSelection(elements: CanvasElement[], ids: string[]): string[] {
+  const selected = new Set(ids);
+  const nested = new Set(ids.flatMap((id) => getDescendantIds(elements, id)));
+  return elements.filter((e) => selected.has(e.id) && !nested.has(e.id)).map((e) => e.id);
+}
+
+export function getSelectionBounds(elements: CanvasElement[], ids: string[]): LayoutRect | null {
+  const selected = new Set(ids);
+  return boundsOf(elements.filter((e) => selected.has(e.id)));
+}
+
+/**
+ * Visible, unlocked elements touched by a marquee rectangle, outermost first
+ */
+export function selectInRect(elements: CanvasElement[], rect: LayoutRect): string[] {
+  const hits = elements
+    .filter((e) => e.visible && !e.locked && intersects(rect, e))
+    .map((e) => e.id);
+  return getTopLevelSelection(elements, hits);
+}
+
+// ============================================================================
+// Groups
+// ============================================================================
+
+/**
+ * Wrap elements in a new frame. Without a layout the frame is a plain group;
+ * with one the children flow in it once auto layout runs.
+ */
+export function groupElements(
+  elements: CanvasElement[],
+  ids: string[],
+  frameId: string,
+  layout?: AutoLayout
+): CanvasElement[] {
+  const topLevel = getTopLevelSelection(elements, ids);
+  const members = elements.filter((e) => topLevel.includes(e.id));
+  const bounds = boundsOf(members);
+  if (!bounds) return elements;
+
+  // The group stays where its members were when they all shared a frame
+  const parents = new Set(members.map((e) => e.parentId));
+  const frame: CanvasElement = {
+    id: frameId,
+    type: 'frame',
+    ...bounds,
+    rotation: 0,
+    zIndex: Math.max(...members.map((e) => e.zIndex)),
+    locked: false,
+    visible: true,
+    content: {},
+    styles: {},
+    parentId: parents.size === 1 ? members[0].parentId : undefined,
+    layout: layout || {
+      direction: 'none',
+      gap: 0,
+      padding: { top: 0, right: 0, bottom: 0, left: 0 },
+      align: 'start',
+      justify: 'start',
+    },
+  };
+
+  return [
+    ...elements.map((e) => (topLevel.includes(e.id) ? { ...e, parentId: frameId } : e)),
+    frame,
+  ];
+}
+
+/**
+ * The auto layout that keeps elements roughly where they are: a row when
+ * they sit side by side, otherwise a column, spaced by their closest gap
+ */
+export function inferAutoLayout(elements: CanvasElement[], ids: string[]): AutoLayout {
+  const members = elements.filter((e) => ids.includes(e.id));
+  const byX = [...members].sort((a, b) => a.x - b.x);
+  const horizontal = byX.every((e, i) => i === 0 || e.x >= byX[i - 1].x + byX[i - 1].width);
+
+  const sorted = horizontal ? byX : [...members].sort((a, b) => a.y - b.y);
+  const spacings = sorted.slice(1).map((e, i) =>
+    horizontal ? e.x - (sorted[i].x + sorted[i].width) : e.y - (sorted[i].y + sorted[i].height)
+  );
+
+  return {
+    direction: horizontal ? 'horizontal' : 'vertical',
+    gap: spacings.length > 0 ? Math.max(0, Math.round(Math.min(...spacings))) : 0,
+    padding: { top: 0, right: 0, bottom: 0, left: 0 },
+    align: 'start',
+    justify: 'start',
+  };
+}
+
+/**
+ * Remove a frame, handing its children to the frame's own parent
+ */
+export function ungroupElements(elements: CanvasElement[], frameId: string): CanvasElement[] {
+  const frame = elements.find((e) => e.id === frameId);
+  if (!frame || frame.type !== 'frame') return elements;
+
+  return elements
+    .filter((e) => e.id !== frameId)
+    .map((e) => (e.parentId === frameId ? { ...e, parentId: frame.parentId } : e));
+}
+
+// ============================================================================
+// Align & Distribute
+// ============================================================================
+
+/**
+ * Align elements to the edges or center of their combined bounds. A single
+ * element inside a frame aligns to the frame instead.
+ */
+export function alignElements(elements: CanvasElement[], ids: string[], command: AlignCommand): CanvasElement[] {
+  const topLevel = getTopLevelSelection(elements, ids);
+  const members = elements.filter((e) => topLevel.includes(e.id));
+  const parent = members.length === 1 ? elements.find((e) => e.id === members[0].parentId) : undefined;
+  const target = parent || (members.length > 1 ? boundsOf(members) : null);
+  if (!target) return elements;
+
+  return members.reduce((result, element) => {
+    const position: Partial<CanvasElement> = {
+      left: { x: target.x },
+      center: { x: target.x + (target.width - element.width) / 2 },
+      right: { x: target.x + target.width - element.width },
+      top: { y: target.y },
+      middle: { y: target.y + (target.height - element.height) / 2 },
+      bottom: { y: target.y + target.height - element.height },
+    }[command];
+    return updateElementBounds(result, element.id, {
+      ...(position.x !== undefined ? { x: Math.round(position.x) } : {}),
+      ...(position.y !== undefined ? { y: Math.round(position.y) } : {}),
+    });
+  }, elements);
+}
+
+/**
+ * Space three or more elements evenly between the outermost two
+ */
+export function distributeElements(elements: CanvasElement[], ids: string[], axis: DistributeAxis): CanvasElement[] {
+  const topLevel = getTopLevelSelection(elements, ids);
+  const position = axis === 'horizontal' ? 'x' : 'y';
+  const size = axis === 'horizontal' ? 'width' : 'height';
+  const members = elements.filter((e) => topLevel.includes(e.id)).sort((a, b) => a[position] - b[position]);
+  if (members.length < 3) return elements;
+
+  const first = members[0];
+  const last = members[members.length - 1];
+  const span = last[position] + last[size] - first[position];
+  const occupied = members.reduce((sum, e) => sum + e[size], 0);
+  const spacing = (span - occupied) / (members.length - 1);
+
+  let cursor = first[position];
+  return members.reduce((result, element) => {
+    const next = updateElementBounds(result, element.id, { [position]: Math.round(cursor) });
+    cursor += element[size] + spacing;
+    return next;
+  }, elements);
+}
+
+// ============================================================================
+// Layers
+// ============================================================================
+
+/**
+ * Elements as the layers panel lists them: topmost first, each frame
+ * followed by its children
+ */
+export function getLayerOrder(elements: CanvasElement[]): LayerEntry[] {
+  const tree = groupByParent(elements);
+  const entries: LayerEntry[] = [];
+  const visit = (parentId: string | null, depth: number) => {
+    [...(tree.get(parentId) || [])]
+      .sort((a, b) => b.zIndex - a.zIndex)
+      .forEach((element) => {
+        entries.push({ element, depth });
+        visit(element.id, depth + 1);
+      });
+  };
+  visit(null, 0);
+  return entries;
+}
+
+/**
+ * Move a layer to where another one is in the layers list. It joins that
+ * layer's frame and its new siblings get z-indexes matching the list order.
+ */
+export function reorderLayer(elements: CanvasElement[], activeId: string, overId: string): CanvasElement[] {
+  if (activeId === overId || getDescendantIds(elements, activeId).includes(overId)) return elements;
+
+  const order = getLayerOrder(elements).map((entry) => entry.element);
+  const from = order.findIndex((e) => e.id === activeId);
+  const to = order.findIndex((e) => e.id === overId);
+  if (from < 0 || to < 0) return elements;
+
+  const parentId = order[to].parentId;
+  const sameParent = (e: CanvasElement) => (e.parentId || null) === (parentId || null);
+  const moved = [...order];
+  moved.splice(to, 0, ...moved.splice(from, 1));
+
+  const siblings = moved.filter((e) => e.id === activeId || sameParent(e));
+  const zIndexes = new Map(siblings.map((e, i) => [e.id, siblings.length - i]));
+
+  return elements.map((e) =>
+    zIndexes.has(e.id)
+      ? { ...e, zIndex: zIndexes.get(e.id)!, ...(e.id === activeId ? { parentId } : {}) }
+      : e
+  );
+}
+
+// ============================================================================
+// Clipboard
+// ============================================================================
+
+/**
+ * Selected elements with everything nested inside them and their interactions
+ */
+export function createClipboardPayload(
+  elements: CanvasElement[],
+  interactions: Map<string, Interaction[]>,
+  ids: string[]
+): ClipboardPayload {
+  const topLevel = getTopLevelSelection(elements, ids);
+  const included = new Set(topLevel.flatMap((id) => [id, ...getDescendantIds(elements, id)]));
+  const copied = elements.filter((e) => included.has(e.id));
+
+  return {
+    type: CLIPBOARD_TYPE,
+    version: 1,
+    elements: copied,
+    interactions: Object.fromEntries(
+      copied.filter((e) => interactions.get(e.id)?.length).map((e) => [e.id, interactions.get(e.id)!])
+    ),
+  };
+}
+
+export function parseClipboardPayload(text: string): ClipboardPayload | null {
+  try {
+    const data = JSON.parse(text) as Partial<ClipboardPayload>;
+    return data?.type === CLIPBOARD_TYPE && Array.isArray(data.elements) ? (data as ClipboardPayload) : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * New copies of clipboard elements with fresh ids. References between the
+ * copied elements follow the new ids; copies land offset from the originals
+ * when those are still on this canvas.
+ */
+export function pasteClipboardPayload(
+  payload: ClipboardPayload,
+  existing: CanvasElement[],
+  createId: () => string
+): PasteResult {
+  const idMap = new Map(payload.elements.map((e) => [e.id, createId()]));
+  const existingIds = new Set(existing.map((e) => e.id));
+  const offset = payload.elements.some((e) => existingIds.has(e.id)) ? PASTE_OFFSET : 0;
+  const topZ = existing.reduce((max, e) => Math.max(max, e.zIndex), 0);
+
+  const ids: string[] = [];
+  const elements = payload.elements.map((element) => {
+    const parentId = element.parentId;
+    const nested = !!parentId && idMap.has(parentId);
+    if (!nested) ids.push(idMap.get(element.id)!);
+    return {
+      ...element,
+      id: idMap.get(element.id)!,
+      x: element.x + offset,
+      y: element.y + offset,
+      // Copied children follow their copied frame; others stay in their frame if it is on this canvas
+      parentId: nested ? idMap.get(parentId) : parentId && existingIds.has(parentId) ? parentId : undefined,
+      zIndex: nested ? element.zIndex : topZ + 1,
+    };
+  });
+
+  const interactions = new Map(
+    Object.entries(payload.interactions || {})
+      .filter(([id]) => idMap.has(id))
+      .map(([id, list]) => [idMap.get(id)!, remapIds(list, idMap).map((i) => ({ ...i, id: createId() }))])
+  );
+
+  return { elements, interactions, ids };
+}
+
+/**
+ * Copy to the system clipboard so other canvases and tabs can paste, with
+ * local storage as a fallback where clipboard access is blocked
+ */
+export async function writeCanvasClipboard(payload: ClipboardPayload): Promise<void> {
+  const text = JSON.stringify(payload);
+  try {
+    localStorage.setItem(CLIPBOARD_STORAGE_KEY, text);
+  } catch (error) {
+    console.error('Error saving canvas clipboard:', error);
+  }
+  try {
+    await navigator.clipboard.writeText(text);
+  } catch (error) {
+    console.error('Error writing canvas clipboard:', error);
+  }
+}
+
+export async function readCanvasClipboard(): Promise<ClipboardPayload | null> {
+  try {
+    // Something else copied since then means there is nothing to paste
+    return parseClipboardPayload(await navigator.clipboard.readText());
+  } catch {
+    return parseClipboardPayload(localStorage.getItem(CLIPBOARD_STORAGE_KEY) || '');
+  }
+}
@@ -0,0 +1,178 @@
+/**
+ * Tests for Visual Builder code export: layout inference, framework
+ * projects and the zip archive
+ */
+
+import { describe, it, expect } from 'vitest';
+import { exportProject, type CodeExportInput } from './codeExport';
+import { inferLayout } from './layoutInference';
+import { createZipArchive, crc32 } from './zipArchive';
+import type { CanvasElement } from '@/components/VisualBuilder/VisualCanvas';
+import type { Interaction } from '@/components/VisualBuilder/InteractionEditor';
+import type { ExtractedComponent } from './componentExtractor';
+
+const box = (id: string, x: number, y: number, width = 100, height = 100): CanvasElement => ({
+  id,
+  type: 'shape',
+  x,
+  y,
+  width,
+  height,
+  rotation: 0,
+  zIndex: 1,
+  locked: false,
+  visible: true,
+  content: { fill: '#e2e8f0' },
+});
+
+const button = (id: string, x: number, text: string): CanvasElement => ({
+  ...box(id, x, 0, 120, 40),
+  type: 'component',
+  content: {
+    component: {
+      id: 'component-button',
+      name: 'Primary Button',
+      type: 'button',
+      html: '<button class="btn">Save</button>',
+      props: [
+        { name: 'className', type: 'string', value: 'btn' },
+        { name: 'text', type: 'string', value: text },
+        { name: 'disabled', type: 'boolean', value: false },
+      ],
+    } as unknown as ExtractedComponent,
+  },
+});
+
+function input(elements: CanvasElement[], interactions: [string, Interaction[]][] = []): CodeExportInput {
+  return {
+    elements,
+    interactions: new Map(interactions),
+    variables: [{ id: 'var-1', name: 'count', type: 'number', initialValue: 0 }],
+    canvasWidth: 800,
+    canvasHeight: 600,
+    projectName: 'Checkout Flow',
+  };
+}
+
+const fileContent = (project: ReturnType<typeof exportProject>, path: string) =>
+  project.files.find((f) => f.path === path)?.content || '';
+
+describe('inferLayout', () => {
+  it('should turn side-by-side elements into a row with their spacing as the gap', () => {
+    const root = inferLayout([box('a', 20, 40), box('b', 140, 40), box('c', 260, 50)]);
+
+    expect(root).toMatchObject({ offsetX: 20, offsetY: 40 });
+    expect(root?.node).toMatchObject({ kind: 'flex', direction: 'row', gap: 20 });
+    if (root?.node.kind !== 'flex') throw new Error('expected flex');
+    expect(root.node.children[2]).toMatchObject({ offsetX: 0, offsetY: 10 });
+  });
+
+  it('should detect aligned rows as a grid inside a column', () => {
+    const root = inferLayout([
+      box('title', 0, 0, 300, 40),
+      box('a', 0, 80),
+      box('b', 120, 80),
+      box('c', 0, 200),
+      box('d', 120, 200),
+    ]);
+
+    if (root?.node.kind !== 'flex') throw new Error('expected flex');
+    expect(root.node.direction).toBe('column');
+    expect(root.node.children[1].node).toMatchObject({ kind: 'grid', columns: 2, columnGap: 20, rowGap: 20 });
+  });
+
+  it('should keep overlapping elements absolutely positioned', () => {
+    const root = inferLayout([box('back', 0, 0, 200, 200), box('front', 50, 50)]);
+
+    expect(root?.node.kind).toBe('stack');
+    if (root?.node.kind !== 'stack') throw new Error('expected stack');
+    expect(root.node.children[1]).toMatchObject({ offsetX: 50, offsetY: 50 });
+  });
+});
+
+describe('exportProject', () => {
+  const interactions: [string, Interaction[]][] = [
+    [
+      'save',
+      [
+        {
+          id: 'i-1',
+          name: 'Increment',
+          trigger: 'click',
+          action: 'setVariable',
+          config: { variableId: 'var-1', variableOperation: 'increment' },
+          enabled: true,
+          steps: [{ id: 's-1', action: 'hideElement', config: { targetElementId: 'cancel', delay: 200 } }],
+        },
+      ],
+    ],
+  ];
+  const elements = [button('save', 0, 'Save'), button('cancel', 140, 'Cancel')];
+
+  it('should export React + Tailwind with one shared component and event handlers', () => {
+    const project = exportProject('react', input(elements, interactions));
+    const app = fileContent(project, 'src/App.jsx');
+
+    expect(project.mainFile).toBe('src/App.jsx');
+    expect(project.packageName).toBe('checkout-flow');
+    expect(project.files.filter((f) => f.path.startsWith('src/components/'))).toHaveLength(1);
+    expect(fileContent(project, 'src/components/PrimaryButton.jsx')).toContain(
+      'export default function PrimaryButton({ text = \'Save\', disabled = false })'
+    );
+    expect(app).toContain('<PrimaryButton text="Cancel" />');
+    expect(app).toContain('onClick={handleIncrement}');
+    expect(app).toContain('setVars((prev) => ({ ...prev, count: Number(prev.count) + 1 }));');
+    expect(app).toContain('await wait(200);');
+    expect(app).toContain("display: hidden['cancel'] ? 'none' : undefined");
+    expect(app).toContain('className="flex flex-row items-start gap-[20px]"');
+    expect(fileContent(project, 'package.json')).toContain('"tailwindcss"');
+  });
+
+  it('should export Vue single-file components with scoped styles', () => {
+    const project = exportProject('vue', input(elements, interactions));
+    const app = fileContent(project, 'src/App.vue');
+
+    expect(app).toContain('const vars = reactive({ count: 0 });');
+    expect(app).toContain('@click="handleIncrement"');
+    expect(app).toContain(`v-show="!hidden['cancel']"`);
+    expect(app).toContain('<style scoped>');
+    expect(fileContent(project, 'src/components/PrimaryButton.vue')).toContain(
+      "text: { type: String, default: 'Save' },"
+    );
+  });
+
+  it('should export Svelte components with exported props', () => {
+    const project = exportProject('svelte', input(elements, interactions));
+    const app = fileContent(project, 'src/App.svelte');
+
+    expect(app).toContain('on:click={handleIncrement}');
+    expect(app).toContain('vars.count = Number(vars.count) + 1;');
+    expect(fileContent(project, 'src/components/PrimaryButton.svelte')).toContain("export let text = 'Save';");
+  });
+
+  it('should render {{variable}} placeholders in text as expressions', () => {
+    const text: CanvasElement = { ...box('label', 0, 0), type: 'text', content: { text: 'Items: {{count}}' } };
+
+    expect(fileContent(exportProject('react', input([text])), 'src/App.jsx')).toContain('Items: {vars.count}');
+    expect(fileContent(exportProject('vue', input([text])), 'src/App.vue')).toContain('Items: {{ vars.count }}');
+  });
+});
+
+describe('createZipArchive', () => {
+  it('should compute standard CRC-32 checksums', () => {
+    expect(crc32(new TextEncoder().encode('hello'))).toBe(0x3610a686);
+  });
+
+  it('should write a local header per file and an end of central directory record', () => {
+    const archive = createZipArchive([
+      { path: 'package.json', content: '{}' },
+      { path: 'src/App.jsx', content: 'export default function App() {}' },
+    ]);
+    const view = new DataView(archive.buffer);
+
+    expect(view.getUint32(0, true)).toBe(0x04034b50);
+    const end = archive.length - 22;
+    expect(view.getUint32(end, true)).toBe(0x06054b50);
+    expect(view.getUint16(end + 10, true)).toBe(2);
+  });
+});
@@ -0,0 +1,1462 @@
+/**
+ * Code Export Service
+ * Exports a Visual Builder canvas as a runnable React + Tailwind, Vue or
+ * Svelte project: positions become flex/grid layouts, extracted components
+ * become reusable components with props, and interactions become event
+ * handlers
+ */
+
+import type { CanvasElement } from '@/components/VisualBuilder/VisualCanvas';
+import type {
+  Interaction,
+  InteractionAction,
+  InteractionCondition,
+  InteractionConfig,
+  PrototypeVariable,
+} from '@/components/VisualBuilder/InteractionEditor';
+import type { ComponentProp, ExtractedComponent } from './componentExtractor';
+import { inferLayout, type LayoutItem, type LayoutNode } from './layoutInference';
+import type { ArchiveFile } from './zipArchive';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type ExportFramework = 'react' | 'vue' | 'svelte';
+
+export interface CodeExportInput {
+  elements: CanvasElement[];
+  interactions: Map<string, Interaction[]>;
+  variables: PrototypeVariable[];
+  canvasWidth: number;
+  canvasHeight: number;
+  projectName: string;
+}
+
+export interface ExportedProject {
+  framework: ExportFramework;
+  /** npm package name */
+  packageName: string;
+  files: ArchiveFile[];
+  /** Path of the page component, shown first */
+  mainFile: string;
+}
+
+type TextPart = { literal: string } | { expr: string };
+
+type ViewChild = ViewNode | { text: TextPart[] };
+
+interface ViewNode {
+  tag: string;
+  /** Hint for generated class names */
+  role: string;
+  css: Record<string, string>;
+  attrs: Record<string, string | true>;
+  /** Attribute -> expression */
+  bindings: Record<string, string>;
+  /** CSS property -> expression */
+  styleBindings: Record<string, string>;
+  /** DOM event -> handler name */
+  events: Record<string, string>;
+  /** Element id whose show/hide state controls this node */
+  hiddenKey?: string;
+  component?: { name: string; props: Record<string, string | number | boolean> };
+  children: ViewChild[];
+}
+
+interface ComponentDefinition {
+  name: string;
+  props: { name: string; type: ComponentProp['type']; defaultValue: string | number | boolean }[];
+  root: ViewNode;
+}
+
+interface ScriptState {
+  /** Handler functions, in framework-neutral JavaScript */
+  functions: string[];
+  /** Code run once the page is mounted; may return a cleanup */
+  mount: string[];
+  uses: Set<'vars' | 'hidden' | 'toast' | 'wait' | 'formValid' | 'swipe' | 'drag' | 'animate' | 'hover'>;
+  /** Element id -> DOM event -> handler names */
+  events: Map<string, Map<string, string[]>>;
+  draggable: Set<string>;
+  hideable: Set<string>;
+  /** Elements that handlers look up by data-element-id */
+  queried: Set<string>;
+}
+
+interface Dialect {
+  getVar(name: string): string;
+  setVar(name: string, value: (current: string) => string): string;
+  setHidden(id: string, value: (current: string) => string): string;
+  /** How mount code calls a handler */
+  mounted(handler: string): string;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+export const EXPORT_FRAMEWORKS: Record<ExportFramework, { label: string; extension: string }> = {
+  react: { label: 'React + Tailwind', extension: 'jsx' },
+  vue: { label: 'Vue', extension: 'vue' },
+  svelte: { label: 'Svelte', extension: 'svelte' },
+};
+
+const VOID_TAGS = new Set(['area', 'base', 'br', 'col', 'embed', 'hr', 'img', 'input', 'link', 'meta', 'source', 'track', 'wbr']);
+
+const BOOLEAN_ATTRS = new Set(['disabled', 'required', 'checked', 'readonly', 'selected', 'multiple', 'hidden', 'autofocus']);
+
+const JSX_ATTRS: Record<string, string> = {
+  class: 'className',
+  for: 'htmlFor',
+  tabindex: 'tabIndex',
+  readonly: 'readOnly',
+  maxlength: 'maxLength',
+  minlength: 'minLength',
+  colspan: 'colSpan',
+  rowspan: 'rowSpan',
+  autocomplete: 'autoComplete',
+  autofocus: 'autoFocus',
+  srcset: 'srcSet',
+  crossorigin: 'crossOrigin',
+};
+
+const JSX_EVENTS: Record<string, string> = {
+  click: 'onClick',
+  mouseenter: 'onMouseEnter',
+  mouseleave: 'onMouseLeave',
+  focusin: 'onFocus',
+  scroll: 'onScroll',
+  pointerdown: 'onPointerDown',
+  pointerup: 'onPointerUp',
+  dragstart: 'onDragStart',
+  dragover: 'onDragOver',
+  drop: 'onDrop',
+};
+
+// Component props that map onto the component's root element
+const PROP_ATTRIBUTES: Record<string, string> = {
+  type: 'type',
+  placeholder: 'placeholder',
+  required: 'required',
+  disabled: 'disabled',
+  src: 'src',
+  alt: 'alt',
+  variant: 'data-variant',
+};
+
+const PROP_STYLES: Record<string, string> = {
+  padding: 'padding',
+  backgroundColor: 'background-color',
+};
+
+const TAILWIND_KEYWORDS: Record<string, string> = {
+  'display:flex': 'flex',
+  'display:grid': 'grid',
+  'flex-direction:row': 'flex-row',
+  'flex-direction:column': 'flex-col',
+  'align-items:flex-start': 'items-start',
+  'flex-shrink:0': 'shrink-0',
+  'position:absolute': 'absolute',
+  'position:relative': 'relative',
+  'object-fit:cover': 'object-cover',
+  'overflow:hidden': 'overflow-hidden',
+  'margin:0 auto': 'mx-auto',
+  'margin:0': 'm-0',
+};
+
+const TAILWIND_PREFIXES: Record<string, string> = {
+  width: 'w',
+  height: 'h',
+  'min-height': 'min-h',
+  gap: 'gap',
+  'column-gap': 'gap-x',
+  'row-gap': 'gap-y',
+  'margin-top': 'mt',
+  'margin-left': 'ml',
+  'padding-top': 'pt',
+  'padding-left': 'pl',
+  left: 'left',
+  top: 'top',
+  'font-size': 'text',
+  'font-weight': 'font',
+  color: 'text',
+  'background-color': 'bg',
+  'border-radius': 'rounded',
+  'grid-template-columns': 'grid-cols',
+  'z-index': 'z',
+};
+
+const ANIMATION_KEYFRAMES: Record<string, string> = {
+  fade: "[{ opacity: 0 }, { opacity: 1 }]",
+  slide: "[{ transform: 'translateY(20px)', opacity: 0 }, { transform: 'none', opacity: 1 }]",
+  scale: "[{ transform: 'scale(0.8)' }, { transform: 'scale(1)' }]",
+  rotate: "[{ transform: 'rotate(0deg)' }, { transform: 'rotate(360deg)' }]",
+  bounce: "[{ transform: 'translateY(0)' }, { transform: 'translateY(-12px)' }, { transform: 'translateY(0)' }]",
+};
+
+const TOAST_COLORS: Record<string, string> = {
+  success: '#10b981',
+  error: '#ef4444',
+  info: '#3b82f6',
+  warning: '#f59e0b',
+};
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+const kebabCase = (value: string) => value.replace(/([A-Z])/g, '-$1').toLowerCase();
+
+const camelCase = (value: string) => value.replace(/-([a-z])/g, (_, c: string) => c.toUpperCase());
+
+const isIdentifier = (value: string) => /^[A-Za-z_$][\w$]*$/.test(value);
+
+function toIdentifier(value: string): string {
+  const cleaned = camelCase(value.replace(/[^\w-]/g, '-')).replace(/-/g, '');
+  return isIdentifier(cleaned) ? cleaned : `_${cleaned}`;
+}
+
+export function toPascalCase(value: string): string {
+  const name = value
+    .split(/[^A-Za-z0-9]+/)
+    .filter(Boolean)
+    .map((word) => word[0].toUpperCase() + word.slice(1))
+    .join('');
+  return /^[A-Za-z]/.test(name) ? name : `Component${name}`;
+}
+
+const member = (object: string, key: string) =>
+  isIdentifier(key) ? `${object}.${key}` : `${object}[${literal(key)}]`;
+
+/** A JavaScript literal, with single-quoted strings */
+function literal(value: string | number | boolean): string {
+  return typeof value === 'string'
+    ? `'${value.replace(/\\/g, '\\\\').replace(/'/g, "\\'").replace(/\n/g, '\\n')}'`
+    : JSON.stringify(value);
+}
+
+function objectLiteral(values: Record<string, string | number | boolean>): string {
+  const entries = Object.entries(values).map(([key, value]) => `${propertyKey(key)}: ${literal(value)}`);
+  return entries.length > 0 ? `{ ${entries.join(', ')} }` : '{}';
+}
+
+const propertyKey = (key: string) => (isIdentifier(key) ? key : literal(key));
+
+const escapeAttr = (value: string) => value.replace(/&/g, '&amp;').replace(/"/g, '&quot;');
+
+const emptyNode = (tag: string, role: string): ViewNode => ({
+  tag,
+  role,
+  css: {},
+  attrs: {},
+  bindings: {},
+  styleBindings: {},
+  events: {},
+  children: [],
+});
+
+function parseStyle(style: string): Record<string, string> {
+  const css: Record<string, string> = {};
+  style.split(';').forEach((declaration) => {
+    const index = declaration.indexOf(':');
+    if (index > 0) {
+      css[declaration.slice(0, index).trim().toLowerCase()] = declaration.slice(index + 1).trim();
+    }
+  });
+  return css;
+}
+
+/** Split "Hello {{name}}" into literal and variable parts */
+function parseTemplate(text: string, variables: PrototypeVariable[]): TextPart[] {
+  const parts: TextPart[] = [];
+  let last = 0;
+  for (const match of text.matchAll(/\{\{\s*(\w+)\s*\}\}/g)) {
+    if (!variables.some((v) => v.name === match[1])) continue;
+    if (match.index > last) parts.push({ literal: text.slice(last, match.index) });
+    parts.push({ expr: member('vars', match[1]) });
+    last = match.index + match[0].length;
+  }
+  if (last < text.length) parts.push({ literal: text.slice(last) });
+  return parts;
+}
+
+// ============================================================================
+// HTML To View Tree
+// ============================================================================
+
+function domToView(element: Element): ViewNode {
+  const node = emptyNode(element.tagName.toLowerCase(), 'part');
+
+  for (const attr of Array.from(element.attributes)) {
+    const name = attr.name.toLowerCase();
+    if (name === 'style') {
+      node.css = parseStyle(attr.value);
+    } else if (!name.startsWith('on') && name !== 'data-vx-id') {
+      node.attrs[attr.name] = BOOLEAN_ATTRS.has(name) ? true : attr.value;
+    }
+  }
+
+  for (const child of Array.from(element.childNodes)) {
+    if (child.nodeType === Node.ELEMENT_NODE) {
+      const tag = (child as Element).tagName.toLowerCase();
+      if (tag !== 'script' && tag !== 'style') node.children.push(domToView(child as Element));
+    } else if (child.nodeType === Node.TEXT_NODE && child.textContent?.trim()) {
+      node.children.push({ text: [{ literal: child.textContent.replace(/\s+/g, ' ') }] });
+    }
+  }
+
+  return node;
+}
+
+function htmlToView(html: string): ViewNode {
+  const body = new DOMParser().parseFromString(html, 'text/html').body;
+  const roots = Array.from(body.children);
+  if (roots.length === 1) return domToView(roots[0]);
+
+  const wrapper = emptyNode('div', 'part');
+  wrapper.children = roots.map(domToView);
+  return wrapper;
+}
+
+// ============================================================================
+// Components
+// ============================================================================
+
+function propValue(prop: ComponentProp): string | number | boolean {
+  return prop.value ?? prop.defaultValue ?? '';
+}
+
+function buildComponentDefinition(component: ExtractedComponent, name: string): ComponentDefinition {
+  const root = htmlToView(component.html);
+  root.role = 'root';
+
+  const props: ComponentDefinition['props'] = [];
+  for (const prop of component.props) {
+    if (prop.name === 'id' || prop.name === 'className') continue;
+    const propName = toIdentifier(prop.name);
+    if (props.some((p) => p.name === propName)) continue;
+    props.push({ name: propName, type: prop.type, defaultValue: propValue(prop) });
+
+    if (prop.name === 'text' && root.children.every((child) => 'text' in child)) {
+      root.children = [{ text: [{ expr: propName }] }];
+    } else if (PROP_ATTRIBUTES[prop.name]) {
+      delete root.attrs[PROP_ATTRIBUTES[prop.name]];
+      root.bindings[PROP_ATTRIBUTES[prop.name]] = propName;
+    } else if (PROP_STYLES[prop.name]) {
+      delete root.css[PROP_STYLES[prop.name]];
+      root.styleBindings[PROP_STYLES[prop.name]] = propName;
+    }
+  }
+
+  return { name, props, root };
+}
+
+/**
+ * One definition per extracted component; elements built from the same
+ * component share it
+ */
+function collectComponents(elements: CanvasElement[]): Map<string, ComponentDefinition> {
+  const definitions = new Map<string, ComponentDefinition>();
+  const names = new Set<string>(['App']);
+
+  for (const element of elements) {
+    const component = element.content.component;
+    if (!component || definitions.has(component.id)) continue;
+
+    const base = toPascalCase(component.name || component.type);
+    let name = base;
+    for (let i = 2; names.has(name); i++) name = `${base}${i}`;
+    names.add(name);
+    definitions.set(component.id, buildComponentDefinition(component, name));
+  }
+
+  return definitions;
+}
+
+// ============================================================================
+// Interactions To Handlers
+// ============================================================================
+
+function addEvent(state: ScriptState, elementId: string, event: string, handler: string) {
+  const events = state.events.get(elementId) || new Map<string, string[]>();
+  events.set(event, [...(events.get(event) || []), handler]);
+  state.events.set(elementId, events);
+}
+
+function actionCode(
+  action: InteractionAction,
+  config: InteractionConfig,
+  elementId: string,
+  state: ScriptState,
+  dialect: Dialect,
+  variables: PrototypeVariable[]
+): string {
+  switch (action) {
+    case 'navigate':
+      return config.openInNewTab
+        ? `window.open(${literal(config.url || '')}, '_blank');`
+        : `window.location.href = ${literal(config.url || '')};`;
+
+    case 'showElement':
+    case 'hideElement':
+    case 'toggleElement':
+      if (!config.targetElementId) return '';
+      state.uses.add('hidden');
+      state.hideable.add(config.targetElementId);
+      return dialect.setHidden(config.targetElementId, (current) =>
+        action === 'toggleElement' ? `!${current}` : String(action === 'hideElement')
+      );
+
+    case 'showToast':
+      state.uses.add('toast');
+      return `showToast(${literal(config.toastMessage || 'Notification')}, ${literal(config.toastType || 'info')});`;
+
+    case 'playAnimation':
+      state.uses.add('animate');
+      state.queried.add(elementId);
+      return `document.querySelector('[data-element-id="${elementId}"]')?.animate(ANIMATIONS[${literal(config.animationType || 'fade')}], ${config.animationDuration || 300});`;
+
+    case 'setVariable': {
+      const variable = variables.find((v) => v.id === config.variableId);
+      if (!variable) return '';
+      state.uses.add('vars');
+      if (config.variableOperation === 'increment') {
+        const amount = config.variableValue ? Number(config.variableValue) || 0 : 1;
+        return dialect.setVar(variable.name, (current) => `Number(${current}) + ${amount}`);
+      }
+      if (config.variableOperation === 'toggle') {
+        return dialect.setVar(variable.name, (current) => `!${current}`);
+      }
+      const value = variable.type === 'number'
+        ? Number(config.variableValue) || 0
+        : variable.type === 'boolean'
+          ? config.variableValue === 'true'
+          : config.variableValue || '';
+      return dialect.setVar(variable.name, () => literal(value));
+    }
+
+    case 'customCode':
+      return config.customCode || '';
+
+    default:
+      return '';
+  }
+}
+
+function reverseActionCode(action: InteractionAction, config: InteractionConfig, dialect: Dialect): string {
+  if (!config.targetElementId) return '';
+  switch (action) {
+    case 'showElement':
+      return dialect.setHidden(config.targetElementId, () => 'true');
+    case 'hideElement':
+      return dialect.setHidden(config.targetElementId, () => 'false');
+    case 'toggleElement':
+      return dialect.setHidden(config.targetElementId, (current) => `!${current}`);
+    default:
+      return '';
+  }
+}
+
+function conditionCode(
+  condition: InteractionCondition,
+  state: ScriptState,
+  dialect: Dialect,
+  variables: PrototypeVariable[]
+): string | null {
+  if (condition.kind === 'form') {
+    if (!condition.targetElementId) return null;
+    state.uses.add('formValid');
+    state.queried.add(condition.targetElementId);
+    const check = `formValid(${literal(condition.targetElementId)})`;
+    return condition.operator === 'formInvalid' ? `!${check}` : check;
+  }
+
+  const variable = variables.find((v) => v.id === condition.variableId);
+  if (!variable) return null;
+  state.uses.add('vars');
+  const current = dialect.getVar(variable.name);
+  const value = literal(
+    variable.type === 'number' ? Number(condition.value) || 0 : condition.value || ''
+  );
+
+  switch (condition.operator) {
+    case 'notEquals':
+      return `${current} !== ${value}`;
+    case 'greaterThan':
+      return `${current} > ${value}`;
+    case 'lessThan':
+      return `${current} < ${value}`;
+    case 'isTrue':
+      return `${current} === true`;
+    case 'isFalse':
+      return `${current} !== true`;
+    default:
+      return `${current} === ${value}`;
+  }
+}
+
+const indent = (code: string, spaces: number) =>
+  code
+    .split('\n')
+    .map((line) => (line ? ' '.repeat(spaces) + line : line))
+    .join('\n');
+
+function compileInteractions(input: CodeExportInput, dialect: Dialect): ScriptState {
+  const state: ScriptState = {
+    functions: [],
+    mount: [],
+    uses: new Set(),
+    events: new Map(),
+    draggable: new Set(),
+    hideable: new Set(),
+    queried: new Set(),
+  };
+  const names = new Set<string>();
+  let count = 0;
+
+  input.interactions.forEach((elementInteractions, elementId) => {
+    if (!input.elements.some((e) => e.id === elementId)) return;
+
+    elementInteractions.forEach((interaction) => {
+      if (!interaction.enabled) return;
+      count++;
+      const base = `handle${toPascalCase(interaction.name || interaction.trigger)}`;
+      let handler = base;
+      for (let i = 2; names.has(handler); i++) handler = `${base}${i}`;
+      names.add(handler);
+      const config = interaction.triggerConfig || {};
+
+      const steps = [{ action: interaction.action, config: interaction.config }, ...(interaction.steps || [])];
+      const body: string[] = [];
+      steps.forEach((step) => {
+        const code = actionCode(step.action, step.config, elementId, state, dialect, input.variables);
+        if (!code) return;
+        if (step.config.delay) {
+          state.uses.add('wait');
+          body.push(`await wait(${step.config.delay});`);
+        }
+        body.push(code.trim());
+      });
+      if (body.length === 0) return;
+
+      const guards: string[] = [];
+      const conditions = (interaction.conditions || [])
+        .map((condition) => conditionCode(condition, state, dialect, input.variables))
+        .filter((code): code is string => code !== null);
+      if (conditions.length > 0) {
+        guards.push(`if (!(${conditions.join(interaction.conditionMode === 'any' ? ' || ' : ' && ')})) return;`);
+      }
+
+      const extra: string[] = [];
+      switch (interaction.trigger) {
+        case 'keyPress': {
+          if (!config.key) return;
+          const modifiers = config.modifiers || [];
+          const checks = [
+            `e.key.toLowerCase() !== ${literal(config.key.toLowerCase())}`,
+            ...(['ctrl', 'alt', 'shift', 'meta'] as const).map((m) => `e.${m}Key !== ${modifiers.includes(m)}`),
+          ];
+          guards.unshift(`if (${checks.join(' || ')}) return;`, 'e.preventDefault();');
+          state.mount.push(
+            `const onKeyDown${count} = (e) => ${dialect.mounted(handler)}(e);\n` +
+            `window.addEventListener('keydown', onKeyDown${count});\n` +
+            `cleanups.push(() => window.removeEventListener('keydown', onKeyDown${count}));`
+          );
+          break;
+        }
+
+        case 'load':
+          state.mount.push(`${dialect.mounted(handler)}();`);
+          break;
+
+        case 'afterDelay': {
+          const timer = `timer${count}`;
+          state.mount.push(
+            `const ${timer} = setTimeout(() => ${dialect.mounted(handler)}(), ${Math.max(0, Number(config.delay ?? 1000))});\n` +
+            `cleanups.push(() => clearTimeout(${timer}));`
+          );
+          break;
+        }
+
+        case 'swipe':
+          state.uses.add('swipe');
+          guards.unshift(`if (swipeDirection(${literal(elementId)}, e) !== ${literal(config.swipeDirection || 'left')}) return;`);
+          addEvent(state, elementId, 'pointerdown', 'trackSwipe');
+          addEvent(state, elementId, 'pointerup', handler);
+          break;
+
+        case 'drop':
+          if (!config.dropTargetId) return;
+          state.uses.add('drag');
+          state.draggable.add(elementId);
+          state.queried.add(elementId);
+          addEvent(state, elementId, 'dragstart', 'startDrag');
+          guards.unshift(`if (e.dataTransfer.getData('text/plain') !== ${literal(elementId)}) return;`, 'e.preventDefault();');
+          addEvent(state, config.dropTargetId, 'dragover', 'allowDrop');
+          addEvent(state, config.dropTargetId, 'drop', handler);
+          break;
+
+        case 'whileHover': {
+          state.uses.add('hover');
+          const key = literal(handler);
+          const changed = input.variables.filter((v) =>
+            steps.some((step) => step.action === 'setVariable' && step.config.variableId === v.id)
+          );
+          body.unshift(
+            `hoverState[${key}] = ${changed.length > 0 ? `{ ${changed.map((v) => `${propertyKey(v.name)}: ${dialect.getVar(v.name)}`).join(', ')} }` : '{}'};`
+          );
+          const reverse = steps
+            .map((step) => reverseActionCode(step.action, step.config, dialect))
+            .filter(Boolean)
+            .reverse();
+          changed.forEach((v) => {
+            reverse.push(dialect.setVar(v.name, () => `saved[${literal(v.name)}]`));
+          });
+          extra.push(
+            `function ${handler}Leave() {\n` +
+            `  const saved = hoverState[${key}];\n` +
+            `  if (!saved) return;\n` +
+            `  delete hoverState[${key}];\n` +
+            `${indent(reverse.join('\n'), 2)}\n` +
+            `}`
+          );
+          addEvent(state, elementId, 'mouseenter', handler);
+          addEvent(state, elementId, 'mouseleave', `${handler}Leave`);
+          break;
+        }
+
+        default:
+          addEvent(
+            state,
+            elementId,
+            interaction.trigger === 'hover' ? 'mouseenter' : interaction.trigger === 'focus' ? 'focusin' : interaction.trigger,
+            handler
+          );
+      }
+
+      const isAsync = body.some((line) => line.startsWith('await '));
+      state.functions.push(
+        `${isAsync ? 'async ' : ''}function ${handler}(e) {\n${indent([...guards, ...body].join('\n'), 2)}\n}`,
+        ...extra
+      );
+    });
+  });
+
+  // Elements with several handlers for one event get a combined handler
+  state.events.forEach((events, elementId) => {
+    events.forEach((handlers, event) => {
+      const unique = [...new Set(handlers)];
+      if (unique.length === 1) {
+        events.set(event, unique);
+        return;
+      }
+      const combined = `on${toPascalCase(event)}${toPascalCase(elementId)}`;
+      state.functions.push(`function ${combined}(e) {\n${unique.map((h) => `  ${h}(e);`).join('\n')}\n}`);
+      events.set(event, [combined]);
+    });
+  });
+
+  return state;
+}
+
+function helperFunctions(state: ScriptState): string[] {
+  const helpers: string[] = [];
+  if (state.uses.has('wait')) {
+    helpers.push('const wait = (ms) => new Promise((resolve) => setTimeout(resolve, ms));');
+  }
+  if (state.uses.has('animate')) {
+    helpers.push(
+      `const ANIMATIONS = {\n${Object.entries(ANIMATION_KEYFRAMES).map(([k, v]) => `  ${k}: ${v},`).join('\n')}\n};`
+    );
+  }
+  if (state.uses.has('formValid')) {
+    helpers.push(
+      'function formValid(elementId) {\n' +
+      "  const el = document.querySelector(`[data-element-id=\"${elementId}\"]`);\n" +
+      "  return !!el && [...el.querySelectorAll('input, select, textarea')].every((field) => field.checkValidity());\n" +
+      '}'
+    );
+  }
+  if (state.uses.has('swipe')) {
+    helpers.push(
+      'const swipeStarts = {};\n' +
+      'function trackSwipe(e) {\n' +
+      '  swipeStarts[e.currentTarget.dataset.elementId] = { x: e.clientX, y: e.clientY };\n' +
+      '}\n' +
+      'function swipeDirection(elementId, e) {\n' +
+      '  const start = swipeStarts[elementId];\n' +
+      '  if (!start) return null;\n' +
+      '  const dx = e.clientX - start.x;\n' +
+      '  const dy = e.clientY - start.y;\n' +
+      '  if (Math.max(Math.abs(dx), Math.abs(dy)) < 40) return null;\n' +
+      "  return Math.abs(dx) > Math.abs(dy) ? (dx > 0 ? 'right' : 'left') : (dy > 0 ? 'down' : 'up');\n" +
+      '}'
+    );
+  }
+  if (state.uses.has('drag')) {
+    helpers.push(
+      'function startDrag(e) {\n' +
+      "  e.dataTransfer.setData('text/plain', e.currentTarget.dataset.elementId);\n" +
+      '}\n' +
+      'function allowDrop(e) {\n' +
+      '  e.preventDefault();\n' +
+      '}'
+    );
+  }
+  return helpers;
+}
+
+// ============================================================================
+// Layout To View Tree
+// ============================================================================
+
+function elementView(
+  element: CanvasElement,
+  components: Map<string, ComponentDefinition>,
+  state: ScriptState,
+  variables: PrototypeVariable[]
+): ViewNode {
+  const node = emptyNode('div', element.content.component ? 'component' : element.type);
+  node.css = {
+    width: `${Math.round(element.width)}px`,
+    height: `${Math.round(element.height)}px`,
+    ...(element.rotation ? { transform: `rotate(${element.rotation}deg)` } : {}),
+    ...Object.fromEntries(Object.entries(element.styles || {}).map(([k, v]) => [kebabCase(k), v])),
+  };
+
+  const content = element.content;
+  const definition = content.component ? components.get(content.component.id) : undefined;
+
+  if (definition && content.component) {
+    const props: Record<string, string | number | boolean> = {};
+    content.component.props.forEach((prop) => {
+      const declared = definition.props.find((p) => p.name === toIdentifier(prop.name));
+      if (declared && propValue(prop) !== declared.defaultValue) props[declared.name] = propValue(prop);
+    });
+    node.children.push({ ...emptyNode(definition.name, 'instance'), component: { name: definition.name, props } });
+  } else if (element.type === 'text') {
+    const paragraph = emptyNode('p', 'paragraph');
+    paragraph.css = { margin: '0', 'font-size': `${content.fontSize || 16}px`, 'font-weight': content.fontWeight || '400' };
+    paragraph.children.push({ text: parseTemplate(content.text || 'Text', variables) });
+    node.children.push(paragraph);
+  } else if (element.type === 'shape') {
+    node.css['background-color'] = content.fill || '#3b82f6';
+    node.css.border = `${content.strokeWidth || 1}px solid ${content.stroke || '#1e40af'}`;
+    if (content.shapeType === 'circle') node.css['border-radius'] = '50%';
+  } else if (element.type === 'frame') {
+    if (content.fill) node.css['background-color'] = content.fill;
+  } else if (element.type === 'image') {
+    const image = emptyNode('img', 'picture');
+    image.attrs = { src: content.src || '', alt: content.alt || '' };
+    image.css = { width: '100%', height: '100%', 'object-fit': 'cover' };
+    node.children.push(image);
+  } else if (content.html) {
+    node.children.push(htmlToView(content.html));
+  }
+
+  state.events.get(element.id)?.forEach(([handler], event) => {
+    node.events[event] = handler;
+  });
+  if (state.draggable.has(element.id)) node.attrs.draggable = 'true';
+  if (state.hideable.has(element.id)) node.hiddenKey = element.id;
+  if (state.queried.has(element.id) || state.events.get(element.id)?.has('pointerdown')) {
+    node.attrs['data-element-id'] = element.id;
+  }
+
+  return node;
+}
+
+function layoutView(
+  item: LayoutItem,
+  placement: 'flex' | 'stack' | 'root',
+  components: Map<string, ComponentDefinition>,
+  state: ScriptState,
+  variables: PrototypeVariable[]
+): ViewNode {
+  const layout: LayoutNode = item.node;
+  let node: ViewNode;
+
+  switch (layout.kind) {
+    case 'element':
+      node = elementView(layout.element, components, state, variables);
+      break;
+    case 'flex':
+      node = emptyNode('div', layout.direction);
+      node.css = {
+        display: 'flex',
+        'flex-direction': layout.direction,
+        'align-items': 'flex-start',
+        ...(layout.gap ? { gap: `${layout.gap}px` } : {}),
+      };
+      node.children = layout.children.map((child) => layoutView(child, 'flex', components, state, variables));
+      break;
+    case 'grid':
+      node = emptyNode('div', 'grid');
+      node.css = {
+        display: 'grid',
+        'grid-template-columns': `repeat(${layout.columns}, ${layout.columnWidth}px)`,
+        ...(layout.columnGap ? { 'column-gap': `${layout.columnGap}px` } : {}),
+        ...(layout.rowGap ? { 'row-gap': `${layout.rowGap}px` } : {}),
+      };
+      node.children = layout.children.map((child) => layoutView(child, 'flex', components, state, variables));
+      break;
+    case 'stack':
+      node = emptyNode('div', 'stack');
+      node.css = {
+        position: 'relative',
+        width: `${Math.round(layout.bounds.width)}px`,
+        height: `${Math.round(layout.bounds.height)}px`,
+      };
+      node.children = layout.children.map((child) => layoutView(child, 'stack', components, state, variables));
+      break;
+  }
+
+  if (placement === 'stack') {
+    node.css = { position: 'absolute', left: `${item.offsetX}px`, top: `${item.offsetY}px`, ...node.css };
+  } else if (placement === 'flex') {
+    node.css['flex-shrink'] = '0';
+    if (item.offsetX) node.css['margin-left'] = `${item.offsetX}px`;
+    if (item.offsetY) node.css['margin-top'] = `${item.offsetY}px`;
+  }
+
+  return node;
+}
+
+function pageView(input: CodeExportInput, components: Map<string, ComponentDefinition>, state: ScriptState): ViewNode {
+  const page = emptyNode('div', 'canvas');
+  page.css = {
+    position: 'relative',
+    width: `${input.canvasWidth}px`,
+    'min-height': `${input.canvasHeight}px`,
+    margin: '0 auto',
+    'background-color': '#ffffff',
+  };
+
+  const root = inferLayout(input.elements);
+  if (root) {
+    if (root.offsetX) page.css['padding-left'] = `${root.offsetX}px`;
+    if (root.offsetY) page.css['padding-top'] = `${root.offsetY}px`;
+    page.children.push(layoutView(root, 'root', components, state, input.variables));
+  }
+  return page;
+}
+
+// ============================================================================
+// Markup Rendering
+// ============================================================================
+
+interface MarkupRenderer {
+  attributes(node: ViewNode): string[];
+  text(part: TextPart): string;
+  component(node: ViewNode): string;
+  /** Non-void elements written as <tag /> when empty */
+  selfCloseEmpty: boolean;
+}
+
+function renderMarkup(node: ViewChild, renderer: MarkupRenderer, depth: number): string {
+  const pad = '  '.repeat(depth);
+  if ('text' in node) {
+    return pad + node.text.map((part) => renderer.text(part)).join('').trim();
+  }
+  if (node.component) {
+    return pad + renderer.component(node);
+  }
+
+  const attrs = renderer.attributes(node);
+  const open = attrs.length > 0 ? `<${node.tag} ${attrs.join(' ')}` : `<${node.tag}`;
+
+  if (node.children.length === 0) {
+    return VOID_TAGS.has(node.tag) || renderer.selfCloseEmpty ? `${pad}${open} />` : `${pad}${open}></${node.tag}>`;
+  }
+  if (node.children.length === 1 && 'text' in node.children[0]) {
+    return `${pad}${open}>${renderMarkup(node.children[0], renderer, 0)}</${node.tag}>`;
+  }
+  return [
+    `${pad}${open}>`,
+    ...node.children.map((child) => renderMarkup(child, renderer, depth + 1)),
+    `${pad}</${node.tag}>`,
+  ].join('\n');
+}
+
+/** Utility classes for React + Tailwind */
+function tailwindClasses(css: Record<string, string>): string[] {
+  return Object.entries(css).map(([property, value]) => {
+    const keyword = TAILWIND_KEYWORDS[`${property}:${value}`];
+    if (keyword) return keyword;
+    const arbitrary = value.replace(/,\s+/g, ',').replace(/\s+/g, '_');
+    const prefix = TAILWIND_PREFIXES[property];
+    return prefix ? `${prefix}-[${arbitrary}]` : `[${property}:${arbitrary}]`;
+  });
+}
+
+/** Class names and rules for frameworks with component-scoped CSS */
+class StyleSheet {
+  private rules: string[] = [];
+  private counts = new Map<string, number>();
+  /** Rule body -> class name, so identical elements share a class */
+  private names = new Map<string, string>();
+
+  classFor(node: ViewNode): string | null {
+    const declarations = Object.entries(node.css);
+    if (declarations.length === 0) return null;
+
+    const body = declarations.map(([k, v]) => `  ${k}: ${v};`).join('\n');
+    const existing = this.names.get(`${node.role}|${body}`);
+    if (existing) return existing;
+
+    const count = (this.counts.get(node.role) || 0) + 1;
+    this.counts.set(node.role, count);
+    const name = node.role === 'root' || node.role === 'canvas' ? node.role : `${node.role}-${count}`;
+    this.names.set(`${node.role}|${body}`, name);
+    this.rules.push(`.${name} {\n${body}\n}`);
+    return name;
+  }
+
+  toString(): string {
+    return this.rules.join('\n\n');
+  }
+}
+
+function classList(node: ViewNode, generated: string | null): string {
+  return [typeof node.attrs.class === 'string' ? node.attrs.class : '', generated || ''].filter(Boolean).join(' ');
+}
+
+function reactRenderer(): MarkupRenderer {
+  return {
+    selfCloseEmpty: true,
+    attributes(node) {
+      const attrs: string[] = [];
+      const classes = classList(node, tailwindClasses(node.css).join(' '));
+      if (classes) attrs.push(`className="${escapeAttr(classes)}"`);
+
+      Object.entries(node.attrs).forEach(([name, value]) => {
+        if (name === 'class') return;
+        const jsxName = JSX_ATTRS[name] || (name.includes('-') && !/^(data|aria)-/.test(name) ? camelCase(name) : name);
+        attrs.push(value === true ? jsxName : `${jsxName}="${escapeAttr(value)}"`);
+      });
+      Object.entries(node.bindings).forEach(([name, expr]) => {
+        attrs.push(`${JSX_ATTRS[name] || name}={${expr}}`);
+      });
+
+      const style = Object.entries(node.styleBindings).map(([property, expr]) => `${camelCase(property)}: ${expr}`);
+      if (node.hiddenKey) style.push(`display: hidden[${literal(node.hiddenKey)}] ? 'none' : undefined`);
+      if (style.length > 0) attrs.push(`style={{ ${style.join(', ')} }}`);
+
+      Object.entries(node.events).forEach(([event, handler]) => {
+        attrs.push(`${JSX_EVENTS[event] || `on${toPascalCase(event)}`}={${handler}}`);
+      });
+      return attrs;
+    },
+    text(part) {
+      return 'expr' in part
+        ? `{${part.expr}}`
+        : part.literal.replace(/[{}<>]/g, (c) => ({ '{': "{'{'}", '}': "{'}'}", '<': '&lt;', '>': '&gt;' })[c] as string);
+    },
+    component(node) {
+      const props = Object.entries(node.component?.props || {}).map(([name, value]) =>
+        typeof value === 'string' ? `${name}="${escapeAttr(value)}"` : `${name}={${literal(value)}}`
+      );
+      return `<${node.tag}${props.length ? ' ' + props.join(' ') : ''} />`;
+    },
+  };
+}
+
+function vueRenderer(sheet: StyleSheet): MarkupRenderer {
+  return {
+    selfCloseEmpty: false,
+    attributes(node) {
+      const attrs: string[] = [];
+      const classes = classList(node, sheet.classFor(node));
+      if (classes) attrs.push(`class="${escapeAttr(classes)}"`);
+
+      Object.entries(node.attrs).forEach(([name, value]) => {
+        if (name !== 'class') attrs.push(value === true ? name : `${name}="${escapeAttr(value)}"`);
+      });
+      Object.entries(node.bindings).forEach(([name, expr]) => attrs.push(`:${name}="${expr}"`));
+
+      const style = Object.entries(node.styleBindings).map(([property, expr]) => `'${property}': ${expr}`);
+      if (style.length > 0) attrs.push(`:style="{ ${style.join(', ')} }"`);
+      if (node.hiddenKey) attrs.push(`v-show="!hidden['${node.hiddenKey}']"`);
+
+      Object.entries(node.events).forEach(([event, handler]) => attrs.push(`@${event}="${handler}"`));
+      return attrs;
+    },
+    text(part) {
+      return 'expr' in part ? `{{ ${part.expr} }}` : part.literal.replace(/</g, '&lt;').replace(/>/g, '&gt;');
+    },
+    component(node) {
+      const props = Object.entries(node.component?.props || {}).map(([name, value]) =>
+        typeof value === 'string' ? `${kebabCase(name)}="${escapeAttr(value)}"` : `:${kebabCase(name)}="${literal(value)}"`
+      );
+      return `<${node.tag}${props.length ? ' ' + props.join(' ') : ''} />`;
+    },
+  };
+}
+
+function svelteRenderer(sheet: StyleSheet): MarkupRenderer {
+  return {
+    selfCloseEmpty: false,
+    attributes(node) {
+      const attrs: string[] = [];
+      const classes = classList(node, sheet.classFor(node));
+      if (classes) attrs.push(`class="${escapeAttr(classes)}"`);
+
+      Object.entries(node.attrs).forEach(([name, value]) => {
+        if (name !== 'class') attrs.push(value === true ? name : `${name}="${escapeAttr(value)}"`);
+      });
+      Object.entries(node.bindings).forEach(([name, expr]) => attrs.push(`${name}={${expr}}`));
+      Object.entries(node.styleBindings).forEach(([property, expr]) => attrs.push(`style:${property}={${expr}}`));
+      if (node.hiddenKey) attrs.push(`style:display={hidden['${node.hiddenKey}'] ? 'none' : null}`);
+
+      Object.entries(node.events).forEach(([event, handler]) => attrs.push(`on:${event}={${handler}}`));
+      return attrs;
+    },
+    text(part) {
+      return 'expr' in part
+        ? `{${part.expr}}`
+        : part.literal.replace(/[{}<>]/g, (c) => ({ '{': '&#123;', '}': '&#125;', '<': '&lt;', '>': '&gt;' })[c] as string);
+    },
+    component(node) {
+      const props = Object.entries(node.component?.props || {}).map(([name, value]) =>
+        typeof value === 'string' ? `${name}="${escapeAttr(value)}"` : `${name}={${literal(value)}}`
+      );
+      return `<${node.tag}${props.length ? ' ' + props.join(' ') : ''} />`;
+    },
+  };
+}
+
+// ============================================================================
+// Framework Files
+// ============================================================================
+
+function initialVars(variables: PrototypeVariable[]): string {
+  return objectLiteral(Object.fromEntries(variables.map((v) => [v.name, v.initialValue])));
+}
+
+function mountBlock(state: ScriptState): string {
+  return ['const cleanups = [];', ...state.mount].join('\n');
+}
+
+const TOAST_CSS = `.toast {
+  position: fixed;
+  bottom: 20px;
+  left: 50%;
+  transform: translateX(-50%);
+  padding: 12px 24px;
+  border-radius: 8px;
+  color: white;
+  font-size: 14px;
+  z-index: 9999;
+}
+
+${Object.entries(TOAST_COLORS).map(([type, color]) => `.toast-${type} { background-color: ${color}; }`).join('\n')}`;
+
+function reactFiles(input: CodeExportInput, components: ComponentDefinition[], page: ViewNode, state: ScriptState): ArchiveFile[] {
+  const renderer = reactRenderer();
+
+  const body: string[] = [];
+  if (state.uses.has('vars') || input.variables.length > 0) {
+    body.push(`const [vars, setVars] = useState(${initialVars(input.variables)});`);
+  }
+  if (state.uses.has('hidden')) body.push('const [hidden, setHidden] = useState({});');
+  if (state.uses.has('toast')) {
+    body.push(
+      'const [toast, setToast] = useState(null);',
+      'function showToast(message, type) {\n  setToast({ message, type });\n  setTimeout(() => setToast(null), 3000);\n}'
+    );
+  }
+  if (state.uses.has('hover')) body.push('const hoverState = useRef({}).current;');
+  body.push(...state.functions);
+  if (state.mount.length > 0) {
+    // Mounted listeners call the latest handlers, which see current state
+    const handlers = state.functions.map((fn) => fn.match(/function (\w+)/)?.[1]).filter(Boolean);
+    body.push(
+      `const latest = useRef({});\nlatest.current = { ${handlers.join(', ')} };`,
+      `useEffect(() => {\n${indent(mountBlock(state), 2)}\n  return () => cleanups.forEach((cleanup) => cleanup());\n}, []);`
+    );
+  }
+
+  const markup = renderMarkup(page, renderer, 3);
+  const toast = state.uses.has('toast')
+    ? `\n      {toast && (\n        <div className={\`fixed bottom-5 left-1/2 z-50 -translate-x-1/2 rounded-lg px-6 py-3 text-sm text-white \${TOAST_COLORS[toast.type]}\`}>\n          {toast.message}\n        </div>\n      )}`
+    : '';
+  const hooks = ['useEffect', 'useRef', 'useState'].filter((hook) => body.some((code) => code.includes(`${hook}(`)));
+  const imports = [
+    ...(hooks.length > 0 ? [`import { ${hooks.join(', ')} } from 'react';`] : []),
+    ...components.map((c) => `import ${c.name} from './components/${c.name}';`),
+  ];
+
+  const app = `${imports.join('\n')}
+${state.uses.has('toast') ? `\nconst TOAST_COLORS = {\n${Object.entries(TOAST_COLORS).map(([k, v]) => `  ${k}: 'bg-[${v}]',`).join('\n')}\n};\n` : ''}${helperFunctions(state).length ? '\n' + helperFunctions(state).join('\n\n') + '\n' : ''}
+/**
+ * ${input.projectName}
+ * Exported from Voxel Visual Builder
+ */
+export default function App() {
+${indent(body.join('\n\n'), 2)}${body.length ? '\n\n' : ''}  return (
+    <div className="min-h-screen bg-[#f8fafc]">
+${markup}${toast}
+    </div>
+  );
+}
+`;
+
+  const componentFiles = components.map((definition) => {
+    const params = definition.props.map((p) => `${p.name} = ${literal(p.defaultValue)}`).join(', ');
+    return {
+      path: `src/components/${definition.name}.jsx`,
+      content: `export default function ${definition.name}(${params ? `{ ${params} }` : ''}) {
+  return (
+${renderMarkup(definition.root, renderer, 2)}
+  );
+}
+`,
+    };
+  });
+
+  return [
+    { path: 'src/App.jsx', content: app.replace(/\n{3,}/g, '\n\n') },
+    ...componentFiles,
+    {
+      path: 'src/main.jsx',
+      content: `import { StrictMode } from 'react';
+import { createRoot } from 'react-dom/client';
+import './index.css';
+import App from './App';
+
+createRoot(document.getElementById('root')).render(
+  <StrictMode>
+    <App />
+  </StrictMode>
+);
+`,
+    },
+    {
+      path: 'src/index.css',
+      content: `@import "tailwindcss";
+
+body {
+  margin: 0;
+  font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, 'Helvetica Neue', Arial, sans-serif;
+}
+`,
+    },
+    {
+      path: 'vite.config.js',
+      content: `import { defineConfig } from 'vite';
+import react from '@vitejs/plugin-react';
+import tailwindcss from '@tailwindcss/vite';
+
+export default defineConfig({
+  plugins: [react(), tailwindcss()],
+});
+`,
+    },
+  ];
+}
+
+function vueFiles(input: CodeExportInput, components: ComponentDefinition[], page: ViewNode, state: ScriptState): ArchiveFile[] {
+  const sheet = new StyleSheet();
+  const markup = renderMarkup(page, vueRenderer(sheet), 1);
+  const vueImports = [
+    ...(state.uses.has('vars') || input.variables.length > 0 || state.uses.has('hidden') ? ['reactive'] : []),
+    ...(state.uses.has('toast') ? ['ref'] : []),
+    ...(state.mount.length > 0 ? ['onMounted', 'onUnmounted'] : []),
+  ];
+
+  const imports = [
+    ...(vueImports.length > 0 ? [`import { ${vueImports.join(', ')} } from 'vue';`] : []),
+    ...components.map((c) => `import ${c.name} from './components/${c.name}.vue';`),
+  ];
+  const script: string[] = [];
+  if (state.uses.has('vars') || input.variables.length > 0) script.push(`const vars = reactive(${initialVars(input.variables)});`);
+  if (state.uses.has('hidden')) script.push('const hidden = reactive({});');
+  if (state.uses.has('toast')) {
+    script.push(
+      'const toast = ref(null);\n\nfunction showToast(message, type) {\n  toast.value = { message, type };\n  setTimeout(() => {\n    toast.value = null;\n  }, 3000);\n}'
+    );
+  }
+  if (state.uses.has('hover')) script.push('const hoverState = {};');
+  script.push(...helperFunctions(state), ...state.functions);
+  if (state.mount.length > 0) {
+    script.push(
+      `let cleanups = [];\n\nonMounted(() => {\n${indent(mountBlock(state).replace('const cleanups = [];', 'cleanups = [];'), 2)}\n});\n\nonUnmounted(() => cleanups.forEach((cleanup) => cleanup()));`
+    );
+  }
+
+  const toast = state.uses.has('toast')
+    ? `\n  <div v-if="toast" :class="['toast', 'toast-' + toast.type]">{{ toast.message }}</div>`
+    : '';
+  const styles = [sheet.toString(), state.uses.has('toast') ? TOAST_CSS : ''].filter(Boolean).join('\n\n');
+
+  const app = `<script setup>
+${[imports.join('\n'), ...script].filter(Boolean).join('\n\n')}
+</script>
+
+<template>
+${markup}${toast}
+</template>
+
+<style scoped>
+${styles}
+</style>
+`;
+
+  const componentFiles = components.map((definition) => {
+    const componentSheet = new StyleSheet();
+    const template = renderMarkup(definition.root, vueRenderer(componentSheet), 1);
+    const vueTypes: Record<ComponentProp['type'], string> = {
+      string: 'String',
+      color: 'String',
+      select: 'String',
+      image: 'String',
+      number: 'Number',
+      boolean: 'Boolean',
+    };
+    const props = definition.props
+      .map((p) => `  ${p.name}: { type: ${vueTypes[p.type]}, default: ${literal(p.defaultValue)} },`)
+      .join('\n');
+    return {
+      path: `src/components/${definition.name}.vue`,
+      content: `${props ? `<script setup>\ndefineProps({\n${props}\n});\n</script>\n\n` : ''}<template>
+${template}
+</template>
+${componentSheet.toString() ? `\n<style scoped>\n${componentSheet.toString()}\n</style>\n` : ''}`,
+    };
+  });
+
+  return [
+    { path: 'src/App.vue', content: app },
+    ...componentFiles,
+    {
+      path: 'src/main.js',
+      content: `import { createApp } from 'vue';
+import './style.css';
+import App from './App.vue';
+
+createApp(App).mount('#app');
+`,
+    },
+    {
+      path: 'vite.config.js',
+      content: `import { defineConfig } from 'vite';
+import vue from '@vitejs/plugin-vue';
+
+export default defineConfig({
+  plugins: [vue()],
+});
+`,
+    },
+  ];
+}
+
+function svelteFiles(input: CodeExportInput, components: ComponentDefinition[], page: ViewNode, state: ScriptState): ArchiveFile[] {
+  const sheet = new StyleSheet();
+  const markup = renderMarkup(page, svelteRenderer(sheet), 0);
+
+  const imports = [
+    ...(state.mount.length > 0 ? ["import { onMount } from 'svelte';"] : []),
+    ...components.map((c) => `import ${c.name} from './components/${c.name}.svelte';`),
+  ];
+  const script: string[] = [];
+  if (state.uses.has('vars') || input.variables.length > 0) script.push(`let vars = ${initialVars(input.variables)};`);
+  if (state.uses.has('hidden')) script.push('let hidden = {};');
+  if (state.uses.has('toast')) {
+    script.push(
+      'let toast = null;\n\nfunction showToast(message, type) {\n  toast = { message, type };\n  setTimeout(() => {\n    toast = null;\n  }, 3000);\n}'
+    );
+  }
+  if (state.uses.has('hover')) script.push('const hoverState = {};');
+  script.push(...helperFunctions(state), ...state.functions);
+  if (state.mount.length > 0) {
+    script.push(`onMount(() => {\n${indent(mountBlock(state), 2)}\n  return () => cleanups.forEach((cleanup) => cleanup());\n});`);
+  }
+
+  const toast = state.uses.has('toast')
+    ? `\n{#if toast}\n  <div class="toast toast-{toast.type}">{toast.message}</div>\n{/if}`
+    : '';
+  const styles = [sheet.toString(), state.uses.has('toast') ? TOAST_CSS : ''].filter(Boolean).join('\n\n');
+
+  const app = `<script>
+${indent([imports.join('\n'), ...script].filter(Boolean).join('\n\n'), 2)}
+</script>
+
+${markup}${toast}
+
+<style>
+${indent(styles, 2)}
+</style>
+`;
+
+  const componentFiles = components.map((definition) => {
+    const componentSheet = new StyleSheet();
+    const template = renderMarkup(definition.root, svelteRenderer(componentSheet), 0);
+    const props = definition.props.map((p) => `  export let ${p.name} = ${literal(p.defaultValue)};`).join('\n');
+    return {
+      path: `src/components/${definition.name}.svelte`,
+      content: `${props ? `<script>\n${props}\n</script>\n\n` : ''}${template}
+${componentSheet.toString() ? `\n<style>\n${indent(componentSheet.toString(), 2)}\n</style>\n` : ''}`,
+    };
+  });
+
+  return [
+    { path: 'src/App.svelte', content: app },
+    ...componentFiles,
+    {
+      path: 'src/main.js',
+      content: `import './style.css';
+import App from './App.svelte';
+
+const app = new App({ target: document.getElementById('app') });
+
+export default app;
+`,
+    },
+    {
+      path: 'vite.config.js',
+      content: `import { defineConfig } from 'vite';
+import { svelte } from '@sveltejs/vite-plugin-svelte';
+
+export default defineConfig({
+  plugins: [svelte()],
+});
+`,
+    },
+  ];
+}
+
+const PACKAGES: Record<ExportFramework, { dependencies: Record<string, string>; devDependencies: Record<string, string> }> = {
+  react: {
+    dependencies: { react: '^19.0.0', 'react-dom': '^19.0.0' },
+    devDependencies: {
+      '@tailwindcss/vite': '^4.1.0',
+      '@vitejs/plugin-react': '^5.0.0',
+      tailwindcss: '^4.1.0',
+      vite: '^7.0.0',
+    },
+  },
+  vue: {
+    dependencies: { vue: '^3.5.0' },
+    devDependencies: { '@vitejs/plugin-vue': '^6.0.0', vite: '^7.0.0' },
+  },
+  svelte: {
+    dependencies: {},
+    devDependencies: { '@sveltejs/vite-plugin-svelte': '^3.1.0', svelte: '^4.2.0', vite: '^5.4.0' },
+  },
+};
+
+function scaffoldFiles(framework: ExportFramework, input: CodeExportInput, packageName: string): ArchiveFile[] {
+  const entry = framework === 'react' ? '/src/main.jsx' : '/src/main.js';
+  const mountId = framework === 'react' ? 'root' : 'app';
+  const files: ArchiveFile[] = [
+    {
+      path: 'package.json',
+      content: JSON.stringify(
+        {
+          name: packageName,
+          private: true,
+          version: '0.0.0',
+          type: 'module',
+          scripts: { dev: 'vite', build: 'vite build', preview: 'vite preview' },
+          ...PACKAGES[framework],
+        },
+        null,
+        2
+      ) + '\n',
+    },
+    {
+      path: 'index.html',
+      content: `<!DOCTYPE html>
+<html lang="en">
+  <head>
+    <meta charset="UTF-8" />
+    <meta name="viewport" content="width=device-width, initial-scale=1.0" />
+    <title>${input.projectName.replace(/</g, '&lt;')}</title>
+  </head>
+  <body>
+    <div id="${mountId}"></div>
+    <script type="module" src="${entry}"></script>
+  </body>
+</html>
+`,
+    },
+    {
+      path: 'README.md',
+      content: `# ${input.projectName}
+
+Exported from Voxel Visual Builder as a ${EXPORT_FRAMEWORKS[framework].label} project.
+
+\`\`\`bash
+npm install
+npm run dev
+\`\`\`
+
+Canvas positions were converted to flex and grid layouts where elements line up; overlapping elements keep absolute positions.
+`,
+    },
+  ];
+
+  if (framework !== 'react') {
+    files.push({
+      path: 'src/style.css',
+      content: `body {
+  margin: 0;
+  background-color: #f8fafc;
+  font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, 'Helvetica Neue', Arial, sans-serif;
+}
+`,
+    });
+  }
+
+  return files;
+}
+
+// ============================================================================
+// Public API
+// ============================================================================
+
+/**
+ * Generate a runnable project for a framework
+ */
+export function exportProject(framework: ExportFramework, input: CodeExportInput): ExportedProject {
+  const dialect: Dialect =
+    framework === 'react'
+      ? {
+          getVar: (name) => member('vars', name),
+          setVar: (name, value) =>
+            `setVars((prev) => ({ ...prev, ${propertyKey(name)}: ${value(member('prev', name))} }));`,
+          setHidden: (id, value) =>
+            `setHidden((prev) => ({ ...prev, ${propertyKey(id)}: ${value(`prev[${literal(id)}]`)} }));`,
+          mounted: (handler) => `latest.current.${handler}`,
+        }
+      : {
+          getVar: (name) => member('vars', name),
+          setVar: (name, value) => `${member('vars', name)} = ${value(member('vars', name))};`,
+          setHidden: (id, value) => `hidden[${literal(id)}] = ${value(`hidden[${literal(id)}]`)};`,
+          mounted: (handler) => handler,
+        };
+
+  const visible = input.elements.filter((e) => e.visible);
+  const definitions = collectComponents(visible);
+  const state = compileInteractions({ ...input, elements: visible }, dialect);
+  const page = pageView({ ...input, elements: visible }, definitions, state);
+  const components = [...definitions.values()];
+
+  const packageName =
+    input.projectName.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'prototype';
+
+  const sources =
+    framework === 'react'
+      ? reactFiles(input, components, page, state)
+      : framework === 'vue'
+        ? vueFiles(input, components, page, state)
+        : svelteFiles(input, components, page, state);
+
+  return {
+    framework,
+    packageName,
+    files: [...sources, ...scaffoldFiles(framework, input, packageName)],
+    mainFile: sources[0].path,
+  };
+}
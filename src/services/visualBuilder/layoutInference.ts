@@ -0,0 +1,221 @@
+/**
+ * Layout Inference
+ * Turns absolutely positioned canvas elements into nested flex rows,
+ * columns and grids, falling back to absolute positioning only where
+ * elements overlap
+ */
+
+import type { CanvasElement } from '@/components/VisualBuilder/VisualCanvas';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface LayoutBounds {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export type LayoutNode =
+  | { kind: 'element'; element: CanvasElement; bounds: LayoutBounds }
+  | { kind: 'flex'; direction: 'row' | 'column'; gap: number; bounds: LayoutBounds; children: LayoutItem[] }
+  | {
+      kind: 'grid';
+      columns: number;
+      columnWidth: number;
+      columnGap: number;
+      rowGap: number;
+      bounds: LayoutBounds;
+      children: LayoutItem[];
+    }
+  | { kind: 'stack'; bounds: LayoutBounds; children: LayoutItem[] };
+
+/**
+ * A node placed in its parent. In flex and grid parents the offsets are
+ * margins; in a stack they are absolute left/top positions.
+ */
+export interface LayoutItem {
+  node: LayoutNode;
+  offsetX: number;
+  offsetY: number;
+}
+
+interface Box {
+  element: CanvasElement;
+  bounds: LayoutBounds;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+// Pixels two edges may differ by and still count as aligned
+const ALIGN_TOLERANCE = 4;
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function unionBounds(boxes: { bounds: LayoutBounds }[]): LayoutBounds {
+  const left = Math.min(...boxes.map((b) => b.bounds.x));
+  const top = Math.min(...boxes.map((b) => b.bounds.y));
+  const right = Math.max(...boxes.map((b) => b.bounds.x + b.bounds.width));
+  const bottom = Math.max(...boxes.map((b) => b.bounds.y + b.bounds.height));
+  return { x: left, y: top, width: right - left, height: bottom - top };
+}
+
+/**
+ * Split boxes into bands along an axis, where no box in one band overlaps a
+ * box in another. Bands come back in order.
+ */
+function splitBands(boxes: Box[], axis: 'x' | 'y'): Box[][] {
+  const size = axis === 'x' ? 'width' : 'height';
+  const sorted = [...boxes].sort((a, b) => a.bounds[axis] - b.bounds[axis]);
+  const bands: Box[][] = [];
+  let bandEnd = -Infinity;
+
+  for (const box of sorted) {
+    if (bands.length === 0 || box.bounds[axis] >= bandEnd - 1) {
+      bands.push([box]);
+      bandEnd = box.bounds[axis] + box.bounds[size];
+    } else {
+      bands[bands.length - 1].push(box);
+      bandEnd = Math.max(bandEnd, box.bounds[axis] + box.bounds[size]);
+    }
+  }
+
+  return bands;
+}
+
+function buildFlex(bands: Box[][], direction: 'row' | 'column'): LayoutNode {
+  const axis = direction === 'row' ? 'x' : 'y';
+  const size = direction === 'row' ? 'width' : 'height';
+  const children = bands.map((band) => ({ node: buildNode(band), bounds: unionBounds(band) }));
+  const bounds = unionBounds(children);
+
+  const spacings = children.slice(1).map((child, i) => {
+    const previous = children[i].bounds;
+    return child.bounds[axis] - (previous[axis] + previous[size]);
+  });
+  const gap = Math.max(0, Math.round(Math.min(...spacings)));
+
+  return {
+    kind: 'flex',
+    direction,
+    gap,
+    bounds,
+    children: children.map((child, i) => {
+      // Extra main-axis space beyond the gap, and the cross-axis offset
+      const main = i === 0 ? 0 : Math.round(spacings[i - 1] - gap);
+      const cross = Math.round(direction === 'row' ? child.bounds.y - bounds.y : child.bounds.x - bounds.x);
+      return direction === 'row'
+        ? { node: child.node, offsetX: main, offsetY: cross }
+        : { node: child.node, offsetX: cross, offsetY: main };
+    }),
+  };
+}
+
+/**
+ * Rows of equally sized, column-aligned single elements become a grid
+ */
+function tryGrid(rows: Box[][]): LayoutNode | null {
+  const cells = rows.map((row) => splitBands(row, 'x'));
+  const columns = cells[0].length;
+  if (columns < 2 || cells.some((row) => row.length !== columns || row.some((cell) => cell.length !== 1))) {
+    return null;
+  }
+
+  const first = cells[0].map((cell) => cell[0].bounds);
+  const columnWidth = first[0].width;
+  const aligned = cells.every((row) =>
+    row.every(([cell], i) =>
+      Math.abs(cell.bounds.x - first[i].x) <= ALIGN_TOLERANCE &&
+      Math.abs(cell.bounds.width - columnWidth) <= ALIGN_TOLERANCE
+    )
+  );
+  if (!aligned) return null;
+
+  const rowBounds = rows.map(unionBounds);
+  const rowGap = Math.min(
+    ...rowBounds.slice(1).map((row, i) => row.y - (rowBounds[i].y + rowBounds[i].height))
+  );
+  const columnGap = Math.min(...first.slice(1).map((cell, i) => cell.x - (first[i].x + first[i].width)));
+
+  return {
+    kind: 'grid',
+    columns,
+    columnWidth: Math.round(columnWidth),
+    columnGap: Math.max(0, Math.round(columnGap)),
+    rowGap: Math.max(0, Math.round(rowGap)),
+    bounds: unionBounds(rows.flat()),
+    children: cells.flat().map(([cell]) => ({
+      node: { kind: 'element', element: cell.element, bounds: cell.bounds },
+      offsetX: 0,
+      offsetY: 0,
+    })),
+  };
+}
+
+function buildNode(boxes: Box[]): LayoutNode {
+  if (boxes.length === 1) {
+    return { kind: 'element', element: boxes[0].element, bounds: boxes[0].bounds };
+  }
+
+  const rows = splitBands(boxes, 'y');
+  if (rows.length > 1) {
+    const grid = tryGrid(rows);
+    if (grid) return grid;
+
+    // Runs of rows that line up as a grid become one band of the column
+    const bands: Box[][][] = [];
+    for (const row of rows) {
+      const run = bands[bands.length - 1];
+      if (run && tryGrid([...run, row])) run.push(row);
+      else bands.push([row]);
+    }
+    return buildFlex(bands.map((run) => run.flat()), 'column');
+  }
+
+  const columns = splitBands(boxes, 'x');
+  if (columns.length > 1) {
+    return buildFlex(columns, 'row');
+  }
+
+  // Overlapping elements keep their absolute positions
+  const bounds = unionBounds(boxes);
+  return {
+    kind: 'stack',
+    bounds,
+    children: [...boxes]
+      .sort((a, b) => a.element.zIndex - b.element.zIndex)
+      .map((box) => ({
+        node: { kind: 'element', element: box.element, bounds: box.bounds },
+        offsetX: Math.round(box.bounds.x - bounds.x),
+        offsetY: Math.round(box.bounds.y - bounds.y),
+      })),
+  };
+}
+
+// ============================================================================
+// Public API
+// ============================================================================
+
+/**
+ * Infer a flex/grid layout for the visible elements. The root item's
+ * offsets are its distance from the canvas origin.
+ */
+export function inferLayout(elements: CanvasElement[]): LayoutItem | null {
+  const boxes = elements
+    .filter((e) => e.visible)
+    .map((element) => ({
+      element,
+      bounds: { x: element.x, y: element.y, width: element.width, height: element.height },
+    }));
+
+  if (boxes.length === 0) return null;
+
+  const node = buildNode(boxes);
+  return { node, offsetX: Math.round(node.bounds.x), offsetY: Math.round(node.bounds.y) };
+}
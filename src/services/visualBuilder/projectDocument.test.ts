@@ -0,0 +1,69 @@
+/**
+ * Tests for Visual Builder project documents
+ */
+
+import { describe, it, expect } from 'vitest';
+import { parseProjectDocument, stringifyProjectDocument } from './projectDocument';
+import type { CanvasElement } from '@/components/VisualBuilder/VisualCanvas';
+import type { Interaction, PrototypeVariable } from '@/components/VisualBuilder/InteractionEditor';
+
+const box = (id: string, extra: Partial<CanvasElement> = {}): CanvasElement => ({
+  id,
+  type: 'shape',
+  x: 10,
+  y: 20,
+  width: 100,
+  height: 50,
+  rotation: 0,
+  zIndex: 1,
+  locked: false,
+  visible: true,
+  content: { fill: '#3b82f6' },
+  ...extra,
+});
+
+const hide: Interaction = {
+  id: 'i1',
+  name: 'Hide',
+  trigger: 'click',
+  action: 'hideElement',
+  config: { targetElementId: 'frame' },
+  enabled: true,
+};
+
+describe('parseProjectDocument', () => {
+  it('should round-trip the JSON export', () => {
+    const document = {
+      elements: [box('frame', { type: 'frame' }), box('button', { parentId: 'frame' })],
+      interactions: new Map([['button', [hide]]]),
+      variables: [{ id: 'v1', name: 'count', type: 'number', initialValue: 0 }] as PrototypeVariable[],
+    };
+
+    const parsed = parseProjectDocument(stringifyProjectDocument(document));
+
+    expect(parsed.elements).toEqual(JSON.parse(JSON.stringify(document.elements)));
+    expect(parsed.interactions.get('button')).toEqual([hide]);
+    expect(parsed.variables).toEqual(document.variables);
+    expect(stringifyProjectDocument(parsed)).toBe(stringifyProjectDocument(document));
+  });
+
+  it('should default missing fields and drop interactions on unknown elements', () => {
+    const parsed = parseProjectDocument({
+      elements: [{ id: 'a', type: 'text', x: 0, y: 0, width: 10, height: 10 }],
+      interactions: { a: [hide], gone: [hide] },
+    });
+
+    expect(parsed.elements[0]).toMatchObject({ rotation: 0, zIndex: 1, locked: false, visible: true, content: {} });
+    expect([...parsed.interactions.keys()]).toEqual(['a']);
+    expect(parsed.variables).toEqual([]);
+  });
+
+  it('should reject documents it cannot open', () => {
+    expect(() => parseProjectDocument('not json')).toThrow('not valid JSON');
+    expect(() => parseProjectDocument({ nodes: [] })).toThrow('not a Visual Builder export');
+    expect(() => parseProjectDocument({ version: '2.0', elements: [] })).toThrow('Unsupported document version');
+    expect(() => parseProjectDocument({ elements: [{ id: 'a', type: 'video', x: 0, y: 0, width: 1, height: 1 }] }))
+      .toThrow('unknown type');
+    expect(() => parseProjectDocument({ elements: [box('a'), box('a')] })).toThrow('duplicate ids');
+  });
+});
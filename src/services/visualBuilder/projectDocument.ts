@@ -0,0 +1,135 @@
+/**
+ * Visual Builder Project Document
+ * The JSON form of a canvas: what the JSON export produces, what saved
+ * projects and versions store, and what JSON import reads back
+ */
+
+import type { CanvasElement } from '@/components/VisualBuilder/VisualCanvas';
+import type { Interaction, PrototypeVariable } from '@/components/VisualBuilder/InteractionEditor';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface ProjectDocument {
+  elements: CanvasElement[];
+  /** Interactions by the id of the element they are on */
+  interactions: Map<string, Interaction[]>;
+  variables: PrototypeVariable[];
+}
+
+export interface ProjectDocumentJSON {
+  version: string;
+  elements: CanvasElement[];
+  interactions: Record<string, Interaction[]>;
+  variables: PrototypeVariable[];
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+export const PROJECT_DOCUMENT_VERSION = '1.0';
+
+const ELEMENT_TYPES: CanvasElement['type'][] = ['component', 'text', 'shape', 'image', 'chart', 'drawing', 'frame'];
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isFiniteNumber(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value);
+}
+
+/**
+ * Check the fields the canvas cannot do without and default the rest, so
+ * documents written before a field existed still open
+ */
+function parseElement(value: unknown, index: number): CanvasElement {
+  if (!isRecord(value) || typeof value.id !== 'string' || !value.id) {
+    throw new Error(`Element ${index + 1} has no id`);
+  }
+  if (!ELEMENT_TYPES.includes(value.type as CanvasElement['type'])) {
+    throw new Error(`Element "${value.id}" has an unknown type: ${String(value.type)}`);
+  }
+  for (const key of ['x', 'y', 'width', 'height'] as const) {
+    if (!isFiniteNumber(value[key])) {
+      throw new Error(`Element "${value.id}" has an invalid ${key}`);
+    }
+  }
+
+  const element = value as unknown as CanvasElement;
+  return {
+    ...element,
+    rotation: isFiniteNumber(value.rotation) ? value.rotation : 0,
+    zIndex: isFiniteNumber(value.zIndex) ? value.zIndex : 1,
+    locked: value.locked === true,
+    visible: value.visible !== false,
+    content: isRecord(value.content) ? element.content : {},
+  };
+}
+
+// ============================================================================
+// Serialization
+// ============================================================================
+
+export function serializeProjectDocument(document: ProjectDocument): ProjectDocumentJSON {
+  return {
+    version: PROJECT_DOCUMENT_VERSION,
+    elements: document.elements,
+    interactions: Object.fromEntries(document.interactions),
+    variables: document.variables,
+  };
+}
+
+export function stringifyProjectDocument(document: ProjectDocument): string {
+  return JSON.stringify(serializeProjectDocument(document), null, 2);
+}
+
+/**
+ * Read a document from JSON text or an already parsed object. Throws with a
+ * message fit to show the user when it is not a Visual Builder document.
+ * Interactions on elements that are not in the document are dropped.
+ */
+export function parseProjectDocument(input: string | unknown): ProjectDocument {
+  let data: unknown = input;
+  if (typeof input === 'string') {
+    try {
+      data = JSON.parse(input);
+    } catch {
+      throw new Error('The file is not valid JSON');
+    }
+  }
+
+  if (!isRecord(data) || !Array.isArray(data.elements)) {
+    throw new Error('The file is not a Visual Builder export');
+  }
+  if (data.version !== undefined && String(data.version).split('.')[0] !== PROJECT_DOCUMENT_VERSION.split('.')[0]) {
+    throw new Error(`Unsupported document version: ${String(data.version)}`);
+  }
+
+  const elements = data.elements.map(parseElement);
+  const ids = new Set(elements.map((e) => e.id));
+  if (ids.size !== elements.length) {
+    throw new Error('The document has elements with duplicate ids');
+  }
+
+  const interactions = new Map<string, Interaction[]>();
+  if (isRecord(data.interactions)) {
+    for (const [elementId, list] of Object.entries(data.interactions)) {
+      if (ids.has(elementId) && Array.isArray(list)) {
+        interactions.set(elementId, list as Interaction[]);
+      }
+    }
+  }
+
+  const variables = Array.isArray(data.variables)
+    ? (data.variables as PrototypeVariable[]).filter((v) => isRecord(v) && typeof v.name === 'string')
+    : [];
+
+  return { elements, interactions, variables };
+}
@@ -0,0 +1,381 @@
+/**
+ * Visual Builder Project Service
+ * Saved Visual Builder canvases and their named versions
+ * Supports both Supabase and local mock mode for demos
+ */
+
+import { supabase, isSupabaseConfigured } from './supabase';
+import type { ProjectDocumentJSON } from './visualBuilder/projectDocument';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface VisualBuilderProject {
+  id: string;
+  userId: string;
+  name: string;
+  /** Elements, interactions and variables in the JSON export format */
+  document: ProjectDocumentJSON;
+  canvasWidth: number;
+  canvasHeight: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/** A named snapshot of a project's document */
+export interface VisualBuilderProjectVersion {
+  id: string;
+  projectId: string;
+  name: string;
+  document: ProjectDocumentJSON;
+  createdAt: string;
+}
+
+export type VisualBuilderProjectUpdates = Partial<
+  Pick<VisualBuilderProject, 'name' | 'document' | 'canvasWidth' | 'canvasHeight'>
+>;
+
+interface ProjectRow {
+  id: string;
+  user_id: string;
+  name: string;
+  document: ProjectDocumentJSON;
+  canvas_width: number;
+  canvas_height: number;
+  created_at: string;
+  updated_at: string;
+}
+
+interface VersionRow {
+  id: string;
+  project_id: string;
+  name: string;
+  document: ProjectDocumentJSON;
+  created_at: string;
+}
+
+// Local storage keys for mock mode
+const LOCAL_PROJECTS_KEY = 'voxel_visual_builder_projects';
+const LOCAL_VERSIONS_KEY = 'voxel_visual_builder_versions';
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+function toProject(row: ProjectRow): VisualBuilderProject {
+  return {
+    id: row.id,
+    userId: row.user_id,
+    name: row.name,
+    document: row.document,
+    canvasWidth: row.canvas_width,
+    canvasHeight: row.canvas_height,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+function toVersion(row: VersionRow): VisualBuilderProjectVersion {
+  return {
+    id: row.id,
+    projectId: row.project_id,
+    name: row.name,
+    document: row.document,
+    createdAt: row.created_at,
+  };
+}
+
+function getLocal<T>(key: string): T[] {
+  try {
+    const stored = localStorage.getItem(key);
+    return stored ? JSON.parse(stored) : [];
+  } catch {
+    return [];
+  }
+}
+
+function saveLocal<T>(key: string, items: T[]): void {
+  try {
+    localStorage.setItem(key, JSON.stringify(items));
+  } catch (e) {
+    console.warn('[VisualBuilderProjectService] Failed to save to localStorage:', e);
+    throw new Error('Local storage is full. Please delete some projects or clear browser storage.');
+  }
+}
+
+function mockId(): string {
+  return `mock_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+}
+
+/**
+ * Check if we should use local mock mode
+ */
+async function shouldUseMockMode(): Promise<boolean> {
+  if (!isSupabaseConfigured()) {
+    return true;
+  }
+
+  try {
+    const { data: { user } } = await supabase.auth.getUser();
+    return !user;
+  } catch {
+    return true;
+  }
+}
+
+// ============================================================================
+// Projects
+// ============================================================================
+
+/**
+ * Get the current user's projects, most recently edited first
+ */
+export async function getVisualBuilderProjects(): Promise<VisualBuilderProject[]> {
+  if (await shouldUseMockMode()) {
+    return getLocal<VisualBuilderProject>(LOCAL_PROJECTS_KEY)
+      .sort((a, b) => new Date(b.updatedAt).getTime() - new Date(a.updatedAt).getTime());
+  }
+
+  const { data, error } = await supabase
+    .from('visual_builder_projects')
+    .select('*')
+    .order('updated_at', { ascending: false });
+
+  if (error) {
+    console.error('[VisualBuilderProjectService] Error fetching projects:', error);
+    return [];
+  }
+
+  return ((data as ProjectRow[]) || []).map(toProject);
+}
+
+/**
+ * Get a project by ID
+ */
+export async function getVisualBuilderProject(projectId: string): Promise<VisualBuilderProject | null> {
+  if (await shouldUseMockMode()) {
+    return getLocal<VisualBuilderProject>(LOCAL_PROJECTS_KEY).find((p) => p.id === projectId) || null;
+  }
+
+  const { data, error } = await supabase
+    .from('visual_builder_projects')
+    .select('*')
+    .eq('id', projectId)
+    .single();
+
+  if (error) {
+    console.error('[VisualBuilderProjectService] Error fetching project:', error);
+    return null;
+  }
+
+  return toProject(data as ProjectRow);
+}
+
+/**
+ * Create a project from a canvas
+ */
+export async function createVisualBuilderProject(
+  project: Pick<VisualBuilderProject, 'name' | 'document' | 'canvasWidth' | 'canvasHeight'>
+): Promise<VisualBuilderProject> {
+  if (await shouldUseMockMode()) {
+    const now = new Date().toISOString();
+    const created: VisualBuilderProject = {
+      ...project,
+      id: mockId(),
+      userId: 'mock_user',
+      createdAt: now,
+      updatedAt: now,
+    };
+    saveLocal(LOCAL_PROJECTS_KEY, [created, ...getLocal<VisualBuilderProject>(LOCAL_PROJECTS_KEY)]);
+    return created;
+  }
+
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) {
+    throw new Error('You must be logged in to save a project');
+  }
+
+  const { data, error } = await supabase
+    .from('visual_builder_projects')
+    .insert({
+      user_id: user.id,
+      name: project.name,
+      document: project.document,
+      canvas_width: project.canvasWidth,
+      canvas_height: project.canvasHeight,
+    })
+    .select()
+    .single();
+
+  if (error) {
+    console.error('[VisualBuilderProjectService] Error creating project:', error);
+    throw new Error(`Failed to create project: ${error.message}`);
+  }
+
+  return toProject(data as ProjectRow);
+}
+
+/**
+ * Save a project's name, canvas size or document
+ */
+export async function saveVisualBuilderProject(
+  projectId: string,
+  updates: VisualBuilderProjectUpdates
+): Promise<boolean> {
+  if (await shouldUseMockMode()) {
+    const projects = getLocal<VisualBuilderProject>(LOCAL_PROJECTS_KEY);
+    if (!projects.some((p) => p.id === projectId)) return false;
+
+    try {
+      saveLocal(
+        LOCAL_PROJECTS_KEY,
+        projects.map((p) => (p.id === projectId ? { ...p, ...updates, updatedAt: new Date().toISOString() } : p))
+      );
+      return true;
+    } catch (e) {
+      console.error('[VisualBuilderProjectService] Error saving project:', e);
+      return false;
+    }
+  }
+
+  const row: Partial<ProjectRow> = {};
+  if (updates.name !== undefined) row.name = updates.name;
+  if (updates.document !== undefined) row.document = updates.document;
+  if (updates.canvasWidth !== undefined) row.canvas_width = updates.canvasWidth;
+  if (updates.canvasHeight !== undefined) row.canvas_height = updates.canvasHeight;
+
+  const { error } = await supabase.from('visual_builder_projects').update(row).eq('id', projectId);
+
+  if (error) {
+    console.error('[VisualBuilderProjectService] Error saving project:', error);
+    return false;
+  }
+
+  return true;
+}
+
+/**
+ * Delete a project and its versions
+ */
+export async function deleteVisualBuilderProject(projectId: string): Promise<boolean> {
+  if (await shouldUseMockMode()) {
+    try {
+      saveLocal(
+        LOCAL_PROJECTS_KEY,
+        getLocal<VisualBuilderProject>(LOCAL_PROJECTS_KEY).filter((p) => p.id !== projectId)
+      );
+      saveLocal(
+        LOCAL_VERSIONS_KEY,
+        getLocal<VisualBuilderProjectVersion>(LOCAL_VERSIONS_KEY).filter((v) => v.projectId !== projectId)
+      );
+      return true;
+    } catch (e) {
+      console.error('[VisualBuilderProjectService] Error deleting project:', e);
+      return false;
+    }
+  }
+
+  const { error } = await supabase.from('visual_builder_projects').delete().eq('id', projectId);
+
+  if (error) {
+    console.error('[VisualBuilderProjectService] Error deleting project:', error);
+    return false;
+  }
+
+  return true;
+}
+
+// ============================================================================
+// Versions
+// ============================================================================
+
+/**
+ * Get a project's named versions, newest first
+ */
+export async function getVisualBuilderVersions(projectId: string): Promise<VisualBuilderProjectVersion[]> {
+  if (await shouldUseMockMode()) {
+    return getLocal<VisualBuilderProjectVersion>(LOCAL_VERSIONS_KEY)
+      .filter((v) => v.projectId === projectId)
+      .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
+  }
+
+  const { data, error } = await supabase
+    .from('visual_builder_versions')
+    .select('*')
+    .eq('project_id', projectId)
+    .order('created_at', { ascending: false });
+
+  if (error) {
+    console.error('[VisualBuilderProjectService] Error fetching versions:', error);
+    return [];
+  }
+
+  return ((data as VersionRow[]) || []).map(toVersion);
+}
+
+/**
+ * Save the given document as a named version of a project
+ */
+export async function createVisualBuilderVersion(
+  projectId: string,
+  name: string,
+  document: ProjectDocumentJSON
+): Promise<VisualBuilderProjectVersion> {
+  if (await shouldUseMockMode()) {
+    const created: VisualBuilderProjectVersion = {
+      id: mockId(),
+      projectId,
+      name,
+      document,
+      createdAt: new Date().toISOString(),
+    };
+    saveLocal(LOCAL_VERSIONS_KEY, [created, ...getLocal<VisualBuilderProjectVersion>(LOCAL_VERSIONS_KEY)]);
+    return created;
+  }
+
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) {
+    throw new Error('You must be logged in to save a version');
+  }
+
+  const { data, error } = await supabase
+    .from('visual_builder_versions')
+    .insert({ project_id: projectId, user_id: user.id, name, document })
+    .select()
+    .single();
+
+  if (error) {
+    console.error('[VisualBuilderProjectService] Error creating version:', error);
+    throw new Error(`Failed to save version: ${error.message}`);
+  }
+
+  return toVersion(data as VersionRow);
+}
+
+/**
+ * Delete a named version
+ */
+export async function deleteVisualBuilderVersion(versionId: string): Promise<boolean> {
+  if (await shouldUseMockMode()) {
+    try {
+      saveLocal(
+        LOCAL_VERSIONS_KEY,
+        getLocal<VisualBuilderProjectVersion>(LOCAL_VERSIONS_KEY).filter((v) => v.id !== versionId)
+      );
+      return true;
+    } catch (e) {
+      console.error('[VisualBuilderProjectService] Error deleting version:', e);
+      return false;
+    }
+  }
+
+  const { error } = await supabase.from('visual_builder_versions').delete().eq('id', versionId);
+
+  if (error) {
+    console.error('[VisualBuilderProjectService] Error deleting version:', error);
+    return false;
+  }
+
+  return true;
+}
@@ -4,7 +4,8 @@
  */
 
 import { supabase, isSupabaseConfigured } from './supabase';
-import { compactHtml } from './htmlCompactor';
+import { compactToBudget, getHtmlTokenBudget } from './htmlCompactor';
+import type { LLMProvider } from './apiKeysService';
 import type { UIMetadata } from './screenAnalyzerService';
 import type { VariantPlan } from './variantPlanService';
 
@@ -57,7 +58,7 @@ export async function generateWireframes(
   uiMetadata?: UIMetadata,
   onProgress?: ProgressCallback,
   screenshotBase64?: string,
-  provider?: string,
+  provider?: LLMProvider,
   model?: string
 ): Promise<GeneratedWireframes> {
   if (!isSupabaseConfigured()) {
@@ -83,14 +84,14 @@ export async function generateWireframes(
     .update({ status: 'wireframing' })
     .eq('id', sessionId);
 
-  // Compact HTML for smaller payload
-  const compactionResult = await compactHtml(html, { method: 'combined-optimal' });
+  // Compact HTML to fit the selected model's share of the prompt
+  const compactionResult = compactToBudget(html, { provider, model, maxTokens: getHtmlTokenBudget({ provider, model }) });
   const compactedHtml = compactionResult.html;
 
   console.log('[WireframeService] HTML compaction:', {
-    originalSize: compactionResult.originalSize,
-    compactedSize: compactionResult.compactedSize,
-    reductionPercent: compactionResult.reductionPercent,
+    originalTokens: compactionResult.originalTokens,
+    tokens: compactionResult.tokens,
+    steps: compactionResult.steps,
   });
 
   // Progress: Generating
@@ -179,7 +180,7 @@ export async function generateVisualWireframes(
   selectedVariants?: number[],
   onProgress?: ProgressCallback,
   screenshotBase64?: string,
-  provider?: string,
+  provider?: LLMProvider,
   model?: string
 ): Promise<GeneratedVisualWireframes> {
   if (!isSupabaseConfigured()) {
@@ -205,14 +206,14 @@ export async function generateVisualWireframes(
     .update({ status: 'wireframing' })
     .eq('id', sessionId);
 
-  // Compact HTML for smaller payload
-  const compactionResult = await compactHtml(html, { method: 'combined-optimal' });
+  // Compact HTML to fit the selected model's share of the prompt
+  const compactionResult = compactToBudget(html, { provider, model, maxTokens: getHtmlTokenBudget({ provider, model }) });
   const compactedHtml = compactionResult.html;
 
   console.log('[WireframeService] HTML compaction for visual wireframes:', {
-    originalSize: compactionResult.originalSize,
-    compactedSize: compactionResult.compactedSize,
-    reductionPercent: compactionResult.reductionPercent,
+    originalTokens: compactionResult.originalTokens,
+    tokens: compactionResult.tokens,
+    steps: compactionResult.steps,
   });
 
   // Progress: Generating
@@ -58,7 +58,7 @@ interface ComponentsState {
   extractWithLLM: (
     screens: Array<{ id: string; name: string; editedHtml?: string }>,
     options?: {
-      provider?: 'anthropic' | 'openai' | 'google';
+      provider?: 'anthropic' | 'openai' | 'google' | 'local';
       model?: string;
     }
   ) => Promise<{
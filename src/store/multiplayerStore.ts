@@ -1,5 +1,6 @@
 import { create } from 'zustand';
 import { persist } from 'zustand/middleware';
+import type { CommentAnchor } from '@/services/commentAnchorService';
 
 export interface Comment {
   id: string;
@@ -15,6 +16,8 @@ export interface Comment {
     x: number;
     y: number;
   };
+  // Element the pin is attached to; position is where it was dropped
+  anchor?: CommentAnchor | null;
   resolved: boolean;
 }
 
@@ -78,7 +81,8 @@ interface MultiplayerState {
     prototypeId: string,
     content: string,
     position?: { x: number; y: number },
-    parentId?: string
+    parentId?: string,
+    anchor?: CommentAnchor | null
   ) => Comment;
   updateComment: (commentId: string, content: string) => void;
   deleteComment: (commentId: string) => void;
@@ -238,7 +242,7 @@ export const useMultiplayerStore = create<MultiplayerState>()(
         set({ currentUser: user });
       },
 
-      addComment: (prototypeId, content, position, parentId) => {
+      addComment: (prototypeId, content, position, parentId, anchor) => {
         const currentUser = get().currentUser;
         const now = new Date().toISOString();
 
@@ -253,6 +257,7 @@ export const useMultiplayerStore = create<MultiplayerState>()(
           updatedAt: now,
           parentId,
           position,
+          anchor,
           resolved: false,
         };
 
@@ -2,6 +2,7 @@ import { create } from 'zustand';
 import { persist } from 'zustand/middleware';
 import type { CapturedScreen, ScreenVersion } from '@/types';
 import { supabase, isSupabaseConfigured } from '@/services/supabase';
+import { assignElementIds } from '@/services/elementIdentityService';
 import { useAuthStore } from '@/store/authStore';
 
 interface ScreensState {
@@ -245,8 +246,8 @@ export const useScreensStore = create<ScreensState>()(
       uploadScreen: async (file: File, name?: string, tags?: string[]) => {
         const screenName = name || file.name.replace(/\.html?$/i, '');
 
-        // Read file content
-        const html = await file.text();
+        // Read file content and give every element a stable ID
+        const html = assignElementIds(await file.text());
 
         let newScreen: CapturedScreen = {
           id: `screen-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
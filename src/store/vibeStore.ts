@@ -10,6 +10,7 @@ import type { UIMetadata } from '../services/screenAnalyzerService';
 import type { VibeSession, VariantPlan } from '../services/variantPlanService';
 import type { VibeVariant } from '../services/variantCodeService';
 import type { UnderstandingResponse } from '../services/understandingService';
+import type { ContextCitation } from '../services/contextIndexService';
 
 // Chat message for the vibe coding interface
 export interface ChatMessage {
@@ -21,6 +22,7 @@ export interface ChatMessage {
   metadata?: {
     variantIndex?: number;
     stage?: string;
+    citations?: ContextCitation[];
   };
 }
 
@@ -41,6 +43,8 @@ export interface Understanding {
   provider: string;
   approved: boolean;
   approvedAt?: string;
+  /** Product context retrieved for the request */
+  citations?: ContextCitation[];
 }
 
 // Generated plan with all 4 variants
@@ -48,6 +52,8 @@ export interface GeneratedPlan {
   plans: VariantPlan[];
   model: string;
   provider: string;
+  /** Product context retrieved for the plan */
+  citations?: ContextCitation[];
 }
 
 // Status types - Multi-phase workflow
@@ -326,6 +326,7 @@ export interface Database {
           content: string;
           position_x: number | null;
           position_y: number | null;
+          anchor: Json | null;
           variant_index: number | null;
           parent_id: string | null;
           resolved: boolean;
@@ -343,6 +344,7 @@ export interface Database {
           content: string;
           position_x?: number | null;
           position_y?: number | null;
+          anchor?: Json | null;
           variant_index?: number | null;
           parent_id?: string | null;
           resolved?: boolean;
@@ -360,6 +362,7 @@ export interface Database {
           content?: string;
           position_x?: number | null;
           position_y?: number | null;
+          anchor?: Json | null;
           variant_index?: number | null;
           parent_id?: string | null;
           resolved?: boolean;
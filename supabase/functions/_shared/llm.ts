@@ -0,0 +1,841 @@
+/**
+ * Shared LLM Provider Layer
+ *
+ * One request/response shape for every edge function that talks to an LLM:
+ * - Anthropic, OpenAI and Google (Gemini v1beta), plus a mock provider
+ * - Self-hosted models at a configurable base URL ('local'), speaking either
+ *   the OpenAI chat completions format or Ollama's native API
+ * - JSON mode and tool (function) calls
+ * - Retries with exponential backoff on rate limits, overload and network errors
+ * - Per-attempt timeouts until the response headers arrive, and an idle
+ *   timeout between chunks while streaming
+ * - Token usage reporting
+ *
+ * Set LLM_MOCK=true in the function environment to route every call to the
+ * mock provider (no API key or network needed). LLM_MOCK_RESPONSE overrides
+ * the text it returns.
+ *
+ * The local provider's base URL comes from the user, so it must be http(s)
+ * and must not point at a private, loopback or link-local address unless the
+ * host is listed in LOCAL_LLM_ALLOWED_HOSTS (comma separated), which
+ * self-hosted deployments set for their model servers. A local server's
+ * error responses are logged, never returned to the caller.
+ */
+
+export type LLMProvider = 'anthropic' | 'openai' | 'google' | 'local' | 'mock'
+
+export type LocalApiFlavor = 'openai-compatible' | 'ollama'
+
+export const DEFAULT_MODELS: Record<LLMProvider, string> = {
+  anthropic: 'claude-sonnet-4-20250514',
+  openai: 'gpt-4.1',
+  google: 'gemini-2.0-flash',
+  local: 'llama3.1',
+  mock: 'mock-1',
+}
+
+const DEFAULT_MAX_TOKENS = 4096
+const DEFAULT_TIMEOUT_MS = 120_000
+// For calls that generate a whole page (16k output tokens) in one response
+export const LONG_GENERATION_TIMEOUT_MS = 300_000
+// A stream that goes quiet this long is treated as stalled
+const STREAM_IDLE_TIMEOUT_MS = 60_000
+const DEFAULT_MAX_RETRIES = 2
+const BASE_RETRY_DELAY_MS = 1000
+const MAX_RETRY_DELAY_MS = 20_000
+const RETRYABLE_STATUSES = new Set([408, 409, 429, 500, 502, 503, 504, 529])
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface LLMImage {
+  /** Base64 data, with or without a data: URL prefix */
+  data: string
+  /** For raw base64 data (data URLs carry their own type); defaults to image/png */
+  mediaType?: string
+}
+
+export interface LLMTool {
+  name: string
+  description: string
+  /** JSON schema of the tool input */
+  parameters: Record<string, unknown>
+}
+
+export interface LLMRequest {
+  provider: LLMProvider | string
+  apiKey: string
+  /**
+   * Server URL for the local provider: the OpenAI-style base including /v1
+   * (http://gpu-box:8000/v1) or the Ollama root (http://localhost:11434)
+   */
+  baseUrl?: string | null
+  /** Wire format of the local server; defaults to openai-compatible */
+  apiFlavor?: LocalApiFlavor | string | null
+  model?: string | null
+  system?: string
+  prompt: string
+  /** Images are sent before the prompt text (Google also accepts video media types) */
+  images?: LLMImage[]
+  maxTokens?: number
+  temperature?: number
+  /** Ask for a JSON object response (native JSON mode where the provider has one) */
+  json?: boolean
+  tools?: LLMTool[]
+  /** Force a call to this tool */
+  toolChoice?: string
+  /**
+   * Per attempt, until the response headers arrive. Non-streaming providers
+   * send headers once generation finishes, so this bounds the whole call;
+   * streams are bounded by an idle timeout between chunks instead.
+   */
+  timeoutMs?: number
+  maxRetries?: number
+  /** Log prefix, usually the function name */
+  label?: string
+}
+
+export interface LLMUsage {
+  inputTokens: number
+  outputTokens: number
+  totalTokens: number
+}
+
+export interface LLMToolCall {
+  name: string
+  input: Record<string, unknown>
+}
+
+export interface LLMResponse {
+  text: string
+  toolCalls: LLMToolCall[]
+  usage: LLMUsage
+  provider: LLMProvider
+  model: string
+  stopReason: string | null
+  attempts: number
+  durationMs: number
+}
+
+export class LLMError extends Error {
+  provider: string
+  status: number | null
+  retryable: boolean
+
+  constructor(message: string, provider: string, status: number | null = null, retryable = false) {
+    super(message)
+    this.name = 'LLMError'
+    this.provider = provider
+    this.status = status
+    this.retryable = retryable
+  }
+}
+
+interface ProviderRequest {
+  url: string
+  headers: Record<string, string>
+  body: Record<string, unknown>
+}
+
+interface ProviderAdapter {
+  build: (request: LLMRequest, model: string, stream: boolean) => ProviderRequest
+  parse: (data: unknown) => Omit<LLMResponse, 'provider' | 'model' | 'attempts' | 'durationMs'>
+  /** Text delta (and final usage, when present) from one streamed event */
+  parseStreamEvent: (event: unknown) => { text?: string; usage?: Partial<LLMUsage> }
+}
+
+// Only the parts of each provider's payloads we read
+
+interface AnthropicMessage {
+  content?: Array<{ type: string; text?: string; name?: string; input?: Record<string, unknown> }>
+  usage?: { input_tokens?: number; output_tokens?: number }
+  stop_reason?: string
+}
+
+interface AnthropicStreamEvent {
+  type: string
+  delta?: { text?: string }
+  message?: AnthropicMessage
+  usage?: { output_tokens?: number }
+}
+
+interface OpenAIUsage {
+  prompt_tokens?: number
+  completion_tokens?: number
+}
+
+interface OpenAICompletion {
+  choices?: Array<{
+    message?: { content?: string | null; tool_calls?: Array<{ function?: { name: string; arguments?: string } }> }
+    delta?: { content?: string }
+    finish_reason?: string
+  }>
+  usage?: OpenAIUsage | null
+}
+
+interface GoogleResponse {
+  candidates?: Array<{
+    content?: { parts?: Array<{ text?: string; functionCall?: { name: string; args?: Record<string, unknown> } }> }
+    finishReason?: string
+  }>
+  usageMetadata?: { promptTokenCount?: number; candidatesTokenCount?: number }
+}
+
+interface OllamaChatResponse {
+  message?: {
+    content?: string
+    tool_calls?: Array<{ function?: { name: string; arguments?: Record<string, unknown> } }>
+  }
+  done?: boolean
+  done_reason?: string
+  prompt_eval_count?: number
+  eval_count?: number
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function splitImage(image: LLMImage): { mediaType: string; data: string } {
+  const match = image.data.match(/^data:([^;,]+);base64,/)
+  return {
+    mediaType: match?.[1] || image.mediaType || 'image/png',
+    data: match ? image.data.slice(match[0].length) : image.data,
+  }
+}
+
+function toUsage(inputTokens = 0, outputTokens = 0): LLMUsage {
+  return { inputTokens, outputTokens, totalTokens: inputTokens + outputTokens }
+}
+
+/**
+ * Sum token usage across several calls
+ */
+export function addUsage(total: LLMUsage, usage: LLMUsage): LLMUsage {
+  return toUsage(total.inputTokens + usage.inputTokens, total.outputTokens + usage.outputTokens)
+}
+
+export const EMPTY_USAGE: LLMUsage = toUsage()
+
+function isReasoningModel(model: string): boolean {
+  return /^(o\d|gpt-5)/.test(model)
+}
+
+function jsonInstruction(request: LLMRequest): string {
+  return request.json ? '\n\nRespond with a single valid JSON object only - no markdown, no explanation.' : ''
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms))
+}
+
+function retryDelay(attempt: number, retryAfter: string | null): number {
+  const seconds = retryAfter ? Number(retryAfter) : NaN
+  if (!Number.isNaN(seconds)) return Math.min(seconds * 1000, MAX_RETRY_DELAY_MS)
+  const backoff = BASE_RETRY_DELAY_MS * 2 ** attempt
+  return Math.min(backoff + Math.random() * backoff * 0.25, MAX_RETRY_DELAY_MS)
+}
+
+/**
+ * Extract and parse the JSON object (or array) from an LLM response.
+ * Handles markdown code fences and surrounding prose.
+ */
+export function parseJsonResponse<T = unknown>(text: string): T {
+  const fenced = text.match(/```(?:json)?\s*([\s\S]*?)```/)
+  const candidate = fenced ? fenced[1] : text
+  const start = candidate.search(/[{[]/)
+  const end = Math.max(candidate.lastIndexOf('}'), candidate.lastIndexOf(']'))
+  if (start === -1 || end < start) {
+    throw new Error('No valid JSON found in response')
+  }
+
+  try {
+    return JSON.parse(candidate.slice(start, end + 1)) as T
+  } catch (error) {
+    throw new Error(`Failed to parse JSON from response: ${error instanceof Error ? error.message : String(error)}`)
+  }
+}
+
+// ============================================================================
+// Providers
+// ============================================================================
+
+const anthropic: ProviderAdapter = {
+  build: (request, model, stream) => ({
+    url: 'https://api.anthropic.com/v1/messages',
+    headers: {
+      'Content-Type': 'application/json',
+      'x-api-key': request.apiKey,
+      'anthropic-version': '2023-06-01',
+    },
+    body: {
+      model,
+      max_tokens: request.maxTokens ?? DEFAULT_MAX_TOKENS,
+      ...(request.temperature !== undefined && { temperature: request.temperature }),
+      ...(request.system && { system: request.system }),
+      ...(stream && { stream: true }),
+      ...(request.tools && {
+        tools: request.tools.map((tool) => ({
+          name: tool.name,
+          description: tool.description,
+          input_schema: tool.parameters,
+        })),
+      }),
+      ...(request.toolChoice && { tool_choice: { type: 'tool', name: request.toolChoice } }),
+      messages: [{
+        role: 'user',
+        content: [
+          ...(request.images || []).map(splitImage).map(({ mediaType, data }) => ({
+            type: 'image',
+            source: { type: 'base64', media_type: mediaType, data },
+          })),
+          { type: 'text', text: request.prompt + jsonInstruction(request) },
+        ],
+      }],
+    },
+  }),
+  parse: (data) => {
+    const message = data as AnthropicMessage
+    const blocks = message.content || []
+    return {
+      text: blocks.filter((b) => b.type === 'text').map((b) => b.text || '').join(''),
+      toolCalls: blocks.filter((b) => b.type === 'tool_use').map((b) => ({ name: b.name || '', input: b.input || {} })),
+      usage: toUsage(message.usage?.input_tokens, message.usage?.output_tokens),
+      stopReason: message.stop_reason ?? null,
+    }
+  },
+  parseStreamEvent: (data) => {
+    const event = data as AnthropicStreamEvent
+    if (event.type === 'content_block_delta') return { text: event.delta?.text }
+    if (event.type === 'message_start') return { usage: { inputTokens: event.message?.usage?.input_tokens } }
+    if (event.type === 'message_delta') return { usage: { outputTokens: event.usage?.output_tokens } }
+    return {}
+  },
+}
+
+const openai: ProviderAdapter = {
+  build: (request, model, stream) => ({
+    url: 'https://api.openai.com/v1/chat/completions',
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${request.apiKey}`,
+    },
+    body: {
+      model,
+      ...(isReasoningModel(model)
+        ? { max_completion_tokens: request.maxTokens ?? DEFAULT_MAX_TOKENS }
+        : { max_tokens: request.maxTokens ?? DEFAULT_MAX_TOKENS }),
+      ...(request.temperature !== undefined && !isReasoningModel(model) && { temperature: request.temperature }),
+      ...(request.json && !request.tools && { response_format: { type: 'json_object' } }),
+      ...(stream && { stream: true, stream_options: { include_usage: true } }),
+      ...(request.tools && {
+        tools: request.tools.map((tool) => ({
+          type: 'function',
+          function: { name: tool.name, description: tool.description, parameters: tool.parameters },
+        })),
+      }),
+      ...(request.toolChoice && { tool_choice: { type: 'function', function: { name: request.toolChoice } } }),
+      messages: [
+        ...(request.system ? [{ role: 'system', content: request.system }] : []),
+        {
+          role: 'user',
+          content: [
+            ...(request.images || []).map(splitImage).map(({ mediaType, data }) => ({
+              type: 'image_url',
+              image_url: { url: `data:${mediaType};base64,${data}` },
+            })),
+            { type: 'text', text: request.prompt + jsonInstruction(request) },
+          ],
+        },
+      ],
+    },
+  }),
+  parse: (data) => {
+    const completion = data as OpenAICompletion
+    const choice = completion.choices?.[0]
+    return {
+      text: choice?.message?.content || '',
+      toolCalls: (choice?.message?.tool_calls || []).map((call) => ({
+        name: call.function?.name || '',
+        input: call.function?.arguments ? JSON.parse(call.function.arguments) : {},
+      })),
+      usage: toUsage(completion.usage?.prompt_tokens, completion.usage?.completion_tokens),
+      stopReason: choice?.finish_reason ?? null,
+    }
+  },
+  parseStreamEvent: (data) => {
+    const event = data as OpenAICompletion
+    return {
+      text: event.choices?.[0]?.delta?.content,
+      usage: event.usage
+        ? { inputTokens: event.usage.prompt_tokens, outputTokens: event.usage.completion_tokens }
+        : undefined,
+    }
+  },
+}
+
+const google: ProviderAdapter = {
+  build: (request, model, stream) => ({
+    url: `https://generativelanguage.googleapis.com/v1beta/models/${model}:${stream ? 'streamGenerateContent?alt=sse&' : 'generateContent?'}key=${request.apiKey}`,
+    headers: { 'Content-Type': 'application/json' },
+    body: {
+      ...(request.system && { systemInstruction: { parts: [{ text: request.system }] } }),
+      contents: [{
+        role: 'user',
+        parts: [
+          ...(request.images || []).map(splitImage).map(({ mediaType, data }) => ({
+            inlineData: { mimeType: mediaType, data },
+          })),
+          { text: request.prompt + jsonInstruction(request) },
+        ],
+      }],
+      generationConfig: {
+        maxOutputTokens: request.maxTokens ?? DEFAULT_MAX_TOKENS,
+        ...(request.temperature !== undefined && { temperature: request.temperature }),
+        ...(request.json && !request.tools && { responseMimeType: 'application/json' }),
+      },
+      ...(request.tools && {
+        tools: [{
+          functionDeclarations: request.tools.map((tool) => ({
+            name: tool.name,
+            description: tool.description,
+            parameters: tool.parameters,
+          })),
+        }],
+      }),
+      ...(request.toolChoice && {
+        toolConfig: { functionCallingConfig: { mode: 'ANY', allowedFunctionNames: [request.toolChoice] } },
+      }),
+    },
+  }),
+  parse: (data) => {
+    const response = data as GoogleResponse
+    const candidate = response.candidates?.[0]
+    const parts = candidate?.content?.parts || []
+    return {
+      text: parts.map((p) => p.text || '').join(''),
+      toolCalls: parts.flatMap((p) => (p.functionCall ? [{ name: p.functionCall.name, input: p.functionCall.args || {} }] : [])),
+      usage: toUsage(response.usageMetadata?.promptTokenCount, response.usageMetadata?.candidatesTokenCount),
+      stopReason: candidate?.finishReason ?? null,
+    }
+  },
+  parseStreamEvent: (data) => {
+    const event = data as GoogleResponse
+    return {
+      text: (event.candidates?.[0]?.content?.parts || []).map((p) => p.text || '').join('') || undefined,
+      usage: event.usageMetadata
+        ? { inputTokens: event.usageMetadata.promptTokenCount, outputTokens: event.usageMetadata.candidatesTokenCount }
+        : undefined,
+    }
+  },
+}
+
+function localBaseUrl(request: LLMRequest): string {
+  return (request.baseUrl || '').trim().replace(/\/+$/, '')
+}
+
+function isPrivateIPv4(address: string): boolean {
+  const octets = address.split('.').map(Number)
+  if (octets.length !== 4 || octets.some((o) => !Number.isInteger(o) || o < 0 || o > 255)) return false
+  const [a, b] = octets
+  return (
+    a === 0 ||
+    a === 10 ||
+    a === 127 ||
+    (a === 100 && b >= 64 && b <= 127) || // Carrier-grade NAT
+    (a === 169 && b === 254) || // Link-local, including cloud metadata
+    (a === 172 && b >= 16 && b <= 31) ||
+    (a === 192 && b === 168) ||
+    a >= 224 // Multicast and reserved
+  )
+}
+
+function isPrivateAddress(address: string): boolean {
+  const ip = address.toLowerCase().replace(/^\[|\]$/g, '')
+  if (!ip.includes(':')) return isPrivateIPv4(ip)
+
+  const mapped = ip.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/)
+  if (mapped) return isPrivateIPv4(mapped[1])
+  return (
+    ip === '::' ||
+    ip === '::1' ||
+    ip.startsWith('::ffff:') || // Mapped IPv4 in hex form
+    /^f[cd]/.test(ip) || // Unique local
+    /^fe[89ab]/.test(ip) // Link-local
+  )
+}
+
+function isIpLiteral(host: string): boolean {
+  return /^\d+\.\d+\.\d+\.\d+$/.test(host) || host.startsWith('[')
+}
+
+/**
+ * Refuse local base URLs that would reach the function's own network:
+ * anything not http(s), and hosts that are or resolve to private addresses,
+ * unless the operator allowed them.
+ * Returns the checked address when the host had to be resolved, so the
+ * request can be sent there rather than to a second lookup's answer.
+ */
+async function assertLocalServerAllowed(request: LLMRequest): Promise<string | null> {
+  let url: URL
+  try {
+    url = new URL(localBaseUrl(request))
+  } catch {
+    throw new LLMError('Local provider base URL is invalid', 'local')
+  }
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    throw new LLMError('Local provider base URL must use http or https', 'local')
+  }
+
+  const host = url.hostname.toLowerCase()
+  const allowed = (Deno.env.get('LOCAL_LLM_ALLOWED_HOSTS') || '').split(',').map((h) => h.trim().toLowerCase())
+  if (allowed.includes(host)) return null
+
+  const refused = new LLMError(
+    'Local provider base URL points at a private network address. Ask your administrator to allow the host.',
+    'local'
+  )
+  if (host === 'localhost' || host.endsWith('.localhost') || host.endsWith('.internal') || host.endsWith('.local')) {
+    throw refused
+  }
+
+  if (isIpLiteral(host)) {
+    if (isPrivateAddress(host)) throw refused
+    return null
+  }
+
+  const lookups = await Promise.all(
+    (['A', 'AAAA'] as const).map((type) => Deno.resolveDns(host, type).catch(() => [] as string[]))
+  )
+  const addresses = lookups.flat()
+  if (addresses.length === 0) {
+    throw new LLMError('Local provider host could not be resolved', 'local')
+  }
+  if (addresses.some(isPrivateAddress)) throw refused
+  return addresses[0]
+}
+
+/**
+ * Send a local request to the address its host was checked at. fetch would
+ * resolve the name again, and a rebinding DNS server can answer that second
+ * lookup with an internal address. Over https the certificate already ties
+ * the connection to the hostname, so only http is rewritten.
+ */
+function pinLocalAddress(providerRequest: ProviderRequest, address: string): ProviderRequest {
+  const url = new URL(providerRequest.url)
+  if (url.protocol !== 'http:') return providerRequest
+
+  const host = url.host
+  url.hostname = address.includes(':') ? `[${address}]` : address
+  return { ...providerRequest, url: url.toString(), headers: { ...providerRequest.headers, Host: host } }
+}
+
+/**
+ * Build the provider request; local ones are checked and pinned first
+ */
+async function buildProviderRequest(
+  request: LLMRequest,
+  adapter: ProviderAdapter,
+  model: string,
+  stream: boolean
+): Promise<ProviderRequest> {
+  const providerRequest = adapter.build(request, model, stream)
+  if (request.provider !== 'local') return providerRequest
+
+  const address = await assertLocalServerAllowed(request)
+  return address ? pinLocalAddress(providerRequest, address) : providerRequest
+}
+
+// Placeholder the client stores for local servers that run without a key
+const LOCAL_NO_KEY = 'local'
+
+function localHeaders(request: LLMRequest): Record<string, string> {
+  return {
+    'Content-Type': 'application/json',
+    ...(request.apiKey && request.apiKey !== LOCAL_NO_KEY && { 'Authorization': `Bearer ${request.apiKey}` }),
+  }
+}
+
+// vLLM, LM Studio, llama.cpp server, LocalAI, Ollama's /v1 endpoint
+const openaiCompatible: ProviderAdapter = {
+  ...openai,
+  build: (request, model, stream) => ({
+    ...openai.build(request, model, stream),
+    url: `${localBaseUrl(request)}/chat/completions`,
+    headers: localHeaders(request),
+  }),
+}
+
+const ollama: ProviderAdapter = {
+  build: (request, model, stream) => ({
+    url: `${localBaseUrl(request)}/api/chat`,
+    headers: localHeaders(request),
+    body: {
+      model,
+      stream,
+      ...(request.json && !request.tools && { format: 'json' }),
+      options: {
+        num_predict: request.maxTokens ?? DEFAULT_MAX_TOKENS,
+        ...(request.temperature !== undefined && { temperature: request.temperature }),
+      },
+      ...(request.tools && {
+        tools: request.tools.map((tool) => ({
+          type: 'function',
+          function: { name: tool.name, description: tool.description, parameters: tool.parameters },
+        })),
+      }),
+      messages: [
+        ...(request.system ? [{ role: 'system', content: request.system }] : []),
+        {
+          role: 'user',
+          content: request.prompt + jsonInstruction(request),
+          ...(request.images?.length && { images: request.images.map((image) => splitImage(image).data) }),
+        },
+      ],
+    },
+  }),
+  parse: (data) => {
+    const response = data as OllamaChatResponse
+    return {
+      text: response.message?.content || '',
+      toolCalls: (response.message?.tool_calls || []).map((call) => ({
+        name: call.function?.name || '',
+        input: call.function?.arguments || {},
+      })),
+      usage: toUsage(response.prompt_eval_count, response.eval_count),
+      stopReason: response.done_reason ?? null,
+    }
+  },
+  parseStreamEvent: (data) => {
+    const event = data as OllamaChatResponse
+    return {
+      text: event.message?.content || undefined,
+      usage: event.done ? { inputTokens: event.prompt_eval_count, outputTokens: event.eval_count } : undefined,
+    }
+  },
+}
+
+const ADAPTERS: Record<Exclude<LLMProvider, 'local' | 'mock'>, ProviderAdapter> = { anthropic, openai, google }
+
+function isMockEnabled(provider: string): boolean {
+  return provider === 'mock' || Deno.env.get('LLM_MOCK') === 'true'
+}
+
+function mockResponse(request: LLMRequest): Omit<LLMResponse, 'attempts' | 'durationMs'> {
+  const tool = request.tools?.find((t) => t.name === request.toolChoice) ?? request.tools?.[0]
+  const text = Deno.env.get('LLM_MOCK_RESPONSE') ?? (request.json ? '{}' : `Mock response (${request.prompt.length} chars of prompt)`)
+  const inputTokens = Math.ceil(((request.system?.length || 0) + request.prompt.length) / 4)
+  return {
+    text: tool ? '' : text,
+    toolCalls: tool ? [{ name: tool.name, input: {} }] : [],
+    usage: toUsage(inputTokens, Math.ceil(text.length / 4)),
+    provider: 'mock',
+    model: request.model || DEFAULT_MODELS.mock,
+    stopReason: tool ? 'tool_use' : 'end_turn',
+  }
+}
+
+function getAdapter(request: LLMRequest): ProviderAdapter {
+  if (request.provider === 'local') {
+    if (!localBaseUrl(request)) throw new LLMError('Local provider requires a base URL', 'local')
+    return request.apiFlavor === 'ollama' ? ollama : openaiCompatible
+  }
+  const adapter = ADAPTERS[request.provider as keyof typeof ADAPTERS]
+  if (!adapter) throw new LLMError(`Unknown provider: ${request.provider}`, request.provider)
+  return adapter
+}
+
+// ============================================================================
+// Calls
+// ============================================================================
+
+/**
+ * POST to the provider, retrying rate limits, overload and network errors
+ * with exponential backoff. Returns the successful response.
+ *
+ * A timeout is not retried: the provider was still working on a request
+ * this size, so another attempt would most likely time out as well.
+ */
+async function fetchWithRetry(
+  request: LLMRequest,
+  providerRequest: ProviderRequest
+): Promise<{ response: Response; attempts: number }> {
+  const maxRetries = request.maxRetries ?? DEFAULT_MAX_RETRIES
+  const timeoutMs = request.timeoutMs ?? DEFAULT_TIMEOUT_MS
+  const label = request.label || 'llm'
+
+  for (let attempt = 0; ; attempt++) {
+    let error: LLMError
+    let retryAfter: string | null = null
+
+    // Only waiting for headers is timed, so the body can be read at its own pace
+    const controller = new AbortController()
+    const timer = setTimeout(() => controller.abort(), timeoutMs)
+
+    try {
+      const response = await fetch(providerRequest.url, {
+        method: 'POST',
+        headers: providerRequest.headers,
+        body: JSON.stringify(providerRequest.body),
+        signal: controller.signal,
+        // A redirect could lead a local request past the address checks
+        redirect: request.provider === 'local' ? 'error' : 'follow',
+      })
+      clearTimeout(timer)
+      if (response.ok) return { response, attempts: attempt + 1 }
+
+      const errorText = await response.text()
+      retryAfter = response.headers.get('retry-after')
+      // Whatever a local server replies stays in the logs; its URL came from the user
+      if (request.provider === 'local') console.error(`[${label}] local server replied:`, errorText.slice(0, 1000))
+      error = new LLMError(
+        request.provider === 'local'
+          ? `local API error: ${response.status}`
+          : `${request.provider} API error: ${response.status} - ${errorText}`,
+        request.provider,
+        response.status,
+        RETRYABLE_STATUSES.has(response.status)
+      )
+    } catch (fetchError) {
+      clearTimeout(timer)
+      const timedOut = controller.signal.aborted
+      const reason = fetchError instanceof Error ? fetchError.message : String(fetchError)
+      if (request.provider === 'local' && !timedOut) console.error(`[${label}] local server request failed:`, reason)
+      error = new LLMError(
+        timedOut
+          ? `${request.provider} API timed out after ${timeoutMs}ms`
+          : `${request.provider} API request failed${request.provider === 'local' ? '' : `: ${reason}`}`,
+        request.provider,
+        null,
+        !timedOut
+      )
+    }
+
+    if (!error.retryable || attempt >= maxRetries) {
+      console.error(`[${label}] ${error.message}`)
+      throw error
+    }
+    const delay = retryDelay(attempt, retryAfter)
+    console.warn(`[${label}] ${error.message} - retrying in ${Math.round(delay)}ms (${attempt + 1}/${maxRetries})`)
+    await sleep(delay)
+  }
+}
+
+/**
+ * Send a single-turn request to the configured provider
+ */
+export async function callLLM(request: LLMRequest): Promise<LLMResponse> {
+  const startTime = Date.now()
+  const label = request.label || 'llm'
+
+  if (isMockEnabled(request.provider)) {
+    return { ...mockResponse(request), attempts: 1, durationMs: Date.now() - startTime }
+  }
+
+  const provider = request.provider as Exclude<LLMProvider, 'mock'>
+  const adapter = getAdapter(request)
+  const model = request.model || DEFAULT_MODELS[provider]
+  const providerRequest = await buildProviderRequest(request, adapter, model, false)
+
+  console.log(`[${label}] Calling ${provider} (${model})`)
+  const { response, attempts } = await fetchWithRetry(request, providerRequest)
+  const result = adapter.parse(await response.json())
+
+  if (!result.text && result.toolCalls.length === 0) {
+    throw new LLMError(`Empty response from ${provider}`, provider)
+  }
+
+  const durationMs = Date.now() - startTime
+  console.log(`[${label}] ${provider} responded in ${durationMs}ms - ${result.usage.inputTokens} in / ${result.usage.outputTokens} out tokens`)
+  return { ...result, provider, model, attempts, durationMs }
+}
+
+/**
+ * Call the provider in JSON mode and parse the response
+ */
+export async function callLLMJson<T = unknown>(request: LLMRequest): Promise<{ data: T; response: LLMResponse }> {
+  const response = await callLLM({ ...request, json: true })
+  return { data: parseJsonResponse<T>(response.text), response }
+}
+
+/**
+ * Read the next chunk, giving up if the provider sends nothing for too long
+ */
+async function readWithIdleTimeout(
+  reader: ReadableStreamDefaultReader<Uint8Array>,
+  provider: string
+): Promise<ReadableStreamReadResult<Uint8Array>> {
+  let timer: ReturnType<typeof setTimeout> | undefined
+  const idle = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => {
+      reader.cancel().catch(() => {})
+      reject(new LLMError(`${provider} stream stalled for ${STREAM_IDLE_TIMEOUT_MS}ms`, provider))
+    }, STREAM_IDLE_TIMEOUT_MS)
+  })
+
+  try {
+    return await Promise.race([reader.read(), idle])
+  } finally {
+    clearTimeout(timer)
+  }
+}
+
+/**
+ * Stream text deltas from the provider. Only the initial request is retried;
+ * onComplete receives the token usage once the stream ends.
+ */
+export async function* streamLLM(
+  request: LLMRequest,
+  onComplete?: (usage: LLMUsage) => void
+): AsyncGenerator<string> {
+  if (isMockEnabled(request.provider)) {
+    const mock = mockResponse(request)
+    yield mock.text
+    onComplete?.(mock.usage)
+    return
+  }
+
+  const provider = request.provider as Exclude<LLMProvider, 'mock'>
+  const adapter = getAdapter(request)
+  const model = request.model || DEFAULT_MODELS[provider]
+  const providerRequest = await buildProviderRequest(request, adapter, model, true)
+
+  console.log(`[${request.label || 'llm'}] Streaming from ${provider} (${model})`)
+  const { response } = await fetchWithRetry(request, providerRequest)
+
+  const reader = response.body!.getReader()
+  const decoder = new TextDecoder()
+  const usage: Partial<LLMUsage> = {}
+  let buffer = ''
+
+  while (true) {
+    const { done, value } = await readWithIdleTimeout(reader, provider)
+    if (done) break
+
+    buffer += decoder.decode(value, { stream: true })
+    const lines = buffer.split('\n')
+    buffer = lines.pop() || ''
+
+    // SSE from hosted providers, newline-delimited JSON from Ollama
+    for (const line of lines) {
+      const data = line.startsWith('data:') ? line.slice(5).trim() : line.trim()
+      if (!data || data === '[DONE]') continue
+
+      let event: unknown
+      try {
+        event = JSON.parse(data)
+      } catch {
+        continue // Skip partial, keep-alive and SSE event lines
+      }
+      const parsed = adapter.parseStreamEvent(event)
+      if (parsed.usage) {
+        if (parsed.usage.inputTokens !== undefined) usage.inputTokens = parsed.usage.inputTokens
+        if (parsed.usage.outputTokens !== undefined) usage.outputTokens = parsed.usage.outputTokens
+      }
+      if (parsed.text) yield parsed.text
+    }
+  }
+
+  onComplete?.(toUsage(usage.inputTokens, usage.outputTokens))
+}
@@ -0,0 +1,134 @@
+/**
+ * LLM Usage Tracking
+ *
+ * Records provider, model, tokens, latency and estimated cost of every LLM
+ * call into llm_usage, and enforces the spend limits in usage_budgets.
+ * Recording never fails a generation; budget checks do, on purpose.
+ */
+
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import type { LLMUsage } from './llm.ts'
+
+export interface UsageContext {
+  supabase: SupabaseClient
+  userId: string
+  sessionId?: string | null
+  variantId?: string | null
+  /** Edge function name */
+  functionName: string
+}
+
+export interface UsageCall {
+  provider: string
+  model: string
+  usage: LLMUsage
+  durationMs: number
+}
+
+export class BudgetExceededError extends Error {
+  code = 'BUDGET_EXCEEDED'
+  limitUsd: number
+  spentUsd: number
+
+  constructor(message: string, limitUsd: number, spentUsd: number) {
+    super(message)
+    this.name = 'BudgetExceededError'
+    this.limitUsd = limitUsd
+    this.spentUsd = spentUsd
+  }
+}
+
+// USD per million tokens [input, output]. Matched by longest model prefix.
+const MODEL_PRICING: Record<string, [number, number]> = {
+  'claude-opus-4': [15, 75],
+  'claude-sonnet-4': [3, 15],
+  'claude-3-7-sonnet': [3, 15],
+  'claude-3-5-sonnet': [3, 15],
+  'claude-3-5-haiku': [0.8, 4],
+  'gpt-4.1-nano': [0.1, 0.4],
+  'gpt-4.1-mini': [0.4, 1.6],
+  'gpt-4.1': [2, 8],
+  'gpt-4o-mini': [0.15, 0.6],
+  'gpt-4o': [2.5, 10],
+  'o1-mini': [1.1, 4.4],
+  'o1': [15, 60],
+  'o3-mini': [1.1, 4.4],
+  'gemini-2.0-flash-lite': [0.075, 0.3],
+  'gemini-2.0-flash': [0.1, 0.4],
+  'gemini-1.5-pro': [1.25, 5],
+  'gemini-1.5-flash-8b': [0.0375, 0.15],
+  'gemini-1.5-flash': [0.075, 0.3],
+}
+
+// Unknown models are priced like the provider's default model
+const PROVIDER_FALLBACK_PRICING: Record<string, [number, number]> = {
+  anthropic: MODEL_PRICING['claude-sonnet-4'],
+  openai: MODEL_PRICING['gpt-4.1'],
+  google: MODEL_PRICING['gemini-2.0-flash'],
+}
+
+/**
+ * Estimated cost in USD; self-hosted and mock calls are free
+ */
+export function estimateCost(provider: string, model: string, usage: LLMUsage): number {
+  const prefix = Object.keys(MODEL_PRICING)
+    .filter((key) => model.startsWith(key))
+    .sort((a, b) => b.length - a.length)[0]
+  const pricing = prefix ? MODEL_PRICING[prefix] : PROVIDER_FALLBACK_PRICING[provider]
+  if (!pricing) return 0
+
+  const [inputPrice, outputPrice] = pricing
+  return (usage.inputTokens * inputPrice + usage.outputTokens * outputPrice) / 1_000_000
+}
+
+/**
+ * Throw BudgetExceededError if the account's monthly limit or the session's
+ * limit has been reached
+ */
+export async function assertWithinBudget(context: UsageContext): Promise<void> {
+  const { data, error } = await context.supabase.rpc('get_exceeded_budgets', {
+    p_user_id: context.userId,
+    p_session_id: context.sessionId ?? null,
+  })
+
+  if (error) {
+    // A broken check should not take generation down with it
+    console.error(`[${context.functionName}] Budget check failed:`, error)
+    return
+  }
+
+  const exceeded = (data || []) as Array<{ session_id: string | null; limit_usd: number; spent_usd: number }>
+  if (exceeded.length === 0) return
+
+  const budget = exceeded.find((b) => b.session_id) ?? exceeded[0]
+  const limitUsd = Number(budget.limit_usd)
+  const spentUsd = Number(budget.spent_usd)
+  const scope = budget.session_id ? 'this project' : 'this month'
+  throw new BudgetExceededError(
+    `Usage budget exceeded: $${spentUsd.toFixed(2)} of $${limitUsd.toFixed(2)} spent for ${scope}. Raise the limit in Settings → Billing.`,
+    limitUsd,
+    spentUsd
+  )
+}
+
+/**
+ * Store one LLM call in llm_usage
+ */
+export async function recordUsage(context: UsageContext, call: UsageCall): Promise<void> {
+  const { error } = await context.supabase.from('llm_usage').insert({
+    user_id: context.userId,
+    session_id: context.sessionId ?? null,
+    variant_id: context.variantId ?? null,
+    function_name: context.functionName,
+    provider: call.provider,
+    model: call.model,
+    input_tokens: call.usage.inputTokens,
+    output_tokens: call.usage.outputTokens,
+    latency_ms: Math.round(call.durationMs),
+    estimated_cost_usd: estimateCost(call.provider, call.model, call.usage),
+  })
+
+  if (error) {
+    console.error(`[${context.functionName}] Failed to record usage:`, error)
+  }
+}
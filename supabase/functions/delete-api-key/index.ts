@@ -8,7 +8,7 @@ const corsHeaders = {
 }
 
 interface DeleteKeyRequest {
-  provider: 'anthropic' | 'openai' | 'google'
+  provider: 'anthropic' | 'openai' | 'google' | 'local'
 }
 
 Deno.serve(async (req) => {
@@ -3,6 +3,8 @@
 // Deploy with: supabase functions deploy extract-components
 
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { callLLM, type LLMUsage } from '../_shared/llm.ts'
+import { assertWithinBudget, recordUsage, type UsageContext } from '../_shared/usage.ts'
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -13,7 +15,7 @@ interface ExtractRequest {
   screenId: string
   html: string
   screenshotBase64: string  // Base64 encoded screenshot
-  provider?: 'anthropic' | 'openai' | 'google'
+  provider?: 'anthropic' | 'openai' | 'google' | 'local'
   model?: string
 }
 
@@ -44,6 +46,7 @@ interface ExtractResponse {
   error?: string
   provider?: string
   model?: string
+  usage?: LLMUsage
   durationMs?: number
 }
 
@@ -158,148 +161,6 @@ function parseComponentsResponse(response: string): ExtractedComponentLLM[] {
   }
 }
 
-// Extract components using Anthropic Claude
-async function extractWithAnthropic(
-  apiKey: string,
-  model: string,
-  prompt: string,
-  screenshotBase64: string
-): Promise<ExtractedComponentLLM[]> {
-  console.log('[extract-components] Calling Anthropic API with vision')
-
-  const response = await fetch('https://api.anthropic.com/v1/messages', {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-      'x-api-key': apiKey,
-      'anthropic-version': '2023-06-01',
-    },
-    body: JSON.stringify({
-      model: model || 'claude-sonnet-4-20250514',
-      max_tokens: 8192,
-      system: SYSTEM_PROMPT,
-      messages: [{
-        role: 'user',
-        content: [
-          {
-            type: 'image',
-            source: {
-              type: 'base64',
-              media_type: 'image/jpeg',
-              data: screenshotBase64,
-            },
-          },
-          {
-            type: 'text',
-            text: prompt,
-          },
-        ],
-      }],
-    }),
-  })
-
-  if (!response.ok) {
-    const error = await response.json()
-    throw new Error(error.error?.message || 'Anthropic API error')
-  }
-
-  const data = await response.json()
-  const responseText = data.content[0]?.text || ''
-  return parseComponentsResponse(responseText)
-}
-
-// Extract components using OpenAI GPT-4 Vision
-async function extractWithOpenAI(
-  apiKey: string,
-  model: string,
-  prompt: string,
-  screenshotBase64: string
-): Promise<ExtractedComponentLLM[]> {
-  console.log('[extract-components] Calling OpenAI API with vision')
-
-  const response = await fetch('https://api.openai.com/v1/chat/completions', {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-      'Authorization': `Bearer ${apiKey}`,
-    },
-    body: JSON.stringify({
-      model: model || 'gpt-4o',
-      max_tokens: 8192,
-      messages: [
-        { role: 'system', content: SYSTEM_PROMPT },
-        {
-          role: 'user',
-          content: [
-            {
-              type: 'image_url',
-              image_url: {
-                url: `data:image/jpeg;base64,${screenshotBase64}`,
-              },
-            },
-            {
-              type: 'text',
-              text: prompt,
-            },
-          ],
-        },
-      ],
-    }),
-  })
-
-  if (!response.ok) {
-    const error = await response.json()
-    throw new Error(error.error?.message || 'OpenAI API error')
-  }
-
-  const data = await response.json()
-  const responseText = data.choices[0]?.message?.content || ''
-  return parseComponentsResponse(responseText)
-}
-
-// Extract components using Google Gemini
-async function extractWithGoogle(
-  apiKey: string,
-  model: string,
-  prompt: string,
-  screenshotBase64: string
-): Promise<ExtractedComponentLLM[]> {
-  console.log('[extract-components] Calling Google Gemini API with vision')
-
-  const response = await fetch(
-    `https://generativelanguage.googleapis.com/v1beta/models/${model || 'gemini-1.5-pro'}:generateContent?key=${apiKey}`,
-    {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({
-        contents: [{
-          parts: [
-            {
-              inline_data: {
-                mime_type: 'image/jpeg',
-                data: screenshotBase64,
-              },
-            },
-            {
-              text: SYSTEM_PROMPT + '\n\n' + prompt,
-            },
-          ],
-        }],
-        generationConfig: { maxOutputTokens: 8192 },
-      }),
-    }
-  )
-
-  if (!response.ok) {
-    const error = await response.json()
-    throw new Error(error.error?.message || 'Google AI API error')
-  }
-
-  const data = await response.json()
-  const responseText = data.candidates?.[0]?.content?.parts?.[0]?.text || ''
-  return parseComponentsResponse(responseText)
-}
-
 Deno.serve(async (req) => {
   console.log('[extract-components] Request received:', req.method)
 
@@ -379,22 +240,23 @@ Deno.serve(async (req) => {
     // Build the prompt
     const prompt = buildExtractionPrompt(body.html)
 
-    // Extract components based on provider
-    let components: ExtractedComponentLLM[]
-
-    switch (keyConfig.provider) {
-      case 'anthropic':
-        components = await extractWithAnthropic(apiKey, modelToUse, prompt, body.screenshotBase64)
-        break
-      case 'openai':
-        components = await extractWithOpenAI(apiKey, modelToUse, prompt, body.screenshotBase64)
-        break
-      case 'google':
-        components = await extractWithGoogle(apiKey, modelToUse, prompt, body.screenshotBase64)
-        break
-      default:
-        throw new Error(`Unsupported provider: ${keyConfig.provider}`)
-    }
+    const usageContext: UsageContext = { supabase, userId: user.id, functionName: 'extract-components' }
+    await assertWithinBudget(usageContext)
+
+    const llmResponse = await callLLM({
+      provider: keyConfig.provider,
+      apiKey,
+      baseUrl: keyConfig.base_url,
+      apiFlavor: keyConfig.api_flavor,
+      model: modelToUse,
+      system: SYSTEM_PROMPT,
+      prompt,
+      images: [{ data: body.screenshotBase64, mediaType: 'image/jpeg' }],
+      maxTokens: 8192,
+      label: 'extract-components',
+    })
+    await recordUsage(usageContext, llmResponse)
+    const components = parseComponentsResponse(llmResponse.text)
 
     const durationMs = Date.now() - startTime
     console.log('[extract-components] Extracted', components.length, 'components in', durationMs, 'ms')
@@ -403,7 +265,8 @@ Deno.serve(async (req) => {
       success: true,
       components,
       provider: keyConfig.provider,
-      model: modelToUse,
+      model: llmResponse.model,
+      usage: llmResponse.usage,
       durationMs,
     }
 
@@ -4,6 +4,8 @@
 // Deploy with: supabase functions deploy extract-ux-guidelines
 
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { callLLM, parseJsonResponse, type LLMImage } from '../_shared/llm.ts'
+import { assertWithinBudget, recordUsage, type UsageContext } from '../_shared/usage.ts'
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -16,7 +18,7 @@ interface ExtractGuidelinesRequest {
   videoBase64?: string           // Full video as base64 (for Gemini native video support)
   videoMimeType?: string         // MIME type of video (e.g., 'video/mp4')
   videoDescription?: string      // Optional description of the video
-  provider?: 'anthropic' | 'openai' | 'google'
+  provider?: 'anthropic' | 'openai' | 'google' | 'local'
   model?: string
 }
 
@@ -100,20 +102,7 @@ Look carefully at each frame and identify:
 Return your analysis as JSON following the schema in your instructions.`
 
 function parseGuidelines(response: string): ExtractGuidelinesResponse {
-  let cleaned = response.trim()
-
-  // Remove markdown code blocks if present
-  if (cleaned.startsWith('```json')) {
-    cleaned = cleaned.slice(7)
-  } else if (cleaned.startsWith('```')) {
-    cleaned = cleaned.slice(3)
-  }
-  if (cleaned.endsWith('```')) {
-    cleaned = cleaned.slice(0, -3)
-  }
-  cleaned = cleaned.trim()
-
-  const parsed = JSON.parse(cleaned)
+  const parsed = parseJsonResponse<{ summary?: string; guidelines?: UXGuideline[] }>(response)
 
   // Validate categories
   const validCategories = ['navigation', 'interaction', 'feedback', 'layout', 'content', 'accessibility', 'flow']
@@ -130,169 +119,6 @@ function parseGuidelines(response: string): ExtractGuidelinesResponse {
   }
 }
 
-// Generate with Anthropic Claude (Vision)
-async function generateWithAnthropic(apiKey: string, model: string, frames: string[], videoName: string): Promise<string> {
-  console.log('[extract-ux-guidelines] Calling Anthropic Vision API with', frames.length, 'frames')
-
-  // Build content array with images and text
-  const content: Array<{ type: string; text?: string; source?: { type: string; media_type: string; data: string } }> = []
-
-  // Add each frame as an image
-  for (let i = 0; i < frames.length; i++) {
-    content.push({
-      type: 'image',
-      source: {
-        type: 'base64',
-        media_type: 'image/jpeg',
-        data: frames[i],
-      },
-    })
-  }
-
-  // Add the analysis prompt
-  content.push({
-    type: 'text',
-    text: `Video: ${videoName}\n\n${TEXT_PROMPT}`,
-  })
-
-  const response = await fetch('https://api.anthropic.com/v1/messages', {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-      'x-api-key': apiKey,
-      'anthropic-version': '2023-06-01',
-    },
-    body: JSON.stringify({
-      model: model || 'claude-sonnet-4-20250514',
-      max_tokens: 4096,
-      system: SYSTEM_PROMPT,
-      messages: [{ role: 'user', content }],
-    }),
-  })
-
-  if (!response.ok) {
-    const error = await response.json()
-    throw new Error(error.error?.message || 'Anthropic API error')
-  }
-
-  const data = await response.json()
-  return data.content[0]?.text || ''
-}
-
-// Generate with OpenAI GPT-4V (Vision)
-async function generateWithOpenAI(apiKey: string, model: string, frames: string[], videoName: string): Promise<string> {
-  console.log('[extract-ux-guidelines] Calling OpenAI Vision API with', frames.length, 'frames')
-
-  // Build content array with images and text
-  const content: Array<{ type: string; text?: string; image_url?: { url: string } }> = []
-
-  // Add each frame as an image
-  for (let i = 0; i < frames.length; i++) {
-    content.push({
-      type: 'image_url',
-      image_url: {
-        url: `data:image/jpeg;base64,${frames[i]}`,
-      },
-    })
-  }
-
-  // Add the analysis prompt
-  content.push({
-    type: 'text',
-    text: `Video: ${videoName}\n\n${TEXT_PROMPT}`,
-  })
-
-  const response = await fetch('https://api.openai.com/v1/chat/completions', {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-      'Authorization': `Bearer ${apiKey}`,
-    },
-    body: JSON.stringify({
-      model: model || 'gpt-4o',
-      max_tokens: 4096,
-      response_format: { type: 'json_object' },
-      messages: [
-        { role: 'system', content: SYSTEM_PROMPT },
-        { role: 'user', content },
-      ],
-    }),
-  })
-
-  if (!response.ok) {
-    const error = await response.json()
-    throw new Error(error.error?.message || 'OpenAI API error')
-  }
-
-  const data = await response.json()
-  return data.choices[0]?.message?.content || ''
-}
-
-// Generate with Google Gemini (Vision) - supports native video or frames
-async function generateWithGoogle(
-  apiKey: string,
-  model: string,
-  videoName: string,
-  frames?: string[],
-  videoBase64?: string,
-  videoMimeType?: string
-): Promise<string> {
-  // Build parts array
-  const parts: Array<{ text?: string; inline_data?: { mime_type: string; data: string } }> = []
-
-  if (videoBase64 && videoMimeType) {
-    // Native video support - Gemini can analyze video directly!
-    console.log('[extract-ux-guidelines] Calling Gemini with NATIVE VIDEO support')
-    parts.push({
-      inline_data: {
-        mime_type: videoMimeType,
-        data: videoBase64,
-      },
-    })
-  } else if (frames && frames.length > 0) {
-    // Fallback to frames
-    console.log('[extract-ux-guidelines] Calling Gemini with', frames.length, 'frames')
-    for (let i = 0; i < frames.length; i++) {
-      parts.push({
-        inline_data: {
-          mime_type: 'image/jpeg',
-          data: frames[i],
-        },
-      })
-    }
-  } else {
-    throw new Error('No video or frames provided for Gemini')
-  }
-
-  // Add the analysis prompt
-  parts.push({
-    text: `${SYSTEM_PROMPT}\n\nVideo: ${videoName}\n\n${TEXT_PROMPT}`,
-  })
-
-  const response = await fetch(
-    `https://generativelanguage.googleapis.com/v1beta/models/${model || 'gemini-1.5-pro'}:generateContent?key=${apiKey}`,
-    {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({
-        contents: [{ parts }],
-        generationConfig: {
-          maxOutputTokens: 4096,
-          responseMimeType: 'application/json',
-        },
-      }),
-    }
-  )
-
-  if (!response.ok) {
-    const error = await response.json()
-    throw new Error(error.error?.message || 'Google AI API error')
-  }
-
-  const data = await response.json()
-  return data.candidates?.[0]?.content?.parts?.[0]?.text || ''
-}
-
 Deno.serve(async (req) => {
   console.log('[extract-ux-guidelines] Request received:', req.method)
 
@@ -394,43 +220,39 @@ Deno.serve(async (req) => {
     }
 
     const startTime = Date.now()
-    let rawResponse: string
+    let images: LLMImage[]
     let analysisMode: 'frames' | 'video' = 'frames'
 
-    switch (keyConfig.provider) {
-      case 'anthropic':
-        // Claude requires frames (no native video support)
-        if (!framesToUse) {
-          throw new Error('Anthropic/Claude requires frames. Please use Google Gemini for native video support.')
-        }
-        rawResponse = await generateWithAnthropic(apiKey, modelToUse, framesToUse, body.videoName)
-        break
-      case 'openai':
-        // OpenAI requires frames (no native video support)
-        if (!framesToUse) {
-          throw new Error('OpenAI/GPT-4V requires frames. Please use Google Gemini for native video support.')
-        }
-        rawResponse = await generateWithOpenAI(apiKey, modelToUse, framesToUse, body.videoName)
-        break
-      case 'google':
-        // Gemini supports native video OR frames
-        if (hasVideo) {
-          analysisMode = 'video'
-          rawResponse = await generateWithGoogle(
-            apiKey, modelToUse, body.videoName,
-            undefined, body.videoBase64, body.videoMimeType
-          )
-        } else {
-          rawResponse = await generateWithGoogle(
-            apiKey, modelToUse, body.videoName,
-            framesToUse, undefined, undefined
-          )
-        }
-        break
-      default:
-        throw new Error(`Unsupported provider: ${keyConfig.provider}`)
+    if (keyConfig.provider === 'google' && hasVideo) {
+      // Gemini supports native video
+      analysisMode = 'video'
+      images = [{ data: body.videoBase64!, mediaType: body.videoMimeType }]
+    } else if (framesToUse) {
+      images = framesToUse.map((frame) => ({ data: frame, mediaType: 'image/jpeg' }))
+    } else {
+      // Claude and OpenAI have no native video support
+      throw new Error(`${keyConfig.provider} requires frames. Please use Google Gemini for native video support.`)
     }
 
+    const usageContext: UsageContext = { supabase, userId: user.id, functionName: 'extract-ux-guidelines' }
+    await assertWithinBudget(usageContext)
+
+    const llmResponse = await callLLM({
+      provider: keyConfig.provider,
+      apiKey,
+      baseUrl: keyConfig.base_url,
+      apiFlavor: keyConfig.api_flavor,
+      model: modelToUse,
+      system: SYSTEM_PROMPT,
+      prompt: `Video: ${body.videoName}\n\n${TEXT_PROMPT}`,
+      images,
+      maxTokens: 4096,
+      json: true,
+      label: 'extract-ux-guidelines',
+    })
+    await recordUsage(usageContext, llmResponse)
+    const rawResponse = llmResponse.text
+
     const durationMs = Date.now() - startTime
     console.log('[extract-ux-guidelines] Response length:', rawResponse.length, 'Duration:', durationMs, 'ms', 'Mode:', analysisMode)
 
@@ -442,8 +264,9 @@ Deno.serve(async (req) => {
         success: true,
         summary: result.summary,
         guidelines: result.guidelines,
-        model: modelToUse,
+        model: llmResponse.model,
         provider: keyConfig.provider,
+        usage: llmResponse.usage,
         analysisMode,
         framesAnalyzed: analysisMode === 'frames' ? framesToUse?.length : undefined,
         durationMs,
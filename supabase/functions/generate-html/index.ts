@@ -2,6 +2,8 @@
 // Deploy with: supabase functions deploy generate-html
 
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { callLLM } from '../_shared/llm.ts'
+import { assertWithinBudget, recordUsage, type UsageContext } from '../_shared/usage.ts'
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -30,7 +32,7 @@ interface GenerateRequest {
   currentHtml: string
   context?: string
   instruction?: 'modify' | 'add' | 'remove' | 'style'
-  provider?: 'anthropic' | 'openai' | 'google'
+  provider?: 'anthropic' | 'openai' | 'google' | 'local'
   model?: string
 }
 
@@ -59,94 +61,6 @@ function buildUserMessage(request: GenerateRequest): string {
   return message
 }
 
-// Generate with Anthropic
-async function generateWithAnthropic(apiKey: string, model: string, request: GenerateRequest) {
-  console.log('[Edge] Calling Anthropic API with model:', model)
-
-  const response = await fetch('https://api.anthropic.com/v1/messages', {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-      'x-api-key': apiKey,
-      'anthropic-version': '2023-06-01',
-    },
-    body: JSON.stringify({
-      model: model || 'claude-sonnet-4-20250514',
-      max_tokens: 8192,
-      system: SYSTEM_PROMPT,
-      messages: [{ role: 'user', content: buildUserMessage(request) }],
-    }),
-  })
-
-  if (!response.ok) {
-    const error = await response.json()
-    console.log('[Edge] Anthropic error:', error)
-    throw new Error(error.error?.message || 'Anthropic API error')
-  }
-
-  const data = await response.json()
-  console.log('[Edge] Anthropic response received, content length:', data.content?.[0]?.text?.length)
-  return cleanHtmlResponse(data.content[0]?.text || '')
-}
-
-// Generate with OpenAI
-async function generateWithOpenAI(apiKey: string, model: string, request: GenerateRequest) {
-  console.log('[Edge] Calling OpenAI API with model:', model)
-
-  const response = await fetch('https://api.openai.com/v1/chat/completions', {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-      'Authorization': `Bearer ${apiKey}`,
-    },
-    body: JSON.stringify({
-      model: model || 'gpt-4o',
-      max_tokens: 8192,
-      messages: [
-        { role: 'system', content: SYSTEM_PROMPT },
-        { role: 'user', content: buildUserMessage(request) },
-      ],
-    }),
-  })
-
-  if (!response.ok) {
-    const error = await response.json()
-    console.log('[Edge] OpenAI error:', error)
-    throw new Error(error.error?.message || 'OpenAI API error')
-  }
-
-  const data = await response.json()
-  console.log('[Edge] OpenAI response received')
-  return cleanHtmlResponse(data.choices[0]?.message?.content || '')
-}
-
-// Generate with Google
-async function generateWithGoogle(apiKey: string, model: string, request: GenerateRequest) {
-  console.log('[Edge] Calling Google API with model:', model)
-
-  const response = await fetch(
-    `https://generativelanguage.googleapis.com/v1beta/models/${model || 'gemini-1.5-pro'}:generateContent?key=${apiKey}`,
-    {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({
-        contents: [{ parts: [{ text: SYSTEM_PROMPT + '\n\n' + buildUserMessage(request) }] }],
-        generationConfig: { maxOutputTokens: 8192 },
-      }),
-    }
-  )
-
-  if (!response.ok) {
-    const error = await response.json()
-    console.log('[Edge] Google error:', error)
-    throw new Error(error.error?.message || 'Google AI API error')
-  }
-
-  const data = await response.json()
-  console.log('[Edge] Google response received')
-  return cleanHtmlResponse(data.candidates?.[0]?.content?.parts?.[0]?.text || '')
-}
-
 Deno.serve(async (req) => {
   console.log('[Edge] ======== REQUEST RECEIVED ========')
   console.log('[Edge] Method:', req.method)
@@ -253,28 +167,28 @@ Deno.serve(async (req) => {
     }
     console.log('[Edge] API key decrypted successfully, length:', apiKey.length)
 
-    // Generate HTML based on provider
-    let generatedHtml: string
-
-    switch (keyConfig.provider) {
-      case 'anthropic':
-        generatedHtml = await generateWithAnthropic(apiKey, modelToUse, body)
-        break
-      case 'openai':
-        generatedHtml = await generateWithOpenAI(apiKey, modelToUse, body)
-        break
-      case 'google':
-        generatedHtml = await generateWithGoogle(apiKey, modelToUse, body)
-        break
-      default:
-        throw new Error(`Unsupported provider: ${keyConfig.provider}`)
-    }
+    const usageContext: UsageContext = { supabase: supabaseService, userId: user.id, functionName: 'generate-html' }
+    await assertWithinBudget(usageContext)
+
+    const llmResponse = await callLLM({
+      provider: keyConfig.provider,
+      apiKey,
+      baseUrl: keyConfig.base_url,
+      apiFlavor: keyConfig.api_flavor,
+      model: modelToUse,
+      system: SYSTEM_PROMPT,
+      prompt: buildUserMessage(body),
+      maxTokens: 8192,
+      label: 'Edge',
+    })
+    await recordUsage(usageContext, llmResponse)
+    const generatedHtml = cleanHtmlResponse(llmResponse.text)
 
     console.log('[Edge] Generation complete, HTML length:', generatedHtml.length)
     console.log('[Edge] ========================================')
 
     return new Response(
-      JSON.stringify({ success: true, html: generatedHtml }),
+      JSON.stringify({ success: true, html: generatedHtml, usage: llmResponse.usage }),
       { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
     )
 
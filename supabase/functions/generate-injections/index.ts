@@ -6,6 +6,8 @@
  */
 
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2.39.3";
+import { callLLMJson, DEFAULT_MODELS, type LLMProvider } from "../_shared/llm.ts";
+import { assertWithinBudget, recordUsage, type UsageContext } from "../_shared/usage.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -122,82 +124,6 @@ IMPORTANT:
 - For buttons that aren't form submits, add click-feedback with ripple effect`;
 }
 
-// ============================================================================
-// LLM Calls
-// ============================================================================
-
-async function callAnthropic(
-  apiKey: string,
-  model: string,
-  prompt: string
-): Promise<{ injections: InjectionConfig[]; summary: string }> {
-  console.log('[callAnthropic] Starting API call...');
-
-  const response = await fetch('https://api.anthropic.com/v1/messages', {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-      'x-api-key': apiKey,
-      'anthropic-version': '2023-06-01',
-    },
-    body: JSON.stringify({
-      model,
-      max_tokens: 4000,
-      messages: [{ role: 'user', content: prompt }],
-    }),
-  });
-
-  if (!response.ok) {
-    const errorText = await response.text();
-    console.error('[callAnthropic] API error:', response.status, errorText);
-    throw new Error(`Anthropic API error: ${response.status} - ${errorText}`);
-  }
-
-  const data = await response.json();
-  const content = data.content?.[0]?.text || '';
-
-  // Parse JSON from response
-  const jsonMatch = content.match(/\{[\s\S]*\}/);
-  if (!jsonMatch) {
-    throw new Error('No valid JSON found in response');
-  }
-
-  return JSON.parse(jsonMatch[0]);
-}
-
-async function callOpenAI(
-  apiKey: string,
-  model: string,
-  prompt: string
-): Promise<{ injections: InjectionConfig[]; summary: string }> {
-  console.log('[callOpenAI] Starting API call...');
-
-  const response = await fetch('https://api.openai.com/v1/chat/completions', {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-      'Authorization': `Bearer ${apiKey}`,
-    },
-    body: JSON.stringify({
-      model,
-      messages: [{ role: 'user', content: prompt }],
-      max_tokens: 4000,
-      response_format: { type: 'json_object' },
-    }),
-  });
-
-  if (!response.ok) {
-    const errorText = await response.text();
-    console.error('[callOpenAI] API error:', response.status, errorText);
-    throw new Error(`OpenAI API error: ${response.status} - ${errorText}`);
-  }
-
-  const data = await response.json();
-  const content = data.choices?.[0]?.message?.content || '';
-
-  return JSON.parse(content);
-}
-
 // ============================================================================
 // Main Handler
 // ============================================================================
@@ -247,10 +173,10 @@ Deno.serve(async (req: Request) => {
 
     // Determine provider
     const selectedProvider = provider || 'anthropic';
-    const selectedModel = model || (selectedProvider === 'anthropic' ? 'claude-sonnet-4-20250514' : 'gpt-4o');
+    const selectedModel = model || DEFAULT_MODELS[selectedProvider as LLMProvider];
 
     // Get API key from vault
-    const providerName = selectedProvider === 'anthropic' ? 'anthropic' : 'openai';
+    const providerName = selectedProvider;
 
     const { data: keyRef, error: keyRefError } = await supabase
       .from('user_api_key_refs')
@@ -281,18 +207,23 @@ Deno.serve(async (req: Request) => {
     // Build prompt and call LLM
     const prompt = buildPrompt(injectionPoints, userIntent);
 
-    let result: { injections: InjectionConfig[]; summary: string };
+    const usageContext: UsageContext = { supabase, userId: user.id, functionName: 'generate-injections' };
+    await assertWithinBudget(usageContext);
 
-    if (selectedProvider === 'anthropic') {
-      result = await callAnthropic(apiKey, selectedModel, prompt);
-    } else {
-      result = await callOpenAI(apiKey, selectedModel, prompt);
-    }
+    const { data: result, response } = await callLLMJson<{ injections: InjectionConfig[]; summary: string }>({
+      provider: selectedProvider,
+      apiKey,
+      model: selectedModel,
+      prompt,
+      maxTokens: 4000,
+      label: 'generate-injections',
+    });
+    await recordUsage(usageContext, response);
 
     console.log('[generate-injections] Generated', result.injections.length, 'injections');
 
     return new Response(
-      JSON.stringify(result),
+      JSON.stringify({ ...result, usage: response.usage }),
       { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
     );
 
@@ -4,6 +4,8 @@
 // Deploy with: supabase functions deploy generate-variant-code-streaming
 
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { DEFAULT_MODELS, EMPTY_USAGE, LONG_GENERATION_TIMEOUT_MS, streamLLM, type LLMProvider } from '../_shared/llm.ts'
+import { assertWithinBudget, BudgetExceededError, recordUsage, type UsageContext } from '../_shared/usage.ts'
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -47,7 +49,7 @@ interface GenerateCodeRequest {
   designTokens?: DesignTokens  // Extracted design system tokens
   productContext?: string   // Summary of product context
   uxGuidelines?: string     // UX guidelines extracted from product videos
-  provider?: 'anthropic' | 'openai' | 'google'
+  provider?: 'anthropic' | 'openai' | 'google' | 'local'
   model?: string
   // Legacy - kept for backwards compatibility but not used in prompt
   sourceHtml?: string
@@ -178,7 +180,7 @@ function buildVisionPrompt(request: GenerateCodeRequest): string {
 
   // Product context helps with appropriate content/tone
   if (request.productContext) {
-    prompt += `## PRODUCT CONTEXT:\n${request.productContext.slice(0, 2000)}\n\n`
+    prompt += `## PRODUCT CONTEXT:\n${request.productContext}\n\n`
   }
 
   // UX Guidelines define how this product's UI should behave
@@ -237,241 +239,6 @@ async function getApiKeyFromVault(
   return data
 }
 
-// Stream with Anthropic (VISION REQUIRED)
-async function* streamWithAnthropic(
-  apiKey: string,
-  model: string,
-  prompt: string,
-  screenshotBase64: string
-): AsyncGenerator<string> {
-  console.log('[streaming] Calling Anthropic with VISION-FIRST approach')
-
-  // Vision is now required - image + text prompt
-  const content = [
-    {
-      type: 'image',
-      source: {
-        type: 'base64',
-        media_type: 'image/jpeg',
-        data: screenshotBase64,
-      },
-    },
-    {
-      type: 'text',
-      text: 'This screenshot shows the current application. Use it as your visual reference.\n\n' + prompt,
-    },
-  ]
-
-  const response = await fetch('https://api.anthropic.com/v1/messages', {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-      'x-api-key': apiKey,
-      'anthropic-version': '2023-06-01',
-    },
-    body: JSON.stringify({
-      model: model || 'claude-sonnet-4-20250514',
-      max_tokens: 16384,
-      stream: true,
-      system: SYSTEM_PROMPT,
-      messages: [{ role: 'user', content }],
-    }),
-  })
-
-  if (!response.ok) {
-    const error = await response.json()
-    console.error('[streaming] Anthropic API error:', response.status, error)
-    throw new Error(error.error?.message || `Anthropic API error: ${response.status}`)
-  }
-
-  console.log('[streaming] Anthropic response OK, streaming...')
-  const reader = response.body!.getReader()
-  const decoder = new TextDecoder()
-  let buffer = ''
-
-  while (true) {
-    const { done, value } = await reader.read()
-    if (done) break
-
-    buffer += decoder.decode(value, { stream: true })
-    const lines = buffer.split('\n')
-    buffer = lines.pop() || ''
-
-    for (const line of lines) {
-      if (line.startsWith('data: ')) {
-        const data = line.slice(6)
-        if (data === '[DONE]') continue
-
-        try {
-          const parsed = JSON.parse(data)
-          if (parsed.type === 'content_block_delta' && parsed.delta?.text) {
-            yield parsed.delta.text
-          }
-        } catch {
-          // Skip invalid JSON
-        }
-      }
-    }
-  }
-}
-
-// Stream with OpenAI (VISION REQUIRED)
-async function* streamWithOpenAI(
-  apiKey: string,
-  model: string,
-  prompt: string,
-  screenshotBase64: string
-): AsyncGenerator<string> {
-  console.log('[streaming] Calling OpenAI with VISION-FIRST approach')
-
-  const response = await fetch('https://api.openai.com/v1/chat/completions', {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-      'Authorization': `Bearer ${apiKey}`,
-    },
-    body: JSON.stringify({
-      model: model || 'gpt-4o',
-      max_tokens: 16384,
-      stream: true,
-      messages: [
-        { role: 'system', content: SYSTEM_PROMPT },
-        {
-          role: 'user',
-          content: [
-            {
-              type: 'image_url',
-              image_url: {
-                url: `data:image/jpeg;base64,${screenshotBase64}`,
-              },
-            },
-            {
-              type: 'text',
-              text: 'This screenshot shows the current application. Use it as your visual reference.\n\n' + prompt,
-            },
-          ],
-        },
-      ],
-    }),
-  })
-
-  if (!response.ok) {
-    const error = await response.json()
-    console.error('[streaming] OpenAI API error:', response.status, error)
-    throw new Error(error.error?.message || `OpenAI API error: ${response.status}`)
-  }
-
-  console.log('[streaming] OpenAI response OK, streaming...')
-  const reader = response.body!.getReader()
-  const decoder = new TextDecoder()
-  let buffer = ''
-
-  while (true) {
-    const { done, value } = await reader.read()
-    if (done) break
-
-    buffer += decoder.decode(value, { stream: true })
-    const lines = buffer.split('\n')
-    buffer = lines.pop() || ''
-
-    for (const line of lines) {
-      if (line.startsWith('data: ')) {
-        const data = line.slice(6)
-        if (data === '[DONE]') continue
-
-        try {
-          const parsed = JSON.parse(data)
-          const content = parsed.choices?.[0]?.delta?.content
-          if (content) yield content
-        } catch {
-          // Skip invalid JSON
-        }
-      }
-    }
-  }
-}
-
-// Stream with Google (VISION REQUIRED)
-async function* streamWithGoogle(
-  apiKey: string,
-  model: string,
-  prompt: string,
-  screenshotBase64: string
-): AsyncGenerator<string> {
-  console.log('[streaming] Calling Google with VISION-FIRST approach')
-
-  const googleModel = model || 'gemini-2.0-flash'
-  const response = await fetch(
-    `https://generativelanguage.googleapis.com/v1beta/models/${googleModel}:streamGenerateContent?key=${apiKey}`,
-    {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({
-        contents: [
-          {
-            parts: [
-              {
-                inline_data: {
-                  mime_type: 'image/jpeg',
-                  data: screenshotBase64,
-                },
-              },
-              {
-                text: SYSTEM_PROMPT + '\n\nThis screenshot shows the current application. Use it as your visual reference.\n\n' + prompt,
-              },
-            ],
-          },
-        ],
-        generationConfig: {
-          maxOutputTokens: 16384,
-          temperature: 0.7,
-        },
-      }),
-    }
-  )
-
-  if (!response.ok) {
-    const error = await response.json()
-    console.error('[streaming] Google API error:', response.status, error)
-    throw new Error(error.error?.message || `Google AI API error: ${response.status}`)
-  }
-
-  console.log('[streaming] Google response OK, streaming...')
-  const reader = response.body!.getReader()
-  const decoder = new TextDecoder()
-  let buffer = ''
-
-  while (true) {
-    const { done, value } = await reader.read()
-    if (done) break
-
-    buffer += decoder.decode(value, { stream: true })
-
-    // Google returns JSON array chunks
-    try {
-      // Try to parse complete JSON objects from buffer
-      const jsonMatch = buffer.match(/\{[\s\S]*?"text"\s*:\s*"[^"]*"[\s\S]*?\}/g)
-      if (jsonMatch) {
-        for (const jsonStr of jsonMatch) {
-          try {
-            const parsed = JSON.parse(jsonStr)
-            const text = parsed.candidates?.[0]?.content?.parts?.[0]?.text || parsed.text
-            if (text) yield text
-          } catch {
-            // Continue trying
-          }
-        }
-        // Keep unprocessed part
-        const lastMatch = jsonMatch[jsonMatch.length - 1]
-        const lastIndex = buffer.lastIndexOf(lastMatch) + lastMatch.length
-        buffer = buffer.slice(lastIndex)
-      }
-    } catch {
-      // Keep buffering
-    }
-  }
-}
-
 Deno.serve(async (req) => {
   // Handle CORS preflight
   if (req.method === 'OPTIONS') {
@@ -552,6 +319,7 @@ Deno.serve(async (req) => {
 
     // Determine provider and get API key from Vault
     const provider = request.provider || 'anthropic'
+    const model = request.model || DEFAULT_MODELS[provider as LLMProvider]
     const apiKey = await getApiKeyFromVault(supabase, userId, provider)
 
     if (!apiKey) {
@@ -566,6 +334,30 @@ Deno.serve(async (req) => {
       )
     }
 
+    // Local models also need the address of the server they run on
+    const { data: keyConfig } = await supabase
+      .from('user_api_key_refs')
+      .select('base_url, api_flavor')
+      .eq('user_id', userId)
+      .eq('provider', provider)
+      .maybeSingle()
+
+    const usageContext: UsageContext = {
+      supabase,
+      userId,
+      sessionId: request.sessionId,
+      functionName: 'generate-variant-code-streaming',
+    }
+    try {
+      await assertWithinBudget(usageContext)
+    } catch (error) {
+      if (!(error instanceof BudgetExceededError)) throw error
+      return new Response(
+        JSON.stringify({ error: error.message, errorCode: error.code }),
+        { status: 402, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
     // Build the vision-first prompt (no source HTML)
     const prompt = buildVisionPrompt(request)
     console.log('[streaming] Built vision prompt, length:', prompt.length)
@@ -576,19 +368,31 @@ Deno.serve(async (req) => {
       async start(controller) {
         try {
           let fullHtml = ''
-          let generator: AsyncGenerator<string>
-
-          // Select provider
-          switch (provider) {
-            case 'openai':
-              generator = streamWithOpenAI(apiKey!, request.model || 'gpt-4o', prompt, request.screenshotBase64)
-              break
-            case 'google':
-              generator = streamWithGoogle(apiKey!, request.model || 'gemini-2.0-flash', prompt, request.screenshotBase64)
-              break
-            default:
-              generator = streamWithAnthropic(apiKey!, request.model || 'claude-sonnet-4-20250514', prompt, request.screenshotBase64)
-          }
+          let usage = EMPTY_USAGE
+          const streamStart = Date.now()
+
+          // Get the variant record
+          const { data: variant } = await supabase
+            .from('vibe_variants')
+            .select('id')
+            .eq('session_id', request.sessionId)
+            .eq('variant_index', request.variantIndex)
+            .single()
+
+          // Vision is required - the screenshot goes before the prompt
+          const generator = streamLLM({
+            provider,
+            apiKey: apiKey!,
+            baseUrl: keyConfig?.base_url,
+            apiFlavor: keyConfig?.api_flavor,
+            model,
+            system: SYSTEM_PROMPT,
+            prompt: 'This screenshot shows the current application. Use it as your visual reference.\n\n' + prompt,
+            images: [{ data: request.screenshotBase64, mediaType: 'image/jpeg' }],
+            maxTokens: 16384,
+            timeoutMs: LONG_GENERATION_TIMEOUT_MS,
+            label: 'streaming',
+          }, (streamUsage) => { usage = streamUsage })
 
           // Stream chunks
           for await (const chunk of generator) {
@@ -596,6 +400,12 @@ Deno.serve(async (req) => {
             controller.enqueue(sse.encodeObject('chunk', { chunk, fullHtml }))
           }
 
+          // Tokens are spent even if saving fails below
+          await recordUsage(
+            { ...usageContext, variantId: variant?.id },
+            { provider, model, usage, durationMs: Date.now() - streamStart }
+          )
+
           // Save to storage and database
           console.log('[streaming] Saving HTML to storage, length:', fullHtml.length)
 
@@ -621,14 +431,6 @@ Deno.serve(async (req) => {
 
           console.log('[streaming] HTML uploaded, URL:', htmlUrl)
 
-          // Get the variant record
-          const { data: variant } = await supabase
-            .from('vibe_variants')
-            .select('id')
-            .eq('session_id', request.sessionId)
-            .eq('variant_index', request.variantIndex)
-            .single()
-
           if (variant) {
             // Update existing variant
             const { error: updateError } = await supabase
@@ -637,7 +439,7 @@ Deno.serve(async (req) => {
                 html_path: htmlPath,
                 html_url: htmlUrl,
                 status: 'complete',
-                generation_model: request.model || 'claude-sonnet-4-20250514',
+                generation_model: model,
                 updated_at: new Date().toISOString(),
               })
               .eq('id', variant.id)
@@ -655,7 +457,7 @@ Deno.serve(async (req) => {
               html_path: htmlPath,
               html_url: htmlUrl,
               status: 'complete',
-              generation_model: request.model || 'claude-sonnet-4-20250514',
+              generation_model: model,
             })
 
             if (insertError) {
@@ -670,6 +472,7 @@ Deno.serve(async (req) => {
           controller.enqueue(sse.encodeObject('complete', {
             variantIndex: request.variantIndex,
             htmlLength: fullHtml.length,
+            usage,
           }))
           controller.close()
         } catch (error) {
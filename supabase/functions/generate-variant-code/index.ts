@@ -3,6 +3,8 @@
 // Deploy with: supabase functions deploy generate-variant-code
 
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { callLLM, LONG_GENERATION_TIMEOUT_MS } from '../_shared/llm.ts'
+import { assertWithinBudget, recordUsage, type UsageContext } from '../_shared/usage.ts'
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -22,7 +24,7 @@ interface GenerateCodeRequest {
   sourceHtml: string
   uiMetadata?: Record<string, unknown>
   productContext?: string
-  provider?: 'anthropic' | 'openai' | 'google'
+  provider?: 'anthropic' | 'openai' | 'google' | 'local'
   model?: string
 }
 
@@ -85,7 +87,7 @@ function buildCodePrompt(request: GenerateCodeRequest): string {
   }
 
   if (request.productContext) {
-    prompt += `Context about this product:\n${request.productContext.slice(0, 1500)}\n\n`
+    prompt += `Context about this product:\n${request.productContext}\n\n`
   }
 
   if (request.uiMetadata) {
@@ -118,88 +120,6 @@ function cleanHtmlResponse(html: string): string {
   return cleaned.trim()
 }
 
-// Generate with Anthropic
-async function generateWithAnthropic(apiKey: string, model: string, prompt: string): Promise<string> {
-  console.log('[generate-variant-code] Calling Anthropic API')
-
-  const response = await fetch('https://api.anthropic.com/v1/messages', {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-      'x-api-key': apiKey,
-      'anthropic-version': '2023-06-01',
-    },
-    body: JSON.stringify({
-      model: model || 'claude-sonnet-4-20250514',
-      max_tokens: 16384,
-      system: SYSTEM_PROMPT,
-      messages: [{ role: 'user', content: prompt }],
-    }),
-  })
-
-  if (!response.ok) {
-    const error = await response.json()
-    throw new Error(error.error?.message || 'Anthropic API error')
-  }
-
-  const data = await response.json()
-  return cleanHtmlResponse(data.content[0]?.text || '')
-}
-
-// Generate with OpenAI
-async function generateWithOpenAI(apiKey: string, model: string, prompt: string): Promise<string> {
-  console.log('[generate-variant-code] Calling OpenAI API')
-
-  const response = await fetch('https://api.openai.com/v1/chat/completions', {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-      'Authorization': `Bearer ${apiKey}`,
-    },
-    body: JSON.stringify({
-      model: model || 'gpt-4o',
-      max_tokens: 16384,
-      messages: [
-        { role: 'system', content: SYSTEM_PROMPT },
-        { role: 'user', content: prompt },
-      ],
-    }),
-  })
-
-  if (!response.ok) {
-    const error = await response.json()
-    throw new Error(error.error?.message || 'OpenAI API error')
-  }
-
-  const data = await response.json()
-  return cleanHtmlResponse(data.choices[0]?.message?.content || '')
-}
-
-// Generate with Google
-async function generateWithGoogle(apiKey: string, model: string, prompt: string): Promise<string> {
-  console.log('[generate-variant-code] Calling Google API')
-
-  const response = await fetch(
-    `https://generativelanguage.googleapis.com/v1beta/models/${model || 'gemini-1.5-pro'}:generateContent?key=${apiKey}`,
-    {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({
-        contents: [{ parts: [{ text: SYSTEM_PROMPT + '\n\n' + prompt }] }],
-        generationConfig: { maxOutputTokens: 16384 },
-      }),
-    }
-  )
-
-  if (!response.ok) {
-    const error = await response.json()
-    throw new Error(error.error?.message || 'Google AI API error')
-  }
-
-  const data = await response.json()
-  return cleanHtmlResponse(data.candidates?.[0]?.content?.parts?.[0]?.text || '')
-}
-
 // Upload files to storage
 async function uploadVariantFiles(
   supabase: ReturnType<typeof createClient>,
@@ -329,22 +249,23 @@ Deno.serve(async (req) => {
     // Build prompt
     const prompt = buildCodePrompt(body)
 
-    // Generate code based on provider
-    let generatedHtml: string
-
-    switch (keyConfig.provider) {
-      case 'anthropic':
-        generatedHtml = await generateWithAnthropic(apiKey, modelToUse, prompt)
-        break
-      case 'openai':
-        generatedHtml = await generateWithOpenAI(apiKey, modelToUse, prompt)
-        break
-      case 'google':
-        generatedHtml = await generateWithGoogle(apiKey, modelToUse, prompt)
-        break
-      default:
-        throw new Error(`Unsupported provider: ${keyConfig.provider}`)
-    }
+    const usageContext: UsageContext = { supabase, userId: user.id, sessionId: body.sessionId, functionName: 'generate-variant-code' }
+    await assertWithinBudget(usageContext)
+
+    const llmResponse = await callLLM({
+      provider: keyConfig.provider,
+      apiKey,
+      baseUrl: keyConfig.base_url,
+      apiFlavor: keyConfig.api_flavor,
+      model: modelToUse,
+      system: SYSTEM_PROMPT,
+      prompt,
+      maxTokens: 16384,
+      timeoutMs: LONG_GENERATION_TIMEOUT_MS,
+      label: 'generate-variant-code',
+    })
+    await recordUsage(usageContext, llmResponse)
+    const generatedHtml = cleanHtmlResponse(llmResponse.text)
 
     console.log('[generate-variant-code] Generated HTML length:', generatedHtml.length)
 
@@ -374,7 +295,7 @@ Deno.serve(async (req) => {
         variant_index: body.variantIndex,
         html_path: htmlPath,
         html_url: htmlUrl,
-        generation_model: modelToUse,
+        generation_model: llmResponse.model,
         generation_duration_ms: duration,
         status: 'complete',
       }, {
@@ -418,8 +339,9 @@ Deno.serve(async (req) => {
         htmlPath,
         generatedHtmlLength: generatedHtml.length,
         durationMs: duration,
-        model: modelToUse,
+        model: llmResponse.model,
         provider: keyConfig.provider,
+        usage: llmResponse.usage,
       }),
       { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
     )
@@ -10,6 +10,8 @@
 
 // Use npm imports for better compatibility
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2.39.3";
+import { addUsage, callLLMJson, DEFAULT_MODELS, EMPTY_USAGE, type LLMProvider } from "../_shared/llm.ts";
+import { assertWithinBudget, BudgetExceededError, recordUsage, type UsageContext } from "../_shared/usage.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -52,11 +54,19 @@ interface VariantEdits {
   summary: string;
 }
 
+/** A section the client collapsed to fit the page into the model's budget */
+interface CollapsedSection {
+  selector: string;
+  preview: string;
+}
+
 interface RequestBody {
   sessionId: string;
   plans: VariantPlan[];
   elementSummary: string;
+  collapsedSections?: CollapsedSection[];
   screenshotBase64?: string;
+  productContext?: string;
   provider?: string;
   model?: string;
 }
@@ -67,7 +77,13 @@ interface RequestBody {
 // Prompt Building
 // ============================================================================
 
-function buildEditOperationsPrompt(plan: VariantPlan, elementSummary: string, hasScreenshot: boolean): string {
+function buildEditOperationsPrompt(
+  plan: VariantPlan,
+  elementSummary: string,
+  hasScreenshot: boolean,
+  productContext?: string,
+  collapsedSections: CollapsedSection[] = []
+): string {
   // Safely handle potentially undefined fields
   const keyChanges = Array.isArray(plan?.keyChanges) ? plan.keyChanges : [];
   const keyChangesText = keyChanges.length > 0
@@ -82,6 +98,13 @@ function buildEditOperationsPrompt(plan: VariantPlan, elementSummary: string, ha
     ? `\n## Visual Reference\nYou have been provided a screenshot of the current page. Use this to understand the visual layout, styling, and element positions. Match your edit operations to what you see in the screenshot.\n`
     : '';
 
+  // Retrieved chunks are numbered; the summary can cite them
+  const contextSection = productContext ? `\n## Product Context\n${productContext}\n` : '';
+
+  const collapsedSection = collapsedSections.length > 0
+    ? `\n## Collapsed Sections\nThe page was too large to show in full. These elements are marked data-vx-chunk and their content was left out. You may target a collapsed element itself (e.g. to restyle, move or remove it), but do not target or guess selectors for elements inside it:\n${collapsedSections.map((s) => `- ${s.selector}${s.preview ? ` - "${s.preview}"` : ''}`).join('\n')}\n`
+    : '';
+
   return `You are a UI/UX expert specializing in precise DOM manipulation. Your task is to generate EXACT edit operations to modify an existing web page.
 
 CRITICAL: You are NOT regenerating the HTML. You are creating surgical edits that will be applied to the ORIGINAL HTML. The goal is to maintain UI consistency with the original design while implementing the variant changes.
@@ -94,16 +117,16 @@ ${visionContext}
 ${keyChangesText}
 
 **Style Notes:** ${styleNotes}
-
+${contextSection}
 ## Element Summary (DOM Structure)
 This shows the current page structure with CSS selectors. Use ONLY selectors that appear in this summary:
 \`\`\`
 ${elementSummary}
 \`\`\`
-
+${collapsedSection}
 ## Available Edit Operations
 
-Generate a JSON array of operations. Each operation MUST use a selector from the element summary above.
+Generate a JSON array of operations. Each operation MUST use a selector from the element summary (or the collapsed sections) above.
 
 **Operation Types:**
 
@@ -139,7 +162,7 @@ Generate a JSON array of operations. Each operation MUST use a selector from the
 1. **ONLY use selectors from the element summary** - Do not invent selectors. Every selector MUST appear in the element summary above.
 2. **Preserve the design system** - Use existing colors, fonts, and spacing from the original. Only change what the variant requires.
 3. **Minimal changes** - Make the fewest operations necessary. Do NOT restyle elements that don't need changing.
-4. **Be specific** - Prefer ID selectors (#id) over class selectors, prefer unique selectors over generic ones.
+4. **Be specific** - Stable element selectors (\`[data-vx-id="vx-12"]\`) are the most reliable; otherwise prefer ID selectors (#id) over class selectors, and unique selectors over generic ones. Do not add data-vx-id attributes to new HTML.
 5. **Escape properly** - In JSON, escape quotes in HTML strings with backslash.
 6. **Include descriptions** - Every operation MUST have a "description" field.
 7. **Logical order** - Structure changes first, then content, then styling.
@@ -198,240 +221,6 @@ Return ONLY a valid JSON object (no markdown, no explanation):
 }`;
 }
 
-// ============================================================================
-// LLM API Calls
-// ============================================================================
-
-async function callAnthropic(
-  apiKey: string,
-  model: string,
-  prompt: string,
-  screenshotBase64?: string
-): Promise<{ operations: EditOperation[]; summary: string }> {
-  console.log('[callAnthropic] Starting API call...');
-
-  const messages: Array<{ role: string; content: unknown }> = [];
-
-  if (screenshotBase64) {
-    // Extract media type from data URL if present
-    let mediaType = 'image/png'; // default
-    let imageData = screenshotBase64;
-
-    const dataUrlMatch = screenshotBase64.match(/^data:(image\/\w+);base64,/);
-    if (dataUrlMatch) {
-      mediaType = dataUrlMatch[1]; // e.g., 'image/jpeg' or 'image/png'
-      imageData = screenshotBase64.replace(/^data:image\/\w+;base64,/, '');
-    }
-
-    console.log('[callAnthropic] Image media type:', mediaType, 'data length:', imageData.length);
-
-    messages.push({
-      role: 'user',
-      content: [
-        {
-          type: 'image',
-          source: {
-            type: 'base64',
-            media_type: mediaType,
-            data: imageData,
-          },
-        },
-        {
-          type: 'text',
-          text: prompt,
-        },
-      ],
-    });
-  } else {
-    messages.push({ role: 'user', content: prompt });
-  }
-
-  const response = await fetch('https://api.anthropic.com/v1/messages', {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-      'x-api-key': apiKey,
-      'anthropic-version': '2023-06-01',
-    },
-    body: JSON.stringify({
-      model,
-      max_tokens: 4000,
-      messages,
-    }),
-  });
-
-  if (!response.ok) {
-    const errorText = await response.text();
-    console.error('[callAnthropic] API error:', response.status, errorText);
-    throw new Error(`Anthropic API error: ${response.status} - ${errorText}`);
-  }
-
-  const data = await response.json();
-  console.log('[callAnthropic] Response received');
-
-  const content = data.content?.[0]?.text || '';
-  if (!content) {
-    throw new Error('Empty response from Anthropic');
-  }
-
-  // Parse JSON from response
-  const jsonMatch = content.match(/\{[\s\S]*\}/);
-  if (!jsonMatch) {
-    console.error('[callAnthropic] No JSON found in response:', content.substring(0, 500));
-    throw new Error('No valid JSON found in response');
-  }
-
-  try {
-    return JSON.parse(jsonMatch[0]);
-  } catch (parseError) {
-    console.error('[callAnthropic] JSON parse error:', parseError);
-    throw new Error('Failed to parse JSON from response');
-  }
-}
-
-async function callOpenAI(
-  apiKey: string,
-  model: string,
-  prompt: string,
-  screenshotBase64?: string
-): Promise<{ operations: EditOperation[]; summary: string }> {
-  console.log('[callOpenAI] Starting API call...');
-
-  const messages: Array<{ role: string; content: unknown }> = [];
-
-  if (screenshotBase64) {
-    const imageUrl = screenshotBase64.startsWith('data:')
-      ? screenshotBase64
-      : `data:image/png;base64,${screenshotBase64}`;
-    messages.push({
-      role: 'user',
-      content: [
-        {
-          type: 'image_url',
-          image_url: { url: imageUrl },
-        },
-        {
-          type: 'text',
-          text: prompt,
-        },
-      ],
-    });
-  } else {
-    messages.push({ role: 'user', content: prompt });
-  }
-
-  const response = await fetch('https://api.openai.com/v1/chat/completions', {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-      'Authorization': `Bearer ${apiKey}`,
-    },
-    body: JSON.stringify({
-      model,
-      messages,
-      max_tokens: 4000,
-      response_format: { type: 'json_object' },
-    }),
-  });
-
-  if (!response.ok) {
-    const errorText = await response.text();
-    console.error('[callOpenAI] API error:', response.status, errorText);
-    throw new Error(`OpenAI API error: ${response.status} - ${errorText}`);
-  }
-
-  const data = await response.json();
-  console.log('[callOpenAI] Response received');
-
-  const content = data.choices?.[0]?.message?.content || '';
-  if (!content) {
-    throw new Error('Empty response from OpenAI');
-  }
-
-  try {
-    return JSON.parse(content);
-  } catch (parseError) {
-    console.error('[callOpenAI] JSON parse error:', parseError);
-    throw new Error('Failed to parse JSON from response');
-  }
-}
-
-async function callGoogle(
-  apiKey: string,
-  model: string,
-  prompt: string,
-  screenshotBase64?: string
-): Promise<{ operations: EditOperation[]; summary: string }> {
-  console.log('[callGoogle] Starting API call...');
-
-  const parts: Array<{ text?: string; inlineData?: { mimeType: string; data: string } }> = [];
-
-  if (screenshotBase64) {
-    // Extract media type from data URL if present
-    let mimeType = 'image/png'; // default
-    let imageData = screenshotBase64;
-
-    const dataUrlMatch = screenshotBase64.match(/^data:(image\/\w+);base64,/);
-    if (dataUrlMatch) {
-      mimeType = dataUrlMatch[1];
-      imageData = screenshotBase64.replace(/^data:image\/\w+;base64,/, '');
-    }
-
-    console.log('[callGoogle] Image mime type:', mimeType, 'data length:', imageData.length);
-
-    parts.push({
-      inlineData: {
-        mimeType,
-        data: imageData,
-      },
-    });
-  }
-
-  parts.push({ text: prompt });
-
-  const response = await fetch(
-    `https://generativelanguage.googleapis.com/v1/models/${model}:generateContent?key=${apiKey}`,
-    {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({
-        contents: [{ parts }],
-        generationConfig: {
-          maxOutputTokens: 4000,
-          responseMimeType: 'application/json',
-        },
-      }),
-    }
-  );
-
-  if (!response.ok) {
-    const errorText = await response.text();
-    console.error('[callGoogle] API error:', response.status, errorText);
-    throw new Error(`Google API error: ${response.status} - ${errorText}`);
-  }
-
-  const data = await response.json();
-  console.log('[callGoogle] Response received');
-
-  const content = data.candidates?.[0]?.content?.parts?.[0]?.text || '';
-  if (!content) {
-    throw new Error('Empty response from Google');
-  }
-
-  const jsonMatch = content.match(/\{[\s\S]*\}/);
-  if (!jsonMatch) {
-    console.error('[callGoogle] No JSON found in response:', content.substring(0, 500));
-    throw new Error('No valid JSON found in response');
-  }
-
-  try {
-    return JSON.parse(jsonMatch[0]);
-  } catch (parseError) {
-    console.error('[callGoogle] JSON parse error:', parseError);
-    throw new Error('Failed to parse JSON from response');
-  }
-}
-
 // ============================================================================
 // Main Handler
 // ============================================================================
@@ -495,7 +284,7 @@ Deno.serve(async (req) => {
 
     // Step 4: Extract and validate fields
     console.log('[generate-variant-edits-v2] Step 4: Validating fields...');
-    const { sessionId, plans, elementSummary, screenshotBase64, provider, model } = body;
+    const { sessionId, plans, elementSummary, collapsedSections, screenshotBase64, productContext, provider, model } = body;
 
     // Validate required fields
     if (!sessionId) {
@@ -570,7 +359,7 @@ Deno.serve(async (req) => {
     }
 
     const activeProvider = keyConfig.provider;
-    const activeModel = model || keyConfig.model || 'claude-sonnet-4-20250514';
+    const activeModel = model || keyConfig.model || DEFAULT_MODELS[activeProvider as LLMProvider];
     console.log('[generate-variant-edits-v2] Using provider:', activeProvider, 'model:', activeModel);
 
     // Get decrypted API key from vault
@@ -585,9 +374,21 @@ Deno.serve(async (req) => {
       );
     }
 
+    const usageContext: UsageContext = { supabase, userId: user.id, sessionId, functionName: 'generate-variant-edits-v2' };
+    try {
+      await assertWithinBudget(usageContext);
+    } catch (budgetError) {
+      if (!(budgetError instanceof BudgetExceededError)) throw budgetError;
+      return new Response(
+        JSON.stringify({ success: false, error: budgetError.message, errorCode: budgetError.code }),
+        { status: 402, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
     // Step 6: Generate operations for each plan
     console.log('[generate-variant-edits-v2] Step 6: Generating operations...');
     const results: VariantEdits[] = [];
+    let usage = EMPTY_USAGE;
     const startTime = Date.now();
 
     for (let i = 0; i < plans.length; i++) {
@@ -604,25 +405,32 @@ Deno.serve(async (req) => {
         continue;
       }
 
-      const prompt = buildEditOperationsPrompt(plan, elementSummary, !!screenshotBase64);
+      const prompt = buildEditOperationsPrompt(
+        plan,
+        elementSummary,
+        !!screenshotBase64,
+        productContext,
+        Array.isArray(collapsedSections) ? collapsedSections : []
+      );
       console.log(`[generate-variant-edits-v2] Prompt length: ${prompt.length} chars, hasScreenshot: ${!!screenshotBase64}`);
 
       let editsResult: { operations: EditOperation[]; summary: string };
 
       try {
-        switch (activeProvider) {
-          case 'anthropic':
-            editsResult = await callAnthropic(apiKey, activeModel, prompt, screenshotBase64);
-            break;
-          case 'openai':
-            editsResult = await callOpenAI(apiKey, activeModel, prompt, screenshotBase64);
-            break;
-          case 'google':
-            editsResult = await callGoogle(apiKey, activeModel, prompt, screenshotBase64);
-            break;
-          default:
-            throw new Error(`Unknown provider: ${activeProvider}`);
-        }
+        const { data, response } = await callLLMJson<{ operations: EditOperation[]; summary: string }>({
+          provider: activeProvider,
+          apiKey,
+          baseUrl: keyConfig.base_url,
+          apiFlavor: keyConfig.api_flavor,
+          model: activeModel,
+          prompt,
+          images: screenshotBase64 ? [{ data: screenshotBase64 }] : undefined,
+          maxTokens: 4000,
+          label: 'generate-variant-edits-v2',
+        });
+        editsResult = data;
+        usage = addUsage(usage, response.usage);
+        await recordUsage(usageContext, response);
       } catch (llmError) {
         console.error(`[generate-variant-edits-v2] LLM error for variant ${plan.variantIndex}:`, llmError);
         // Return error with details
@@ -677,6 +485,7 @@ Deno.serve(async (req) => {
         variantEdits: results,
         provider: activeProvider,
         model: activeModel,
+        usage,
         durationMs,
       }),
       {
@@ -10,6 +10,8 @@
 
 import "jsr:@supabase/functions-js/edge-runtime.d.ts";
 import { createClient } from "jsr:@supabase/supabase-js@2";
+import { addUsage, callLLMJson, DEFAULT_MODELS, EMPTY_USAGE } from "../_shared/llm.ts";
+import { assertWithinBudget, recordUsage, type UsageContext } from "../_shared/usage.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -65,13 +67,13 @@ function getApiKey(provider: string): string | null {
 // Determine best available provider
 function getBestProvider(): { provider: string; model: string } | null {
   if (Deno.env.get('ANTHROPIC_API_KEY')) {
-    return { provider: 'anthropic', model: 'claude-sonnet-4-20250514' };
+    return { provider: 'anthropic', model: DEFAULT_MODELS.anthropic };
   }
   if (Deno.env.get('OPENAI_API_KEY')) {
-    return { provider: 'openai', model: 'gpt-4o' };
+    return { provider: 'openai', model: DEFAULT_MODELS.openai };
   }
   if (Deno.env.get('GOOGLE_API_KEY')) {
-    return { provider: 'google', model: 'gemini-1.5-pro' };
+    return { provider: 'google', model: DEFAULT_MODELS.google };
   }
   return null;
 }
@@ -129,175 +131,6 @@ ${originalHtml.substring(0, 50000)}
 Generate the edit operations now. Return ONLY valid JSON, no markdown formatting.`;
 }
 
-// Call Anthropic API
-async function callAnthropic(
-  apiKey: string,
-  model: string,
-  prompt: string,
-  screenshotBase64?: string
-): Promise<{ edits: EditOperation[]; summary: string }> {
-  const messages: Array<{ role: string; content: unknown }> = [];
-
-  if (screenshotBase64) {
-    messages.push({
-      role: 'user',
-      content: [
-        {
-          type: 'image',
-          source: {
-            type: 'base64',
-            media_type: 'image/png',
-            data: screenshotBase64.replace(/^data:image\/\w+;base64,/, ''),
-          },
-        },
-        {
-          type: 'text',
-          text: prompt,
-        },
-      ],
-    });
-  } else {
-    messages.push({ role: 'user', content: prompt });
-  }
-
-  const response = await fetch('https://api.anthropic.com/v1/messages', {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-      'x-api-key': apiKey,
-      'anthropic-version': '2023-06-01',
-    },
-    body: JSON.stringify({
-      model,
-      max_tokens: 8000,
-      messages,
-    }),
-  });
-
-  if (!response.ok) {
-    const error = await response.text();
-    throw new Error(`Anthropic API error: ${response.status} - ${error}`);
-  }
-
-  const data = await response.json();
-  const content = data.content[0]?.text || '';
-
-  // Parse JSON from response
-  const jsonMatch = content.match(/\{[\s\S]*\}/);
-  if (!jsonMatch) {
-    throw new Error('No valid JSON found in response');
-  }
-
-  return JSON.parse(jsonMatch[0]);
-}
-
-// Call OpenAI API
-async function callOpenAI(
-  apiKey: string,
-  model: string,
-  prompt: string,
-  screenshotBase64?: string
-): Promise<{ edits: EditOperation[]; summary: string }> {
-  const messages: Array<{ role: string; content: unknown }> = [];
-
-  if (screenshotBase64) {
-    messages.push({
-      role: 'user',
-      content: [
-        {
-          type: 'image_url',
-          image_url: {
-            url: screenshotBase64.startsWith('data:')
-              ? screenshotBase64
-              : `data:image/png;base64,${screenshotBase64}`,
-          },
-        },
-        {
-          type: 'text',
-          text: prompt,
-        },
-      ],
-    });
-  } else {
-    messages.push({ role: 'user', content: prompt });
-  }
-
-  const response = await fetch('https://api.openai.com/v1/chat/completions', {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-      'Authorization': `Bearer ${apiKey}`,
-    },
-    body: JSON.stringify({
-      model,
-      messages,
-      max_tokens: 8000,
-      response_format: { type: 'json_object' },
-    }),
-  });
-
-  if (!response.ok) {
-    const error = await response.text();
-    throw new Error(`OpenAI API error: ${response.status} - ${error}`);
-  }
-
-  const data = await response.json();
-  const content = data.choices[0]?.message?.content || '';
-
-  return JSON.parse(content);
-}
-
-// Call Google API
-async function callGoogle(
-  apiKey: string,
-  model: string,
-  prompt: string,
-  screenshotBase64?: string
-): Promise<{ edits: EditOperation[]; summary: string }> {
-  const parts: Array<{ text?: string; inlineData?: { mimeType: string; data: string } }> = [];
-
-  if (screenshotBase64) {
-    parts.push({
-      inlineData: {
-        mimeType: 'image/png',
-        data: screenshotBase64.replace(/^data:image\/\w+;base64,/, ''),
-      },
-    });
-  }
-
-  parts.push({ text: prompt });
-
-  const response = await fetch(
-    `https://generativelanguage.googleapis.com/v1/models/${model}:generateContent?key=${apiKey}`,
-    {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({
-        contents: [{ parts }],
-        generationConfig: {
-          maxOutputTokens: 8000,
-          responseMimeType: 'application/json',
-        },
-      }),
-    }
-  );
-
-  if (!response.ok) {
-    const error = await response.text();
-    throw new Error(`Google API error: ${response.status} - ${error}`);
-  }
-
-  const data = await response.json();
-  const content = data.candidates?.[0]?.content?.parts?.[0]?.text || '';
-
-  const jsonMatch = content.match(/\{[\s\S]*\}/);
-  if (!jsonMatch) {
-    throw new Error('No valid JSON found in response');
-  }
-
-  return JSON.parse(jsonMatch[0]);
-}
-
 // Main handler
 Deno.serve(async (req) => {
   if (req.method === 'OPTIONS') {
@@ -340,8 +173,22 @@ Deno.serve(async (req) => {
     const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
     const supabase = createClient(supabaseUrl, supabaseKey);
 
+    // No user token here, so usage is attributed to the session's owner
+    const { data: session } = await supabase
+      .from('vibe_sessions')
+      .select('user_id')
+      .eq('id', sessionId)
+      .single();
+    const usageContext: UsageContext | null = session
+      ? { supabase, userId: session.user_id, sessionId, functionName: 'generate-variant-edits' }
+      : null;
+    if (usageContext) {
+      await assertWithinBudget(usageContext);
+    }
+
     // Generate edits for each plan
     const results: VariantEdits[] = [];
+    let usage = EMPTY_USAGE;
     const startTime = Date.now();
 
     for (const plan of plans) {
@@ -349,20 +196,18 @@ Deno.serve(async (req) => {
 
       const prompt = buildEditsPrompt(plan, originalHtml);
 
-      let editsResult: { edits: EditOperation[]; summary: string };
-
-      switch (activeProvider) {
-        case 'anthropic':
-          editsResult = await callAnthropic(apiKey, activeModel, prompt, screenshotBase64);
-          break;
-        case 'openai':
-          editsResult = await callOpenAI(apiKey, activeModel, prompt, screenshotBase64);
-          break;
-        case 'google':
-          editsResult = await callGoogle(apiKey, activeModel, prompt, screenshotBase64);
-          break;
-        default:
-          throw new Error(`Unknown provider: ${activeProvider}`);
+      const { data: editsResult, response } = await callLLMJson<{ edits: EditOperation[]; summary: string }>({
+        provider: activeProvider,
+        apiKey,
+        model: activeModel,
+        prompt,
+        images: screenshotBase64 ? [{ data: screenshotBase64 }] : undefined,
+        maxTokens: 8000,
+        label: 'generate-variant-edits',
+      });
+      usage = addUsage(usage, response.usage);
+      if (usageContext) {
+        await recordUsage(usageContext, response);
       }
 
       console.log(`[generate-variant-edits] Variant ${plan.variantIndex}: ${editsResult.edits.length} edits`);
@@ -393,6 +238,7 @@ Deno.serve(async (req) => {
         variantEdits: results,
         provider: activeProvider,
         model: activeModel,
+        usage,
         durationMs,
       }),
       {
@@ -3,6 +3,8 @@
 // Deploy with: supabase functions deploy generate-variant-plan
 
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { callLLM, parseJsonResponse } from '../_shared/llm.ts'
+import { assertWithinBudget, recordUsage, type UsageContext } from '../_shared/usage.ts'
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -22,7 +24,7 @@ interface GeneratePlanRequest {
   }
   productContext?: string
   uxGuidelines?: string      // UX guidelines extracted from product videos
-  provider?: 'anthropic' | 'openai' | 'google'
+  provider?: 'anthropic' | 'openai' | 'google' | 'local'
   model?: string
 }
 
@@ -79,6 +81,8 @@ JSON Schema (MUST follow exactly):
   ]
 }`
 
+const SCREENSHOT_PREAMBLE = 'This is the current screen that needs to be modified. Study it carefully to understand the existing layout, style, and components.\n\n'
+
 function buildPlanPrompt(request: GeneratePlanRequest): string {
   let prompt = `User Request: "${request.prompt}"\n\n`
 
@@ -91,14 +95,15 @@ function buildPlanPrompt(request: GeneratePlanRequest): string {
   }
 
   if (request.productContext) {
-    prompt += `Product Context:\n${request.productContext.slice(0, 2000)}\n\n`
+    prompt += `Product Context:\n${request.productContext}\n\n`
   }
 
   if (request.uxGuidelines) {
     prompt += `${request.uxGuidelines.slice(0, 3000)}\n\n`
   }
 
-  prompt += `Source HTML (compacted):\n${request.compactedHtml.slice(0, 15000)}\n\n`
+  // Sized to the model's context by compactToBudget in the client
+  prompt += `Source HTML (compacted):\n${request.compactedHtml}\n\n`
   prompt += `Generate 4 variant concepts as a JSON object with a "variants" array. Return ONLY the JSON, no other text.`
 
   return prompt
@@ -106,25 +111,10 @@ function buildPlanPrompt(request: GeneratePlanRequest): string {
 
 // Parse and validate JSON response
 function parseVariantPlans(response: string): VariantPlan[] {
-  // Clean response
-  let cleaned = response.trim()
-
-  // Remove markdown code blocks if present
-  if (cleaned.startsWith('```json')) {
-    cleaned = cleaned.slice(7)
-  } else if (cleaned.startsWith('```')) {
-    cleaned = cleaned.slice(3)
-  }
-  if (cleaned.endsWith('```')) {
-    cleaned = cleaned.slice(0, -3)
-  }
-  cleaned = cleaned.trim()
-
-  // Parse JSON
-  const parsed = JSON.parse(cleaned)
+  const parsed = parseJsonResponse<{ variants?: VariantPlan[] }>(response)
 
   // Extract variants array
-  const variants = parsed.variants || parsed
+  const variants = parsed.variants || (parsed as unknown as VariantPlan[])
 
   if (!Array.isArray(variants) || variants.length !== 4) {
     throw new Error(`Expected 4 variants, got ${Array.isArray(variants) ? variants.length : 'non-array'}`)
@@ -140,181 +130,6 @@ function parseVariantPlans(response: string): VariantPlan[] {
   }))
 }
 
-// Generate with Anthropic (with optional vision support)
-async function generateWithAnthropic(apiKey: string, model: string, prompt: string, screenshotBase64?: string): Promise<string> {
-  console.log('[generate-variant-plan] Calling Anthropic API', screenshotBase64 ? 'with screenshot' : 'text only')
-
-  // Build message content - text or text + image
-  const content: Array<{ type: string; text?: string; source?: { type: string; media_type: string; data: string } }> = []
-
-  if (screenshotBase64) {
-    // Handle both raw base64 and data URL formats
-    let base64Data = screenshotBase64
-    let mediaType = 'image/jpeg' // default
-
-    if (screenshotBase64.startsWith('data:')) {
-      // Extract media type and base64 data from data URL
-      const match = screenshotBase64.match(/^data:([^;]+);base64,(.+)$/)
-      if (match) {
-        mediaType = match[1]
-        base64Data = match[2]
-      }
-    }
-
-    content.push({
-      type: 'image',
-      source: {
-        type: 'base64',
-        media_type: mediaType,
-        data: base64Data,
-      },
-    })
-    content.push({
-      type: 'text',
-      text: 'This is the current screen that needs to be modified. Study it carefully to understand the existing layout, style, and components.\n\n' + prompt,
-    })
-  } else {
-    content.push({ type: 'text', text: prompt })
-  }
-
-  const response = await fetch('https://api.anthropic.com/v1/messages', {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-      'x-api-key': apiKey,
-      'anthropic-version': '2023-06-01',
-    },
-    body: JSON.stringify({
-      model: model || 'claude-sonnet-4-20250514',
-      max_tokens: 4096,
-      system: SYSTEM_PROMPT,
-      messages: [{ role: 'user', content }],
-    }),
-  })
-
-  if (!response.ok) {
-    const error = await response.json()
-    throw new Error(error.error?.message || 'Anthropic API error')
-  }
-
-  const data = await response.json()
-  return data.content[0]?.text || ''
-}
-
-// Generate with OpenAI (with optional vision support)
-async function generateWithOpenAI(apiKey: string, model: string, prompt: string, screenshotBase64?: string): Promise<string> {
-  console.log('[generate-variant-plan] Calling OpenAI API', screenshotBase64 ? 'with screenshot' : 'text only')
-
-  // Build message content - text or text + image
-  const content: Array<{ type: string; text?: string; image_url?: { url: string } }> = []
-
-  if (screenshotBase64) {
-    // Handle both raw base64 and data URL formats
-    let imageUrl = screenshotBase64
-
-    if (!screenshotBase64.startsWith('data:')) {
-      // If raw base64, add data URL prefix
-      imageUrl = `data:image/jpeg;base64,${screenshotBase64}`
-    }
-
-    content.push({
-      type: 'image_url',
-      image_url: {
-        url: imageUrl,
-      },
-    })
-    content.push({
-      type: 'text',
-      text: 'This is the current screen that needs to be modified. Study it carefully to understand the existing layout, style, and components.\n\n' + prompt,
-    })
-  } else {
-    content.push({ type: 'text', text: prompt })
-  }
-
-  const response = await fetch('https://api.openai.com/v1/chat/completions', {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-      'Authorization': `Bearer ${apiKey}`,
-    },
-    body: JSON.stringify({
-      model: model || 'gpt-4o',
-      max_tokens: 4096,
-      response_format: { type: 'json_object' },
-      messages: [
-        { role: 'system', content: SYSTEM_PROMPT },
-        { role: 'user', content },
-      ],
-    }),
-  })
-
-  if (!response.ok) {
-    const error = await response.json()
-    throw new Error(error.error?.message || 'OpenAI API error')
-  }
-
-  const data = await response.json()
-  return data.choices[0]?.message?.content || ''
-}
-
-// Generate with Google (with optional vision support)
-async function generateWithGoogle(apiKey: string, model: string, prompt: string, screenshotBase64?: string): Promise<string> {
-  console.log('[generate-variant-plan] Calling Google API', screenshotBase64 ? 'with screenshot' : 'text only')
-
-  // Build parts array - text or text + image
-  const parts: Array<{ text?: string; inline_data?: { mime_type: string; data: string } }> = []
-
-  if (screenshotBase64) {
-    // Handle both raw base64 and data URL formats
-    let base64Data = screenshotBase64
-    let mimeType = 'image/jpeg' // default
-
-    if (screenshotBase64.startsWith('data:')) {
-      // Extract media type and base64 data from data URL
-      const match = screenshotBase64.match(/^data:([^;]+);base64,(.+)$/)
-      if (match) {
-        mimeType = match[1]
-        base64Data = match[2]
-      }
-    }
-
-    parts.push({
-      inline_data: {
-        mime_type: mimeType,
-        data: base64Data,
-      },
-    })
-    parts.push({
-      text: SYSTEM_PROMPT + '\n\nThis is the current screen that needs to be modified. Study it carefully to understand the existing layout, style, and components.\n\n' + prompt,
-    })
-  } else {
-    parts.push({ text: SYSTEM_PROMPT + '\n\n' + prompt })
-  }
-
-  const response = await fetch(
-    `https://generativelanguage.googleapis.com/v1beta/models/${model || 'gemini-1.5-pro'}:generateContent?key=${apiKey}`,
-    {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({
-        contents: [{ parts }],
-        generationConfig: {
-          maxOutputTokens: 4096,
-          responseMimeType: 'application/json',
-        },
-      }),
-    }
-  )
-
-  if (!response.ok) {
-    const error = await response.json()
-    throw new Error(error.error?.message || 'Google AI API error')
-  }
-
-  const data = await response.json()
-  return data.candidates?.[0]?.content?.parts?.[0]?.text || ''
-}
-
 Deno.serve(async (req) => {
   console.log('[generate-variant-plan] Request received:', req.method)
 
@@ -395,22 +210,25 @@ Deno.serve(async (req) => {
       console.log('[generate-variant-plan] Screenshot provided, size:', Math.round(body.screenshotBase64.length / 1024), 'KB')
     }
 
-    // Generate plan based on provider (with optional screenshot for vision)
-    let rawResponse: string
-
-    switch (keyConfig.provider) {
-      case 'anthropic':
-        rawResponse = await generateWithAnthropic(apiKey, modelToUse, prompt, body.screenshotBase64)
-        break
-      case 'openai':
-        rawResponse = await generateWithOpenAI(apiKey, modelToUse, prompt, body.screenshotBase64)
-        break
-      case 'google':
-        rawResponse = await generateWithGoogle(apiKey, modelToUse, prompt, body.screenshotBase64)
-        break
-      default:
-        throw new Error(`Unsupported provider: ${keyConfig.provider}`)
-    }
+    const usageContext: UsageContext = { supabase, userId: user.id, sessionId: body.sessionId, functionName: 'generate-variant-plan' }
+    await assertWithinBudget(usageContext)
+
+    // Generate plan (with optional screenshot for vision)
+    const llmResponse = await callLLM({
+      provider: keyConfig.provider,
+      apiKey,
+      baseUrl: keyConfig.base_url,
+      apiFlavor: keyConfig.api_flavor,
+      model: modelToUse,
+      system: SYSTEM_PROMPT,
+      prompt: body.screenshotBase64 ? SCREENSHOT_PREAMBLE + prompt : prompt,
+      images: body.screenshotBase64 ? [{ data: body.screenshotBase64, mediaType: 'image/jpeg' }] : undefined,
+      maxTokens: 4096,
+      json: true,
+      label: 'generate-variant-plan',
+    })
+    await recordUsage(usageContext, llmResponse)
+    const rawResponse = llmResponse.text
 
     console.log('[generate-variant-plan] Raw response length:', rawResponse.length)
 
@@ -458,8 +276,9 @@ Deno.serve(async (req) => {
       JSON.stringify({
         success: true,
         plans: savedPlans,
-        model: modelToUse,
+        model: llmResponse.model,
         provider: keyConfig.provider,
+        usage: llmResponse.usage,
       }),
       { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
     )
@@ -3,6 +3,8 @@
 // Deploy with: supabase functions deploy generate-visual-wireframes
 
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { callLLM, LONG_GENERATION_TIMEOUT_MS, parseJsonResponse } from '../_shared/llm.ts'
+import { assertWithinBudget, recordUsage, type UsageContext } from '../_shared/usage.ts'
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -27,7 +29,7 @@ interface GenerateVisualWireframesRequest {
     components: Array<{ type: string; count: number }>
   }
   selectedVariants?: number[]
-  provider?: 'anthropic' | 'openai' | 'google'
+  provider?: 'anthropic' | 'openai' | 'google' | 'local'
   model?: string
 }
 
@@ -406,7 +408,7 @@ IMPORTANT: The wireframeHtml must be the BODY content only (no <html>, <head>, o
 Focus on creating a clear visual representation of the layout described in each variant plan.`
 
 function buildWireframePrompt(request: GenerateVisualWireframesRequest): string {
-  let prompt = `Source HTML Structure (for reference):\n${request.compactedHtml.slice(0, 8000)}\n\n`
+  let prompt = `Source HTML Structure (for reference):\n${request.compactedHtml}\n\n`
 
   if (request.uiMetadata) {
     prompt += `Current UI Components:\n`
@@ -432,22 +434,11 @@ function buildWireframePrompt(request: GenerateVisualWireframesRequest): string
   return prompt
 }
 
-function parseWireframes(response: string, plans: GenerateVisualWireframesRequest['plans']): Array<{variantIndex: number, planId: string, wireframeHtml: string}> {
-  let cleaned = response.trim()
-
-  // Remove markdown code blocks if present
-  if (cleaned.startsWith('```json')) {
-    cleaned = cleaned.slice(7)
-  } else if (cleaned.startsWith('```')) {
-    cleaned = cleaned.slice(3)
-  }
-  if (cleaned.endsWith('```')) {
-    cleaned = cleaned.slice(0, -3)
-  }
-  cleaned = cleaned.trim()
+type RawWireframe = { variantIndex?: number; planId?: string; wireframeHtml?: string; html?: string }
 
-  const parsed = JSON.parse(cleaned)
-  const wireframes = parsed.wireframes || parsed
+function parseWireframes(response: string, plans: GenerateVisualWireframesRequest['plans']): Array<{variantIndex: number, planId: string, wireframeHtml: string}> {
+  const parsed = parseJsonResponse<{ wireframes?: RawWireframe[] }>(response)
+  const wireframes = parsed.wireframes || (parsed as unknown as RawWireframe[])
 
   if (!Array.isArray(wireframes)) {
     throw new Error('Expected wireframes array')
@@ -481,92 +472,6 @@ function buildFullHtml(bodyContent: string, variantIndex: number, title: string)
 </html>`
 }
 
-// Generate with Anthropic
-async function generateWithAnthropic(apiKey: string, model: string, prompt: string): Promise<string> {
-  console.log('[generate-visual-wireframes] Calling Anthropic API')
-
-  const response = await fetch('https://api.anthropic.com/v1/messages', {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-      'x-api-key': apiKey,
-      'anthropic-version': '2023-06-01',
-    },
-    body: JSON.stringify({
-      model: model || 'claude-sonnet-4-20250514',
-      max_tokens: 16384,
-      system: SYSTEM_PROMPT,
-      messages: [{ role: 'user', content: prompt }],
-    }),
-  })
-
-  if (!response.ok) {
-    const error = await response.json()
-    throw new Error(error.error?.message || 'Anthropic API error')
-  }
-
-  const data = await response.json()
-  return data.content[0]?.text || ''
-}
-
-// Generate with OpenAI
-async function generateWithOpenAI(apiKey: string, model: string, prompt: string): Promise<string> {
-  console.log('[generate-visual-wireframes] Calling OpenAI API')
-
-  const response = await fetch('https://api.openai.com/v1/chat/completions', {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-      'Authorization': `Bearer ${apiKey}`,
-    },
-    body: JSON.stringify({
-      model: model || 'gpt-4o',
-      max_tokens: 16384,
-      response_format: { type: 'json_object' },
-      messages: [
-        { role: 'system', content: SYSTEM_PROMPT },
-        { role: 'user', content: prompt },
-      ],
-    }),
-  })
-
-  if (!response.ok) {
-    const error = await response.json()
-    throw new Error(error.error?.message || 'OpenAI API error')
-  }
-
-  const data = await response.json()
-  return data.choices[0]?.message?.content || ''
-}
-
-// Generate with Google
-async function generateWithGoogle(apiKey: string, model: string, prompt: string): Promise<string> {
-  console.log('[generate-visual-wireframes] Calling Google API')
-
-  const response = await fetch(
-    `https://generativelanguage.googleapis.com/v1beta/models/${model || 'gemini-1.5-pro'}:generateContent?key=${apiKey}`,
-    {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({
-        contents: [{ parts: [{ text: SYSTEM_PROMPT + '\n\n' + prompt }] }],
-        generationConfig: {
-          maxOutputTokens: 16384,
-          responseMimeType: 'application/json',
-        },
-      }),
-    }
-  )
-
-  if (!response.ok) {
-    const error = await response.json()
-    throw new Error(error.error?.message || 'Google AI API error')
-  }
-
-  const data = await response.json()
-  return data.candidates?.[0]?.content?.parts?.[0]?.text || ''
-}
-
 Deno.serve(async (req) => {
   console.log('[generate-visual-wireframes] Request received:', req.method)
 
@@ -642,23 +547,26 @@ Deno.serve(async (req) => {
     // Build prompt
     const prompt = buildWireframePrompt(body)
 
-    // Generate wireframes based on provider
+    const usageContext: UsageContext = { supabase, userId: user.id, sessionId: body.sessionId, functionName: 'generate-visual-wireframes' }
+    await assertWithinBudget(usageContext)
+
+    // Generate wireframes
     const startTime = Date.now()
-    let rawResponse: string
-
-    switch (keyConfig.provider) {
-      case 'anthropic':
-        rawResponse = await generateWithAnthropic(apiKey, modelToUse, prompt)
-        break
-      case 'openai':
-        rawResponse = await generateWithOpenAI(apiKey, modelToUse, prompt)
-        break
-      case 'google':
-        rawResponse = await generateWithGoogle(apiKey, modelToUse, prompt)
-        break
-      default:
-        throw new Error(`Unsupported provider: ${keyConfig.provider}`)
-    }
+    const llmResponse = await callLLM({
+      provider: keyConfig.provider,
+      apiKey,
+      baseUrl: keyConfig.base_url,
+      apiFlavor: keyConfig.api_flavor,
+      model: modelToUse,
+      system: SYSTEM_PROMPT,
+      prompt,
+      maxTokens: 16384,
+      timeoutMs: LONG_GENERATION_TIMEOUT_MS,
+      json: true,
+      label: 'generate-visual-wireframes',
+    })
+    await recordUsage(usageContext, llmResponse)
+    const rawResponse = llmResponse.text
 
     const durationMs = Date.now() - startTime
     console.log('[generate-visual-wireframes] Raw response length:', rawResponse.length, 'Duration:', durationMs, 'ms')
@@ -727,8 +635,9 @@ Deno.serve(async (req) => {
       JSON.stringify({
         success: true,
         wireframes: results,
-        model: modelToUse,
+        model: llmResponse.model,
         provider: keyConfig.provider,
+        usage: llmResponse.usage,
         durationMs,
       }),
       { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
@@ -3,6 +3,8 @@
 // Deploy with: supabase functions deploy generate-wireframes
 
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { callLLM, parseJsonResponse } from '../_shared/llm.ts'
+import { assertWithinBudget, recordUsage, type UsageContext } from '../_shared/usage.ts'
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -27,7 +29,7 @@ interface GenerateWireframesRequest {
     layout: Record<string, string[]>
     components: Array<{ type: string; count: number }>
   }
-  provider?: 'anthropic' | 'openai' | 'google'
+  provider?: 'anthropic' | 'openai' | 'google' | 'local'
   model?: string
 }
 
@@ -84,8 +86,10 @@ Example wireframeText format:
 |  [EXISTING: CARDS - unchanged]           |
 +------------------------------------------+`
 
+const SCREENSHOT_PREAMBLE = 'This is the current screen that needs wireframe modifications. Study it carefully to understand the existing layout and components.\n\n'
+
 function buildWireframePrompt(request: GenerateWireframesRequest): string {
-  let prompt = `Source HTML Structure (compacted):\n${request.compactedHtml.slice(0, 10000)}\n\n`
+  let prompt = `Source HTML Structure (compacted):\n${request.compactedHtml}\n\n`
 
   if (request.uiMetadata) {
     prompt += `Current UI Components:\n`
@@ -107,23 +111,12 @@ function buildWireframePrompt(request: GenerateWireframesRequest): string {
   return prompt
 }
 
+type RawWireframe = Partial<WireframeResult> & { wireframe?: string; description?: string }
+
 // Parse and validate JSON response
 function parseWireframes(response: string, plans: GenerateWireframesRequest['plans']): WireframeResult[] {
-  let cleaned = response.trim()
-
-  // Remove markdown code blocks if present
-  if (cleaned.startsWith('```json')) {
-    cleaned = cleaned.slice(7)
-  } else if (cleaned.startsWith('```')) {
-    cleaned = cleaned.slice(3)
-  }
-  if (cleaned.endsWith('```')) {
-    cleaned = cleaned.slice(0, -3)
-  }
-  cleaned = cleaned.trim()
-
-  const parsed = JSON.parse(cleaned)
-  const wireframes = parsed.wireframes || parsed
+  const parsed = parseJsonResponse<{ wireframes?: RawWireframe[] }>(response)
+  const wireframes = parsed.wireframes || (parsed as unknown as RawWireframe[])
 
   if (!Array.isArray(wireframes)) {
     throw new Error('Expected wireframes array')
@@ -142,147 +135,6 @@ function parseWireframes(response: string, plans: GenerateWireframesRequest['pla
   })
 }
 
-// Generate with Anthropic (with optional vision support)
-async function generateWithAnthropic(apiKey: string, model: string, prompt: string, screenshotBase64?: string): Promise<string> {
-  console.log('[generate-wireframes] Calling Anthropic API', screenshotBase64 ? 'with screenshot' : 'text only')
-
-  // Build message content - text or text + image
-  const content: Array<{ type: string; text?: string; source?: { type: string; media_type: string; data: string } }> = []
-
-  if (screenshotBase64) {
-    content.push({
-      type: 'image',
-      source: {
-        type: 'base64',
-        media_type: 'image/jpeg',
-        data: screenshotBase64,
-      },
-    })
-    content.push({
-      type: 'text',
-      text: 'This is the current screen that needs wireframe modifications. Study it carefully to understand the existing layout and components.\n\n' + prompt,
-    })
-  } else {
-    content.push({ type: 'text', text: prompt })
-  }
-
-  const response = await fetch('https://api.anthropic.com/v1/messages', {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-      'x-api-key': apiKey,
-      'anthropic-version': '2023-06-01',
-    },
-    body: JSON.stringify({
-      model: model || 'claude-sonnet-4-20250514',
-      max_tokens: 8192,
-      system: SYSTEM_PROMPT,
-      messages: [{ role: 'user', content }],
-    }),
-  })
-
-  if (!response.ok) {
-    const error = await response.json()
-    throw new Error(error.error?.message || 'Anthropic API error')
-  }
-
-  const data = await response.json()
-  return data.content[0]?.text || ''
-}
-
-// Generate with OpenAI (with optional vision support)
-async function generateWithOpenAI(apiKey: string, model: string, prompt: string, screenshotBase64?: string): Promise<string> {
-  console.log('[generate-wireframes] Calling OpenAI API', screenshotBase64 ? 'with screenshot' : 'text only')
-
-  // Build message content - text or text + image
-  const content: Array<{ type: string; text?: string; image_url?: { url: string } }> = []
-
-  if (screenshotBase64) {
-    content.push({
-      type: 'image_url',
-      image_url: {
-        url: `data:image/jpeg;base64,${screenshotBase64}`,
-      },
-    })
-    content.push({
-      type: 'text',
-      text: 'This is the current screen that needs wireframe modifications. Study it carefully to understand the existing layout and components.\n\n' + prompt,
-    })
-  } else {
-    content.push({ type: 'text', text: prompt })
-  }
-
-  const response = await fetch('https://api.openai.com/v1/chat/completions', {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-      'Authorization': `Bearer ${apiKey}`,
-    },
-    body: JSON.stringify({
-      model: model || 'gpt-4o',
-      max_tokens: 8192,
-      response_format: { type: 'json_object' },
-      messages: [
-        { role: 'system', content: SYSTEM_PROMPT },
-        { role: 'user', content },
-      ],
-    }),
-  })
-
-  if (!response.ok) {
-    const error = await response.json()
-    throw new Error(error.error?.message || 'OpenAI API error')
-  }
-
-  const data = await response.json()
-  return data.choices[0]?.message?.content || ''
-}
-
-// Generate with Google (with optional vision support)
-async function generateWithGoogle(apiKey: string, model: string, prompt: string, screenshotBase64?: string): Promise<string> {
-  console.log('[generate-wireframes] Calling Google API', screenshotBase64 ? 'with screenshot' : 'text only')
-
-  // Build parts array - text or text + image
-  const parts: Array<{ text?: string; inline_data?: { mime_type: string; data: string } }> = []
-
-  if (screenshotBase64) {
-    parts.push({
-      inline_data: {
-        mime_type: 'image/jpeg',
-        data: screenshotBase64,
-      },
-    })
-    parts.push({
-      text: SYSTEM_PROMPT + '\n\nThis is the current screen that needs wireframe modifications. Study it carefully to understand the existing layout and components.\n\n' + prompt,
-    })
-  } else {
-    parts.push({ text: SYSTEM_PROMPT + '\n\n' + prompt })
-  }
-
-  const response = await fetch(
-    `https://generativelanguage.googleapis.com/v1beta/models/${model || 'gemini-1.5-pro'}:generateContent?key=${apiKey}`,
-    {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({
-        contents: [{ parts }],
-        generationConfig: {
-          maxOutputTokens: 8192,
-          responseMimeType: 'application/json',
-        },
-      }),
-    }
-  )
-
-  if (!response.ok) {
-    const error = await response.json()
-    throw new Error(error.error?.message || 'Google AI API error')
-  }
-
-  const data = await response.json()
-  return data.candidates?.[0]?.content?.parts?.[0]?.text || ''
-}
-
 Deno.serve(async (req) => {
   console.log('[generate-wireframes] Request received:', req.method)
 
@@ -363,22 +215,25 @@ Deno.serve(async (req) => {
       console.log('[generate-wireframes] Screenshot provided, size:', Math.round(body.screenshotBase64.length / 1024), 'KB')
     }
 
-    // Generate wireframes based on provider (with optional screenshot for vision)
-    let rawResponse: string
-
-    switch (keyConfig.provider) {
-      case 'anthropic':
-        rawResponse = await generateWithAnthropic(apiKey, modelToUse, prompt, body.screenshotBase64)
-        break
-      case 'openai':
-        rawResponse = await generateWithOpenAI(apiKey, modelToUse, prompt, body.screenshotBase64)
-        break
-      case 'google':
-        rawResponse = await generateWithGoogle(apiKey, modelToUse, prompt, body.screenshotBase64)
-        break
-      default:
-        throw new Error(`Unsupported provider: ${keyConfig.provider}`)
-    }
+    const usageContext: UsageContext = { supabase, userId: user.id, sessionId: body.sessionId, functionName: 'generate-wireframes' }
+    await assertWithinBudget(usageContext)
+
+    // Generate wireframes (with optional screenshot for vision)
+    const llmResponse = await callLLM({
+      provider: keyConfig.provider,
+      apiKey,
+      baseUrl: keyConfig.base_url,
+      apiFlavor: keyConfig.api_flavor,
+      model: modelToUse,
+      system: SYSTEM_PROMPT,
+      prompt: body.screenshotBase64 ? SCREENSHOT_PREAMBLE + prompt : prompt,
+      images: body.screenshotBase64 ? [{ data: body.screenshotBase64, mediaType: 'image/jpeg' }] : undefined,
+      maxTokens: 8192,
+      json: true,
+      label: 'generate-wireframes',
+    })
+    await recordUsage(usageContext, llmResponse)
+    const rawResponse = llmResponse.text
 
     console.log('[generate-wireframes] Raw response length:', rawResponse.length)
 
@@ -412,8 +267,9 @@ Deno.serve(async (req) => {
       JSON.stringify({
         success: true,
         wireframes,
-        model: modelToUse,
+        model: llmResponse.model,
         provider: keyConfig.provider,
+        usage: llmResponse.usage,
       }),
       { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
     )
@@ -3,6 +3,8 @@
 // Deploy with: supabase functions deploy iterate-variant
 
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { callLLM, LONG_GENERATION_TIMEOUT_MS } from '../_shared/llm.ts'
+import { assertWithinBudget, recordUsage, type UsageContext } from '../_shared/usage.ts'
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -15,7 +17,7 @@ interface IterateRequest {
   variantIndex: number
   currentHtml: string
   iterationPrompt: string
-  provider?: 'anthropic' | 'openai' | 'google'
+  provider?: 'anthropic' | 'openai' | 'google' | 'local'
   model?: string
 }
 
@@ -64,88 +66,6 @@ function cleanHtmlResponse(html: string): string {
   return cleaned.trim()
 }
 
-// Generate with Anthropic
-async function generateWithAnthropic(apiKey: string, model: string, prompt: string): Promise<string> {
-  console.log('[iterate-variant] Calling Anthropic API')
-
-  const response = await fetch('https://api.anthropic.com/v1/messages', {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-      'x-api-key': apiKey,
-      'anthropic-version': '2023-06-01',
-    },
-    body: JSON.stringify({
-      model: model || 'claude-sonnet-4-20250514',
-      max_tokens: 16384,
-      system: SYSTEM_PROMPT,
-      messages: [{ role: 'user', content: prompt }],
-    }),
-  })
-
-  if (!response.ok) {
-    const error = await response.json()
-    throw new Error(error.error?.message || 'Anthropic API error')
-  }
-
-  const data = await response.json()
-  return cleanHtmlResponse(data.content[0]?.text || '')
-}
-
-// Generate with OpenAI
-async function generateWithOpenAI(apiKey: string, model: string, prompt: string): Promise<string> {
-  console.log('[iterate-variant] Calling OpenAI API')
-
-  const response = await fetch('https://api.openai.com/v1/chat/completions', {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-      'Authorization': `Bearer ${apiKey}`,
-    },
-    body: JSON.stringify({
-      model: model || 'gpt-4o',
-      max_tokens: 16384,
-      messages: [
-        { role: 'system', content: SYSTEM_PROMPT },
-        { role: 'user', content: prompt },
-      ],
-    }),
-  })
-
-  if (!response.ok) {
-    const error = await response.json()
-    throw new Error(error.error?.message || 'OpenAI API error')
-  }
-
-  const data = await response.json()
-  return cleanHtmlResponse(data.choices[0]?.message?.content || '')
-}
-
-// Generate with Google
-async function generateWithGoogle(apiKey: string, model: string, prompt: string): Promise<string> {
-  console.log('[iterate-variant] Calling Google API')
-
-  const response = await fetch(
-    `https://generativelanguage.googleapis.com/v1beta/models/${model || 'gemini-1.5-pro'}:generateContent?key=${apiKey}`,
-    {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({
-        contents: [{ parts: [{ text: SYSTEM_PROMPT + '\n\n' + prompt }] }],
-        generationConfig: { maxOutputTokens: 16384 },
-      }),
-    }
-  )
-
-  if (!response.ok) {
-    const error = await response.json()
-    throw new Error(error.error?.message || 'Google AI API error')
-  }
-
-  const data = await response.json()
-  return cleanHtmlResponse(data.candidates?.[0]?.content?.parts?.[0]?.text || '')
-}
-
 // Upload iterated HTML to storage
 async function uploadIteratedHtml(
   supabase: ReturnType<typeof createClient>,
@@ -274,22 +194,24 @@ Deno.serve(async (req) => {
     // Build prompt
     const prompt = buildIterationPrompt(body.currentHtml, body.iterationPrompt)
 
-    // Generate iterated HTML based on provider
-    let generatedHtml: string
-
-    switch (keyConfig.provider) {
-      case 'anthropic':
-        generatedHtml = await generateWithAnthropic(apiKey, modelToUse, prompt)
-        break
-      case 'openai':
-        generatedHtml = await generateWithOpenAI(apiKey, modelToUse, prompt)
-        break
-      case 'google':
-        generatedHtml = await generateWithGoogle(apiKey, modelToUse, prompt)
-        break
-      default:
-        throw new Error(`Unsupported provider: ${keyConfig.provider}`)
-    }
+    const usageContext: UsageContext = { supabase, userId: user.id, sessionId: body.sessionId, variantId: body.variantId, functionName: 'iterate-variant' }
+    await assertWithinBudget(usageContext)
+
+    // Generate iterated HTML
+    const llmResponse = await callLLM({
+      provider: keyConfig.provider,
+      apiKey,
+      baseUrl: keyConfig.base_url,
+      apiFlavor: keyConfig.api_flavor,
+      model: modelToUse,
+      system: SYSTEM_PROMPT,
+      prompt,
+      maxTokens: 16384,
+      timeoutMs: LONG_GENERATION_TIMEOUT_MS,
+      label: 'iterate-variant',
+    })
+    await recordUsage(usageContext, llmResponse)
+    const generatedHtml = cleanHtmlResponse(llmResponse.text)
 
     console.log('[iterate-variant] Generated HTML length:', generatedHtml.length)
 
@@ -322,7 +244,7 @@ Deno.serve(async (req) => {
         prompt: body.iterationPrompt,
         html_before: body.currentHtml,
         html_after: generatedHtml,
-        generation_model: modelToUse,
+        generation_model: llmResponse.model,
         generation_duration_ms: duration,
       })
       .select()
@@ -359,8 +281,9 @@ Deno.serve(async (req) => {
         iterationNumber: newIterationNumber,
         generatedHtmlLength: generatedHtml.length,
         durationMs: duration,
-        model: modelToUse,
+        model: llmResponse.model,
         provider: keyConfig.provider,
+        usage: llmResponse.usage,
       }),
       { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
     )
@@ -50,6 +50,11 @@ Deno.serve(async (req) => {
     if (!provider || !apiKey) {
       throw new Error('Missing required fields: provider, apiKey')
     }
+    // Local servers need a base URL stored with the key; the app saves those
+    // through the store_api_key RPC
+    if ((provider as string) === 'local') {
+      throw new Error('Local provider keys are saved from Settings, not through this function')
+    }
 
     // Generate vault secret name
     const vaultSecretName = `api_key_${user.id}_${provider}`
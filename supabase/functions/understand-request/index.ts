@@ -3,6 +3,8 @@
 // Deploy with: supabase functions deploy understand-request
 
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { callLLM, parseJsonResponse } from '../_shared/llm.ts'
+import { assertWithinBudget, recordUsage, type UsageContext } from '../_shared/usage.ts'
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -20,7 +22,7 @@ interface UnderstandRequest {
     components: Array<{ type: string; count: number }>
   }
   productContext?: string
-  provider?: 'anthropic' | 'openai' | 'google'
+  provider?: 'anthropic' | 'openai' | 'google' | 'local'
   model?: string
 }
 
@@ -79,10 +81,10 @@ function buildUnderstandingPrompt(request: UnderstandRequest): string {
   }
 
   if (request.productContext) {
-    prompt += `Product Context:\n${request.productContext.slice(0, 1500)}\n\n`
+    prompt += `Product Context:\n${request.productContext}\n\n`
   }
 
-  prompt += `Existing Page HTML (for structure reference):\n${request.compactedHtml.slice(0, 10000)}\n\n`
+  prompt += `Existing Page HTML (for structure reference):\n${request.compactedHtml}\n\n`
   prompt += `Please analyze this request and provide your understanding as JSON. Focus on what the user truly wants to achieve, not just the literal words they used.`
 
   return prompt
@@ -90,22 +92,7 @@ function buildUnderstandingPrompt(request: UnderstandRequest): string {
 
 // Parse and validate JSON response
 function parseUnderstanding(response: string): UnderstandingResponse {
-  // Clean response
-  let cleaned = response.trim()
-
-  // Remove markdown code blocks if present
-  if (cleaned.startsWith('```json')) {
-    cleaned = cleaned.slice(7)
-  } else if (cleaned.startsWith('```')) {
-    cleaned = cleaned.slice(3)
-  }
-  if (cleaned.endsWith('```')) {
-    cleaned = cleaned.slice(0, -3)
-  }
-  cleaned = cleaned.trim()
-
-  // Parse JSON
-  const parsed = JSON.parse(cleaned)
+  const parsed = parseJsonResponse<Partial<UnderstandingResponse>>(response)
 
   // Validate and normalize
   return {
@@ -117,92 +104,6 @@ function parseUnderstanding(response: string): UnderstandingResponse {
   }
 }
 
-// Generate with Anthropic
-async function generateWithAnthropic(apiKey: string, model: string, prompt: string): Promise<string> {
-  console.log('[understand-request] Calling Anthropic API')
-
-  const response = await fetch('https://api.anthropic.com/v1/messages', {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-      'x-api-key': apiKey,
-      'anthropic-version': '2023-06-01',
-    },
-    body: JSON.stringify({
-      model: model || 'claude-sonnet-4-20250514',
-      max_tokens: 2048,
-      system: SYSTEM_PROMPT,
-      messages: [{ role: 'user', content: prompt }],
-    }),
-  })
-
-  if (!response.ok) {
-    const error = await response.json()
-    throw new Error(error.error?.message || 'Anthropic API error')
-  }
-
-  const data = await response.json()
-  return data.content[0]?.text || ''
-}
-
-// Generate with OpenAI
-async function generateWithOpenAI(apiKey: string, model: string, prompt: string): Promise<string> {
-  console.log('[understand-request] Calling OpenAI API')
-
-  const response = await fetch('https://api.openai.com/v1/chat/completions', {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-      'Authorization': `Bearer ${apiKey}`,
-    },
-    body: JSON.stringify({
-      model: model || 'gpt-4o',
-      max_tokens: 2048,
-      response_format: { type: 'json_object' },
-      messages: [
-        { role: 'system', content: SYSTEM_PROMPT },
-        { role: 'user', content: prompt },
-      ],
-    }),
-  })
-
-  if (!response.ok) {
-    const error = await response.json()
-    throw new Error(error.error?.message || 'OpenAI API error')
-  }
-
-  const data = await response.json()
-  return data.choices[0]?.message?.content || ''
-}
-
-// Generate with Google
-async function generateWithGoogle(apiKey: string, model: string, prompt: string): Promise<string> {
-  console.log('[understand-request] Calling Google API')
-
-  const response = await fetch(
-    `https://generativelanguage.googleapis.com/v1beta/models/${model || 'gemini-1.5-pro'}:generateContent?key=${apiKey}`,
-    {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({
-        contents: [{ parts: [{ text: SYSTEM_PROMPT + '\n\n' + prompt }] }],
-        generationConfig: {
-          maxOutputTokens: 2048,
-          responseMimeType: 'application/json',
-        },
-      }),
-    }
-  )
-
-  if (!response.ok) {
-    const error = await response.json()
-    throw new Error(error.error?.message || 'Google AI API error')
-  }
-
-  const data = await response.json()
-  return data.candidates?.[0]?.content?.parts?.[0]?.text || ''
-}
-
 Deno.serve(async (req) => {
   console.log('[understand-request] Request received:', req.method)
 
@@ -308,23 +209,25 @@ Deno.serve(async (req) => {
     // Build prompt
     const prompt = buildUnderstandingPrompt(body)
 
-    // Generate understanding based on provider
+    const usageContext: UsageContext = { supabase, userId: user.id, sessionId: body.sessionId, functionName: 'understand-request' }
+    await assertWithinBudget(usageContext)
+
+    // Generate understanding
     const startTime = Date.now()
-    let rawResponse: string
-
-    switch (keyConfig.provider) {
-      case 'anthropic':
-        rawResponse = await generateWithAnthropic(apiKey, modelToUse, prompt)
-        break
-      case 'openai':
-        rawResponse = await generateWithOpenAI(apiKey, modelToUse, prompt)
-        break
-      case 'google':
-        rawResponse = await generateWithGoogle(apiKey, modelToUse, prompt)
-        break
-      default:
-        throw new Error(`Unsupported provider: ${keyConfig.provider}`)
-    }
+    const llmResponse = await callLLM({
+      provider: keyConfig.provider,
+      apiKey,
+      baseUrl: keyConfig.base_url,
+      apiFlavor: keyConfig.api_flavor,
+      model: modelToUse,
+      system: SYSTEM_PROMPT,
+      prompt,
+      maxTokens: 2048,
+      json: true,
+      label: 'understand-request',
+    })
+    await recordUsage(usageContext, llmResponse)
+    const rawResponse = llmResponse.text
 
     const durationMs = Date.now() - startTime
     console.log('[understand-request] Raw response length:', rawResponse.length, 'Duration:', durationMs, 'ms')
@@ -357,8 +260,9 @@ Deno.serve(async (req) => {
         success: true,
         understanding,
         understandingText,
-        model: modelToUse,
+        model: llmResponse.model,
         provider: keyConfig.provider,
+        usage: llmResponse.usage,
         durationMs,
       }),
       { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
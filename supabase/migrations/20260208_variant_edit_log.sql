@@ -0,0 +1,57 @@
+-- Create branchable edit log for variants
+-- Each node stores the EditOperation[] delta from its parent. Abandoned
+-- branches are kept, so the log is a tree rather than a linear undo stack.
+-- Nodes with checkpoint_html hold the full document after the node and act
+-- as replay starting points (variant roots, AI rewrites, unrepresentable edits).
+
+CREATE TABLE IF NOT EXISTS vibe_edit_nodes (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  variant_id UUID NOT NULL REFERENCES vibe_variants(id) ON DELETE CASCADE,
+  session_id UUID NOT NULL REFERENCES vibe_sessions(id) ON DELETE CASCADE,
+  parent_id UUID REFERENCES vibe_edit_nodes(id) ON DELETE CASCADE,
+  operations JSONB NOT NULL DEFAULT '[]',
+  checkpoint_html TEXT,
+  source TEXT NOT NULL DEFAULT 'user' CHECK (source IN ('ai', 'user')),
+  description TEXT,
+  created_at TIMESTAMPTZ DEFAULT now()
+);
+
+-- Pointer to the node currently checked out for each variant
+ALTER TABLE vibe_variants
+ADD COLUMN IF NOT EXISTS edit_head_id UUID REFERENCES vibe_edit_nodes(id) ON DELETE SET NULL;
+
+-- Indexes for efficient querying
+CREATE INDEX IF NOT EXISTS idx_vibe_edit_nodes_variant_id ON vibe_edit_nodes(variant_id);
+CREATE INDEX IF NOT EXISTS idx_vibe_edit_nodes_parent_id ON vibe_edit_nodes(parent_id);
+
+-- Enable RLS
+ALTER TABLE vibe_edit_nodes ENABLE ROW LEVEL SECURITY;
+
+-- RLS policies - users can only see/modify edit logs of their own sessions
+CREATE POLICY "Users can view own edit nodes" ON vibe_edit_nodes
+  FOR SELECT USING (
+    session_id IN (
+      SELECT id FROM vibe_sessions WHERE user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can insert own edit nodes" ON vibe_edit_nodes
+  FOR INSERT WITH CHECK (
+    session_id IN (
+      SELECT id FROM vibe_sessions WHERE user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can delete own edit nodes" ON vibe_edit_nodes
+  FOR DELETE USING (
+    session_id IN (
+      SELECT id FROM vibe_sessions WHERE user_id = auth.uid()
+    )
+  );
+
+-- Comments for documentation
+COMMENT ON TABLE vibe_edit_nodes IS 'Branchable operation log of variant edits';
+COMMENT ON COLUMN vibe_edit_nodes.parent_id IS 'Node this edit was applied on top of (NULL for the root)';
+COMMENT ON COLUMN vibe_edit_nodes.operations IS 'EditOperation[] delta from the parent node';
+COMMENT ON COLUMN vibe_edit_nodes.checkpoint_html IS 'Full HTML after this node, when it cannot be replayed from the parent';
+COMMENT ON COLUMN vibe_variants.edit_head_id IS 'Currently checked-out node of the variant edit log';
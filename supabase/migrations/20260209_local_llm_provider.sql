@@ -0,0 +1,75 @@
+-- Add a 'local' LLM provider for self-hosted models
+-- A local provider points at a configurable base URL that speaks either the
+-- OpenAI chat completions format (vLLM, LM Studio, llama.cpp) or Ollama's
+-- native API. The key is optional for local servers; one is still stored in
+-- the vault so key lookups behave the same for every provider.
+
+ALTER TABLE user_api_key_refs
+DROP CONSTRAINT IF EXISTS user_api_key_refs_provider_check;
+
+ALTER TABLE user_api_key_refs
+ADD CONSTRAINT user_api_key_refs_provider_check
+CHECK (provider IN ('anthropic', 'openai', 'google', 'local'));
+
+ALTER TABLE user_api_key_refs
+ADD COLUMN IF NOT EXISTS base_url TEXT,
+ADD COLUMN IF NOT EXISTS api_flavor TEXT CHECK (api_flavor IN ('openai-compatible', 'ollama'));
+
+-- Local keys are useless without the server address
+ALTER TABLE user_api_key_refs
+ADD CONSTRAINT user_api_key_refs_local_base_url_check
+CHECK (provider <> 'local' OR base_url IS NOT NULL);
+
+-- Replace store_api_key with a version that records the local server
+DROP FUNCTION IF EXISTS store_api_key(uuid, text, text, text, text);
+
+CREATE OR REPLACE FUNCTION store_api_key(
+  p_user_id uuid,
+  p_provider text,
+  p_api_key text,
+  p_key_name text DEFAULT 'Default',
+  p_model text DEFAULT null,
+  p_base_url text DEFAULT null,
+  p_api_flavor text DEFAULT null
+)
+RETURNS uuid AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_secret_name text;
+  v_secret_id uuid;
+  v_ref_id uuid;
+BEGIN
+  -- Callers can only write their own key: base_url decides where that
+  -- user's prompts are sent. p_user_id stays for existing callers.
+  IF v_user_id IS NULL OR p_user_id IS DISTINCT FROM v_user_id THEN
+    RAISE EXCEPTION 'Cannot store an API key for another user';
+  END IF;
+
+  v_secret_name := generate_vault_secret_name(v_user_id, p_provider);
+
+  DELETE FROM vault.secrets WHERE name = v_secret_name;
+
+  DELETE FROM user_api_key_refs
+  WHERE user_id = v_user_id AND provider = p_provider;
+
+  SELECT vault.create_secret(p_api_key, v_secret_name, 'API key for ' || p_provider)
+  INTO v_secret_id;
+
+  INSERT INTO user_api_key_refs (user_id, provider, vault_secret_name, key_name, model, is_active, base_url, api_flavor)
+  VALUES (
+    v_user_id,
+    p_provider,
+    v_secret_name,
+    p_key_name,
+    p_model,
+    true,
+    p_base_url,
+    CASE WHEN p_provider = 'local' THEN coalesce(p_api_flavor, 'openai-compatible') END
+  )
+  RETURNING id INTO v_ref_id;
+
+  RETURN v_ref_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION store_api_key(uuid, text, text, text, text, text, text) TO authenticated;
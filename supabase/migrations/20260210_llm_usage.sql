@@ -0,0 +1,85 @@
+-- Track LLM token usage and estimated cost, with optional spend limits
+-- Edge Functions insert one row per LLM call (service role) and check
+-- usage_budgets before calling the provider. Costs are estimates from the
+-- price table in supabase/functions/_shared/usage.ts.
+
+CREATE TABLE IF NOT EXISTS llm_usage (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  -- Sessions are the "projects" usage is reported against
+  session_id UUID REFERENCES vibe_sessions(id) ON DELETE SET NULL,
+  variant_id UUID REFERENCES vibe_variants(id) ON DELETE SET NULL,
+  function_name TEXT NOT NULL,
+  provider TEXT NOT NULL,
+  model TEXT NOT NULL,
+  input_tokens INTEGER NOT NULL DEFAULT 0,
+  output_tokens INTEGER NOT NULL DEFAULT 0,
+  latency_ms INTEGER,
+  estimated_cost_usd NUMERIC(12, 6) NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_llm_usage_user_created ON llm_usage(user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_llm_usage_session_id ON llm_usage(session_id);
+
+ALTER TABLE llm_usage ENABLE ROW LEVEL SECURITY;
+
+-- Read-only for users; rows are written by Edge Functions with the service role
+CREATE POLICY "Users can view own LLM usage"
+  ON llm_usage FOR SELECT
+  USING (auth.uid() = user_id);
+
+-- A budget without a session is an account-wide limit per calendar month;
+-- a session budget caps the total spend of that project.
+CREATE TABLE IF NOT EXISTS usage_budgets (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  session_id UUID REFERENCES vibe_sessions(id) ON DELETE CASCADE,
+  limit_usd NUMERIC(10, 2) NOT NULL CHECK (limit_usd > 0),
+  created_at TIMESTAMPTZ DEFAULT now(),
+  updated_at TIMESTAMPTZ DEFAULT now(),
+  UNIQUE NULLS NOT DISTINCT (user_id, session_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_usage_budgets_user_id ON usage_budgets(user_id);
+
+ALTER TABLE usage_budgets ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own usage budgets"
+  ON usage_budgets FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own usage budgets"
+  ON usage_budgets FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own usage budgets"
+  ON usage_budgets FOR UPDATE
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own usage budgets"
+  ON usage_budgets FOR DELETE
+  USING (auth.uid() = user_id);
+
+CREATE TRIGGER usage_budgets_updated_at
+  BEFORE UPDATE ON usage_budgets
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at();
+
+-- Budgets that apply to a call in this session and are already used up
+CREATE OR REPLACE FUNCTION get_exceeded_budgets(p_user_id uuid, p_session_id uuid DEFAULT null)
+RETURNS TABLE (budget_id uuid, session_id uuid, limit_usd numeric, spent_usd numeric) AS $$
+  SELECT b.id, b.session_id, b.limit_usd, coalesce(sum(u.estimated_cost_usd), 0)
+  FROM usage_budgets b
+  LEFT JOIN llm_usage u ON u.user_id = b.user_id AND (
+    (b.session_id IS NULL AND u.created_at >= date_trunc('month', now()))
+    OR u.session_id = b.session_id
+  )
+  WHERE b.user_id = p_user_id
+    AND (b.session_id IS NULL OR b.session_id = p_session_id)
+  GROUP BY b.id, b.session_id, b.limit_usd
+  HAVING coalesce(sum(u.estimated_cost_usd), 0) >= b.limit_usd
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- Takes any user id, so only Edge Functions (service role) may call it
+REVOKE EXECUTE ON FUNCTION get_exceeded_budgets(uuid, uuid) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION get_exceeded_budgets(uuid, uuid) TO service_role;
@@ -0,0 +1,178 @@
+-- Multi-screen prototype flows
+-- A flow links generated variants (nodes) with hotspots: clicking an element
+-- matched by a hotspot's selector on one screen opens its target screen with
+-- a transition. Nodes and hotspots are stored as JSON on the flow, the same
+-- shape the flow editor works with.
+
+CREATE TABLE IF NOT EXISTS prototype_flows (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  description TEXT,
+  -- id of the node the flow opens at
+  start_node_id TEXT,
+  -- [{ id, sessionId, variantIndex, title, x, y }]
+  nodes JSONB NOT NULL DEFAULT '[]'::jsonb,
+  -- [{ id, source, target, selector, label, transition }]
+  hotspots JSONB NOT NULL DEFAULT '[]'::jsonb,
+  created_at TIMESTAMPTZ DEFAULT now(),
+  updated_at TIMESTAMPTZ DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_prototype_flows_user_id ON prototype_flows(user_id, updated_at DESC);
+
+ALTER TABLE prototype_flows ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own flows"
+  ON prototype_flows FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own flows"
+  ON prototype_flows FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own flows"
+  ON prototype_flows FOR UPDATE
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own flows"
+  ON prototype_flows FOR DELETE
+  USING (auth.uid() = user_id);
+
+CREATE TRIGGER prototype_flows_updated_at
+  BEFORE UPDATE ON prototype_flows
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at();
+
+-- Nodes are free-form JSON under the owner's RLS, but flow shares read
+-- their screens as SECURITY DEFINER: every node must name one of the
+-- owner's own sessions, or a flow could expose variants never shared
+CREATE OR REPLACE FUNCTION flow_nodes_owned_by(p_nodes JSONB, p_user_id UUID)
+RETURNS BOOLEAN AS $$
+  SELECT NOT EXISTS (
+    SELECT 1
+    FROM jsonb_array_elements(p_nodes) AS node
+    WHERE NOT EXISTS (
+      SELECT 1 FROM vibe_sessions vs
+      WHERE vs.id::TEXT = node->>'sessionId'
+        AND vs.user_id = p_user_id
+    )
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION check_flow_nodes_owned()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NOT flow_nodes_owned_by(NEW.nodes, NEW.user_id) THEN
+    RAISE EXCEPTION 'Flow screens must come from your own sessions';
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE TRIGGER prototype_flows_own_sessions
+  BEFORE INSERT OR UPDATE OF nodes, user_id ON prototype_flows
+  FOR EACH ROW EXECUTE FUNCTION check_flow_nodes_owned();
+
+-- Flow shares: one link for the whole flow. session_id holds the start
+-- screen's session so existing share listings keep working.
+ALTER TABLE vibe_shares ADD COLUMN IF NOT EXISTS flow_id UUID REFERENCES prototype_flows(id) ON DELETE CASCADE;
+
+ALTER TABLE vibe_shares DROP CONSTRAINT IF EXISTS vibe_shares_share_type_check;
+ALTER TABLE vibe_shares ADD CONSTRAINT vibe_shares_share_type_check
+  CHECK (share_type IN ('specific', 'random', 'flow'));
+
+ALTER TABLE vibe_shares ADD CONSTRAINT valid_flow_share
+  CHECK (share_type != 'flow' OR flow_id IS NOT NULL);
+
+CREATE INDEX IF NOT EXISTS idx_vibe_shares_flow ON vibe_shares(flow_id) WHERE flow_id IS NOT NULL;
+
+CREATE OR REPLACE FUNCTION create_flow_share_link(
+  p_flow_id UUID,
+  p_expires_in_days INTEGER DEFAULT NULL
+)
+RETURNS TABLE(share_id UUID, share_token TEXT) AS $$
+DECLARE
+  v_flow RECORD;
+  v_session_id UUID;
+  v_token TEXT;
+  v_share_id UUID;
+  v_expires_at TIMESTAMPTZ;
+BEGIN
+  SELECT * INTO v_flow
+  FROM prototype_flows f
+  WHERE f.id = p_flow_id AND f.user_id = auth.uid();
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Flow not found';
+  END IF;
+
+  IF NOT flow_nodes_owned_by(v_flow.nodes, auth.uid()) THEN
+    RAISE EXCEPTION 'Flow includes screens from sessions you do not own';
+  END IF;
+
+  SELECT (node->>'sessionId')::UUID INTO v_session_id
+  FROM jsonb_array_elements(v_flow.nodes) AS node
+  WHERE node->>'id' = v_flow.start_node_id;
+
+  IF v_session_id IS NULL THEN
+    RAISE EXCEPTION 'Flow has no start screen';
+  END IF;
+
+  LOOP
+    v_token := generate_share_token();
+    EXIT WHEN NOT EXISTS (SELECT 1 FROM vibe_shares WHERE vibe_shares.share_token = v_token);
+  END LOOP;
+
+  IF p_expires_in_days IS NOT NULL THEN
+    v_expires_at := now() + (p_expires_in_days || ' days')::interval;
+  END IF;
+
+  INSERT INTO vibe_shares (session_id, user_id, share_type, share_token, expires_at, flow_id)
+  VALUES (v_session_id, auth.uid(), 'flow', v_token, v_expires_at, p_flow_id)
+  RETURNING id INTO v_share_id;
+
+  RETURN QUERY SELECT v_share_id, v_token;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Public read of a shared flow: the graph plus the HTML of every screen in it
+CREATE OR REPLACE FUNCTION get_flow_share_data(p_share_token TEXT)
+RETURNS TABLE (
+  share_id UUID,
+  flow_id UUID,
+  flow_name TEXT,
+  start_node_id TEXT,
+  nodes JSONB,
+  hotspots JSONB,
+  node_id TEXT,
+  html_url TEXT,
+  edited_html TEXT
+) AS $$
+  SELECT
+    s.id,
+    f.id,
+    f.name,
+    f.start_node_id,
+    f.nodes,
+    f.hotspots,
+    node->>'id',
+    vv.html_url,
+    vv.edited_html
+  FROM vibe_shares s
+  JOIN prototype_flows f ON f.id = s.flow_id
+  CROSS JOIN LATERAL jsonb_array_elements(f.nodes) AS node
+  -- Only the flow owner's sessions, whatever the nodes name
+  LEFT JOIN vibe_sessions vs
+    ON vs.id::TEXT = node->>'sessionId'
+    AND vs.user_id = s.user_id
+  LEFT JOIN vibe_variants vv
+    ON vv.session_id = vs.id
+    AND vv.variant_index = (node->>'variantIndex')::INTEGER
+  WHERE s.share_token = p_share_token
+    AND s.share_type = 'flow'
+    AND s.is_active = true
+    AND (s.expires_at IS NULL OR s.expires_at > now());
+$$ LANGUAGE sql SECURITY DEFINER;
+
+COMMENT ON TABLE prototype_flows IS 'Screens linked by hotspots into a navigable prototype';
+COMMENT ON COLUMN vibe_shares.flow_id IS 'Flow opened by a share of type flow, at its start node';
@@ -0,0 +1,76 @@
+-- Visual Builder projects
+-- A project is one canvas: its elements, interactions and variables are
+-- stored as a single JSON document in the same shape as the builder's JSON
+-- export. Named versions keep copies of that document to restore later.
+
+CREATE TABLE IF NOT EXISTS visual_builder_projects (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  -- { version, elements, interactions, variables }
+  document JSONB NOT NULL DEFAULT '{"version": "1.0", "elements": [], "interactions": {}, "variables": []}'::jsonb,
+  canvas_width INTEGER NOT NULL DEFAULT 1200,
+  canvas_height INTEGER NOT NULL DEFAULT 800,
+  created_at TIMESTAMPTZ DEFAULT now(),
+  updated_at TIMESTAMPTZ DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_visual_builder_projects_user_id
+  ON visual_builder_projects(user_id, updated_at DESC);
+
+ALTER TABLE visual_builder_projects ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own visual builder projects"
+  ON visual_builder_projects FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own visual builder projects"
+  ON visual_builder_projects FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own visual builder projects"
+  ON visual_builder_projects FOR UPDATE
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own visual builder projects"
+  ON visual_builder_projects FOR DELETE
+  USING (auth.uid() = user_id);
+
+CREATE TRIGGER visual_builder_projects_updated_at
+  BEFORE UPDATE ON visual_builder_projects
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at();
+
+CREATE TABLE IF NOT EXISTS visual_builder_versions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  project_id UUID NOT NULL REFERENCES visual_builder_projects(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  document JSONB NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_visual_builder_versions_project
+  ON visual_builder_versions(project_id, created_at DESC);
+
+ALTER TABLE visual_builder_versions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own visual builder versions"
+  ON visual_builder_versions FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own visual builder versions"
+  ON visual_builder_versions FOR INSERT
+  WITH CHECK (
+    auth.uid() = user_id
+    AND EXISTS (
+      SELECT 1 FROM visual_builder_projects p
+      WHERE p.id = project_id AND p.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can delete own visual builder versions"
+  ON visual_builder_versions FOR DELETE
+  USING (auth.uid() = user_id);
+
+COMMENT ON TABLE visual_builder_projects IS 'Saved Visual Builder canvases';
+COMMENT ON TABLE visual_builder_versions IS 'Named snapshots of a Visual Builder project document';
@@ -0,0 +1,132 @@
+-- Element-anchored pin comments
+-- position_x / position_y place a pin as a percentage of the preview, which
+-- drifts off its target when the viewport width changes or the variant is
+-- iterated. A pin can now also carry an anchor: the element it was dropped
+-- on (stable data-vx-id and/or CSS path) and the offset within it, resolved
+-- against the rendered prototype. The percentages stay as the fallback for
+-- pins whose element is gone.
+
+ALTER TABLE share_comments ADD COLUMN IF NOT EXISTS anchor JSONB;
+
+COMMENT ON COLUMN share_comments.anchor IS
+  'Element a pin is attached to: { elementId, selector, tagName, text, offsetX, offsetY }';
+
+-- add_share_comment gains p_anchor; drop the old signature so calls stay unambiguous
+DROP FUNCTION IF EXISTS add_share_comment(TEXT, TEXT, TEXT, TEXT, FLOAT, FLOAT, INTEGER, UUID);
+
+CREATE OR REPLACE FUNCTION add_share_comment(
+  p_share_token TEXT,
+  p_content TEXT,
+  p_user_email TEXT,
+  p_user_name TEXT,
+  p_position_x FLOAT DEFAULT NULL,
+  p_position_y FLOAT DEFAULT NULL,
+  p_variant_index INTEGER DEFAULT NULL,
+  p_parent_id UUID DEFAULT NULL,
+  p_anchor JSONB DEFAULT NULL
+)
+RETURNS UUID AS $$
+DECLARE
+  v_share_id UUID;
+  v_comment_id UUID;
+  v_user_id UUID;
+BEGIN
+  -- Get share ID from token
+  SELECT id INTO v_share_id
+  FROM vibe_shares
+  WHERE share_token = p_share_token
+    AND is_active = true
+    AND (expires_at IS NULL OR expires_at > now());
+
+  IF v_share_id IS NULL THEN
+    RAISE EXCEPTION 'Invalid or expired share link';
+  END IF;
+
+  -- Get user ID if authenticated
+  v_user_id := auth.uid();
+
+  -- Insert comment
+  INSERT INTO share_comments (
+    share_id, user_id, user_email, user_name, content,
+    position_x, position_y, variant_index, parent_id, anchor
+  )
+  VALUES (
+    v_share_id, v_user_id, p_user_email, p_user_name, p_content,
+    p_position_x, p_position_y, p_variant_index, p_parent_id, p_anchor
+  )
+  RETURNING id INTO v_comment_id;
+
+  -- Update insights aggregation
+  INSERT INTO share_feedback_insights (share_id, session_id, variant_index, total_comments, unique_commenters)
+  SELECT
+    v_share_id,
+    vs.session_id,
+    p_variant_index,
+    1,
+    1
+  FROM vibe_shares vs
+  WHERE vs.id = v_share_id
+  ON CONFLICT (share_id, variant_index)
+  DO UPDATE SET
+    total_comments = share_feedback_insights.total_comments + 1,
+    unique_commenters = (
+      SELECT COUNT(DISTINCT user_email)
+      FROM share_comments
+      WHERE share_id = v_share_id
+      AND (variant_index = p_variant_index OR (variant_index IS NULL AND p_variant_index IS NULL))
+    ),
+    updated_at = now();
+
+  RETURN v_comment_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- The return type changes, so the function has to be dropped first
+DROP FUNCTION IF EXISTS get_share_comments(TEXT);
+
+CREATE OR REPLACE FUNCTION get_share_comments(p_share_token TEXT)
+RETURNS TABLE (
+  id UUID,
+  user_id UUID,
+  user_email TEXT,
+  user_name TEXT,
+  content TEXT,
+  position_x FLOAT,
+  position_y FLOAT,
+  anchor JSONB,
+  variant_index INTEGER,
+  parent_id UUID,
+  resolved BOOLEAN,
+  resolved_by UUID,
+  resolved_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ,
+  updated_at TIMESTAMPTZ,
+  reply_count BIGINT
+) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    sc.id,
+    sc.user_id,
+    sc.user_email,
+    sc.user_name,
+    sc.content,
+    sc.position_x,
+    sc.position_y,
+    sc.anchor,
+    sc.variant_index,
+    sc.parent_id,
+    sc.resolved,
+    sc.resolved_by,
+    sc.resolved_at,
+    sc.created_at,
+    sc.updated_at,
+    (SELECT COUNT(*) FROM share_comments replies WHERE replies.parent_id = sc.id) AS reply_count
+  FROM share_comments sc
+  INNER JOIN vibe_shares vs ON vs.id = sc.share_id
+  WHERE vs.share_token = p_share_token
+    AND vs.is_active = true
+    AND (vs.expires_at IS NULL OR vs.expires_at > now())
+  ORDER BY sc.created_at ASC;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
@@ -0,0 +1,835 @@
+-- Protected share links
+-- Until now anyone holding a share token could open the share. A link can
+-- now require any combination of:
+--   * a password, hashed here with bcrypt and never readable by clients
+--   * a signed-in email on an allowed domain (verified by magic link)
+--   * a view limit, counted per distinct viewer that unlocks the link
+-- A viewer unlocks a protected link with unlock_share, which hands out an
+-- access grant; every public share RPC takes that grant and refuses
+-- protected shares without a valid one. Revoking a link, unlocks and
+-- failed attempts are recorded in vibe_share_audit. A revoked link stays
+-- revoked: it can't be switched back on.
+
+CREATE EXTENSION IF NOT EXISTS pgcrypto WITH SCHEMA extensions;
+
+-- ============================================================================
+-- TABLES
+-- ============================================================================
+
+ALTER TABLE vibe_shares
+  ADD COLUMN IF NOT EXISTS requires_password BOOLEAN NOT NULL DEFAULT false,
+  ADD COLUMN IF NOT EXISTS allowed_domains TEXT[],
+  ADD COLUMN IF NOT EXISTS max_views INTEGER CHECK (max_views IS NULL OR max_views > 0),
+  ADD COLUMN IF NOT EXISTS revoked_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS revoked_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS revoke_reason TEXT;
+
+COMMENT ON COLUMN vibe_shares.allowed_domains IS 'Email domains a viewer must sign in with, e.g. {acme.com}; NULL = anyone';
+COMMENT ON COLUMN vibe_shares.max_views IS 'Most viewers that may unlock the link; NULL = unlimited';
+
+ALTER TABLE vibe_shares
+  ADD CONSTRAINT vibe_shares_revoked_inactive CHECK (revoked_at IS NULL OR is_active = false);
+
+-- Owners may update their own shares directly, so revocation is enforced
+-- here rather than only in revoke_share_link
+CREATE OR REPLACE FUNCTION keep_share_revoked()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF OLD.revoked_at IS NOT NULL AND (
+    NEW.revoked_at IS DISTINCT FROM OLD.revoked_at
+    OR NEW.revoked_by IS DISTINCT FROM OLD.revoked_by
+    OR NEW.revoke_reason IS DISTINCT FROM OLD.revoke_reason
+  ) THEN
+    RAISE EXCEPTION 'A revoked share link cannot be restored';
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER vibe_shares_keep_revoked
+  BEFORE UPDATE ON vibe_shares
+  FOR EACH ROW
+  EXECUTE FUNCTION keep_share_revoked();
+
+-- Password hashes live apart from vibe_shares so no policy can expose them
+CREATE TABLE IF NOT EXISTS vibe_share_secrets (
+  share_id UUID PRIMARY KEY REFERENCES vibe_shares(id) ON DELETE CASCADE,
+  password_hash TEXT NOT NULL
+);
+
+-- No policies: only the functions below read or write secrets
+ALTER TABLE vibe_share_secrets ENABLE ROW LEVEL SECURITY;
+
+-- One row per unlock of a protected link; a viewer who unlocks again gets
+-- a new grant but still counts once against the view limit
+CREATE TABLE IF NOT EXISTS vibe_share_grants (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  share_id UUID NOT NULL REFERENCES vibe_shares(id) ON DELETE CASCADE,
+  grant_token TEXT UNIQUE NOT NULL,
+  viewer_id TEXT NOT NULL,  -- The signed-in user, else the browser's viewer id
+  viewer_email TEXT,
+  created_at TIMESTAMPTZ DEFAULT now(),
+  expires_at TIMESTAMPTZ NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_vibe_share_grants_share ON vibe_share_grants(share_id, viewer_id);
+
+ALTER TABLE vibe_share_grants ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Share owners can view grants"
+  ON vibe_share_grants
+  FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM vibe_shares
+      WHERE vibe_shares.id = vibe_share_grants.share_id
+      AND vibe_shares.user_id = auth.uid()
+    )
+  );
+
+CREATE TABLE IF NOT EXISTS vibe_share_audit (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  share_id UUID NOT NULL REFERENCES vibe_shares(id) ON DELETE CASCADE,
+  action TEXT NOT NULL CHECK (action IN ('created', 'unlocked', 'unlock_failed', 'view_limit_reached', 'revoked')),
+  actor_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  actor_email TEXT,
+  detail JSONB,
+  created_at TIMESTAMPTZ DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_vibe_share_audit_share ON vibe_share_audit(share_id, created_at DESC);
+
+-- Failed unlocks per link. The viewer id and forwarded address are up to the
+-- client, so the backoff that guesses can't get around is kept per link
+CREATE TABLE IF NOT EXISTS vibe_share_unlock_failures (
+  share_id UUID PRIMARY KEY REFERENCES vibe_shares(id) ON DELETE CASCADE,
+  failed_count INTEGER NOT NULL DEFAULT 0,
+  last_failed_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  locked_until TIMESTAMPTZ
+);
+
+-- No policies: only unlock_share reads or writes failures
+ALTER TABLE vibe_share_unlock_failures ENABLE ROW LEVEL SECURITY;
+
+ALTER TABLE vibe_share_audit ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Share owners can view audit trail"
+  ON vibe_share_audit
+  FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM vibe_shares
+      WHERE vibe_shares.id = vibe_share_audit.share_id
+      AND vibe_shares.user_id = auth.uid()
+    )
+  );
+
+-- ============================================================================
+-- ACCESS CHECKS
+-- ============================================================================
+
+-- Open and not protected: readable by anyone with the token, as before
+CREATE OR REPLACE FUNCTION share_is_public(p_share_id UUID)
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM vibe_shares s
+    WHERE s.id = p_share_id
+      AND s.is_active = true
+      AND s.revoked_at IS NULL
+      AND (s.expires_at IS NULL OR s.expires_at > now())
+      AND s.requires_password = false
+      AND s.allowed_domains IS NULL
+      AND s.max_views IS NULL
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public, extensions;
+
+-- Whether a viewer may read a share: open links need nothing, protected
+-- ones an unexpired grant for that share. Owners always may.
+CREATE OR REPLACE FUNCTION share_access_allowed(p_share_id UUID, p_access_grant TEXT)
+RETURNS BOOLEAN AS $$
+  SELECT share_is_public(p_share_id) OR EXISTS (
+    SELECT 1 FROM vibe_shares s WHERE s.id = p_share_id AND s.user_id = auth.uid()
+  ) OR EXISTS (
+    SELECT 1
+    FROM vibe_share_grants g
+    JOIN vibe_shares s ON s.id = g.share_id
+    WHERE g.share_id = p_share_id
+      AND g.grant_token = p_access_grant
+      AND g.expires_at > now()
+      AND s.is_active = true
+      AND s.revoked_at IS NULL
+      AND (s.expires_at IS NULL OR s.expires_at > now())
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public, extensions;
+
+-- The share a token opens for this viewer, or NULL
+CREATE OR REPLACE FUNCTION share_id_for_viewer(p_share_token TEXT, p_access_grant TEXT)
+RETURNS UUID AS $$
+  SELECT s.id
+  FROM vibe_shares s
+  WHERE s.share_token = p_share_token
+    AND share_access_allowed(s.id, p_access_grant);
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public, extensions;
+
+-- Protected shares are no longer readable straight from the tables
+DROP POLICY IF EXISTS "Anyone can view active shares by token" ON vibe_shares;
+
+CREATE POLICY "Anyone can view open shares by token"
+  ON vibe_shares
+  FOR SELECT
+  USING (share_is_public(id));
+
+DROP POLICY IF EXISTS "Anyone can view comments on active shares" ON share_comments;
+
+CREATE POLICY "Anyone can view comments on open shares"
+  ON share_comments
+  FOR SELECT
+  USING (share_is_public(share_id));
+
+CREATE POLICY "Share owners can view comments"
+  ON share_comments
+  FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM vibe_shares
+      WHERE vibe_shares.id = share_comments.share_id
+      AND vibe_shares.user_id = auth.uid()
+    )
+  );
+
+DROP POLICY IF EXISTS "Anyone can add comments on active shares" ON share_comments;
+
+CREATE POLICY "Anyone can add comments on open shares"
+  ON share_comments
+  FOR INSERT
+  WITH CHECK (share_is_public(share_id));
+
+-- ============================================================================
+-- CREATING, UNLOCKING AND REVOKING LINKS
+-- ============================================================================
+
+-- Lowercased bare domains ("@Acme.com " -> "acme.com"), NULL when none
+CREATE OR REPLACE FUNCTION normalize_share_domains(p_domains TEXT[])
+RETURNS TEXT[] AS $$
+  SELECT NULLIF(
+    ARRAY(
+      SELECT DISTINCT lower(trim(leading '@' FROM trim(d)))
+      FROM unnest(COALESCE(p_domains, '{}')) AS d
+      WHERE trim(d) <> ''
+    ),
+    '{}'
+  );
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Apply a new link's protections and record its creation
+CREATE OR REPLACE FUNCTION protect_share_link(
+  p_share_id UUID,
+  p_password TEXT,
+  p_allowed_domains TEXT[],
+  p_max_views INTEGER
+)
+RETURNS VOID AS $$
+DECLARE
+  v_domains TEXT[] := normalize_share_domains(p_allowed_domains);
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM vibe_shares WHERE id = p_share_id AND user_id = auth.uid()) THEN
+    RAISE EXCEPTION 'Share not found';
+  END IF;
+
+  IF p_password IS NOT NULL AND length(p_password) > 0 THEN
+    IF length(p_password) < 6 THEN
+      RAISE EXCEPTION 'Share passwords must be at least 6 characters';
+    END IF;
+    INSERT INTO vibe_share_secrets (share_id, password_hash)
+    VALUES (p_share_id, extensions.crypt(p_password, extensions.gen_salt('bf')));
+  END IF;
+
+  UPDATE vibe_shares
+  SET requires_password = (p_password IS NOT NULL AND length(p_password) > 0),
+      allowed_domains = v_domains,
+      max_views = p_max_views
+  WHERE id = p_share_id;
+
+  INSERT INTO vibe_share_audit (share_id, action, actor_id, actor_email, detail)
+  VALUES (
+    p_share_id, 'created', auth.uid(), auth.jwt()->>'email',
+    jsonb_build_object(
+      'password', p_password IS NOT NULL AND length(p_password) > 0,
+      'allowed_domains', to_jsonb(v_domains),
+      'max_views', p_max_views
+    )
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, extensions;
+
+-- create_share_link gains the protections; drop the old signature so calls stay unambiguous
+DROP FUNCTION IF EXISTS create_share_link(UUID, TEXT, INTEGER, INTEGER, BOOLEAN);
+
+CREATE OR REPLACE FUNCTION create_share_link(
+  p_session_id UUID,
+  p_share_type TEXT,
+  p_variant_index INTEGER DEFAULT NULL,
+  p_expires_in_days INTEGER DEFAULT NULL,
+  p_share_wireframes BOOLEAN DEFAULT FALSE,
+  p_password TEXT DEFAULT NULL,
+  p_allowed_domains TEXT[] DEFAULT NULL,
+  p_max_views INTEGER DEFAULT NULL
+)
+RETURNS TABLE(share_id UUID, share_token TEXT) AS $$
+DECLARE
+  v_token TEXT;
+  v_share_id UUID;
+  v_expires_at TIMESTAMPTZ;
+BEGIN
+  -- Generate unique token
+  LOOP
+    v_token := generate_share_token();
+    EXIT WHEN NOT EXISTS (SELECT 1 FROM vibe_shares WHERE vibe_shares.share_token = v_token);
+  END LOOP;
+
+  -- Calculate expiration
+  IF p_expires_in_days IS NOT NULL THEN
+    v_expires_at := now() + (p_expires_in_days || ' days')::interval;
+  END IF;
+
+  INSERT INTO vibe_shares (session_id, user_id, share_type, variant_index, share_token, expires_at, share_wireframes)
+  VALUES (p_session_id, auth.uid(), p_share_type, p_variant_index, v_token, v_expires_at, p_share_wireframes)
+  RETURNING id INTO v_share_id;
+
+  PERFORM protect_share_link(v_share_id, p_password, p_allowed_domains, p_max_views);
+
+  RETURN QUERY SELECT v_share_id, v_token;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, extensions;
+
+DROP FUNCTION IF EXISTS create_flow_share_link(UUID, INTEGER);
+
+CREATE OR REPLACE FUNCTION create_flow_share_link(
+  p_flow_id UUID,
+  p_expires_in_days INTEGER DEFAULT NULL,
+  p_password TEXT DEFAULT NULL,
+  p_allowed_domains TEXT[] DEFAULT NULL,
+  p_max_views INTEGER DEFAULT NULL
+)
+RETURNS TABLE(share_id UUID, share_token TEXT) AS $$
+DECLARE
+  v_flow RECORD;
+  v_session_id UUID;
+  v_token TEXT;
+  v_share_id UUID;
+  v_expires_at TIMESTAMPTZ;
+BEGIN
+  SELECT * INTO v_flow
+  FROM prototype_flows f
+  WHERE f.id = p_flow_id AND f.user_id = auth.uid();
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Flow not found';
+  END IF;
+
+  IF NOT flow_nodes_owned_by(v_flow.nodes, auth.uid()) THEN
+    RAISE EXCEPTION 'Flow includes screens from sessions you do not own';
+  END IF;
+
+  SELECT (node->>'sessionId')::UUID INTO v_session_id
+  FROM jsonb_array_elements(v_flow.nodes) AS node
+  WHERE node->>'id' = v_flow.start_node_id;
+
+  IF v_session_id IS NULL THEN
+    RAISE EXCEPTION 'Flow has no start screen';
+  END IF;
+
+  LOOP
+    v_token := generate_share_token();
+    EXIT WHEN NOT EXISTS (SELECT 1 FROM vibe_shares WHERE vibe_shares.share_token = v_token);
+  END LOOP;
+
+  IF p_expires_in_days IS NOT NULL THEN
+    v_expires_at := now() + (p_expires_in_days || ' days')::interval;
+  END IF;
+
+  INSERT INTO vibe_shares (session_id, user_id, share_type, share_token, expires_at, flow_id)
+  VALUES (v_session_id, auth.uid(), 'flow', v_token, v_expires_at, p_flow_id)
+  RETURNING id INTO v_share_id;
+
+  PERFORM protect_share_link(v_share_id, p_password, p_allowed_domains, p_max_views);
+
+  RETURN QUERY SELECT v_share_id, v_token;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, extensions;
+
+-- What a viewer has to do before a link opens. Domains are not returned,
+-- so a link does not advertise who it was shared with.
+CREATE OR REPLACE FUNCTION get_share_access(p_share_token TEXT)
+RETURNS TABLE (
+  status TEXT,
+  requires_password BOOLEAN,
+  requires_email BOOLEAN
+) AS $$
+DECLARE
+  v_share RECORD;
+BEGIN
+  SELECT * INTO v_share FROM vibe_shares s WHERE s.share_token = p_share_token;
+
+  IF NOT FOUND THEN
+    RETURN QUERY SELECT 'not_found'::TEXT, false, false;
+  ELSIF v_share.revoked_at IS NOT NULL THEN
+    RETURN QUERY SELECT 'revoked'::TEXT, false, false;
+  ELSIF NOT v_share.is_active OR (v_share.expires_at IS NOT NULL AND v_share.expires_at <= now()) THEN
+    RETURN QUERY SELECT 'expired'::TEXT, false, false;
+  ELSIF share_is_public(v_share.id) THEN
+    RETURN QUERY SELECT 'open'::TEXT, false, false;
+  ELSE
+    RETURN QUERY SELECT 'protected'::TEXT, v_share.requires_password, v_share.allowed_domains IS NOT NULL;
+  END IF;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public, extensions;
+
+-- Count a failed unlock against the link. After five failures within an
+-- hour every further one doubles how long the link refuses unlocks, up to
+-- 15 minutes
+CREATE OR REPLACE FUNCTION record_share_unlock_failure(p_share_id UUID)
+RETURNS VOID AS $$
+  INSERT INTO vibe_share_unlock_failures AS f (share_id, failed_count, last_failed_at)
+  VALUES (p_share_id, 1, now())
+  ON CONFLICT (share_id) DO UPDATE SET
+    failed_count = CASE
+      WHEN f.last_failed_at > now() - interval '1 hour' THEN f.failed_count + 1
+      ELSE 1
+    END,
+    last_failed_at = now(),
+    locked_until = CASE
+      WHEN f.last_failed_at > now() - interval '1 hour' AND f.failed_count + 1 > 5
+        THEN now() + LEAST(interval '1 second' * power(2, LEAST(f.failed_count + 1 - 5, 10)), interval '15 minutes')
+    END;
+$$ LANGUAGE sql SECURITY DEFINER SET search_path = public, extensions;
+
+REVOKE EXECUTE ON FUNCTION record_share_unlock_failure(UUID) FROM PUBLIC, anon, authenticated;
+
+-- Unlock a protected link: check the password and the signed-in email's
+-- domain, count the viewer against the limit and hand out a grant.
+-- Refusals are returned as a status rather than raised, so the failed
+-- attempt stays in the audit trail. Failures back the whole link off (see
+-- record_share_unlock_failure); on top of that, ten failures within 15
+-- minutes from one viewer or one address hold that viewer off for a while.
+-- p_viewer_id identifies anonymous browsers; signed-in viewers are
+-- identified by their account.
+DROP FUNCTION IF EXISTS unlock_share(TEXT, TEXT);
+
+CREATE OR REPLACE FUNCTION unlock_share(
+  p_share_token TEXT,
+  p_password TEXT DEFAULT NULL,
+  p_viewer_id TEXT DEFAULT NULL
+)
+RETURNS TABLE(status TEXT, grant_token TEXT, expires_at TIMESTAMPTZ) AS $$
+DECLARE
+  v_share RECORD;
+  v_email TEXT := lower(auth.jwt()->>'email');
+  v_viewer TEXT := COALESCE(auth.uid()::TEXT, 'anon:' || NULLIF(left(trim(p_viewer_id), 64), ''));
+  v_ip_hash TEXT;
+  v_hash TEXT;
+  v_grant TEXT;
+  v_expires_at TIMESTAMPTZ;
+BEGIN
+  IF v_viewer IS NULL THEN
+    RETURN QUERY SELECT 'unavailable'::TEXT, NULL::TEXT, NULL::TIMESTAMPTZ;
+    RETURN;
+  END IF;
+
+  -- Clients can send their own X-Forwarded-For; the last address is the one
+  -- the gateway appended. Only its hash is kept
+  v_ip_hash := encode(extensions.digest(
+    COALESCE(trim(substring(current_setting('request.headers', true)::json->>'x-forwarded-for' FROM '[^,]*$')), ''),
+    'sha256'
+  ), 'hex');
+
+  -- Locked so concurrent unlocks are counted against the limit one at a time
+  SELECT * INTO v_share
+  FROM vibe_shares s
+  WHERE s.share_token = p_share_token
+    AND s.is_active = true
+    AND s.revoked_at IS NULL
+    AND (s.expires_at IS NULL OR s.expires_at > now())
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN QUERY SELECT 'unavailable'::TEXT, NULL::TEXT, NULL::TIMESTAMPTZ;
+    RETURN;
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM vibe_share_unlock_failures f
+    WHERE f.share_id = v_share.id AND f.locked_until > now()
+  ) OR (
+    SELECT COUNT(*) FROM vibe_share_audit a
+    WHERE a.share_id = v_share.id
+      AND a.action = 'unlock_failed'
+      AND a.created_at > now() - interval '15 minutes'
+      AND (a.detail->>'viewer' = v_viewer OR a.detail->>'ip' = v_ip_hash)
+  ) >= 10 THEN
+    RETURN QUERY SELECT 'locked'::TEXT, NULL::TEXT, NULL::TIMESTAMPTZ;
+    RETURN;
+  END IF;
+
+  IF v_share.requires_password THEN
+    SELECT password_hash INTO v_hash FROM vibe_share_secrets WHERE share_id = v_share.id;
+    IF p_password IS NULL OR v_hash IS NULL OR extensions.crypt(p_password, v_hash) <> v_hash THEN
+      INSERT INTO vibe_share_audit (share_id, action, actor_id, actor_email, detail)
+      VALUES (
+        v_share.id, 'unlock_failed', auth.uid(), v_email,
+        jsonb_build_object('reason', 'password', 'viewer', v_viewer, 'ip', v_ip_hash)
+      );
+      PERFORM record_share_unlock_failure(v_share.id);
+      RETURN QUERY SELECT 'wrong_password'::TEXT, NULL::TEXT, NULL::TIMESTAMPTZ;
+      RETURN;
+    END IF;
+  END IF;
+
+  IF v_share.allowed_domains IS NOT NULL THEN
+    IF v_email IS NULL THEN
+      RETURN QUERY SELECT 'sign_in_required'::TEXT, NULL::TEXT, NULL::TIMESTAMPTZ;
+      RETURN;
+    END IF;
+    IF NOT (split_part(v_email, '@', 2) = ANY (v_share.allowed_domains)) THEN
+      INSERT INTO vibe_share_audit (share_id, action, actor_id, actor_email, detail)
+      VALUES (
+        v_share.id, 'unlock_failed', auth.uid(), v_email,
+        jsonb_build_object('reason', 'domain', 'viewer', v_viewer, 'ip', v_ip_hash)
+      );
+      PERFORM record_share_unlock_failure(v_share.id);
+      RETURN QUERY SELECT 'domain_not_allowed'::TEXT, NULL::TEXT, NULL::TIMESTAMPTZ;
+      RETURN;
+    END IF;
+  END IF;
+
+  -- Viewers who already unlocked the link may come back without using up a view
+  IF v_share.max_views IS NOT NULL
+    AND NOT EXISTS (SELECT 1 FROM vibe_share_grants g WHERE g.share_id = v_share.id AND g.viewer_id = v_viewer)
+    AND (SELECT COUNT(DISTINCT g.viewer_id) FROM vibe_share_grants g WHERE g.share_id = v_share.id) >= v_share.max_views THEN
+    INSERT INTO vibe_share_audit (share_id, action, actor_id, actor_email)
+    VALUES (v_share.id, 'view_limit_reached', auth.uid(), v_email);
+    RETURN QUERY SELECT 'view_limit_reached'::TEXT, NULL::TEXT, NULL::TIMESTAMPTZ;
+    RETURN;
+  END IF;
+
+  v_grant := encode(extensions.gen_random_bytes(24), 'hex');
+  v_expires_at := LEAST(COALESCE(v_share.expires_at, 'infinity'), now() + interval '7 days');
+
+  INSERT INTO vibe_share_grants (share_id, grant_token, viewer_id, viewer_email, expires_at)
+  VALUES (v_share.id, v_grant, v_viewer, v_email, v_expires_at);
+
+  INSERT INTO vibe_share_audit (share_id, action, actor_id, actor_email)
+  VALUES (v_share.id, 'unlocked', auth.uid(), v_email);
+
+  DELETE FROM vibe_share_unlock_failures WHERE share_id = v_share.id;
+
+  RETURN QUERY SELECT 'granted'::TEXT, v_grant, v_expires_at;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, extensions;
+
+-- Revoke a link for good; its grants stop working with it
+CREATE OR REPLACE FUNCTION revoke_share_link(p_share_id UUID, p_reason TEXT DEFAULT NULL)
+RETURNS BOOLEAN AS $$
+BEGIN
+  UPDATE vibe_shares
+  SET is_active = false,
+      revoked_at = now(),
+      revoked_by = auth.uid(),
+      revoke_reason = NULLIF(trim(p_reason), '')
+  WHERE id = p_share_id
+    AND user_id = auth.uid()
+    AND revoked_at IS NULL;
+
+  IF NOT FOUND THEN
+    RETURN false;
+  END IF;
+
+  INSERT INTO vibe_share_audit (share_id, action, actor_id, actor_email, detail)
+  VALUES (
+    p_share_id, 'revoked', auth.uid(), auth.jwt()->>'email',
+    jsonb_build_object('reason', NULLIF(trim(p_reason), ''))
+  );
+
+  RETURN true;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, extensions;
+
+-- ============================================================================
+-- SHARE RPCs, NOW CHECKING ACCESS
+-- ============================================================================
+
+DROP FUNCTION IF EXISTS get_share_data(TEXT);
+
+CREATE OR REPLACE FUNCTION get_share_data(p_share_token TEXT, p_access_grant TEXT DEFAULT NULL)
+RETURNS TABLE (
+  share_id UUID,
+  session_id UUID,
+  share_type TEXT,
+  variant_index INTEGER,
+  share_wireframes BOOLEAN,
+  html_url TEXT,
+  wireframe_url TEXT,
+  title TEXT,
+  description TEXT,
+  screen_name TEXT,
+  thumbnail_url TEXT
+) AS $$
+DECLARE
+  v_share RECORD;
+  v_selected_variant INTEGER;
+BEGIN
+  SELECT * INTO v_share
+  FROM vibe_shares s
+  WHERE s.id = share_id_for_viewer(p_share_token, p_access_grant);
+
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  -- Determine which variant to show
+  IF v_share.share_type = 'random' THEN
+    SELECT vv.variant_index INTO v_selected_variant
+    FROM vibe_variants vv
+    WHERE vv.session_id = v_share.session_id
+      AND vv.is_selected = true
+      AND vv.status = 'complete'
+    ORDER BY RANDOM()
+    LIMIT 1;
+  ELSE
+    v_selected_variant := v_share.variant_index;
+  END IF;
+
+  IF v_share.share_wireframes THEN
+    RETURN QUERY
+    SELECT
+      v_share.id AS share_id,
+      v_share.session_id,
+      v_share.share_type::TEXT,
+      COALESCE(v_selected_variant, vp.variant_index) AS variant_index,
+      v_share.share_wireframes,
+      NULL::TEXT AS html_url,
+      vp.wireframe_url,
+      vp.title,
+      vp.description,
+      vs.name AS screen_name,
+      vs.thumbnail_url
+    FROM vibe_sessions vs
+    LEFT JOIN vibe_variant_plans vp ON vp.session_id = vs.id
+    WHERE vs.id = v_share.session_id
+      AND (v_selected_variant IS NULL OR vp.variant_index = v_selected_variant)
+    ORDER BY vp.variant_index;
+  ELSE
+    RETURN QUERY
+    SELECT
+      v_share.id AS share_id,
+      v_share.session_id,
+      v_share.share_type::TEXT,
+      v_selected_variant AS variant_index,
+      v_share.share_wireframes,
+      vv.html_url,
+      vp.wireframe_url,
+      vp.title,
+      vp.description,
+      vs.name AS screen_name,
+      vs.thumbnail_url
+    FROM vibe_sessions vs
+    LEFT JOIN vibe_variants vv ON vv.session_id = vs.id AND vv.variant_index = v_selected_variant
+    LEFT JOIN vibe_variant_plans vp ON vp.session_id = vs.id AND vp.variant_index = v_selected_variant
+    WHERE vs.id = v_share.session_id;
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, extensions;
+
+DROP FUNCTION IF EXISTS get_flow_share_data(TEXT);
+
+CREATE OR REPLACE FUNCTION get_flow_share_data(p_share_token TEXT, p_access_grant TEXT DEFAULT NULL)
+RETURNS TABLE (
+  share_id UUID,
+  flow_id UUID,
+  flow_name TEXT,
+  start_node_id TEXT,
+  nodes JSONB,
+  hotspots JSONB,
+  node_id TEXT,
+  html_url TEXT,
+  edited_html TEXT
+) AS $$
+  SELECT
+    s.id,
+    f.id,
+    f.name,
+    f.start_node_id,
+    f.nodes,
+    f.hotspots,
+    node->>'id',
+    vv.html_url,
+    vv.edited_html
+  FROM vibe_shares s
+  JOIN prototype_flows f ON f.id = s.flow_id
+  CROSS JOIN LATERAL jsonb_array_elements(f.nodes) AS node
+  -- Only the flow owner's sessions, whatever the nodes name
+  LEFT JOIN vibe_sessions vs
+    ON vs.id::TEXT = node->>'sessionId'
+    AND vs.user_id = s.user_id
+  LEFT JOIN vibe_variants vv
+    ON vv.session_id = vs.id
+    AND vv.variant_index = (node->>'variantIndex')::INTEGER
+  WHERE s.id = share_id_for_viewer(p_share_token, p_access_grant)
+    AND s.share_type = 'flow';
+$$ LANGUAGE sql SECURITY DEFINER SET search_path = public, extensions;
+
+DROP FUNCTION IF EXISTS record_share_view_enhanced(UUID, INTEGER, TEXT, TEXT, TEXT, TEXT);
+
+CREATE OR REPLACE FUNCTION record_share_view_enhanced(
+  p_share_id UUID,
+  p_variant_index INTEGER,
+  p_viewer_email TEXT DEFAULT NULL,
+  p_viewer_name TEXT DEFAULT NULL,
+  p_session_id TEXT DEFAULT NULL,
+  p_user_agent TEXT DEFAULT NULL,
+  p_access_grant TEXT DEFAULT NULL
+)
+RETURNS UUID AS $$
+DECLARE
+  v_view_id UUID;
+  v_ip_hash TEXT := 'anonymous';
+BEGIN
+  IF NOT share_access_allowed(p_share_id, p_access_grant) THEN
+    RAISE EXCEPTION 'Invalid or expired share link';
+  END IF;
+
+  INSERT INTO vibe_share_views (
+    share_id, variant_index, viewer_email, viewer_name,
+    session_id, viewer_ip_hash, user_agent
+  )
+  VALUES (
+    p_share_id, p_variant_index, p_viewer_email, p_viewer_name,
+    p_session_id, v_ip_hash, p_user_agent
+  )
+  RETURNING id INTO v_view_id;
+
+  UPDATE vibe_shares
+  SET view_count = view_count + 1
+  WHERE id = p_share_id;
+
+  RETURN v_view_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, extensions;
+
+DROP FUNCTION IF EXISTS add_share_comment(TEXT, TEXT, TEXT, TEXT, FLOAT, FLOAT, INTEGER, UUID, JSONB);
+
+CREATE OR REPLACE FUNCTION add_share_comment(
+  p_share_token TEXT,
+  p_content TEXT,
+  p_user_email TEXT,
+  p_user_name TEXT,
+  p_position_x FLOAT DEFAULT NULL,
+  p_position_y FLOAT DEFAULT NULL,
+  p_variant_index INTEGER DEFAULT NULL,
+  p_parent_id UUID DEFAULT NULL,
+  p_anchor JSONB DEFAULT NULL,
+  p_access_grant TEXT DEFAULT NULL
+)
+RETURNS UUID AS $$
+DECLARE
+  v_share_id UUID;
+  v_comment_id UUID;
+  v_user_id UUID;
+BEGIN
+  v_share_id := share_id_for_viewer(p_share_token, p_access_grant);
+
+  IF v_share_id IS NULL THEN
+    RAISE EXCEPTION 'Invalid or expired share link';
+  END IF;
+
+  v_user_id := auth.uid();
+
+  INSERT INTO share_comments (
+    share_id, user_id, user_email, user_name, content,
+    position_x, position_y, variant_index, parent_id, anchor
+  )
+  VALUES (
+    v_share_id, v_user_id, p_user_email, p_user_name, p_content,
+    p_position_x, p_position_y, p_variant_index, p_parent_id, p_anchor
+  )
+  RETURNING id INTO v_comment_id;
+
+  -- Update insights aggregation
+  INSERT INTO share_feedback_insights (share_id, session_id, variant_index, total_comments, unique_commenters)
+  SELECT
+    v_share_id,
+    vs.session_id,
+    p_variant_index,
+    1,
+    1
+  FROM vibe_shares vs
+  WHERE vs.id = v_share_id
+  ON CONFLICT (share_id, variant_index)
+  DO UPDATE SET
+    total_comments = share_feedback_insights.total_comments + 1,
+    unique_commenters = (
+      SELECT COUNT(DISTINCT user_email)
+      FROM share_comments
+      WHERE share_id = v_share_id
+      AND (variant_index = p_variant_index OR (variant_index IS NULL AND p_variant_index IS NULL))
+    ),
+    updated_at = now();
+
+  RETURN v_comment_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, extensions;
+
+CREATE OR REPLACE FUNCTION get_share_comment_count(p_share_token TEXT, p_access_grant TEXT DEFAULT NULL)
+RETURNS TABLE (total BIGINT, unresolved BIGINT) AS $$
+  SELECT
+    COUNT(*),
+    COUNT(*) FILTER (WHERE sc.resolved IS NOT TRUE)
+  FROM share_comments sc
+  WHERE sc.share_id = share_id_for_viewer(p_share_token, p_access_grant);
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public, extensions;
+
+DROP FUNCTION IF EXISTS get_share_comments(TEXT);
+
+CREATE OR REPLACE FUNCTION get_share_comments(p_share_token TEXT, p_access_grant TEXT DEFAULT NULL)
+RETURNS TABLE (
+  id UUID,
+  user_id UUID,
+  user_email TEXT,
+  user_name TEXT,
+  content TEXT,
+  position_x FLOAT,
+  position_y FLOAT,
+  anchor JSONB,
+  variant_index INTEGER,
+  parent_id UUID,
+  resolved BOOLEAN,
+  resolved_by UUID,
+  resolved_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ,
+  updated_at TIMESTAMPTZ,
+  reply_count BIGINT
+) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    sc.id,
+    sc.user_id,
+    sc.user_email,
+    sc.user_name,
+    sc.content,
+    sc.position_x,
+    sc.position_y,
+    sc.anchor,
+    sc.variant_index,
+    sc.parent_id,
+    sc.resolved,
+    sc.resolved_by,
+    sc.resolved_at,
+    sc.created_at,
+    sc.updated_at,
+    (SELECT COUNT(*) FROM share_comments replies WHERE replies.parent_id = sc.id) AS reply_count
+  FROM share_comments sc
+  WHERE sc.share_id = share_id_for_viewer(p_share_token, p_access_grant)
+  ORDER BY sc.created_at ASC;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, extensions;
@@ -0,0 +1,115 @@
+-- Migration: Usability-test mode for share links
+-- Date: 2026-02-15
+--
+-- Owners attach tasks to a share link ("find the refund button"), each with
+-- a success criterion. Participants attempt them one at a time and every
+-- attempt is stored with its time on task, misclicks, outcome and rating so
+-- results can be compared per variant.
+
+-- ============================================================================
+-- TASKS
+-- ============================================================================
+-- [{ id, prompt, criterion: { type: 'click' | 'url' | 'state', ... } }]
+
+ALTER TABLE vibe_shares
+  ADD COLUMN IF NOT EXISTS usability_tasks JSONB;
+
+-- ============================================================================
+-- RESULTS
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS vibe_usability_results (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  share_id UUID NOT NULL REFERENCES vibe_shares(id) ON DELETE CASCADE,
+  session_id UUID NOT NULL REFERENCES vibe_sessions(id) ON DELETE CASCADE,
+  variant_index INTEGER NOT NULL,
+  task_id TEXT NOT NULL,
+  participant_id TEXT NOT NULL,  -- The viewer's session id from the share page
+  outcome TEXT NOT NULL CHECK (outcome IN ('success', 'fail', 'abandoned')),
+  duration_ms INTEGER NOT NULL CHECK (duration_ms >= 0),
+  clicks INTEGER NOT NULL DEFAULT 0,
+  misclicks INTEGER NOT NULL DEFAULT 0,
+  rating SMALLINT CHECK (rating BETWEEN 1 AND 5),
+  created_at TIMESTAMPTZ DEFAULT now(),
+  -- One attempt per task per participant
+  UNIQUE (share_id, participant_id, task_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_vibe_usability_results_session ON vibe_usability_results(session_id);
+
+ALTER TABLE vibe_usability_results ENABLE ROW LEVEL SECURITY;
+
+-- Participants write through record_usability_result; owners read
+CREATE POLICY "Share owners can view usability results"
+  ON vibe_usability_results
+  FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM vibe_shares
+      WHERE vibe_shares.id = vibe_usability_results.share_id
+      AND vibe_shares.user_id = auth.uid()
+    )
+  );
+
+-- ============================================================================
+-- FUNCTIONS
+-- ============================================================================
+
+-- The tasks of a share the viewer may open, or NULL when it has none
+CREATE OR REPLACE FUNCTION get_share_usability_tasks(p_share_token TEXT, p_access_grant TEXT DEFAULT NULL)
+RETURNS JSONB AS $$
+  SELECT s.usability_tasks
+  FROM vibe_shares s
+  WHERE s.id = share_id_for_viewer(p_share_token, p_access_grant)
+    AND s.is_active = true
+    AND (s.expires_at IS NULL OR s.expires_at > now());
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- Store one task attempt. Repeating an attempt keeps the first result.
+CREATE OR REPLACE FUNCTION record_usability_result(
+  p_share_token TEXT,
+  p_variant_index INTEGER,
+  p_task_id TEXT,
+  p_participant_id TEXT,
+  p_outcome TEXT,
+  p_duration_ms INTEGER,
+  p_clicks INTEGER,
+  p_misclicks INTEGER,
+  p_rating INTEGER DEFAULT NULL,
+  p_access_grant TEXT DEFAULT NULL
+)
+RETURNS BOOLEAN AS $$
+DECLARE
+  v_share RECORD;
+BEGIN
+  SELECT s.id, s.session_id, s.usability_tasks INTO v_share
+  FROM vibe_shares s
+  WHERE s.id = share_id_for_viewer(p_share_token, p_access_grant)
+    AND s.is_active = true
+    AND (s.expires_at IS NULL OR s.expires_at > now());
+
+  IF NOT FOUND THEN
+    RETURN false;
+  END IF;
+
+  -- Only tasks the owner defined
+  IF NOT EXISTS (
+    SELECT 1 FROM jsonb_array_elements(COALESCE(v_share.usability_tasks, '[]'::jsonb)) t
+    WHERE t->>'id' = p_task_id
+  ) THEN
+    RETURN false;
+  END IF;
+
+  INSERT INTO vibe_usability_results (
+    share_id, session_id, variant_index, task_id, participant_id,
+    outcome, duration_ms, clicks, misclicks, rating
+  )
+  VALUES (
+    v_share.id, v_share.session_id, p_variant_index, p_task_id, p_participant_id,
+    p_outcome, GREATEST(p_duration_ms, 0), GREATEST(p_clicks, 0), GREATEST(p_misclicks, 0), p_rating
+  )
+  ON CONFLICT (share_id, participant_id, task_id) DO NOTHING;
+
+  RETURN true;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
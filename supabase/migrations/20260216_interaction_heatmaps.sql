@@ -0,0 +1,95 @@
+-- Migration: Interaction events from shared prototypes, for heatmaps
+-- Date: 2026-02-16
+--
+-- The prototype runtime batches clicks, pointer movement, scroll depth and
+-- rage clicks while a share link is viewed. Positions are fractions (0-1)
+-- of the document's width and height so they can be drawn over the variant
+-- at any size.
+
+-- ============================================================================
+-- EVENTS
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS vibe_interaction_events (
+  id BIGINT GENERATED ALWAYS AS IDENTITY PRIMARY KEY,
+  share_id UUID NOT NULL REFERENCES vibe_shares(id) ON DELETE CASCADE,
+  session_id UUID NOT NULL REFERENCES vibe_sessions(id) ON DELETE CASCADE,
+  variant_index INTEGER NOT NULL,
+  participant_id TEXT NOT NULL,  -- The viewer's session id from the share page
+  event_type TEXT NOT NULL CHECK (event_type IN ('click', 'move', 'scroll', 'rage_click')),
+  x REAL CHECK (x BETWEEN 0 AND 1),
+  y REAL CHECK (y BETWEEN 0 AND 1),
+  depth REAL CHECK (depth BETWEEN 0 AND 1),  -- Scroll events: how far down the viewer has seen
+  selector TEXT,
+  occurred_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_vibe_interaction_events_variant
+  ON vibe_interaction_events(session_id, variant_index, occurred_at);
+
+ALTER TABLE vibe_interaction_events ENABLE ROW LEVEL SECURITY;
+
+-- Viewers write through record_interaction_events; owners read
+CREATE POLICY "Share owners can view interaction events"
+  ON vibe_interaction_events
+  FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM vibe_shares
+      WHERE vibe_shares.id = vibe_interaction_events.share_id
+      AND vibe_shares.user_id = auth.uid()
+    )
+  );
+
+-- ============================================================================
+-- FUNCTIONS
+-- ============================================================================
+
+-- Store a batch of events from one viewer. Batches are capped so a runaway
+-- page cannot flood the table; returns how many were stored.
+CREATE OR REPLACE FUNCTION record_interaction_events(
+  p_share_token TEXT,
+  p_variant_index INTEGER,
+  p_participant_id TEXT,
+  p_events JSONB,
+  p_access_grant TEXT DEFAULT NULL
+)
+RETURNS INTEGER AS $$
+DECLARE
+  v_share RECORD;
+  v_count INTEGER;
+BEGIN
+  SELECT s.id, s.session_id INTO v_share
+  FROM vibe_shares s
+  WHERE s.id = share_id_for_viewer(p_share_token, p_access_grant)
+    AND s.is_active = true
+    AND (s.expires_at IS NULL OR s.expires_at > now());
+
+  IF NOT FOUND OR jsonb_typeof(p_events) <> 'array' THEN
+    RETURN 0;
+  END IF;
+
+  INSERT INTO vibe_interaction_events (
+    share_id, session_id, variant_index, participant_id,
+    event_type, x, y, depth, selector, occurred_at
+  )
+  SELECT
+    v_share.id, v_share.session_id, p_variant_index, p_participant_id,
+    e.type,
+    LEAST(GREATEST(e.x, 0), 1),
+    LEAST(GREATEST(e.y, 0), 1),
+    LEAST(GREATEST(e.depth, 0), 1),
+    left(e.selector, 200),
+    -- Client clocks can't place events in the future
+    LEAST(COALESCE(to_timestamp(e.t / 1000.0), now()), now())
+  FROM (
+    SELECT * FROM jsonb_to_recordset(p_events)
+      AS e(type TEXT, x REAL, y REAL, depth REAL, selector TEXT, t DOUBLE PRECISION)
+    LIMIT 500
+  ) e
+  WHERE e.type IN ('click', 'move', 'scroll', 'rage_click');
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  RETURN v_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
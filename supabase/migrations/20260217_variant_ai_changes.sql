@@ -0,0 +1,11 @@
+-- Keep the AI edit operations each variant was generated with
+-- Each entry is {operation, inverse, rejected}: the operation as applied to
+-- the source screen, the operations that undo it (null when a later
+-- operation in the batch overrode its target) and whether the user has
+-- rejected it. Lets a single AI change be rejected or restored without
+-- touching the others.
+
+ALTER TABLE vibe_variants
+ADD COLUMN IF NOT EXISTS ai_changes JSONB;
+
+COMMENT ON COLUMN vibe_variants.ai_changes IS 'AI edit operations applied to the variant, with their inverses and rejection state';